@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE `Booking` (
+    `id` VARCHAR(191) NOT NULL,
+    `spaceId` VARCHAR(191) NOT NULL,
+    `title` VARCHAR(191) NOT NULL,
+    `attendees` INTEGER NOT NULL,
+    `startAt` DATETIME(3) NOT NULL,
+    `endAt` DATETIME(3) NOT NULL,
+    `status` ENUM('confirmed', 'cancelled') NOT NULL DEFAULT 'confirmed',
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `Booking_spaceId_startAt_endAt_idx`(`spaceId`, `startAt`, `endAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `Booking` ADD CONSTRAINT `Booking_spaceId_fkey` FOREIGN KEY (`spaceId`) REFERENCES `Space`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
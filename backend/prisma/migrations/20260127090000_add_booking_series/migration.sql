@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE `Booking` ADD COLUMN `recurrenceId` DATETIME(3) NULL,
+    ADD COLUMN `seriesId` VARCHAR(191) NULL;
+
+-- CreateTable
+CREATE TABLE `BookingSeries` (
+    `id` VARCHAR(191) NOT NULL,
+    `spaceId` VARCHAR(191) NOT NULL,
+    `title` VARCHAR(191) NOT NULL,
+    `attendees` INTEGER NOT NULL,
+    `startAt` DATETIME(3) NOT NULL,
+    `endAt` DATETIME(3) NOT NULL,
+    `rrule` VARCHAR(191) NOT NULL,
+    `timeZone` VARCHAR(191) NOT NULL DEFAULT 'UTC',
+    `status` ENUM('confirmed', 'cancelled') NOT NULL DEFAULT 'confirmed',
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `BookingSeries_spaceId_idx`(`spaceId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `Booking_seriesId_recurrenceId_idx` ON `Booking`(`seriesId`, `recurrenceId`);
+
+-- AddForeignKey
+ALTER TABLE `Booking` ADD CONSTRAINT `Booking_seriesId_fkey` FOREIGN KEY (`seriesId`) REFERENCES `BookingSeries`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `BookingSeries` ADD CONSTRAINT `BookingSeries_spaceId_fkey` FOREIGN KEY (`spaceId`) REFERENCES `Space`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX `Space_createdAt_id_idx` ON `Space`(`createdAt`, `id`);
+
+-- CreateIndex
+CREATE INDEX `Space_capacity_id_idx` ON `Space`(`capacity`, `id`);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `Space` ADD COLUMN `deletedAt` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `Space_deletedAt_idx` ON `Space`(`deletedAt`);
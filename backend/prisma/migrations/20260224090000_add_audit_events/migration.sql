@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE `AuditEvent` (
+    `id` VARCHAR(191) NOT NULL,
+    `entityType` VARCHAR(191) NOT NULL,
+    `entityId` VARCHAR(191) NOT NULL,
+    `action` ENUM('create', 'update', 'delete', 'restore') NOT NULL,
+    `changes` JSON NOT NULL,
+    `actorId` VARCHAR(191) NULL,
+    `requestId` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `AuditEvent_entityType_entityId_createdAt_idx`(`entityType`, `entityId`, `createdAt`),
+    INDEX `AuditEvent_createdAt_idx`(`createdAt`),
+    INDEX `AuditEvent_actorId_idx`(`actorId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `AuditEvent` ADD CONSTRAINT `AuditEvent_actorId_fkey` FOREIGN KEY (`actorId`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `Space` ADD COLUMN `version` INTEGER NOT NULL DEFAULT 1;
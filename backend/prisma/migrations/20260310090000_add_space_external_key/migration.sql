@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `Space` ADD COLUMN `externalKey` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `Space_externalKey_key` ON `Space`(`externalKey`);
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE `Amenity` (
+    `id` VARCHAR(191) NOT NULL,
+    `key` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `Amenity_key_key`(`key`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `SpaceAmenity` (
+    `spaceId` VARCHAR(191) NOT NULL,
+    `amenityId` VARCHAR(191) NOT NULL,
+
+    INDEX `SpaceAmenity_amenityId_idx`(`amenityId`),
+    PRIMARY KEY (`spaceId`, `amenityId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `SpaceAmenity` ADD CONSTRAINT `SpaceAmenity_spaceId_fkey` FOREIGN KEY (`spaceId`) REFERENCES `Space`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SpaceAmenity` ADD CONSTRAINT `SpaceAmenity_amenityId_fkey` FOREIGN KEY (`amenityId`) REFERENCES `Amenity`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
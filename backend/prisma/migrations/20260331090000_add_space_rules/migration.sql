@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE `SpaceRules` (
+    `spaceId` VARCHAR(191) NOT NULL,
+    `timeZone` VARCHAR(191) NOT NULL DEFAULT 'UTC',
+    `openingHours` JSON NULL,
+    `maxDurationMinutes` INTEGER NULL,
+    `leadTimeMinutes` INTEGER NULL,
+    `horizonDays` INTEGER NULL,
+    `bufferMinutes` INTEGER NOT NULL DEFAULT 0,
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`spaceId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `SpaceBlackout` (
+    `id` VARCHAR(191) NOT NULL,
+    `spaceId` VARCHAR(191) NOT NULL,
+    `startAt` DATETIME(3) NOT NULL,
+    `endAt` DATETIME(3) NOT NULL,
+    `reason` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `SpaceBlackout_spaceId_startAt_endAt_idx`(`spaceId`, `startAt`, `endAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `SpaceRules` ADD CONSTRAINT `SpaceRules_spaceId_fkey` FOREIGN KEY (`spaceId`) REFERENCES `Space`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SpaceBlackout` ADD CONSTRAINT `SpaceBlackout_spaceId_fkey` FOREIGN KEY (`spaceId`) REFERENCES `Space`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE `WaitlistEntry` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `spaceId` VARCHAR(191) NULL,
+    `minCapacity` INTEGER NULL,
+    `title` VARCHAR(191) NOT NULL,
+    `attendees` INTEGER NOT NULL,
+    `startAt` DATETIME(3) NOT NULL,
+    `endAt` DATETIME(3) NOT NULL,
+    `status` ENUM('waiting', 'promoted', 'expired', 'left') NOT NULL DEFAULT 'waiting',
+    `expiresAt` DATETIME(3) NOT NULL,
+    `bookingId` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `WaitlistEntry_bookingId_key`(`bookingId`),
+    INDEX `WaitlistEntry_status_spaceId_createdAt_idx`(`status`, `spaceId`, `createdAt`),
+    INDEX `WaitlistEntry_status_expiresAt_idx`(`status`, `expiresAt`),
+    INDEX `WaitlistEntry_userId_createdAt_idx`(`userId`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `WaitlistEntry` ADD CONSTRAINT `WaitlistEntry_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `WaitlistEntry` ADD CONSTRAINT `WaitlistEntry_spaceId_fkey` FOREIGN KEY (`spaceId`) REFERENCES `Space`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `WaitlistEntry` ADD CONSTRAINT `WaitlistEntry_bookingId_fkey` FOREIGN KEY (`bookingId`) REFERENCES `Booking`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE `WebhookSubscription` (
+    `id` VARCHAR(191) NOT NULL,
+    `url` VARCHAR(2048) NOT NULL,
+    `description` VARCHAR(191) NOT NULL DEFAULT '',
+    `events` JSON NOT NULL,
+    `secret` VARCHAR(191) NOT NULL,
+    `active` BOOLEAN NOT NULL DEFAULT true,
+    `consecutiveFailures` INTEGER NOT NULL DEFAULT 0,
+    `disabledAt` DATETIME(3) NULL,
+    `disabledReason` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `WebhookDelivery` (
+    `id` VARCHAR(191) NOT NULL,
+    `subscriptionId` VARCHAR(191) NOT NULL,
+    `eventId` VARCHAR(191) NOT NULL,
+    `eventType` VARCHAR(191) NOT NULL,
+    `body` TEXT NOT NULL,
+    `status` ENUM('pending', 'succeeded', 'failed') NOT NULL DEFAULT 'pending',
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `nextAttemptAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `responseStatus` INTEGER NULL,
+    `responseBody` TEXT NULL,
+    `error` TEXT NULL,
+    `durationMs` INTEGER NULL,
+    `lastAttemptAt` DATETIME(3) NULL,
+    `redeliveryOfId` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `WebhookDelivery_status_nextAttemptAt_idx`(`status`, `nextAttemptAt`),
+    INDEX `WebhookDelivery_subscriptionId_createdAt_idx`(`subscriptionId`, `createdAt`),
+    INDEX `WebhookDelivery_eventId_idx`(`eventId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `WebhookDelivery` ADD CONSTRAINT `WebhookDelivery_subscriptionId_fkey` FOREIGN KEY (`subscriptionId`) REFERENCES `WebhookSubscription`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE `IdempotencyKey` (
+    `id` CHAR(64) NOT NULL,
+    `key` VARCHAR(191) NOT NULL,
+    `method` VARCHAR(191) NOT NULL,
+    `path` VARCHAR(2048) NOT NULL,
+    `requestHash` CHAR(64) NOT NULL,
+    `status` INTEGER NULL,
+    `headers` JSON NULL,
+    `body` LONGTEXT NULL,
+    `expiresAt` DATETIME(3) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `completedAt` DATETIME(3) NULL,
+
+    INDEX `IdempotencyKey_expiresAt_idx`(`expiresAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `RateLimitCounter` (
+    `key` VARCHAR(191) NOT NULL,
+    `count` INTEGER NOT NULL,
+    `resetAt` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`key`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
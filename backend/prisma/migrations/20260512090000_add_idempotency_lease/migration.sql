@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `IdempotencyKey` ADD COLUMN `lockedUntil` DATETIME(3) NULL;
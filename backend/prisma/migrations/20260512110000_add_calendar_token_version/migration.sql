@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `User` ADD COLUMN `calendarTokenVersion` INTEGER NOT NULL DEFAULT 0;
@@ -1,22 +1,81 @@
-import express, { Application, Request, Response } from "express";
+import express, { Application } from "express";
 import cors from "cors";
 import { spaceRouter } from "./features/space/routes.js";
+import { authRouter } from "./features/auth/routes.js";
+import { auditRouter } from "./features/audit/routes.js";
+import { locationRouter } from "./features/location/routes.js";
+import { amenityRouter } from "./features/amenity/routes.js";
+import { waitlistRouter } from "./features/waitlist/routes.js";
+import {
+  reservationRouter,
+  spaceApproverRouter,
+} from "./features/reservation/routes.js";
+import { outboxRouter } from "./features/outbox/routes.js";
+import { notificationRouter } from "./features/notification/routes.js";
+import { webhookRouter } from "./features/webhook/routes.js";
+import { eventRouter } from "./features/event/routes.js";
+import { healthRouter, metricsRouter } from "./features/health/routes.js";
+import { openApiRouter } from "./openapi/routes.js";
+import { attachUser } from "./middlewares/auth.js";
+import { recordMetrics } from "./middlewares/metrics.js";
+import { assignRequestId } from "./middlewares/request-id.js";
+import { logAccess } from "./middlewares/access-log.js";
+import { errorHandler, notFoundHandler } from "./middlewares/error-handler.js";
+import {
+  bookingRouter,
+  spaceBookingRouter,
+} from "./features/booking/routes.js";
 
 const app: Application = express();
 
 // Global Middleware
-app.use(cors());
+app.use(assignRequestId);
+app.use(logAccess);
+app.use(recordMetrics);
+// browsers only let cross-origin callers read safelisted headers by default
+app.use(
+  cors({
+    exposedHeaders: [
+      "ETag",
+      "X-Request-Id",
+      "Idempotent-Replayed",
+      "RateLimit-Limit",
+      "RateLimit-Remaining",
+      "RateLimit-Reset",
+      "Retry-After",
+    ],
+  }),
+);
+// imports accept the same size of file whether sent as CSV, ICS or JSON
+const IMPORT_BODY_LIMIT = "2mb";
+
+app.use("/api/spaces/import", express.json({ limit: IMPORT_BODY_LIMIT }));
 app.use(express.json());
+app.use(express.text({ type: "text/calendar", limit: IMPORT_BODY_LIMIT }));
+app.use(express.text({ type: "text/csv", limit: IMPORT_BODY_LIMIT }));
+app.use(attachUser);
 
-// Health Check Route (for frontend proxy)
-app.get("/api/health", (req: Request, res: Response) => {
-  res.json({
-    status: "active",
-    message: "Backend is running",
-    timestamp: new Date().toISOString(),
-  });
-});
+// Health probes and metrics (public, for orchestrators and Prometheus)
+app.use("/api/health", healthRouter);
+app.use("/metrics", metricsRouter);
 
+app.use("/api", openApiRouter);
+app.use("/api/auth", authRouter);
+app.use("/api/spaces/:id/bookings", spaceBookingRouter);
+app.use("/api/spaces/:id/approvers", spaceApproverRouter);
 app.use("/api/spaces", spaceRouter);
+app.use("/api/bookings", bookingRouter);
+app.use("/api/audit", auditRouter);
+app.use("/api/locations", locationRouter);
+app.use("/api/amenities", amenityRouter);
+app.use("/api/waitlist", waitlistRouter);
+app.use("/api/reservations", reservationRouter);
+app.use("/api/outbox", outboxRouter);
+app.use("/api/notifications", notificationRouter);
+app.use("/api/webhooks", webhookRouter);
+app.use("/api/events", eventRouter);
+
+app.use("/api", notFoundHandler);
+app.use(errorHandler);
 
 export default app;
@@ -0,0 +1,11 @@
+import "dotenv/config";
+import { logger } from "../utils/logger.js";
+
+if (!process.env.JWT_SECRET) {
+  logger.warn("JWT_SECRET not set, using an insecure development secret");
+}
+
+export const authConfig = {
+  jwtSecret: process.env.JWT_SECRET || "dev-only-insecure-secret",
+  expiresIn: process.env.JWT_EXPIRES_IN || "8h",
+};
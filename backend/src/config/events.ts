@@ -0,0 +1,10 @@
+import "dotenv/config";
+
+export const eventsConfig = {
+  // comment lines keep proxies from closing an idle stream
+  heartbeatMs: Number(process.env.EVENTS_HEARTBEAT_SECONDS || 25) * 1000,
+  // how many recent events a reconnecting client can catch up on
+  replayBufferSize: Number(process.env.EVENTS_REPLAY_BUFFER_SIZE || 500),
+  // sent as the stream's retry: field
+  retryMs: 3000,
+};
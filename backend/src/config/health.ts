@@ -0,0 +1,6 @@
+import "dotenv/config";
+
+export const healthConfig = {
+  // a dependency slower than this counts as down
+  checkTimeoutMs: Number(process.env.HEALTH_CHECK_TIMEOUT_MS || 2000),
+};
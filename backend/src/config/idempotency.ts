@@ -0,0 +1,9 @@
+import "dotenv/config";
+
+export const idempotencyConfig = {
+  // how long a stored response is replayed for the same key
+  ttlMs: Number(process.env.IDEMPOTENCY_TTL_HOURS || 24) * 60 * 60_000,
+  // how long a request may hold its key before a repeat takes it over
+  leaseMs: Number(process.env.IDEMPOTENCY_LEASE_SECONDS || 60) * 1000,
+  purgeIntervalMs: 60 * 60_000,
+};
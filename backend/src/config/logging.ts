@@ -0,0 +1,10 @@
+import "dotenv/config";
+
+export const loggingConfig = {
+  // debug, info, warn or error; anything else means info
+  level: process.env.LOG_LEVEL || "info",
+  // log every Prisma query, not just the slow ones
+  logQueries: process.env.LOG_QUERIES === "true",
+  // queries at least this slow are logged as warnings
+  slowQueryMs: Number(process.env.SLOW_QUERY_MS || 500),
+};
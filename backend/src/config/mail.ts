@@ -0,0 +1,13 @@
+import "dotenv/config";
+
+export const mailConfig = {
+  // MailHog in docker-compose.yml accepts anything on 1025 without auth
+  host: process.env.SMTP_HOST || "localhost",
+  port: Number(process.env.SMTP_PORT || 1025),
+  secure: process.env.SMTP_SECURE === "true",
+  user: process.env.SMTP_USER || undefined,
+  password: process.env.SMTP_PASSWORD || undefined,
+  from: process.env.MAIL_FROM || "Doublespot <no-reply@doublespot.local>",
+  // links in emails point here
+  appUrl: process.env.APP_URL || "http://localhost:5173",
+};
@@ -0,0 +1,14 @@
+import "dotenv/config";
+
+export const outboxConfig = {
+  dispatchIntervalMs:
+    Number(process.env.OUTBOX_DISPATCH_INTERVAL_SECONDS || 10) * 1000,
+  batchSize: Number(process.env.OUTBOX_BATCH_SIZE || 50),
+  // after this many failed attempts the event is dead-lettered
+  maxAttempts: Number(process.env.OUTBOX_MAX_ATTEMPTS || 8),
+  // the delay doubles after every failure, up to retryMaxMs
+  retryBaseMs: Number(process.env.OUTBOX_RETRY_BASE_SECONDS || 30) * 1000,
+  retryMaxMs: Number(process.env.OUTBOX_RETRY_MAX_MINUTES || 60) * 60_000,
+  // how long a dispatcher may work on an event before others may retry it
+  leaseMs: 5 * 60_000,
+};
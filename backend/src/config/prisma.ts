@@ -1,16 +1,51 @@
 import "dotenv/config";
 import { PrismaMariaDb } from "@prisma/adapter-mariadb";
 import { PrismaClient } from "../generated/prisma/client.js";
+import { logger } from "../utils/logger.js";
+import { loggingConfig } from "./logging.js";
 
-const adapter = new PrismaMariaDb({
+type MariaDbAdapter = Awaited<ReturnType<PrismaMariaDb["connect"]>>;
+type Pool = ReturnType<MariaDbAdapter["underlyingDriver"]>;
+
+export const DB_CONNECTION_LIMIT = 5;
+
+let pool: Pool | null = null;
+
+// the factory creates the pool lazily and keeps it private; metrics want it
+class PoolTrackingMariaDb extends PrismaMariaDb {
+  async connect() {
+    const adapter = await super.connect();
+    pool = adapter.underlyingDriver();
+    return adapter;
+  }
+}
+
+/** The adapter's connection pool, or null before the first query. */
+export function dbPool(): Pool | null {
+  return pool;
+}
+
+const adapter = new PoolTrackingMariaDb({
   host: process.env.DATABASE_HOST,
   user: process.env.DATABASE_USER,
   password: process.env.DATABASE_PASSWORD,
   database: process.env.DATABASE_NAME,
-  connectionLimit: 5,
+  connectionLimit: DB_CONNECTION_LIMIT,
   allowPublicKeyRetrieval: true,
 });
-const prisma = new PrismaClient({ adapter });
+// query events feed the DB timing metrics and the query log
+const prisma = new PrismaClient({
+  adapter,
+  log: [{ emit: "event", level: "query" }],
+});
+
+// parameters are left out; they may carry personal data
+prisma.$on("query", (event) => {
+  const fields = { durationMs: event.duration, query: event.query };
+  if (event.duration >= loggingConfig.slowQueryMs)
+    logger.warn("slow query", fields);
+  else if (loggingConfig.logQueries) logger.info("query", fields);
+});
 
 const requiredEnvs = [
   "DATABASE_HOST",
@@ -20,7 +55,7 @@ const requiredEnvs = [
 ];
 requiredEnvs.forEach((env) => {
   if (!process.env[env]) {
-    console.warn(`${env} not set, using default`);
+    logger.warn("database setting missing, using default", { env });
   }
 });
 
@@ -0,0 +1,9 @@
+import "dotenv/config";
+
+export const rateLimitConfig = {
+  // "memory" counts per process; "mysql" shares counts across instances
+  store: process.env.RATE_LIMIT_STORE === "mysql" ? "mysql" : "memory",
+  // mutating requests a client may make per window
+  limit: Number(process.env.RATE_LIMIT_MAX || 60),
+  windowMs: Number(process.env.RATE_LIMIT_WINDOW_SECONDS || 60) * 1000,
+};
@@ -0,0 +1,9 @@
+import "dotenv/config";
+
+export const reservationConfig = {
+  // undecided requests stop holding their slot after this long
+  approvalTimeoutMs:
+    Number(process.env.RESERVATION_APPROVAL_TIMEOUT_HOURS || 72) * 3_600_000,
+  expiryIntervalMs:
+    Number(process.env.RESERVATION_EXPIRY_INTERVAL_MINUTES || 5) * 60_000,
+};
@@ -0,0 +1,7 @@
+import "dotenv/config";
+
+export const searchConfig = {
+  // the space search index is rebuilt at least this often, so changes made
+  // through other instances show up too
+  maxAgeMs: Number(process.env.SEARCH_INDEX_MAX_AGE_SECONDS || 300) * 1000,
+};
@@ -0,0 +1,11 @@
+import "dotenv/config";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const spaceConfig = {
+  // deleted spaces stay restorable from the trash for this long
+  trashRetentionMs:
+    Number(process.env.SPACE_TRASH_RETENTION_DAYS || 30) * DAY_MS,
+  purgeIntervalMs:
+    Number(process.env.SPACE_PURGE_INTERVAL_MINUTES || 60) * 60_000,
+};
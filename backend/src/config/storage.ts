@@ -0,0 +1,9 @@
+import "dotenv/config";
+
+export const storageConfig = {
+  // "memory" keeps spaces, locations, amenities, bookings, the audit log,
+  // users and idempotency keys in this process (demo mode, tests);
+  // reservations, the waitlist, webhooks and notifications still need the
+  // database
+  driver: process.env.STORAGE_DRIVER === "memory" ? "memory" : "prisma",
+};
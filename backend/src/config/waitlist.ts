@@ -0,0 +1,6 @@
+import "dotenv/config";
+
+export const waitlistConfig = {
+  expiryIntervalMs:
+    Number(process.env.WAITLIST_EXPIRY_INTERVAL_MINUTES || 5) * 60_000,
+};
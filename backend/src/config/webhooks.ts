@@ -0,0 +1,21 @@
+import "dotenv/config";
+
+export const webhookConfig = {
+  deliveryIntervalMs:
+    Number(process.env.WEBHOOK_DELIVERY_INTERVAL_SECONDS || 10) * 1000,
+  batchSize: Number(process.env.WEBHOOK_BATCH_SIZE || 50),
+  // how long a receiver has to answer before the attempt counts as failed
+  timeoutMs: Number(process.env.WEBHOOK_TIMEOUT_SECONDS || 10) * 1000,
+  // a delivery is given up after this many attempts
+  maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS || 6),
+  retryBaseMs: Number(process.env.WEBHOOK_RETRY_BASE_SECONDS || 60) * 1000,
+  retryMaxMs: Number(process.env.WEBHOOK_RETRY_MAX_MINUTES || 360) * 60_000,
+  // failed attempts in a row, across deliveries, before disabling
+  disableAfterFailures: Number(
+    process.env.WEBHOOK_DISABLE_AFTER_FAILURES || 15,
+  ),
+  leaseMs: 5 * 60_000,
+  // lets webhooks target loopback and private hosts, e.g. a local receiver
+  // in development; never in production
+  allowPrivateTargets: process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === "true",
+};
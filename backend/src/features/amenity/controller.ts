@@ -0,0 +1,69 @@
+import { NextFunction, Request, Response } from "express";
+import { listAmenitiesUsecase } from "./usecases/list-amenities.usecase.js";
+import { createAmenityUsecase } from "./usecases/create-amenity.usecase.js";
+import { updateAmenityUsecase } from "./usecases/update-amenity.usecase.js";
+import { deleteAmenityUsecase } from "./usecases/delete-amenity.usecase.js";
+import {
+  AmenityIdParams,
+  CreateAmenityInput,
+  UpdateAmenityInput,
+} from "./types.js";
+
+// body and params were parsed by validate() in routes.ts
+
+export async function listAmenities(
+  _req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await listAmenitiesUsecase();
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function createAmenity(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await createAmenityUsecase(req.body as CreateAmenityInput);
+    return res.status(201).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function updateAmenity(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as AmenityIdParams;
+    const result = await updateAmenityUsecase(
+      id,
+      req.body as UpdateAmenityInput,
+    );
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function deleteAmenity(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as AmenityIdParams;
+    await deleteAmenityUsecase(id);
+    return res.status(204).send();
+  } catch (err) {
+    return next(err);
+  }
+}
@@ -0,0 +1,18 @@
+import type { Amenity } from "../../generated/prisma/client.js";
+import { AmenityDTO } from "./types.js";
+import { ConflictError } from "../../utils/errors.js";
+
+/** Raised when deleting an amenity that spaces still have. */
+export class AmenityInUseError extends ConflictError {
+  readonly code = "AMENITY_IN_USE";
+}
+
+export function toAmenityDTO(amenity: Amenity): AmenityDTO {
+  return {
+    id: amenity.id,
+    key: amenity.key,
+    name: amenity.name,
+    createdAt: amenity.createdAt.toISOString(),
+    updatedAt: amenity.updatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { ErrorSchema, type OperationDoc } from "../../openapi/document.js";
+import {
+  AmenityIdParamsSchema,
+  AmenitySchema,
+  CreateAmenitySchema,
+  UpdateAmenitySchema,
+} from "./schema.js";
+
+const tags = ["Amenities"];
+const managers: OperationDoc["roles"] = ["admin", "manager"];
+
+export const amenityOperations: OperationDoc[] = [
+  {
+    method: "get",
+    path: "/api/amenities",
+    summary: "List the amenity catalog",
+    tags,
+    roles: [],
+    responses: {
+      200: { description: "OK", schema: z.array(AmenitySchema) },
+    },
+  },
+  {
+    method: "post",
+    path: "/api/amenities",
+    summary: "Add an amenity to the catalog",
+    tags,
+    roles: managers,
+    body: CreateAmenitySchema,
+    responses: {
+      201: { description: "Created", schema: AmenitySchema },
+      409: { description: "The key is already taken", schema: ErrorSchema },
+    },
+  },
+  {
+    method: "patch",
+    path: "/api/amenities/:id",
+    summary: "Rename an amenity",
+    tags,
+    roles: managers,
+    params: AmenityIdParamsSchema,
+    body: UpdateAmenitySchema,
+    responses: { 200: { description: "OK", schema: AmenitySchema } },
+  },
+  {
+    method: "delete",
+    path: "/api/amenities/:id",
+    summary: "Delete an amenity no space has",
+    tags,
+    roles: managers,
+    params: AmenityIdParamsSchema,
+    responses: {
+      204: { description: "Deleted" },
+      409: {
+        description: "Spaces still have the amenity (AMENITY_IN_USE)",
+        schema: ErrorSchema,
+      },
+    },
+  },
+];
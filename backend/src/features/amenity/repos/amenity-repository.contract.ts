@@ -0,0 +1,59 @@
+import { randomUUID } from "node:crypto";
+import { describe, it, expect } from "vitest";
+import type { AmenityRepository } from "./amenity-repository.js";
+
+/**
+ * What every AmenityRepository must do. The store may be shared (a real
+ * database), so each test keys its amenities with a fresh tag and only
+ * looks at those.
+ */
+export function describeAmenityRepositoryContract(
+  name: string,
+  setup: () => AmenityRepository | Promise<AmenityRepository>,
+) {
+  describe(`${name} (AmenityRepository contract)`, () => {
+    async function start() {
+      const repo = await setup();
+      const tag = randomUUID().slice(0, 8);
+      const amenity = (key: string, name: string) =>
+        repo.createAmenity({ key: `${tag}-${key}`, name: `${tag} ${name}` });
+      return { repo, tag, amenity };
+    }
+
+    it("lists the catalog by name and finds amenities by key", async () => {
+      const { repo, tag, amenity } = await start();
+      const vc = await amenity("vc", "Video conferencing");
+      const projector = await amenity("projector", "Projector");
+
+      const mine = (await repo.listAmenities()).filter((a) =>
+        a.key.startsWith(tag),
+      );
+      expect(mine.map((a) => a.id)).toEqual([projector.id, vc.id]);
+      expect(
+        (await repo.findAmenitiesByKeys([`${tag}-vc`, `${tag}-missing`])).map(
+          (a) => a.id,
+        ),
+      ).toEqual([vc.id]);
+      expect(await repo.findAmenitiesByKeys([])).toEqual([]);
+    });
+
+    it("keeps keys unique", async () => {
+      const { amenity } = await start();
+      await amenity("vc", "Video conferencing");
+      await expect(amenity("vc", "Another")).rejects.toThrow();
+    });
+
+    it("renames and deletes, throwing for missing amenities", async () => {
+      const { repo, tag, amenity } = await start();
+      const vc = await amenity("vc", "Video conferencing");
+
+      const renamed = await repo.updateAmenity(vc.id, { name: `${tag} VC` });
+      expect(renamed).toMatchObject({ id: vc.id, name: `${tag} VC` });
+
+      await repo.deleteAmenity(vc.id);
+      expect(await repo.findAmenitiesByKeys([vc.key])).toEqual([]);
+      await expect(repo.deleteAmenity(vc.id)).rejects.toThrow();
+      await expect(repo.updateAmenity(vc.id, { name: "x" })).rejects.toThrow();
+    });
+  });
+}
@@ -0,0 +1,17 @@
+import type { Amenity } from "../../../generated/prisma/client.js";
+
+/**
+ * Storage for the amenity catalog. Keys are unique; updates and deletes of
+ * a missing amenity throw.
+ */
+export interface AmenityRepository {
+  /** The whole catalog, by name. */
+  listAmenities(): Promise<Amenity[]>;
+  /** The amenities with one of the keys; unknown keys are left out. */
+  findAmenitiesByKeys(keys: string[]): Promise<Amenity[]>;
+  createAmenity(data: { key: string; name: string }): Promise<Amenity>;
+  updateAmenity(id: string, data: { name: string }): Promise<Amenity>;
+  deleteAmenity(id: string): Promise<void>;
+  /** Spaces that have the amenity, trashed ones included. */
+  countAmenitySpaces(amenityId: string): Promise<number>;
+}
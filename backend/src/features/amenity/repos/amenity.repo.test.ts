@@ -0,0 +1,11 @@
+import { describe } from "vitest";
+import { describeAmenityRepositoryContract } from "./amenity-repository.contract.js";
+import { prismaAmenityRepository } from "./amenity.repo.js";
+
+// needs a disposable MySQL database: the suite leaves amenities behind
+describe.runIf(process.env.TEST_WITH_DATABASE === "true")("MySQL", () => {
+  describeAmenityRepositoryContract(
+    "prisma amenity repository",
+    () => prismaAmenityRepository,
+  );
+});
@@ -0,0 +1,37 @@
+import { prisma } from "../../../config/prisma.js";
+import type { AmenityRepository } from "./amenity-repository.js";
+
+async function listAmenities() {
+  return prisma.amenity.findMany({ orderBy: { name: "asc" } });
+}
+
+async function findAmenitiesByKeys(keys: string[]) {
+  return prisma.amenity.findMany({ where: { key: { in: keys } } });
+}
+
+async function createAmenity(data: { key: string; name: string }) {
+  return prisma.amenity.create({ data });
+}
+
+async function updateAmenity(id: string, data: { name: string }) {
+  return prisma.amenity.update({ where: { id }, data });
+}
+
+async function deleteAmenity(id: string) {
+  await prisma.amenity.delete({ where: { id } });
+}
+
+// trashed spaces count too: they keep their amenities until purged
+async function countAmenitySpaces(amenityId: string) {
+  return prisma.spaceAmenity.count({ where: { amenityId } });
+}
+
+// missing rows surface as Prisma P2025 -> 404, duplicate keys as P2002 -> 409
+export const prismaAmenityRepository: AmenityRepository = {
+  listAmenities,
+  findAmenitiesByKeys,
+  createAmenity,
+  updateAmenity,
+  deleteAmenity,
+  countAmenitySpaces,
+};
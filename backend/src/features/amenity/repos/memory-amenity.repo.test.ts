@@ -0,0 +1,6 @@
+import { describeAmenityRepositoryContract } from "./amenity-repository.contract.js";
+import { createMemoryAmenityRepository } from "./memory-amenity.repo.js";
+
+describeAmenityRepositoryContract("memory amenity repository", () =>
+  createMemoryAmenityRepository(),
+);
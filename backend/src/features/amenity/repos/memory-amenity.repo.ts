@@ -0,0 +1,75 @@
+import { randomUUID } from "node:crypto";
+import type { Amenity } from "../../../generated/prisma/client.js";
+import { ConflictError, NotFoundError } from "../../../utils/errors.js";
+import { spaceRepository } from "../../space/repository.js";
+import type { AmenityRepository } from "./amenity-repository.js";
+
+/**
+ * Keeps the amenity catalog in this process, for demos and tests. Spaces
+ * store amenity keys, so usage is counted through the space repository.
+ */
+export function createMemoryAmenityRepository(): AmenityRepository {
+  const amenities = new Map<string, Amenity>();
+
+  // callers get copies, so only the repository changes what is stored
+  const copy = (amenity: Amenity): Amenity => ({ ...amenity });
+
+  function existing(id: string): Amenity {
+    const amenity = amenities.get(id);
+    if (!amenity) throw new NotFoundError("record not found");
+    return amenity;
+  }
+
+  return {
+    async listAmenities() {
+      return [...amenities.values()]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(copy);
+    },
+
+    async findAmenitiesByKeys(keys) {
+      return [...amenities.values()]
+        .filter((a) => keys.includes(a.key))
+        .map(copy);
+    },
+
+    async createAmenity(data) {
+      for (const amenity of amenities.values())
+        if (amenity.key === data.key)
+          throw new ConflictError(
+            "a record with the same unique value already exists",
+            { fields: { key: "key is already taken" } },
+          );
+      const now = new Date();
+      const amenity: Amenity = {
+        id: randomUUID(),
+        ...data,
+        createdAt: now,
+        updatedAt: now,
+      };
+      amenities.set(amenity.id, amenity);
+      return copy(amenity);
+    },
+
+    async updateAmenity(id, data) {
+      const changed = { ...existing(id), ...data, updatedAt: new Date() };
+      amenities.set(id, changed);
+      return copy(changed);
+    },
+
+    async deleteAmenity(id) {
+      existing(id);
+      amenities.delete(id);
+    },
+
+    async countAmenitySpaces(amenityId) {
+      const amenity = amenities.get(amenityId);
+      if (!amenity) return 0;
+      const spaces = [
+        ...(await spaceRepository().listSpaces()),
+        ...(await spaceRepository().listDeletedSpaces()),
+      ];
+      return spaces.filter((s) => s.amenities.includes(amenity.key)).length;
+    },
+  };
+}
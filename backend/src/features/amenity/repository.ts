@@ -0,0 +1,19 @@
+import { storageConfig } from "../../config/storage.js";
+import { prismaAmenityRepository } from "./repos/amenity.repo.js";
+import { createMemoryAmenityRepository } from "./repos/memory-amenity.repo.js";
+import type { AmenityRepository } from "./repos/amenity-repository.js";
+
+let repository: AmenityRepository =
+  storageConfig.driver === "memory"
+    ? createMemoryAmenityRepository()
+    : prismaAmenityRepository;
+
+/** The amenity storage usecases work on, chosen by STORAGE_DRIVER. */
+export function amenityRepository(): AmenityRepository {
+  return repository;
+}
+
+/** Swaps the amenity storage, e.g. for a fresh in-memory one per test. */
+export function setAmenityRepository(next: AmenityRepository): void {
+  repository = next;
+}
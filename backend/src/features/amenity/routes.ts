@@ -0,0 +1,39 @@
+import { Router } from "express";
+import { requireAuth, requireRole } from "../../middlewares/auth.js";
+import { validate } from "../../middlewares/validate.js";
+import {
+  createAmenity,
+  deleteAmenity,
+  listAmenities,
+  updateAmenity,
+} from "./controller.js";
+import {
+  AmenityIdParamsSchema,
+  CreateAmenitySchema,
+  UpdateAmenitySchema,
+} from "./schema.js";
+
+export const amenityRouter = Router();
+
+// any signed-in user may browse; only admins and managers change the catalog
+const canManage = requireRole("admin", "manager");
+
+amenityRouter.get("/", requireAuth, listAmenities);
+amenityRouter.post(
+  "/",
+  canManage,
+  validate({ body: CreateAmenitySchema }),
+  createAmenity,
+);
+amenityRouter.patch(
+  "/:id",
+  canManage,
+  validate({ params: AmenityIdParamsSchema, body: UpdateAmenitySchema }),
+  updateAmenity,
+);
+amenityRouter.delete(
+  "/:id",
+  canManage,
+  validate({ params: AmenityIdParamsSchema }),
+  deleteAmenity,
+);
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { NAME_MAX_LENGTH } from "../../utils/schema.js";
+
+/**
+ * API shapes for the amenity catalog.
+ */
+
+// keys go into query strings (?amenities=projector,vc), hence no commas
+export const AMENITY_KEY_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export const amenityKey = z
+  .string({
+    error: (issue) =>
+      issue.input === undefined ? "key is required" : "key must be a string",
+  })
+  .trim()
+  .regex(
+    AMENITY_KEY_PATTERN,
+    "key must be lowercase letters, digits and single hyphens",
+  )
+  .max(NAME_MAX_LENGTH, `key must be at most ${NAME_MAX_LENGTH} characters`);
+
+const name = z
+  .string({
+    error: (issue) =>
+      issue.input === undefined ? "name is required" : "name must be a string",
+  })
+  .trim()
+  .min(1, "name cannot be empty")
+  .max(NAME_MAX_LENGTH, `name must be at most ${NAME_MAX_LENGTH} characters`);
+
+export const AmenitySchema = z
+  .object({
+    id: z.string(),
+    key: z.string(),
+    name: z.string(),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+  })
+  .meta({ id: "Amenity" });
+
+export const CreateAmenitySchema = z
+  .object({ key: amenityKey, name })
+  .meta({ id: "CreateAmenityInput" });
+
+// the key is what filters and clients refer to, so it cannot be renamed
+export const UpdateAmenitySchema = z
+  .object({ name })
+  .meta({ id: "UpdateAmenityInput" });
+
+export const AmenityIdParamsSchema = z.object({
+  id: z.string().min(1, "id is required"),
+});
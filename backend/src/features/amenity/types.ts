@@ -0,0 +1,15 @@
+import type { z } from "zod";
+import type {
+  AmenityIdParamsSchema,
+  AmenitySchema,
+  CreateAmenitySchema,
+  UpdateAmenitySchema,
+} from "./schema.js";
+
+export type AmenityDTO = z.output<typeof AmenitySchema>;
+
+export type CreateAmenityInput = z.output<typeof CreateAmenitySchema>;
+
+export type UpdateAmenityInput = z.output<typeof UpdateAmenitySchema>;
+
+export type AmenityIdParams = z.output<typeof AmenityIdParamsSchema>;
@@ -0,0 +1,14 @@
+import { amenityRepository } from "../repository.js";
+import { AmenityDTO, CreateAmenityInput } from "../types.js";
+import { toAmenityDTO } from "../entity.js";
+
+export async function createAmenityUsecase(
+  input: CreateAmenityInput,
+): Promise<AmenityDTO> {
+  // a duplicate key surfaces as a 409 from the repository
+  const amenity = await amenityRepository().createAmenity({
+    key: input.key,
+    name: input.name,
+  });
+  return toAmenityDTO(amenity);
+}
@@ -0,0 +1,12 @@
+import { amenityRepository } from "../repository.js";
+import { AmenityInUseError } from "../entity.js";
+
+export async function deleteAmenityUsecase(id: string): Promise<void> {
+  const spaces = await amenityRepository().countAmenitySpaces(id);
+  if (spaces > 0)
+    throw new AmenityInUseError(
+      `amenity is still assigned to ${spaces} space(s); remove it from them first`,
+    );
+  // a missing amenity surfaces as a 404 from the repository
+  await amenityRepository().deleteAmenity(id);
+}
@@ -0,0 +1,8 @@
+import { amenityRepository } from "../repository.js";
+import { AmenityDTO } from "../types.js";
+import { toAmenityDTO } from "../entity.js";
+
+export async function listAmenitiesUsecase(): Promise<AmenityDTO[]> {
+  const amenities = await amenityRepository().listAmenities();
+  return amenities.map(toAmenityDTO);
+}
@@ -0,0 +1,14 @@
+import { amenityRepository } from "../repository.js";
+import { AmenityDTO, UpdateAmenityInput } from "../types.js";
+import { toAmenityDTO } from "../entity.js";
+
+export async function updateAmenityUsecase(
+  id: string,
+  input: UpdateAmenityInput,
+): Promise<AmenityDTO> {
+  // a missing amenity surfaces as a 404 from the repository
+  const amenity = await amenityRepository().updateAmenity(id, {
+    name: input.name,
+  });
+  return toAmenityDTO(amenity);
+}
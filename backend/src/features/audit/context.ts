@@ -0,0 +1,10 @@
+import type { Request } from "express";
+import type { AuditContext } from "./types.js";
+
+/** The actor and request id to record with changes made by this request. */
+export function auditContextOf(req: Request): AuditContext {
+  return {
+    actorId: req.user?.id ?? null,
+    requestId: req.requestId,
+  };
+}
@@ -0,0 +1,20 @@
+import { NextFunction, Request, Response } from "express";
+import { listAuditEventsUsecase } from "./usecases/list-audit-events.usecase.js";
+import { ListAuditQuery } from "./types.js";
+
+// query was parsed by validate() in routes.ts
+
+export async function listAuditEvents(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await listAuditEventsUsecase(
+      req.query as unknown as ListAuditQuery,
+    );
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
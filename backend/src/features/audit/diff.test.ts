@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { diffFields } from "./diff.js";
+
+type Row = { name: string; capacity: number; deletedAt: Date | null };
+
+const fields = ["name", "capacity", "deletedAt"] as const;
+
+describe("diffFields", () => {
+  const before: Row = { name: "Atlas", capacity: 8, deletedAt: null };
+
+  it("keeps only the fields that changed", () => {
+    const after = { ...before, capacity: 12 };
+    expect(diffFields(before, after, fields)).toEqual({
+      capacity: { from: 8, to: 12 },
+    });
+  });
+
+  it("returns an empty diff when nothing changed", () => {
+    expect(diffFields(before, { ...before }, fields)).toEqual({});
+  });
+
+  it("treats a missing snapshot as all-null", () => {
+    expect(diffFields(null, before, ["name", "capacity"])).toEqual({
+      name: { from: null, to: "Atlas" },
+      capacity: { from: null, to: 8 },
+    });
+  });
+
+  it("compares dates by value and records them as ISO strings", () => {
+    const at = new Date("2026-02-24T09:00:00.000Z");
+    const deleted = { ...before, deletedAt: at };
+    expect(diffFields(before, deleted, fields)).toEqual({
+      deletedAt: { from: null, to: "2026-02-24T09:00:00.000Z" },
+    });
+    expect(
+      diffFields(deleted, { ...deleted, deletedAt: new Date(at) }, fields),
+    ).toEqual({});
+  });
+
+  it("records booleans as they are", () => {
+    expect(
+      diffFields({ requiresApproval: false }, { requiresApproval: true }, [
+        "requiresApproval",
+      ]),
+    ).toEqual({ requiresApproval: { from: false, to: true } });
+  });
+});
@@ -0,0 +1,27 @@
+import type { AuditChanges } from "./types.js";
+
+type Value = string | number | boolean | Date | null | undefined;
+
+function normalize(value: Value): string | number | boolean | null {
+  if (value instanceof Date) return value.toISOString();
+  return value ?? null;
+}
+
+/**
+ * Field-level diff between two snapshots of a record, limited to `fields`.
+ * A missing snapshot (before a create, after a purge) counts as all-null,
+ * and dates are compared and stored as ISO strings.
+ */
+export function diffFields<T extends Record<string, unknown>>(
+  before: T | null,
+  after: T | null,
+  fields: readonly (keyof T & string)[],
+): AuditChanges {
+  const changes: AuditChanges = {};
+  for (const field of fields) {
+    const from = normalize(before?.[field] as Value);
+    const to = normalize(after?.[field] as Value);
+    if (from !== to) changes[field] = { from, to };
+  }
+  return changes;
+}
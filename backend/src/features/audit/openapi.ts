@@ -0,0 +1,14 @@
+import type { OperationDoc } from "../../openapi/document.js";
+import { AuditPageSchema, ListAuditQuerySchema } from "./schema.js";
+
+export const auditOperations: OperationDoc[] = [
+  {
+    method: "get",
+    path: "/api/audit",
+    summary: "List audit events across all entities, newest first",
+    tags: ["Audit"],
+    roles: ["admin", "manager"],
+    query: ListAuditQuerySchema,
+    responses: { 200: { description: "OK", schema: AuditPageSchema } },
+  },
+];
@@ -0,0 +1,76 @@
+import { randomUUID } from "node:crypto";
+import { describe, it, expect } from "vitest";
+import type { AuditRepository } from "./audit-repository.js";
+
+/**
+ * What every AuditRepository must do. The store may be shared (a real
+ * database), so each test records events for fresh entity ids and only
+ * looks at those.
+ */
+export function describeAuditRepositoryContract(
+  name: string,
+  setup: () => AuditRepository | Promise<AuditRepository>,
+) {
+  describe(`${name} (AuditRepository contract)`, () => {
+    const context = { actorId: null, requestId: "req-1" };
+
+    async function start() {
+      const repo = await setup();
+      const entityId = randomUUID();
+      const record = (action: "create" | "update" | "delete") =>
+        repo.recordAuditEvent({
+          entityType: "space",
+          entityId,
+          action,
+          changes: { name: { from: null, to: action } },
+          context,
+        });
+      return { repo, entityId, record };
+    }
+
+    it("lists an entity's events newest first, a page at a time", async () => {
+      const { repo, entityId, record } = await start();
+      const created = await record("create");
+      const updated = await record("update");
+      const deleted = await record("delete");
+      const filter = { entityType: "space" as const, entityId };
+
+      const first = await repo.findAuditEvents({ filter, take: 2 });
+      expect(first.map((e) => e.id)).toEqual([deleted.id, updated.id]);
+      expect(first[0]).toMatchObject({
+        action: "delete",
+        changes: { name: { from: null, to: "delete" } },
+        actorId: null,
+        actor: null,
+        requestId: "req-1",
+      });
+
+      const rest = await repo.findAuditEvents({
+        filter,
+        take: 2,
+        cursor: updated.id,
+      });
+      expect(rest.map((e) => e.id)).toEqual([created.id]);
+    });
+
+    it("filters by action and time", async () => {
+      const { repo, entityId, record } = await start();
+      const created = await record("create");
+      await record("update");
+
+      const byAction = await repo.findAuditEvents({
+        filter: { entityId, action: "create" },
+        take: 10,
+      });
+      expect(byAction.map((e) => e.id)).toEqual([created.id]);
+
+      const later = new Date(Date.now() + 60_000).toISOString();
+      expect(
+        await repo.findAuditEvents({
+          filter: { entityId, from: later },
+          take: 10,
+        }),
+      ).toEqual([]);
+    });
+  });
+}
@@ -0,0 +1,39 @@
+import type { AuditEvent } from "../../../generated/prisma/client.js";
+import type {
+  AuditAction,
+  AuditChanges,
+  AuditContext,
+  AuditEntityType,
+  ListAuditQuery,
+} from "../types.js";
+
+export type AuditEventData = {
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  changes: AuditChanges;
+  context: AuditContext;
+};
+
+/** An event with its actor, null for system changes and removed accounts. */
+export type AuditEventRecord = AuditEvent & {
+  actor: { id: string; name: string } | null;
+};
+
+/** Which events a list matches, as in GET /api/audit; dates are inclusive. */
+export type AuditFilter = Omit<ListAuditQuery, "limit" | "cursor">;
+
+/**
+ * Storage for the audit log. The Prisma store records events inside the
+ * transaction of the change they describe; recordAuditEvent is for stores
+ * without transactions.
+ */
+export interface AuditRepository {
+  recordAuditEvent(event: AuditEventData): Promise<AuditEvent>;
+  /** Newest first; `cursor` is the id of the last event already returned. */
+  findAuditEvents(args: {
+    filter: AuditFilter;
+    take: number;
+    cursor?: string;
+  }): Promise<AuditEventRecord[]>;
+}
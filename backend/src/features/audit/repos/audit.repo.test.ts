@@ -0,0 +1,11 @@
+import { describe } from "vitest";
+import { describeAuditRepositoryContract } from "./audit-repository.contract.js";
+import { prismaAuditRepository } from "./audit.repo.js";
+
+// needs a disposable MySQL database: the suite leaves events behind
+describe.runIf(process.env.TEST_WITH_DATABASE === "true")("MySQL", () => {
+  describeAuditRepositoryContract(
+    "prisma audit repository",
+    () => prismaAuditRepository,
+  );
+});
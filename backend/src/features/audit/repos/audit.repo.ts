@@ -0,0 +1,62 @@
+import { prisma } from "../../../config/prisma.js";
+import type { Prisma } from "../../../generated/prisma/client.js";
+import type {
+  AuditEventData,
+  AuditFilter,
+  AuditRepository,
+} from "./audit-repository.js";
+
+/**
+ * Writes an audit event with the caller's transaction client, so the event
+ * commits or rolls back together with the change it describes.
+ */
+export async function recordAuditEvent(
+  tx: Prisma.TransactionClient,
+  event: AuditEventData,
+) {
+  return tx.auditEvent.create({
+    data: {
+      entityType: event.entityType,
+      entityId: event.entityId,
+      action: event.action,
+      changes: event.changes,
+      actorId: event.context.actorId,
+      requestId: event.context.requestId,
+    },
+  });
+}
+
+function toWhere(filter: AuditFilter): Prisma.AuditEventWhereInput {
+  return {
+    entityType: filter.entityType,
+    entityId: filter.entityId,
+    actorId: filter.actorId,
+    action: filter.action,
+    createdAt:
+      filter.from || filter.to
+        ? {
+            gte: filter.from ? new Date(filter.from) : undefined,
+            lte: filter.to ? new Date(filter.to) : undefined,
+          }
+        : undefined,
+  };
+}
+
+async function findAuditEvents(args: {
+  filter: AuditFilter;
+  take: number;
+  cursor?: string;
+}) {
+  return prisma.auditEvent.findMany({
+    where: toWhere(args.filter),
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: args.take,
+    ...(args.cursor && { cursor: { id: args.cursor }, skip: 1 }),
+    include: { actor: { select: { id: true, name: true } } },
+  });
+}
+
+export const prismaAuditRepository: AuditRepository = {
+  recordAuditEvent: (event) => recordAuditEvent(prisma, event),
+  findAuditEvents,
+};
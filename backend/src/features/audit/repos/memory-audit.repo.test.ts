@@ -0,0 +1,6 @@
+import { describeAuditRepositoryContract } from "./audit-repository.contract.js";
+import { createMemoryAuditRepository } from "./memory-audit.repo.js";
+
+describeAuditRepositoryContract("memory audit repository", () =>
+  createMemoryAuditRepository(),
+);
@@ -0,0 +1,62 @@
+import { randomUUID } from "node:crypto";
+import type { AuditEvent } from "../../../generated/prisma/client.js";
+import { userRepository } from "../../auth/repository.js";
+import type { AuditFilter, AuditRepository } from "./audit-repository.js";
+
+function matches(event: AuditEvent, filter: AuditFilter): boolean {
+  if (filter.entityType && event.entityType !== filter.entityType) return false;
+  if (filter.entityId && event.entityId !== filter.entityId) return false;
+  if (filter.actorId && event.actorId !== filter.actorId) return false;
+  if (filter.action && event.action !== filter.action) return false;
+  if (filter.from && event.createdAt < new Date(filter.from)) return false;
+  if (filter.to && event.createdAt > new Date(filter.to)) return false;
+  return true;
+}
+
+/**
+ * Keeps the audit log in this process, for demos and tests. Actors are
+ * looked up through the user repository when events are read.
+ */
+export function createMemoryAuditRepository(): AuditRepository {
+  const events: AuditEvent[] = [];
+
+  return {
+    async recordAuditEvent(event) {
+      const recorded: AuditEvent = {
+        id: randomUUID(),
+        entityType: event.entityType,
+        entityId: event.entityId,
+        action: event.action,
+        changes: structuredClone(event.changes),
+        actorId: event.context.actorId,
+        requestId: event.context.requestId,
+        createdAt: new Date(),
+      };
+      events.push(recorded);
+      return structuredClone(recorded);
+    },
+
+    async findAuditEvents({ filter, take, cursor }) {
+      // newest first; events of the same millisecond latest recorded first
+      let found = events
+        .filter((e) => matches(e, filter))
+        .reverse()
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+      if (cursor) {
+        const at = found.findIndex((e) => e.id === cursor);
+        found = at === -1 ? [] : found.slice(at + 1);
+      }
+      return Promise.all(
+        found.slice(0, take).map(async (event) => {
+          const user = event.actorId
+            ? await userRepository().getUserById(event.actorId)
+            : null;
+          return {
+            ...structuredClone(event),
+            actor: user && { id: user.id, name: user.name },
+          };
+        }),
+      );
+    },
+  };
+}
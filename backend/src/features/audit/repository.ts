@@ -0,0 +1,19 @@
+import { storageConfig } from "../../config/storage.js";
+import { prismaAuditRepository } from "./repos/audit.repo.js";
+import { createMemoryAuditRepository } from "./repos/memory-audit.repo.js";
+import type { AuditRepository } from "./repos/audit-repository.js";
+
+let repository: AuditRepository =
+  storageConfig.driver === "memory"
+    ? createMemoryAuditRepository()
+    : prismaAuditRepository;
+
+/** The audit log usecases work on, chosen by STORAGE_DRIVER. */
+export function auditRepository(): AuditRepository {
+  return repository;
+}
+
+/** Swaps the audit storage, e.g. for a fresh in-memory one per test. */
+export function setAuditRepository(next: AuditRepository): void {
+  repository = next;
+}
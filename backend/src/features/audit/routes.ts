@@ -0,0 +1,14 @@
+import { Router } from "express";
+import { requireRole } from "../../middlewares/auth.js";
+import { validate } from "../../middlewares/validate.js";
+import { listAuditEvents } from "./controller.js";
+import { ListAuditQuerySchema } from "./schema.js";
+
+export const auditRouter = Router();
+
+auditRouter.get(
+  "/",
+  requireRole("admin", "manager"),
+  validate({ query: ListAuditQuerySchema }),
+  listAuditEvents,
+);
@@ -0,0 +1,81 @@
+import { z } from "zod";
+
+/**
+ * API shapes for the audit log.
+ */
+
+export const AUDIT_ACTIONS = ["create", "update", "delete", "restore"] as const;
+
+export const AUDIT_ENTITY_TYPES = ["space"] as const;
+
+export const AUDIT_PAGE_MAX_LIMIT = 100;
+
+const FieldValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.null(),
+]);
+
+export const FieldChangeSchema = z
+  .object({ from: FieldValueSchema, to: FieldValueSchema })
+  .meta({ id: "FieldChange" });
+
+export const AuditEventSchema = z
+  .object({
+    id: z.string(),
+    entityType: z.enum(AUDIT_ENTITY_TYPES),
+    entityId: z.string(),
+    action: z.enum(AUDIT_ACTIONS),
+    // only the fields the change touched
+    changes: z.record(z.string(), FieldChangeSchema),
+    // null for system changes and for removed accounts
+    actor: z.object({ id: z.string(), name: z.string() }).nullable(),
+    requestId: z.string().nullable(),
+    createdAt: z.iso.datetime(),
+  })
+  .meta({ id: "AuditEvent" });
+
+export const AuditPageSchema = z
+  .object({
+    items: z.array(AuditEventSchema),
+    // pass back as ?cursor= for older events; null on the last page
+    nextCursor: z.string().nullable(),
+  })
+  .meta({ id: "AuditPage" });
+
+const optionalDate = (field: string) =>
+  z.iso
+    .datetime({ offset: true, error: `${field} must be a valid ISO 8601 date` })
+    .optional();
+
+// newest first; the cursor is the id of the last event on the previous page
+export const AuditPageQuerySchema = z.object({
+  limit: z.coerce
+    .number({ error: "limit must be a number" })
+    .int("limit must be an integer")
+    .min(1, "limit must be at least 1")
+    .max(AUDIT_PAGE_MAX_LIMIT, `limit must be at most ${AUDIT_PAGE_MAX_LIMIT}`)
+    .default(50),
+  cursor: z.string().min(1).optional(),
+});
+
+export const ListAuditQuerySchema = AuditPageQuerySchema.extend({
+  entityType: z
+    .enum(AUDIT_ENTITY_TYPES, {
+      error: `entityType must be one of ${AUDIT_ENTITY_TYPES.join(", ")}`,
+    })
+    .optional(),
+  entityId: z.string().min(1).optional(),
+  actorId: z.string().min(1).optional(),
+  action: z
+    .enum(AUDIT_ACTIONS, {
+      error: `action must be one of ${AUDIT_ACTIONS.join(", ")}`,
+    })
+    .optional(),
+  from: optionalDate("from"),
+  to: optionalDate("to"),
+}).refine((q) => !q.from || !q.to || new Date(q.from) <= new Date(q.to), {
+  path: ["to"],
+  message: "to must not be before from",
+});
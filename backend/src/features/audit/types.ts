@@ -0,0 +1,30 @@
+import type { z } from "zod";
+import type {
+  AuditEventSchema,
+  AuditPageQuerySchema,
+  AuditPageSchema,
+  FieldChangeSchema,
+  ListAuditQuerySchema,
+} from "./schema.js";
+
+export type AuditAction = z.output<typeof AuditEventSchema>["action"];
+
+export type AuditEntityType = z.output<typeof AuditEventSchema>["entityType"];
+
+export type FieldChange = z.output<typeof FieldChangeSchema>;
+
+export type AuditChanges = Record<string, FieldChange>;
+
+export type AuditEventDTO = z.output<typeof AuditEventSchema>;
+
+export type AuditPage = z.output<typeof AuditPageSchema>;
+
+export type AuditPageQuery = z.output<typeof AuditPageQuerySchema>;
+
+export type ListAuditQuery = z.output<typeof ListAuditQuerySchema>;
+
+/** Who made a change and under which request; passed down to the repos. */
+export type AuditContext = {
+  actorId: string | null;
+  requestId: string | null;
+};
@@ -0,0 +1,39 @@
+import { auditRepository } from "../repository.js";
+import type { AuditEventRecord } from "../repos/audit-repository.js";
+import {
+  AuditChanges,
+  AuditEventDTO,
+  AuditPage,
+  ListAuditQuery,
+} from "../types.js";
+
+function toDTO(event: AuditEventRecord): AuditEventDTO {
+  return {
+    id: event.id,
+    entityType: event.entityType as AuditEventDTO["entityType"],
+    entityId: event.entityId,
+    action: event.action,
+    changes: event.changes as AuditChanges,
+    actor: event.actor,
+    requestId: event.requestId,
+    createdAt: event.createdAt.toISOString(),
+  };
+}
+
+/** Audit events matching the filters, newest first. */
+export async function listAuditEventsUsecase(
+  query: ListAuditQuery,
+): Promise<AuditPage> {
+  const { limit, cursor, ...filter } = query;
+  // one extra row tells us whether another page exists
+  const rows = await auditRepository().findAuditEvents({
+    filter,
+    take: limit + 1,
+    cursor,
+  });
+  const items = rows.slice(0, limit);
+  return {
+    items: items.map(toDTO),
+    nextCursor: rows.length > limit ? items[items.length - 1].id : null,
+  };
+}
@@ -0,0 +1,114 @@
+import { NextFunction, Request, Response } from "express";
+import { registerUserUsecase } from "./usecases/register-user.usecase.js";
+import { loginUsecase } from "./usecases/login.usecase.js";
+import { logoutUsecase } from "./usecases/logout.usecase.js";
+import { getCurrentUserUsecase } from "./usecases/get-current-user.usecase.js";
+import { listUsersUsecase } from "./usecases/list-users.usecase.js";
+import { updateUserRoleUsecase } from "./usecases/update-user-role.usecase.js";
+import { getCalendarTokenUsecase } from "./usecases/get-calendar-token.usecase.js";
+import { rotateCalendarTokenUsecase } from "./usecases/rotate-calendar-token.usecase.js";
+import { ValidationError } from "../../utils/errors.js";
+
+export async function register(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await registerUserUsecase({
+      email: req.body?.email,
+      name: req.body?.name,
+      password: req.body?.password,
+    });
+    return res.status(201).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function login(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await loginUsecase({
+      email: req.body?.email,
+      password: req.body?.password,
+    });
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function logout(req: Request, res: Response, next: NextFunction) {
+  try {
+    await logoutUsecase(req.user!.id);
+    return res.status(204).send();
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function me(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await getCurrentUserUsecase(req.user!.id);
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function getCalendarToken(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await getCalendarTokenUsecase(req.user!.id);
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function rotateCalendarToken(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await rotateCalendarTokenUsecase(req.user!.id);
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function listUsers(
+  _req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await listUsersUsecase();
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function updateUserRole(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const id = req.params.id;
+
+    if (typeof id !== "string") {
+      throw ValidationError.field("id", "invalid id");
+    }
+    const result = await updateUserRoleUsecase(id, req.body?.role, req.user!);
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
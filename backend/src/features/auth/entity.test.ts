@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import jwt from "jsonwebtoken";
+import type { User } from "../../generated/prisma/client.js";
+import {
+  calendarTokenUserId,
+  hashPassword,
+  signCalendarToken,
+  signToken,
+  verifyCalendarToken,
+  verifyPassword,
+  verifyToken,
+} from "./entity.js";
+
+describe("auth entity", () => {
+  it("verifies passwords against salted scrypt hashes", async () => {
+    const hash = await hashPassword("correct horse");
+    expect(hash).toMatch(/^scrypt\$/);
+    expect(await hashPassword("correct horse")).not.toBe(hash);
+
+    expect(await verifyPassword("correct horse", hash)).toBe(true);
+    expect(await verifyPassword("wrong horse", hash)).toBe(false);
+    expect(await verifyPassword("correct horse", "garbage")).toBe(false);
+  });
+
+  it("round-trips token claims and rejects foreign signatures", () => {
+    const token = signToken({ id: "u1", tokenVersion: 3 } as User);
+    expect(verifyToken(token)).toEqual({ sub: "u1", ver: 3 });
+
+    const forged = jwt.sign({ sub: "u1", ver: 3 }, "some-other-secret");
+    expect(verifyToken(forged)).toBeNull();
+  });
+
+  it("ties calendar tokens to the user's calendar token version", () => {
+    const user = { id: "u1", calendarTokenVersion: 0 } as User;
+    const token = signCalendarToken(user);
+    expect(calendarTokenUserId(token)).toBe("u1");
+    expect(verifyCalendarToken(token, user)).toBe(true);
+
+    const rotated = { ...user, calendarTokenVersion: 1 };
+    expect(verifyCalendarToken(token, rotated)).toBe(false);
+    expect(verifyCalendarToken(signCalendarToken(rotated), rotated)).toBe(true);
+
+    const session = signToken({ id: "u1", tokenVersion: 0 } as User);
+    expect(calendarTokenUserId(session)).toBeNull();
+    expect(verifyCalendarToken(session, user)).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import jwt from "jsonwebtoken";
+import type { User } from "../../generated/prisma/client.js";
+import { authConfig } from "../../config/auth.js";
+import { AuthUser, Role, UserDTO } from "./types.js";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+export const ROLES: Role[] = ["admin", "manager", "member"];
+
+export function toDTO(user: User): UserDTO {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    createdAt: user.createdAt.toISOString(),
+    updatedAt: user.updatedAt.toISOString(),
+  };
+}
+
+export function toAuthUser(user: User): AuthUser {
+  return { id: user.id, email: user.email, name: user.name, role: user.role };
+}
+
+/** Hashes as `scrypt$<salt>$<key>`, both base64. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("base64")}$${key.toString("base64")}`;
+}
+
+export async function verifyPassword(
+  password: string,
+  hash: string,
+): Promise<boolean> {
+  const [scheme, salt, key] = hash.split("$");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+  const expected = Buffer.from(key, "base64");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(salt, "base64"),
+    expected.length,
+  );
+  return timingSafeEqual(actual, expected);
+}
+
+type TokenClaims = { sub: string; ver: number };
+
+export function signToken(user: User): string {
+  const claims: TokenClaims = { sub: user.id, ver: user.tokenVersion };
+  return jwt.sign(claims, authConfig.jwtSecret, {
+    expiresIn: authConfig.expiresIn as jwt.SignOptions["expiresIn"],
+  });
+}
+
+/** Returns the token's claims, or null when it is invalid or expired. */
+export function verifyToken(token: string): TokenClaims | null {
+  try {
+    const payload = jwt.verify(token, authConfig.jwtSecret);
+    if (typeof payload === "string" || typeof payload.sub !== "string")
+      return null;
+    return { sub: payload.sub, ver: Number(payload.ver) };
+  } catch {
+    return null;
+  }
+}
+
+function calendarSignature(user: User): string {
+  return createHmac("sha256", authConfig.jwtSecret)
+    .update(`calendar-feed:${user.id}:${user.calendarTokenVersion}`)
+    .digest("base64url");
+}
+
+/**
+ * Feed-only token as `<userId>.<signature>`. It never expires on its own;
+ * bumping the user's calendarTokenVersion revokes it.
+ */
+export function signCalendarToken(user: User): string {
+  return `${user.id}.${calendarSignature(user)}`;
+}
+
+/** The user id a calendar token claims, or null when it is malformed. */
+export function calendarTokenUserId(token: string): string | null {
+  const parts = token.split(".");
+  return parts.length === 2 && parts[0] && parts[1] ? parts[0] : null;
+}
+
+export function verifyCalendarToken(token: string, user: User): boolean {
+  const expected = Buffer.from(signCalendarToken(user));
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function canManageSpaces(role: Role): boolean {
+  return role === "admin" || role === "manager";
+}
@@ -0,0 +1,75 @@
+import { randomUUID } from "node:crypto";
+import type { User } from "../../../generated/prisma/client.js";
+import { ConflictError, NotFoundError } from "../../../utils/errors.js";
+import type { UserRepository } from "./user-repository.js";
+
+/** Keeps accounts in this process, for demos and tests. */
+export function createMemoryUserRepository(): UserRepository {
+  const users = new Map<string, User>();
+
+  function change(id: string, data: Partial<User>): User {
+    const user = users.get(id);
+    if (!user) throw new NotFoundError("record not found");
+    const changed = { ...user, ...data, updatedAt: new Date() };
+    users.set(id, changed);
+    return { ...changed };
+  }
+
+  return {
+    async createUser(data) {
+      for (const user of users.values())
+        if (user.email === data.email)
+          throw new ConflictError(
+            "a record with the same unique value already exists",
+            { fields: { email: "email is already taken" } },
+          );
+      const now = new Date();
+      const user: User = {
+        id: randomUUID(),
+        ...data,
+        tokenVersion: 0,
+        calendarTokenVersion: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      users.set(user.id, user);
+      return { ...user };
+    },
+
+    async getUserById(id) {
+      const user = users.get(id);
+      return user ? { ...user } : null;
+    },
+
+    async getUserByEmail(email) {
+      for (const user of users.values())
+        if (user.email === email) return { ...user };
+      return null;
+    },
+
+    async countUsers() {
+      return users.size;
+    },
+
+    async listUsers() {
+      // insertion order is creation order
+      return [...users.values()].map((user) => ({ ...user }));
+    },
+
+    async updateUserRole(id, role) {
+      return change(id, { role });
+    },
+
+    async incrementTokenVersion(id) {
+      return change(id, {
+        tokenVersion: (users.get(id)?.tokenVersion ?? 0) + 1,
+      });
+    },
+
+    async incrementCalendarTokenVersion(id) {
+      return change(id, {
+        calendarTokenVersion: (users.get(id)?.calendarTokenVersion ?? 0) + 1,
+      });
+    },
+  };
+}
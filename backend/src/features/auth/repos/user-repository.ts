@@ -0,0 +1,23 @@
+import type { User } from "../../../generated/prisma/client.js";
+import type { Role } from "../types.js";
+
+export type UserCreateData = {
+  email: string;
+  name: string;
+  passwordHash: string;
+  role: Role;
+};
+
+/** Storage for accounts. Emails are unique and stored lowercased. */
+export interface UserRepository {
+  createUser(data: UserCreateData): Promise<User>;
+  getUserById(id: string): Promise<User | null>;
+  getUserByEmail(email: string): Promise<User | null>;
+  countUsers(): Promise<number>;
+  /** Every user, oldest first. */
+  listUsers(): Promise<User[]>;
+  /** These throw when there is no such user. */
+  updateUserRole(id: string, role: Role): Promise<User>;
+  incrementTokenVersion(id: string): Promise<User>;
+  incrementCalendarTokenVersion(id: string): Promise<User>;
+}
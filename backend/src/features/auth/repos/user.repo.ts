@@ -0,0 +1,52 @@
+import { prisma } from "../../../config/prisma.js";
+import type { Role } from "../types.js";
+import type { UserCreateData, UserRepository } from "./user-repository.js";
+
+async function createUser(data: UserCreateData) {
+  return prisma.user.create({ data });
+}
+
+async function getUserById(id: string) {
+  return prisma.user.findUnique({ where: { id } });
+}
+
+async function getUserByEmail(email: string) {
+  return prisma.user.findUnique({ where: { email } });
+}
+
+async function countUsers() {
+  return prisma.user.count();
+}
+
+async function listUsers() {
+  return prisma.user.findMany({ orderBy: { createdAt: "asc" } });
+}
+
+async function updateUserRole(id: string, role: Role) {
+  return prisma.user.update({ where: { id }, data: { role } });
+}
+
+async function incrementTokenVersion(id: string) {
+  return prisma.user.update({
+    where: { id },
+    data: { tokenVersion: { increment: 1 } },
+  });
+}
+
+async function incrementCalendarTokenVersion(id: string) {
+  return prisma.user.update({
+    where: { id },
+    data: { calendarTokenVersion: { increment: 1 } },
+  });
+}
+
+export const prismaUserRepository: UserRepository = {
+  createUser,
+  getUserById,
+  getUserByEmail,
+  countUsers,
+  listUsers,
+  updateUserRole,
+  incrementTokenVersion,
+  incrementCalendarTokenVersion,
+};
@@ -0,0 +1,19 @@
+import { storageConfig } from "../../config/storage.js";
+import { prismaUserRepository } from "./repos/user.repo.js";
+import { createMemoryUserRepository } from "./repos/memory-user.repo.js";
+import type { UserRepository } from "./repos/user-repository.js";
+
+let repository: UserRepository =
+  storageConfig.driver === "memory"
+    ? createMemoryUserRepository()
+    : prismaUserRepository;
+
+/** The account storage usecases work on, chosen by STORAGE_DRIVER. */
+export function userRepository(): UserRepository {
+  return repository;
+}
+
+/** Swaps the account storage, e.g. for a fresh in-memory one per test. */
+export function setUserRepository(next: UserRepository): void {
+  repository = next;
+}
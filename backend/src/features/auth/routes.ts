@@ -0,0 +1,23 @@
+import { Router } from "express";
+import { requireAuth, requireRole } from "../../middlewares/auth.js";
+import {
+  getCalendarToken,
+  listUsers,
+  login,
+  logout,
+  me,
+  register,
+  rotateCalendarToken,
+  updateUserRole,
+} from "./controller.js";
+
+export const authRouter = Router();
+
+authRouter.post("/register", register);
+authRouter.post("/login", login);
+authRouter.post("/logout", requireAuth, logout);
+authRouter.get("/me", requireAuth, me);
+authRouter.get("/calendar-token", requireAuth, getCalendarToken);
+authRouter.post("/calendar-token", requireAuth, rotateCalendarToken);
+authRouter.get("/users", requireRole("admin"), listUsers);
+authRouter.patch("/users/:id/role", requireRole("admin"), updateUserRole);
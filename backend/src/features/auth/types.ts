@@ -0,0 +1,38 @@
+export type Role = "admin" | "manager" | "member";
+
+export type UserDTO = {
+  id: string;
+  email: string;
+  name: string;
+  role: Role;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** The authenticated caller, attached to requests by the auth middleware. */
+export type AuthUser = {
+  id: string;
+  email: string;
+  name: string;
+  role: Role;
+};
+
+export type RegisterInput = {
+  email: string;
+  name: string;
+  password: string;
+};
+
+export type LoginInput = {
+  email: string;
+  password: string;
+};
+
+export type LoginResult = {
+  token: string;
+  user: UserDTO;
+};
+
+export type CalendarTokenResult = {
+  token: string;
+};
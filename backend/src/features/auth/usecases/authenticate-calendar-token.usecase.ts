@@ -0,0 +1,20 @@
+import { userRepository } from "../repository.js";
+import { AuthUser } from "../types.js";
+import {
+  calendarTokenUserId,
+  toAuthUser,
+  verifyCalendarToken,
+} from "../entity.js";
+
+/** Resolves a calendar feed token to its user, or null if it is not valid. */
+export async function authenticateCalendarTokenUsecase(
+  token: string,
+): Promise<AuthUser | null> {
+  const userId = calendarTokenUserId(token);
+  if (!userId) return null;
+
+  const user = await userRepository().getUserById(userId);
+  if (!user || !verifyCalendarToken(token, user)) return null;
+
+  return toAuthUser(user);
+}
@@ -0,0 +1,16 @@
+import { userRepository } from "../repository.js";
+import { AuthUser } from "../types.js";
+import { toAuthUser, verifyToken } from "../entity.js";
+
+/** Resolves a bearer token to its user, or null if it is no longer valid. */
+export async function authenticateTokenUsecase(
+  token: string,
+): Promise<AuthUser | null> {
+  const claims = verifyToken(token);
+  if (!claims) return null;
+
+  const user = await userRepository().getUserById(claims.sub);
+  if (!user || user.tokenVersion !== claims.ver) return null;
+
+  return toAuthUser(user);
+}
@@ -0,0 +1,15 @@
+import { userRepository } from "../repository.js";
+import { CalendarTokenResult } from "../types.js";
+import { signCalendarToken } from "../entity.js";
+import { NotFoundError, ValidationError } from "../../../utils/errors.js";
+
+/** The user's current calendar feed token; the same until it is rotated. */
+export async function getCalendarTokenUsecase(
+  userId: string,
+): Promise<CalendarTokenResult> {
+  if (!userId) throw ValidationError.field("userId", "userId is required");
+
+  const user = await userRepository().getUserById(userId);
+  if (!user) throw new NotFoundError("user not found");
+  return { token: signCalendarToken(user) };
+}
@@ -0,0 +1,13 @@
+import { userRepository } from "../repository.js";
+import { UserDTO } from "../types.js";
+import { toDTO } from "../entity.js";
+import { NotFoundError, ValidationError } from "../../../utils/errors.js";
+
+export async function getCurrentUserUsecase(id: string): Promise<UserDTO> {
+  if (!id) throw ValidationError.field("id", "id is required");
+
+  const user = await userRepository().getUserById(id);
+  if (!user) throw new NotFoundError("user not found");
+
+  return toDTO(user);
+}
@@ -0,0 +1,8 @@
+import { userRepository } from "../repository.js";
+import { UserDTO } from "../types.js";
+import { toDTO } from "../entity.js";
+
+export async function listUsersUsecase(): Promise<UserDTO[]> {
+  const users = await userRepository().listUsers();
+  return users.map(toDTO);
+}
@@ -0,0 +1,18 @@
+import { userRepository } from "../repository.js";
+import { LoginInput, LoginResult } from "../types.js";
+import { signToken, toDTO, verifyPassword } from "../entity.js";
+import { UnauthorizedError, ValidationError } from "../../../utils/errors.js";
+
+export async function loginUsecase(input: LoginInput): Promise<LoginResult> {
+  const email = input.email?.trim().toLowerCase();
+  if (!email) throw ValidationError.field("email", "email is required");
+  if (!input.password)
+    throw ValidationError.field("password", "password is required");
+
+  // same message for unknown users and wrong passwords
+  const user = await userRepository().getUserByEmail(email);
+  if (!user || !(await verifyPassword(input.password, user.passwordHash)))
+    throw new UnauthorizedError("invalid email or password");
+
+  return { token: signToken(user), user: toDTO(user) };
+}
@@ -0,0 +1,8 @@
+import { userRepository } from "../repository.js";
+import { ValidationError } from "../../../utils/errors.js";
+
+/** Revokes every token issued to the user so far. */
+export async function logoutUsecase(userId: string): Promise<void> {
+  if (!userId) throw ValidationError.field("userId", "userId is required");
+  await userRepository().incrementTokenVersion(userId);
+}
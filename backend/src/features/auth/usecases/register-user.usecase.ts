@@ -0,0 +1,41 @@
+import { userRepository } from "../repository.js";
+import { RegisterInput, UserDTO } from "../types.js";
+import { hashPassword, toDTO } from "../entity.js";
+import { ConflictError, ValidationError } from "../../../utils/errors.js";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+export async function registerUserUsecase(
+  input: RegisterInput,
+): Promise<UserDTO> {
+  const email = input.email?.trim().toLowerCase();
+  if (!email) throw ValidationError.field("email", "email is required");
+  if (!EMAIL_PATTERN.test(email))
+    throw ValidationError.field("email", "email must be a valid address");
+  if (!input.name?.trim())
+    throw ValidationError.field("name", "name is required");
+  if (typeof input.password !== "string" || !input.password)
+    throw ValidationError.field("password", "password is required");
+  if (input.password.length < MIN_PASSWORD_LENGTH)
+    throw ValidationError.field(
+      "password",
+      `password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    );
+
+  if (await userRepository().getUserByEmail(email))
+    throw new ConflictError("email is already registered", {
+      fields: { email: "email is already registered" },
+    });
+
+  // the very first account bootstraps the system as its admin
+  const role = (await userRepository().countUsers()) === 0 ? "admin" : "member";
+
+  const user = await userRepository().createUser({
+    email,
+    name: input.name.trim(),
+    passwordHash: await hashPassword(input.password),
+    role,
+  });
+  return toDTO(user);
+}
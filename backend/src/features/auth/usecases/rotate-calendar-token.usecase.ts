@@ -0,0 +1,13 @@
+import { userRepository } from "../repository.js";
+import { CalendarTokenResult } from "../types.js";
+import { signCalendarToken } from "../entity.js";
+import { ValidationError } from "../../../utils/errors.js";
+
+/** Revokes the user's calendar feed token and returns its replacement. */
+export async function rotateCalendarTokenUsecase(
+  userId: string,
+): Promise<CalendarTokenResult> {
+  if (!userId) throw ValidationError.field("userId", "userId is required");
+  const user = await userRepository().incrementCalendarTokenVersion(userId);
+  return { token: signCalendarToken(user) };
+}
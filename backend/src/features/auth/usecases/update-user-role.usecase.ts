@@ -0,0 +1,29 @@
+import { userRepository } from "../repository.js";
+import { AuthUser, Role, UserDTO } from "../types.js";
+import { ROLES, toDTO } from "../entity.js";
+import {
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "../../../utils/errors.js";
+
+export async function updateUserRoleUsecase(
+  id: string,
+  role: Role,
+  actor: AuthUser,
+): Promise<UserDTO> {
+  if (!id) throw ValidationError.field("id", "id is required");
+  if (!ROLES.includes(role))
+    throw ValidationError.field(
+      "role",
+      `role must be one of ${ROLES.join(", ")}`,
+    );
+  // keeps at least one admin around
+  if (id === actor.id) throw new ForbiddenError("cannot change your own role");
+
+  const user = await userRepository().getUserById(id);
+  if (!user) throw new NotFoundError("user not found");
+
+  const updated = await userRepository().updateUserRole(id, role);
+  return toDTO(updated);
+}
@@ -0,0 +1,194 @@
+import { NextFunction, Request, Response } from "express";
+import { createBookingUsecase } from "./usecases/create-booking.usecase.js";
+import { getBookingUsecase } from "./usecases/get-booking.usecase.js";
+import { listBookingsUsecase } from "./usecases/list-bookings.usecase.js";
+import { updateBookingUsecase } from "./usecases/update-booking.usecase.js";
+import { cancelBookingUsecase } from "./usecases/cancel-booking.usecase.js";
+import { createRecurringBookingUsecase } from "./usecases/create-recurring-booking.usecase.js";
+import { getBookingSeriesUsecase } from "./usecases/get-booking-series.usecase.js";
+import { updateFollowingBookingsUsecase } from "./usecases/update-following-bookings.usecase.js";
+import { cancelFollowingBookingsUsecase } from "./usecases/cancel-following-bookings.usecase.js";
+import { OccurrenceScope } from "./types.js";
+import { ValidationError } from "../../utils/errors.js";
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function parseScope(value: unknown): OccurrenceScope | undefined {
+  if (typeof value === "undefined" || value === "this") return "this";
+  if (value === "following") return "following";
+  return undefined;
+}
+
+export async function createBooking(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    // nested under /api/spaces/:id/bookings the space comes from the path
+    const spaceId = asString(req.params.id) ?? req.body?.spaceId;
+
+    const result = await createBookingUsecase({
+      spaceId,
+      userId: req.user!.id,
+      title: req.body?.title,
+      attendees: Number(req.body?.attendees),
+      startAt: req.body?.startAt,
+      endAt: req.body?.endAt,
+    });
+    return res.status(201).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function createRecurringBooking(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const spaceId = asString(req.params.id) ?? req.body?.spaceId;
+
+    const result = await createRecurringBookingUsecase({
+      spaceId,
+      userId: req.user!.id,
+      title: req.body?.title,
+      attendees: Number(req.body?.attendees),
+      startAt: req.body?.startAt,
+      endAt: req.body?.endAt,
+      rrule: req.body?.rrule,
+      timeZone: req.body?.timeZone,
+      skipConflicts: req.body?.skipConflicts === true,
+    });
+    return res.status(201).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function getBookingSeries(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const id = req.params.id;
+
+    if (typeof id !== "string") {
+      throw ValidationError.field("id", "invalid id");
+    }
+
+    const result = await getBookingSeriesUsecase(id);
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function getBooking(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const id = req.params.id;
+
+    if (typeof id !== "string") {
+      throw ValidationError.field("id", "invalid id");
+    }
+
+    const result = await getBookingUsecase(id);
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function listBookings(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await listBookingsUsecase({
+      spaceId: asString(req.params.id) ?? asString(req.query.spaceId),
+      from: asString(req.query.from),
+      to: asString(req.query.to),
+      includeCancelled: req.query.includeCancelled === "true",
+    });
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function updateBooking(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const id = req.params.id;
+
+    if (typeof id !== "string") {
+      throw ValidationError.field("id", "invalid id");
+    }
+    const scope = parseScope(req.query.scope);
+    if (!scope) {
+      throw ValidationError.field("scope", "invalid scope");
+    }
+    const input = {
+      title: req.body?.title,
+      attendees:
+        typeof req.body?.attendees === "undefined"
+          ? undefined
+          : Number(req.body.attendees),
+      startAt: req.body?.startAt,
+      endAt: req.body?.endAt,
+    };
+
+    // scope=following answers with the new series instead of one booking
+    const result =
+      scope === "following"
+        ? await updateFollowingBookingsUsecase(
+            id,
+            {
+              ...input,
+              skipConflicts: req.body?.skipConflicts === true,
+            },
+            req.user!,
+          )
+        : await updateBookingUsecase(id, input, req.user!);
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function cancelBooking(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const id = req.params.id;
+
+    if (typeof id !== "string") {
+      throw ValidationError.field("id", "invalid id");
+    }
+    const scope = parseScope(req.query.scope);
+    if (!scope) {
+      throw ValidationError.field("scope", "invalid scope");
+    }
+    if (scope === "following")
+      await cancelFollowingBookingsUsecase(id, req.user!);
+    else await cancelBookingUsecase(id, req.user!);
+
+    return res.status(204).send();
+  } catch (err) {
+    return next(err);
+  }
+}
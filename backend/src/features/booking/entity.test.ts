@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import type { Booking } from "../../generated/prisma/client.js";
+import {
+  assertAttendees,
+  assertWindow,
+  parseDate,
+  partitionConflicts,
+} from "./entity.js";
+
+describe("booking entity", () => {
+  it("parses ISO dates and rejects garbage", () => {
+    expect(parseDate("2026-01-20T09:00:00Z", "startAt").toISOString()).toBe(
+      "2026-01-20T09:00:00.000Z",
+    );
+    expect(() => parseDate("tomorrow-ish", "startAt")).toThrow(
+      "startAt must be a valid ISO 8601 date",
+    );
+    expect(() => parseDate(undefined, "endAt")).toThrow("endAt is required");
+  });
+
+  it("requires the window to end after it starts", () => {
+    const at = new Date("2026-01-20T09:00:00Z");
+    expect(() => assertWindow(at, at)).toThrow("endAt must be after startAt");
+  });
+
+  it("rejects attendee counts above capacity", () => {
+    expect(() => assertAttendees(8, 8)).not.toThrow();
+    expect(() => assertAttendees(9, 8)).toThrow("must not exceed");
+    expect(() => assertAttendees(0, 8)).toThrow("positive integer");
+  });
+});
+
+describe("partitionConflicts", () => {
+  it("reports which occurrences collide with which bookings", () => {
+    const at = (hhmm: string) => new Date(`2026-01-20T${hhmm}:00Z`);
+    const existing = [
+      { id: "b1", startAt: at("10:30"), endAt: at("11:30") },
+    ] as Booking[];
+
+    const { free, conflicts } = partitionConflicts(
+      [
+        { startAt: at("09:00"), endAt: at("10:00") },
+        { startAt: at("10:00"), endAt: at("11:00") },
+      ],
+      existing,
+    );
+
+    expect(free).toHaveLength(1);
+    expect(conflicts).toEqual([
+      {
+        startAt: at("10:00").toISOString(),
+        endAt: at("11:00").toISOString(),
+        conflictingBookingIds: ["b1"],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+import type { Booking, BookingSeries } from "../../generated/prisma/client.js";
+import { BookingDTO, BookingSeriesDTO, OccurrenceConflict } from "./types.js";
+import { Interval, overlaps } from "../space/availability.js";
+import { RuleContext, checkBookingRules } from "../space/rules.js";
+import type { RuleViolation } from "../space/types.js";
+import { RecurrenceRule, expandOccurrences } from "./recurrence.js";
+import type { AuthUser } from "../auth/types.js";
+import { canManageSpaces } from "../auth/entity.js";
+import {
+  AppError,
+  ConflictError,
+  ForbiddenError,
+  ValidationError,
+} from "../../utils/errors.js";
+
+// Open-ended series are materialized this far ahead of their first occurrence
+const SERIES_HORIZON_MS = 366 * 24 * 60 * 60 * 1000;
+const MAX_OCCURRENCES = 366;
+
+/** Raised when a booking would overlap existing ones; lists what collided. */
+export class BookingConflictError extends ConflictError {
+  readonly code = "BOOKING_CONFLICT";
+
+  constructor(
+    message: string,
+    readonly conflicts: OccurrenceConflict[],
+  ) {
+    super(message, { conflicts });
+  }
+}
+
+/** Raised when a booking breaks the booking rules of its space. */
+export class BookingRuleError extends AppError {
+  readonly status = 422;
+  readonly code = "BOOKING_RULE_VIOLATION";
+
+  constructor(readonly violations: RuleViolation[]) {
+    super(violations.map((v) => v.message).join("; "), { violations });
+  }
+}
+
+export function toDTO(booking: Booking): BookingDTO {
+  return {
+    id: booking.id,
+    spaceId: booking.spaceId,
+    title: booking.title,
+    attendees: booking.attendees,
+    startAt: booking.startAt.toISOString(),
+    endAt: booking.endAt.toISOString(),
+    status: booking.status,
+    seriesId: booking.seriesId,
+    recurrenceId: booking.recurrenceId?.toISOString() ?? null,
+    userId: booking.userId,
+    createdAt: booking.createdAt.toISOString(),
+    updatedAt: booking.updatedAt.toISOString(),
+  };
+}
+
+export function toSeriesDTO(series: BookingSeries): BookingSeriesDTO {
+  return {
+    id: series.id,
+    spaceId: series.spaceId,
+    title: series.title,
+    attendees: series.attendees,
+    startAt: series.startAt.toISOString(),
+    endAt: series.endAt.toISOString(),
+    rrule: series.rrule,
+    timeZone: series.timeZone,
+    status: series.status,
+    userId: series.userId,
+    createdAt: series.createdAt.toISOString(),
+    updatedAt: series.updatedAt.toISOString(),
+  };
+}
+
+/** Organizers manage their own bookings; admins and managers manage all. */
+export function assertCanManage(
+  booking: { userId: string | null },
+  actor: AuthUser,
+) {
+  if (booking.userId !== actor.id && !canManageSpaces(actor.role))
+    throw new ForbiddenError("not allowed to modify another user's booking");
+}
+
+export function parseDate(value: unknown, field: string): Date {
+  if (typeof value !== "string" || !value)
+    throw ValidationError.field(field, `${field} is required`);
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime()))
+    throw ValidationError.field(
+      field,
+      `${field} must be a valid ISO 8601 date`,
+    );
+  return date;
+}
+
+export function assertWindow(startAt: Date, endAt: Date) {
+  if (endAt.getTime() <= startAt.getTime())
+    throw ValidationError.field("endAt", "endAt must be after startAt");
+}
+
+export function assertAttendees(attendees: number, capacity: number) {
+  if (!Number.isInteger(attendees) || attendees <= 0)
+    throw ValidationError.field(
+      "attendees",
+      "attendees must be a positive integer",
+    );
+  if (attendees > capacity)
+    throw ValidationError.field(
+      "attendees",
+      `attendees must not exceed space capacity (${capacity})`,
+    );
+}
+
+/** Throws BookingRuleError when `slot` breaks any of the space's rules. */
+export function assertBookingRules(slot: Interval, context: RuleContext) {
+  const violations = checkBookingRules(slot, context);
+  if (violations.length > 0) throw new BookingRuleError(violations);
+}
+
+/** Expands a series into concrete occurrence windows. */
+export function planOccurrences(
+  rule: RecurrenceRule,
+  startAt: Date,
+  endAt: Date,
+  timeZone: string,
+): Interval[] {
+  const duration = endAt.getTime() - startAt.getTime();
+  const occurrences = expandOccurrences(rule, startAt, {
+    timeZone,
+    horizon: new Date(startAt.getTime() + SERIES_HORIZON_MS),
+    max: MAX_OCCURRENCES,
+  }).map((start) => ({
+    startAt: start,
+    endAt: new Date(start.getTime() + duration),
+  }));
+
+  for (let i = 1; i < occurrences.length; i++) {
+    if (overlaps(occurrences[i - 1], occurrences[i]))
+      throw ValidationError.field(
+        "rrule",
+        "occurrences must not overlap each other",
+      );
+  }
+  return occurrences;
+}
+
+/** Splits planned occurrences into free ones and ones colliding with `existing`. */
+export function partitionConflicts(
+  occurrences: Interval[],
+  existing: (Interval & { id: string })[],
+): { free: Interval[]; conflicts: OccurrenceConflict[] } {
+  const free: Interval[] = [];
+  const conflicts: OccurrenceConflict[] = [];
+  for (const occurrence of occurrences) {
+    const hits = existing.filter((b) => overlaps(b, occurrence));
+    if (hits.length === 0) free.push(occurrence);
+    else
+      conflicts.push({
+        startAt: occurrence.startAt.toISOString(),
+        endAt: occurrence.endAt.toISOString(),
+        conflictingBookingIds: hits.map((b) => b.id),
+      });
+  }
+  return { free, conflicts };
+}
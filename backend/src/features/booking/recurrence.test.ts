@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { expandOccurrences, formatRRule, parseRRule } from "./recurrence.js";
+
+const horizon = new Date("2027-12-31T00:00:00Z");
+const iso = (dates: Date[]) => dates.map((d) => d.toISOString());
+
+describe("recurrence", () => {
+  it("parses and formats a rule", () => {
+    const rule = parseRRule("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=4");
+    expect(rule).toEqual({
+      freq: "WEEKLY",
+      interval: 2,
+      count: 4,
+      byDay: [
+        { weekday: 1, ordinal: undefined },
+        { weekday: 3, ordinal: undefined },
+      ],
+    });
+    expect(formatRRule(rule)).toBe(
+      "FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=MO,WE",
+    );
+  });
+
+  it("rejects unsupported or contradictory rules", () => {
+    expect(() => parseRRule("FREQ=YEARLY")).toThrow("FREQ must be one of");
+    expect(() => parseRRule("FREQ=DAILY;COUNT=2;UNTIL=20260201")).toThrow(
+      "both COUNT and UNTIL",
+    );
+    expect(() => parseRRule("FREQ=WEEKLY;BYDAY=1MO")).toThrow("MONTHLY");
+    expect(() => parseRRule("FREQ=DAILY;BYHOUR=9")).toThrow("not supported");
+  });
+
+  it("expands weekly BYDAY rules within COUNT", () => {
+    const dates = expandOccurrences(
+      parseRRule("FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4"),
+      new Date("2026-01-21T09:00:00Z"), // a Wednesday
+      { timeZone: "UTC", horizon, max: 100 },
+    );
+    expect(iso(dates)).toEqual([
+      "2026-01-21T09:00:00.000Z",
+      "2026-01-26T09:00:00.000Z",
+      "2026-01-28T09:00:00.000Z",
+      "2026-02-02T09:00:00.000Z",
+    ]);
+  });
+
+  it("keeps wall-clock time across DST in the given time zone", () => {
+    const dates = expandOccurrences(
+      parseRRule("FREQ=WEEKLY;UNTIL=20260405"),
+      new Date("2026-03-23T08:00:00Z"), // 09:00 CET
+      { timeZone: "Europe/Berlin", horizon, max: 100 },
+    );
+    expect(iso(dates)).toEqual([
+      "2026-03-23T08:00:00.000Z",
+      "2026-03-30T07:00:00.000Z", // 09:00 CEST
+    ]);
+  });
+
+  it("expands monthly rules with ordinals and skips short months", () => {
+    const lastFriday = expandOccurrences(
+      parseRRule("FREQ=MONTHLY;BYDAY=-1FR;COUNT=3"),
+      new Date("2026-01-01T10:00:00Z"),
+      { timeZone: "UTC", horizon, max: 100 },
+    );
+    expect(iso(lastFriday)).toEqual([
+      "2026-01-30T10:00:00.000Z",
+      "2026-02-27T10:00:00.000Z",
+      "2026-03-27T10:00:00.000Z",
+    ]);
+
+    const the31st = expandOccurrences(
+      parseRRule("FREQ=MONTHLY;COUNT=3"),
+      new Date("2026-01-31T10:00:00Z"),
+      { timeZone: "UTC", horizon, max: 100 },
+    );
+    expect(iso(the31st)).toEqual([
+      "2026-01-31T10:00:00.000Z",
+      "2026-03-31T10:00:00.000Z",
+      "2026-05-31T10:00:00.000Z",
+    ]);
+  });
+
+  it("stops at the horizon for open-ended rules", () => {
+    const dates = expandOccurrences(
+      parseRRule("FREQ=DAILY"),
+      new Date("2026-01-01T10:00:00Z"),
+      { timeZone: "UTC", horizon: new Date("2026-01-05T00:00:00Z"), max: 100 },
+    );
+    expect(dates).toHaveLength(4);
+  });
+});
@@ -0,0 +1,280 @@
+import { fromWallClock, toWallClock } from "../../utils/time-zone.js";
+import { ValidationError } from "../../utils/errors.js";
+
+/**
+ * Supported subset of RFC 5545 RRULE: FREQ=DAILY|WEEKLY|MONTHLY with
+ * INTERVAL, COUNT or UNTIL, BYDAY (ordinals for MONTHLY only) and
+ * BYMONTHDAY (MONTHLY only). Weeks start on Monday.
+ */
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+export type WeekdayRule = {
+  weekday: number; // 0 = Sunday, as Date#getUTCDay
+  ordinal?: number; // e.g. 2 = second, -1 = last in month
+};
+
+export type RecurrenceRule = {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+};
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const FREQUENCIES: Frequency[] = ["DAILY", "WEEKLY", "MONTHLY"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function positiveInt(value: string, key: string): number {
+  const n = Number(value);
+  if (!/^\d+$/.test(value) || !Number.isInteger(n) || n <= 0)
+    throw ValidationError.field(
+      "rrule",
+      `rrule ${key} must be a positive integer`,
+    );
+  return n;
+}
+
+function parseUntil(value: string): Date {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+  if (!m)
+    throw ValidationError.field(
+      "rrule",
+      "rrule UNTIL must be YYYYMMDD or YYYYMMDDTHHMMSSZ",
+    );
+  const [, y, mo, d, h, mi, s] = m;
+  // a date-only UNTIL includes the whole day
+  return h
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s))
+    : new Date(Date.UTC(+y, +mo - 1, +d, 23, 59, 59));
+}
+
+function formatUntil(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+export function parseRRule(value: string): RecurrenceRule {
+  if (typeof value !== "string" || !value.trim())
+    throw ValidationError.field("rrule", "rrule is required");
+
+  const fields = new Map<string, string>();
+  const body = value.trim().replace(/^RRULE:/i, "");
+  for (const part of body.split(";")) {
+    const [key, val] = part.split("=");
+    if (!key || !val)
+      throw ValidationError.field(
+        "rrule",
+        `rrule part "${part}" must be KEY=VALUE`,
+      );
+    fields.set(key.toUpperCase(), val.toUpperCase());
+  }
+
+  const freq = fields.get("FREQ") as Frequency | undefined;
+  if (!freq) throw ValidationError.field("rrule", "rrule FREQ is required");
+  if (!FREQUENCIES.includes(freq))
+    throw ValidationError.field(
+      "rrule",
+      `rrule FREQ must be one of ${FREQUENCIES.join(", ")}`,
+    );
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+  for (const [key, val] of fields) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        rule.interval = positiveInt(val, key);
+        break;
+      case "COUNT":
+        rule.count = positiveInt(val, key);
+        break;
+      case "UNTIL":
+        rule.until = parseUntil(val);
+        break;
+      case "WKST":
+        if (val !== "MO")
+          throw ValidationError.field("rrule", "rrule WKST must be MO");
+        break;
+      case "BYDAY":
+        rule.byDay = val.split(",").map((code) => {
+          const m = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(code);
+          if (!m)
+            throw ValidationError.field(
+              "rrule",
+              `rrule BYDAY value "${code}" is invalid`,
+            );
+          const ordinal = m[1] ? Number(m[1]) : undefined;
+          if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 5))
+            throw ValidationError.field(
+              "rrule",
+              `rrule BYDAY value "${code}" is invalid`,
+            );
+          if (ordinal !== undefined && freq !== "MONTHLY")
+            throw ValidationError.field(
+              "rrule",
+              "rrule BYDAY ordinals must be used with MONTHLY",
+            );
+          return { weekday: WEEKDAYS.indexOf(m[2]), ordinal };
+        });
+        break;
+      case "BYMONTHDAY":
+        if (freq !== "MONTHLY")
+          throw ValidationError.field(
+            "rrule",
+            "rrule BYMONTHDAY must be used with MONTHLY",
+          );
+        rule.byMonthDay = val.split(",").map((d) => {
+          const n = Number(d);
+          if (!Number.isInteger(n) || n === 0 || Math.abs(n) > 31)
+            throw ValidationError.field(
+              "rrule",
+              `rrule BYMONTHDAY value "${d}" is invalid`,
+            );
+          return n;
+        });
+        break;
+      default:
+        throw ValidationError.field("rrule", `rrule ${key} is not supported`);
+    }
+  }
+  if (rule.count && rule.until)
+    throw ValidationError.field(
+      "rrule",
+      "rrule cannot contain both COUNT and UNTIL",
+    );
+  return rule;
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  if (rule.byDay)
+    parts.push(
+      `BYDAY=${rule.byDay.map((d) => `${d.ordinal ?? ""}${WEEKDAYS[d.weekday]}`).join(",")}`,
+    );
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  return parts.join(";");
+}
+
+// Calendar days are counted from 1970-01-01 so date arithmetic ignores DST.
+function dayNumber(year: number, month: number, day: number): number {
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+function fromDayNumber(n: number) {
+  const d = new Date(n * DAY_MS);
+  return {
+    year: d.getUTCFullYear(),
+    month: d.getUTCMonth() + 1,
+    day: d.getUTCDate(),
+  };
+}
+
+function weekdayOf(n: number): number {
+  return new Date(n * DAY_MS).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function monthDays(
+  rule: RecurrenceRule,
+  year: number,
+  month: number,
+  fallbackDay: number,
+) {
+  const first = dayNumber(year, month, 1);
+  const length = daysInMonth(year, month);
+  const days = new Set<number>();
+
+  if (rule.byDay) {
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matches: number[] = [];
+      for (let i = 0; i < length; i++)
+        if (weekdayOf(first + i) === weekday) matches.push(first + i);
+      if (ordinal === undefined) matches.forEach((d) => days.add(d));
+      else {
+        const picked = matches.at(ordinal > 0 ? ordinal - 1 : ordinal);
+        if (picked !== undefined) days.add(picked);
+      }
+    }
+  } else {
+    // months lacking the day (e.g. the 31st) are skipped, as in RFC 5545
+    for (const d of rule.byMonthDay ?? [fallbackDay]) {
+      const date = d > 0 ? d : length + d + 1;
+      if (date >= 1 && date <= length) days.add(first + date - 1);
+    }
+  }
+  return [...days].sort((a, b) => a - b);
+}
+
+/**
+ * Expands `rule` from `dtstart` into occurrence start instants. Wall-clock
+ * time is kept constant in `timeZone`, so a 09:00 weekly meeting stays at
+ * 09:00 across DST changes. Expansion stops at COUNT, UNTIL, `horizon` or
+ * `max`, whichever comes first.
+ */
+export function expandOccurrences(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  options: { timeZone: string; horizon: Date; max: number },
+): Date[] {
+  const { timeZone, max } = options;
+  const start = toWallClock(dtstart, timeZone);
+  const startDay = dayNumber(start.year, start.month, start.day);
+  const limit =
+    rule.until && rule.until < options.horizon ? rule.until : options.horizon;
+  const endWall = toWallClock(limit, timeZone);
+  const lastDay = dayNumber(endWall.year, endWall.month, endWall.day);
+
+  const out: Date[] = [];
+  // returns false once expansion must stop
+  const emit = (day: number): boolean => {
+    if (day < startDay) return true;
+    const at = fromWallClock(
+      {
+        ...fromDayNumber(day),
+        hour: start.hour,
+        minute: start.minute,
+        second: start.second,
+      },
+      timeZone,
+    );
+    if (at > limit) return false;
+    out.push(at);
+    if (rule.count && out.length >= rule.count) return false;
+    return out.length < max;
+  };
+
+  if (rule.freq === "DAILY") {
+    const weekdays = rule.byDay?.map((d) => d.weekday);
+    for (let day = startDay; day <= lastDay; day += rule.interval) {
+      if (weekdays && !weekdays.includes(weekdayOf(day))) continue;
+      if (!emit(day)) break;
+    }
+  } else if (rule.freq === "WEEKLY") {
+    const offsets = (rule.byDay?.map((d) => d.weekday) ?? [weekdayOf(startDay)])
+      .map((weekday) => (weekday + 6) % 7)
+      .sort((a, b) => a - b);
+    const weekStart = startDay - ((weekdayOf(startDay) + 6) % 7);
+    weeks: for (let w = weekStart; w <= lastDay; w += 7 * rule.interval) {
+      for (const offset of offsets) if (!emit(w + offset)) break weeks;
+    }
+  } else {
+    months: for (let k = 0; ; k += rule.interval) {
+      const year = start.year + Math.floor((start.month - 1 + k) / 12);
+      const month = ((start.month - 1 + k) % 12) + 1;
+      if (dayNumber(year, month, 1) > lastDay) break;
+      for (const day of monthDays(rule, year, month, start.day))
+        if (!emit(day)) break months;
+    }
+  }
+  return out;
+}
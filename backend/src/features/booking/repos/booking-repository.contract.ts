@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import type { BookingRepository } from "./booking-repository.js";
+
+type Setup = {
+  repository: BookingRepository;
+  // bookings reference spaces, which live in the space store
+  createSpace(): Promise<string>;
+};
+
+/**
+ * What every BookingRepository must do. The store may be shared (a real
+ * database), so each test books a fresh space and only looks at that.
+ */
+export function describeBookingRepositoryContract(
+  name: string,
+  setup: () => Setup | Promise<Setup>,
+) {
+  describe(`${name} (BookingRepository contract)`, () => {
+    // hours from midnight of a day far from any other test data
+    const DAY = Date.UTC(2031, 2, 1);
+    const at = (hour: number) => new Date(DAY + hour * 3_600_000);
+    const slot = (from: number, to: number) => ({
+      startAt: at(from),
+      endAt: at(to),
+    });
+
+    async function start() {
+      const { repository: repo, createSpace } = await setup();
+      const spaceId = await createSpace();
+      const book = (from: number, to: number, title = "Sync") =>
+        repo.withSpaceLock(spaceId, (tx) =>
+          tx.createBooking({ spaceId, title, attendees: 2, ...slot(from, to) }),
+        );
+      return { repo, spaceId, book };
+    }
+
+    it("lists bookings overlapping a range, earliest first", async () => {
+      const { repo, spaceId, book } = await start();
+      const late = await book(14, 15);
+      const early = await book(9, 10);
+      const cancelled = await book(11, 12);
+      await repo.cancelBooking(cancelled.id);
+
+      expect(await repo.getBookingById(early.id)).toMatchObject({
+        spaceId,
+        title: "Sync",
+        status: "confirmed",
+        seriesId: null,
+      });
+      const ids = (rows: { id: string }[]) => rows.map((r) => r.id);
+      expect(ids(await repo.listBookings({ spaceId }))).toEqual([
+        early.id,
+        late.id,
+      ]);
+      expect(
+        ids(await repo.listBookings({ spaceId, includeCancelled: true })),
+      ).toEqual([early.id, cancelled.id, late.id]);
+      // ranges are half-open: touching a booking is not overlapping it
+      expect(
+        ids(await repo.listBookings({ spaceId, from: at(10), to: at(14) })),
+      ).toEqual([]);
+      expect(await repo.listOccupiedSlots([spaceId], at(9), at(15))).toEqual([
+        { id: early.id, spaceId, ...slot(9, 10) },
+        { id: late.id, spaceId, ...slot(14, 15) },
+      ]);
+    });
+
+    it("finds conflicts under the lock and serializes lock holders", async () => {
+      const { repo, spaceId, book } = await start();
+      const booked = await book(9, 10);
+
+      // each checks for conflicts first; the second must see the first's booking
+      const attempt = () =>
+        repo.withSpaceLock(spaceId, async (tx) => {
+          const conflicts = await tx.findConflicts(spaceId, at(10), at(11));
+          if (conflicts.length > 0) return null;
+          return tx.createBooking({
+            spaceId,
+            title: "Race",
+            attendees: 1,
+            ...slot(10, 11),
+          });
+        });
+      const results = await Promise.all([attempt(), attempt()]);
+      expect(results.filter(Boolean)).toHaveLength(1);
+
+      const conflicts = await repo.withSpaceLock(spaceId, (tx) =>
+        tx.findConflicts(spaceId, at(9), at(11), booked.id),
+      );
+      expect(conflicts.map((c) => c.id)).toEqual([results.find(Boolean)!.id]);
+    });
+
+    it("keeps a lock holder's writes only if it succeeds", async () => {
+      const { repo, spaceId, book } = await start();
+      const kept = await book(9, 10);
+
+      await expect(
+        repo.withSpaceLock(spaceId, async (tx) => {
+          await tx.updateBooking(kept.id, { title: "Renamed" });
+          await tx.createBooking({
+            spaceId,
+            title: "Lost",
+            attendees: 1,
+            ...slot(11, 12),
+          });
+          throw new Error("rolled back");
+        }),
+      ).rejects.toThrow("rolled back");
+
+      expect(
+        (await repo.listBookings({ spaceId })).map((b) => b.title),
+      ).toEqual(["Sync"]);
+    });
+
+    it("stores series and cancels their occurrences from a point on", async () => {
+      const { repo, spaceId } = await start();
+      const series = await repo.withSpaceLock(spaceId, async (tx) => {
+        const created = await tx.createSeries({
+          spaceId,
+          title: "Standup",
+          attendees: 3,
+          ...slot(9, 10),
+          rrule: "FREQ=DAILY;COUNT=3",
+          timeZone: "UTC",
+        });
+        for (const day of [0, 1, 2])
+          await tx.createBooking({
+            spaceId,
+            title: "Standup",
+            attendees: 3,
+            ...slot(9 + day * 24, 10 + day * 24),
+            seriesId: created.id,
+            recurrenceId: at(9 + day * 24),
+          });
+        return created;
+      });
+
+      const cancelled = await repo.withSpaceLock(spaceId, async (tx) => {
+        await tx.updateSeries(series.id, { rrule: "FREQ=DAILY;COUNT=1" });
+        return tx.cancelOccurrencesFrom(series.id, at(33));
+      });
+      expect(cancelled).toBe(2);
+      expect(await repo.getSeriesById(series.id)).toMatchObject({
+        rrule: "FREQ=DAILY;COUNT=1",
+        status: "confirmed",
+      });
+      expect(
+        (await repo.listSeriesOccurrences(series.id)).map((b) => b.status),
+      ).toEqual(["confirmed", "cancelled", "cancelled"]);
+    });
+  });
+}
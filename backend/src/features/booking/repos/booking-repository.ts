@@ -0,0 +1,138 @@
+import type {
+  Booking,
+  BookingSeries,
+  Reservation,
+  WaitlistEntry,
+} from "../../../generated/prisma/client.js";
+
+export type BookingData = {
+  spaceId: string;
+  title: string;
+  attendees: number;
+  startAt: Date;
+  endAt: Date;
+  seriesId?: string;
+  recurrenceId?: Date;
+  userId?: string;
+};
+
+export type ReservationData = {
+  spaceId: string;
+  userId: string;
+  title: string;
+  attendees: number;
+  startAt: Date;
+  endAt: Date;
+  expiresAt: Date;
+};
+
+export type SeriesData = {
+  spaceId: string;
+  title: string;
+  attendees: number;
+  startAt: Date;
+  endAt: Date;
+  rrule: string;
+  timeZone: string;
+  userId?: string;
+};
+
+export type BookingFilter = {
+  spaceId?: string;
+  from?: Date;
+  to?: Date;
+  includeCancelled?: boolean;
+};
+
+/** A booking or a pending reservation request taking up time in a space. */
+export type OccupiedSlot = { id: string; startAt: Date; endAt: Date };
+
+export type SpaceSlot = OccupiedSlot & { spaceId: string };
+
+/**
+ * The writes that need the space lock, bound to one locked transaction.
+ * Updates of a missing row throw.
+ */
+export interface LockedBookingRepo {
+  /**
+   * Everything occupying part of the window: confirmed bookings and the
+   * reservation requests still holding their slot while they await a
+   * decision.
+   */
+  findConflicts(
+    spaceId: string,
+    startAt: Date,
+    endAt: Date,
+    excludeId?: string,
+  ): Promise<OccupiedSlot[]>;
+  createBooking(data: BookingData): Promise<Booking>;
+  updateBooking(
+    id: string,
+    data: Partial<Omit<BookingData, "spaceId">>,
+  ): Promise<Booking>;
+  createSeries(data: SeriesData): Promise<BookingSeries>;
+  updateSeries(
+    id: string,
+    data: Partial<Pick<SeriesData, "rrule">> & { status?: "cancelled" },
+  ): Promise<BookingSeries>;
+  /**
+   * Cancels occurrences of a series originally scheduled at or after
+   * `from`; returns how many.
+   */
+  cancelOccurrencesFrom(seriesId: string, from: Date): Promise<number>;
+  /**
+   * Claims a waiting waitlist entry for a booking in `spaceId`. The update
+   * is conditional on the entry still waiting and row-locks it until
+   * commit, so when promotions on two spaces race for the same "any space"
+   * entry only one of them gets it. Returns false when it was taken.
+   */
+  claimWaitlistEntry(id: string, spaceId: string): Promise<boolean>;
+  linkWaitlistEntry(id: string, bookingId: string): Promise<WaitlistEntry>;
+  createReservation(data: ReservationData): Promise<Reservation>;
+  /**
+   * Approves a reservation request that is still pending and holding its
+   * slot; returns false when it was decided or expired in the meantime.
+   */
+  approveReservation(
+    id: string,
+    decision: { reason: string | null; decidedById: string },
+    now: Date,
+  ): Promise<boolean>;
+  linkReservation(id: string, bookingId: string): Promise<Reservation>;
+}
+
+/** Storage for bookings and recurring series. */
+export interface BookingRepository {
+  getBookingById(id: string): Promise<Booking | null>;
+  /**
+   * Bookings overlapping `from`..`to` (either end may be open), earliest
+   * first; confirmed ones only unless `includeCancelled`.
+   */
+  listBookings(filter: BookingFilter): Promise<Booking[]>;
+  /**
+   * Everything occupying part of `from`..`to` in the given spaces, the same
+   * way `findConflicts` sees it: confirmed bookings and the reservation
+   * requests still holding their slot. Read without the space lock, so only
+   * good for answers that a later locked write re-checks.
+   */
+  listOccupiedSlots(
+    spaceIds: string[],
+    from: Date,
+    to: Date,
+    now?: Date,
+  ): Promise<SpaceSlot[]>;
+  getSeriesById(id: string): Promise<BookingSeries | null>;
+  /** The occurrences of a series, earliest first. */
+  listSeriesOccurrences(seriesId: string): Promise<Booking[]>;
+  /** Throws when there is no such booking. */
+  cancelBooking(id: string): Promise<Booking>;
+  /**
+   * Runs `fn` holding a lock on the space, so concurrent writers for the
+   * same space are serialized and conflict checks stay valid until `fn`
+   * returns. Its writes are kept only if it succeeds.
+   */
+  withSpaceLock<T>(
+    spaceId: string,
+    fn: (repo: LockedBookingRepo) => Promise<T>,
+  ): Promise<T>;
+}
@@ -0,0 +1,19 @@
+import { describe } from "vitest";
+import { describeBookingRepositoryContract } from "./booking-repository.contract.js";
+import { prismaBookingRepository } from "./booking.repo.js";
+import { prismaSpaceRepository } from "../../space/repos/space.repo.js";
+
+// needs a disposable MySQL database: the suite leaves spaces and bookings
+// behind
+describe.runIf(process.env.TEST_WITH_DATABASE === "true")("MySQL", () => {
+  describeBookingRepositoryContract("prisma booking repository", () => ({
+    repository: prismaBookingRepository,
+    createSpace: async () =>
+      (
+        await prismaSpaceRepository.createSpace(
+          { name: "Booking contract", capacity: 4 },
+          { actorId: null, requestId: null },
+        )
+      ).id,
+  }));
+});
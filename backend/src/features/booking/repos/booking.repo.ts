@@ -0,0 +1,176 @@
+import { prisma } from "../../../config/prisma.js";
+import type { Prisma } from "../../../generated/prisma/client.js";
+import type {
+  BookingData,
+  BookingFilter,
+  BookingRepository,
+  LockedBookingRepo,
+  OccupiedSlot,
+  ReservationData,
+  SeriesData,
+  SpaceSlot,
+} from "./booking-repository.js";
+
+async function getBookingById(id: string) {
+  return prisma.booking.findUnique({ where: { id } });
+}
+
+async function listBookings(filter: BookingFilter) {
+  return prisma.booking.findMany({
+    where: {
+      spaceId: filter.spaceId,
+      status: filter.includeCancelled ? undefined : "confirmed",
+      // a booking is in range when it ends after `from` and starts before `to`
+      endAt: filter.from ? { gt: filter.from } : undefined,
+      startAt: filter.to ? { lt: filter.to } : undefined,
+    },
+    orderBy: { startAt: "asc" },
+  });
+}
+
+async function listOccupiedSlots(
+  spaceIds: string[],
+  from: Date,
+  to: Date,
+  now = new Date(),
+): Promise<SpaceSlot[]> {
+  const where = {
+    spaceId: { in: spaceIds },
+    startAt: { lt: to },
+    endAt: { gt: from },
+  };
+  const select = { id: true, spaceId: true, startAt: true, endAt: true };
+  const bookings = await prisma.booking.findMany({
+    where: { ...where, status: "confirmed" },
+    select,
+  });
+  const holds = await prisma.reservation.findMany({
+    where: { ...where, status: "pending", expiresAt: { gt: now } },
+    select,
+  });
+  return [...bookings, ...holds].sort(
+    (a, b) => a.startAt.getTime() - b.startAt.getTime(),
+  );
+}
+
+async function getSeriesById(id: string) {
+  return prisma.bookingSeries.findUnique({ where: { id } });
+}
+
+async function listSeriesOccurrences(seriesId: string) {
+  return prisma.booking.findMany({
+    where: { seriesId },
+    orderBy: { startAt: "asc" },
+  });
+}
+
+async function cancelBooking(id: string) {
+  return prisma.booking.update({
+    where: { id },
+    data: { status: "cancelled" },
+  });
+}
+
+function bindRepo(tx: Prisma.TransactionClient): LockedBookingRepo {
+  return {
+    async findConflicts(
+      spaceId: string,
+      startAt: Date,
+      endAt: Date,
+      excludeId?: string,
+    ): Promise<OccupiedSlot[]> {
+      const where = {
+        spaceId,
+        id: excludeId ? { not: excludeId } : undefined,
+        startAt: { lt: endAt },
+        endAt: { gt: startAt },
+      };
+      const bookings = await tx.booking.findMany({
+        where: { ...where, status: "confirmed" },
+        orderBy: { startAt: "asc" },
+      });
+      const holds = await tx.reservation.findMany({
+        where: { ...where, status: "pending", expiresAt: { gt: new Date() } },
+        select: { id: true, startAt: true, endAt: true },
+      });
+      return [...bookings, ...holds].sort(
+        (a, b) => a.startAt.getTime() - b.startAt.getTime(),
+      );
+    },
+    createBooking(data: BookingData) {
+      return tx.booking.create({ data });
+    },
+    updateBooking(id: string, data: Partial<Omit<BookingData, "spaceId">>) {
+      return tx.booking.update({ where: { id }, data });
+    },
+    createSeries(data: SeriesData) {
+      return tx.bookingSeries.create({ data });
+    },
+    updateSeries(
+      id: string,
+      data: Partial<Pick<SeriesData, "rrule">> & { status?: "cancelled" },
+    ) {
+      return tx.bookingSeries.update({ where: { id }, data });
+    },
+    async cancelOccurrencesFrom(seriesId: string, from: Date) {
+      const { count } = await tx.booking.updateMany({
+        where: { seriesId, recurrenceId: { gte: from }, status: "confirmed" },
+        data: { status: "cancelled" },
+      });
+      return count;
+    },
+    // the conditional update row-locks the entry until commit
+    async claimWaitlistEntry(id: string, spaceId: string) {
+      const { count } = await tx.waitlistEntry.updateMany({
+        where: { id, status: "waiting" },
+        data: { status: "promoted", spaceId },
+      });
+      return count === 1;
+    },
+    linkWaitlistEntry(id: string, bookingId: string) {
+      return tx.waitlistEntry.update({ where: { id }, data: { bookingId } });
+    },
+    createReservation(data: ReservationData) {
+      return tx.reservation.create({ data });
+    },
+    async approveReservation(
+      id: string,
+      decision: { reason: string | null; decidedById: string },
+      now: Date,
+    ) {
+      const { count } = await tx.reservation.updateMany({
+        where: { id, status: "pending", expiresAt: { gt: now } },
+        data: { status: "approved", ...decision, decidedAt: now },
+      });
+      return count === 1;
+    },
+    linkReservation(id: string, bookingId: string) {
+      return tx.reservation.update({ where: { id }, data: { bookingId } });
+    },
+  };
+}
+
+// a transaction holding a row lock on the space until commit
+async function withSpaceLock<T>(
+  spaceId: string,
+  fn: (repo: LockedBookingRepo) => Promise<T>,
+): Promise<T> {
+  return prisma.$transaction(
+    async (tx) => {
+      await tx.$queryRaw`SELECT id FROM Space WHERE id = ${spaceId} FOR UPDATE`;
+      return fn(bindRepo(tx));
+    },
+    // recurring series may write a few hundred occurrences
+    { timeout: 20_000 },
+  );
+}
+
+export const prismaBookingRepository: BookingRepository = {
+  getBookingById,
+  listBookings,
+  listOccupiedSlots,
+  getSeriesById,
+  listSeriesOccurrences,
+  cancelBooking,
+  withSpaceLock,
+};
@@ -0,0 +1,9 @@
+import { randomUUID } from "node:crypto";
+import { describeBookingRepositoryContract } from "./booking-repository.contract.js";
+import { createMemoryBookingRepository } from "./memory-booking.repo.js";
+
+describeBookingRepositoryContract("memory booking repository", () => ({
+  repository: createMemoryBookingRepository(),
+  // nothing checks that the space exists
+  createSpace: async () => randomUUID(),
+}));
@@ -0,0 +1,221 @@
+import { randomUUID } from "node:crypto";
+import type {
+  Booking,
+  BookingSeries,
+} from "../../../generated/prisma/client.js";
+import { NotFoundError } from "../../../utils/errors.js";
+import type {
+  BookingFilter,
+  BookingRepository,
+  LockedBookingRepo,
+} from "./booking-repository.js";
+
+const byStart = (a: { startAt: Date }, b: { startAt: Date }) =>
+  a.startAt.getTime() - b.startAt.getTime();
+
+// a booking is in range when it ends after `from` and starts before `to`
+function matches(booking: Booking, filter: BookingFilter): boolean {
+  if (filter.spaceId && booking.spaceId !== filter.spaceId) return false;
+  if (!filter.includeCancelled && booking.status !== "confirmed") return false;
+  if (filter.from && booking.endAt <= filter.from) return false;
+  if (filter.to && booking.startAt >= filter.to) return false;
+  return true;
+}
+
+function unsupported(): never {
+  throw new Error(
+    "reservations and the waitlist need the prisma storage driver",
+  );
+}
+
+/**
+ * Keeps bookings and recurring series in this process, for demos and
+ * tests. Reservations and the waitlist only live in MySQL, so nothing here
+ * is held by a pending request, and the locked writes that touch them
+ * throw.
+ */
+export function createMemoryBookingRepository(): BookingRepository {
+  const bookings = new Map<string, Booking>();
+  const series = new Map<string, BookingSeries>();
+  // the tail of each space's queue of locked callers
+  const locks = new Map<string, Promise<unknown>>();
+
+  // callers get copies, so only the repository changes what is stored
+  const copy = <T extends object>(row: T): T => ({ ...row });
+
+  function stamp() {
+    const now = new Date();
+    return { id: randomUUID(), createdAt: now, updatedAt: now };
+  }
+
+  // writes go to `draft` and reach the stores once the locked caller succeeds
+  function bindRepo(draft: {
+    bookings: Map<string, Booking>;
+    series: Map<string, BookingSeries>;
+  }): LockedBookingRepo {
+    const bookingOf = (id: string) =>
+      draft.bookings.get(id) ?? bookings.get(id);
+    const allBookings = () => [
+      ...draft.bookings.values(),
+      ...[...bookings.values()].filter((b) => !draft.bookings.has(b.id)),
+    ];
+
+    function changeBooking(id: string, data: Partial<Booking>): Booking {
+      const booking = bookingOf(id);
+      if (!booking) throw new NotFoundError("record not found");
+      const changed = { ...booking, ...data, updatedAt: new Date() };
+      draft.bookings.set(id, changed);
+      return copy(changed);
+    }
+
+    return {
+      async findConflicts(spaceId, startAt, endAt, excludeId) {
+        return allBookings()
+          .filter(
+            (b) =>
+              b.spaceId === spaceId &&
+              b.id !== excludeId &&
+              b.status === "confirmed" &&
+              b.startAt < endAt &&
+              b.endAt > startAt,
+          )
+          .sort(byStart)
+          .map(copy);
+      },
+
+      async createBooking(data) {
+        const booking: Booking = {
+          ...stamp(),
+          spaceId: data.spaceId,
+          title: data.title,
+          attendees: data.attendees,
+          startAt: data.startAt,
+          endAt: data.endAt,
+          status: "confirmed",
+          seriesId: data.seriesId ?? null,
+          recurrenceId: data.recurrenceId ?? null,
+          userId: data.userId ?? null,
+        };
+        draft.bookings.set(booking.id, booking);
+        return copy(booking);
+      },
+
+      async updateBooking(id, data) {
+        return changeBooking(id, data);
+      },
+
+      async createSeries(data) {
+        const created: BookingSeries = {
+          ...stamp(),
+          ...data,
+          status: "confirmed",
+          userId: data.userId ?? null,
+        };
+        draft.series.set(created.id, created);
+        return copy(created);
+      },
+
+      async updateSeries(id, data) {
+        const current = draft.series.get(id) ?? series.get(id);
+        if (!current) throw new NotFoundError("record not found");
+        const changed = { ...current, ...data, updatedAt: new Date() };
+        draft.series.set(id, changed);
+        return copy(changed);
+      },
+
+      async cancelOccurrencesFrom(seriesId, from) {
+        const cancelled = allBookings().filter(
+          (b) =>
+            b.seriesId === seriesId &&
+            b.recurrenceId &&
+            b.recurrenceId >= from &&
+            b.status === "confirmed",
+        );
+        for (const booking of cancelled)
+          changeBooking(booking.id, { status: "cancelled" });
+        return cancelled.length;
+      },
+
+      claimWaitlistEntry: unsupported,
+      linkWaitlistEntry: unsupported,
+      createReservation: unsupported,
+      approveReservation: unsupported,
+      linkReservation: unsupported,
+    };
+  }
+
+  return {
+    async getBookingById(id) {
+      const booking = bookings.get(id);
+      return booking ? copy(booking) : null;
+    },
+
+    async listBookings(filter) {
+      return [...bookings.values()]
+        .filter((b) => matches(b, filter))
+        .sort(byStart)
+        .map(copy);
+    },
+
+    async listOccupiedSlots(spaceIds, from, to) {
+      return [...bookings.values()]
+        .filter(
+          (b) =>
+            spaceIds.includes(b.spaceId) &&
+            b.status === "confirmed" &&
+            b.startAt < to &&
+            b.endAt > from,
+        )
+        .sort(byStart)
+        .map(({ id, spaceId, startAt, endAt }) => ({
+          id,
+          spaceId,
+          startAt,
+          endAt,
+        }));
+    },
+
+    async getSeriesById(id) {
+      const found = series.get(id);
+      return found ? copy(found) : null;
+    },
+
+    async listSeriesOccurrences(seriesId) {
+      return [...bookings.values()]
+        .filter((b) => b.seriesId === seriesId)
+        .sort(byStart)
+        .map(copy);
+    },
+
+    async cancelBooking(id) {
+      const booking = bookings.get(id);
+      if (!booking) throw new NotFoundError("record not found");
+      const cancelled: Booking = {
+        ...booking,
+        status: "cancelled",
+        updatedAt: new Date(),
+      };
+      bookings.set(id, cancelled);
+      return copy(cancelled);
+    },
+
+    async withSpaceLock(spaceId, fn) {
+      const run = async () => {
+        const draft = { bookings: new Map(), series: new Map() };
+        const result = await fn(bindRepo(draft));
+        for (const [id, booking] of draft.bookings) bookings.set(id, booking);
+        for (const [id, changed] of draft.series) series.set(id, changed);
+        return result;
+      };
+      const queued = (locks.get(spaceId) ?? Promise.resolve()).then(run, run);
+      // later callers wait for this one, whether it succeeds or not
+      const tail = queued.catch(() => {});
+      locks.set(spaceId, tail);
+      try {
+        return await queued;
+      } finally {
+        if (locks.get(spaceId) === tail) locks.delete(spaceId);
+      }
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import { storageConfig } from "../../config/storage.js";
+import { prismaBookingRepository } from "./repos/booking.repo.js";
+import { createMemoryBookingRepository } from "./repos/memory-booking.repo.js";
+import type { BookingRepository } from "./repos/booking-repository.js";
+
+let repository: BookingRepository =
+  storageConfig.driver === "memory"
+    ? createMemoryBookingRepository()
+    : prismaBookingRepository;
+
+/** The booking storage usecases work on, chosen by STORAGE_DRIVER. */
+export function bookingRepository(): BookingRepository {
+  return repository;
+}
+
+/** Swaps the booking storage, e.g. for a fresh in-memory one per test. */
+export function setBookingRepository(next: BookingRepository): void {
+  repository = next;
+}
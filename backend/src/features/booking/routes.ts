@@ -0,0 +1,32 @@
+import { Router } from "express";
+import { requireAuth } from "../../middlewares/auth.js";
+import {
+  cancelBooking,
+  createBooking,
+  createRecurringBooking,
+  getBookingSeries,
+  getBooking,
+  listBookings,
+  updateBooking,
+} from "./controller.js";
+
+export const bookingRouter = Router();
+
+bookingRouter.use(requireAuth);
+
+bookingRouter.post("/", createBooking);
+bookingRouter.post("/recurring", createRecurringBooking);
+bookingRouter.get("/", listBookings);
+bookingRouter.get("/series/:id", getBookingSeries);
+bookingRouter.get("/:id", getBooking);
+bookingRouter.patch("/:id", updateBooking);
+bookingRouter.delete("/:id", cancelBooking);
+
+// Mounted at /api/spaces/:id/bookings
+export const spaceBookingRouter = Router({ mergeParams: true });
+
+spaceBookingRouter.use(requireAuth);
+
+spaceBookingRouter.post("/", createBooking);
+spaceBookingRouter.post("/recurring", createRecurringBooking);
+spaceBookingRouter.get("/", listBookings);
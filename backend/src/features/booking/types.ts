@@ -0,0 +1,91 @@
+import type { RuleViolation } from "../space/types.js";
+
+export type BookingStatus = "confirmed" | "cancelled";
+
+export type BookingDTO = {
+  id: string;
+  spaceId: string;
+  title: string;
+  attendees: number;
+  startAt: string;
+  endAt: string;
+  status: BookingStatus;
+  seriesId: string | null;
+  recurrenceId: string | null;
+  userId: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type BookingSeriesDTO = {
+  id: string;
+  spaceId: string;
+  title: string;
+  attendees: number;
+  startAt: string;
+  endAt: string;
+  rrule: string;
+  timeZone: string;
+  status: BookingStatus;
+  userId: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CreateBookingInput = {
+  spaceId: string;
+  // organizer
+  userId?: string;
+  title: string;
+  attendees: number;
+  startAt: string;
+  endAt: string;
+};
+
+export type UpdateBookingInput = {
+  title?: string;
+  attendees?: number;
+  startAt?: string;
+  endAt?: string;
+};
+
+export type ListBookingsFilter = {
+  spaceId?: string;
+  from?: string;
+  to?: string;
+  includeCancelled?: boolean;
+};
+
+/** Which occurrences of a series an edit or cancellation applies to. */
+export type OccurrenceScope = "this" | "following";
+
+export type CreateRecurringBookingInput = CreateBookingInput & {
+  rrule: string;
+  timeZone?: string;
+  // book the free occurrences and report the rest instead of failing
+  skipConflicts?: boolean;
+};
+
+export type UpdateFollowingInput = UpdateBookingInput & {
+  skipConflicts?: boolean;
+};
+
+export type OccurrenceConflict = {
+  startAt: string;
+  endAt: string;
+  // bookings, or pending reservation requests holding the slot; empty when
+  // the occurrence was refused for breaking booking rules
+  conflictingBookingIds: string[];
+  violations?: RuleViolation[];
+};
+
+export type RecurringBookingResult = {
+  series: BookingSeriesDTO;
+  occurrences: BookingDTO[];
+  conflicts: OccurrenceConflict[];
+};
+
+export type BookingSeriesDetail = {
+  series: BookingSeriesDTO;
+  occurrences: BookingDTO[];
+};
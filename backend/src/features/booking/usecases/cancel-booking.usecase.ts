@@ -0,0 +1,20 @@
+import { bookingRepository } from "../repository.js";
+import type { AuthUser } from "../../auth/types.js";
+import { assertCanManage } from "../entity.js";
+import { tryPromoteWaitlist } from "../../waitlist/usecases/promote-waitlist.usecase.js";
+import { NotFoundError, ValidationError } from "../../../utils/errors.js";
+
+export async function cancelBookingUsecase(
+  id: string,
+  actor: AuthUser,
+): Promise<void> {
+  if (!id) throw ValidationError.field("id", "id is required");
+
+  const existing = await bookingRepository().getBookingById(id);
+  if (!existing) throw new NotFoundError("booking not found");
+  assertCanManage(existing, actor);
+  if (existing.status === "cancelled") return;
+
+  await bookingRepository().cancelBooking(id);
+  await tryPromoteWaitlist(existing.spaceId);
+}
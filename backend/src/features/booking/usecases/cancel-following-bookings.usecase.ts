@@ -0,0 +1,70 @@
+import { bookingRepository } from "../repository.js";
+import type { LockedBookingRepo } from "../repos/booking-repository.js";
+import type {
+  Booking,
+  BookingSeries,
+} from "../../../generated/prisma/client.js";
+import { formatRRule, parseRRule } from "../recurrence.js";
+import type { AuthUser } from "../../auth/types.js";
+import { assertCanManage } from "../entity.js";
+import { tryPromoteWaitlist } from "../../waitlist/usecases/promote-waitlist.usecase.js";
+import { NotFoundError, ValidationError } from "../../../utils/errors.js";
+
+/** Loads an occurrence together with the series it was materialized from. */
+export async function loadSeriesOccurrence(id: string, actor: AuthUser) {
+  if (!id) throw ValidationError.field("id", "id is required");
+
+  const occurrence = await bookingRepository().getBookingById(id);
+  if (!occurrence) throw new NotFoundError("booking not found");
+  assertCanManage(occurrence, actor);
+  if (!occurrence.seriesId || !occurrence.recurrenceId)
+    throw ValidationError.field(
+      "scope",
+      "cannot apply scope=following to a non-recurring booking",
+    );
+
+  const series = await bookingRepository().getSeriesById(occurrence.seriesId);
+  if (!series) throw new NotFoundError("series not found");
+
+  return {
+    occurrence: occurrence as Booking & { recurrenceId: Date },
+    series,
+  };
+}
+
+/**
+ * Ends `series` just before the occurrence originally scheduled at `from`:
+ * the rule gets an UNTIL and every later occurrence is cancelled. Ending at
+ * the first occurrence cancels the series outright.
+ */
+export async function endSeriesBefore(
+  tx: LockedBookingRepo,
+  series: BookingSeries,
+  from: Date,
+) {
+  if (from.getTime() <= series.startAt.getTime()) {
+    await tx.updateSeries(series.id, { status: "cancelled" });
+  } else {
+    const rule = parseRRule(series.rrule);
+    await tx.updateSeries(series.id, {
+      rrule: formatRRule({
+        ...rule,
+        count: undefined,
+        until: new Date(from.getTime() - 1000),
+      }),
+    });
+  }
+  await tx.cancelOccurrencesFrom(series.id, from);
+}
+
+export async function cancelFollowingBookingsUsecase(
+  id: string,
+  actor: AuthUser,
+): Promise<void> {
+  const { occurrence, series } = await loadSeriesOccurrence(id, actor);
+
+  await bookingRepository().withSpaceLock(series.spaceId, (tx) =>
+    endSeriesBefore(tx, series, occurrence.recurrenceId),
+  );
+  await tryPromoteWaitlist(series.spaceId);
+}
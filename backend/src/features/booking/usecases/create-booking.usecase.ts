@@ -0,0 +1,76 @@
+import { bookingRepository } from "../repository.js";
+import { spaceRepository } from "../../space/repository.js";
+import { overlaps } from "../../space/availability.js";
+import { bufferedWindow } from "../../space/rules.js";
+import { assertCanBookDirectly } from "../../reservation/approvals.js";
+import { CreateBookingInput, BookingDTO } from "../types.js";
+import {
+  BookingConflictError,
+  assertAttendees,
+  assertBookingRules,
+  assertWindow,
+  parseDate,
+  toDTO,
+} from "../entity.js";
+import { NotFoundError, ValidationError } from "../../../utils/errors.js";
+
+export async function createBookingUsecase(
+  input: CreateBookingInput,
+): Promise<BookingDTO> {
+  if (!input.spaceId)
+    throw ValidationError.field("spaceId", "spaceId is required");
+  if (!input.title?.trim())
+    throw ValidationError.field("title", "title is required");
+  const startAt = parseDate(input.startAt, "startAt");
+  const endAt = parseDate(input.endAt, "endAt");
+  assertWindow(startAt, endAt);
+
+  const space = await spaceRepository().getSpaceById(input.spaceId);
+  if (!space) throw new NotFoundError("space not found");
+  assertAttendees(input.attendees, space.capacity);
+  await assertCanBookDirectly(space, input.userId);
+
+  const slot = { startAt, endAt };
+  const policy = await spaceRepository().getBookingPolicy(
+    space.id,
+    startAt,
+    endAt,
+  );
+  const window = bufferedWindow(slot, policy.rules);
+
+  const booking = await bookingRepository().withSpaceLock(
+    space.id,
+    async (tx) => {
+      // widened by the buffer so the rules see bookings just before and after
+      const nearby = await tx.findConflicts(
+        space.id,
+        window.startAt,
+        window.endAt,
+      );
+      const conflicts = nearby.filter((b) => overlaps(b, slot));
+      if (conflicts.length > 0)
+        throw new BookingConflictError("booking overlaps an existing booking", [
+          {
+            startAt: startAt.toISOString(),
+            endAt: endAt.toISOString(),
+            conflictingBookingIds: conflicts.map((b) => b.id),
+          },
+        ]);
+      assertBookingRules(slot, {
+        ...policy,
+        neighbours: nearby,
+        now: new Date(),
+      });
+
+      return tx.createBooking({
+        spaceId: space.id,
+        userId: input.userId,
+        title: input.title.trim(),
+        attendees: input.attendees,
+        startAt,
+        endAt,
+      });
+    },
+  );
+  return toDTO(booking);
+}
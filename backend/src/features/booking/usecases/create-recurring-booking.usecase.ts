@@ -0,0 +1,169 @@
+import { bookingRepository } from "../repository.js";
+import type { LockedBookingRepo } from "../repos/booking-repository.js";
+import { spaceRepository } from "../../space/repository.js";
+import { assertCanBookDirectly } from "../../reservation/approvals.js";
+import { bufferedWindow, checkBookingRules } from "../../space/rules.js";
+import {
+  CreateRecurringBookingInput,
+  OccurrenceConflict,
+  RecurringBookingResult,
+} from "../types.js";
+import type { Interval } from "../../space/availability.js";
+import {
+  BookingConflictError,
+  BookingRuleError,
+  assertAttendees,
+  assertWindow,
+  parseDate,
+  partitionConflicts,
+  planOccurrences,
+  toDTO,
+  toSeriesDTO,
+} from "../entity.js";
+import { formatRRule, parseRRule } from "../recurrence.js";
+import { isValidTimeZone } from "../../../utils/time-zone.js";
+import { NotFoundError, ValidationError } from "../../../utils/errors.js";
+
+type SeriesPlan = {
+  spaceId: string;
+  title: string;
+  attendees: number;
+  startAt: Date;
+  endAt: Date;
+  rrule: string;
+  timeZone: string;
+  userId?: string;
+};
+
+/**
+ * Creates a series and its occurrences inside an existing space lock.
+ * Occurrences that overlap bookings or break the space's rules either abort
+ * the whole series or, with `skipConflicts`, are left out and reported.
+ */
+export async function bookSeries(
+  tx: LockedBookingRepo,
+  plan: SeriesPlan,
+  skipConflicts: boolean,
+): Promise<RecurringBookingResult> {
+  const occurrences = planOccurrences(
+    parseRRule(plan.rrule),
+    plan.startAt,
+    plan.endAt,
+    plan.timeZone,
+  );
+  if (occurrences.length === 0)
+    throw ValidationError.field(
+      "rrule",
+      "rrule must produce at least one occurrence",
+    );
+
+  const first = occurrences[0];
+  const last = occurrences[occurrences.length - 1];
+  const policy = await spaceRepository().getBookingPolicy(
+    plan.spaceId,
+    first.startAt,
+    last.endAt,
+  );
+  const existing = await tx.findConflicts(
+    plan.spaceId,
+    bufferedWindow(first, policy.rules).startAt,
+    bufferedWindow(last, policy.rules).endAt,
+  );
+  const { free, conflicts } = partitionConflicts(occurrences, existing);
+
+  const now = new Date();
+  const allowed: Interval[] = [];
+  const refused: OccurrenceConflict[] = [];
+  for (const occurrence of free) {
+    const violations = checkBookingRules(occurrence, {
+      ...policy,
+      neighbours: existing,
+      now,
+    });
+    if (violations.length === 0) allowed.push(occurrence);
+    else
+      refused.push({
+        startAt: occurrence.startAt.toISOString(),
+        endAt: occurrence.endAt.toISOString(),
+        conflictingBookingIds: [],
+        violations,
+      });
+  }
+
+  if (!skipConflicts || allowed.length === 0) {
+    if (conflicts.length > 0)
+      throw new BookingConflictError(
+        `${conflicts.length} occurrence(s) overlap existing bookings`,
+        [...conflicts, ...refused],
+      );
+    if (refused.length > 0)
+      throw new BookingRuleError(
+        refused.flatMap((r) =>
+          r.violations!.map((v) => ({ ...v, startAt: r.startAt })),
+        ),
+      );
+  }
+
+  const series = await tx.createSeries(plan);
+  const created = [];
+  for (const occurrence of allowed) {
+    created.push(
+      await tx.createBooking({
+        spaceId: plan.spaceId,
+        userId: plan.userId,
+        title: plan.title,
+        attendees: plan.attendees,
+        startAt: occurrence.startAt,
+        endAt: occurrence.endAt,
+        seriesId: series.id,
+        recurrenceId: occurrence.startAt,
+      }),
+    );
+  }
+  return {
+    series: toSeriesDTO(series),
+    occurrences: created.map(toDTO),
+    conflicts: [...conflicts, ...refused],
+  };
+}
+
+export async function createRecurringBookingUsecase(
+  input: CreateRecurringBookingInput,
+): Promise<RecurringBookingResult> {
+  if (!input.spaceId)
+    throw ValidationError.field("spaceId", "spaceId is required");
+  if (!input.title?.trim())
+    throw ValidationError.field("title", "title is required");
+  const startAt = parseDate(input.startAt, "startAt");
+  const endAt = parseDate(input.endAt, "endAt");
+  assertWindow(startAt, endAt);
+  const rrule = formatRRule(parseRRule(input.rrule));
+  const timeZone = input.timeZone || "UTC";
+  if (!isValidTimeZone(timeZone))
+    throw ValidationError.field(
+      "timeZone",
+      "timeZone must be a valid IANA time zone",
+    );
+
+  const space = await spaceRepository().getSpaceById(input.spaceId);
+  if (!space) throw new NotFoundError("space not found");
+  assertAttendees(input.attendees, space.capacity);
+  await assertCanBookDirectly(space, input.userId);
+
+  return bookingRepository().withSpaceLock(space.id, (tx) =>
+    bookSeries(
+      tx,
+      {
+        spaceId: space.id,
+        userId: input.userId,
+        title: input.title.trim(),
+        attendees: input.attendees,
+        startAt,
+        endAt,
+        rrule,
+        timeZone,
+      },
+      input.skipConflicts === true,
+    ),
+  );
+}
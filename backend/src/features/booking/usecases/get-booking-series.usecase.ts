@@ -0,0 +1,16 @@
+import { bookingRepository } from "../repository.js";
+import { BookingSeriesDetail } from "../types.js";
+import { toDTO, toSeriesDTO } from "../entity.js";
+import { NotFoundError, ValidationError } from "../../../utils/errors.js";
+
+export async function getBookingSeriesUsecase(
+  id: string,
+): Promise<BookingSeriesDetail> {
+  if (!id) throw ValidationError.field("id", "id is required");
+
+  const series = await bookingRepository().getSeriesById(id);
+  if (!series) throw new NotFoundError("series not found");
+
+  const occurrences = await bookingRepository().listSeriesOccurrences(id);
+  return { series: toSeriesDTO(series), occurrences: occurrences.map(toDTO) };
+}
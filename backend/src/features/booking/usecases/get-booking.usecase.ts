@@ -0,0 +1,13 @@
+import { bookingRepository } from "../repository.js";
+import { BookingDTO } from "../types.js";
+import { toDTO } from "../entity.js";
+import { NotFoundError, ValidationError } from "../../../utils/errors.js";
+
+export async function getBookingUsecase(id: string): Promise<BookingDTO> {
+  if (!id) throw ValidationError.field("id", "id is required");
+
+  const booking = await bookingRepository().getBookingById(id);
+  if (!booking) throw new NotFoundError("booking not found");
+
+  return toDTO(booking);
+}
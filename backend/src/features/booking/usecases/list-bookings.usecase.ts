@@ -0,0 +1,15 @@
+import { bookingRepository } from "../repository.js";
+import { BookingDTO, ListBookingsFilter } from "../types.js";
+import { parseDate, toDTO } from "../entity.js";
+
+export async function listBookingsUsecase(
+  filter: ListBookingsFilter = {},
+): Promise<BookingDTO[]> {
+  const bookings = await bookingRepository().listBookings({
+    spaceId: filter.spaceId,
+    from: filter.from ? parseDate(filter.from, "from") : undefined,
+    to: filter.to ? parseDate(filter.to, "to") : undefined,
+    includeCancelled: filter.includeCancelled,
+  });
+  return bookings.map(toDTO);
+}
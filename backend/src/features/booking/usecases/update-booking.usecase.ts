@@ -0,0 +1,113 @@
+import { bookingRepository } from "../repository.js";
+import { spaceRepository } from "../../space/repository.js";
+import { overlaps } from "../../space/availability.js";
+import { bufferedWindow } from "../../space/rules.js";
+import { BookingDTO, UpdateBookingInput } from "../types.js";
+import type { AuthUser } from "../../auth/types.js";
+import { tryPromoteWaitlist } from "../../waitlist/usecases/promote-waitlist.usecase.js";
+import { assertCanBookDirectly } from "../../reservation/approvals.js";
+import {
+  BookingConflictError,
+  assertAttendees,
+  assertBookingRules,
+  assertCanManage,
+  assertWindow,
+  parseDate,
+  toDTO,
+} from "../entity.js";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../../../utils/errors.js";
+
+export async function updateBookingUsecase(
+  id: string,
+  input: UpdateBookingInput,
+  actor: AuthUser,
+): Promise<BookingDTO> {
+  if (!id) throw ValidationError.field("id", "id is required");
+
+  const existing = await bookingRepository().getBookingById(id);
+  if (!existing) throw new NotFoundError("booking not found");
+  assertCanManage(existing, actor);
+  if (existing.status === "cancelled")
+    throw new ConflictError("cannot reschedule a cancelled booking");
+
+  const data: {
+    title?: string;
+    attendees?: number;
+    startAt?: Date;
+    endAt?: Date;
+  } = {};
+  if (typeof input.title === "string") {
+    if (!input.title.trim())
+      throw ValidationError.field("title", "title cannot be empty");
+    data.title = input.title.trim();
+  }
+  if (typeof input.attendees !== "undefined") {
+    const space = await spaceRepository().getSpaceById(existing.spaceId);
+    if (!space) throw new NotFoundError("space not found");
+    assertAttendees(input.attendees, space.capacity);
+    data.attendees = input.attendees;
+  }
+  if (typeof input.startAt !== "undefined")
+    data.startAt = parseDate(input.startAt, "startAt");
+  if (typeof input.endAt !== "undefined")
+    data.endAt = parseDate(input.endAt, "endAt");
+  if (Object.keys(data).length === 0)
+    throw new ValidationError("no fields to update");
+
+  const startAt = data.startAt ?? existing.startAt;
+  const endAt = data.endAt ?? existing.endAt;
+  assertWindow(startAt, endAt);
+
+  // only a new time is checked against the rules; renaming an old booking
+  // must keep working after the rules tighten
+  const slot = { startAt, endAt };
+  const rescheduled = Boolean(data.startAt || data.endAt);
+  const policy = rescheduled
+    ? await spaceRepository().getBookingPolicy(existing.spaceId, startAt, endAt)
+    : undefined;
+  if (rescheduled) {
+    const space = await spaceRepository().getSpaceById(existing.spaceId);
+    if (!space) throw new NotFoundError("space not found");
+    await assertCanBookDirectly(space, actor.id);
+  }
+
+  const updated = await bookingRepository().withSpaceLock(
+    existing.spaceId,
+    async (tx) => {
+      if (policy) {
+        const window = bufferedWindow(slot, policy.rules);
+        const nearby = await tx.findConflicts(
+          existing.spaceId,
+          window.startAt,
+          window.endAt,
+          existing.id,
+        );
+        const conflicts = nearby.filter((b) => overlaps(b, slot));
+        if (conflicts.length > 0)
+          throw new BookingConflictError(
+            "booking overlaps an existing booking",
+            [
+              {
+                startAt: startAt.toISOString(),
+                endAt: endAt.toISOString(),
+                conflictingBookingIds: conflicts.map((b) => b.id),
+              },
+            ],
+          );
+        assertBookingRules(slot, {
+          ...policy,
+          neighbours: nearby,
+          now: new Date(),
+        });
+      }
+      return tx.updateBooking(existing.id, data);
+    },
+  );
+  // moving or shortening a booking can free part of its old slot
+  if (rescheduled) await tryPromoteWaitlist(existing.spaceId);
+  return toDTO(updated);
+}
@@ -0,0 +1,108 @@
+import { bookingRepository } from "../repository.js";
+import { spaceRepository } from "../../space/repository.js";
+import { assertCanBookDirectly } from "../../reservation/approvals.js";
+import { RecurringBookingResult, UpdateFollowingInput } from "../types.js";
+import {
+  assertAttendees,
+  assertWindow,
+  parseDate,
+  planOccurrences,
+} from "../entity.js";
+import { formatRRule, parseRRule } from "../recurrence.js";
+import type { AuthUser } from "../../auth/types.js";
+import { bookSeries } from "./create-recurring-booking.usecase.js";
+import {
+  endSeriesBefore,
+  loadSeriesOccurrence,
+} from "./cancel-following-bookings.usecase.js";
+import { tryPromoteWaitlist } from "../../waitlist/usecases/promote-waitlist.usecase.js";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../../../utils/errors.js";
+
+/**
+ * "This and following": splits the series at the occurrence and re-books the
+ * remainder as a new series carrying the changes.
+ */
+export async function updateFollowingBookingsUsecase(
+  id: string,
+  input: UpdateFollowingInput,
+  actor: AuthUser,
+): Promise<RecurringBookingResult> {
+  const { occurrence, series } = await loadSeriesOccurrence(id, actor);
+  if (occurrence.status === "cancelled")
+    throw new ConflictError("cannot reschedule a cancelled booking");
+
+  let title = series.title;
+  if (typeof input.title === "string") {
+    if (!input.title.trim())
+      throw ValidationError.field("title", "title cannot be empty");
+    title = input.title.trim();
+  }
+  let attendees = series.attendees;
+  if (typeof input.attendees !== "undefined") {
+    const space = await spaceRepository().getSpaceById(series.spaceId);
+    if (!space) throw new NotFoundError("space not found");
+    assertAttendees(input.attendees, space.capacity);
+    attendees = input.attendees;
+  }
+
+  // by default the new series keeps the original time and length
+  const from = occurrence.recurrenceId;
+  const duration = series.endAt.getTime() - series.startAt.getTime();
+  const startAt =
+    typeof input.startAt !== "undefined"
+      ? parseDate(input.startAt, "startAt")
+      : from;
+  const endAt =
+    typeof input.endAt !== "undefined"
+      ? parseDate(input.endAt, "endAt")
+      : new Date(startAt.getTime() + duration);
+  assertWindow(startAt, endAt);
+  if (
+    typeof input.startAt !== "undefined" ||
+    typeof input.endAt !== "undefined"
+  ) {
+    const space = await spaceRepository().getSpaceById(series.spaceId);
+    if (!space) throw new NotFoundError("space not found");
+    await assertCanBookDirectly(space, actor.id);
+  }
+
+  // COUNT carries over minus the occurrences kept by the original series
+  const rule = parseRRule(series.rrule);
+  if (rule.count) {
+    const kept = planOccurrences(
+      rule,
+      series.startAt,
+      series.endAt,
+      series.timeZone,
+    ).filter((o) => o.startAt < from).length;
+    rule.count = Math.max(rule.count - kept, 1);
+  }
+
+  const result = await bookingRepository().withSpaceLock(
+    series.spaceId,
+    async (tx) => {
+      await endSeriesBefore(tx, series, from);
+      return bookSeries(
+        tx,
+        {
+          spaceId: series.spaceId,
+          userId: series.userId ?? undefined,
+          title,
+          attendees,
+          startAt,
+          endAt,
+          rrule: formatRRule(rule),
+          timeZone: series.timeZone,
+        },
+        input.skipConflicts === true,
+      );
+    },
+  );
+  // the new series may leave out times the old one held
+  await tryPromoteWaitlist(series.spaceId);
+  return result;
+}
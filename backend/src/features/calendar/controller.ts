@@ -0,0 +1,74 @@
+import { NextFunction, Request, Response } from "express";
+import { exportSpaceCalendarUsecase } from "./usecases/export-space-calendar.usecase.js";
+import { exportAllCalendarsUsecase } from "./usecases/export-all-calendars.usecase.js";
+import { importSpaceCalendarUsecase } from "./usecases/import-space-calendar.usecase.js";
+import { ValidationError } from "../../utils/errors.js";
+
+function sendCalendar(res: Response, filename: string, body: string) {
+  res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+  res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+  return res.status(200).send(body);
+}
+
+function timeZoneQuery(req: Request): string | undefined {
+  return typeof req.query.tz === "string" ? req.query.tz : undefined;
+}
+
+export async function exportSpaceCalendar(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const id = req.params.id;
+
+    if (typeof id !== "string") {
+      throw ValidationError.field("id", "invalid id");
+    }
+
+    const ics = await exportSpaceCalendarUsecase(id, timeZoneQuery(req));
+    return sendCalendar(res, `space-${id}.ics`, ics);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function exportAllCalendars(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const ics = await exportAllCalendarsUsecase(timeZoneQuery(req));
+    return sendCalendar(res, "spaces.ics", ics);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function importSpaceCalendar(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const id = req.params.id;
+
+    if (typeof id !== "string") {
+      throw ValidationError.field("id", "invalid id");
+    }
+
+    // body arrives as text via the text/calendar parser in app.ts
+    const result = await importSpaceCalendarUsecase(id, req.body, {
+      userId: req.user!.id,
+      timeZone: timeZoneQuery(req),
+      defaultAttendees:
+        typeof req.query.attendees === "string"
+          ? Number(req.query.attendees)
+          : undefined,
+    });
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
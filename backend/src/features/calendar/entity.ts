@@ -0,0 +1,26 @@
+import type { Booking } from "../../generated/prisma/client.js";
+import { CalendarEvent } from "./ical.js";
+
+export const UID_DOMAIN = "doublespot";
+
+// Feeds include bookings that ended up to this long ago
+export const FEED_LOOKBACK_MS = 90 * 24 * 60 * 60 * 1000;
+
+export function toCalendarEvent(
+  booking: Booking,
+  location: string,
+): CalendarEvent {
+  return {
+    uid: `${booking.id}@${UID_DOMAIN}`,
+    summary: booking.title,
+    startAt: booking.startAt,
+    endAt: booking.endAt,
+    status: booking.status === "cancelled" ? "CANCELLED" : "CONFIRMED",
+    location,
+    // every update bumps SEQUENCE so subscribed clients replace the event
+    sequence: Math.floor(
+      (booking.updatedAt.getTime() - booking.createdAt.getTime()) / 1000,
+    ),
+    lastModified: booking.updatedAt,
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { formatCalendar, parseCalendar } from "./ical.js";
+
+describe("ical", () => {
+  it("renders escaped, folded VEVENTs with CRLF line endings", () => {
+    const ics = formatCalendar("Room A", [
+      {
+        uid: "b1@doublespot",
+        summary: "Planning; Q1, budget",
+        startAt: new Date("2026-01-20T09:00:00Z"),
+        endAt: new Date("2026-01-20T10:00:00Z"),
+        status: "CANCELLED",
+        location: "會議室".repeat(20),
+      },
+    ]);
+
+    expect(ics).toContain("UID:b1@doublespot\r\n");
+    expect(ics).toContain("DTSTART:20260120T090000Z\r\n");
+    expect(ics).toContain("SUMMARY:Planning\\; Q1\\, budget\r\n");
+    expect(ics).toContain("STATUS:CANCELLED\r\n");
+    for (const line of ics.split("\r\n"))
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+  });
+
+  it("parses events with TZID, DURATION and folded lines", () => {
+    const events = parseCalendar(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "UID:abc",
+        "SUMMARY:Weekly",
+        "  sync",
+        "DTSTART;TZID=Europe/Berlin:20260120T090000",
+        "DURATION:PT1H30M",
+        "RRULE:FREQ=WEEKLY;COUNT=3",
+        'ATTENDEE;CN="Doe, Jane":mailto:jane@example.com',
+        "ATTENDEE:mailto:joe@example.com",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n"),
+    );
+
+    expect(events).toEqual([
+      {
+        uid: "abc",
+        summary: "Weekly sync",
+        startAt: new Date("2026-01-20T08:00:00Z"),
+        endAt: new Date("2026-01-20T09:30:00Z"),
+        timeZone: "Europe/Berlin",
+        rrule: "FREQ=WEEKLY;COUNT=3",
+        attendees: 2,
+      },
+    ]);
+  });
+
+  it("round-trips what it renders", () => {
+    const startAt = new Date("2026-03-01T12:00:00Z");
+    const endAt = new Date("2026-03-01T13:00:00Z");
+    const [event] = parseCalendar(
+      formatCalendar("Room A", [
+        {
+          uid: "x",
+          summary: "Line\nbreak",
+          startAt,
+          endAt,
+          status: "CONFIRMED",
+        },
+      ]),
+    );
+    expect(event).toMatchObject({
+      uid: "x",
+      summary: "Line\nbreak",
+      startAt,
+      endAt,
+      status: "CONFIRMED",
+    });
+  });
+});
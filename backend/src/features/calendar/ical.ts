@@ -0,0 +1,230 @@
+import { fromWallClock } from "../../utils/time-zone.js";
+
+/**
+ * Just enough RFC 5545 to publish bookings as VEVENTs and read VEVENTs
+ * exported by common calendar clients.
+ */
+
+export type CalendarEvent = {
+  uid: string;
+  summary: string;
+  startAt: Date;
+  endAt: Date;
+  status: "CONFIRMED" | "CANCELLED";
+  location?: string;
+  rrule?: string;
+  sequence?: number;
+  lastModified?: Date;
+};
+
+export type ParsedEvent = {
+  uid?: string;
+  summary?: string;
+  startAt?: Date;
+  endAt?: Date;
+  status?: string;
+  rrule?: string;
+  timeZone?: string;
+  attendees: number;
+};
+
+const PRODID = "-//Doublespot//Space Bookings//EN";
+const encoder = new TextEncoder();
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) =>
+    c === "n" || c === "N" ? "\n" : c,
+  );
+}
+
+/** Folds a content line at 75 octets without splitting UTF-8 characters. */
+function fold(line: string): string {
+  const out: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (bytes + size > 75) {
+      out.push(current);
+      current = " ";
+      bytes = 1;
+    }
+    current += char;
+    bytes += size;
+  }
+  out.push(current);
+  return out.join("\r\n");
+}
+
+export function formatDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/**
+ * Renders a VCALENDAR. Times are written in UTC; `timeZone` is advertised
+ * through X-WR-TIMEZONE so clients display the feed in the space's zone.
+ */
+export function formatCalendar(
+  name: string,
+  events: CalendarEvent[],
+  timeZone = "UTC",
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+  ];
+  const now = formatDateTime(new Date());
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${event.lastModified ? formatDateTime(event.lastModified) : now}`,
+      `DTSTART:${formatDateTime(event.startAt)}`,
+      `DTEND:${formatDateTime(event.endAt)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `STATUS:${event.status}`,
+      `SEQUENCE:${event.sequence ?? 0}`,
+    );
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+    if (event.lastModified)
+      lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`);
+    lines.push("END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+type ContentLine = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+function parseLine(line: string): ContentLine | null {
+  // the value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let split = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      split = i;
+      break;
+    }
+  }
+  if (split < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, split).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, val = ""] = param.split("=");
+    params[key.toUpperCase()] = val.replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(split + 1) };
+}
+
+function parseDateValue(
+  line: ContentLine,
+  defaultTimeZone: string,
+): Date | undefined {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+    line.value.trim(),
+  );
+  if (!m) return undefined;
+  const [, y, mo, d, h = "0", mi = "0", s = "0", utc] = m;
+  if (utc) return new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s));
+  return fromWallClock(
+    { year: +y, month: +mo, day: +d, hour: +h, minute: +mi, second: +s },
+    line.params.TZID ?? defaultTimeZone,
+  );
+}
+
+function parseDuration(value: string): number | undefined {
+  const m =
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+      value.trim(),
+    );
+  if (!m) return undefined;
+  const [, sign, w = "0", d = "0", h = "0", mi = "0", s = "0"] = m;
+  const seconds = ((+w * 7 + +d) * 24 + +h) * 3600 + +mi * 60 + +s;
+  return (sign === "-" ? -1 : 1) * seconds * 1000;
+}
+
+/**
+ * Extracts VEVENTs from an iCalendar document. Floating times and TZIDs
+ * are resolved against IANA zones; `defaultTimeZone` covers floating ones.
+ */
+export function parseCalendar(
+  text: string,
+  defaultTimeZone = "UTC",
+): ParsedEvent[] {
+  const unfolded = text.replace(/\r?\n[ \t]/g, "");
+  const events: ParsedEvent[] = [];
+  let current: ParsedEvent | null = null;
+  let duration: number | undefined;
+
+  for (const raw of unfolded.split(/\r?\n/)) {
+    const line = parseLine(raw);
+    if (!line) continue;
+
+    if (line.name === "BEGIN" && line.value.toUpperCase() === "VEVENT") {
+      current = { attendees: 0 };
+      duration = undefined;
+      continue;
+    }
+    if (!current) continue;
+
+    switch (line.name) {
+      case "END":
+        if (line.value.toUpperCase() === "VEVENT") {
+          if (!current.endAt && current.startAt && duration !== undefined)
+            current.endAt = new Date(current.startAt.getTime() + duration);
+          events.push(current);
+          current = null;
+        }
+        break;
+      case "UID":
+        current.uid = line.value;
+        break;
+      case "SUMMARY":
+        current.summary = unescapeText(line.value);
+        break;
+      case "DTSTART":
+        current.startAt = parseDateValue(line, defaultTimeZone);
+        current.timeZone = line.params.TZID;
+        break;
+      case "DTEND":
+        current.endAt = parseDateValue(line, defaultTimeZone);
+        break;
+      case "DURATION":
+        duration = parseDuration(line.value);
+        break;
+      case "STATUS":
+        current.status = line.value.toUpperCase();
+        break;
+      case "RRULE":
+        current.rrule = line.value;
+        break;
+      case "ATTENDEE":
+        current.attendees++;
+        break;
+    }
+  }
+  return events;
+}
@@ -0,0 +1,31 @@
+import type { OccurrenceConflict } from "../booking/types.js";
+
+export type ImportEventStatus =
+  | "created"
+  | "partial"
+  | "conflict"
+  | "skipped"
+  | "invalid";
+
+export type ImportedEventResult = {
+  uid: string | null;
+  summary: string | null;
+  status: ImportEventStatus;
+  bookingIds: string[];
+  conflicts: OccurrenceConflict[];
+  error?: string;
+};
+
+export type CalendarImportResult = {
+  created: number;
+  events: ImportedEventResult[];
+};
+
+export type CalendarImportOptions = {
+  // organizer of the created bookings
+  userId?: string;
+  // zone for floating DTSTART/DTEND values without TZID
+  timeZone?: string;
+  // attendee count used when an event lists no ATTENDEE lines
+  defaultAttendees?: number;
+};
@@ -0,0 +1,26 @@
+import { bookingRepository } from "../../booking/repository.js";
+import { spaceRepository } from "../../space/repository.js";
+import { formatCalendar } from "../ical.js";
+import { FEED_LOOKBACK_MS, toCalendarEvent } from "../entity.js";
+import { isValidTimeZone } from "../../../utils/time-zone.js";
+import { ValidationError } from "../../../utils/errors.js";
+
+export async function exportAllCalendarsUsecase(
+  timeZone = "UTC",
+): Promise<string> {
+  if (!isValidTimeZone(timeZone))
+    throw ValidationError.field("tz", "tz must be a valid IANA time zone");
+
+  const spaces = await spaceRepository().listSpaces();
+  const names = new Map(spaces.map((s) => [s.id, s.name]));
+
+  const bookings = await bookingRepository().listBookings({
+    from: new Date(Date.now() - FEED_LOOKBACK_MS),
+    includeCancelled: true,
+  });
+  return formatCalendar(
+    "All spaces",
+    bookings.map((b) => toCalendarEvent(b, names.get(b.spaceId) ?? "")),
+    timeZone,
+  );
+}
@@ -0,0 +1,28 @@
+import { bookingRepository } from "../../booking/repository.js";
+import { getSpaceUsecase } from "../../space/usecases/get-space.usecase.js";
+import { formatCalendar } from "../ical.js";
+import { FEED_LOOKBACK_MS, toCalendarEvent } from "../entity.js";
+import { isValidTimeZone } from "../../../utils/time-zone.js";
+import { ValidationError } from "../../../utils/errors.js";
+
+export async function exportSpaceCalendarUsecase(
+  spaceId: string,
+  timeZone = "UTC",
+): Promise<string> {
+  if (!isValidTimeZone(timeZone))
+    throw ValidationError.field("tz", "tz must be a valid IANA time zone");
+
+  // throws "space not found" for unknown ids
+  const space = await getSpaceUsecase(spaceId);
+
+  const bookings = await bookingRepository().listBookings({
+    spaceId: space.id,
+    from: new Date(Date.now() - FEED_LOOKBACK_MS),
+    includeCancelled: true,
+  });
+  return formatCalendar(
+    space.name,
+    bookings.map((b) => toCalendarEvent(b, space.name)),
+    timeZone,
+  );
+}
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../../space/usecases/get-space.usecase.js", () => ({
+  getSpaceUsecase: async (id: string) => ({ id }),
+}));
+vi.mock("../../booking/usecases/create-booking.usecase.js", () => ({
+  createBookingUsecase: vi.fn(),
+}));
+
+const { createBookingUsecase } =
+  await import("../../booking/usecases/create-booking.usecase.js");
+const { importSpaceCalendarUsecase } =
+  await import("./import-space-calendar.usecase.js");
+const { BookingRuleError } = await import("../../booking/entity.js");
+const { ForbiddenError, ValidationError } =
+  await import("../../../utils/errors.js");
+
+const ics = [
+  "BEGIN:VCALENDAR",
+  "BEGIN:VEVENT",
+  "UID:a",
+  "DTSTART:20260120T090000Z",
+  "DTEND:20260120T100000Z",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+beforeEach(() => {
+  vi.mocked(createBookingUsecase).mockReset();
+});
+
+describe("importSpaceCalendarUsecase", () => {
+  it("reports events the booking usecases refuse as invalid", async () => {
+    vi.mocked(createBookingUsecase)
+      .mockRejectedValueOnce(
+        ValidationError.field("attendees", "attendees exceed capacity"),
+      )
+      .mockRejectedValueOnce(
+        new BookingRuleError([
+          { rule: "leadTime", message: "too late to book" },
+        ]),
+      );
+
+    for (const error of ["attendees exceed capacity", "too late to book"]) {
+      const result = await importSpaceCalendarUsecase("space-1", ics);
+      expect(result.events[0]).toMatchObject({ status: "invalid" });
+      expect(result.events[0].error).toContain(error);
+    }
+  });
+
+  it("aborts on any other error, whatever its message says", async () => {
+    vi.mocked(createBookingUsecase)
+      .mockRejectedValueOnce(new Error("connection must be reopened"))
+      .mockRejectedValueOnce(new ForbiddenError("cannot book this space"));
+
+    await expect(importSpaceCalendarUsecase("space-1", ics)).rejects.toThrow(
+      "connection must be reopened",
+    );
+    await expect(importSpaceCalendarUsecase("space-1", ics)).rejects.toThrow(
+      ForbiddenError,
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import { getSpaceUsecase } from "../../space/usecases/get-space.usecase.js";
+import { createBookingUsecase } from "../../booking/usecases/create-booking.usecase.js";
+import { createRecurringBookingUsecase } from "../../booking/usecases/create-recurring-booking.usecase.js";
+import {
+  BookingConflictError,
+  BookingRuleError,
+} from "../../booking/entity.js";
+import {
+  CalendarImportOptions,
+  CalendarImportResult,
+  ImportedEventResult,
+} from "../types.js";
+import { ParsedEvent, parseCalendar } from "../ical.js";
+import { isValidTimeZone } from "../../../utils/time-zone.js";
+import { ValidationError } from "../../../utils/errors.js";
+
+async function importEvent(
+  spaceId: string,
+  event: ParsedEvent,
+  options: CalendarImportOptions & {
+    timeZone: string;
+    defaultAttendees: number;
+  },
+): Promise<ImportedEventResult> {
+  const result: ImportedEventResult = {
+    uid: event.uid ?? null,
+    summary: event.summary ?? null,
+    status: "created",
+    bookingIds: [],
+    conflicts: [],
+  };
+  if (event.status === "CANCELLED") return { ...result, status: "skipped" };
+  if (!event.startAt || !event.endAt)
+    return {
+      ...result,
+      status: "invalid",
+      error: "event needs DTSTART and DTEND or DURATION",
+    };
+
+  const input = {
+    spaceId,
+    userId: options.userId,
+    title: event.summary?.trim() || "Imported event",
+    attendees: event.attendees || options.defaultAttendees,
+    startAt: event.startAt.toISOString(),
+    endAt: event.endAt.toISOString(),
+  };
+  try {
+    if (event.rrule) {
+      const series = await createRecurringBookingUsecase({
+        ...input,
+        rrule: event.rrule,
+        timeZone: event.timeZone ?? options.timeZone,
+        skipConflicts: true,
+      });
+      return {
+        ...result,
+        status: series.conflicts.length > 0 ? "partial" : "created",
+        bookingIds: series.occurrences.map((b) => b.id),
+        conflicts: series.conflicts,
+      };
+    }
+    const booking = await createBookingUsecase(input);
+    return { ...result, bookingIds: [booking.id] };
+  } catch (err) {
+    if (err instanceof BookingConflictError)
+      return { ...result, status: "conflict", conflicts: err.conflicts };
+    if (err instanceof BookingRuleError || err instanceof ValidationError)
+      return { ...result, status: "invalid", error: err.message };
+    // anything else (e.g. no right to book the space, database errors)
+    // aborts the import
+    throw err;
+  }
+}
+
+/**
+ * Creates bookings for every VEVENT in `ics`. Each event is booked on its
+ * own, so one conflicting event does not prevent the others.
+ */
+export async function importSpaceCalendarUsecase(
+  spaceId: string,
+  ics: string,
+  options: CalendarImportOptions = {},
+): Promise<CalendarImportResult> {
+  if (typeof ics !== "string" || !ics.includes("BEGIN:VCALENDAR"))
+    throw ValidationError.field(
+      "body",
+      "body must be an iCalendar (.ics) document",
+    );
+  const timeZone = options.timeZone || "UTC";
+  if (!isValidTimeZone(timeZone))
+    throw ValidationError.field("tz", "tz must be a valid IANA time zone");
+  const defaultAttendees = options.defaultAttendees ?? 1;
+
+  // throws "space not found" for unknown ids
+  const space = await getSpaceUsecase(spaceId);
+
+  const events: ImportedEventResult[] = [];
+  for (const event of parseCalendar(ics, timeZone)) {
+    events.push(
+      await importEvent(space.id, event, {
+        userId: options.userId,
+        timeZone,
+        defaultAttendees,
+      }),
+    );
+  }
+  return {
+    created: events.reduce((n, e) => n + e.bookingIds.length, 0),
+    events,
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { createEventBus } from "./bus.js";
+import type { SpaceStreamEvent } from "./types.js";
+
+const deleted = (spaceId: string): SpaceStreamEvent => ({
+  type: "space.deleted",
+  spaceId,
+  space: null,
+  at: "2026-05-01T09:00:00.000Z",
+});
+
+describe("event bus", () => {
+  it("delivers published events to subscribers until they unsubscribe", () => {
+    const bus = createEventBus(10, "e");
+    const seen: string[] = [];
+    const unsubscribe = bus.subscribe((e) => seen.push(e.id));
+    bus.publish(deleted("s1"));
+    unsubscribe();
+    bus.publish(deleted("s2"));
+    expect(seen).toEqual(["e-1"]);
+  });
+
+  it("replays the events after lastEventId", () => {
+    const bus = createEventBus(10, "e");
+    for (const id of ["s1", "s2", "s3"]) bus.publish(deleted(id));
+    expect(bus.eventsSince("e-1")?.map((e) => e.event.spaceId)).toEqual([
+      "s2",
+      "s3",
+    ]);
+    expect(bus.eventsSince("e-3")).toEqual([]);
+  });
+
+  it("cannot replay events that fell out of the buffer", () => {
+    const bus = createEventBus(2, "e");
+    for (const id of ["s1", "s2", "s3"]) bus.publish(deleted(id));
+    // e-2 and e-3 are still buffered
+    expect(bus.eventsSince("e-1")).toHaveLength(2);
+    expect(bus.eventsSince("e-0")).toBeNull();
+  });
+
+  it("rejects ids from another process or from the future", () => {
+    const bus = createEventBus(10, "e");
+    bus.publish(deleted("s1"));
+    expect(bus.eventsSince("old-1")).toBeNull();
+    expect(bus.eventsSince("e-2")).toBeNull();
+    expect(bus.eventsSince("garbage")).toBeNull();
+  });
+});
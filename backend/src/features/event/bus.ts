@@ -0,0 +1,67 @@
+import { EventEmitter } from "node:events";
+import { eventsConfig } from "../../config/events.js";
+import type { DomainEventType } from "../outbox/types.js";
+import type { SpaceDTO } from "../space/types.js";
+import type { SpaceStreamEvent, StreamedEvent } from "./types.js";
+
+export type EventBus = {
+  publish(event: SpaceStreamEvent): StreamedEvent;
+  subscribe(listener: (event: StreamedEvent) => void): () => void;
+  eventsSince(lastEventId: string): StreamedEvent[] | null;
+};
+
+/**
+ * In-process pub/sub for space changes, keeping the last `bufferSize`
+ * events so reconnecting clients can catch up. Ids are `<epoch>-<seq>`;
+ * the epoch changes with every process, so ids from before a restart are
+ * recognised as unrecoverable rather than silently replayed from zero.
+ * Only listeners in this process hear an event.
+ */
+export function createEventBus(
+  bufferSize: number,
+  epoch = Date.now().toString(36),
+): EventBus {
+  const emitter = new EventEmitter();
+  // one listener per open stream
+  emitter.setMaxListeners(0);
+  const recent: { seq: number; streamed: StreamedEvent }[] = [];
+  let seq = 0;
+
+  return {
+    publish(event) {
+      seq++;
+      const streamed = { id: `${epoch}-${seq}`, event };
+      recent.push({ seq, streamed });
+      if (recent.length > bufferSize) recent.shift();
+      emitter.emit("event", streamed);
+      return streamed;
+    },
+
+    subscribe(listener) {
+      emitter.on("event", listener);
+      return () => emitter.off("event", listener);
+    },
+
+    // null when some events after lastEventId are gone; refetch instead
+    eventsSince(lastEventId) {
+      const [idEpoch, idSeq] = lastEventId.split("-");
+      const after = Number(idSeq);
+      if (idEpoch !== epoch || !Number.isInteger(after) || after > seq)
+        return null;
+      const oldest = recent[0]?.seq ?? seq + 1;
+      if (after < oldest - 1) return null;
+      return recent.filter((e) => e.seq > after).map((e) => e.streamed);
+    },
+  };
+}
+
+export const eventBus = createEventBus(eventsConfig.replayBufferSize);
+
+/** Tells open streams about a committed change to a space. */
+export function publishSpaceEvent(
+  type: DomainEventType,
+  spaceId: string,
+  space: SpaceDTO | null,
+) {
+  eventBus.publish({ type, spaceId, space, at: new Date().toISOString() });
+}
@@ -0,0 +1,47 @@
+import { Request, Response } from "express";
+import { eventBus } from "./bus.js";
+import { SSE_HEARTBEAT, SSE_RESET, sseMessage, sseRetry } from "./entity.js";
+import { EventsQuery, StreamedEvent } from "./types.js";
+import { eventsConfig } from "../../config/events.js";
+
+// query was parsed by validate() in routes.ts
+
+/**
+ * Streams space changes until the client disconnects. A reconnecting
+ * client first gets what it missed since Last-Event-ID, or a reset event
+ * when that is no longer buffered.
+ */
+export function streamEvents(req: Request, res: Response) {
+  const { lastEventId: fromQuery } = req.query as EventsQuery;
+  const lastEventId = req.get("Last-Event-ID") || fromQuery;
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // nginx would otherwise buffer the stream
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+  res.write(sseRetry(eventsConfig.retryMs));
+
+  if (lastEventId) {
+    const missed = eventBus.eventsSince(lastEventId);
+    if (missed) for (const event of missed) res.write(sseMessage(event));
+    else res.write(SSE_RESET);
+  }
+
+  // subscribing right after the replay leaves no gap; both are synchronous
+  const unsubscribe = eventBus.subscribe((event: StreamedEvent) =>
+    res.write(sseMessage(event)),
+  );
+  const heartbeat = setInterval(
+    () => res.write(SSE_HEARTBEAT),
+    eventsConfig.heartbeatMs,
+  );
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
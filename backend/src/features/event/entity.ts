@@ -0,0 +1,17 @@
+import type { StreamedEvent } from "./types.js";
+
+// frames of the text/event-stream format; every frame ends with a blank line
+
+export function sseMessage({ id, event }: StreamedEvent): string {
+  return `id: ${id}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+export function sseRetry(ms: number): string {
+  return `retry: ${ms}\n\n`;
+}
+
+// the client missed events it cannot catch up on and should refetch
+export const SSE_RESET = "event: reset\ndata: {}\n\n";
+
+// a comment line; clients ignore it
+export const SSE_HEARTBEAT = ": heartbeat\n\n";
@@ -0,0 +1,29 @@
+import { type OperationDoc } from "../../openapi/document.js";
+import {
+  EventsQuerySchema,
+  LastEventIdHeadersSchema,
+  SpaceStreamEventSchema,
+} from "./schema.js";
+
+const tags = ["Events"];
+
+export const eventOperations: OperationDoc[] = [
+  {
+    method: "get",
+    path: "/api/events",
+    summary:
+      "Stream space changes as server-sent events; EventSource clients pass ?token= since they cannot send headers",
+    tags,
+    roles: [],
+    query: EventsQuerySchema,
+    headers: LastEventIdHeadersSchema,
+    responses: {
+      200: {
+        description:
+          "Each message's data is a SpaceStreamEvent; a reset event means missed events are gone and the client should refetch",
+        schema: SpaceStreamEventSchema,
+        contentType: "text/event-stream",
+      },
+    },
+  },
+];
@@ -0,0 +1,14 @@
+import { Router } from "express";
+import { requireAuth } from "../../middlewares/auth.js";
+import { validate } from "../../middlewares/validate.js";
+import { streamEvents } from "./controller.js";
+import { EventsQuerySchema } from "./schema.js";
+
+export const eventRouter = Router();
+
+eventRouter.get(
+  "/",
+  requireAuth,
+  validate({ query: EventsQuerySchema }),
+  streamEvents,
+);
@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { DOMAIN_EVENT_TYPES } from "../outbox/schema.js";
+import { SpaceSchema } from "../space/schema.js";
+
+/**
+ * API shapes for the server-sent event stream.
+ */
+
+// the data of every message on GET /api/events
+export const SpaceStreamEventSchema = z
+  .object({
+    type: z.enum(DOMAIN_EVENT_TYPES),
+    spaceId: z.string(),
+    // the space after the change; null for space.deleted
+    space: SpaceSchema.nullable(),
+    at: z.iso.datetime(),
+  })
+  .meta({ id: "SpaceStreamEvent" });
+
+// documentation only; the controller reads the header itself
+export const LastEventIdHeadersSchema = z.object({
+  "Last-Event-ID": z.string().optional().meta({
+    description:
+      "The id of the last event the client saw; EventSource sends it when reconnecting.",
+  }),
+});
+
+export const EventsQuerySchema = z.object({
+  // for clients that reconnect by hand; the Last-Event-ID header wins
+  lastEventId: z.string().optional(),
+});
@@ -0,0 +1,9 @@
+import type { z } from "zod";
+import type { EventsQuerySchema, SpaceStreamEventSchema } from "./schema.js";
+
+export type SpaceStreamEvent = z.output<typeof SpaceStreamEventSchema>;
+
+export type EventsQuery = z.output<typeof EventsQuerySchema>;
+
+// an event as the bus stores and streams it
+export type StreamedEvent = { id: string; event: SpaceStreamEvent };
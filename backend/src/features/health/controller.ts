@@ -0,0 +1,35 @@
+import { NextFunction, Request, Response } from "express";
+import { checkLivenessUsecase } from "./usecases/check-liveness.usecase.js";
+import { checkReadinessUsecase } from "./usecases/check-readiness.usecase.js";
+import { registry } from "./metrics.js";
+
+export function getLiveness(_req: Request, res: Response) {
+  return res.status(200).json(checkLivenessUsecase());
+}
+
+export async function getReadiness(
+  _req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await checkReadinessUsecase();
+    // load balancers and orchestrators only look at the status code
+    return res.status(result.status === "unavailable" ? 503 : 200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function getMetrics(
+  _req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const body = await registry.metrics();
+    return res.status(200).type(registry.contentType).send(body);
+  } catch (err) {
+    return next(err);
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkDependency,
+  readinessStatus,
+  routeLabel,
+  sqlOperation,
+} from "./entity.js";
+import type { DependencyHealthDTO } from "./types.js";
+
+const dependency = (
+  critical: boolean,
+  status: DependencyHealthDTO["status"],
+): DependencyHealthDTO => ({
+  name: "dep",
+  status,
+  critical,
+  latencyMs: 1,
+  error: null,
+  details: null,
+});
+
+describe("checkDependency", () => {
+  it("reports details from a passing check", async () => {
+    const result = await checkDependency(
+      { name: "db", critical: true, check: async () => ({ active: 2 }) },
+      100,
+    );
+    expect(result).toMatchObject({
+      name: "db",
+      status: "up",
+      error: null,
+      details: { active: 2 },
+    });
+  });
+
+  it("reports a failing check as down", async () => {
+    const result = await checkDependency(
+      {
+        name: "db",
+        critical: true,
+        check: () => Promise.reject(new Error("ECONNREFUSED")),
+      },
+      100,
+    );
+    expect(result).toMatchObject({ status: "down", error: "ECONNREFUSED" });
+  });
+
+  it("gives up on a check slower than the timeout", async () => {
+    const result = await checkDependency(
+      { name: "smtp", critical: false, check: () => new Promise(() => {}) },
+      10,
+    );
+    expect(result).toMatchObject({
+      status: "down",
+      error: "timed out after 10 ms",
+    });
+  });
+});
+
+describe("readinessStatus", () => {
+  it("is only unavailable when a critical dependency is down", () => {
+    expect(readinessStatus([dependency(true, "up")])).toBe("ready");
+    expect(
+      readinessStatus([dependency(true, "up"), dependency(false, "down")]),
+    ).toBe("degraded");
+    expect(
+      readinessStatus([dependency(true, "down"), dependency(false, "up")]),
+    ).toBe("unavailable");
+  });
+});
+
+describe("routeLabel", () => {
+  it("keeps the route pattern and replaces ids in the mount path", () => {
+    expect(routeLabel("/api/spaces/ck1a2b3c/bookings", "/")).toBe(
+      "/api/spaces/:id/bookings",
+    );
+    expect(
+      routeLabel(
+        "/api/webhooks/ck1/deliveries/ck2/redeliver",
+        "/:id/deliveries/:deliveryId/redeliver",
+      ),
+    ).toBe("/api/webhooks/:id/deliveries/:deliveryId/redeliver");
+  });
+
+  it("groups requests no route matched", () => {
+    expect(routeLabel("/api/nope/123")).toBe("unmatched");
+  });
+});
+
+describe("sqlOperation", () => {
+  it("labels queries by their first keyword", () => {
+    expect(sqlOperation("SELECT `id` FROM `Space`")).toBe("SELECT");
+    expect(sqlOperation("  insert into x")).toBe("INSERT");
+    expect(sqlOperation("")).toBe("OTHER");
+  });
+});
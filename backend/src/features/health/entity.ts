@@ -0,0 +1,74 @@
+import type {
+  DependencyCheck,
+  DependencyHealthDTO,
+  ReadinessStatus,
+} from "./types.js";
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${ms} ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/** Runs one check; a slow or failing dependency is reported, never thrown. */
+export async function checkDependency(
+  { name, critical, check }: DependencyCheck,
+  timeoutMs: number,
+): Promise<DependencyHealthDTO> {
+  const started = performance.now();
+  const latency = () => Math.round(performance.now() - started);
+  try {
+    const details = await withTimeout(check(), timeoutMs);
+    return {
+      name,
+      status: "up",
+      critical,
+      latencyMs: latency(),
+      error: null,
+      details: details ?? null,
+    };
+  } catch (err) {
+    return {
+      name,
+      status: "down",
+      critical,
+      latencyMs: latency(),
+      error: err instanceof Error ? err.message : String(err),
+      details: null,
+    };
+  }
+}
+
+export function readinessStatus(
+  dependencies: DependencyHealthDTO[],
+): ReadinessStatus {
+  const down = dependencies.filter((d) => d.status === "down");
+  if (down.some((d) => d.critical)) return "unavailable";
+  return down.length ? "degraded" : "ready";
+}
+
+// route segments are lowercase words; anything else in a mount path is an id
+const ROUTE_WORD = /^[a-z][a-z-]*$/;
+
+/**
+ * The metrics label for a request: the mount path with ids replaced by
+ * `:id`, followed by the matched route pattern. Unmatched requests share
+ * one label so random URLs cannot blow up the series count.
+ */
+export function routeLabel(pathname: string, routePath?: string): string {
+  if (routePath === undefined) return "unmatched";
+  const segments = pathname.split("/").filter(Boolean);
+  const routeSegments = routePath.split("/").filter(Boolean);
+  const mount = segments
+    .slice(0, segments.length - routeSegments.length)
+    .map((segment) => (ROUTE_WORD.test(segment) ? segment : ":id"));
+  return `/${[...mount, ...routeSegments].join("/")}`;
+}
+
+// the statement kind, e.g. SELECT or INSERT, as a low-cardinality label
+export function sqlOperation(sql: string): string {
+  const keyword = /^\s*([a-z]+)/i.exec(sql)?.[1]?.toUpperCase();
+  return keyword ?? "OTHER";
+}
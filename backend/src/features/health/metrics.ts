@@ -0,0 +1,73 @@
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from "prom-client";
+import { DB_CONNECTION_LIMIT, dbPool, prisma } from "../../config/prisma.js";
+import { sqlOperation } from "./entity.js";
+
+/**
+ * Prometheus metrics for GET /metrics: process defaults, HTTP requests per
+ * route and status, Prisma query timings and connection pool usage.
+ */
+export const registry = new Registry();
+
+collectDefaultMetrics({ register: registry });
+
+const httpLabels = ["method", "route", "status"] as const;
+
+export const httpRequests = new Counter({
+  name: "http_requests_total",
+  help: "HTTP requests by method, route pattern and status",
+  labelNames: httpLabels,
+  registers: [registry],
+});
+
+export const httpRequestDuration = new Histogram({
+  name: "http_request_duration_seconds",
+  help: "HTTP request latency by method, route pattern and status",
+  labelNames: httpLabels,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [registry],
+});
+
+const dbQueryDuration = new Histogram({
+  name: "db_query_duration_seconds",
+  help: "Prisma query latency by SQL statement kind",
+  labelNames: ["operation"] as const,
+  buckets: [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+  registers: [registry],
+});
+
+new Gauge({
+  name: "db_pool_connections",
+  help: "Database pool connections by state",
+  labelNames: ["state"] as const,
+  registers: [registry],
+  collect() {
+    const pool = dbPool();
+    this.set({ state: "limit" }, DB_CONNECTION_LIMIT);
+    // the pool only exists after the first query
+    this.set({ state: "active" }, pool?.activeConnections() ?? 0);
+    this.set({ state: "idle" }, pool?.idleConnections() ?? 0);
+    this.set({ state: "total" }, pool?.totalConnections() ?? 0);
+  },
+});
+
+new Gauge({
+  name: "db_pool_pending_requests",
+  help: "Queries waiting for a free database connection",
+  registers: [registry],
+  collect() {
+    this.set(dbPool()?.taskQueueSize() ?? 0);
+  },
+});
+
+prisma.$on("query", (event) => {
+  dbQueryDuration.observe(
+    { operation: sqlOperation(event.query) },
+    event.duration / 1000,
+  );
+});
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import type { OperationDoc } from "../../openapi/document.js";
+import { LivenessSchema, ReadinessSchema } from "./schema.js";
+
+const tags = ["Health"];
+
+const readiness = {
+  200: { description: "Ready, or degraded", schema: ReadinessSchema },
+  503: {
+    description: "A critical dependency is down",
+    schema: ReadinessSchema,
+  },
+};
+
+export const healthOperations: OperationDoc[] = [
+  {
+    method: "get",
+    path: "/api/health",
+    summary: "Alias of /api/health/ready",
+    tags,
+    responses: readiness,
+  },
+  {
+    method: "get",
+    path: "/api/health/live",
+    summary: "Liveness probe; does not touch any dependency",
+    tags,
+    responses: {
+      200: { description: "The process is up", schema: LivenessSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/health/ready",
+    summary:
+      "Readiness probe; checks the database and SMTP server with a timeout each",
+    tags,
+    responses: readiness,
+  },
+  {
+    method: "get",
+    path: "/metrics",
+    summary:
+      "Prometheus metrics: HTTP requests and latency per route and status, DB query timings, pool usage",
+    tags,
+    responses: {
+      200: {
+        description: "Prometheus text exposition format",
+        schema: z.string(),
+        contentType: "text/plain; version=0.0.4",
+      },
+    },
+  },
+];
@@ -0,0 +1,14 @@
+import { Router } from "express";
+import { getLiveness, getMetrics, getReadiness } from "./controller.js";
+
+// public: probes and scrapers do not sign in
+export const healthRouter = Router();
+
+// kept for existing callers; same as /ready
+healthRouter.get("/", getReadiness);
+healthRouter.get("/live", getLiveness);
+healthRouter.get("/ready", getReadiness);
+
+export const metricsRouter = Router();
+
+metricsRouter.get("/", getMetrics);
@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+/**
+ * API shapes for the health probes.
+ */
+
+export const DEPENDENCY_STATUSES = ["up", "down"] as const;
+
+// ready: everything is up; degraded: only non-critical dependencies are
+// down, still 200; unavailable: a critical one is down, 503
+export const READINESS_STATUSES = ["ready", "degraded", "unavailable"] as const;
+
+export const DependencyHealthSchema = z
+  .object({
+    name: z.string(),
+    status: z.enum(DEPENDENCY_STATUSES),
+    // whether readiness fails when this dependency is down
+    critical: z.boolean(),
+    latencyMs: z.number().int(),
+    error: z.string().nullable(),
+    // e.g. connection pool usage for the database
+    details: z.record(z.string(), z.number()).nullable(),
+  })
+  .meta({ id: "DependencyHealth" });
+
+export const ReadinessSchema = z
+  .object({
+    status: z.enum(READINESS_STATUSES),
+    checkedAt: z.iso.datetime(),
+    uptimeSeconds: z.number().int(),
+    dependencies: z.array(DependencyHealthSchema),
+  })
+  .meta({ id: "Readiness" });
+
+export const LivenessSchema = z
+  .object({
+    status: z.literal("alive"),
+    checkedAt: z.iso.datetime(),
+    uptimeSeconds: z.number().int(),
+  })
+  .meta({ id: "Liveness" });
@@ -0,0 +1,21 @@
+import type { z } from "zod";
+import type {
+  DependencyHealthSchema,
+  LivenessSchema,
+  ReadinessSchema,
+} from "./schema.js";
+
+export type DependencyHealthDTO = z.output<typeof DependencyHealthSchema>;
+
+export type ReadinessDTO = z.output<typeof ReadinessSchema>;
+
+export type ReadinessStatus = ReadinessDTO["status"];
+
+export type LivenessDTO = z.output<typeof LivenessSchema>;
+
+export type DependencyCheck = {
+  name: string;
+  critical: boolean;
+  // resolves with optional details, throws when the dependency is down
+  check: () => Promise<Record<string, number> | void>;
+};
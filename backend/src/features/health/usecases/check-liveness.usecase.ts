@@ -0,0 +1,10 @@
+import type { LivenessDTO } from "../types.js";
+
+/** The process is up and serving requests; dependencies are not checked. */
+export function checkLivenessUsecase(now = new Date()): LivenessDTO {
+  return {
+    status: "alive",
+    checkedAt: now.toISOString(),
+    uptimeSeconds: Math.floor(process.uptime()),
+  };
+}
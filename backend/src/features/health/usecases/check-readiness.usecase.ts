@@ -0,0 +1,43 @@
+import { dbPool, DB_CONNECTION_LIMIT, prisma } from "../../../config/prisma.js";
+import { healthConfig } from "../../../config/health.js";
+import { storageConfig } from "../../../config/storage.js";
+import { verifyMailer } from "../../notification/mailer.js";
+import { checkDependency, readinessStatus } from "../entity.js";
+import type { DependencyCheck, ReadinessDTO } from "../types.js";
+
+const database: DependencyCheck = {
+  name: "database",
+  critical: true,
+  check: async () => {
+    await prisma.$queryRaw`SELECT 1`;
+    const pool = dbPool();
+    return {
+      connectionLimit: DB_CONNECTION_LIMIT,
+      activeConnections: pool?.activeConnections() ?? 0,
+      idleConnections: pool?.idleConnections() ?? 0,
+      pendingRequests: pool?.taskQueueSize() ?? 0,
+    };
+  },
+};
+
+const dependencies: DependencyCheck[] = [
+  // demo mode runs without one
+  ...(storageConfig.driver === "memory" ? [] : [database]),
+  // only delays notification emails; the outbox retries them
+  { name: "smtp", critical: false, check: verifyMailer },
+];
+
+/** Checks every dependency in parallel, each bounded by the timeout. */
+export async function checkReadinessUsecase(
+  now = new Date(),
+): Promise<ReadinessDTO> {
+  const results = await Promise.all(
+    dependencies.map((d) => checkDependency(d, healthConfig.checkTimeoutMs)),
+  );
+  return {
+    status: readinessStatus(results),
+    checkedAt: now.toISOString(),
+    uptimeSeconds: Math.floor(process.uptime()),
+    dependencies: results,
+  };
+}
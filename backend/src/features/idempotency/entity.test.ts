@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { idempotencyRecordId, isReplayable, requestHash } from "./entity.js";
+import type { IdempotentRequest } from "./types.js";
+
+const request: IdempotentRequest = {
+  key: "k-1",
+  clientId: "user:u1",
+  method: "POST",
+  path: "/api/spaces",
+  body: { name: "Room A", capacity: 4 },
+};
+
+describe("idempotency entity", () => {
+  it("scopes keys to the client, method and path", () => {
+    const id = idempotencyRecordId(request);
+    expect(id).toMatch(/^[0-9a-f]{64}$/);
+    expect(idempotencyRecordId({ ...request, body: {} })).toBe(id);
+    for (const other of [
+      { clientId: "user:u2" },
+      { method: "PATCH" },
+      { path: "/api/spaces/import?dryRun=true" },
+      { key: "k-2" },
+    ])
+      expect(idempotencyRecordId({ ...request, ...other })).not.toBe(id);
+  });
+
+  it("does not let fields run into each other", () => {
+    expect(
+      idempotencyRecordId({ ...request, clientId: "a", method: "bPOST" }),
+    ).not.toBe(
+      idempotencyRecordId({ ...request, clientId: "ab", method: "POST" }),
+    );
+  });
+
+  it("hashes JSON and text bodies", () => {
+    expect(requestHash({ a: 1 })).toBe(requestHash({ a: 1 }));
+    expect(requestHash({ a: 1 })).not.toBe(requestHash({ a: 2 }));
+    expect(requestHash("name,capacity")).not.toBe(requestHash("name"));
+    expect(requestHash(undefined)).toBe(requestHash(""));
+  });
+
+  it("replays client errors but not server errors", () => {
+    expect(isReplayable(201)).toBe(true);
+    expect(isReplayable(412)).toBe(true);
+    expect(isReplayable(500)).toBe(false);
+    expect(isReplayable(503)).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+import { createHash } from "node:crypto";
+import { AppError, ConflictError } from "../../utils/errors.js";
+import type { IdempotentRequest } from "./types.js";
+
+export const MAX_KEY_LENGTH = 191;
+
+// enough for clients to use a replay like the original response
+export const REPLAYED_HEADERS = ["content-type", "etag", "location"];
+
+/** Raised for a repeat that arrives while the first is still handled. */
+export class IdempotencyKeyInUseError extends ConflictError {
+  readonly code = "IDEMPOTENCY_KEY_IN_USE";
+
+  constructor() {
+    super("a request with this Idempotency-Key is still being processed");
+  }
+}
+
+/** Raised when a key is reused for a request with a different body. */
+export class IdempotencyKeyReusedError extends AppError {
+  readonly status = 422;
+  readonly code = "IDEMPOTENCY_KEY_REUSED";
+
+  constructor() {
+    super("this Idempotency-Key was already used with a different request");
+  }
+}
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/** Primary key of the stored key: one per client, route and key. */
+export function idempotencyRecordId(request: IdempotentRequest): string {
+  return sha256(
+    JSON.stringify([
+      request.clientId,
+      request.method,
+      request.path,
+      request.key,
+    ]),
+  );
+}
+
+/** Fingerprint of the parsed body; text bodies are hashed as sent. */
+export function requestHash(body: unknown): string {
+  return sha256(typeof body === "string" ? body : (JSON.stringify(body) ?? ""));
+}
+
+/**
+ * Only responses that reflect the outcome of the request are kept. After a
+ * server error the key is released so that a retry runs again.
+ */
+export function isReplayable(status: number): boolean {
+  return status < 500;
+}
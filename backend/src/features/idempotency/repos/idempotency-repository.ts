@@ -0,0 +1,31 @@
+import type { IdempotencyKey } from "../../../generated/prisma/client.js";
+
+export type IdempotencyKeyCreateData = Pick<
+  IdempotencyKey,
+  "id" | "key" | "method" | "path" | "requestHash" | "expiresAt" | "lockedUntil"
+>;
+
+export type IdempotentResponseData = {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  completedAt: Date;
+};
+
+/** Storage for claimed Idempotency-Keys and their stored responses. */
+export interface IdempotencyRepository {
+  getKeyById(id: string): Promise<IdempotencyKey | null>;
+  /** False when another request holds the key. */
+  createKey(data: IdempotencyKeyCreateData): Promise<boolean>;
+  /**
+   * Moves an unanswered key whose lease ran out by `now` to a new holder
+   * until `lockedUntil`; false when it was answered, released or taken
+   * over in the meantime.
+   */
+  takeOverKey(id: string, lockedUntil: Date, now: Date): Promise<boolean>;
+  completeKey(id: string, response: IdempotentResponseData): Promise<void>;
+  /** Frees a key whose request failed, so a retry runs it again. */
+  releaseKey(id: string): Promise<void>;
+  /** Deletes expired keys, or only `id` when given and expired. */
+  deleteExpiredKeys(now: Date, id?: string): Promise<number>;
+}
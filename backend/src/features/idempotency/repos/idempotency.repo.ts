@@ -0,0 +1,58 @@
+import { prisma } from "../../../config/prisma.js";
+import { Prisma } from "../../../generated/prisma/client.js";
+import type {
+  IdempotencyKeyCreateData,
+  IdempotencyRepository,
+  IdempotentResponseData,
+} from "./idempotency-repository.js";
+
+async function getKeyById(id: string) {
+  return prisma.idempotencyKey.findUnique({ where: { id } });
+}
+
+async function createKey(data: IdempotencyKeyCreateData) {
+  try {
+    await prisma.idempotencyKey.create({ data });
+    return true;
+  } catch (err) {
+    // a concurrent request claimed it between the read and the insert
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    )
+      return false;
+    throw err;
+  }
+}
+
+async function takeOverKey(id: string, lockedUntil: Date, now: Date) {
+  const { count } = await prisma.idempotencyKey.updateMany({
+    where: { id, status: null, lockedUntil: { lte: now } },
+    data: { lockedUntil },
+  });
+  return count === 1;
+}
+
+async function completeKey(id: string, response: IdempotentResponseData) {
+  await prisma.idempotencyKey.update({ where: { id }, data: response });
+}
+
+async function releaseKey(id: string) {
+  await prisma.idempotencyKey.deleteMany({ where: { id, status: null } });
+}
+
+async function deleteExpiredKeys(now: Date, id?: string) {
+  const { count } = await prisma.idempotencyKey.deleteMany({
+    where: { id, expiresAt: { lte: now } },
+  });
+  return count;
+}
+
+export const prismaIdempotencyRepository: IdempotencyRepository = {
+  getKeyById,
+  createKey,
+  takeOverKey,
+  completeKey,
+  releaseKey,
+  deleteExpiredKeys,
+};
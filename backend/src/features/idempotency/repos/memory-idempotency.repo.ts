@@ -0,0 +1,58 @@
+import type { IdempotencyKey } from "../../../generated/prisma/client.js";
+import type { IdempotencyRepository } from "./idempotency-repository.js";
+
+/** Keeps keys in this process, for demos and tests. */
+export function createMemoryIdempotencyRepository(): IdempotencyRepository {
+  const keys = new Map<string, IdempotencyKey>();
+
+  return {
+    async getKeyById(id) {
+      const key = keys.get(id);
+      return key ? { ...key } : null;
+    },
+
+    async createKey(data) {
+      if (keys.has(data.id)) return false;
+      keys.set(data.id, {
+        ...data,
+        status: null,
+        headers: null,
+        body: null,
+        createdAt: new Date(),
+        completedAt: null,
+      });
+      return true;
+    },
+
+    async takeOverKey(id, lockedUntil, now) {
+      const key = keys.get(id);
+      if (
+        !key ||
+        key.status !== null ||
+        (key.lockedUntil !== null && key.lockedUntil > now)
+      )
+        return false;
+      keys.set(id, { ...key, lockedUntil });
+      return true;
+    },
+
+    async completeKey(id, response) {
+      const key = keys.get(id);
+      if (key) keys.set(id, { ...key, ...response });
+    },
+
+    async releaseKey(id) {
+      if (keys.get(id)?.status === null) keys.delete(id);
+    },
+
+    async deleteExpiredKeys(now, id) {
+      let count = 0;
+      for (const [keyId, key] of keys)
+        if ((id === undefined || keyId === id) && key.expiresAt <= now) {
+          keys.delete(keyId);
+          count++;
+        }
+      return count;
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import { storageConfig } from "../../config/storage.js";
+import { prismaIdempotencyRepository } from "./repos/idempotency.repo.js";
+import { createMemoryIdempotencyRepository } from "./repos/memory-idempotency.repo.js";
+import type { IdempotencyRepository } from "./repos/idempotency-repository.js";
+
+let repository: IdempotencyRepository =
+  storageConfig.driver === "memory"
+    ? createMemoryIdempotencyRepository()
+    : prismaIdempotencyRepository;
+
+/** The key storage usecases work on, chosen by STORAGE_DRIVER. */
+export function idempotencyRepository(): IdempotencyRepository {
+  return repository;
+}
+
+/** Swaps the key storage, e.g. for a fresh in-memory one per test. */
+export function setIdempotencyRepository(next: IdempotencyRepository): void {
+  repository = next;
+}
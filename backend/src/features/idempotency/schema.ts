@@ -0,0 +1,10 @@
+import { z } from "zod";
+import { MAX_KEY_LENGTH } from "./entity.js";
+
+// documentation only; honorIdempotencyKey reads the header itself
+export const IdempotencyKeyHeadersSchema = z.object({
+  "Idempotency-Key": z.string().min(1).max(MAX_KEY_LENGTH).optional().meta({
+    description:
+      "Unique per intended change, e.g. a UUID. Repeats of the same request get the first response (Idempotent-Replayed: true); reuse with another body fails with 422.",
+  }),
+});
@@ -0,0 +1,25 @@
+/** A mutating request that carried an Idempotency-Key header. */
+export type IdempotentRequest = {
+  key: string;
+  // who sent it; the same key from two clients never collides
+  clientId: string;
+  method: string;
+  // path and query string, so e.g. a dry run and a real import differ
+  path: string;
+  body: unknown;
+};
+
+/** The first response to a key, replayed for its repeats. */
+export type StoredResponse = {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+};
+
+/**
+ * A fresh key is claimed under `id` and the handler runs; a repeat gets
+ * the stored response instead.
+ */
+export type IdempotencyClaim =
+  | { id: string; replay: null }
+  | { id: string; replay: StoredResponse };
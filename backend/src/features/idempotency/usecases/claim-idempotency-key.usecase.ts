@@ -0,0 +1,62 @@
+import { idempotencyRepository } from "../repository.js";
+import { idempotencyConfig } from "../../../config/idempotency.js";
+import {
+  IdempotencyKeyInUseError,
+  IdempotencyKeyReusedError,
+  idempotencyRecordId,
+  requestHash,
+} from "../entity.js";
+import {
+  IdempotencyClaim,
+  IdempotentRequest,
+  StoredResponse,
+} from "../types.js";
+
+/**
+ * Claims the request's key, or returns the response stored for it. A
+ * repeat with another body, or one racing the first, is rejected. The
+ * first request holds the key for `leaseMs`; a repeat after that takes it
+ * over and runs again, so a request that died unanswered does not block
+ * its key until it expires.
+ */
+export async function claimIdempotencyKeyUsecase(
+  request: IdempotentRequest,
+  now = new Date(),
+): Promise<IdempotencyClaim> {
+  const id = idempotencyRecordId(request);
+  const hash = requestHash(request.body);
+
+  const repo = idempotencyRepository();
+  const lockedUntil = new Date(now.getTime() + idempotencyConfig.leaseMs);
+  const existing = await repo.getKeyById(id);
+  if (existing && existing.expiresAt > now) {
+    if (existing.requestHash !== hash) throw new IdempotencyKeyReusedError();
+    if (existing.status === null) {
+      if (!(await repo.takeOverKey(id, lockedUntil, now)))
+        throw new IdempotencyKeyInUseError();
+      return { id, replay: null };
+    }
+    return {
+      id,
+      replay: {
+        status: existing.status,
+        headers: (existing.headers ?? {}) as StoredResponse["headers"],
+        body: existing.body ?? "",
+      },
+    };
+  }
+  if (existing) await repo.deleteExpiredKeys(now, id);
+
+  const claimed = await repo.createKey({
+    id,
+    key: request.key,
+    method: request.method,
+    path: request.path,
+    requestHash: hash,
+    expiresAt: new Date(now.getTime() + idempotencyConfig.ttlMs),
+    lockedUntil,
+  });
+  // a concurrent request claimed it between the read and the insert
+  if (!claimed) throw new IdempotencyKeyInUseError();
+  return { id, replay: null };
+}
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { setIdempotencyRepository } from "../repository.js";
+import { createMemoryIdempotencyRepository } from "../repos/memory-idempotency.repo.js";
+import type { IdempotencyRepository } from "../repos/idempotency-repository.js";
+import { idempotencyConfig } from "../../../config/idempotency.js";
+import { claimIdempotencyKeyUsecase } from "./claim-idempotency-key.usecase.js";
+import { recordIdempotentResponseUsecase } from "./record-idempotent-response.usecase.js";
+import type { IdempotentRequest } from "../types.js";
+
+const request: IdempotentRequest = {
+  key: "k-1",
+  clientId: "user:u1",
+  method: "POST",
+  path: "/api/spaces",
+  body: { name: "Room A", capacity: 4 },
+};
+const created = { status: 201, headers: {}, body: '{"id":"s1"}' };
+const now = new Date("2026-06-01T09:00:00.000Z");
+const later = (ms: number) => new Date(now.getTime() + ms);
+
+let repo: IdempotencyRepository;
+
+beforeEach(() => {
+  repo = createMemoryIdempotencyRepository();
+  setIdempotencyRepository(repo);
+});
+
+describe("idempotency keys", () => {
+  it("lets a repeat take over a key held past its lease", async () => {
+    const { id } = await claimIdempotencyKeyUsecase(request, now);
+    const { leaseMs } = idempotencyConfig;
+
+    await expect(
+      claimIdempotencyKeyUsecase(request, later(leaseMs - 1)),
+    ).rejects.toMatchObject({ code: "IDEMPOTENCY_KEY_IN_USE" });
+
+    // the first request died without an answer
+    const takeover = await claimIdempotencyKeyUsecase(request, later(leaseMs));
+    expect(takeover).toEqual({ id, replay: null });
+    await expect(
+      claimIdempotencyKeyUsecase(request, later(leaseMs + 1)),
+    ).rejects.toMatchObject({ code: "IDEMPOTENCY_KEY_IN_USE" });
+
+    await recordIdempotentResponseUsecase(id, created, later(leaseMs + 1));
+    expect(
+      await claimIdempotencyKeyUsecase(request, later(3 * leaseMs)),
+    ).toEqual({ id, replay: created });
+  });
+
+  it("releases the key when its response cannot be stored", async () => {
+    const { id } = await claimIdempotencyKeyUsecase(request, now);
+    vi.spyOn(repo, "completeKey").mockRejectedValueOnce(new Error("db down"));
+
+    await expect(
+      recordIdempotentResponseUsecase(id, created, now),
+    ).rejects.toThrow("db down");
+    expect(await repo.getKeyById(id)).toBeNull();
+    expect(await claimIdempotencyKeyUsecase(request, now)).toEqual({
+      id,
+      replay: null,
+    });
+  });
+});
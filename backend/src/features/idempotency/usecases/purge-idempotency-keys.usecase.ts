@@ -0,0 +1,8 @@
+import { idempotencyRepository } from "../repository.js";
+
+/** Deletes keys past their expiry; they would no longer be replayed. */
+export async function purgeIdempotencyKeysUsecase(
+  now = new Date(),
+): Promise<number> {
+  return idempotencyRepository().deleteExpiredKeys(now);
+}
@@ -0,0 +1,28 @@
+import { idempotencyRepository } from "../repository.js";
+import { isReplayable } from "../entity.js";
+import { StoredResponse } from "../types.js";
+
+/**
+ * Stores the response to a claimed key for replay, or releases the key
+ * when the request failed on our side. A key whose response could not be
+ * stored is released too, so repeats run again rather than wait for it.
+ */
+export async function recordIdempotentResponseUsecase(
+  id: string,
+  response: StoredResponse,
+  now = new Date(),
+): Promise<void> {
+  if (!isReplayable(response.status)) {
+    await idempotencyRepository().releaseKey(id);
+    return;
+  }
+  try {
+    await idempotencyRepository().completeKey(id, {
+      ...response,
+      completedAt: now,
+    });
+  } catch (err) {
+    await idempotencyRepository().releaseKey(id);
+    throw err;
+  }
+}
@@ -0,0 +1,161 @@
+import { NextFunction, Request, Response } from "express";
+import { getLocationTreeUsecase } from "./usecases/get-location-tree.usecase.js";
+import { createSiteUsecase } from "./usecases/create-site.usecase.js";
+import { updateSiteUsecase } from "./usecases/update-site.usecase.js";
+import { deleteSiteUsecase } from "./usecases/delete-site.usecase.js";
+import { createBuildingUsecase } from "./usecases/create-building.usecase.js";
+import { updateBuildingUsecase } from "./usecases/update-building.usecase.js";
+import { deleteBuildingUsecase } from "./usecases/delete-building.usecase.js";
+import { createFloorUsecase } from "./usecases/create-floor.usecase.js";
+import { updateFloorUsecase } from "./usecases/update-floor.usecase.js";
+import { deleteFloorUsecase } from "./usecases/delete-floor.usecase.js";
+import {
+  CreateBuildingInput,
+  CreateFloorInput,
+  CreateSiteInput,
+  LocationIdParams,
+  UpdateBuildingInput,
+  UpdateFloorInput,
+  UpdateSiteInput,
+} from "./types.js";
+
+// body and params were parsed by validate() in routes.ts
+
+export async function getLocationTree(
+  _req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await getLocationTreeUsecase();
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function createSite(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await createSiteUsecase(req.body as CreateSiteInput);
+    return res.status(201).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function updateSite(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as LocationIdParams;
+    const result = await updateSiteUsecase(id, req.body as UpdateSiteInput);
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function deleteSite(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as LocationIdParams;
+    await deleteSiteUsecase(id);
+    return res.status(204).send();
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function createBuilding(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await createBuildingUsecase(req.body as CreateBuildingInput);
+    return res.status(201).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function updateBuilding(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as LocationIdParams;
+    const result = await updateBuildingUsecase(
+      id,
+      req.body as UpdateBuildingInput,
+    );
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function deleteBuilding(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as LocationIdParams;
+    await deleteBuildingUsecase(id);
+    return res.status(204).send();
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function createFloor(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await createFloorUsecase(req.body as CreateFloorInput);
+    return res.status(201).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function updateFloor(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as LocationIdParams;
+    const result = await updateFloorUsecase(id, req.body as UpdateFloorInput);
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function deleteFloor(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as LocationIdParams;
+    await deleteFloorUsecase(id);
+    return res.status(204).send();
+  } catch (err) {
+    return next(err);
+  }
+}
@@ -0,0 +1,38 @@
+import type { Building, Floor, Site } from "../../generated/prisma/client.js";
+import { BuildingDTO, FloorDTO, SiteDTO } from "./types.js";
+import { ConflictError } from "../../utils/errors.js";
+
+/** Raised when deleting a location that still has children. */
+export class LocationNotEmptyError extends ConflictError {
+  readonly code = "LOCATION_NOT_EMPTY";
+}
+
+export function toSiteDTO(site: Site): SiteDTO {
+  return {
+    id: site.id,
+    name: site.name,
+    createdAt: site.createdAt.toISOString(),
+    updatedAt: site.updatedAt.toISOString(),
+  };
+}
+
+export function toBuildingDTO(building: Building): BuildingDTO {
+  return {
+    id: building.id,
+    siteId: building.siteId,
+    name: building.name,
+    createdAt: building.createdAt.toISOString(),
+    updatedAt: building.updatedAt.toISOString(),
+  };
+}
+
+export function toFloorDTO(floor: Floor): FloorDTO {
+  return {
+    id: floor.id,
+    buildingId: floor.buildingId,
+    name: floor.name,
+    level: floor.level,
+    createdAt: floor.createdAt.toISOString(),
+    updatedAt: floor.updatedAt.toISOString(),
+  };
+}
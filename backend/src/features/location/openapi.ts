@@ -0,0 +1,117 @@
+import { ErrorSchema, type OperationDoc } from "../../openapi/document.js";
+import {
+  BuildingSchema,
+  CreateBuildingSchema,
+  CreateFloorSchema,
+  CreateSiteSchema,
+  FloorSchema,
+  LocationIdParamsSchema,
+  LocationTreeSchema,
+  SiteSchema,
+  UpdateBuildingSchema,
+  UpdateFloorSchema,
+  UpdateSiteSchema,
+} from "./schema.js";
+
+const tags = ["Locations"];
+const managers: OperationDoc["roles"] = ["admin", "manager"];
+
+const notEmpty = {
+  description: "The location still has children (LOCATION_NOT_EMPTY)",
+  schema: ErrorSchema,
+};
+
+export const locationOperations: OperationDoc[] = [
+  {
+    method: "get",
+    path: "/api/locations",
+    summary: "List all sites with their buildings and floors",
+    tags,
+    roles: [],
+    responses: { 200: { description: "OK", schema: LocationTreeSchema } },
+  },
+  {
+    method: "post",
+    path: "/api/locations/sites",
+    summary: "Create a site",
+    tags,
+    roles: managers,
+    body: CreateSiteSchema,
+    responses: { 201: { description: "Created", schema: SiteSchema } },
+  },
+  {
+    method: "patch",
+    path: "/api/locations/sites/:id",
+    summary: "Update a site",
+    tags,
+    roles: managers,
+    params: LocationIdParamsSchema,
+    body: UpdateSiteSchema,
+    responses: { 200: { description: "OK", schema: SiteSchema } },
+  },
+  {
+    method: "delete",
+    path: "/api/locations/sites/:id",
+    summary: "Delete a site that has no buildings",
+    tags,
+    roles: managers,
+    params: LocationIdParamsSchema,
+    responses: { 204: { description: "Deleted" }, 409: notEmpty },
+  },
+  {
+    method: "post",
+    path: "/api/locations/buildings",
+    summary: "Create a building",
+    tags,
+    roles: managers,
+    body: CreateBuildingSchema,
+    responses: { 201: { description: "Created", schema: BuildingSchema } },
+  },
+  {
+    method: "patch",
+    path: "/api/locations/buildings/:id",
+    summary: "Update a building",
+    tags,
+    roles: managers,
+    params: LocationIdParamsSchema,
+    body: UpdateBuildingSchema,
+    responses: { 200: { description: "OK", schema: BuildingSchema } },
+  },
+  {
+    method: "delete",
+    path: "/api/locations/buildings/:id",
+    summary: "Delete a building that has no floors",
+    tags,
+    roles: managers,
+    params: LocationIdParamsSchema,
+    responses: { 204: { description: "Deleted" }, 409: notEmpty },
+  },
+  {
+    method: "post",
+    path: "/api/locations/floors",
+    summary: "Create a floor",
+    tags,
+    roles: managers,
+    body: CreateFloorSchema,
+    responses: { 201: { description: "Created", schema: FloorSchema } },
+  },
+  {
+    method: "patch",
+    path: "/api/locations/floors/:id",
+    summary: "Update a floor",
+    tags,
+    roles: managers,
+    params: LocationIdParamsSchema,
+    body: UpdateFloorSchema,
+    responses: { 200: { description: "OK", schema: FloorSchema } },
+  },
+  {
+    method: "delete",
+    path: "/api/locations/floors/:id",
+    summary: "Delete a floor that has no spaces",
+    tags,
+    roles: managers,
+    params: LocationIdParamsSchema,
+    responses: { 204: { description: "Deleted" }, 409: notEmpty },
+  },
+];
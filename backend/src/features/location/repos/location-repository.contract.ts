@@ -0,0 +1,153 @@
+import { randomUUID } from "node:crypto";
+import { describe, it, expect } from "vitest";
+import type { LocationRepository } from "./location-repository.js";
+
+/**
+ * What every LocationRepository must do. The store may be shared (a real
+ * database), so each test names its sites with a fresh tag and only looks
+ * at those.
+ */
+export function describeLocationRepositoryContract(
+  name: string,
+  setup: () => LocationRepository | Promise<LocationRepository>,
+) {
+  describe(`${name} (LocationRepository contract)`, () => {
+    async function start() {
+      const repo = await setup();
+      const tag = randomUUID().slice(0, 8);
+      const site = (suffix: string) =>
+        repo.createSite({ name: `${tag} ${suffix}` });
+      return { repo, tag, site };
+    }
+
+    it("builds the tree, sorted by name and floors by level", async () => {
+      const { repo, tag, site } = await start();
+      const north = await site("North");
+      const hq = await site("HQ");
+      const west = await repo.createBuilding({ siteId: hq.id, name: "West" });
+      const east = await repo.createBuilding({ siteId: hq.id, name: "East" });
+      await repo.createFloor({ buildingId: east.id, name: "2F", level: 2 });
+      await repo.createFloor({ buildingId: east.id, name: "B1", level: -1 });
+      await repo.createFloor({ buildingId: east.id, name: "1F", level: 1 });
+
+      const tree = (await repo.getLocationTree()).filter((s) =>
+        s.name.startsWith(tag),
+      );
+      expect(tree.map((s) => s.id)).toEqual([hq.id, north.id]);
+      expect(tree[0].buildings.map((b) => b.id)).toEqual([east.id, west.id]);
+      expect(tree[0].buildings[0].floors.map((f) => f.name)).toEqual([
+        "B1",
+        "1F",
+        "2F",
+      ]);
+      expect(tree[1].buildings).toEqual([]);
+    });
+
+    it("reads, renames and counts children of each level", async () => {
+      const { repo, tag, site } = await start();
+      const hq = await site("HQ");
+      const east = await repo.createBuilding({ siteId: hq.id, name: "East" });
+      const floor = await repo.createFloor({
+        buildingId: east.id,
+        name: "3F",
+        level: 3,
+      });
+
+      expect(await repo.getSiteById(hq.id)).toEqual(hq);
+      expect(await repo.getBuildingById(east.id)).toEqual(east);
+      expect(await repo.getFloorById(floor.id)).toEqual(floor);
+      expect(await repo.getFloorById(randomUUID())).toBeNull();
+      expect(await repo.countBuildings(hq.id)).toBe(1);
+      expect(await repo.countFloors(east.id)).toBe(1);
+
+      expect(
+        await repo.updateSite(hq.id, { name: `${tag} Head Office` }),
+      ).toMatchObject({ name: `${tag} Head Office` });
+      expect(
+        await repo.updateBuilding(east.id, { name: "East Wing" }),
+      ).toMatchObject({ siteId: hq.id, name: "East Wing" });
+      // only the fields given change
+      expect(await repo.updateFloor(floor.id, { level: 4 })).toMatchObject({
+        name: "3F",
+        level: 4,
+      });
+      await expect(
+        repo.updateSite(randomUUID(), { name: `${tag} Gone` }),
+      ).rejects.toThrow();
+    });
+
+    it("keeps names unique among siblings", async () => {
+      const { repo, tag, site } = await start();
+      const hq = await site("HQ");
+      const north = await site("North");
+      await expect(site("HQ")).rejects.toThrow();
+      await expect(
+        repo.updateSite(north.id, { name: `${tag} HQ` }),
+      ).rejects.toThrow();
+
+      const east = await repo.createBuilding({ siteId: hq.id, name: "East" });
+      await expect(
+        repo.createBuilding({ siteId: hq.id, name: "East" }),
+      ).rejects.toThrow();
+      // the same name is fine in another site
+      await repo.createBuilding({ siteId: north.id, name: "East" });
+
+      await repo.createFloor({ buildingId: east.id, name: "1F", level: 1 });
+      await expect(
+        repo.createFloor({ buildingId: east.id, name: "1F", level: 2 }),
+      ).rejects.toThrow();
+    });
+
+    it("lists the floors of a site or building", async () => {
+      const { repo, site } = await start();
+      const hq = await site("HQ");
+      const north = await site("North");
+      const east = await repo.createBuilding({ siteId: hq.id, name: "East" });
+      const west = await repo.createBuilding({ siteId: hq.id, name: "West" });
+      const other = await repo.createBuilding({
+        siteId: north.id,
+        name: "Main",
+      });
+      const e1 = await repo.createFloor({
+        buildingId: east.id,
+        name: "1F",
+        level: 1,
+      });
+      const w2 = await repo.createFloor({
+        buildingId: west.id,
+        name: "2F",
+        level: 2,
+      });
+      await repo.createFloor({ buildingId: other.id, name: "1F", level: 1 });
+
+      const ids = (floors: { id: string }[]) => floors.map((f) => f.id);
+      expect(ids(await repo.listFloors({ siteId: hq.id }))).toEqual([
+        e1.id,
+        w2.id,
+      ]);
+      expect(ids(await repo.listFloors({ buildingId: west.id }))).toEqual([
+        w2.id,
+      ]);
+      expect(await repo.listFloors({ siteId: randomUUID() })).toEqual([]);
+    });
+
+    it("deletes only locations without children", async () => {
+      const { repo, site } = await start();
+      const hq = await site("HQ");
+      const east = await repo.createBuilding({ siteId: hq.id, name: "East" });
+      const floor = await repo.createFloor({
+        buildingId: east.id,
+        name: "1F",
+        level: 1,
+      });
+
+      await expect(repo.deleteSite(hq.id)).rejects.toThrow();
+      await expect(repo.deleteBuilding(east.id)).rejects.toThrow();
+      await repo.deleteFloor(floor.id);
+      await repo.deleteBuilding(east.id);
+      await repo.deleteSite(hq.id);
+      expect(await repo.getSiteById(hq.id)).toBeNull();
+      await expect(repo.deleteSite(hq.id)).rejects.toThrow();
+    });
+  });
+}
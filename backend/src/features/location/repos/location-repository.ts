@@ -0,0 +1,48 @@
+import type {
+  Building,
+  Floor,
+  Site,
+} from "../../../generated/prisma/client.js";
+
+/** A site with its buildings and their floors. */
+export type SiteTree = Site & { buildings: (Building & { floors: Floor[] })[] };
+
+/** Which floors a space list is narrowed to; the deepest level given wins. */
+export type FloorScope = { siteId?: string; buildingId?: string };
+
+/**
+ * Storage for the location hierarchy (Site > Building > Floor). Site names
+ * are unique, as are building names per site and floor names per building.
+ * Updates and deletes of a missing location throw, as does deleting one
+ * that still has children.
+ */
+export interface LocationRepository {
+  /** Sites and buildings by name, floors by level, then name. */
+  getLocationTree(): Promise<SiteTree[]>;
+  /** The floors of a building, or of every building of a site. */
+  listFloors(scope: FloorScope): Promise<Floor[]>;
+
+  getSiteById(id: string): Promise<Site | null>;
+  createSite(data: { name: string }): Promise<Site>;
+  updateSite(id: string, data: { name: string }): Promise<Site>;
+  deleteSite(id: string): Promise<void>;
+  countBuildings(siteId: string): Promise<number>;
+
+  getBuildingById(id: string): Promise<Building | null>;
+  createBuilding(data: { siteId: string; name: string }): Promise<Building>;
+  updateBuilding(id: string, data: { name: string }): Promise<Building>;
+  deleteBuilding(id: string): Promise<void>;
+  countFloors(buildingId: string): Promise<number>;
+
+  getFloorById(id: string): Promise<Floor | null>;
+  createFloor(data: {
+    buildingId: string;
+    name: string;
+    level: number;
+  }): Promise<Floor>;
+  updateFloor(
+    id: string,
+    data: { name?: string; level?: number },
+  ): Promise<Floor>;
+  deleteFloor(id: string): Promise<void>;
+}
@@ -0,0 +1,11 @@
+import { describe } from "vitest";
+import { describeLocationRepositoryContract } from "./location-repository.contract.js";
+import { prismaLocationRepository } from "./location.repo.js";
+
+// needs a disposable MySQL database: the suite leaves locations behind
+describe.runIf(process.env.TEST_WITH_DATABASE === "true")("MySQL", () => {
+  describeLocationRepositoryContract(
+    "prisma location repository",
+    () => prismaLocationRepository,
+  );
+});
@@ -0,0 +1,110 @@
+import { prisma } from "../../../config/prisma.js";
+import type { FloorScope, LocationRepository } from "./location-repository.js";
+
+async function getLocationTree() {
+  return prisma.site.findMany({
+    orderBy: { name: "asc" },
+    include: {
+      buildings: {
+        orderBy: { name: "asc" },
+        include: {
+          floors: { orderBy: [{ level: "asc" }, { name: "asc" }] },
+        },
+      },
+    },
+  });
+}
+
+async function listFloors(scope: FloorScope) {
+  return prisma.floor.findMany({
+    where: {
+      buildingId: scope.buildingId,
+      building: scope.siteId ? { siteId: scope.siteId } : undefined,
+    },
+    orderBy: [{ level: "asc" }, { name: "asc" }],
+  });
+}
+
+async function getSiteById(id: string) {
+  return prisma.site.findUnique({ where: { id } });
+}
+
+async function createSite(data: { name: string }) {
+  return prisma.site.create({ data });
+}
+
+async function updateSite(id: string, data: { name: string }) {
+  return prisma.site.update({ where: { id }, data });
+}
+
+async function deleteSite(id: string) {
+  await prisma.site.delete({ where: { id } });
+}
+
+async function countBuildings(siteId: string) {
+  return prisma.building.count({ where: { siteId } });
+}
+
+async function getBuildingById(id: string) {
+  return prisma.building.findUnique({ where: { id } });
+}
+
+async function createBuilding(data: { siteId: string; name: string }) {
+  return prisma.building.create({ data });
+}
+
+async function updateBuilding(id: string, data: { name: string }) {
+  return prisma.building.update({ where: { id }, data });
+}
+
+async function deleteBuilding(id: string) {
+  await prisma.building.delete({ where: { id } });
+}
+
+async function countFloors(buildingId: string) {
+  return prisma.floor.count({ where: { buildingId } });
+}
+
+async function getFloorById(id: string) {
+  return prisma.floor.findUnique({ where: { id } });
+}
+
+async function createFloor(data: {
+  buildingId: string;
+  name: string;
+  level: number;
+}) {
+  return prisma.floor.create({ data });
+}
+
+async function updateFloor(
+  id: string,
+  data: { name?: string; level?: number },
+) {
+  return prisma.floor.update({ where: { id }, data });
+}
+
+async function deleteFloor(id: string) {
+  await prisma.floor.delete({ where: { id } });
+}
+
+// missing rows surface as Prisma P2025 -> 404, duplicate names as P2002 and
+// locations with children as P2003 -> 409
+export const prismaLocationRepository: LocationRepository = {
+  getLocationTree,
+  listFloors,
+  getSiteById,
+  createSite,
+  updateSite,
+  deleteSite,
+  countBuildings,
+  getBuildingById,
+  createBuilding,
+  updateBuilding,
+  deleteBuilding,
+  countFloors,
+  getFloorById,
+  createFloor,
+  updateFloor,
+  deleteFloor,
+};
@@ -0,0 +1,6 @@
+import { describeLocationRepositoryContract } from "./location-repository.contract.js";
+import { createMemoryLocationRepository } from "./memory-location.repo.js";
+
+describeLocationRepositoryContract("memory location repository", () =>
+  createMemoryLocationRepository(),
+);
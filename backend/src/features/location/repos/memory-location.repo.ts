@@ -0,0 +1,183 @@
+import { randomUUID } from "node:crypto";
+import type {
+  Building,
+  Floor,
+  Site,
+} from "../../../generated/prisma/client.js";
+import { ConflictError, NotFoundError } from "../../../utils/errors.js";
+import type { LocationRepository } from "./location-repository.js";
+
+const byName = (a: { name: string }, b: { name: string }) =>
+  a.name.localeCompare(b.name);
+
+const byLevel = (a: Floor, b: Floor) => a.level - b.level || byName(a, b);
+
+function taken(): ConflictError {
+  return new ConflictError(
+    "a record with the same unique value already exists",
+    { fields: { name: "name is already taken" } },
+  );
+}
+
+function referenced(): ConflictError {
+  return new ConflictError("the record is referenced by other records");
+}
+
+/** Keeps the location hierarchy in this process, for demos and tests. */
+export function createMemoryLocationRepository(): LocationRepository {
+  const sites = new Map<string, Site>();
+  const buildings = new Map<string, Building>();
+  const floors = new Map<string, Floor>();
+
+  // callers get copies, so only the repository changes what is stored
+  const copy = <T extends object>(row: T): T => ({ ...row });
+
+  function stamp() {
+    const now = new Date();
+    return { id: randomUUID(), createdAt: now, updatedAt: now };
+  }
+
+  function existing<T>(store: Map<string, T>, id: string): T {
+    const row = store.get(id);
+    if (!row) throw new NotFoundError("record not found");
+    return row;
+  }
+
+  // whether another row among `siblings` already has the name
+  function isTaken<T extends { id: string; name: string }>(
+    siblings: Iterable<T>,
+    name: string,
+    id?: string,
+  ) {
+    for (const row of siblings)
+      if (row.name === name && row.id !== id) return true;
+    return false;
+  }
+
+  const buildingsOf = (siteId: string) =>
+    [...buildings.values()].filter((b) => b.siteId === siteId);
+  const floorsOf = (buildingId: string) =>
+    [...floors.values()].filter((f) => f.buildingId === buildingId);
+
+  return {
+    async getLocationTree() {
+      return [...sites.values()].sort(byName).map((site) => ({
+        ...copy(site),
+        buildings: buildingsOf(site.id)
+          .sort(byName)
+          .map((building) => ({
+            ...copy(building),
+            floors: floorsOf(building.id).sort(byLevel).map(copy),
+          })),
+      }));
+    },
+
+    async listFloors({ siteId, buildingId }) {
+      return [...floors.values()]
+        .filter(
+          (floor) =>
+            (!buildingId || floor.buildingId === buildingId) &&
+            (!siteId || buildings.get(floor.buildingId)?.siteId === siteId),
+        )
+        .sort(byLevel)
+        .map(copy);
+    },
+
+    async getSiteById(id) {
+      const site = sites.get(id);
+      return site ? copy(site) : null;
+    },
+
+    async createSite(data) {
+      if (isTaken(sites.values(), data.name)) throw taken();
+      const site: Site = { ...stamp(), name: data.name };
+      sites.set(site.id, site);
+      return copy(site);
+    },
+
+    async updateSite(id, data) {
+      const site = existing(sites, id);
+      if (isTaken(sites.values(), data.name, id)) throw taken();
+      const changed = { ...site, ...data, updatedAt: new Date() };
+      sites.set(id, changed);
+      return copy(changed);
+    },
+
+    async deleteSite(id) {
+      existing(sites, id);
+      if (buildingsOf(id).length) throw referenced();
+      sites.delete(id);
+    },
+
+    async countBuildings(siteId) {
+      return buildingsOf(siteId).length;
+    },
+
+    async getBuildingById(id) {
+      const building = buildings.get(id);
+      return building ? copy(building) : null;
+    },
+
+    async createBuilding(data) {
+      if (!sites.has(data.siteId)) throw referenced();
+      if (isTaken(buildingsOf(data.siteId), data.name)) throw taken();
+      const building: Building = { ...stamp(), ...data };
+      buildings.set(building.id, building);
+      return copy(building);
+    },
+
+    async updateBuilding(id, data) {
+      const building = existing(buildings, id);
+      if (isTaken(buildingsOf(building.siteId), data.name, id)) throw taken();
+      const changed = { ...building, ...data, updatedAt: new Date() };
+      buildings.set(id, changed);
+      return copy(changed);
+    },
+
+    async deleteBuilding(id) {
+      existing(buildings, id);
+      if (floorsOf(id).length) throw referenced();
+      buildings.delete(id);
+    },
+
+    async countFloors(buildingId) {
+      return floorsOf(buildingId).length;
+    },
+
+    async getFloorById(id) {
+      const floor = floors.get(id);
+      return floor ? copy(floor) : null;
+    },
+
+    async createFloor(data) {
+      if (!buildings.has(data.buildingId)) throw referenced();
+      if (isTaken(floorsOf(data.buildingId), data.name)) throw taken();
+      const floor: Floor = { ...stamp(), ...data };
+      floors.set(floor.id, floor);
+      return copy(floor);
+    },
+
+    async updateFloor(id, data) {
+      const floor = existing(floors, id);
+      if (
+        data.name !== undefined &&
+        isTaken(floorsOf(floor.buildingId), data.name, id)
+      )
+        throw taken();
+      const changed: Floor = {
+        ...floor,
+        name: data.name ?? floor.name,
+        level: data.level ?? floor.level,
+        updatedAt: new Date(),
+      };
+      floors.set(id, changed);
+      return copy(changed);
+    },
+
+    // spaces live in the space repository; the usecase checks for them
+    async deleteFloor(id) {
+      existing(floors, id);
+      floors.delete(id);
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import { storageConfig } from "../../config/storage.js";
+import { prismaLocationRepository } from "./repos/location.repo.js";
+import { createMemoryLocationRepository } from "./repos/memory-location.repo.js";
+import type { LocationRepository } from "./repos/location-repository.js";
+
+let repository: LocationRepository =
+  storageConfig.driver === "memory"
+    ? createMemoryLocationRepository()
+    : prismaLocationRepository;
+
+/** The location storage usecases work on, chosen by STORAGE_DRIVER. */
+export function locationRepository(): LocationRepository {
+  return repository;
+}
+
+/** Swaps the location storage, e.g. for a fresh in-memory one per test. */
+export function setLocationRepository(next: LocationRepository): void {
+  repository = next;
+}
@@ -0,0 +1,226 @@
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+// read when the storage config loads, before the app is imported
+vi.hoisted(() => {
+  process.env.STORAGE_DRIVER = "memory";
+});
+
+const { default: app } = await import("../../app.js");
+const { setLocationRepository } = await import("./repository.js");
+const { createMemoryLocationRepository } =
+  await import("./repos/memory-location.repo.js");
+const { setSpaceRepository, spaceRepository } =
+  await import("../space/repository.js");
+const { createMemorySpaceRepository } =
+  await import("../space/repos/memory-space.repo.js");
+const { setUserRepository, userRepository } =
+  await import("../auth/repository.js");
+const { createMemoryUserRepository } =
+  await import("../auth/repos/memory-user.repo.js");
+const { signToken } = await import("../auth/entity.js");
+
+let server: Server;
+let baseUrl: string;
+let admin: string;
+let member: string;
+
+beforeAll(async () => {
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(async () => {
+  setLocationRepository(createMemoryLocationRepository());
+  setSpaceRepository(createMemorySpaceRepository());
+  setUserRepository(createMemoryUserRepository());
+  const account = (email: string, role: "admin" | "member") =>
+    userRepository().createUser({ email, name: email, passwordHash: "", role });
+  admin = signToken(await account("admin@example.com", "admin"));
+  member = signToken(await account("member@example.com", "member"));
+});
+
+async function call(
+  method: string,
+  path: string,
+  options: { token?: string; body?: unknown } = {},
+) {
+  const { token = admin, body } = options;
+  const res = await fetch(`${baseUrl}/api/locations${path}`, {
+    method,
+    headers: {
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...(body !== undefined && { "Content-Type": "application/json" }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await res.text();
+  return { status: res.status, body: text ? JSON.parse(text) : undefined };
+}
+
+async function create(path: string, body: Record<string, unknown>) {
+  const res = await call("POST", path, { body });
+  expect(res.status).toBe(201);
+  return res.body;
+}
+
+// HQ > East > 3F
+async function createHierarchy() {
+  const site = await create("/sites", { name: "HQ" });
+  const building = await create("/buildings", {
+    siteId: site.id,
+    name: "East",
+  });
+  const floor = await create("/floors", {
+    buildingId: building.id,
+    name: "3F",
+    level: 3,
+  });
+  return { site, building, floor };
+}
+
+const context = { actorId: null, requestId: null };
+
+describe("location routes", () => {
+  it("GET / returns the tree with active spaces counted per floor", async () => {
+    const { site, building, floor } = await createHierarchy();
+    await create("/floors", { buildingId: building.id, name: "B1", level: -1 });
+    await spaceRepository().createSpace(
+      { name: "Room A", capacity: 4, floorId: floor.id },
+      context,
+    );
+    const trashed = await spaceRepository().createSpace(
+      { name: "Room B", capacity: 4, floorId: floor.id },
+      context,
+    );
+    await spaceRepository().softDeleteSpace(trashed.id, context);
+
+    const res = await call("GET", "/", { token: member });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject([
+      {
+        id: site.id,
+        name: "HQ",
+        buildings: [
+          {
+            id: building.id,
+            siteId: site.id,
+            floors: [
+              { name: "B1", level: -1, spaceCount: 0 },
+              { id: floor.id, name: "3F", level: 3, spaceCount: 1 },
+            ],
+          },
+        ],
+      },
+    ]);
+    expect((await call("GET", "/", { token: "" })).status).toBe(401);
+  });
+
+  it("creates and renames locations for managers only", async () => {
+    const { site, building, floor } = await createHierarchy();
+
+    expect(
+      (await call("PATCH", `/sites/${site.id}`, { body: { name: "Head" } }))
+        .body,
+    ).toMatchObject({ id: site.id, name: "Head" });
+    expect(
+      (
+        await call("PATCH", `/buildings/${building.id}`, {
+          body: { name: "East Wing" },
+        })
+      ).body,
+    ).toMatchObject({ name: "East Wing" });
+    expect(
+      (await call("PATCH", `/floors/${floor.id}`, { body: { level: 4 } })).body,
+    ).toMatchObject({ name: "3F", level: 4 });
+
+    expect(
+      (await call("POST", "/sites", { token: member, body: { name: "B" } }))
+        .status,
+    ).toBe(403);
+    expect(
+      (await call("PATCH", `/floors/${floor.id}`, { body: {} })).status,
+    ).toBe(400);
+    expect(
+      (await call("PATCH", "/sites/missing", { body: { name: "X" } })).status,
+    ).toBe(404);
+  });
+
+  it("rejects unknown parents and duplicate names", async () => {
+    const { site, building } = await createHierarchy();
+
+    const orphan = await call("POST", "/buildings", {
+      body: { siteId: "missing", name: "West" },
+    });
+    expect(orphan.status).toBe(400);
+    expect(orphan.body.details.fields).toHaveProperty("siteId");
+    expect(
+      (
+        await call("POST", "/floors", {
+          body: { buildingId: "missing", name: "1F" },
+        })
+      ).body.details.fields,
+    ).toHaveProperty("buildingId");
+
+    expect(
+      (await call("POST", "/sites", { body: { name: "HQ" } })).status,
+    ).toBe(409);
+    expect(
+      (
+        await call("POST", "/buildings", {
+          body: { siteId: site.id, name: "East" },
+        })
+      ).status,
+    ).toBe(409);
+    expect(
+      (
+        await call("POST", "/floors", {
+          body: { buildingId: building.id, name: "3F" },
+        })
+      ).status,
+    ).toBe(409);
+  });
+
+  it("deletes locations only once they are empty", async () => {
+    const { site, building, floor } = await createHierarchy();
+    const space = await spaceRepository().createSpace(
+      { name: "Room A", capacity: 4, floorId: floor.id },
+      context,
+    );
+    await spaceRepository().softDeleteSpace(space.id, context);
+
+    for (const path of [
+      `/sites/${site.id}`,
+      `/buildings/${building.id}`,
+      // trashed spaces still hold on to their floor
+      `/floors/${floor.id}`,
+    ]) {
+      const res = await call("DELETE", path);
+      expect(res.status).toBe(409);
+      expect(res.body.code).toBe("LOCATION_NOT_EMPTY");
+    }
+
+    await spaceRepository().purgeDeletedSpaces(new Date(Date.now() + 1000));
+    expect((await call("DELETE", `/floors/${floor.id}`)).status).toBe(204);
+    expect((await call("DELETE", `/buildings/${building.id}`)).status).toBe(
+      204,
+    );
+    expect((await call("DELETE", `/sites/${site.id}`)).status).toBe(204);
+    expect((await call("GET", "/")).body).toEqual([]);
+    expect((await call("DELETE", `/sites/${site.id}`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,75 @@
+import { Router } from "express";
+import { requireAuth, requireRole } from "../../middlewares/auth.js";
+import { validate } from "../../middlewares/validate.js";
+import {
+  createBuilding,
+  createFloor,
+  createSite,
+  deleteBuilding,
+  deleteFloor,
+  deleteSite,
+  getLocationTree,
+  updateBuilding,
+  updateFloor,
+  updateSite,
+} from "./controller.js";
+import {
+  CreateBuildingSchema,
+  CreateFloorSchema,
+  CreateSiteSchema,
+  LocationIdParamsSchema,
+  UpdateBuildingSchema,
+  UpdateFloorSchema,
+  UpdateSiteSchema,
+} from "./schema.js";
+
+export const locationRouter = Router();
+
+// any signed-in user may browse; only admins and managers change locations
+const canManage = requireRole("admin", "manager");
+
+const byId = validate({ params: LocationIdParamsSchema });
+
+locationRouter.get("/", requireAuth, getLocationTree);
+
+locationRouter.post(
+  "/sites",
+  canManage,
+  validate({ body: CreateSiteSchema }),
+  createSite,
+);
+locationRouter.patch(
+  "/sites/:id",
+  canManage,
+  validate({ params: LocationIdParamsSchema, body: UpdateSiteSchema }),
+  updateSite,
+);
+locationRouter.delete("/sites/:id", canManage, byId, deleteSite);
+
+locationRouter.post(
+  "/buildings",
+  canManage,
+  validate({ body: CreateBuildingSchema }),
+  createBuilding,
+);
+locationRouter.patch(
+  "/buildings/:id",
+  canManage,
+  validate({ params: LocationIdParamsSchema, body: UpdateBuildingSchema }),
+  updateBuilding,
+);
+locationRouter.delete("/buildings/:id", canManage, byId, deleteBuilding);
+
+locationRouter.post(
+  "/floors",
+  canManage,
+  validate({ body: CreateFloorSchema }),
+  createFloor,
+);
+locationRouter.patch(
+  "/floors/:id",
+  canManage,
+  validate({ params: LocationIdParamsSchema, body: UpdateFloorSchema }),
+  updateFloor,
+);
+locationRouter.delete("/floors/:id", canManage, byId, deleteFloor);
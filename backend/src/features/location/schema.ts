@@ -0,0 +1,109 @@
+import { z } from "zod";
+import { NAME_MAX_LENGTH } from "../../utils/schema.js";
+
+/**
+ * API shapes for the location hierarchy (Site > Building > Floor).
+ */
+
+const name = z
+  .string({
+    error: (issue) =>
+      issue.input === undefined ? "name is required" : "name must be a string",
+  })
+  .trim()
+  .min(1, "name cannot be empty")
+  .max(NAME_MAX_LENGTH, `name must be at most ${NAME_MAX_LENGTH} characters`);
+
+const parentId = (field: string) =>
+  z
+    .string({
+      error: (issue) =>
+        issue.input === undefined
+          ? `${field} is required`
+          : `${field} must be a string`,
+    })
+    .min(1, `${field} is required`);
+
+const level = z
+  .number({ error: "level must be a number" })
+  .int("level must be an integer");
+
+const atLeastOneField = (input: Record<string, unknown>) =>
+  Object.values(input).some((v) => v !== undefined);
+
+export const SiteSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+  })
+  .meta({ id: "Site" });
+
+export const BuildingSchema = z
+  .object({
+    id: z.string(),
+    siteId: z.string(),
+    name: z.string(),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+  })
+  .meta({ id: "Building" });
+
+export const FloorSchema = z
+  .object({
+    id: z.string(),
+    buildingId: z.string(),
+    name: z.string(),
+    // sort order within the building; negative for basements
+    level: z.number().int(),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+  })
+  .meta({ id: "Floor" });
+
+export const CreateSiteSchema = z
+  .object({ name })
+  .meta({ id: "CreateSiteInput" });
+
+export const UpdateSiteSchema = z
+  .object({ name })
+  .meta({ id: "UpdateSiteInput" });
+
+export const CreateBuildingSchema = z
+  .object({ siteId: parentId("siteId"), name })
+  .meta({ id: "CreateBuildingInput" });
+
+export const UpdateBuildingSchema = z
+  .object({ name })
+  .meta({ id: "UpdateBuildingInput" });
+
+export const CreateFloorSchema = z
+  .object({ buildingId: parentId("buildingId"), name, level: level.default(0) })
+  .meta({ id: "CreateFloorInput" });
+
+export const UpdateFloorSchema = z
+  .object({ name: name.optional(), level: level.optional() })
+  .refine(atLeastOneField, { message: "no fields to update" })
+  .meta({ id: "UpdateFloorInput" });
+
+export const LocationIdParamsSchema = z.object({
+  id: z.string().min(1, "id is required"),
+});
+
+export const LocationTreeSchema = z
+  .array(
+    SiteSchema.extend({
+      buildings: z.array(
+        BuildingSchema.extend({
+          floors: z.array(
+            FloorSchema.extend({
+              // active spaces only; trashed ones are not counted
+              spaceCount: z.number().int(),
+            }),
+          ),
+        }),
+      ),
+    }),
+  )
+  .meta({ id: "LocationTree" });
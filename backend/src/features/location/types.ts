@@ -0,0 +1,36 @@
+import type { z } from "zod";
+import type {
+  BuildingSchema,
+  CreateBuildingSchema,
+  CreateFloorSchema,
+  CreateSiteSchema,
+  FloorSchema,
+  LocationIdParamsSchema,
+  LocationTreeSchema,
+  SiteSchema,
+  UpdateBuildingSchema,
+  UpdateFloorSchema,
+  UpdateSiteSchema,
+} from "./schema.js";
+
+export type SiteDTO = z.output<typeof SiteSchema>;
+
+export type BuildingDTO = z.output<typeof BuildingSchema>;
+
+export type FloorDTO = z.output<typeof FloorSchema>;
+
+export type CreateSiteInput = z.output<typeof CreateSiteSchema>;
+
+export type UpdateSiteInput = z.output<typeof UpdateSiteSchema>;
+
+export type CreateBuildingInput = z.output<typeof CreateBuildingSchema>;
+
+export type UpdateBuildingInput = z.output<typeof UpdateBuildingSchema>;
+
+export type CreateFloorInput = z.output<typeof CreateFloorSchema>;
+
+export type UpdateFloorInput = z.output<typeof UpdateFloorSchema>;
+
+export type LocationIdParams = z.output<typeof LocationIdParamsSchema>;
+
+export type LocationTree = z.output<typeof LocationTreeSchema>;
@@ -0,0 +1,16 @@
+import { locationRepository } from "../repository.js";
+import { BuildingDTO, CreateBuildingInput } from "../types.js";
+import { toBuildingDTO } from "../entity.js";
+import { ValidationError } from "../../../utils/errors.js";
+
+export async function createBuildingUsecase(
+  input: CreateBuildingInput,
+): Promise<BuildingDTO> {
+  if (!(await locationRepository().getSiteById(input.siteId)))
+    throw ValidationError.field("siteId", "site not found");
+  const building = await locationRepository().createBuilding({
+    siteId: input.siteId,
+    name: input.name,
+  });
+  return toBuildingDTO(building);
+}
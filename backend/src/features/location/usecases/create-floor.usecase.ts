@@ -0,0 +1,17 @@
+import { locationRepository } from "../repository.js";
+import { CreateFloorInput, FloorDTO } from "../types.js";
+import { toFloorDTO } from "../entity.js";
+import { ValidationError } from "../../../utils/errors.js";
+
+export async function createFloorUsecase(
+  input: CreateFloorInput,
+): Promise<FloorDTO> {
+  if (!(await locationRepository().getBuildingById(input.buildingId)))
+    throw ValidationError.field("buildingId", "building not found");
+  const floor = await locationRepository().createFloor({
+    buildingId: input.buildingId,
+    name: input.name,
+    level: input.level,
+  });
+  return toFloorDTO(floor);
+}
@@ -0,0 +1,11 @@
+import { locationRepository } from "../repository.js";
+import { CreateSiteInput, SiteDTO } from "../types.js";
+import { toSiteDTO } from "../entity.js";
+
+export async function createSiteUsecase(
+  input: CreateSiteInput,
+): Promise<SiteDTO> {
+  // a duplicate name surfaces as a 409 from the repository
+  const site = await locationRepository().createSite({ name: input.name });
+  return toSiteDTO(site);
+}
@@ -0,0 +1,12 @@
+import { locationRepository } from "../repository.js";
+import { LocationNotEmptyError } from "../entity.js";
+
+export async function deleteBuildingUsecase(id: string): Promise<void> {
+  const floors = await locationRepository().countFloors(id);
+  if (floors > 0)
+    throw new LocationNotEmptyError(
+      `building still has ${floors} floor(s); delete them first`,
+    );
+  // a missing building surfaces as a 404 from the repository
+  await locationRepository().deleteBuilding(id);
+}
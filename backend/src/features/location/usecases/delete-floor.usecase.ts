@@ -0,0 +1,14 @@
+import { locationRepository } from "../repository.js";
+import { spaceRepository } from "../../space/repository.js";
+import { LocationNotEmptyError } from "../entity.js";
+
+export async function deleteFloorUsecase(id: string): Promise<void> {
+  // trashed spaces still belong to the floor until they are purged
+  const spaces = await spaceRepository().countFloorSpaces(id);
+  if (spaces > 0)
+    throw new LocationNotEmptyError(
+      `floor still has ${spaces} space(s), including any in the trash; move them first`,
+    );
+  // a missing floor surfaces as a 404 from the repository
+  await locationRepository().deleteFloor(id);
+}
@@ -0,0 +1,12 @@
+import { locationRepository } from "../repository.js";
+import { LocationNotEmptyError } from "../entity.js";
+
+export async function deleteSiteUsecase(id: string): Promise<void> {
+  const buildings = await locationRepository().countBuildings(id);
+  if (buildings > 0)
+    throw new LocationNotEmptyError(
+      `site still has ${buildings} building(s); delete them first`,
+    );
+  // a missing site surfaces as a 404 from the repository
+  await locationRepository().deleteSite(id);
+}
@@ -0,0 +1,22 @@
+import { locationRepository } from "../repository.js";
+import { spaceRepository } from "../../space/repository.js";
+import { LocationTree } from "../types.js";
+import { toBuildingDTO, toFloorDTO, toSiteDTO } from "../entity.js";
+
+/** Every site with its buildings and floors, for navigation and pickers. */
+export async function getLocationTreeUsecase(): Promise<LocationTree> {
+  const [sites, spaceCounts] = await Promise.all([
+    locationRepository().getLocationTree(),
+    spaceRepository().countSpacesByFloor(),
+  ]);
+  return sites.map((site) => ({
+    ...toSiteDTO(site),
+    buildings: site.buildings.map((building) => ({
+      ...toBuildingDTO(building),
+      floors: building.floors.map((floor) => ({
+        ...toFloorDTO(floor),
+        spaceCount: spaceCounts.get(floor.id) ?? 0,
+      })),
+    })),
+  }));
+}
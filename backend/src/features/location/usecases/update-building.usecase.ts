@@ -0,0 +1,17 @@
+import { locationRepository } from "../repository.js";
+import { spaceSearchIndex } from "../../space/search-index.js";
+import { BuildingDTO, UpdateBuildingInput } from "../types.js";
+import { toBuildingDTO } from "../entity.js";
+
+export async function updateBuildingUsecase(
+  id: string,
+  input: UpdateBuildingInput,
+): Promise<BuildingDTO> {
+  // a missing building surfaces as a 404 from the repository
+  const building = await locationRepository().updateBuilding(id, {
+    name: input.name,
+  });
+  // search results show the location names of spaces
+  spaceSearchIndex.invalidate();
+  return toBuildingDTO(building);
+}
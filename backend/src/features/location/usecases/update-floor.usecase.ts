@@ -0,0 +1,18 @@
+import { locationRepository } from "../repository.js";
+import { spaceSearchIndex } from "../../space/search-index.js";
+import { FloorDTO, UpdateFloorInput } from "../types.js";
+import { toFloorDTO } from "../entity.js";
+
+export async function updateFloorUsecase(
+  id: string,
+  input: UpdateFloorInput,
+): Promise<FloorDTO> {
+  // a missing floor surfaces as a 404 from the repository
+  const floor = await locationRepository().updateFloor(id, {
+    name: input.name,
+    level: input.level,
+  });
+  // search results show the location names of spaces
+  spaceSearchIndex.invalidate();
+  return toFloorDTO(floor);
+}
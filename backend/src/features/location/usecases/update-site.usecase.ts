@@ -0,0 +1,15 @@
+import { locationRepository } from "../repository.js";
+import { spaceSearchIndex } from "../../space/search-index.js";
+import { SiteDTO, UpdateSiteInput } from "../types.js";
+import { toSiteDTO } from "../entity.js";
+
+export async function updateSiteUsecase(
+  id: string,
+  input: UpdateSiteInput,
+): Promise<SiteDTO> {
+  // a missing site surfaces as a 404 from the repository
+  const site = await locationRepository().updateSite(id, { name: input.name });
+  // search results show the location names of spaces
+  spaceSearchIndex.invalidate();
+  return toSiteDTO(site);
+}
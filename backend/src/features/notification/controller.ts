@@ -0,0 +1,35 @@
+import { NextFunction, Request, Response } from "express";
+import { getPreferencesUsecase } from "./usecases/get-preferences.usecase.js";
+import { updatePreferencesUsecase } from "./usecases/update-preferences.usecase.js";
+import { UpdateNotificationPreferencesInput } from "./types.js";
+
+// body was parsed by validate() in routes.ts
+
+export async function getPreferences(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await getPreferencesUsecase(req.user!);
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function updatePreferences(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await updatePreferencesUsecase(
+      req.body as UpdateNotificationPreferencesInput,
+      req.user!,
+    );
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
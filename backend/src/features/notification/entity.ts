@@ -0,0 +1,36 @@
+import type { NotificationPreference } from "../../generated/prisma/client.js";
+import { NOTIFICATION_LOCALES } from "./schema.js";
+import { DOMAIN_EVENT_TYPES } from "../outbox/schema.js";
+import type { DomainEventType } from "../outbox/types.js";
+import { NotificationLocale, NotificationPreferencesDTO } from "./types.js";
+
+// what users who never saved their preferences get: nothing
+export const DEFAULT_PREFERENCES: NotificationPreferencesDTO = {
+  emailEnabled: false,
+  locale: "zh-TW",
+  events: [],
+};
+
+/** Drops values the current code no longer knows, e.g. a removed event type. */
+export function toPreferencesDTO(
+  preference: NotificationPreference | null,
+): NotificationPreferencesDTO {
+  if (!preference) return DEFAULT_PREFERENCES;
+  const events = Array.isArray(preference.events) ? preference.events : [];
+  return {
+    emailEnabled: preference.emailEnabled,
+    locale: NOTIFICATION_LOCALES.includes(
+      preference.locale as NotificationLocale,
+    )
+      ? (preference.locale as NotificationLocale)
+      : DEFAULT_PREFERENCES.locale,
+    events: DOMAIN_EVENT_TYPES.filter((type) => events.includes(type)),
+  };
+}
+
+export function wantsEmail(
+  preferences: NotificationPreferencesDTO,
+  type: DomainEventType,
+): boolean {
+  return preferences.emailEnabled && preferences.events.includes(type);
+}
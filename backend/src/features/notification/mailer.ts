@@ -0,0 +1,32 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import { mailConfig } from "../../config/mail.js";
+import type { EmailMessage } from "./types.js";
+
+let transporter: Transporter | null = null;
+
+// created on first use so the app starts without an SMTP server around
+function transport(): Transporter {
+  transporter ??= nodemailer.createTransport({
+    host: mailConfig.host,
+    port: mailConfig.port,
+    secure: mailConfig.secure,
+    auth: mailConfig.user
+      ? { user: mailConfig.user, pass: mailConfig.password }
+      : undefined,
+  });
+  return transporter;
+}
+
+export async function sendMail(to: string, message: EmailMessage) {
+  await transport().sendMail({
+    from: mailConfig.from,
+    to,
+    subject: message.subject,
+    text: message.text,
+  });
+}
+
+/** Checks that the SMTP server accepts connections (and credentials). */
+export async function verifyMailer() {
+  await transport().verify();
+}
@@ -0,0 +1,32 @@
+import { ErrorSchema, type OperationDoc } from "../../openapi/document.js";
+import {
+  NotificationPreferencesSchema,
+  UpdateNotificationPreferencesSchema,
+} from "./schema.js";
+
+const tags = ["Notifications"];
+
+export const notificationOperations: OperationDoc[] = [
+  {
+    method: "get",
+    path: "/api/notifications/preferences",
+    summary: "Get your notification preferences",
+    tags,
+    roles: [],
+    responses: {
+      200: { description: "OK", schema: NotificationPreferencesSchema },
+    },
+  },
+  {
+    method: "put",
+    path: "/api/notifications/preferences",
+    summary: "Replace your notification preferences",
+    tags,
+    roles: [],
+    body: UpdateNotificationPreferencesSchema,
+    responses: {
+      200: { description: "OK", schema: NotificationPreferencesSchema },
+      400: { description: "Invalid input", schema: ErrorSchema },
+    },
+  },
+];
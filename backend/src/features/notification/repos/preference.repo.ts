@@ -0,0 +1,38 @@
+import { prisma } from "../../../config/prisma.js";
+import type { NotificationPreferencesDTO } from "../types.js";
+
+export async function getPreference(userId: string) {
+  return prisma.notificationPreference.findUnique({ where: { userId } });
+}
+
+export async function savePreference(
+  userId: string,
+  data: NotificationPreferencesDTO,
+) {
+  return prisma.notificationPreference.upsert({
+    where: { userId },
+    create: { userId, ...data },
+    update: data,
+  });
+}
+
+/** Everyone who turned email on, with where to send it. */
+export async function listEmailSubscribers() {
+  return prisma.notificationPreference.findMany({
+    where: { emailEnabled: true },
+    include: { user: { select: { id: true, email: true } } },
+  });
+}
+
+/** Who was already emailed about the outbox event. */
+export async function listEmailedUserIds(eventId: string) {
+  const rows = await prisma.notificationEmail.findMany({
+    where: { eventId },
+    select: { userId: true },
+  });
+  return new Set(rows.map((row) => row.userId));
+}
+
+export async function recordEmailSent(eventId: string, userId: string) {
+  await prisma.notificationEmail.create({ data: { eventId, userId } });
+}
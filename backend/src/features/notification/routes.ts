@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { requireAuth } from "../../middlewares/auth.js";
+import { validate } from "../../middlewares/validate.js";
+import { getPreferences, updatePreferences } from "./controller.js";
+import { UpdateNotificationPreferencesSchema } from "./schema.js";
+
+export const notificationRouter = Router();
+
+notificationRouter.use(requireAuth);
+
+notificationRouter.get("/preferences", getPreferences);
+notificationRouter.put(
+  "/preferences",
+  validate({ body: UpdateNotificationPreferencesSchema }),
+  updatePreferences,
+);
@@ -0,0 +1,35 @@
+import { z } from "zod";
+import { DOMAIN_EVENT_TYPES } from "../outbox/schema.js";
+
+/**
+ * API shapes for notification preferences.
+ */
+
+export const NOTIFICATION_LOCALES = ["zh-TW", "en"] as const;
+
+export const NotificationPreferencesSchema = z
+  .object({
+    emailEnabled: z.boolean(),
+    locale: z.enum(NOTIFICATION_LOCALES),
+    // the event types to be emailed about
+    events: z.array(z.enum(DOMAIN_EVENT_TYPES)),
+  })
+  .meta({ id: "NotificationPreferences" });
+
+// replaces the preferences as a whole
+export const UpdateNotificationPreferencesSchema = z
+  .object({
+    emailEnabled: z.boolean({ error: "emailEnabled must be a boolean" }),
+    locale: z.enum(NOTIFICATION_LOCALES, {
+      error: `locale must be one of ${NOTIFICATION_LOCALES.join(", ")}`,
+    }),
+    events: z
+      .array(
+        z.enum(DOMAIN_EVENT_TYPES, {
+          error: `events must be among ${DOMAIN_EVENT_TYPES.join(", ")}`,
+        }),
+        { error: "events must be an array" },
+      )
+      .transform((events) => [...new Set(events)]),
+  })
+  .meta({ id: "UpdateNotificationPreferencesInput" });
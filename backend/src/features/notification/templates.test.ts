@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { renderEmail } from "./templates.js";
+
+const payload = {
+  spaceId: "s1",
+  name: "Room A",
+  changes: {
+    capacity: { from: 8, to: 12 },
+    floorId: { from: null, to: "f1" },
+  },
+  actorId: null,
+};
+
+describe("email templates", () => {
+  it("renders in the recipient's language", () => {
+    const event = { type: "space.created" as const, payload };
+    expect(renderEmail(event, "en", "http://app").subject).toBe(
+      '[Doublespot] New space "Room A"',
+    );
+    expect(renderEmail(event, "zh-TW", "http://app").subject).toBe(
+      "[Doublespot] 新增空間「Room A」",
+    );
+  });
+
+  it("lists the changed fields with a link to the space", () => {
+    const { text } = renderEmail(
+      { type: "space.updated", payload },
+      "en",
+      "http://app",
+    );
+    expect(text).toContain("- Capacity: 8 → 12");
+    expect(text).toContain("- Location: — → f1");
+    expect(text).toContain("http://app/spaces/s1");
+  });
+});
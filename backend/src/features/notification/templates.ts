@@ -0,0 +1,98 @@
+import type { AuditChanges } from "../audit/types.js";
+import type { DomainEvent, DomainEventType } from "../outbox/types.js";
+import { EmailMessage, NotificationLocale } from "./types.js";
+
+/** What the space repo puts in the payload of space.* events. */
+export type SpaceEventPayload = {
+  spaceId: string;
+  name: string;
+  changes: AuditChanges;
+  actorId: string | null;
+};
+
+type Template = (payload: SpaceEventPayload, link: string) => EmailMessage;
+
+const fieldLabels: Record<NotificationLocale, Record<string, string>> = {
+  "zh-TW": {
+    name: "名稱",
+    capacity: "容量",
+    externalKey: "外部代碼",
+    floorId: "位置",
+    requiresApproval: "需審核",
+    amenities: "設備",
+    deletedAt: "刪除時間",
+  },
+  en: {
+    name: "Name",
+    capacity: "Capacity",
+    externalKey: "External key",
+    floorId: "Location",
+    requiresApproval: "Requires approval",
+    amenities: "Amenities",
+    deletedAt: "Deleted at",
+  },
+};
+
+function describeChanges(changes: AuditChanges, locale: NotificationLocale) {
+  const show = (value: unknown) =>
+    value === null || value === "" ? "—" : String(value);
+  return Object.entries(changes)
+    .map(
+      ([field, { from, to }]) =>
+        `- ${fieldLabels[locale][field] ?? field}: ${show(from)} → ${show(to)}`,
+    )
+    .join("\n");
+}
+
+const templates: Record<
+  NotificationLocale,
+  Record<DomainEventType, Template>
+> = {
+  "zh-TW": {
+    "space.created": (p, link) => ({
+      subject: `[Doublespot] 新增空間「${p.name}」`,
+      text: `空間「${p.name}」已建立。\n\n${link}\n`,
+    }),
+    "space.updated": (p, link) => ({
+      subject: `[Doublespot] 空間「${p.name}」已更新`,
+      text: `空間「${p.name}」有以下變更：\n\n${describeChanges(p.changes, "zh-TW")}\n\n${link}\n`,
+    }),
+    "space.deleted": (p) => ({
+      subject: `[Doublespot] 空間「${p.name}」已刪除`,
+      text: `空間「${p.name}」已移到垃圾桶，保留期限內仍可復原。\n`,
+    }),
+    "space.restored": (p, link) => ({
+      subject: `[Doublespot] 空間「${p.name}」已復原`,
+      text: `空間「${p.name}」已從垃圾桶復原。\n\n${link}\n`,
+    }),
+  },
+  en: {
+    "space.created": (p, link) => ({
+      subject: `[Doublespot] New space "${p.name}"`,
+      text: `The space "${p.name}" was created.\n\n${link}\n`,
+    }),
+    "space.updated": (p, link) => ({
+      subject: `[Doublespot] Space "${p.name}" updated`,
+      text: `The space "${p.name}" changed:\n\n${describeChanges(p.changes, "en")}\n\n${link}\n`,
+    }),
+    "space.deleted": (p) => ({
+      subject: `[Doublespot] Space "${p.name}" deleted`,
+      text: `The space "${p.name}" was moved to the trash. It can be restored until the trash is emptied.\n`,
+    }),
+    "space.restored": (p, link) => ({
+      subject: `[Doublespot] Space "${p.name}" restored`,
+      text: `The space "${p.name}" was restored from the trash.\n\n${link}\n`,
+    }),
+  },
+};
+
+/** Renders the email about `event` in the recipient's language. */
+export function renderEmail(
+  event: Pick<DomainEvent, "type" | "payload">,
+  locale: NotificationLocale,
+  appUrl: string,
+): EmailMessage {
+  const payload = event.payload as SpaceEventPayload;
+  const link = `${appUrl}/spaces/${payload.spaceId}`;
+  return templates[locale][event.type](payload, link);
+}
@@ -0,0 +1,17 @@
+import type { z } from "zod";
+import type {
+  NotificationPreferencesSchema,
+  UpdateNotificationPreferencesSchema,
+} from "./schema.js";
+
+export type NotificationPreferencesDTO = z.output<
+  typeof NotificationPreferencesSchema
+>;
+
+export type NotificationLocale = NotificationPreferencesDTO["locale"];
+
+export type UpdateNotificationPreferencesInput = z.output<
+  typeof UpdateNotificationPreferencesSchema
+>;
+
+export type EmailMessage = { subject: string; text: string };
@@ -0,0 +1,10 @@
+import * as repo from "../repos/preference.repo.js";
+import { NotificationPreferencesDTO } from "../types.js";
+import { toPreferencesDTO } from "../entity.js";
+import type { AuthUser } from "../../auth/types.js";
+
+export async function getPreferencesUsecase(
+  actor: AuthUser,
+): Promise<NotificationPreferencesDTO> {
+  return toPreferencesDTO(await repo.getPreference(actor.id));
+}
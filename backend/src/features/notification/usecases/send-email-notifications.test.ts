@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// preferences live in MySQL and mail goes out over SMTP
+const store = vi.hoisted(() => ({ emailed: new Set<string>() }));
+vi.mock("../repos/preference.repo.js", () => ({
+  listEmailSubscribers: async () =>
+    ["u1", "u2", "u3"].map((userId) => ({
+      userId,
+      emailEnabled: true,
+      locale: "en",
+      events: ["space.created"],
+      updatedAt: new Date(),
+      user: { id: userId, email: `${userId}@example.com` },
+    })),
+  listEmailedUserIds: async () => new Set(store.emailed),
+  recordEmailSent: async (_eventId: string, userId: string) => {
+    store.emailed.add(userId);
+  },
+}));
+vi.mock("../mailer.js", () => ({ sendMail: vi.fn() }));
+
+const { sendMail } = await import("../mailer.js");
+const { sendEmailNotifications } =
+  await import("./send-email-notifications.usecase.js");
+
+const event = {
+  id: "evt-1",
+  type: "space.created" as const,
+  aggregateType: "space",
+  aggregateId: "s1",
+  payload: { actorId: "u3", space: { id: "s1", name: "Room A" } },
+  createdAt: new Date("2026-06-01T09:00:00.000Z"),
+};
+
+beforeEach(() => {
+  store.emailed.clear();
+  vi.mocked(sendMail).mockReset();
+});
+
+describe("sendEmailNotifications", () => {
+  it("emails every other recipient when one send fails, and only retries that one", async () => {
+    vi.mocked(sendMail).mockImplementation(async (to) => {
+      if (to === "u1@example.com") throw new Error("mailbox unavailable");
+    });
+
+    await expect(sendEmailNotifications(event)).rejects.toThrow(
+      "1 recipient(s)",
+    );
+    // u3 caused the event
+    expect(vi.mocked(sendMail).mock.calls.map(([to]) => to)).toEqual([
+      "u1@example.com",
+      "u2@example.com",
+    ]);
+
+    vi.mocked(sendMail).mockReset();
+    await sendEmailNotifications(event);
+    expect(vi.mocked(sendMail).mock.calls.map(([to]) => to)).toEqual([
+      "u1@example.com",
+    ]);
+    expect([...store.emailed].sort()).toEqual(["u1", "u2"]);
+  });
+});
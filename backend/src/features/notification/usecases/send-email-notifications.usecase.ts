@@ -0,0 +1,47 @@
+import * as repo from "../repos/preference.repo.js";
+import { toPreferencesDTO, wantsEmail } from "../entity.js";
+import { renderEmail } from "../templates.js";
+import { sendMail } from "../mailer.js";
+import type { OutboxHandler } from "../../outbox/types.js";
+import { mailConfig } from "../../../config/mail.js";
+import { logger } from "../../../utils/logger.js";
+
+/**
+ * Outbox handler: emails everyone subscribed to the event's type, except
+ * whoever caused it. Each recipient emailed is recorded; when some sends
+ * fail the event fails after trying everyone, and its retries only email
+ * the recipients not recorded yet.
+ */
+export const sendEmailNotifications: OutboxHandler = async (event) => {
+  const actorId = event.payload.actorId ?? null;
+  const subscribers = await repo.listEmailSubscribers();
+  const emailed = await repo.listEmailedUserIds(event.id);
+
+  let failed = 0;
+  for (const subscriber of subscribers) {
+    const preferences = toPreferencesDTO(subscriber);
+    if (
+      subscriber.userId === actorId ||
+      emailed.has(subscriber.userId) ||
+      !wantsEmail(preferences, event.type)
+    )
+      continue;
+    try {
+      await sendMail(
+        subscriber.user.email,
+        renderEmail(event, preferences.locale, mailConfig.appUrl),
+      );
+    } catch (err) {
+      failed++;
+      logger.warn("notification email failed", {
+        eventId: event.id,
+        userId: subscriber.userId,
+        error: err,
+      });
+      continue;
+    }
+    await repo.recordEmailSent(event.id, subscriber.userId);
+  }
+  if (failed > 0)
+    throw new Error(`notification email failed for ${failed} recipient(s)`);
+};
@@ -0,0 +1,14 @@
+import * as repo from "../repos/preference.repo.js";
+import {
+  NotificationPreferencesDTO,
+  UpdateNotificationPreferencesInput,
+} from "../types.js";
+import { toPreferencesDTO } from "../entity.js";
+import type { AuthUser } from "../../auth/types.js";
+
+export async function updatePreferencesUsecase(
+  input: UpdateNotificationPreferencesInput,
+  actor: AuthUser,
+): Promise<NotificationPreferencesDTO> {
+  return toPreferencesDTO(await repo.savePreference(actor.id, input));
+}
@@ -0,0 +1,35 @@
+import { NextFunction, Request, Response } from "express";
+import { listOutboxEventsUsecase } from "./usecases/list-outbox-events.usecase.js";
+import { retryOutboxEventUsecase } from "./usecases/retry-outbox-event.usecase.js";
+import { ListOutboxQuery, OutboxIdParams } from "./types.js";
+
+// params and query were parsed by validate() in routes.ts
+
+export async function listOutboxEvents(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await listOutboxEventsUsecase(
+      req.query as unknown as ListOutboxQuery,
+    );
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function retryOutboxEvent(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as OutboxIdParams;
+    const result = await retryOutboxEventUsecase(id);
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { afterFailure, retryDelayMs } from "./entity.js";
+
+const policy = { maxAttempts: 3, retryBaseMs: 1000, retryMaxMs: 5000 };
+const now = new Date("2026-04-21T09:00:00Z");
+
+describe("outbox entity", () => {
+  it("doubles the retry delay up to the maximum", () => {
+    expect([1, 2, 3, 4, 5].map((n) => retryDelayMs(n, 1000, 5000))).toEqual([
+      1000, 2000, 4000, 5000, 5000,
+    ]);
+  });
+
+  it("retries failed events later", () => {
+    expect(afterFailure(2, now, policy)).toEqual({
+      status: "pending",
+      nextAttemptAt: new Date("2026-04-21T09:00:02Z"),
+    });
+  });
+
+  it("dead-letters events that ran out of attempts", () => {
+    expect(afterFailure(3, now, policy).status).toBe("dead");
+  });
+});
@@ -0,0 +1,63 @@
+import type { OutboxEvent } from "../../generated/prisma/client.js";
+import { DomainEvent, DomainEventType, OutboxEventDTO } from "./types.js";
+
+export function toOutboxDTO(event: OutboxEvent): OutboxEventDTO {
+  return {
+    id: event.id,
+    type: event.type as DomainEventType,
+    aggregateType: event.aggregateType,
+    aggregateId: event.aggregateId,
+    payload: event.payload as Record<string, unknown>,
+    status: event.status,
+    attempts: event.attempts,
+    nextAttemptAt: event.nextAttemptAt.toISOString(),
+    lastError: event.lastError,
+    deliveredAt: event.deliveredAt?.toISOString() ?? null,
+    createdAt: event.createdAt.toISOString(),
+  };
+}
+
+export function toDomainEvent(
+  event: OutboxEvent,
+): DomainEvent & { id: string; createdAt: Date } {
+  return {
+    id: event.id,
+    type: event.type as DomainEventType,
+    aggregateType: event.aggregateType,
+    aggregateId: event.aggregateId,
+    payload: event.payload as Record<string, unknown>,
+    createdAt: event.createdAt,
+  };
+}
+
+/**
+ * Exponential backoff: `baseMs` after the first failure, doubling after
+ * each one after that, never more than `maxMs`.
+ */
+export function retryDelayMs(
+  attempts: number,
+  baseMs: number,
+  maxMs: number,
+): number {
+  return Math.min(baseMs * 2 ** Math.max(attempts - 1, 0), maxMs);
+}
+
+/**
+ * What becomes of an event whose delivery just failed for the
+ * `attempts`-th time: retried later, or dead-lettered once out of attempts.
+ */
+export function afterFailure(
+  attempts: number,
+  now: Date,
+  policy: { maxAttempts: number; retryBaseMs: number; retryMaxMs: number },
+): { status: "pending" | "dead"; nextAttemptAt: Date } {
+  if (attempts >= policy.maxAttempts)
+    return { status: "dead", nextAttemptAt: now };
+  return {
+    status: "pending",
+    nextAttemptAt: new Date(
+      now.getTime() +
+        retryDelayMs(attempts, policy.retryBaseMs, policy.retryMaxMs),
+    ),
+  };
+}
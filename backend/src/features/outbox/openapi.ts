@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { ErrorSchema, type OperationDoc } from "../../openapi/document.js";
+import {
+  ListOutboxQuerySchema,
+  OutboxEventSchema,
+  OutboxIdParamsSchema,
+} from "./schema.js";
+
+const tags = ["Outbox"];
+
+export const outboxOperations: OperationDoc[] = [
+  {
+    method: "get",
+    path: "/api/outbox",
+    summary: "List domain events and their delivery state, newest first",
+    tags,
+    roles: ["admin"],
+    query: ListOutboxQuerySchema,
+    responses: {
+      200: { description: "OK", schema: z.array(OutboxEventSchema) },
+    },
+  },
+  {
+    method: "post",
+    path: "/api/outbox/:id/retry",
+    summary: "Requeue a dead-lettered event",
+    tags,
+    roles: ["admin"],
+    params: OutboxIdParamsSchema,
+    responses: {
+      200: { description: "Requeued", schema: OutboxEventSchema },
+      404: { description: "Event not found", schema: ErrorSchema },
+      409: { description: "The event is not dead", schema: ErrorSchema },
+    },
+  },
+];
@@ -0,0 +1,90 @@
+import { prisma } from "../../../config/prisma.js";
+import type { OutboxStatus, Prisma } from "../../../generated/prisma/client.js";
+import type { DomainEvent } from "../types.js";
+
+/**
+ * Queues an event with the caller's transaction client, so it is published
+ * if and only if the change it describes commits.
+ */
+export async function enqueueEvent(
+  tx: Prisma.TransactionClient,
+  event: DomainEvent,
+) {
+  return tx.outboxEvent.create({
+    data: {
+      type: event.type,
+      aggregateType: event.aggregateType,
+      aggregateId: event.aggregateId,
+      payload: event.payload as Prisma.InputJsonObject,
+    },
+  });
+}
+
+/** Oldest first, so events about one aggregate go out in order. */
+export async function listDueEvents(now: Date, limit: number) {
+  return prisma.outboxEvent.findMany({
+    where: { status: "pending", nextAttemptAt: { lte: now } },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    take: limit,
+  });
+}
+
+/**
+ * Leases a due event to this dispatcher until `leaseUntil`; returns false
+ * when another dispatcher got to it first.
+ */
+export async function claimEvent(id: string, now: Date, leaseUntil: Date) {
+  const { count } = await prisma.outboxEvent.updateMany({
+    where: { id, status: "pending", nextAttemptAt: { lte: now } },
+    data: { nextAttemptAt: leaseUntil },
+  });
+  return count === 1;
+}
+
+export async function markDelivered(id: string, now: Date) {
+  return prisma.outboxEvent.update({
+    where: { id },
+    data: {
+      status: "delivered",
+      attempts: { increment: 1 },
+      deliveredAt: now,
+      lastError: null,
+    },
+  });
+}
+
+export async function markFailed(
+  id: string,
+  failure: {
+    attempts: number;
+    status: OutboxStatus;
+    nextAttemptAt: Date;
+    lastError: string;
+  },
+) {
+  return prisma.outboxEvent.update({ where: { id }, data: failure });
+}
+
+export async function getEventById(id: string) {
+  return prisma.outboxEvent.findUnique({ where: { id } });
+}
+
+export async function listEvents(filter: {
+  status?: OutboxStatus;
+  limit: number;
+}) {
+  return prisma.outboxEvent.findMany({
+    where: { status: filter.status },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: filter.limit,
+  });
+}
+
+/** Gives a dead-lettered event a fresh set of attempts. */
+export async function requeueEvent(id: string, now: Date) {
+  const { count } = await prisma.outboxEvent.updateMany({
+    where: { id, status: "dead" },
+    data: { status: "pending", attempts: 0, nextAttemptAt: now },
+  });
+  return count === 1;
+}
@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { requireRole } from "../../middlewares/auth.js";
+import { validate } from "../../middlewares/validate.js";
+import { listOutboxEvents, retryOutboxEvent } from "./controller.js";
+import { ListOutboxQuerySchema, OutboxIdParamsSchema } from "./schema.js";
+
+export const outboxRouter = Router();
+
+outboxRouter.use(requireRole("admin"));
+
+outboxRouter.get(
+  "/",
+  validate({ query: ListOutboxQuerySchema }),
+  listOutboxEvents,
+);
+outboxRouter.post(
+  "/:id/retry",
+  validate({ params: OutboxIdParamsSchema }),
+  retryOutboxEvent,
+);
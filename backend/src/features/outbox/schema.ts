@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+/**
+ * API shapes for the domain-event outbox.
+ */
+
+export const OUTBOX_STATUSES = ["pending", "delivered", "dead"] as const;
+
+// every event the space usecases publish, named <aggregate>.<past tense>
+export const DOMAIN_EVENT_TYPES = [
+  "space.created",
+  "space.updated",
+  "space.deleted",
+  "space.restored",
+] as const;
+
+export const OUTBOX_PAGE_MAX_LIMIT = 100;
+
+export const OutboxEventSchema = z
+  .object({
+    id: z.string(),
+    type: z.enum(DOMAIN_EVENT_TYPES),
+    aggregateType: z.string(),
+    aggregateId: z.string(),
+    payload: z.record(z.string(), z.unknown()),
+    status: z.enum(OUTBOX_STATUSES),
+    attempts: z.number().int(),
+    nextAttemptAt: z.iso.datetime(),
+    lastError: z.string().nullable(),
+    deliveredAt: z.iso.datetime().nullable(),
+    createdAt: z.iso.datetime(),
+  })
+  .meta({ id: "OutboxEvent" });
+
+// newest first
+export const ListOutboxQuerySchema = z.object({
+  status: z
+    .enum(OUTBOX_STATUSES, {
+      error: `status must be one of ${OUTBOX_STATUSES.join(", ")}`,
+    })
+    .optional(),
+  limit: z.coerce
+    .number({ error: "limit must be a number" })
+    .int("limit must be an integer")
+    .min(1, "limit must be at least 1")
+    .max(
+      OUTBOX_PAGE_MAX_LIMIT,
+      `limit must be at most ${OUTBOX_PAGE_MAX_LIMIT}`,
+    )
+    .default(50),
+});
+
+export const OutboxIdParamsSchema = z.object({
+  id: z.string().min(1, "id is required"),
+});
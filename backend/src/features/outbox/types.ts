@@ -0,0 +1,27 @@
+import type { z } from "zod";
+import type {
+  ListOutboxQuerySchema,
+  OutboxEventSchema,
+  OutboxIdParamsSchema,
+} from "./schema.js";
+
+export type OutboxEventDTO = z.output<typeof OutboxEventSchema>;
+
+export type DomainEventType = OutboxEventDTO["type"];
+
+export type ListOutboxQuery = z.output<typeof ListOutboxQuerySchema>;
+
+export type OutboxIdParams = z.output<typeof OutboxIdParamsSchema>;
+
+/** What a usecase publishes; the outbox adds the delivery bookkeeping. */
+export type DomainEvent = {
+  type: DomainEventType;
+  aggregateType: string;
+  aggregateId: string;
+  payload: Record<string, unknown>;
+};
+
+/** Delivers one event; throws to have it retried later. */
+export type OutboxHandler = (
+  event: DomainEvent & { id: string; createdAt: Date },
+) => Promise<void>;
@@ -0,0 +1,50 @@
+import * as repo from "../repos/outbox.repo.js";
+import { afterFailure, toDomainEvent } from "../entity.js";
+import type { OutboxHandler } from "../types.js";
+import { sendEmailNotifications } from "../../notification/usecases/send-email-notifications.usecase.js";
+import { enqueueWebhookDeliveries } from "../../webhook/usecases/enqueue-webhook-deliveries.usecase.js";
+import { outboxConfig } from "../../../config/outbox.js";
+
+// every handler sees every event; they skip the types they do not care about
+const handlers: OutboxHandler[] = [
+  enqueueWebhookDeliveries,
+  sendEmailNotifications,
+];
+
+export type DispatchResult = {
+  delivered: number;
+  retried: number;
+  dead: number;
+};
+
+/**
+ * Delivers the due events, oldest first. Delivery is at least once: an
+ * event is retried as a whole when any handler throws, so handlers must
+ * tolerate seeing an event again.
+ */
+export async function dispatchOutboxUsecase(
+  now = new Date(),
+): Promise<DispatchResult> {
+  const result: DispatchResult = { delivered: 0, retried: 0, dead: 0 };
+  const due = await repo.listDueEvents(now, outboxConfig.batchSize);
+  const leaseUntil = new Date(now.getTime() + outboxConfig.leaseMs);
+
+  for (const event of due) {
+    if (!(await repo.claimEvent(event.id, now, leaseUntil))) continue;
+    try {
+      for (const handle of handlers) await handle(toDomainEvent(event));
+      await repo.markDelivered(event.id, new Date());
+      result.delivered++;
+    } catch (err) {
+      const attempts = event.attempts + 1;
+      const next = afterFailure(attempts, new Date(), outboxConfig);
+      await repo.markFailed(event.id, {
+        attempts,
+        ...next,
+        lastError: err instanceof Error ? err.message : String(err),
+      });
+      result[next.status === "dead" ? "dead" : "retried"]++;
+    }
+  }
+  return result;
+}
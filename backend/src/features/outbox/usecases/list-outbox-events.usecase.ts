@@ -0,0 +1,10 @@
+import * as repo from "../repos/outbox.repo.js";
+import { ListOutboxQuery, OutboxEventDTO } from "../types.js";
+import { toOutboxDTO } from "../entity.js";
+
+export async function listOutboxEventsUsecase(
+  query: ListOutboxQuery,
+): Promise<OutboxEventDTO[]> {
+  const events = await repo.listEvents(query);
+  return events.map(toOutboxDTO);
+}
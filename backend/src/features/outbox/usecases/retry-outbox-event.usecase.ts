@@ -0,0 +1,16 @@
+import * as repo from "../repos/outbox.repo.js";
+import { OutboxEventDTO } from "../types.js";
+import { toOutboxDTO } from "../entity.js";
+import { ConflictError, NotFoundError } from "../../../utils/errors.js";
+
+/** Puts a dead-lettered event back in line, e.g. after fixing SMTP. */
+export async function retryOutboxEventUsecase(
+  id: string,
+  now = new Date(),
+): Promise<OutboxEventDTO> {
+  const event = await repo.getEventById(id);
+  if (!event) throw new NotFoundError("outbox event not found");
+  if (!(await repo.requeueEvent(id, now)))
+    throw new ConflictError(`outbox event is ${event.status}, not dead`);
+  return toOutboxDTO((await repo.getEventById(id))!);
+}
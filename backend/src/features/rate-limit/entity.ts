@@ -0,0 +1,29 @@
+import type { RateLimitHit } from "./types.js";
+
+/** Signed-in users are limited per account, everyone else per address. */
+export function clientIdOf(
+  user: { id: string } | undefined,
+  ip: string | undefined,
+): string {
+  return user ? `user:${user.id}` : `ip:${ip ?? "unknown"}`;
+}
+
+/**
+ * RateLimit-* headers (IETF httpapi-ratelimit-headers draft) for a hit;
+ * the reset is in seconds from now, as is Retry-After.
+ */
+export function rateLimitHeaders(
+  limit: number,
+  hit: RateLimitHit,
+  now: Date,
+): Record<string, string> {
+  const resetSeconds = Math.max(
+    0,
+    Math.ceil((hit.resetAt.getTime() - now.getTime()) / 1000),
+  );
+  return {
+    "RateLimit-Limit": String(limit),
+    "RateLimit-Remaining": String(Math.max(0, limit - hit.count)),
+    "RateLimit-Reset": String(resetSeconds),
+  };
+}
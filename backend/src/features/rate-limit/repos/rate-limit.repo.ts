@@ -0,0 +1,24 @@
+import { prisma } from "../../../config/prisma.js";
+import type { RateLimitStore } from "../types.js";
+
+/**
+ * Keeps counts in the RateLimitCounter table, shared by all instances. The
+ * upsert restarts an ended window or counts into the current one in a
+ * single statement, so concurrent requests are never lost.
+ */
+export const mysqlRateLimitStore: RateLimitStore = {
+  async hit(key, windowMs, now) {
+    const resetAt = new Date(now.getTime() + windowMs);
+    // MySQL assigns left to right, so resetAt is still the old value when
+    // count is computed
+    await prisma.$executeRaw`
+      INSERT INTO RateLimitCounter (\`key\`, count, resetAt)
+      VALUES (${key}, 1, ${resetAt})
+      ON DUPLICATE KEY UPDATE
+        count = IF(resetAt <= ${now}, 1, count + 1),
+        resetAt = IF(resetAt <= ${now}, ${resetAt}, resetAt)`;
+    const { count, resetAt: windowEnd } =
+      await prisma.rateLimitCounter.findUniqueOrThrow({ where: { key } });
+    return { count, resetAt: windowEnd };
+  },
+};
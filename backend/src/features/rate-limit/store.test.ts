@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { createMemoryRateLimitStore } from "./store.js";
+import { clientIdOf, rateLimitHeaders } from "./entity.js";
+
+const now = new Date("2026-05-05T09:00:00.000Z");
+const later = (ms: number) => new Date(now.getTime() + ms);
+
+describe("memory rate limit store", () => {
+  it("counts hits per key within a window", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.hit("a", 60_000, now);
+    const hit = await store.hit("a", 60_000, later(1000));
+    expect(hit).toEqual({ count: 2, resetAt: later(60_000) });
+    expect((await store.hit("b", 60_000, now)).count).toBe(1);
+  });
+
+  it("starts a new window once the last one ended", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.hit("a", 60_000, now);
+    await store.hit("a", 60_000, now);
+    const hit = await store.hit("a", 60_000, later(60_000));
+    expect(hit).toEqual({ count: 1, resetAt: later(120_000) });
+  });
+});
+
+describe("rate limit entity", () => {
+  it("reports the limit, what is left and seconds to the reset", () => {
+    expect(
+      rateLimitHeaders(10, { count: 3, resetAt: later(12_500) }, now),
+    ).toEqual({
+      "RateLimit-Limit": "10",
+      "RateLimit-Remaining": "7",
+      "RateLimit-Reset": "13",
+    });
+    expect(
+      rateLimitHeaders(10, { count: 12, resetAt: later(1000) }, now)[
+        "RateLimit-Remaining"
+      ],
+    ).toBe("0");
+  });
+
+  it("keys signed-in users by account and others by address", () => {
+    expect(clientIdOf({ id: "u1" }, "10.0.0.1")).toBe("user:u1");
+    expect(clientIdOf(undefined, "10.0.0.1")).toBe("ip:10.0.0.1");
+  });
+});
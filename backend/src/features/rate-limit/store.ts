@@ -0,0 +1,28 @@
+import type { RateLimitHit, RateLimitStore } from "./types.js";
+
+// windows are only swept once this many clients have been seen
+const SWEEP_THRESHOLD = 1000;
+
+/** Keeps counts in this process; each instance limits on its own. */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, RateLimitHit>();
+
+  const sweep = (now: Date) => {
+    for (const [key, window] of windows)
+      if (window.resetAt <= now) windows.delete(key);
+  };
+
+  return {
+    async hit(key, windowMs, now) {
+      const current = windows.get(key);
+      if (current && current.resetAt > now) {
+        current.count++;
+        return { ...current };
+      }
+      if (windows.size >= SWEEP_THRESHOLD) sweep(now);
+      const started = { count: 1, resetAt: new Date(now.getTime() + windowMs) };
+      windows.set(key, started);
+      return { ...started };
+    },
+  };
+}
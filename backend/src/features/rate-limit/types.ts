@@ -0,0 +1,14 @@
+/** A client's request count in the current fixed window. */
+export type RateLimitHit = {
+  count: number;
+  resetAt: Date;
+};
+
+/**
+ * Where request counts live: in process for a single instance, or in the
+ * database so that instances share one budget per client.
+ */
+export type RateLimitStore = {
+  /** Counts one request for `key`, starting a new window if the last ended. */
+  hit(key: string, windowMs: number, now: Date): Promise<RateLimitHit>;
+};
@@ -0,0 +1,36 @@
+import * as approverRepo from "./repos/approver.repo.js";
+import { userRepository } from "../auth/repository.js";
+import type { AuthUser } from "../auth/types.js";
+import { ApprovalRequiredError } from "./entity.js";
+import { ForbiddenError } from "../../utils/errors.js";
+
+/** Admins decide on every space; others only where they are designated. */
+export async function canDecide(
+  spaceId: string,
+  actor: Pick<AuthUser, "id" | "role">,
+): Promise<boolean> {
+  if (actor.role === "admin") return true;
+  return approverRepo.isDesignatedApprover(spaceId, actor.id);
+}
+
+export async function assertCanDecide(
+  spaceId: string,
+  actor: Pick<AuthUser, "id" | "role">,
+) {
+  if (!(await canDecide(spaceId, actor)))
+    throw new ForbiddenError("not an approver of this space");
+}
+
+/**
+ * Spaces that require approval only take direct bookings from the people
+ * who could approve them; everyone else has to request a reservation.
+ */
+export async function assertCanBookDirectly(
+  space: { id: string; requiresApproval: boolean },
+  userId: string | undefined,
+) {
+  if (!space.requiresApproval) return;
+  const user = userId ? await userRepository().getUserById(userId) : null;
+  if (!user || !(await canDecide(space.id, user)))
+    throw new ApprovalRequiredError();
+}
@@ -0,0 +1,132 @@
+import { NextFunction, Request, Response } from "express";
+import { createReservationUsecase } from "./usecases/create-reservation.usecase.js";
+import { listReservationsUsecase } from "./usecases/list-reservations.usecase.js";
+import { getReservationUsecase } from "./usecases/get-reservation.usecase.js";
+import { approveReservationUsecase } from "./usecases/approve-reservation.usecase.js";
+import { rejectReservationUsecase } from "./usecases/reject-reservation.usecase.js";
+import { listApproversUsecase } from "./usecases/list-approvers.usecase.js";
+import { updateApproversUsecase } from "./usecases/update-approvers.usecase.js";
+import {
+  ApproveReservationInput,
+  CreateReservationInput,
+  ListReservationsQuery,
+  RejectReservationInput,
+  ReservationIdParams,
+  UpdateApproversInput,
+} from "./types.js";
+import type { SpaceIdParams } from "../space/types.js";
+
+// body, params and query were parsed by validate() in routes.ts
+
+export async function listReservations(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await listReservationsUsecase(
+      req.query as unknown as ListReservationsQuery,
+      req.user!,
+    );
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function createReservation(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await createReservationUsecase(
+      req.body as CreateReservationInput,
+      req.user!,
+    );
+    return res.status(201).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function getReservation(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as ReservationIdParams;
+    const result = await getReservationUsecase(id, req.user!);
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function approveReservation(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as ReservationIdParams;
+    const result = await approveReservationUsecase(
+      id,
+      req.body as ApproveReservationInput,
+      req.user!,
+    );
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function rejectReservation(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as ReservationIdParams;
+    const result = await rejectReservationUsecase(
+      id,
+      req.body as RejectReservationInput,
+      req.user!,
+    );
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function listApprovers(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as SpaceIdParams;
+    const result = await listApproversUsecase(id);
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function updateApprovers(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as SpaceIdParams;
+    const result = await updateApproversUsecase(
+      id,
+      req.body as UpdateApproversInput,
+    );
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { reservationExpiry } from "./entity.js";
+
+const HOUR = 3_600_000;
+const now = new Date("2026-04-14T09:00:00Z");
+
+describe("reservation entity", () => {
+  it("holds the slot for the approval timeout", () => {
+    const startAt = new Date("2026-04-20T09:00:00Z");
+    expect(reservationExpiry(startAt, now, 72 * HOUR)).toEqual(
+      new Date("2026-04-17T09:00:00Z"),
+    );
+  });
+
+  it("stops holding the slot once it begins", () => {
+    const startAt = new Date("2026-04-14T13:00:00Z");
+    expect(reservationExpiry(startAt, now, 72 * HOUR)).toEqual(startAt);
+  });
+});
@@ -0,0 +1,53 @@
+import type { Reservation, User } from "../../generated/prisma/client.js";
+import { ApproverDTO, ReservationDTO } from "./types.js";
+import { AppError } from "../../utils/errors.js";
+
+/** Raised when booking a space that requires approval without being its approver. */
+export class ApprovalRequiredError extends AppError {
+  readonly status = 403;
+  readonly code = "APPROVAL_REQUIRED";
+
+  constructor(
+    message = "this space requires approval; request a reservation instead",
+  ) {
+    super(message);
+  }
+}
+
+export function toReservationDTO(reservation: Reservation): ReservationDTO {
+  return {
+    id: reservation.id,
+    spaceId: reservation.spaceId,
+    userId: reservation.userId,
+    title: reservation.title,
+    attendees: reservation.attendees,
+    startAt: reservation.startAt.toISOString(),
+    endAt: reservation.endAt.toISOString(),
+    status: reservation.status,
+    expiresAt: reservation.expiresAt.toISOString(),
+    reason: reservation.reason,
+    decidedById: reservation.decidedById,
+    decidedAt: reservation.decidedAt?.toISOString() ?? null,
+    bookingId: reservation.bookingId,
+    createdAt: reservation.createdAt.toISOString(),
+    updatedAt: reservation.updatedAt.toISOString(),
+  };
+}
+
+export function toApproverDTO(
+  user: Pick<User, "id" | "name" | "email">,
+): ApproverDTO {
+  return { id: user.id, name: user.name, email: user.email };
+}
+
+/**
+ * An undecided request stops holding its slot after `timeoutMs`, or when
+ * the slot begins if that comes first.
+ */
+export function reservationExpiry(
+  startAt: Date,
+  now: Date,
+  timeoutMs: number,
+): Date {
+  return new Date(Math.min(startAt.getTime(), now.getTime() + timeoutMs));
+}
@@ -0,0 +1,129 @@
+import { z } from "zod";
+import { ErrorSchema, type OperationDoc } from "../../openapi/document.js";
+import {
+  ApproveReservationSchema,
+  ApproverSchema,
+  CreateReservationSchema,
+  ListReservationsQuerySchema,
+  RejectReservationSchema,
+  ReservationIdParamsSchema,
+  ReservationSchema,
+  UpdateApproversSchema,
+} from "./schema.js";
+import { SpaceIdParamsSchema } from "../space/schema.js";
+
+const tags = ["Reservations"];
+
+const decided = {
+  403: { description: "Not an approver of this space", schema: ErrorSchema },
+  404: { description: "Reservation not found", schema: ErrorSchema },
+  409: {
+    description: "The request was already decided or has expired",
+    schema: ErrorSchema,
+  },
+};
+
+export const reservationOperations: OperationDoc[] = [
+  {
+    method: "get",
+    path: "/api/reservations",
+    summary: "List your reservation requests, or those awaiting your decision",
+    tags,
+    roles: [],
+    query: ListReservationsQuerySchema,
+    responses: {
+      200: { description: "OK", schema: z.array(ReservationSchema) },
+    },
+  },
+  {
+    method: "post",
+    path: "/api/reservations",
+    summary: "Request a slot in a space that requires approval",
+    tags,
+    roles: [],
+    body: CreateReservationSchema,
+    responses: {
+      201: { description: "Pending", schema: ReservationSchema },
+      400: {
+        description: "Invalid input, or the space takes direct bookings",
+        schema: ErrorSchema,
+      },
+      404: { description: "Space not found", schema: ErrorSchema },
+      409: {
+        description: "The slot is taken or held by another request",
+        schema: ErrorSchema,
+      },
+      422: {
+        description: "The slot breaks the space's booking rules",
+        schema: ErrorSchema,
+      },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/reservations/:id",
+    summary: "Get a reservation request",
+    tags,
+    roles: [],
+    params: ReservationIdParamsSchema,
+    responses: {
+      200: { description: "OK", schema: ReservationSchema },
+      404: { description: "Reservation not found", schema: ErrorSchema },
+    },
+  },
+  {
+    method: "post",
+    path: "/api/reservations/:id/approve",
+    summary: "Approve a pending request, booking its slot",
+    tags,
+    roles: [],
+    params: ReservationIdParamsSchema,
+    body: ApproveReservationSchema,
+    responses: {
+      200: { description: "Approved", schema: ReservationSchema },
+      ...decided,
+    },
+  },
+  {
+    method: "post",
+    path: "/api/reservations/:id/reject",
+    summary: "Reject a pending request, releasing its slot",
+    tags,
+    roles: [],
+    params: ReservationIdParamsSchema,
+    body: RejectReservationSchema,
+    responses: {
+      200: { description: "Rejected", schema: ReservationSchema },
+      ...decided,
+    },
+  },
+  {
+    method: "get",
+    path: "/api/spaces/:id/approvers",
+    summary: "List the space's designated approvers",
+    tags,
+    roles: [],
+    params: SpaceIdParamsSchema,
+    responses: {
+      200: { description: "OK", schema: z.array(ApproverSchema) },
+      404: { description: "Space not found", schema: ErrorSchema },
+    },
+  },
+  {
+    method: "put",
+    path: "/api/spaces/:id/approvers",
+    summary: "Replace the space's designated approvers",
+    tags,
+    roles: ["admin", "manager"],
+    params: SpaceIdParamsSchema,
+    body: UpdateApproversSchema,
+    responses: {
+      200: { description: "OK", schema: z.array(ApproverSchema) },
+      400: {
+        description: "Invalid input or unknown emails",
+        schema: ErrorSchema,
+      },
+      404: { description: "Space not found", schema: ErrorSchema },
+    },
+  },
+];
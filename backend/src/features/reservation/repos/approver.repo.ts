@@ -0,0 +1,45 @@
+import { prisma } from "../../../config/prisma.js";
+
+const approverFields = { id: true, name: true, email: true } as const;
+
+export async function listApprovers(spaceId: string) {
+  const rows = await prisma.spaceApprover.findMany({
+    where: { spaceId },
+    include: { user: { select: approverFields } },
+    orderBy: { createdAt: "asc" },
+  });
+  return rows.map((row) => row.user);
+}
+
+export async function findUsersByEmails(emails: string[]) {
+  return prisma.user.findMany({
+    where: { email: { in: emails } },
+    select: approverFields,
+  });
+}
+
+/** Replaces the approvers of a space. */
+export async function setApprovers(spaceId: string, userIds: string[]) {
+  await prisma.$transaction([
+    prisma.spaceApprover.deleteMany({ where: { spaceId } }),
+    prisma.spaceApprover.createMany({
+      data: userIds.map((userId) => ({ spaceId, userId })),
+    }),
+  ]);
+}
+
+/** Ids of the spaces the user is a designated approver of. */
+export async function listApprovedSpaceIds(userId: string) {
+  const rows = await prisma.spaceApprover.findMany({
+    where: { userId },
+    select: { spaceId: true },
+  });
+  return rows.map((row) => row.spaceId);
+}
+
+export async function isDesignatedApprover(spaceId: string, userId: string) {
+  const row = await prisma.spaceApprover.findUnique({
+    where: { spaceId_userId: { spaceId, userId } },
+  });
+  return row !== null;
+}
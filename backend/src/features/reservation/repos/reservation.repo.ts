@@ -0,0 +1,63 @@
+import { prisma } from "../../../config/prisma.js";
+import type {
+  Prisma,
+  ReservationStatus,
+} from "../../../generated/prisma/client.js";
+
+export async function getReservationById(id: string) {
+  return prisma.reservation.findUnique({ where: { id } });
+}
+
+export async function listReservations(filter: {
+  userId?: string;
+  // undefined: every space
+  spaceIds?: string[];
+  spaceId?: string;
+  status?: ReservationStatus;
+}) {
+  const where: Prisma.ReservationWhereInput = {
+    userId: filter.userId,
+    status: filter.status,
+    AND: [
+      filter.spaceIds ? { spaceId: { in: filter.spaceIds } } : {},
+      filter.spaceId ? { spaceId: filter.spaceId } : {},
+    ],
+  };
+  return prisma.reservation.findMany({
+    where,
+    orderBy: [{ startAt: "asc" }, { id: "asc" }],
+  });
+}
+
+/**
+ * Rejects a request that is still pending; returns false when it was
+ * decided or expired in the meantime.
+ */
+export async function rejectReservation(
+  id: string,
+  decision: { reason: string; decidedById: string },
+  now: Date,
+) {
+  const { count } = await prisma.reservation.updateMany({
+    where: { id, status: "pending", expiresAt: { gt: now } },
+    data: { status: "rejected", ...decision, decidedAt: now },
+  });
+  return count === 1;
+}
+
+/**
+ * Expires pending requests past their expiresAt; returns the ones expired.
+ * Deciding needs an unexpired request, so none can change in between.
+ */
+export async function expireReservations(now: Date) {
+  const due = await prisma.reservation.findMany({
+    where: { status: "pending", expiresAt: { lte: now } },
+    select: { id: true, spaceId: true },
+  });
+  if (due.length === 0) return [];
+  await prisma.reservation.updateMany({
+    where: { id: { in: due.map((r) => r.id) }, status: "pending" },
+    data: { status: "expired" },
+  });
+  return due;
+}
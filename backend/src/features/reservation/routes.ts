@@ -0,0 +1,75 @@
+import { Router } from "express";
+import { requireAuth, requireRole } from "../../middlewares/auth.js";
+import { validate } from "../../middlewares/validate.js";
+import {
+  approveReservation,
+  createReservation,
+  getReservation,
+  listApprovers,
+  listReservations,
+  rejectReservation,
+  updateApprovers,
+} from "./controller.js";
+import {
+  ApproveReservationSchema,
+  CreateReservationSchema,
+  ListReservationsQuerySchema,
+  RejectReservationSchema,
+  ReservationIdParamsSchema,
+  UpdateApproversSchema,
+} from "./schema.js";
+import { SpaceIdParamsSchema } from "../space/schema.js";
+
+export const reservationRouter = Router();
+
+reservationRouter.use(requireAuth);
+
+reservationRouter.get(
+  "/",
+  validate({ query: ListReservationsQuerySchema }),
+  listReservations,
+);
+reservationRouter.post(
+  "/",
+  validate({ body: CreateReservationSchema }),
+  createReservation,
+);
+reservationRouter.get(
+  "/:id",
+  validate({ params: ReservationIdParamsSchema }),
+  getReservation,
+);
+// who may decide is per space, so these are checked in the usecases
+reservationRouter.post(
+  "/:id/approve",
+  validate({
+    params: ReservationIdParamsSchema,
+    body: ApproveReservationSchema,
+  }),
+  approveReservation,
+);
+reservationRouter.post(
+  "/:id/reject",
+  validate({
+    params: ReservationIdParamsSchema,
+    body: RejectReservationSchema,
+  }),
+  rejectReservation,
+);
+
+/** Mounted at /api/spaces/:id/approvers */
+export const spaceApproverRouter = Router({ mergeParams: true });
+
+spaceApproverRouter.use(requireAuth);
+
+spaceApproverRouter.get(
+  "/",
+  validate({ params: SpaceIdParamsSchema }),
+  listApprovers,
+);
+spaceApproverRouter.put(
+  "/",
+  requireRole("admin", "manager"),
+  validate({ params: SpaceIdParamsSchema, body: UpdateApproversSchema }),
+  updateApprovers,
+);
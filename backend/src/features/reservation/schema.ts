@@ -0,0 +1,127 @@
+import { z } from "zod";
+import { NAME_MAX_LENGTH } from "../../utils/schema.js";
+
+/**
+ * API shapes for reservation requests on spaces that require approval, and
+ * for the spaces' approvers.
+ */
+
+export const RESERVATION_STATUSES = [
+  "pending",
+  "approved",
+  "rejected",
+  "expired",
+] as const;
+
+const isoDate = (field: string) =>
+  z.iso.datetime({
+    offset: true,
+    error: `${field} must be a valid ISO 8601 date`,
+  });
+
+const reason = z
+  .string({ error: "reason must be a string" })
+  .trim()
+  .max(NAME_MAX_LENGTH, `reason must be at most ${NAME_MAX_LENGTH} characters`);
+
+export const ReservationSchema = z
+  .object({
+    id: z.string(),
+    spaceId: z.string(),
+    userId: z.string(),
+    title: z.string(),
+    attendees: z.number().int(),
+    startAt: z.iso.datetime(),
+    endAt: z.iso.datetime(),
+    status: z.enum(RESERVATION_STATUSES),
+    // a pending request holds the slot until then
+    expiresAt: z.iso.datetime(),
+    reason: z.string().nullable(),
+    decidedById: z.string().nullable(),
+    decidedAt: z.iso.datetime().nullable(),
+    // the booking created on approval
+    bookingId: z.string().nullable(),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+  })
+  .meta({ id: "Reservation" });
+
+export const CreateReservationSchema = z
+  .object({
+    spaceId: z
+      .string({
+        error: (issue) =>
+          issue.input === undefined
+            ? "spaceId is required"
+            : "spaceId must be a string",
+      })
+      .trim()
+      .min(1, "spaceId cannot be empty"),
+    title: z
+      .string({
+        error: (issue) =>
+          issue.input === undefined
+            ? "title is required"
+            : "title must be a string",
+      })
+      .trim()
+      .min(1, "title cannot be empty")
+      .max(
+        NAME_MAX_LENGTH,
+        `title must be at most ${NAME_MAX_LENGTH} characters`,
+      ),
+    attendees: z.coerce
+      .number({ error: "attendees must be a number" })
+      .int("attendees must be a positive integer")
+      .positive("attendees must be a positive integer"),
+    startAt: isoDate("startAt"),
+    endAt: isoDate("endAt"),
+  })
+  .refine((input) => new Date(input.endAt) > new Date(input.startAt), {
+    path: ["endAt"],
+    message: "endAt must be after startAt",
+  })
+  .meta({ id: "CreateReservationInput" });
+
+export const ApproveReservationSchema = z
+  .object({ reason: reason.optional() })
+  .meta({ id: "ApproveReservationInput" });
+
+// the requester is owed an explanation for a rejection
+export const RejectReservationSchema = z
+  .object({
+    reason: reason.min(1, "reason is required to reject a request"),
+  })
+  .meta({ id: "RejectReservationInput" });
+
+export const ListReservationsQuerySchema = z.object({
+  // mine: requests you made; inbox: requests you may decide on
+  scope: z
+    .enum(["mine", "inbox"], { error: "scope must be mine or inbox" })
+    .default("mine"),
+  status: z
+    .enum(RESERVATION_STATUSES, {
+      error: `status must be one of ${RESERVATION_STATUSES.join(", ")}`,
+    })
+    .optional(),
+  spaceId: z.string().min(1, "spaceId cannot be empty").optional(),
+});
+
+export const ReservationIdParamsSchema = z.object({
+  id: z.string().min(1, "id is required"),
+});
+
+export const ApproverSchema = z
+  .object({ id: z.string(), name: z.string(), email: z.string() })
+  .meta({ id: "Approver" });
+
+// replaces the space's approvers as a whole
+export const UpdateApproversSchema = z
+  .object({
+    emails: z
+      .array(z.email("emails must be valid email addresses"), {
+        error: "emails must be an array",
+      })
+      .transform((emails) => [...new Set(emails.map((e) => e.toLowerCase()))]),
+  })
+  .meta({ id: "UpdateApproversInput" });
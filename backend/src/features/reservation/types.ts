@@ -0,0 +1,31 @@
+import type { z } from "zod";
+import type {
+  ApproveReservationSchema,
+  ApproverSchema,
+  CreateReservationSchema,
+  ListReservationsQuerySchema,
+  RejectReservationSchema,
+  ReservationIdParamsSchema,
+  ReservationSchema,
+  UpdateApproversSchema,
+} from "./schema.js";
+
+export type ReservationDTO = z.output<typeof ReservationSchema>;
+
+export type ReservationStatus = ReservationDTO["status"];
+
+export type CreateReservationInput = z.output<typeof CreateReservationSchema>;
+
+export type ApproveReservationInput = z.output<typeof ApproveReservationSchema>;
+
+export type RejectReservationInput = z.output<typeof RejectReservationSchema>;
+
+export type ListReservationsQuery = z.output<
+  typeof ListReservationsQuerySchema
+>;
+
+export type ReservationIdParams = z.output<typeof ReservationIdParamsSchema>;
+
+export type ApproverDTO = z.output<typeof ApproverSchema>;
+
+export type UpdateApproversInput = z.output<typeof UpdateApproversSchema>;
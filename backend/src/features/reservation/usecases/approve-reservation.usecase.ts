@@ -0,0 +1,53 @@
+import * as repo from "../repos/reservation.repo.js";
+import { bookingRepository } from "../../booking/repository.js";
+import { ApproveReservationInput, ReservationDTO } from "../types.js";
+import { toReservationDTO } from "../entity.js";
+import { assertCanDecide } from "../approvals.js";
+import { assertPending } from "./reject-reservation.usecase.js";
+import type { AuthUser } from "../../auth/types.js";
+import { ConflictError, NotFoundError } from "../../../utils/errors.js";
+
+/**
+ * Turns a pending request into a confirmed booking. The request has held
+ * its slot since it was made, so no other booking can be in the way; the
+ * conditional update under the space lock makes sure a request that was
+ * decided or expired concurrently is not booked after all.
+ */
+export async function approveReservationUsecase(
+  id: string,
+  input: ApproveReservationInput,
+  actor: AuthUser,
+  now = new Date(),
+): Promise<ReservationDTO> {
+  const reservation = await repo.getReservationById(id);
+  if (!reservation) throw new NotFoundError("reservation not found");
+  await assertCanDecide(reservation.spaceId, actor);
+  assertPending(reservation, now);
+
+  const approved = await bookingRepository().withSpaceLock(
+    reservation.spaceId,
+    async (tx) => {
+      const claimed = await tx.approveReservation(
+        reservation.id,
+        { reason: input.reason || null, decidedById: actor.id },
+        now,
+      );
+      if (!claimed) return null;
+      const booking = await tx.createBooking({
+        spaceId: reservation.spaceId,
+        userId: reservation.userId,
+        title: reservation.title,
+        attendees: reservation.attendees,
+        startAt: reservation.startAt,
+        endAt: reservation.endAt,
+      });
+      return tx.linkReservation(reservation.id, booking.id);
+    },
+  );
+  if (!approved) {
+    // lost a race with another decision or the expiry; report the new state
+    assertPending(await repo.getReservationById(id), now);
+    throw new ConflictError("reservation is no longer pending");
+  }
+  return toReservationDTO(approved);
+}
@@ -0,0 +1,83 @@
+import { bookingRepository } from "../../booking/repository.js";
+import { spaceRepository } from "../../space/repository.js";
+import { overlaps } from "../../space/availability.js";
+import { bufferedWindow } from "../../space/rules.js";
+import {
+  BookingConflictError,
+  assertAttendees,
+  assertBookingRules,
+} from "../../booking/entity.js";
+import { CreateReservationInput, ReservationDTO } from "../types.js";
+import { reservationExpiry, toReservationDTO } from "../entity.js";
+import type { AuthUser } from "../../auth/types.js";
+import { reservationConfig } from "../../../config/reservations.js";
+import { NotFoundError, ValidationError } from "../../../utils/errors.js";
+
+/**
+ * Requests a slot in a space that requires approval. The request holds the
+ * slot like a booking would until it is decided or expires, so it goes
+ * through the same conflict and rule checks under the space lock.
+ */
+export async function createReservationUsecase(
+  input: CreateReservationInput,
+  actor: AuthUser,
+  now = new Date(),
+): Promise<ReservationDTO> {
+  const startAt = new Date(input.startAt);
+  const endAt = new Date(input.endAt);
+  if (startAt <= now)
+    throw ValidationError.field("startAt", "startAt must be in the future");
+
+  const space = await spaceRepository().getSpaceById(input.spaceId);
+  if (!space) throw new NotFoundError("space not found");
+  if (!space.requiresApproval)
+    throw ValidationError.field(
+      "spaceId",
+      "this space does not require approval; book it directly",
+    );
+  assertAttendees(input.attendees, space.capacity);
+
+  const slot = { startAt, endAt };
+  const policy = await spaceRepository().getBookingPolicy(
+    space.id,
+    startAt,
+    endAt,
+  );
+  const window = bufferedWindow(slot, policy.rules);
+
+  const reservation = await bookingRepository().withSpaceLock(
+    space.id,
+    async (tx) => {
+      const nearby = await tx.findConflicts(
+        space.id,
+        window.startAt,
+        window.endAt,
+      );
+      const conflicts = nearby.filter((b) => overlaps(b, slot));
+      if (conflicts.length > 0)
+        throw new BookingConflictError("booking overlaps an existing booking", [
+          {
+            startAt: startAt.toISOString(),
+            endAt: endAt.toISOString(),
+            conflictingBookingIds: conflicts.map((b) => b.id),
+          },
+        ]);
+      assertBookingRules(slot, { ...policy, neighbours: nearby, now });
+
+      return tx.createReservation({
+        spaceId: space.id,
+        userId: actor.id,
+        title: input.title,
+        attendees: input.attendees,
+        startAt,
+        endAt,
+        expiresAt: reservationExpiry(
+          startAt,
+          now,
+          reservationConfig.approvalTimeoutMs,
+        ),
+      });
+    },
+  );
+  return toReservationDTO(reservation);
+}
@@ -0,0 +1,15 @@
+import * as repo from "../repos/reservation.repo.js";
+import { tryPromoteWaitlist } from "../../waitlist/usecases/promote-waitlist.usecase.js";
+
+/**
+ * Closes undecided requests past their expiresAt and offers the time they
+ * held to the waitlist; returns how many expired.
+ */
+export async function expireReservationsUsecase(
+  now = new Date(),
+): Promise<number> {
+  const expired = await repo.expireReservations(now);
+  for (const spaceId of new Set(expired.map((r) => r.spaceId)))
+    await tryPromoteWaitlist(spaceId);
+  return expired.length;
+}
@@ -0,0 +1,21 @@
+import * as repo from "../repos/reservation.repo.js";
+import { ReservationDTO } from "../types.js";
+import { toReservationDTO } from "../entity.js";
+import { canDecide } from "../approvals.js";
+import type { AuthUser } from "../../auth/types.js";
+import { NotFoundError } from "../../../utils/errors.js";
+
+/** Visible to the requester and to whoever may decide on it. */
+export async function getReservationUsecase(
+  id: string,
+  actor: AuthUser,
+): Promise<ReservationDTO> {
+  const reservation = await repo.getReservationById(id);
+  if (
+    !reservation ||
+    (reservation.userId !== actor.id &&
+      !(await canDecide(reservation.spaceId, actor)))
+  )
+    throw new NotFoundError("reservation not found");
+  return toReservationDTO(reservation);
+}
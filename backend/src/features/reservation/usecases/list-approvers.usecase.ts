@@ -0,0 +1,14 @@
+import * as repo from "../repos/approver.repo.js";
+import { spaceRepository } from "../../space/repository.js";
+import { ApproverDTO } from "../types.js";
+import { toApproverDTO } from "../entity.js";
+import { NotFoundError } from "../../../utils/errors.js";
+
+export async function listApproversUsecase(
+  spaceId: string,
+): Promise<ApproverDTO[]> {
+  if (!(await spaceRepository().getSpaceById(spaceId)))
+    throw new NotFoundError("space not found");
+  const approvers = await repo.listApprovers(spaceId);
+  return approvers.map(toApproverDTO);
+}
@@ -0,0 +1,31 @@
+import * as repo from "../repos/reservation.repo.js";
+import * as approverRepo from "../repos/approver.repo.js";
+import { ListReservationsQuery, ReservationDTO } from "../types.js";
+import { toReservationDTO } from "../entity.js";
+import type { AuthUser } from "../../auth/types.js";
+
+/**
+ * scope=mine lists the caller's own requests; scope=inbox the requests on
+ * the spaces the caller may decide on (every space for admins).
+ */
+export async function listReservationsUsecase(
+  query: ListReservationsQuery,
+  actor: AuthUser,
+): Promise<ReservationDTO[]> {
+  const reservations =
+    query.scope === "inbox"
+      ? await repo.listReservations({
+          spaceIds:
+            actor.role === "admin"
+              ? undefined
+              : await approverRepo.listApprovedSpaceIds(actor.id),
+          spaceId: query.spaceId,
+          status: query.status,
+        })
+      : await repo.listReservations({
+          userId: actor.id,
+          spaceId: query.spaceId,
+          status: query.status,
+        });
+  return reservations.map(toReservationDTO);
+}
@@ -0,0 +1,45 @@
+import * as repo from "../repos/reservation.repo.js";
+import type { Reservation } from "../../../generated/prisma/client.js";
+import { RejectReservationInput, ReservationDTO } from "../types.js";
+import { toReservationDTO } from "../entity.js";
+import { assertCanDecide } from "../approvals.js";
+import { tryPromoteWaitlist } from "../../waitlist/usecases/promote-waitlist.usecase.js";
+import type { AuthUser } from "../../auth/types.js";
+import { ConflictError, NotFoundError } from "../../../utils/errors.js";
+
+/** Only pending requests that still hold their slot can be decided on. */
+export function assertPending(reservation: Reservation | null, now: Date) {
+  if (!reservation) throw new NotFoundError("reservation not found");
+  const status =
+    reservation.status === "pending" && reservation.expiresAt <= now
+      ? "expired"
+      : reservation.status;
+  if (status !== "pending")
+    throw new ConflictError(`reservation is already ${status}`);
+}
+
+export async function rejectReservationUsecase(
+  id: string,
+  input: RejectReservationInput,
+  actor: AuthUser,
+  now = new Date(),
+): Promise<ReservationDTO> {
+  const reservation = await repo.getReservationById(id);
+  if (!reservation) throw new NotFoundError("reservation not found");
+  await assertCanDecide(reservation.spaceId, actor);
+  assertPending(reservation, now);
+
+  const rejected = await repo.rejectReservation(
+    reservation.id,
+    { reason: input.reason, decidedById: actor.id },
+    now,
+  );
+  const current = await repo.getReservationById(id);
+  if (!rejected || !current) {
+    assertPending(current, now);
+    throw new ConflictError("reservation is no longer pending");
+  }
+  // the request no longer holds its slot
+  await tryPromoteWaitlist(current.spaceId);
+  return toReservationDTO(current);
+}
@@ -0,0 +1,29 @@
+import * as repo from "../repos/approver.repo.js";
+import { spaceRepository } from "../../space/repository.js";
+import { ApproverDTO, UpdateApproversInput } from "../types.js";
+import { toApproverDTO } from "../entity.js";
+import { NotFoundError, ValidationError } from "../../../utils/errors.js";
+
+/** Approvers are picked by email, so managers need no access to the user list. */
+export async function updateApproversUsecase(
+  spaceId: string,
+  input: UpdateApproversInput,
+): Promise<ApproverDTO[]> {
+  if (!(await spaceRepository().getSpaceById(spaceId)))
+    throw new NotFoundError("space not found");
+
+  const users = await repo.findUsersByEmails(input.emails);
+  const known = new Set(users.map((u) => u.email));
+  const unknown = input.emails.filter((email) => !known.has(email));
+  if (unknown.length > 0)
+    throw ValidationError.field(
+      "emails",
+      `no account for: ${unknown.join(", ")}`,
+    );
+
+  await repo.setApprovers(
+    spaceId,
+    users.map((u) => u.id),
+  );
+  return (await repo.listApprovers(spaceId)).map(toApproverDTO);
+}
@@ -0,0 +1,18 @@
+import { amenityRepository } from "../amenity/repository.js";
+import { ValidationError } from "../../utils/errors.js";
+
+/** Looks amenity keys up in the catalog, rejecting keys that are not in it. */
+export async function resolveAmenities(
+  keys: string[],
+): Promise<{ id: string; key: string }[]> {
+  if (keys.length === 0) return [];
+  const amenities = await amenityRepository().findAmenitiesByKeys(keys);
+  const known = new Set(amenities.map((a) => a.key));
+  const unknown = keys.filter((key) => !known.has(key));
+  if (unknown.length > 0)
+    throw ValidationError.field(
+      "amenities",
+      `unknown amenity: ${unknown.join(", ")}`,
+    );
+  return amenities.map((a) => ({ id: a.id, key: a.key }));
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { findNearestFreeSlots, isFree } from "./availability.js";
+
+const at = (hhmm: string) => new Date(`2026-01-20T${hhmm}:00Z`);
+const slot = (from: string, to: string) => ({
+  startAt: at(from),
+  endAt: at(to),
+});
+
+describe("availability", () => {
+  it("treats touching intervals as free", () => {
+    const busy = [slot("10:00", "11:00")];
+    expect(isFree(busy, slot("11:00", "12:00"))).toBe(true);
+    expect(isFree(busy, slot("10:30", "11:30"))).toBe(false);
+  });
+
+  it("suggests the nearest gaps of the same length", () => {
+    const busy = [slot("13:00", "14:30"), slot("15:00", "17:00")];
+    const slots = findNearestFreeSlots(
+      busy,
+      slot("14:00", "15:30"),
+      6 * 60 * 60 * 1000,
+      at("00:00"),
+    );
+
+    expect(slots.map((s) => s.startAt.toISOString())).toEqual([
+      at("11:30").toISOString(),
+      at("17:00").toISOString(),
+    ]);
+  });
+
+  it("drops slots in the past", () => {
+    const busy = [slot("13:00", "14:00")];
+    const slots = findNearestFreeSlots(
+      busy,
+      slot("13:00", "14:00"),
+      6 * 60 * 60 * 1000,
+      at("12:30"),
+    );
+    expect(slots).toEqual([slot("14:00", "15:00")]);
+  });
+});
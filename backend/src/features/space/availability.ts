@@ -0,0 +1,48 @@
+export type Interval = { startAt: Date; endAt: Date };
+
+export function overlaps(a: Interval, b: Interval): boolean {
+  return a.startAt < b.endAt && a.endAt > b.startAt;
+}
+
+export function isFree(busy: Interval[], slot: Interval): boolean {
+  return !busy.some((b) => overlaps(b, slot));
+}
+
+/**
+ * Free slots with the same length as `requested`, placed directly after or
+ * before an existing booking, ordered by distance from the requested start.
+ * Slots outside `requested ± horizonMs` or starting before `notBefore` are
+ * dropped.
+ */
+export function findNearestFreeSlots(
+  busy: Interval[],
+  requested: Interval,
+  horizonMs: number,
+  notBefore: Date,
+): Interval[] {
+  const duration = requested.endAt.getTime() - requested.startAt.getTime();
+  const earliest = Math.max(
+    requested.startAt.getTime() - horizonMs,
+    notBefore.getTime(),
+  );
+  const latest = requested.endAt.getTime() + horizonMs;
+
+  const starts = new Set<number>();
+  for (const b of busy) {
+    starts.add(b.endAt.getTime());
+    starts.add(b.startAt.getTime() - duration);
+  }
+
+  return [...starts]
+    .filter((start) => start >= earliest && start + duration <= latest)
+    .map((start) => ({
+      startAt: new Date(start),
+      endAt: new Date(start + duration),
+    }))
+    .filter((slot) => isFree(busy, slot))
+    .sort(
+      (a, b) =>
+        Math.abs(a.startAt.getTime() - requested.startAt.getTime()) -
+        Math.abs(b.startAt.getTime() - requested.startAt.getTime()),
+    );
+}
@@ -1,96 +1,314 @@
-import { Request, Response } from "express";
+import { once } from "node:events";
+import { NextFunction, Request, Response } from "express";
 import { createSpaceUsecase } from "./usecases/create-space.usecase.js";
 import { getSpaceUsecase } from "./usecases/get-space.usecase.js";
 import { listSpacesUsecase } from "./usecases/list-spaces.usecase.js";
 import { updateSpaceUsecase } from "./usecases/update-space.usecase.js";
 import { deleteSpaceUsecase } from "./usecases/delete-space.usecase.js";
+import { searchAvailabilityUsecase } from "./usecases/search-availability.usecase.js";
+import { searchSpacesUsecase } from "./usecases/search-spaces.usecase.js";
+import { listTrashUsecase } from "./usecases/list-trash.usecase.js";
+import { restoreSpaceUsecase } from "./usecases/restore-space.usecase.js";
+import { getSpaceHistoryUsecase } from "./usecases/get-space-history.usecase.js";
+import { importSpacesUsecase } from "./usecases/import-spaces.usecase.js";
+import { exportSpacesUsecase } from "./usecases/export-spaces.usecase.js";
+import { getSpaceRulesUsecase } from "./usecases/get-space-rules.usecase.js";
+import { updateSpaceRulesUsecase } from "./usecases/update-space-rules.usecase.js";
+import { listBlackoutsUsecase } from "./usecases/list-blackouts.usecase.js";
+import { createBlackoutUsecase } from "./usecases/create-blackout.usecase.js";
+import { deleteBlackoutUsecase } from "./usecases/delete-blackout.usecase.js";
+import { auditContextOf } from "../audit/context.js";
+import type { AuditPageQuery } from "../audit/types.js";
+import { parseIfMatch, versionETag } from "../../utils/etag.js";
+import {
+  AvailabilityQuery,
+  BlackoutParams,
+  CreateBlackoutInput,
+  CreateSpaceInput,
+  ExportSpacesQuery,
+  ImportSpacesQuery,
+  ListSpacesQuery,
+  SearchSpacesQuery,
+  SpaceIdParams,
+  UpdateSpaceInput,
+  UpdateSpaceRulesInput,
+} from "./types.js";
 
-function handleError(res: Response, err: unknown) {
-  const msg = err instanceof Error ? err.message : "unknown error";
+// body, params and query were parsed by validate() in routes.ts
 
-  // Log error for debugging
-  console.error("❌ Space API Error:", err);
+export async function createSpace(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await createSpaceUsecase(
+      req.body as CreateSpaceInput,
+      auditContextOf(req),
+    );
+    return res.status(201).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
 
-  // very minimal mapping; can later formalize error classes
-  if (msg.includes("not found")) return res.status(404).json({ error: msg });
-  if (
-    msg.includes("required") ||
-    msg.includes("must") ||
-    msg.includes("cannot") ||
-    msg.includes("no fields")
-  ) {
-    return res.status(400).json({ error: msg });
+export async function getSpace(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as SpaceIdParams;
+    const result = await getSpaceUsecase(id);
+    // res.json answers a matching If-None-Match with 304
+    res.set("ETag", versionETag(result.version));
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
   }
-  return res.status(500).json({ error: msg });
 }
 
-export async function createSpace(req: Request, res: Response) {
+export async function listSpaces(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
   try {
-    const result = await createSpaceUsecase({
-      name: req.body?.name,
-      capacity: Number(req.body?.capacity),
-    });
-    return res.status(201).json(result);
+    const result = await listSpacesUsecase(
+      req.query as unknown as ListSpacesQuery,
+    );
+    // Express derives a weak ETag from the body and handles If-None-Match
+    return res.status(200).json(result);
   } catch (err) {
-    return handleError(res, err);
+    return next(err);
   }
 }
 
-export async function getSpace(req: Request, res: Response) {
+export async function searchAvailability(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
   try {
-    const id = req.params.id;
+    const result = await searchAvailabilityUsecase(
+      req.query as unknown as AvailabilityQuery,
+    );
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
 
-    if (typeof id !== "string") {
-      return res.status(400).json({ error: "invalid id" });
-    }
+export async function searchSpaces(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await searchSpacesUsecase(
+      req.query as unknown as SearchSpacesQuery,
+    );
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
 
-    const result = await getSpaceUsecase(id);
+export async function updateSpace(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as SpaceIdParams;
+    const result = await updateSpaceUsecase(
+      id,
+      req.body as UpdateSpaceInput,
+      auditContextOf(req),
+      parseIfMatch(req.get("If-Match")),
+    );
+    res.set("ETag", versionETag(result.version));
     return res.status(200).json(result);
   } catch (err) {
-    return handleError(res, err);
+    return next(err);
   }
 }
 
-export async function listSpaces(_req: Request, res: Response) {
+export async function deleteSpace(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
   try {
-    const result = await listSpacesUsecase();
+    const { id } = req.params as SpaceIdParams;
+    await deleteSpaceUsecase(
+      id,
+      auditContextOf(req),
+      parseIfMatch(req.get("If-Match")),
+    );
+
+    return res.status(204).send();
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function listTrash(
+  _req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await listTrashUsecase();
     return res.status(200).json(result);
   } catch (err) {
-    return handleError(res, err);
+    return next(err);
   }
 }
 
-export async function updateSpace(req: Request, res: Response) {
+export async function restoreSpace(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
   try {
-    const id = req.params.id;
+    const { id } = req.params as SpaceIdParams;
+    const result = await restoreSpaceUsecase(id, auditContextOf(req));
+    res.set("ETag", versionETag(result.version));
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
 
-    if (typeof id !== "string") {
-      return res.status(400).json({ error: "invalid id" });
-    }
-    const result = await updateSpaceUsecase(id, {
-      name: req.body?.name,
-      capacity:
-        typeof req.body?.capacity === "undefined"
-          ? undefined
-          : Number(req.body.capacity),
-    });
+export async function getSpaceHistory(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as SpaceIdParams;
+    const result = await getSpaceHistoryUsecase(
+      id,
+      req.query as unknown as AuditPageQuery,
+    );
     return res.status(200).json(result);
   } catch (err) {
-    return handleError(res, err);
+    return next(err);
   }
 }
 
-export async function deleteSpace(req: Request, res: Response) {
+export async function importSpaces(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
   try {
-    const id = req.params.id;
+    // CSV arrives as text via the text/csv parser in app.ts, JSON parsed
+    const result = await importSpacesUsecase(
+      req.body,
+      req.query as unknown as ImportSpacesQuery,
+      auditContextOf(req),
+    );
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
 
-    if (typeof id !== "string") {
-      return res.status(400).json({ error: "invalid id" });
+export async function exportSpaces(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const query = req.query as unknown as ExportSpacesQuery;
+    const date = new Date().toISOString().slice(0, 10);
+    res.status(200);
+    res.type(query.format === "csv" ? "text/csv" : "application/json");
+    res.attachment(`spaces-${date}.${query.format}`);
+    for await (const chunk of exportSpacesUsecase(query)) {
+      if (!res.write(chunk)) await once(res, "drain");
     }
-    await deleteSpaceUsecase(id);
+    return res.end();
+  } catch (err) {
+    // once streaming has started the error handler can only drop the socket
+    return next(err);
+  }
+}
+
+export async function getSpaceRules(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as SpaceIdParams;
+    const result = await getSpaceRulesUsecase(id);
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function updateSpaceRules(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as SpaceIdParams;
+    const result = await updateSpaceRulesUsecase(
+      id,
+      req.body as UpdateSpaceRulesInput,
+    );
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
 
+export async function listBlackouts(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as SpaceIdParams;
+    const result = await listBlackoutsUsecase(id);
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function createBlackout(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as SpaceIdParams;
+    const result = await createBlackoutUsecase(
+      id,
+      req.body as CreateBlackoutInput,
+    );
+    return res.status(201).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function deleteBlackout(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id, blackoutId } = req.params as BlackoutParams;
+    await deleteBlackoutUsecase(id, blackoutId);
     return res.status(204).send();
   } catch (err) {
-    return handleError(res, err);
+    return next(err);
   }
 }
@@ -0,0 +1,56 @@
+import type { SpaceRecord } from "./repos/space-repository.js";
+import { SpaceDTO, TrashedSpaceDTO } from "./types.js";
+import { spaceConfig } from "../../config/spaces.js";
+import { diffFields } from "../audit/diff.js";
+import type { AuditChanges } from "../audit/types.js";
+
+export function toDTO(space: SpaceRecord): SpaceDTO {
+  return {
+    id: space.id,
+    name: space.name,
+    capacity: space.capacity,
+    externalKey: space.externalKey,
+    createdAt: space.createdAt.toISOString(),
+    updatedAt: space.updatedAt.toISOString(),
+    deletedAt: space.deletedAt?.toISOString() ?? null,
+    version: space.version,
+    floorId: space.floorId,
+    requiresApproval: space.requiresApproval,
+    amenities: space.amenities,
+  };
+}
+
+/** A deleted space, with the time the purge job will remove it for good. */
+export function toTrashedDTO(space: SpaceRecord): TrashedSpaceDTO {
+  const deletedAt = space.deletedAt!;
+  return {
+    ...toDTO(space),
+    deletedAt: deletedAt.toISOString(),
+    purgeAt: new Date(
+      deletedAt.getTime() + spaceConfig.trashRetentionMs,
+    ).toISOString(),
+  };
+}
+
+const AUDITED_FIELDS = [
+  "name",
+  "capacity",
+  "externalKey",
+  "floorId",
+  "requiresApproval",
+  "amenities",
+  "deletedAt",
+] as const;
+
+// amenities are audited as one comma-separated value
+function snapshot(space: SpaceRecord | null) {
+  return space && { ...space, amenities: space.amenities.join(",") };
+}
+
+/** The audited fields a write changed, for the audit log and the outbox. */
+export function spaceChanges(
+  before: SpaceRecord | null,
+  after: SpaceRecord,
+): AuditChanges {
+  return diffFields(snapshot(before), snapshot(after), AUDITED_FIELDS);
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { ValidationError } from "../../utils/errors.js";
+import { recordsFromBody, validateRecord } from "./import.js";
+
+describe("recordsFromBody", () => {
+  it("maps CSV rows onto the header and types numeric cells", () => {
+    const csv = "externalKey,name,capacity\r\nHQ-1,Atlas,8\n,Boreal,\n";
+    expect(recordsFromBody(csv)).toEqual([
+      { externalKey: "HQ-1", name: "Atlas", capacity: 8 },
+      { name: "Boreal" },
+    ]);
+  });
+
+  it("passes JSON arrays of objects through", () => {
+    const rows = [{ name: "Atlas", capacity: 8 }];
+    expect(recordsFromBody(rows)).toBe(rows);
+  });
+
+  it("rejects other bodies and empty imports", () => {
+    expect(() => recordsFromBody({ name: "Atlas" })).toThrow(ValidationError);
+    expect(() => recordsFromBody([1, 2])).toThrow(ValidationError);
+    expect(() => recordsFromBody("name,capacity\n")).toThrow(
+      "the import has no rows",
+    );
+  });
+});
+
+describe("validateRecord", () => {
+  it("applies the create rules", () => {
+    expect(validateRecord({ name: "  Atlas ", capacity: 8 })).toEqual({
+      row: { name: "Atlas", capacity: 8 },
+    });
+  });
+
+  it("reports every failing field of the row", () => {
+    expect(validateRecord({ capacity: "eight" })).toEqual({
+      errors: {
+        name: "name is required",
+        capacity: "capacity must be a number",
+      },
+    });
+  });
+});
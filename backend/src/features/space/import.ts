@@ -0,0 +1,90 @@
+import { parseCsv } from "../../utils/csv.js";
+import { AppError, FieldErrors, ValidationError } from "../../utils/errors.js";
+import { SPACE_IMPORT_MAX_ROWS, SpaceImportRowSchema } from "./schema.js";
+import type { SpaceImportResult, SpaceImportRow } from "./types.js";
+
+/**
+ * Pure parts of the bulk import: turning a CSV or JSON body into records
+ * and validating each record on its own. Matching against existing spaces
+ * happens in the usecase.
+ */
+
+export type ImportRecord = Record<string, unknown>;
+
+/** 400 for a commit whose rows did not all validate; nothing was written. */
+export class SpaceImportError extends AppError {
+  readonly status = 400;
+  readonly code = "IMPORT_INVALID";
+
+  constructor(result: SpaceImportResult) {
+    super(
+      `${result.summary.invalid} of ${result.rows.length} rows are invalid; nothing was imported`,
+      { result },
+    );
+  }
+}
+
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+function recordsFromCsv(text: string): ImportRecord[] {
+  let rows: string[][];
+  try {
+    rows = parseCsv(text);
+  } catch (err) {
+    throw new ValidationError(`CSV is malformed: ${(err as Error).message}`);
+  }
+  const [header = [], ...data] = rows;
+  const columns = header.map((column) => column.trim());
+  return data.map((cells) => {
+    const record: ImportRecord = {};
+    columns.forEach((column, i) => {
+      const cell = cells[i]?.trim() ?? "";
+      // empty cells count as missing; numeric cells become numbers so the
+      // row schema judges them the same way as JSON input
+      if (column && cell !== "")
+        record[column] = NUMBER.test(cell) ? Number(cell) : cell;
+    });
+    return record;
+  });
+}
+
+/** Accepts CSV text (with a header row) or a JSON array of objects. */
+export function recordsFromBody(body: unknown): ImportRecord[] {
+  let records: ImportRecord[];
+  if (typeof body === "string") records = recordsFromCsv(body);
+  else if (
+    Array.isArray(body) &&
+    body.every((r) => typeof r === "object" && r !== null && !Array.isArray(r))
+  )
+    records = body as ImportRecord[];
+  else
+    throw new ValidationError(
+      "send a JSON array of rows or text/csv with a header row",
+    );
+
+  if (records.length === 0) throw new ValidationError("the import has no rows");
+  if (records.length > SPACE_IMPORT_MAX_ROWS)
+    throw new ValidationError(
+      `an import may have at most ${SPACE_IMPORT_MAX_ROWS} rows`,
+    );
+  return records;
+}
+
+export function validateRecord(
+  record: ImportRecord,
+): { row: SpaceImportRow; errors?: undefined } | { errors: FieldErrors } {
+  const result = SpaceImportRowSchema.safeParse(record);
+  if (result.success) return { row: result.data };
+  const errors: FieldErrors = {};
+  for (const issue of result.error.issues)
+    errors[issue.path.join(".") || "row"] ??= issue.message;
+  return { errors };
+}
+
+/**
+ * Names match case-insensitively, like the database collation does, so
+ * "atlas" in a file updates the existing "Atlas".
+ */
+export function nameKey(name: string): string {
+  return name.toLowerCase();
+}
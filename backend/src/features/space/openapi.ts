@@ -0,0 +1,261 @@
+import { z } from "zod";
+import { ErrorSchema, type OperationDoc } from "../../openapi/document.js";
+import {
+  AvailabilityQuerySchema,
+  AvailabilityResultSchema,
+  BlackoutParamsSchema,
+  BlackoutSchema,
+  CreateBlackoutSchema,
+  CreateSpaceSchema,
+  ExportSpacesQuerySchema,
+  ImportSpacesQuerySchema,
+  IfMatchHeadersSchema,
+  ListSpacesQuerySchema,
+  SearchSpacesQuerySchema,
+  SpaceIdParamsSchema,
+  SpaceImportBodySchema,
+  SpaceImportResultSchema,
+  SpacePageSchema,
+  SpaceRulesSchema,
+  SpaceSchema,
+  SpaceSearchResultSchema,
+  TrashedSpaceSchema,
+  UpdateSpaceRulesSchema,
+  UpdateSpaceSchema,
+} from "./schema.js";
+import { AuditPageQuerySchema, AuditPageSchema } from "../audit/schema.js";
+import { IdempotencyKeyHeadersSchema } from "../idempotency/schema.js";
+
+const tags = ["Spaces"];
+const managers: OperationDoc["roles"] = ["admin", "manager"];
+
+// writes are rate limited per client; POST, PATCH and DELETE take a key
+const idempotent = IdempotencyKeyHeadersSchema;
+const idempotentIfMatch = IfMatchHeadersSchema.extend(
+  IdempotencyKeyHeadersSchema.shape,
+);
+const rateLimited = {
+  description: "Too many writes; see RateLimit-* and Retry-After",
+  schema: ErrorSchema,
+};
+
+const staleVersion = {
+  description: "If-Match named a stale version; details.current is the space",
+  schema: ErrorSchema,
+};
+
+export const spaceOperations: OperationDoc[] = [
+  {
+    method: "post",
+    path: "/api/spaces",
+    summary: "Create a space",
+    tags,
+    roles: managers,
+    headers: idempotent,
+    body: CreateSpaceSchema,
+    responses: {
+      201: { description: "Created", schema: SpaceSchema },
+      429: rateLimited,
+    },
+  },
+  {
+    method: "get",
+    path: "/api/spaces",
+    summary: "List spaces, filtered, sorted and paginated by cursor",
+    tags,
+    roles: [],
+    query: ListSpacesQuerySchema,
+    responses: { 200: { description: "OK", schema: SpacePageSchema } },
+  },
+  {
+    method: "get",
+    path: "/api/spaces/availability",
+    summary: "Find spaces free for a window, or the nearest free slots",
+    tags,
+    roles: [],
+    query: AvailabilityQuerySchema,
+    responses: {
+      200: { description: "OK", schema: AvailabilityResultSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/spaces/search",
+    summary: "Fuzzy search of spaces by name and location, best match first",
+    tags,
+    roles: [],
+    query: SearchSpacesQuerySchema,
+    responses: {
+      200: { description: "OK", schema: SpaceSearchResultSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/spaces/:id",
+    summary: "Get a space",
+    tags,
+    roles: [],
+    params: SpaceIdParamsSchema,
+    responses: {
+      200: { description: "OK; the ETag is the version", schema: SpaceSchema },
+      304: { description: "Not modified since the If-None-Match ETag" },
+    },
+  },
+  {
+    method: "patch",
+    path: "/api/spaces/:id",
+    summary: "Update a space",
+    tags,
+    roles: managers,
+    params: SpaceIdParamsSchema,
+    headers: idempotentIfMatch,
+    body: UpdateSpaceSchema,
+    responses: {
+      200: { description: "OK", schema: SpaceSchema },
+      412: staleVersion,
+      429: rateLimited,
+    },
+  },
+  {
+    method: "delete",
+    path: "/api/spaces/:id",
+    summary: "Move a space to the trash",
+    tags,
+    roles: managers,
+    params: SpaceIdParamsSchema,
+    headers: idempotentIfMatch,
+    responses: {
+      204: { description: "Moved to the trash" },
+      412: staleVersion,
+      429: rateLimited,
+    },
+  },
+  {
+    method: "get",
+    path: "/api/spaces/trash",
+    summary: "List deleted spaces that can still be restored",
+    tags,
+    roles: managers,
+    responses: {
+      200: { description: "OK", schema: z.array(TrashedSpaceSchema) },
+    },
+  },
+  {
+    method: "post",
+    path: "/api/spaces/import",
+    summary:
+      "Upsert spaces from CSV or JSON, matched by externalKey or name; all rows or none",
+    tags,
+    roles: managers,
+    query: ImportSpacesQuerySchema,
+    headers: idempotent,
+    body: SpaceImportBodySchema,
+    responses: {
+      200: {
+        description: "Imported, or the dry-run report",
+        schema: SpaceImportResultSchema,
+      },
+      413: { description: "The file is over 2 MB", schema: ErrorSchema },
+      429: rateLimited,
+    },
+  },
+  {
+    method: "get",
+    path: "/api/spaces/export",
+    summary: "Stream all spaces as CSV or JSON",
+    tags,
+    roles: [],
+    query: ExportSpacesQuerySchema,
+    responses: {
+      200: {
+        description: "CSV with a header row, or a JSON array of spaces",
+        schema: z.string(),
+        contentType: "text/csv",
+      },
+    },
+  },
+  {
+    method: "post",
+    path: "/api/spaces/:id/restore",
+    summary: "Restore a space from the trash",
+    tags,
+    roles: managers,
+    params: SpaceIdParamsSchema,
+    headers: idempotent,
+    responses: {
+      200: { description: "Restored", schema: SpaceSchema },
+      429: rateLimited,
+    },
+  },
+  {
+    method: "get",
+    path: "/api/spaces/:id/history",
+    summary: "List the audit events of a space, newest first",
+    tags,
+    roles: [],
+    params: SpaceIdParamsSchema,
+    query: AuditPageQuerySchema,
+    responses: { 200: { description: "OK", schema: AuditPageSchema } },
+  },
+  {
+    method: "get",
+    path: "/api/spaces/:id/rules",
+    // spaces whose rules were never saved report the defaults
+    summary: "Get the booking rules of a space",
+    tags,
+    roles: [],
+    params: SpaceIdParamsSchema,
+    responses: { 200: { description: "OK", schema: SpaceRulesSchema } },
+  },
+  {
+    method: "put",
+    path: "/api/spaces/:id/rules",
+    summary: "Replace the booking rules of a space; existing bookings are kept",
+    tags,
+    roles: managers,
+    params: SpaceIdParamsSchema,
+    body: UpdateSpaceRulesSchema,
+    responses: {
+      200: { description: "OK", schema: SpaceRulesSchema },
+      429: rateLimited,
+    },
+  },
+  {
+    method: "get",
+    path: "/api/spaces/:id/blackouts",
+    summary: "List the blackout periods of a space",
+    tags,
+    roles: [],
+    params: SpaceIdParamsSchema,
+    responses: {
+      200: { description: "OK", schema: z.array(BlackoutSchema) },
+    },
+  },
+  {
+    method: "post",
+    path: "/api/spaces/:id/blackouts",
+    summary: "Block a period from being booked",
+    tags,
+    roles: managers,
+    params: SpaceIdParamsSchema,
+    headers: idempotent,
+    body: CreateBlackoutSchema,
+    responses: {
+      201: { description: "Created", schema: BlackoutSchema },
+      429: rateLimited,
+    },
+  },
+  {
+    method: "delete",
+    path: "/api/spaces/:id/blackouts/:blackoutId",
+    summary: "Remove a blackout period",
+    tags,
+    roles: managers,
+    params: BlackoutParamsSchema,
+    headers: idempotent,
+    responses: {
+      204: { description: "Deleted" },
+      429: rateLimited,
+    },
+  },
+];
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import type { Space } from "../../generated/prisma/client.js";
+import { ListSpacesQuerySchema } from "./schema.js";
+import {
+  afterCursor,
+  decodeCursor,
+  encodeCursor,
+  toOrderBy,
+} from "./pagination.js";
+
+const space: Space = {
+  id: "sp_2",
+  name: "Room B",
+  capacity: 8,
+  externalKey: null,
+  createdAt: new Date("2026-01-10T09:00:00Z"),
+  updatedAt: new Date("2026-01-11T09:00:00Z"),
+  deletedAt: null,
+  version: 1,
+  floorId: null,
+  requiresApproval: false,
+};
+
+describe("space list query", () => {
+  it("parses multi-field sort with direction prefixes", () => {
+    const query = ListSpacesQuerySchema.parse({ sort: "-capacity,name" });
+    expect(query.sort).toEqual([
+      { field: "capacity", direction: "desc" },
+      { field: "name", direction: "asc" },
+    ]);
+    expect(query.limit).toBe(20);
+  });
+
+  it("splits the amenity filter into distinct keys", () => {
+    expect(ListSpacesQuerySchema.parse({}).amenities).toEqual([]);
+    expect(
+      ListSpacesQuerySchema.parse({ amenities: "projector, vc,,projector" })
+        .amenities,
+    ).toEqual(["projector", "vc"]);
+  });
+
+  it("defaults to newest first and rejects unknown or repeated fields", () => {
+    expect(ListSpacesQuerySchema.parse({}).sort).toEqual([
+      { field: "createdAt", direction: "desc" },
+    ]);
+    expect(ListSpacesQuerySchema.safeParse({ sort: "id" }).success).toBe(false);
+    expect(
+      ListSpacesQuerySchema.safeParse({ sort: "name,-name" }).success,
+    ).toBe(false);
+    expect(
+      ListSpacesQuerySchema.safeParse({ minCapacity: "10", maxCapacity: "4" })
+        .success,
+    ).toBe(false);
+  });
+});
+
+describe("space pagination", () => {
+  const sort = ListSpacesQuerySchema.parse({
+    sort: "-capacity,createdAt",
+  }).sort;
+
+  it("round-trips cursors and rejects them under another sort", () => {
+    const cursor = encodeCursor(space, sort);
+    expect(decodeCursor(cursor, sort)).toEqual({
+      s: "-capacity,createdAt",
+      v: [8, "2026-01-10T09:00:00.000Z"],
+      id: "sp_2",
+    });
+
+    const other = ListSpacesQuerySchema.parse({ sort: "name" }).sort;
+    expect(() => decodeCursor(cursor, other)).toThrow("different sort");
+    expect(() => decodeCursor("not-a-cursor", sort)).toThrow("invalid");
+  });
+
+  it("orders by the sort keys with id as tie-breaker", () => {
+    expect(toOrderBy(sort)).toEqual([
+      { capacity: "desc" },
+      { createdAt: "asc" },
+      { id: "asc" },
+    ]);
+  });
+
+  it("builds a keyset condition that flips for descending keys", () => {
+    const where = afterCursor(
+      sort,
+      decodeCursor(encodeCursor(space, sort), sort),
+    );
+    const createdAt = new Date("2026-01-10T09:00:00Z");
+    expect(where).toEqual({
+      OR: [
+        { AND: [{ capacity: { lt: 8 } }] },
+        { AND: [{ capacity: 8 }, { createdAt: { gt: createdAt } }] },
+        {
+          AND: [{ capacity: 8 }, { createdAt }, { id: { gt: "sp_2" } }],
+        },
+      ],
+    });
+  });
+});
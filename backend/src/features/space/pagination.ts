@@ -0,0 +1,149 @@
+import type { Prisma, Space } from "../../generated/prisma/client.js";
+import { ValidationError } from "../../utils/errors.js";
+import { SpaceSortKey } from "./types.js";
+
+/**
+ * Keyset pagination over an arbitrary sort. The cursor carries the sort
+ * key values of the last row plus its id (the tie-breaker), so pages stay
+ * stable while rows are inserted or deleted, unlike offset paging.
+ */
+
+type CursorValue = string | number;
+
+export type CursorPayload = {
+  // sort signature the cursor was issued for, e.g. "-capacity,name"
+  s: string;
+  v: CursorValue[];
+  id: string;
+};
+
+function signature(sort: SpaceSortKey[]): string {
+  return sort
+    .map((k) => `${k.direction === "desc" ? "-" : ""}${k.field}`)
+    .join(",");
+}
+
+function valueOf(space: Space, field: SpaceSortKey["field"]): CursorValue {
+  const value = space[field];
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+export function encodeCursor(space: Space, sort: SpaceSortKey[]): string {
+  const payload: CursorPayload = {
+    s: signature(sort),
+    v: sort.map((k) => valueOf(space, k.field)),
+    id: space.id,
+  };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+export function decodeCursor(
+  cursor: string,
+  sort: SpaceSortKey[],
+): CursorPayload {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw ValidationError.field("cursor", "cursor is invalid");
+  }
+  if (typeof payload?.id !== "string" || !Array.isArray(payload.v))
+    throw ValidationError.field("cursor", "cursor is invalid");
+  if (payload.s !== signature(sort))
+    throw ValidationError.field(
+      "cursor",
+      "cursor was issued for a different sort",
+    );
+  if (payload.v.length !== sort.length)
+    throw ValidationError.field("cursor", "cursor is invalid");
+  return payload;
+}
+
+export function toOrderBy(
+  sort: SpaceSortKey[],
+): Prisma.SpaceOrderByWithRelationInput[] {
+  return [
+    ...sort.map((k) => ({ [k.field]: k.direction })),
+    { id: "asc" as const },
+  ];
+}
+
+function comparable(field: SpaceSortKey["field"], value: CursorValue) {
+  return field === "createdAt" || field === "updatedAt"
+    ? new Date(value)
+    : value;
+}
+
+/**
+ * Rows strictly after the cursor in (sort..., id) order:
+ * k1 > v1 OR (k1 = v1 AND k2 > v2) OR ... OR (all equal AND id > cursor id),
+ * with > flipped to < for descending keys.
+ */
+export function afterCursor(
+  sort: SpaceSortKey[],
+  cursor: Pick<CursorPayload, "v" | "id">,
+): Prisma.SpaceWhereInput {
+  const keys = [
+    ...sort.map((k, i) => ({
+      field: k.field as keyof Space,
+      op: k.direction === "desc" ? "lt" : "gt",
+      value: comparable(k.field, cursor.v[i]),
+    })),
+    { field: "id" as keyof Space, op: "gt", value: cursor.id },
+  ];
+
+  return {
+    OR: keys.map((key, i) => ({
+      AND: [
+        ...keys.slice(0, i).map((prev) => ({ [prev.field]: prev.value })),
+        { [key.field]: { [key.op]: key.value } },
+      ],
+    })),
+  };
+}
+
+// MySQL's default collation compares text case- and accent-insensitively
+const collator = new Intl.Collator("en", { sensitivity: "base" });
+
+function compareValues(a: CursorValue, b: CursorValue, field: string): number {
+  if (field === "createdAt" || field === "updatedAt")
+    return Date.parse(String(a)) - Date.parse(String(b));
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return field === "id"
+    ? Number(a > b) - Number(a < b)
+    : collator.compare(String(a), String(b));
+}
+
+function compareKeys(
+  sort: SpaceSortKey[],
+  a: { v: CursorValue[]; id: string },
+  b: { v: CursorValue[]; id: string },
+): number {
+  for (const [i, key] of sort.entries()) {
+    const order = compareValues(a.v[i], b.v[i], key.field);
+    if (order) return key.direction === "desc" ? -order : order;
+  }
+  return compareValues(a.id, b.id, "id");
+}
+
+function keysOf(space: Space, sort: SpaceSortKey[]) {
+  return { v: sort.map((k) => valueOf(space, k.field)), id: space.id };
+}
+
+/** Orders spaces in memory the way toOrderBy orders them in the database. */
+export function compareSpaces(
+  sort: SpaceSortKey[],
+  a: Space,
+  b: Space,
+): number {
+  return compareKeys(sort, keysOf(a, sort), keysOf(b, sort));
+}
+
+/** The in-memory counterpart of afterCursor. */
+export function isAfterCursor(
+  sort: SpaceSortKey[],
+  space: Space,
+  cursor: Pick<CursorPayload, "v" | "id">,
+): boolean {
+  return compareKeys(sort, keysOf(space, sort), cursor) > 0;
+}
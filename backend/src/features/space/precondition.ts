@@ -0,0 +1,24 @@
+import { spaceRepository } from "./repository.js";
+import {
+  AppError,
+  NotFoundError,
+  PreconditionFailedError,
+} from "../../utils/errors.js";
+import { toDTO } from "./entity.js";
+
+/**
+ * A conditional write that matched no space either hit a missing space
+ * (404) or a stale version. For the latter, returns a 412 carrying the
+ * current space so clients can show what changed.
+ */
+export async function unmatchedWriteError(
+  id: string,
+  versions: number[] | undefined,
+): Promise<AppError> {
+  const current = versions && (await spaceRepository().getSpaceById(id));
+  if (!current) return new NotFoundError("space not found");
+  return new PreconditionFailedError(
+    "space was changed by someone else; reload and try again",
+    { current: toDTO(current) },
+  );
+}
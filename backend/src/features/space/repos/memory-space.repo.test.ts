@@ -0,0 +1,32 @@
+import { describeSpaceRepositoryContract } from "./space-repository.contract.js";
+import { createMemorySpaceRepository } from "./memory-space.repo.js";
+import { setLocationRepository } from "../../location/repository.js";
+import { createMemoryLocationRepository } from "../../location/repos/memory-location.repo.js";
+import { setAmenityRepository } from "../../amenity/repository.js";
+import { createMemoryAmenityRepository } from "../../amenity/repos/memory-amenity.repo.js";
+import { setAuditRepository } from "../../audit/repository.js";
+import { createMemoryAuditRepository } from "../../audit/repos/memory-audit.repo.js";
+
+describeSpaceRepositoryContract("memory space repository", () => {
+  // site and building filters look floors up in the location repository,
+  // facets name amenities from the catalog and writes go to the audit log
+  const locations = createMemoryLocationRepository();
+  setLocationRepository(locations);
+  const catalog = createMemoryAmenityRepository();
+  setAmenityRepository(catalog);
+  setAuditRepository(createMemoryAuditRepository());
+  return {
+    repository: createMemorySpaceRepository(),
+    amenities: async (keys) => {
+      const known = await catalog.findAmenitiesByKeys(keys);
+      return Promise.all(
+        keys.map(
+          (key) =>
+            known.find((a) => a.key === key) ??
+            catalog.createAmenity({ key, name: key }),
+        ),
+      );
+    },
+    locations,
+  };
+});
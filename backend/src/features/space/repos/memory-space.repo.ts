@@ -0,0 +1,378 @@
+import { randomUUID } from "node:crypto";
+import type {
+  SpaceBlackout,
+  SpaceRules,
+} from "../../../generated/prisma/client.js";
+import { ConflictError, NotFoundError } from "../../../utils/errors.js";
+import { locationRepository } from "../../location/repository.js";
+import { amenityRepository } from "../../amenity/repository.js";
+import { auditRepository } from "../../audit/repository.js";
+import type { AuditAction, AuditContext } from "../../audit/types.js";
+import { spaceChanges } from "../entity.js";
+import { compareSpaces, isAfterCursor } from "../pagination.js";
+import { type BookingPolicy, DEFAULT_BOOKING_RULES } from "../rules.js";
+import type { OpeningHours } from "../types.js";
+import type {
+  SpaceCreateData,
+  SpaceFilter,
+  SpaceRecord,
+  SpaceRepository,
+  SpaceUpdateData,
+} from "./space-repository.js";
+
+// `floors`: the floors of the filter's site or building, when it has one
+function matches(
+  space: SpaceRecord,
+  filter: SpaceFilter,
+  floors: Set<string> | null,
+): boolean {
+  if (
+    filter.name &&
+    !space.name.toLowerCase().includes(filter.name.toLowerCase())
+  )
+    return false;
+  if (filter.minCapacity !== undefined && space.capacity < filter.minCapacity)
+    return false;
+  if (filter.maxCapacity !== undefined && space.capacity > filter.maxCapacity)
+    return false;
+  if (filter.createdFrom && space.createdAt < new Date(filter.createdFrom))
+    return false;
+  if (filter.createdTo && space.createdAt > new Date(filter.createdTo))
+    return false;
+  if (filter.floorId && space.floorId !== filter.floorId) return false;
+  if (floors && !(space.floorId && floors.has(space.floorId))) return false;
+  return (filter.amenities ?? []).every((key) => space.amenities.includes(key));
+}
+
+function amenityKeys(amenities: SpaceCreateData["amenities"]) {
+  return (amenities ?? []).map((a) => a.key).sort();
+}
+
+// resolves a site or building filter through the location repository
+async function floorsInScope({ siteId, buildingId }: SpaceFilter) {
+  if (!siteId && !buildingId) return null;
+  const floors = await locationRepository().listFloors({ siteId, buildingId });
+  return new Set(floors.map((floor) => floor.id));
+}
+
+// records the change from `before` to `after` in the audit repository
+async function audit(
+  action: AuditAction,
+  before: SpaceRecord | null,
+  after: SpaceRecord,
+  context: AuditContext,
+) {
+  const changes = spaceChanges(before, after);
+  // an update that set every field to its current value changed nothing
+  if (action === "update" && Object.keys(changes).length === 0) return;
+  await auditRepository().recordAuditEvent({
+    entityType: "space",
+    entityId: after.id,
+    action,
+    changes,
+    context,
+  });
+}
+
+/**
+ * Keeps spaces and their rules in this process, for demos and tests. Writes
+ * are audited through the audit repository; there is no outbox, and facets
+ * name amenity keys missing from the catalog by their key.
+ */
+export function createMemorySpaceRepository(): SpaceRepository {
+  let spaces = new Map<string, SpaceRecord>();
+  const rules = new Map<string, SpaceRules>();
+  let blackouts: SpaceBlackout[] = [];
+
+  // callers get copies, so only the repository changes what is stored
+  const copy = (space: SpaceRecord): SpaceRecord => structuredClone(space);
+  const active = () => [...spaces.values()].filter((s) => !s.deletedAt);
+
+  function assertKeyFree(
+    store: Map<string, SpaceRecord>,
+    externalKey: string | null | undefined,
+    id?: string,
+  ) {
+    if (!externalKey) return;
+    for (const space of store.values())
+      if (space.externalKey === externalKey && space.id !== id)
+        throw new ConflictError(
+          "a record with the same unique value already exists",
+          { fields: { externalKey: "externalKey is already taken" } },
+        );
+  }
+
+  function policyOf(spaceId: string, from: Date, to: Date): BookingPolicy {
+    const saved = rules.get(spaceId);
+    return {
+      rules: saved
+        ? {
+            timeZone: saved.timeZone,
+            openingHours: saved.openingHours as OpeningHours | null,
+            maxDurationMinutes: saved.maxDurationMinutes,
+            leadTimeMinutes: saved.leadTimeMinutes,
+            horizonDays: saved.horizonDays,
+            bufferMinutes: saved.bufferMinutes,
+          }
+        : DEFAULT_BOOKING_RULES,
+      blackouts: blackouts
+        .filter(
+          (b) => b.spaceId === spaceId && b.startAt < to && b.endAt > from,
+        )
+        .map((b) => structuredClone(b)),
+    };
+  }
+
+  function insert(
+    store: Map<string, SpaceRecord>,
+    data: SpaceCreateData & { externalKey?: string },
+  ): SpaceRecord {
+    assertKeyFree(store, data.externalKey);
+    const now = new Date();
+    const space: SpaceRecord = {
+      id: randomUUID(),
+      name: data.name,
+      capacity: data.capacity,
+      externalKey: data.externalKey ?? null,
+      createdAt: now,
+      updatedAt: now,
+      deletedAt: null,
+      version: 1,
+      floorId: data.floorId ?? null,
+      requiresApproval: data.requiresApproval ?? false,
+      amenities: amenityKeys(data.amenities),
+    };
+    store.set(space.id, space);
+    return space;
+  }
+
+  function change(
+    store: Map<string, SpaceRecord>,
+    space: SpaceRecord,
+    data: Partial<Omit<SpaceRecord, "amenities">> & {
+      amenities?: SpaceCreateData["amenities"];
+    },
+  ): SpaceRecord {
+    const { amenities, ...fields } = data;
+    assertKeyFree(store, fields.externalKey, space.id);
+    const changed: SpaceRecord = {
+      ...space,
+      ...fields,
+      amenities: amenities ? amenityKeys(amenities) : space.amenities,
+      version: space.version + 1,
+      updatedAt: new Date(),
+    };
+    store.set(space.id, changed);
+    return changed;
+  }
+
+  function activeWithVersion(id: string, versions: number[] | undefined) {
+    const space = spaces.get(id);
+    if (!space || space.deletedAt) return null;
+    if (versions && !versions.includes(space.version)) return null;
+    return space;
+  }
+
+  return {
+    async createSpace(data, context) {
+      const space = insert(spaces, data);
+      await audit("create", null, space, context);
+      return copy(space);
+    },
+
+    async getSpaceById(id) {
+      const space = spaces.get(id);
+      return space && !space.deletedAt ? copy(space) : null;
+    },
+
+    async getSpaceIncludingDeleted(id) {
+      const space = spaces.get(id);
+      return space ? copy(space) : null;
+    },
+
+    async listSpaces() {
+      return active()
+        .reverse()
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .map(copy);
+    },
+
+    async findSpaces({ filter, sort, after, take }) {
+      const floors = await floorsInScope(filter);
+      return active()
+        .filter((s) => matches(s, filter, floors))
+        .filter((s) => !after || isAfterCursor(sort, s, after))
+        .sort((a, b) => compareSpaces(sort, a, b))
+        .slice(0, take)
+        .map(copy);
+    },
+
+    async countSpaces(filter) {
+      const floors = await floorsInScope(filter);
+      return active().filter((s) => matches(s, filter, floors)).length;
+    },
+
+    async countAmenityFacets(filter) {
+      const floors = await floorsInScope(filter);
+      const counts = new Map<string, number>();
+      for (const space of active())
+        for (const key of space.amenities)
+          counts.set(
+            key,
+            (counts.get(key) ?? 0) + Number(matches(space, filter, floors)),
+          );
+      const catalog = await amenityRepository().findAmenitiesByKeys([
+        ...counts.keys(),
+      ]);
+      const names = new Map(catalog.map((a) => [a.key, a.name]));
+      return [...counts.keys()].sort().map((key) => ({
+        key,
+        name: names.get(key) ?? key,
+        count: counts.get(key)!,
+      }));
+    },
+
+    async countSpacesByFloor() {
+      const counts = new Map<string, number>();
+      for (const { floorId } of active())
+        if (floorId) counts.set(floorId, (counts.get(floorId) ?? 0) + 1);
+      return counts;
+    },
+
+    async countFloorSpaces(floorId) {
+      return [...spaces.values()].filter((s) => s.floorId === floorId).length;
+    },
+
+    async listSpacesWithMinCapacity(minCapacity) {
+      return active()
+        .filter((s) => s.capacity >= minCapacity)
+        .sort((a, b) =>
+          compareSpaces(
+            [
+              { field: "capacity", direction: "asc" },
+              { field: "name", direction: "asc" },
+            ],
+            a,
+            b,
+          ),
+        )
+        .map(copy);
+    },
+
+    async updateSpace(id, data: SpaceUpdateData, context, versions) {
+      const space = activeWithVersion(id, versions);
+      if (!space) return null;
+      const changed = change(spaces, space, data);
+      await audit("update", space, changed, context);
+      return copy(changed);
+    },
+
+    async softDeleteSpace(id, context, versions) {
+      const space = activeWithVersion(id, versions);
+      if (!space) return null;
+      const deleted = change(spaces, space, { deletedAt: new Date() });
+      await audit("delete", space, deleted, context);
+      return copy(deleted);
+    },
+
+    async listDeletedSpaces() {
+      return [...spaces.values()]
+        .filter((s) => s.deletedAt)
+        .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime())
+        .map(copy);
+    },
+
+    async restoreSpace(id, context) {
+      const space = spaces.get(id);
+      if (!space?.deletedAt) return null;
+      const restored = change(spaces, space, { deletedAt: null });
+      await audit("restore", space, restored, context);
+      return copy(restored);
+    },
+
+    async findImportMatches(externalKeys, names) {
+      return [...spaces.values()]
+        .filter(
+          (s) =>
+            (s.externalKey !== null && externalKeys.includes(s.externalKey)) ||
+            (!s.deletedAt && names.includes(s.name)),
+        )
+        .map(copy);
+    },
+
+    async applySpaceImport(ops, context) {
+      // write to a copy and keep it only if every op succeeds
+      const draft = new Map(spaces);
+      const written = ops.map((op) => {
+        if (op.kind === "create")
+          return { before: null, after: insert(draft, op.data) };
+        const space = draft.get(op.id);
+        if (!space || space.deletedAt)
+          throw new NotFoundError("record not found");
+        return { before: space, after: change(draft, space, op.data) };
+      });
+      spaces = draft;
+      for (const { before, after } of written)
+        await audit(before ? "update" : "create", before, after, context);
+      return written.map(({ after }) => copy(after));
+    },
+
+    async purgeDeletedSpaces(deletedBefore) {
+      const purged = [...spaces.values()].filter(
+        (s) => s.deletedAt && s.deletedAt < deletedBefore,
+      );
+      for (const space of purged) {
+        spaces.delete(space.id);
+        rules.delete(space.id);
+      }
+      blackouts = blackouts.filter((b) => spaces.has(b.spaceId));
+      return purged.length;
+    },
+
+    async getSpaceRules(spaceId) {
+      const saved = rules.get(spaceId);
+      return saved ? structuredClone(saved) : null;
+    },
+
+    async saveSpaceRules(spaceId, bookingRules) {
+      const saved: SpaceRules = {
+        spaceId,
+        ...bookingRules,
+        updatedAt: new Date(),
+      };
+      rules.set(spaceId, saved);
+      return structuredClone(saved);
+    },
+
+    async listBlackouts(spaceId) {
+      return blackouts
+        .filter((b) => b.spaceId === spaceId)
+        .sort((a, b) => a.startAt.getTime() - b.startAt.getTime())
+        .map((b) => structuredClone(b));
+    },
+
+    async createBlackout(data) {
+      const blackout: SpaceBlackout = {
+        id: randomUUID(),
+        ...data,
+        createdAt: new Date(),
+      };
+      blackouts.push(blackout);
+      return structuredClone(blackout);
+    },
+
+    async deleteBlackout(spaceId, id) {
+      const before = blackouts.length;
+      blackouts = blackouts.filter((b) => b.id !== id || b.spaceId !== spaceId);
+      return blackouts.length < before;
+    },
+
+    async getBookingPolicy(spaceId, from, to) {
+      return policyOf(spaceId, from, to);
+    },
+
+    async getBookingPolicies(spaceIds, from, to) {
+      return new Map(spaceIds.map((id) => [id, policyOf(id, from, to)]));
+    },
+  };
+}
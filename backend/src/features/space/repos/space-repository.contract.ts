@@ -0,0 +1,374 @@
+import { randomUUID } from "node:crypto";
+import { describe, it, expect } from "vitest";
+import type { AuditContext } from "../../audit/types.js";
+import type { LocationRepository } from "../../location/repos/location-repository.js";
+import { DEFAULT_BOOKING_RULES } from "../rules.js";
+import type { SpaceSortKey } from "../types.js";
+import type {
+  SpaceCreateData,
+  SpaceRecord,
+  SpaceRepository,
+} from "./space-repository.js";
+
+export type ContractFixture = {
+  repository: SpaceRepository;
+  /** Catalog entries for `keys`, created if the store has a catalog. */
+  amenities(keys: string[]): Promise<{ id: string; key: string }[]>;
+  /** Where the floors that spaces are placed on are created. */
+  locations: LocationRepository;
+};
+
+const context: AuditContext = { actorId: null, requestId: null };
+
+const rules = {
+  timeZone: "Asia/Taipei",
+  openingHours: null,
+  maxDurationMinutes: 120,
+  leadTimeMinutes: 0,
+  horizonDays: 30,
+  bufferMinutes: 5,
+};
+
+/**
+ * What every SpaceRepository must do. The store may be shared (a real
+ * database), so each test names its spaces with a fresh tag and only looks
+ * at those; purging empties the whole trash, though.
+ */
+export function describeSpaceRepositoryContract(
+  name: string,
+  setup: () => ContractFixture | Promise<ContractFixture>,
+) {
+  describe(`${name} (SpaceRepository contract)`, () => {
+    async function start() {
+      const fixture = await setup();
+      const tag = randomUUID().slice(0, 8);
+      const keys = (...suffixes: string[]) =>
+        suffixes.map((suffix) => `${tag}-${suffix}`);
+      const create = (data: Partial<SpaceCreateData> & { name: string }) =>
+        fixture.repository.createSpace(
+          { capacity: 4, ...data, name: `${tag} ${data.name}` },
+          context,
+        );
+      const ours = (spaces: SpaceRecord[]) =>
+        spaces.filter((s) => s.name.startsWith(tag));
+      return { ...fixture, repo: fixture.repository, tag, keys, create, ours };
+    }
+
+    it("creates spaces and reads them back by id", async () => {
+      const { repo, amenities, keys, create, tag } = await start();
+      const [vc, projector] = keys("vc", "projector");
+      const created = await create({
+        name: "Room A",
+        capacity: 6,
+        amenities: await amenities([vc, projector]),
+      });
+
+      expect(created).toMatchObject({
+        name: `${tag} Room A`,
+        capacity: 6,
+        externalKey: null,
+        deletedAt: null,
+        version: 1,
+        floorId: null,
+        requiresApproval: false,
+        amenities: [projector, vc],
+      });
+      expect(await repo.getSpaceById(created.id)).toEqual(created);
+      expect(await repo.getSpaceById(randomUUID())).toBeNull();
+    });
+
+    it("bumps the version on update and checks the expected versions", async () => {
+      const { repo, amenities, keys, create } = await start();
+      const [vc, projector] = keys("vc", "projector");
+      const space = await create({
+        name: "Room A",
+        amenities: await amenities([vc]),
+      });
+
+      const updated = await repo.updateSpace(
+        space.id,
+        { capacity: 10, amenities: await amenities([projector]) },
+        context,
+        [1],
+      );
+      expect(updated).toMatchObject({
+        capacity: 10,
+        version: 2,
+        amenities: [projector],
+      });
+      // fields left out stay as they are
+      expect(
+        await repo.updateSpace(space.id, { requiresApproval: true }, context),
+      ).toMatchObject({ capacity: 10, amenities: [projector], version: 3 });
+
+      expect(
+        await repo.updateSpace(space.id, { capacity: 1 }, context, [1, 2]),
+      ).toBeNull();
+      expect(
+        await repo.updateSpace(randomUUID(), { capacity: 1 }, context),
+      ).toBeNull();
+      expect((await repo.getSpaceById(space.id))?.capacity).toBe(10);
+    });
+
+    it("moves spaces to the trash and restores them", async () => {
+      const { repo, create, ours } = await start();
+      const space = await create({ name: "Room A" });
+
+      expect(await repo.softDeleteSpace(space.id, context, [2])).toBeNull();
+      const deleted = await repo.softDeleteSpace(space.id, context, [1]);
+      expect(deleted?.deletedAt).toBeInstanceOf(Date);
+      expect(await repo.getSpaceById(space.id)).toBeNull();
+      expect(ours(await repo.listSpaces())).toEqual([]);
+      expect(ours(await repo.listDeletedSpaces())).toHaveLength(1);
+      expect(await repo.getSpaceIncludingDeleted(space.id)).toMatchObject({
+        id: space.id,
+        version: 2,
+      });
+      expect(await repo.softDeleteSpace(space.id, context)).toBeNull();
+
+      const restored = await repo.restoreSpace(space.id, context);
+      expect(restored).toMatchObject({ deletedAt: null, version: 3 });
+      expect(await repo.restoreSpace(space.id, context)).toBeNull();
+      expect(ours(await repo.listSpaces())).toHaveLength(1);
+    });
+
+    it("finds spaces by filter, sort and cursor", async () => {
+      const { repo, amenities, keys, create, tag } = await start();
+      const [vc, projector] = keys("vc", "projector");
+      const [withVc, withBoth] = [
+        await amenities([vc]),
+        await amenities([vc, projector]),
+      ];
+      await create({ name: "Huddle", capacity: 2 });
+      await create({ name: "Room A", capacity: 8, amenities: withVc });
+      await create({ name: "room b", capacity: 8, amenities: withBoth });
+      await create({ name: "Hall", capacity: 40, amenities: withBoth });
+
+      const sort: SpaceSortKey[] = [
+        { field: "capacity", direction: "desc" },
+        { field: "name", direction: "asc" },
+      ];
+      const filter = { name: tag };
+      const all = await repo.findSpaces({ filter, sort, take: 10 });
+      expect(all.map((s) => s.name.slice(tag.length + 1))).toEqual([
+        "Hall",
+        "Room A",
+        "room b",
+        "Huddle",
+      ]);
+
+      // pages of two, each continuing after the last row of the previous
+      const first = await repo.findSpaces({ filter, sort, take: 2 });
+      const last = first[first.length - 1];
+      const second = await repo.findSpaces({
+        filter,
+        sort,
+        after: { v: [last.capacity, last.name], id: last.id },
+        take: 2,
+      });
+      expect([...first, ...second]).toEqual(all);
+
+      const narrowed = {
+        name: tag.toUpperCase(),
+        minCapacity: 3,
+        maxCapacity: 10,
+        amenities: [vc],
+      };
+      expect(
+        (await repo.findSpaces({ filter: narrowed, sort, take: 10 })).map(
+          (s) => s.capacity,
+        ),
+      ).toEqual([8, 8]);
+      expect(await repo.countSpaces(filter)).toBe(4);
+      expect(
+        await repo.countSpaces({ ...filter, amenities: [vc, projector] }),
+      ).toBe(2);
+
+      const facets = await repo.countAmenityFacets({
+        ...filter,
+        maxCapacity: 10,
+      });
+      const counts = Object.fromEntries(
+        facets
+          .filter((f) => f.key.startsWith(tag))
+          .map((f) => [f.key, f.count]),
+      );
+      expect(counts).toEqual({ [vc]: 2, [projector]: 1 });
+    });
+
+    it("finds spaces by site and building and counts them per floor", async () => {
+      const { repo, locations, create, ours, tag } = await start();
+      const site = await locations.createSite({ name: `${tag} HQ` });
+      const building = await locations.createBuilding({
+        siteId: site.id,
+        name: "East Wing",
+      });
+      const floor = await locations.createFloor({
+        buildingId: building.id,
+        name: "3F",
+        level: 3,
+      });
+      const placed = await create({ name: "Room A", floorId: floor.id });
+      const trashed = await create({ name: "Room B", floorId: floor.id });
+      await repo.softDeleteSpace(trashed.id, context);
+      await create({ name: "Hall" });
+
+      const sort: SpaceSortKey[] = [{ field: "name", direction: "asc" }];
+      for (const filter of [{ siteId: site.id }, { buildingId: building.id }]) {
+        const found = await repo.findSpaces({ filter, sort, take: 10 });
+        expect(ours(found).map((s) => s.id)).toEqual([placed.id]);
+        expect(await repo.countSpaces(filter)).toBe(1);
+      }
+      expect((await repo.countSpacesByFloor()).get(floor.id)).toBe(1);
+      expect(await repo.countFloorSpaces(floor.id)).toBe(2);
+    });
+
+    it("lists spaces of a minimum capacity, smallest first", async () => {
+      const { repo, create, ours } = await start();
+      await create({ name: "Hall", capacity: 40 });
+      await create({ name: "Room B", capacity: 8 });
+      await create({ name: "Room A", capacity: 8 });
+      await create({ name: "Huddle", capacity: 2 });
+
+      const fits = ours(await repo.listSpacesWithMinCapacity(8));
+      expect(fits.map((s) => [s.capacity, s.name.split(" ").pop()])).toEqual([
+        [8, "A"],
+        [8, "B"],
+        [40, "Hall"],
+      ]);
+    });
+
+    it("matches import rows and applies imports all or nothing", async () => {
+      const { repo, create, tag } = await start();
+      const kept = await create({ name: "Room A" });
+      const trashed = await repo.applySpaceImport(
+        [
+          {
+            kind: "create",
+            data: { name: `${tag} Old`, capacity: 2, externalKey: `${tag}-1` },
+          },
+        ],
+        context,
+      );
+      await repo.softDeleteSpace(trashed[0].id, context);
+
+      const matches = await repo.findImportMatches(
+        [`${tag}-1`],
+        [`${tag} Room A`, `${tag} Old`],
+      );
+      expect(matches.map((s) => s.id).sort()).toEqual(
+        [kept.id, trashed[0].id].sort(),
+      );
+
+      const written = await repo.applySpaceImport(
+        [
+          {
+            kind: "update",
+            id: kept.id,
+            data: { name: kept.name, capacity: 9 },
+          },
+          {
+            kind: "create",
+            data: { name: `${tag} New`, capacity: 3, externalKey: `${tag}-2` },
+          },
+        ],
+        context,
+      );
+      expect(written.map((s) => [s.capacity, s.version])).toEqual([
+        [9, 2],
+        [3, 1],
+      ]);
+
+      // the second op reuses a taken key, so the first is undone too
+      await expect(
+        repo.applySpaceImport(
+          [
+            {
+              kind: "update",
+              id: kept.id,
+              data: { name: kept.name, capacity: 1 },
+            },
+            {
+              kind: "create",
+              data: {
+                name: `${tag} Dup`,
+                capacity: 3,
+                externalKey: `${tag}-2`,
+              },
+            },
+          ],
+          context,
+        ),
+      ).rejects.toThrow();
+      expect((await repo.getSpaceById(kept.id))?.capacity).toBe(9);
+    });
+
+    it("purges spaces trashed before the cutoff, with their rules", async () => {
+      const { repo, create } = await start();
+      const space = await create({ name: "Room A" });
+      const kept = await create({ name: "Room B" });
+      await repo.saveSpaceRules(space.id, rules);
+      await repo.softDeleteSpace(space.id, context);
+      await repo.softDeleteSpace(kept.id, context);
+
+      const cutoff = new Date(Date.now() + 60_000);
+      expect(await repo.purgeDeletedSpaces(new Date(0))).toBe(0);
+      expect(await repo.purgeDeletedSpaces(cutoff)).toBeGreaterThanOrEqual(2);
+      expect(await repo.getSpaceIncludingDeleted(space.id)).toBeNull();
+      expect(await repo.getSpaceRules(space.id)).toBeNull();
+    });
+
+    it("keeps rules and blackouts per space", async () => {
+      const { repo, create } = await start();
+      const space = await create({ name: "Room A" });
+      const other = await create({ name: "Room B" });
+
+      expect(await repo.getSpaceRules(space.id)).toBeNull();
+      const saved = await repo.saveSpaceRules(space.id, rules);
+      expect(saved).toMatchObject({ spaceId: space.id, ...rules });
+      expect(await repo.getSpaceRules(space.id)).toEqual(saved);
+
+      const at = (hour: number) => new Date(Date.UTC(2026, 5, 1, hour));
+      const late = await repo.createBlackout({
+        spaceId: space.id,
+        startAt: at(14),
+        endAt: at(16),
+        reason: "cleaning",
+      });
+      const early = await repo.createBlackout({
+        spaceId: space.id,
+        startAt: at(8),
+        endAt: at(9),
+        reason: "inspection",
+      });
+      expect((await repo.listBlackouts(space.id)).map((b) => b.id)).toEqual([
+        early.id,
+        late.id,
+      ]);
+
+      const policy = await repo.getBookingPolicy(space.id, at(9), at(15));
+      expect(policy.rules).toEqual(rules);
+      expect(policy.blackouts.map((b) => b.reason)).toEqual(["cleaning"]);
+      expect(await repo.getBookingPolicy(other.id, at(0), at(23))).toEqual({
+        rules: DEFAULT_BOOKING_RULES,
+        blackouts: [],
+      });
+
+      const policies = await repo.getBookingPolicies(
+        [space.id, other.id],
+        at(9),
+        at(15),
+      );
+      expect(policies.get(space.id)).toEqual(policy);
+      expect(policies.get(other.id)).toEqual({
+        rules: DEFAULT_BOOKING_RULES,
+        blackouts: [],
+      });
+
+      expect(await repo.deleteBlackout(other.id, late.id)).toBe(false);
+      expect(await repo.deleteBlackout(space.id, late.id)).toBe(true);
+      expect(await repo.deleteBlackout(space.id, late.id)).toBe(false);
+      expect(await repo.listBlackouts(space.id)).toEqual([early]);
+    });
+  });
+}
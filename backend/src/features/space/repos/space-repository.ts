@@ -0,0 +1,159 @@
+import type {
+  Space,
+  SpaceBlackout,
+  SpaceRules,
+} from "../../../generated/prisma/client.js";
+import type { AuditContext } from "../../audit/types.js";
+import type { BookingPolicy, BookingRules } from "../rules.js";
+import type { CursorPayload } from "../pagination.js";
+import type { ListSpacesQuery, SpaceSortKey } from "../types.js";
+
+/** A space with the keys of its amenities, sorted. */
+export type SpaceRecord = Space & { amenities: string[] };
+
+/**
+ * Which spaces a list matches, as in GET /api/spaces. Site and building
+ * filters match the spaces on any floor of them.
+ */
+export type SpaceFilter = Partial<
+  Pick<
+    ListSpacesQuery,
+    | "name"
+    | "minCapacity"
+    | "maxCapacity"
+    | "createdFrom"
+    | "createdTo"
+    | "siteId"
+    | "buildingId"
+    | "floorId"
+    | "amenities"
+  >
+>;
+
+export type SpaceQuery = {
+  filter: SpaceFilter;
+  // ties are broken by id, ascending
+  sort: SpaceSortKey[];
+  // only rows strictly after this position in the sort
+  after?: Pick<CursorPayload, "v" | "id">;
+  take: number;
+};
+
+export type AmenityFacet = { key: string; name: string; count: number };
+
+// amenities are resolved against the catalog by the caller
+type AmenityRef = { id: string; key: string };
+
+export type SpaceCreateData = {
+  name: string;
+  capacity: number;
+  floorId?: string | null;
+  requiresApproval?: boolean;
+  amenities?: AmenityRef[];
+};
+
+export type SpaceUpdateData = Partial<SpaceCreateData>;
+
+type SpaceImportData = {
+  name: string;
+  capacity: number;
+  externalKey?: string;
+};
+
+export type SpaceImportOp =
+  | { kind: "create"; data: SpaceImportData }
+  | { kind: "update"; id: string; data: SpaceImportData };
+
+/**
+ * Storage for spaces and their booking rules. Reads only see spaces that
+ * are not in the trash unless they say otherwise. Every write bumps the
+ * version, and is audited where the store keeps an audit log; writes that
+ * match no space return null.
+ */
+export interface SpaceRepository {
+  createSpace(
+    data: SpaceCreateData,
+    context: AuditContext,
+  ): Promise<SpaceRecord>;
+  getSpaceById(id: string): Promise<SpaceRecord | null>;
+  /** Like getSpaceById, but also finds spaces in the trash. */
+  getSpaceIncludingDeleted(id: string): Promise<SpaceRecord | null>;
+  /** Every active space, newest first. */
+  listSpaces(): Promise<SpaceRecord[]>;
+  findSpaces(query: SpaceQuery): Promise<SpaceRecord[]>;
+  countSpaces(filter: SpaceFilter): Promise<number>;
+  /** Per amenity, how many active spaces matching `filter` have it. */
+  countAmenityFacets(filter: SpaceFilter): Promise<AmenityFacet[]>;
+  /** How many active spaces each floor has; floors without any are left out. */
+  countSpacesByFloor(): Promise<Map<string, number>>;
+  /** Spaces on the floor, trashed ones included: they still reference it. */
+  countFloorSpaces(floorId: string): Promise<number>;
+  /** Active spaces of at least `minCapacity`, smallest first, then by name. */
+  listSpacesWithMinCapacity(minCapacity: number): Promise<SpaceRecord[]>;
+  /**
+   * `versions` comes from If-Match; undefined means any version is fine.
+   * Amenities given replace the current ones.
+   */
+  updateSpace(
+    id: string,
+    data: SpaceUpdateData,
+    context: AuditContext,
+    versions?: number[],
+  ): Promise<SpaceRecord | null>;
+  softDeleteSpace(
+    id: string,
+    context: AuditContext,
+    versions?: number[],
+  ): Promise<SpaceRecord | null>;
+  /** Trashed spaces, most recently deleted first. */
+  listDeletedSpaces(): Promise<SpaceRecord[]>;
+  restoreSpace(id: string, context: AuditContext): Promise<SpaceRecord | null>;
+  /**
+   * Candidates for matching import rows: spaces with one of the external
+   * keys (trashed ones included, since keys stay unique), plus active
+   * spaces with one of the names.
+   */
+  findImportMatches(
+    externalKeys: string[],
+    names: string[],
+  ): Promise<SpaceRecord[]>;
+  /**
+   * Applies every import write or none, and returns the written spaces in
+   * `ops` order.
+   */
+  applySpaceImport(
+    ops: SpaceImportOp[],
+    context: AuditContext,
+  ): Promise<SpaceRecord[]>;
+  /** Hard-deletes spaces trashed before `deletedBefore`; returns how many. */
+  purgeDeletedSpaces(deletedBefore: Date): Promise<number>;
+
+  getSpaceRules(spaceId: string): Promise<SpaceRules | null>;
+  saveSpaceRules(spaceId: string, rules: BookingRules): Promise<SpaceRules>;
+  /** Blackouts of the space, earliest first. */
+  listBlackouts(spaceId: string): Promise<SpaceBlackout[]>;
+  createBlackout(data: {
+    spaceId: string;
+    startAt: Date;
+    endAt: Date;
+    reason: string;
+  }): Promise<SpaceBlackout>;
+  /** Returns false when the space has no such blackout. */
+  deleteBlackout(spaceId: string, id: string): Promise<boolean>;
+  /**
+   * What the rules engine needs to check bookings of `spaceId` between
+   * `from` and `to`: the rule set (defaults when never saved) and the
+   * blackouts overlapping that window.
+   */
+  getBookingPolicy(
+    spaceId: string,
+    from: Date,
+    to: Date,
+  ): Promise<BookingPolicy>;
+  /** getBookingPolicy for several spaces at once, keyed by space id. */
+  getBookingPolicies(
+    spaceIds: string[],
+    from: Date,
+    to: Date,
+  ): Promise<Map<string, BookingPolicy>>;
+}
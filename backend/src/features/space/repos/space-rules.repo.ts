@@ -0,0 +1,100 @@
+import { prisma } from "../../../config/prisma.js";
+import { Prisma } from "../../../generated/prisma/client.js";
+import type { SpaceRules } from "../../../generated/prisma/client.js";
+import { DEFAULT_BOOKING_RULES } from "../rules.js";
+import type { Blackout, BookingPolicy, BookingRules } from "../rules.js";
+import type { OpeningHours } from "../types.js";
+
+export async function getSpaceRules(spaceId: string) {
+  return prisma.spaceRules.findUnique({ where: { spaceId } });
+}
+
+export async function saveSpaceRules(spaceId: string, rules: BookingRules) {
+  const data = {
+    ...rules,
+    // Prisma needs DbNull to store SQL NULL in a Json column
+    openingHours: rules.openingHours ?? Prisma.DbNull,
+  };
+  return prisma.spaceRules.upsert({
+    where: { spaceId },
+    create: { spaceId, ...data },
+    update: data,
+  });
+}
+
+export async function listBlackouts(spaceId: string) {
+  return prisma.spaceBlackout.findMany({
+    where: { spaceId },
+    orderBy: { startAt: "asc" },
+  });
+}
+
+export async function createBlackout(data: {
+  spaceId: string;
+  startAt: Date;
+  endAt: Date;
+  reason: string;
+}) {
+  return prisma.spaceBlackout.create({ data });
+}
+
+/** Returns false when the space has no such blackout. */
+export async function deleteBlackout(spaceId: string, id: string) {
+  const { count } = await prisma.spaceBlackout.deleteMany({
+    where: { id, spaceId },
+  });
+  return count > 0;
+}
+
+function toBookingRules(row: SpaceRules | null): BookingRules {
+  if (!row) return DEFAULT_BOOKING_RULES;
+  return {
+    timeZone: row.timeZone,
+    openingHours: row.openingHours as OpeningHours | null,
+    maxDurationMinutes: row.maxDurationMinutes,
+    leadTimeMinutes: row.leadTimeMinutes,
+    horizonDays: row.horizonDays,
+    bufferMinutes: row.bufferMinutes,
+  };
+}
+
+export async function getBookingPolicy(
+  spaceId: string,
+  from: Date,
+  to: Date,
+): Promise<BookingPolicy> {
+  const [row, blackouts] = await Promise.all([
+    prisma.spaceRules.findUnique({ where: { spaceId } }),
+    prisma.spaceBlackout.findMany({
+      where: { spaceId, startAt: { lt: to }, endAt: { gt: from } },
+    }),
+  ]);
+  return { rules: toBookingRules(row), blackouts: blackouts as Blackout[] };
+}
+
+export async function getBookingPolicies(
+  spaceIds: string[],
+  from: Date,
+  to: Date,
+): Promise<Map<string, BookingPolicy>> {
+  const [rows, blackouts] = await Promise.all([
+    prisma.spaceRules.findMany({ where: { spaceId: { in: spaceIds } } }),
+    prisma.spaceBlackout.findMany({
+      where: {
+        spaceId: { in: spaceIds },
+        startAt: { lt: to },
+        endAt: { gt: from },
+      },
+    }),
+  ]);
+  const saved = new Map(rows.map((row) => [row.spaceId, row]));
+  return new Map(
+    spaceIds.map((spaceId) => [
+      spaceId,
+      {
+        rules: toBookingRules(saved.get(spaceId) ?? null),
+        blackouts: blackouts.filter((b) => b.spaceId === spaceId) as Blackout[],
+      },
+    ]),
+  );
+}
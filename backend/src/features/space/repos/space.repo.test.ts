@@ -0,0 +1,47 @@
+import { randomUUID } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { prisma } from "../../../config/prisma.js";
+import { describeSpaceRepositoryContract } from "./space-repository.contract.js";
+import { prismaSpaceRepository } from "./space.repo.js";
+import { prismaLocationRepository } from "../../location/repos/location.repo.js";
+
+// needs a disposable MySQL database: the suite leaves its spaces, amenities
+// and locations behind and empties the trash
+describe.runIf(process.env.TEST_WITH_DATABASE === "true")("MySQL", () => {
+  describeSpaceRepositoryContract("prisma space repository", () => ({
+    repository: prismaSpaceRepository,
+    amenities: (keys) =>
+      Promise.all(
+        keys.map((key) =>
+          prisma.amenity.upsert({
+            where: { key },
+            create: { key, name: key },
+            update: {},
+            select: { id: true, key: true },
+          }),
+        ),
+      ),
+    locations: prismaLocationRepository,
+  }));
+
+  it("audits moving a space to the trash and back", async () => {
+    const requestId = randomUUID();
+    const context = { actorId: null, requestId };
+    const space = await prismaSpaceRepository.createSpace(
+      { name: `${requestId} Room A`, capacity: 4 },
+      context,
+    );
+    await prismaSpaceRepository.softDeleteSpace(space.id, context);
+    await prismaSpaceRepository.restoreSpace(space.id, context);
+
+    const events = await prisma.auditEvent.findMany({
+      where: { entityType: "space", entityId: space.id },
+      orderBy: { createdAt: "asc" },
+    });
+    expect(events.map((e) => [e.action, e.requestId])).toEqual([
+      ["create", requestId],
+      ["delete", requestId],
+      ["restore", requestId],
+    ]);
+  });
+});
@@ -1,24 +1,407 @@
 import { prisma } from "../../../config/prisma.js";
+import { Prisma } from "../../../generated/prisma/client.js";
+import { recordAuditEvent } from "../../audit/repos/audit.repo.js";
+import { enqueueEvent } from "../../outbox/repos/outbox.repo.js";
+import type { AuditAction, AuditContext } from "../../audit/types.js";
+import { spaceChanges } from "../entity.js";
+import { afterCursor, toOrderBy } from "../pagination.js";
+import * as rulesRepo from "./space-rules.repo.js";
+import type {
+  SpaceCreateData,
+  SpaceFilter,
+  SpaceImportOp,
+  SpaceQuery,
+  SpaceRecord,
+  SpaceRepository,
+  SpaceUpdateData,
+} from "./space-repository.js";
 
-export async function createSpace(data: { name: string; capacity: number }) {
-  return prisma.space.create({ data });
+// Everything except the trash helpers only sees spaces that are not deleted
+const active = { deletedAt: null };
+
+// every read brings the amenity keys along, for SpaceDTO.amenities
+const withAmenities = {
+  amenities: {
+    select: { amenity: { select: { key: true } } },
+    orderBy: { amenity: { key: "asc" } },
+  },
+} satisfies Prisma.SpaceInclude;
+
+type SpaceWithAmenities = Prisma.SpaceGetPayload<{
+  include: typeof withAmenities;
+}>;
+
+function toRecord(space: SpaceWithAmenities): SpaceRecord {
+  return { ...space, amenities: space.amenities.map((a) => a.amenity.key) };
+}
+
+// replaces the space's amenities; undefined leaves them alone
+function amenitiesData(amenities: SpaceCreateData["amenities"]) {
+  return (
+    amenities && {
+      deleteMany: {},
+      create: amenities.map((amenity) => ({ amenityId: amenity.id })),
+    }
+  );
+}
+
+function toWhere(filter: SpaceFilter): Prisma.SpaceWhereInput {
+  const where: Prisma.SpaceWhereInput = {};
+  // MySQL's default collation makes contains case-insensitive
+  if (filter.name) where.name = { contains: filter.name };
+  if (filter.minCapacity !== undefined || filter.maxCapacity !== undefined)
+    where.capacity = { gte: filter.minCapacity, lte: filter.maxCapacity };
+  if (filter.createdFrom || filter.createdTo)
+    where.createdAt = {
+      gte: filter.createdFrom ? new Date(filter.createdFrom) : undefined,
+      lte: filter.createdTo ? new Date(filter.createdTo) : undefined,
+    };
+  if (filter.floorId) where.floorId = filter.floorId;
+  if (filter.buildingId || filter.siteId)
+    where.floor = {
+      buildingId: filter.buildingId,
+      building: filter.siteId ? { siteId: filter.siteId } : undefined,
+    };
+  // AND semantics: one "has this amenity" condition per key
+  if (filter.amenities?.length)
+    where.AND = filter.amenities.map((key) => ({
+      amenities: { some: { amenity: { key } } },
+    }));
+  return where;
+}
+
+// a write whose where clause matched no row
+function isNoMatch(err: unknown): boolean {
+  return (
+    err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2025"
+  );
+}
+
+const EVENT_TYPES = {
+  create: "space.created",
+  update: "space.updated",
+  delete: "space.deleted",
+  restore: "space.restored",
+} as const;
+
+/**
+ * Records the change from `before` to `after`, and queues it as a domain
+ * event for the outbox dispatcher, in the same transaction.
+ */
+async function audit(
+  tx: Prisma.TransactionClient,
+  action: AuditAction,
+  before: SpaceWithAmenities | null,
+  after: SpaceWithAmenities,
+  context: AuditContext,
+) {
+  const changes = spaceChanges(before && toRecord(before), toRecord(after));
+  // an update that set every field to its current value changed nothing
+  if (action === "update" && Object.keys(changes).length === 0) return;
+  await recordAuditEvent(tx, {
+    entityType: "space",
+    entityId: after.id,
+    action,
+    changes,
+    context,
+  });
+  await enqueueEvent(tx, {
+    type: EVENT_TYPES[action],
+    aggregateType: "space",
+    aggregateId: after.id,
+    payload: {
+      spaceId: after.id,
+      name: after.name,
+      changes,
+      actorId: context.actorId,
+    },
+  });
+}
+
+async function createSpace(data: SpaceCreateData, context: AuditContext) {
+  const { amenities, ...fields } = data;
+  return prisma.$transaction(async (tx) => {
+    const space = await tx.space.create({
+      data: {
+        ...fields,
+        amenities: amenities && {
+          create: amenities.map((amenity) => ({ amenityId: amenity.id })),
+        },
+      },
+      include: withAmenities,
+    });
+    await audit(tx, "create", null, space, context);
+    return toRecord(space);
+  });
+}
+
+async function getSpaceById(id: string) {
+  const space = await prisma.space.findFirst({
+    where: { id, ...active },
+    include: withAmenities,
+  });
+  return space && toRecord(space);
+}
+
+async function getSpaceIncludingDeleted(id: string) {
+  const space = await prisma.space.findUnique({
+    where: { id },
+    include: withAmenities,
+  });
+  return space && toRecord(space);
+}
+
+async function listSpaces() {
+  const spaces = await prisma.space.findMany({
+    where: active,
+    orderBy: { createdAt: "desc" },
+    include: withAmenities,
+  });
+  return spaces.map(toRecord);
+}
+
+async function findSpaces(query: SpaceQuery) {
+  const where = toWhere(query.filter);
+  const spaces = await prisma.space.findMany({
+    where: {
+      AND: [
+        where,
+        query.after ? afterCursor(query.sort, query.after) : {},
+        active,
+      ],
+    },
+    orderBy: toOrderBy(query.sort),
+    take: query.take,
+    include: withAmenities,
+  });
+  return spaces.map(toRecord);
+}
+
+async function countSpaces(filter: SpaceFilter) {
+  return prisma.space.count({ where: { AND: [toWhere(filter), active] } });
+}
+
+// every catalog amenity is listed, also those no matching space has
+async function countAmenityFacets(filter: SpaceFilter) {
+  const amenities = await prisma.amenity.findMany({
+    orderBy: { name: "asc" },
+    select: {
+      key: true,
+      name: true,
+      _count: {
+        select: {
+          spaces: { where: { space: { AND: [toWhere(filter), active] } } },
+        },
+      },
+    },
+  });
+  return amenities.map((a) => ({
+    key: a.key,
+    name: a.name,
+    count: a._count.spaces,
+  }));
 }
 
-export async function getSpaceById(id: string) {
-  return prisma.space.findUnique({ where: { id } });
+/**
+ * Applies `data` to the space matching `where`, bumps its version and audits
+ * the result. Returns null for a missing space, or one that no longer
+ * matches (e.g. a stale version).
+ */
+async function changeSpace(
+  id: string,
+  where: Omit<Prisma.SpaceWhereUniqueInput, "id" | "externalKey">,
+  data: Prisma.SpaceUpdateInput,
+  action: AuditAction,
+  context: AuditContext,
+) {
+  try {
+    return await changeMatchingSpace(id, where, data, action, context);
+  } catch (err) {
+    if (isNoMatch(err)) return null;
+    throw err;
+  }
+}
+
+// the update fails with Prisma P2025 when nothing matches
+async function changeMatchingSpace(
+  id: string,
+  where: Omit<Prisma.SpaceWhereUniqueInput, "id" | "externalKey">,
+  data: Prisma.SpaceUpdateInput,
+  action: AuditAction,
+  context: AuditContext,
+) {
+  return prisma.$transaction(async (tx) => {
+    // lock the row so concurrent writers cannot skew the before snapshot
+    await tx.$queryRaw`SELECT id FROM Space WHERE id = ${id} FOR UPDATE`;
+    const before = await tx.space.findUnique({
+      where: { id },
+      include: withAmenities,
+    });
+    const after = await tx.space.update({
+      where: { ...where, id },
+      data: { ...data, version: { increment: 1 } },
+      include: withAmenities,
+    });
+    await audit(tx, action, before, after, context);
+    return toRecord(after);
+  });
 }
 
-export async function listSpaces() {
-  return prisma.space.findMany({ orderBy: { createdAt: "desc" } });
+// `versions` comes from If-Match; undefined means any version is fine
+function activeWithVersion(versions: number[] | undefined) {
+  return versions ? { ...active, version: { in: versions } } : active;
 }
 
-export async function updateSpace(
+async function updateSpace(
   id: string,
-  data: { name?: string; capacity?: number },
+  data: SpaceUpdateData,
+  context: AuditContext,
+  versions?: number[],
 ) {
-  return prisma.space.update({ where: { id }, data });
+  const { amenities, ...fields } = data;
+  return changeSpace(
+    id,
+    activeWithVersion(versions),
+    { ...fields, amenities: amenitiesData(amenities) },
+    "update",
+    context,
+  );
+}
+
+async function softDeleteSpace(
+  id: string,
+  context: AuditContext,
+  versions?: number[],
+) {
+  return changeSpace(
+    id,
+    activeWithVersion(versions),
+    { deletedAt: new Date() },
+    "delete",
+    context,
+  );
+}
+
+async function listDeletedSpaces() {
+  const spaces = await prisma.space.findMany({
+    where: { deletedAt: { not: null } },
+    orderBy: { deletedAt: "desc" },
+    include: withAmenities,
+  });
+  return spaces.map(toRecord);
 }
 
-export async function deleteSpace(id: string) {
-  return prisma.space.delete({ where: { id } });
+async function restoreSpace(id: string, context: AuditContext) {
+  return changeSpace(
+    id,
+    { deletedAt: { not: null } },
+    { deletedAt: null },
+    "restore",
+    context,
+  );
 }
+
+async function findImportMatches(externalKeys: string[], names: string[]) {
+  const spaces = await prisma.space.findMany({
+    where: {
+      OR: [
+        { externalKey: { in: externalKeys } },
+        { name: { in: names }, ...active },
+      ],
+    },
+    include: withAmenities,
+  });
+  return spaces.map(toRecord);
+}
+
+// one transaction, so any failure rolls back the whole import
+async function applySpaceImport(ops: SpaceImportOp[], context: AuditContext) {
+  return prisma.$transaction(
+    async (tx) => {
+      const written: SpaceRecord[] = [];
+      for (const op of ops) {
+        if (op.kind === "create") {
+          const space = await tx.space.create({
+            data: op.data,
+            include: withAmenities,
+          });
+          await audit(tx, "create", null, space, context);
+          written.push(toRecord(space));
+          continue;
+        }
+        const before = await tx.space.findUnique({
+          where: { id: op.id },
+          include: withAmenities,
+        });
+        const after = await tx.space.update({
+          where: { id: op.id, ...active },
+          data: { ...op.data, version: { increment: 1 } },
+          include: withAmenities,
+        });
+        await audit(tx, "update", before, after, context);
+        written.push(toRecord(after));
+      }
+      return written;
+    },
+    // an import may write up to SPACE_IMPORT_MAX_ROWS spaces
+    { timeout: 60_000 },
+  );
+}
+
+// bookings go with them via ON DELETE CASCADE
+async function purgeDeletedSpaces(deletedBefore: Date) {
+  const { count } = await prisma.space.deleteMany({
+    where: { deletedAt: { lt: deletedBefore } },
+  });
+  return count;
+}
+
+async function countSpacesByFloor() {
+  const groups = await prisma.space.groupBy({
+    by: ["floorId"],
+    where: { ...active, floorId: { not: null } },
+    _count: { _all: true },
+  });
+  return new Map(groups.map((g) => [g.floorId!, g._count._all]));
+}
+
+async function countFloorSpaces(floorId: string) {
+  return prisma.space.count({ where: { floorId } });
+}
+
+async function listSpacesWithMinCapacity(minCapacity: number) {
+  const spaces = await prisma.space.findMany({
+    where: { capacity: { gte: minCapacity }, ...active },
+    orderBy: [{ capacity: "asc" }, { name: "asc" }],
+    include: withAmenities,
+  });
+  return spaces.map(toRecord);
+}
+
+/** Spaces and their rules in MySQL, through Prisma. */
+export const prismaSpaceRepository: SpaceRepository = {
+  createSpace,
+  getSpaceById,
+  getSpaceIncludingDeleted,
+  listSpaces,
+  findSpaces,
+  countSpaces,
+  countAmenityFacets,
+  countSpacesByFloor,
+  countFloorSpaces,
+  listSpacesWithMinCapacity,
+  updateSpace,
+  softDeleteSpace,
+  listDeletedSpaces,
+  restoreSpace,
+  findImportMatches,
+  applySpaceImport,
+  purgeDeletedSpaces,
+  getSpaceRules: rulesRepo.getSpaceRules,
+  saveSpaceRules: rulesRepo.saveSpaceRules,
+  listBlackouts: rulesRepo.listBlackouts,
+  createBlackout: rulesRepo.createBlackout,
+  deleteBlackout: rulesRepo.deleteBlackout,
+  getBookingPolicy: rulesRepo.getBookingPolicy,
+  getBookingPolicies: rulesRepo.getBookingPolicies,
+};
@@ -0,0 +1,19 @@
+import { storageConfig } from "../../config/storage.js";
+import { prismaSpaceRepository } from "./repos/space.repo.js";
+import { createMemorySpaceRepository } from "./repos/memory-space.repo.js";
+import type { SpaceRepository } from "./repos/space-repository.js";
+
+let repository: SpaceRepository =
+  storageConfig.driver === "memory"
+    ? createMemorySpaceRepository()
+    : prismaSpaceRepository;
+
+/** The space storage usecases work on, chosen by STORAGE_DRIVER. */
+export function spaceRepository(): SpaceRepository {
+  return repository;
+}
+
+/** Swaps the space storage, e.g. for a fresh in-memory one per test. */
+export function setSpaceRepository(next: SpaceRepository): void {
+  repository = next;
+}
@@ -0,0 +1,685 @@
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+// read when the storage config loads, before the app is imported
+vi.hoisted(() => {
+  process.env.STORAGE_DRIVER = "memory";
+});
+
+const { default: app } = await import("../../app.js");
+const { setSpaceRepository, spaceRepository } = await import("./repository.js");
+const { purgeDeletedSpacesUsecase } =
+  await import("./usecases/purge-deleted-spaces.usecase.js");
+const { spaceConfig } = await import("../../config/spaces.js");
+const { spaceSearchIndex } = await import("./search-index.js");
+const { setLocationRepository } = await import("../location/repository.js");
+const { createMemoryLocationRepository } =
+  await import("../location/repos/memory-location.repo.js");
+const { createMemorySpaceRepository } =
+  await import("./repos/memory-space.repo.js");
+const { setUserRepository, userRepository } =
+  await import("../auth/repository.js");
+const { createMemoryUserRepository } =
+  await import("../auth/repos/memory-user.repo.js");
+const { signToken } = await import("../auth/entity.js");
+const { setIdempotencyRepository } =
+  await import("../idempotency/repository.js");
+const { createMemoryIdempotencyRepository } =
+  await import("../idempotency/repos/memory-idempotency.repo.js");
+const { setAmenityRepository } = await import("../amenity/repository.js");
+const { createMemoryAmenityRepository } =
+  await import("../amenity/repos/memory-amenity.repo.js");
+const { setBookingRepository } = await import("../booking/repository.js");
+const { createMemoryBookingRepository } =
+  await import("../booking/repos/memory-booking.repo.js");
+const { setAuditRepository } = await import("../audit/repository.js");
+const { createMemoryAuditRepository } =
+  await import("../audit/repos/memory-audit.repo.js");
+
+let server: Server;
+let baseUrl: string;
+let admin: string;
+let adminId: string;
+let member: string;
+let siteId: string;
+let buildingId: string;
+let floorId: string;
+
+beforeAll(async () => {
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(async () => {
+  setSpaceRepository(createMemorySpaceRepository());
+  setBookingRepository(createMemoryBookingRepository());
+  setAuditRepository(createMemoryAuditRepository());
+  const amenities = createMemoryAmenityRepository();
+  setAmenityRepository(amenities);
+  await amenities.createAmenity({ key: "projector", name: "Projector" });
+  await amenities.createAmenity({ key: "vc", name: "Video conferencing" });
+  const locations = createMemoryLocationRepository();
+  setLocationRepository(locations);
+  ({ id: siteId } = await locations.createSite({ name: "Taipei HQ" }));
+  ({ id: buildingId } = await locations.createBuilding({
+    siteId,
+    name: "East Wing",
+  }));
+  ({ id: floorId } = await locations.createFloor({
+    buildingId,
+    name: "3F",
+    level: 3,
+  }));
+  spaceSearchIndex.invalidate();
+  setUserRepository(createMemoryUserRepository());
+  setIdempotencyRepository(createMemoryIdempotencyRepository());
+  const account = (email: string, role: "admin" | "member") =>
+    userRepository().createUser({ email, name: email, passwordHash: "", role });
+  const adminUser = await account("admin@example.com", "admin");
+  adminId = adminUser.id;
+  admin = signToken(adminUser);
+  member = signToken(await account("member@example.com", "member"));
+});
+
+type Call = {
+  token?: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+};
+
+async function call(method: string, path: string, options: Call = {}) {
+  const { token = admin, body, headers = {} } = options;
+  const res = await fetch(`${baseUrl}/api/spaces${path}`, {
+    method,
+    headers: {
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...(body !== undefined &&
+        typeof body !== "string" && { "Content-Type": "application/json" }),
+      ...headers,
+    },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+  const text = await res.text();
+  const json = res.headers.get("content-type")?.includes("json");
+  return {
+    status: res.status,
+    headers: res.headers,
+    body: json ? JSON.parse(text) : text,
+  };
+}
+
+async function createSpace(body: Record<string, unknown>) {
+  const res = await call("POST", "/", { body: { capacity: 4, ...body } });
+  expect(res.status).toBe(201);
+  return res.body;
+}
+
+describe("space routes", () => {
+  it("POST / creates spaces for managers only", async () => {
+    const res = await call("POST", "/", {
+      body: {
+        name: "Room A",
+        capacity: 6,
+        floorId,
+        amenities: ["vc", "projector"],
+      },
+    });
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({
+      name: "Room A",
+      capacity: 6,
+      floorId,
+      amenities: ["projector", "vc"],
+      version: 1,
+    });
+
+    expect(
+      (
+        await call("POST", "/", {
+          token: member,
+          body: { name: "B", capacity: 2 },
+        })
+      ).status,
+    ).toBe(403);
+    expect(
+      (await call("POST", "/", { token: "", body: { name: "B", capacity: 2 } }))
+        .status,
+    ).toBe(401);
+    expect(
+      (await call("POST", "/", { body: { name: "", capacity: 0 } })).status,
+    ).toBe(400);
+    expect(
+      (
+        await call("POST", "/", {
+          body: { name: "B", capacity: 2, amenities: ["sauna"] },
+        })
+      ).body.code,
+    ).toBe("VALIDATION_ERROR");
+    expect(
+      (
+        await call("POST", "/", {
+          body: { name: "B", capacity: 2, floorId: "floor-9" },
+        })
+      ).status,
+    ).toBe(400);
+  });
+
+  it("POST / replays the response to a repeated Idempotency-Key", async () => {
+    const send = (name: string) =>
+      call("POST", "/", {
+        body: { name, capacity: 4 },
+        headers: { "Idempotency-Key": "create-room-a" },
+      });
+    const first = await send("Room A");
+    expect(first.status).toBe(201);
+
+    const repeat = await send("Room A");
+    expect(repeat.status).toBe(201);
+    expect(repeat.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(repeat.body).toEqual(first.body);
+    expect((await call("GET", "/")).body.total).toBe(1);
+
+    expect((await send("Room B")).body.code).toBe("IDEMPOTENCY_KEY_REUSED");
+  });
+
+  it("GET / filters, sorts and pages with a cursor", async () => {
+    await createSpace({ name: "Huddle", capacity: 2 });
+    await createSpace({ name: "Room A", capacity: 8, amenities: ["vc"] });
+    await createSpace({
+      name: "Hall",
+      capacity: 40,
+      amenities: ["vc", "projector"],
+    });
+
+    const first = await call("GET", "/?sort=-capacity&limit=2", {
+      token: member,
+    });
+    expect(first.status).toBe(200);
+    expect(first.body.items.map((s: { name: string }) => s.name)).toEqual([
+      "Hall",
+      "Room A",
+    ]);
+    expect(first.body.total).toBe(3);
+    const second = await call(
+      "GET",
+      `/?sort=-capacity&limit=2&cursor=${first.body.nextCursor}`,
+    );
+    expect(second.body.items.map((s: { name: string }) => s.name)).toEqual([
+      "Huddle",
+    ]);
+    expect(second.body.nextCursor).toBeNull();
+
+    const filtered = await call(
+      "GET",
+      "/?amenities=vc&minCapacity=5&name=room",
+    );
+    expect(filtered.body.items.map((s: { name: string }) => s.name)).toEqual([
+      "Room A",
+    ]);
+    expect(filtered.body.facets.amenities).toEqual([
+      { key: "projector", name: "Projector", count: 0 },
+      { key: "vc", name: "Video conferencing", count: 1 },
+    ]);
+    expect((await call("GET", "/?cursor=nope")).status).toBe(400);
+  });
+
+  it("GET / filters by site and building through their floors", async () => {
+    await createSpace({ name: "Room A", floorId });
+    await createSpace({ name: "Hall" });
+
+    for (const query of [`siteId=${siteId}`, `buildingId=${buildingId}`]) {
+      const res = await call("GET", `/?${query}`, { token: member });
+      expect(res.body.items.map((s: { name: string }) => s.name)).toEqual([
+        "Room A",
+      ]);
+    }
+    expect((await call("GET", "/?siteId=elsewhere")).body.total).toBe(0);
+  });
+
+  it("GET /availability returns free spaces that fit, smallest first", async () => {
+    await createSpace({ name: "Hall", capacity: 40 });
+    await createSpace({ name: "Room A", capacity: 8 });
+    await createSpace({ name: "Huddle", capacity: 2 });
+
+    const start = new Date(Date.now() + 86_400_000);
+    const end = new Date(start.getTime() + 3_600_000);
+    const res = await call(
+      "GET",
+      `/availability?start=${start.toISOString()}&end=${end.toISOString()}&attendees=6`,
+      { token: member },
+    );
+    expect(res.status).toBe(200);
+    expect(res.body.spaces.map((s: { name: string }) => s.name)).toEqual([
+      "Room A",
+      "Hall",
+    ]);
+    expect((await call("GET", "/availability?attendees=6")).status).toBe(400);
+  });
+
+  it("GET /availability only offers slots the booking rules allow", async () => {
+    const hall = await createSpace({ name: "Hall", capacity: 40 });
+    const room = await createSpace({ name: "Room A", capacity: 8 });
+    const day = new Date(Date.now() + 2 * 86_400_000)
+      .toISOString()
+      .slice(0, 10);
+    const at = (clock: string) => new Date(`${day}T${clock}:00.000Z`);
+    // Room A is booked, Hall is blacked out
+    const booked = await call("POST", `/${room.id}/bookings`, {
+      body: {
+        title: "Sync",
+        attendees: 4,
+        startAt: at("10:00").toISOString(),
+        endAt: at("11:00").toISOString(),
+      },
+    });
+    expect(booked.status).toBe(201);
+    await call("PUT", `/${room.id}/rules`, { body: { bufferMinutes: 15 } });
+    await call("POST", `/${hall.id}/blackouts`, {
+      body: {
+        startAt: at("10:00").toISOString(),
+        endAt: at("11:00").toISOString(),
+        reason: "Cleaning",
+      },
+    });
+
+    const res = await call(
+      "GET",
+      `/availability?start=${at("10:00").toISOString()}&end=${at("11:00").toISOString()}&attendees=6`,
+      { token: member },
+    );
+    expect(res.status).toBe(200);
+    expect(res.body.spaces).toEqual([]);
+    const slots = res.body.suggestions.map(
+      (s: { spaceName: string; startAt: string }) =>
+        `${s.spaceName} ${s.startAt.slice(11, 16)}`,
+    );
+    // Room A keeps its 15 minute buffer around the booking
+    expect(slots).toEqual([
+      "Hall 11:00",
+      "Hall 09:00",
+      "Room A 11:15",
+      "Room A 08:45",
+    ]);
+  });
+
+  it("GET /search finds spaces by name and location, tolerating typos", async () => {
+    await createSpace({ name: "Conference Room", floorId });
+    const hall = await createSpace({ name: "East Hall" });
+    await call("PATCH", `/${hall.id}`, { body: { name: "Atrium" } });
+    await createSpace({ name: "Café" });
+
+    const res = await call("GET", "/search?q=confrence%20east", {
+      token: member,
+    });
+    expect(res.status).toBe(200);
+    expect(res.body.total).toBe(1);
+    expect(res.body.items[0]).toMatchObject({
+      space: { name: "Conference Room" },
+      location: "Taipei HQ / East Wing / 3F",
+      highlights: {
+        name: [{ start: 0, end: 10 }],
+        location: [{ start: 12, end: 16 }],
+      },
+    });
+    expect((await call("GET", "/search?q=CAFE")).body.items).toHaveLength(1);
+    expect((await call("GET", "/search?q=hall")).body.total).toBe(0);
+    expect((await call("GET", "/search?q=%20")).status).toBe(400);
+    expect((await call("GET", "/search?q=hall", { token: "" })).status).toBe(
+      401,
+    );
+  });
+
+  it("GET /calendar.ics exports a feed of every space", async () => {
+    await createSpace({ name: "Room A" });
+    const feedToken = async (method: string) => {
+      const res = await fetch(`${baseUrl}/api/auth/calendar-token`, {
+        method,
+        headers: { Authorization: `Bearer ${member}` },
+      });
+      return ((await res.json()) as { token: string }).token;
+    };
+    const feed = (token: string) =>
+      call("GET", `/calendar.ics?token=${token}`, { token: "" });
+
+    const token = await feedToken("GET");
+    expect(await feedToken("GET")).toBe(token);
+    const res = await feed(token);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/calendar");
+    expect(res.body).toContain("BEGIN:VCALENDAR");
+
+    // session tokens must not leak into subscription URLs
+    expect((await feed(member)).status).toBe(401);
+
+    const rotated = await feedToken("POST");
+    expect(rotated).not.toBe(token);
+    expect((await feed(token)).status).toBe(401);
+    expect((await feed(rotated)).status).toBe(200);
+  });
+
+  it("GET /:id returns the space with its version as ETag", async () => {
+    const space = await createSpace({ name: "Room A" });
+    const res = await call("GET", `/${space.id}`, { token: member });
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(space);
+    expect(res.headers.get("etag")).toBe('"1"');
+    expect((await call("GET", "/missing")).status).toBe(404);
+  });
+
+  it("PATCH /:id updates and honours If-Match", async () => {
+    const space = await createSpace({ name: "Room A", amenities: ["vc"] });
+    const res = await call("PATCH", `/${space.id}`, {
+      body: { capacity: 12, amenities: ["projector"] },
+      headers: { "If-Match": '"1"' },
+    });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      capacity: 12,
+      amenities: ["projector"],
+      version: 2,
+    });
+    expect(res.headers.get("etag")).toBe('"2"');
+
+    const stale = await call("PATCH", `/${space.id}`, {
+      body: { capacity: 3 },
+      headers: { "If-Match": '"1"' },
+    });
+    expect(stale.status).toBe(412);
+    expect(stale.body.details.current).toMatchObject({ capacity: 12 });
+    expect(
+      (await call("PATCH", "/missing", { body: { capacity: 3 } })).status,
+    ).toBe(404);
+    expect(
+      (
+        await call("PATCH", `/${space.id}`, {
+          token: member,
+          body: { capacity: 3 },
+        })
+      ).status,
+    ).toBe(403);
+  });
+
+  it("DELETE /:id trashes, GET /trash lists and POST /:id/restore restores", async () => {
+    const space = await createSpace({ name: "Room A" });
+    expect(
+      (await call("DELETE", `/${space.id}`, { headers: { "If-Match": '"2"' } }))
+        .status,
+    ).toBe(412);
+    expect((await call("DELETE", `/${space.id}`)).status).toBe(204);
+    expect((await call("GET", `/${space.id}`)).status).toBe(404);
+    expect((await call("DELETE", `/${space.id}`)).status).toBe(404);
+
+    expect((await call("GET", "/")).body.total).toBe(0);
+    expect((await call("GET", "/search?q=room")).body.total).toBe(0);
+
+    const trash = await call("GET", "/trash");
+    expect(trash.status).toBe(200);
+    expect(trash.body).toMatchObject([{ id: space.id, version: 2 }]);
+    expect(Date.parse(trash.body[0].purgeAt)).toBeGreaterThan(
+      Date.parse(trash.body[0].deletedAt),
+    );
+    expect((await call("GET", "/trash", { token: member })).status).toBe(403);
+    expect(
+      (await call("POST", `/${space.id}/restore`, { token: member })).status,
+    ).toBe(403);
+
+    const restore = vi.spyOn(spaceRepository(), "restoreSpace");
+    const restored = await call("POST", `/${space.id}/restore`);
+    expect(restored.status).toBe(200);
+    expect(restored.body).toMatchObject({ deletedAt: null, version: 3 });
+    // audited as the admin who restored it, under the request's id
+    expect(restore).toHaveBeenCalledWith(space.id, {
+      actorId: adminId,
+      requestId: expect.any(String),
+    });
+    expect((await call("GET", `/${space.id}`)).body.version).toBe(3);
+    expect((await call("GET", "/search?q=room")).body.total).toBe(1);
+    expect((await call("GET", "/trash")).body).toEqual([]);
+    expect((await call("POST", `/${space.id}/restore`)).status).toBe(404);
+  });
+
+  it("trashed spaces are gone for good once purged", async () => {
+    const space = await createSpace({ name: "Room A" });
+    await call("DELETE", `/${space.id}`);
+
+    await purgeDeletedSpacesUsecase(
+      new Date(Date.now() + spaceConfig.trashRetentionMs + 1000),
+    );
+    expect((await call("GET", "/trash")).body).toEqual([]);
+    expect((await call("POST", `/${space.id}/restore`)).status).toBe(404);
+    expect((await call("GET", `/${space.id}`)).status).toBe(404);
+  });
+
+  it("POST /import creates and updates spaces from CSV or JSON", async () => {
+    const existing = await createSpace({ name: "Room A", capacity: 4 });
+    const csv = "name,capacity,externalKey\nRoom A,10,\nHall,40,hall-1\n";
+
+    const dryRun = await call("POST", "/import?dryRun=true", {
+      body: csv,
+      headers: { "Content-Type": "text/csv" },
+    });
+    expect(dryRun.status).toBe(200);
+    expect((await call("GET", "/")).body.total).toBe(1);
+
+    const res = await call("POST", "/import", {
+      body: csv,
+      headers: { "Content-Type": "text/csv" },
+    });
+    expect(res.status).toBe(200);
+    expect((await call("GET", `/${existing.id}`)).body.capacity).toBe(10);
+    expect((await call("GET", "/")).body.total).toBe(2);
+
+    const invalid = await call("POST", "/import", {
+      body: [{ name: "", capacity: -1 }],
+    });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.code).toBe("IMPORT_INVALID");
+
+    // well past express.json()'s default 100kb, like a CSV of the same rows
+    const rows = Array.from({ length: 1000 }, (_, i) => ({
+      name: `Room ${i} ${"x".repeat(150)}`,
+      capacity: 4,
+    }));
+    const large = await call("POST", "/import?dryRun=true", { body: rows });
+    expect(large.status).toBe(200);
+    // other JSON routes keep the default limit
+    const tooLarge = await call("POST", "/", {
+      body: { name: "x".repeat(200_000), capacity: 4 },
+    });
+    expect(tooLarge.status).toBe(413);
+    expect(tooLarge.body.code).toBe("PAYLOAD_TOO_LARGE");
+  });
+
+  it("GET /export streams every active space", async () => {
+    await createSpace({ name: "Room A", capacity: 6 });
+    await createSpace({ name: "Hall", capacity: 40 });
+
+    const json = await call("GET", "/export?format=json", { token: member });
+    expect(json.status).toBe(200);
+    expect(json.body.map((s: { name: string }) => s.name).sort()).toEqual([
+      "Hall",
+      "Room A",
+    ]);
+    const csv = await call("GET", "/export");
+    expect(csv.headers.get("content-type")).toContain("text/csv");
+    expect(csv.body.trim().split("\n")).toHaveLength(3);
+  });
+
+  it("GET /:id/history pages the audit events of the space", async () => {
+    const space = await createSpace({ name: "Room A" });
+    await call("PATCH", `/${space.id}`, { body: { name: "Room B" } });
+    await call("DELETE", `/${space.id}`);
+    await call("POST", `/${space.id}/restore`);
+
+    const path = `/${space.id}/history?limit=3`;
+    const res = await call("GET", path, { token: member });
+    expect(res.status).toBe(200);
+    expect(res.body.items.map((e: { action: string }) => e.action)).toEqual([
+      "restore",
+      "delete",
+      "update",
+    ]);
+    expect(res.body.items[2]).toMatchObject({
+      entityType: "space",
+      entityId: space.id,
+      changes: { name: { from: "Room A", to: "Room B" } },
+      actor: { id: adminId, name: "admin@example.com" },
+    });
+    expect(res.body.nextCursor).toBe(res.body.items[2].id);
+
+    const rest = await call("GET", `${path}&cursor=${res.body.nextCursor}`);
+    expect(rest.body).toMatchObject({
+      items: [
+        { action: "create", changes: { name: { from: null, to: "Room A" } } },
+      ],
+      nextCursor: null,
+    });
+    expect((await call("GET", "/missing/history")).status).toBe(404);
+  });
+
+  it("GET and PUT /:id/rules read and replace the booking rules", async () => {
+    const space = await createSpace({ name: "Room A" });
+    const defaults = await call("GET", `/${space.id}/rules`, { token: member });
+    expect(defaults.status).toBe(200);
+    expect(defaults.body).toMatchObject({ timeZone: "UTC", updatedAt: null });
+
+    const rules = {
+      timeZone: "Asia/Taipei",
+      maxDurationMinutes: 120,
+      bufferMinutes: 10,
+    };
+    const res = await call("PUT", `/${space.id}/rules`, { body: rules });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject(rules);
+    expect((await call("GET", `/${space.id}/rules`)).body).toEqual(res.body);
+    expect(
+      (await call("PUT", `/${space.id}/rules`, { token: member, body: rules }))
+        .status,
+    ).toBe(403);
+    expect((await call("GET", "/missing/rules")).status).toBe(404);
+  });
+
+  it("blackouts are listed, created and deleted per space", async () => {
+    const space = await createSpace({ name: "Room A" });
+    const blackout = {
+      startAt: "2026-06-01T08:00:00.000Z",
+      endAt: "2026-06-01T12:00:00.000Z",
+      reason: "maintenance",
+    };
+    const created = await call("POST", `/${space.id}/blackouts`, {
+      body: blackout,
+    });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject(blackout);
+
+    const list = await call("GET", `/${space.id}/blackouts`, { token: member });
+    expect(list.status).toBe(200);
+    expect(list.body).toEqual([created.body]);
+
+    const path = `/${space.id}/blackouts/${created.body.id}`;
+    expect((await call("DELETE", path, { token: member })).status).toBe(403);
+    expect((await call("DELETE", path)).status).toBe(204);
+    expect((await call("DELETE", path)).status).toBe(404);
+  });
+
+  it("GET /:id/calendar.ics exports the feed of one space", async () => {
+    const space = await createSpace({ name: "Room A" });
+    const res = await call("GET", `/${space.id}/calendar.ics`, {
+      token: member,
+    });
+    expect(res.status).toBe(200);
+    expect(res.body).toContain("X-WR-CALNAME:Room A");
+    expect((await call("GET", "/missing/calendar.ics")).status).toBe(404);
+  });
+
+  it("POST /:id/calendar/import books events and reports conflicts", async () => {
+    const space = await createSpace({ name: "Room A" });
+    const day = new Date(Date.now() + 2 * 86_400_000)
+      .toISOString()
+      .slice(0, 10);
+    const at = (clock: string) => `${day}T${clock}:00.000Z`;
+    const ics = (clock: string) => `${day.replaceAll("-", "")}T${clock}00Z`;
+    const booked = await call("POST", `/${space.id}/bookings`, {
+      body: {
+        title: "Sync",
+        attendees: 2,
+        startAt: at("10:00"),
+        endAt: at("11:00"),
+      },
+    });
+    expect(booked.status).toBe(201);
+
+    const event = (uid: string, from: string, to: string, extra: string[]) => [
+      "BEGIN:VEVENT",
+      `UID:${uid}`,
+      `DTSTART:${ics(from)}`,
+      `DTEND:${ics(to)}`,
+      ...extra,
+      "END:VEVENT",
+    ];
+    const file = [
+      "BEGIN:VCALENDAR",
+      ...event("standup@example.com", "0900", "0930", ["SUMMARY:Standup"]),
+      ...event("clash@example.com", "1030", "1100", ["SUMMARY:Clash"]),
+      ...event("cancelled@example.com", "1200", "1230", [
+        "SUMMARY:Lunch",
+        "STATUS:CANCELLED",
+      ]),
+      "END:VCALENDAR",
+    ].join("\r\n");
+    const res = await call("POST", `/${space.id}/calendar/import`, {
+      token: member,
+      body: file,
+      headers: { "Content-Type": "text/calendar" },
+    });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      created: 1,
+      events: [
+        { uid: "standup@example.com", status: "created" },
+        {
+          uid: "clash@example.com",
+          status: "conflict",
+          conflicts: [
+            {
+              startAt: at("10:30"),
+              endAt: at("11:00"),
+              conflictingBookingIds: [booked.body.id],
+            },
+          ],
+        },
+        { uid: "cancelled@example.com", status: "skipped" },
+      ],
+    });
+
+    const bookings = await call("GET", `/${space.id}/bookings`);
+    expect(
+      bookings.body.map((b: { title: string; startAt: string }) => [
+        b.title,
+        b.startAt,
+      ]),
+    ).toEqual([
+      ["Standup", at("09:00")],
+      ["Sync", at("10:00")],
+    ]);
+    expect(bookings.body[0].id).toBe(res.body.events[0].bookingIds[0]);
+
+    const feed = await call("GET", `/${space.id}/calendar.ics`);
+    expect(feed.body).toContain("SUMMARY:Standup");
+    expect(feed.body).not.toContain("SUMMARY:Clash");
+  });
+});
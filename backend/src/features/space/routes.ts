@@ -1,16 +1,129 @@
 import { Router } from "express";
+import { requireAuth, requireRole } from "../../middlewares/auth.js";
+import { validate } from "../../middlewares/validate.js";
+import { limitSpaceWrites } from "../../middlewares/rate-limit.js";
+import { honorIdempotencyKey } from "../../middlewares/idempotency.js";
 import {
+  createBlackout,
   createSpace,
+  deleteBlackout,
   deleteSpace,
+  exportSpaces,
   getSpace,
+  getSpaceHistory,
+  getSpaceRules,
+  listBlackouts,
+  importSpaces,
   listSpaces,
+  listTrash,
+  restoreSpace,
+  searchAvailability,
+  searchSpaces,
   updateSpace,
+  updateSpaceRules,
 } from "./controller.js";
+import {
+  exportAllCalendars,
+  exportSpaceCalendar,
+  importSpaceCalendar,
+} from "../calendar/controller.js";
+import {
+  AvailabilityQuerySchema,
+  BlackoutParamsSchema,
+  CreateBlackoutSchema,
+  CreateSpaceSchema,
+  ExportSpacesQuerySchema,
+  ImportSpacesQuerySchema,
+  ListSpacesQuerySchema,
+  SearchSpacesQuerySchema,
+  SpaceIdParamsSchema,
+  UpdateSpaceRulesSchema,
+  UpdateSpaceSchema,
+} from "./schema.js";
+import { AuditPageQuerySchema } from "../audit/schema.js";
 
 export const spaceRouter = Router();
 
-spaceRouter.post("/", createSpace);
-spaceRouter.get("/", listSpaces);
-spaceRouter.get("/:id", getSpace);
-spaceRouter.patch("/:id", updateSpace);
-spaceRouter.delete("/:id", deleteSpace);
+// any signed-in user may read; only admins and managers change spaces
+const canManage = requireRole("admin", "manager");
+
+const byId = validate({ params: SpaceIdParamsSchema });
+
+// both only act on writes; a rate-limited request never claims its key
+spaceRouter.use(limitSpaceWrites, honorIdempotencyKey);
+
+spaceRouter.post(
+  "/",
+  canManage,
+  validate({ body: CreateSpaceSchema }),
+  createSpace,
+);
+spaceRouter.get(
+  "/",
+  requireAuth,
+  validate({ query: ListSpacesQuerySchema }),
+  listSpaces,
+);
+spaceRouter.get(
+  "/availability",
+  requireAuth,
+  validate({ query: AvailabilityQuerySchema }),
+  searchAvailability,
+);
+spaceRouter.get(
+  "/search",
+  requireAuth,
+  validate({ query: SearchSpacesQuerySchema }),
+  searchSpaces,
+);
+spaceRouter.get("/calendar.ics", requireAuth, exportAllCalendars);
+spaceRouter.get("/trash", canManage, listTrash);
+spaceRouter.post(
+  "/import",
+  canManage,
+  validate({ query: ImportSpacesQuerySchema }),
+  importSpaces,
+);
+spaceRouter.get(
+  "/export",
+  requireAuth,
+  validate({ query: ExportSpacesQuerySchema }),
+  exportSpaces,
+);
+spaceRouter.get("/:id", requireAuth, byId, getSpace);
+spaceRouter.patch(
+  "/:id",
+  canManage,
+  validate({ params: SpaceIdParamsSchema, body: UpdateSpaceSchema }),
+  updateSpace,
+);
+spaceRouter.delete("/:id", canManage, byId, deleteSpace);
+spaceRouter.post("/:id/restore", canManage, byId, restoreSpace);
+spaceRouter.get(
+  "/:id/history",
+  requireAuth,
+  validate({ params: SpaceIdParamsSchema, query: AuditPageQuerySchema }),
+  getSpaceHistory,
+);
+spaceRouter.get("/:id/rules", requireAuth, byId, getSpaceRules);
+spaceRouter.put(
+  "/:id/rules",
+  canManage,
+  validate({ params: SpaceIdParamsSchema, body: UpdateSpaceRulesSchema }),
+  updateSpaceRules,
+);
+spaceRouter.get("/:id/blackouts", requireAuth, byId, listBlackouts);
+spaceRouter.post(
+  "/:id/blackouts",
+  canManage,
+  validate({ params: SpaceIdParamsSchema, body: CreateBlackoutSchema }),
+  createBlackout,
+);
+spaceRouter.delete(
+  "/:id/blackouts/:blackoutId",
+  canManage,
+  validate({ params: BlackoutParamsSchema }),
+  deleteBlackout,
+);
+spaceRouter.get("/:id/calendar.ics", requireAuth, exportSpaceCalendar);
+spaceRouter.post("/:id/calendar/import", requireAuth, importSpaceCalendar);
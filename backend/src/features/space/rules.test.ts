@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_BOOKING_RULES,
+  RuleContext,
+  checkBookingRules,
+} from "./rules.js";
+
+const at = (iso: string) => new Date(iso);
+const slot = (from: string, to: string) => ({
+  startAt: at(from),
+  endAt: at(to),
+});
+
+// Monday 2026-03-02, noon UTC
+const now = at("2026-03-02T12:00:00Z");
+
+function context(overrides: Partial<RuleContext> = {}): RuleContext {
+  return {
+    rules: DEFAULT_BOOKING_RULES,
+    blackouts: [],
+    neighbours: [],
+    now,
+    ...overrides,
+  };
+}
+
+const rulesOf = (violations: { rule: string }[]) =>
+  violations.map((v) => v.rule);
+
+describe("booking rules", () => {
+  it("allows anything under the default rules", () => {
+    expect(
+      checkBookingRules(
+        slot("2026-03-03T01:00:00Z", "2026-03-04T23:00:00Z"),
+        context(),
+      ),
+    ).toEqual([]);
+  });
+
+  it("checks opening hours in the rules' time zone", () => {
+    const rules = {
+      ...DEFAULT_BOOKING_RULES,
+      timeZone: "Asia/Taipei",
+      // weekdays 09:00-18:00
+      openingHours: [1, 2, 3, 4, 5].map((weekday) => ({
+        weekday,
+        opens: "09:00",
+        closes: "18:00",
+      })),
+    };
+    // Tuesday 09:00-10:00 in Taipei
+    expect(
+      checkBookingRules(
+        slot("2026-03-03T01:00:00Z", "2026-03-03T02:00:00Z"),
+        context({ rules }),
+      ),
+    ).toEqual([]);
+    // Tuesday 17:30-18:30 runs past closing
+    expect(
+      rulesOf(
+        checkBookingRules(
+          slot("2026-03-03T09:30:00Z", "2026-03-03T10:30:00Z"),
+          context({ rules }),
+        ),
+      ),
+    ).toEqual(["openingHours"]);
+    // Saturday
+    const [closed] = checkBookingRules(
+      slot("2026-03-07T02:00:00Z", "2026-03-07T03:00:00Z"),
+      context({ rules }),
+    );
+    expect(closed.message).toBe("the space is closed on Saturday");
+  });
+
+  it("lets a slot end at midnight when the day closes at 24:00", () => {
+    const rules = {
+      ...DEFAULT_BOOKING_RULES,
+      openingHours: [{ weekday: 2, opens: "20:00", closes: "24:00" }],
+    };
+    expect(
+      checkBookingRules(
+        slot("2026-03-03T22:00:00Z", "2026-03-04T00:00:00Z"),
+        context({ rules }),
+      ),
+    ).toEqual([]);
+    expect(
+      rulesOf(
+        checkBookingRules(
+          slot("2026-03-03T22:00:00Z", "2026-03-04T00:30:00Z"),
+          context({ rules }),
+        ),
+      ),
+    ).toEqual(["openingHours"]);
+  });
+
+  it("refuses slots overlapping a blackout and names the reason", () => {
+    const blackouts = [
+      {
+        ...slot("2026-03-05T00:00:00Z", "2026-03-06T00:00:00Z"),
+        reason: "carpet cleaning",
+      },
+    ];
+    const [violation] = checkBookingRules(
+      slot("2026-03-05T10:00:00Z", "2026-03-05T11:00:00Z"),
+      context({ blackouts }),
+    );
+    expect(violation.rule).toBe("blackout");
+    expect(violation.message).toContain("carpet cleaning");
+    expect(
+      checkBookingRules(
+        slot("2026-03-06T00:00:00Z", "2026-03-06T01:00:00Z"),
+        context({ blackouts }),
+      ),
+    ).toEqual([]);
+  });
+
+  it("enforces max duration, lead time and horizon", () => {
+    const rules = {
+      ...DEFAULT_BOOKING_RULES,
+      maxDurationMinutes: 120,
+      leadTimeMinutes: 60,
+      horizonDays: 14,
+    };
+    expect(
+      rulesOf(
+        checkBookingRules(
+          slot("2026-03-02T12:30:00Z", "2026-03-02T15:00:00Z"),
+          context({ rules }),
+        ),
+      ),
+    ).toEqual(["maxDuration", "leadTime"]);
+    expect(
+      rulesOf(
+        checkBookingRules(
+          slot("2026-03-17T12:00:00Z", "2026-03-17T13:00:00Z"),
+          context({ rules }),
+        ),
+      ),
+    ).toEqual(["horizon"]);
+    expect(
+      checkBookingRules(
+        slot("2026-03-02T13:00:00Z", "2026-03-02T15:00:00Z"),
+        context({ rules }),
+      ),
+    ).toEqual([]);
+  });
+
+  it("keeps the buffer free around neighbouring bookings", () => {
+    const rules = { ...DEFAULT_BOOKING_RULES, bufferMinutes: 15 };
+    const neighbours = [slot("2026-03-03T09:00:00Z", "2026-03-03T10:00:00Z")];
+    expect(
+      rulesOf(
+        checkBookingRules(
+          slot("2026-03-03T10:10:00Z", "2026-03-03T11:00:00Z"),
+          context({ rules, neighbours }),
+        ),
+      ),
+    ).toEqual(["buffer"]);
+    expect(
+      checkBookingRules(
+        slot("2026-03-03T10:15:00Z", "2026-03-03T11:00:00Z"),
+        context({ rules, neighbours }),
+      ),
+    ).toEqual([]);
+  });
+});
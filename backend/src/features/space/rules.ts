@@ -0,0 +1,162 @@
+import { Interval, overlaps } from "./availability.js";
+import { toWallClock } from "../../utils/time-zone.js";
+import type { OpeningHours, RuleViolation } from "./types.js";
+
+/**
+ * The booking rules engine. Every way of reserving a space (single
+ * bookings, reschedules, recurring series, calendar imports) runs the
+ * requested slot through checkBookingRules and refuses it on violations.
+ * Overlaps with other bookings are not a rule: they stay BOOKING_CONFLICT.
+ */
+
+export type BookingRules = {
+  timeZone: string;
+  openingHours: OpeningHours | null;
+  maxDurationMinutes: number | null;
+  leadTimeMinutes: number | null;
+  horizonDays: number | null;
+  bufferMinutes: number;
+};
+
+// used for spaces whose rules were never saved
+export const DEFAULT_BOOKING_RULES: BookingRules = {
+  timeZone: "UTC",
+  openingHours: null,
+  maxDurationMinutes: null,
+  leadTimeMinutes: null,
+  horizonDays: null,
+  bufferMinutes: 0,
+};
+
+export type Blackout = Interval & { reason: string };
+
+/** The rules of a space and its blackouts around the slots checked. */
+export type BookingPolicy = { rules: BookingRules; blackouts: Blackout[] };
+
+export type RuleContext = {
+  rules: BookingRules;
+  // blackouts of the space around the slot
+  blackouts: Blackout[];
+  // other bookings of the space around the slot, for the buffer rule
+  neighbours: Interval[];
+  now: Date;
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+function secondsOf(clock: string): number {
+  const [hours, minutes] = clock.split(":").map(Number);
+  return (hours * 60 + minutes) * 60;
+}
+
+/** The slot must start and end within one open period of a single day. */
+function checkOpeningHours(
+  slot: Interval,
+  rules: BookingRules,
+): RuleViolation | undefined {
+  if (!rules.openingHours) return undefined;
+  const start = toWallClock(slot.startAt, rules.timeZone);
+  const end = toWallClock(slot.endAt, rules.timeZone);
+  const startDay = Date.UTC(start.year, start.month - 1, start.day);
+  const endDay = Date.UTC(end.year, end.month - 1, end.day);
+  const from = (start.hour * 60 + start.minute) * 60 + start.second;
+  let to = (end.hour * 60 + end.minute) * 60 + end.second;
+  // ending exactly at midnight counts as 24:00 on the starting day
+  if (endDay === startDay + DAY_MS && to === 0) to = 24 * 60 * 60;
+  else if (endDay !== startDay)
+    return {
+      rule: "openingHours",
+      message: `booking must start and end on the same day (${rules.timeZone})`,
+    };
+
+  const weekday = new Date(startDay).getUTCDay();
+  const hours = rules.openingHours.filter((h) => h.weekday === weekday);
+  if (
+    hours.some((h) => secondsOf(h.opens) <= from && to <= secondsOf(h.closes))
+  )
+    return undefined;
+  return {
+    rule: "openingHours",
+    message: hours.length
+      ? `booking must fall within the opening hours on ${WEEKDAYS[weekday]}: ${hours
+          .map((h) => `${h.opens}-${h.closes}`)
+          .join(", ")} (${rules.timeZone})`
+      : `the space is closed on ${WEEKDAYS[weekday]}`,
+  };
+}
+
+/** Every rule `slot` breaks, in a stable order; empty when it is allowed. */
+export function checkBookingRules(
+  slot: Interval,
+  context: RuleContext,
+): RuleViolation[] {
+  const { rules, now } = context;
+  const violations: RuleViolation[] = [];
+
+  const hours = checkOpeningHours(slot, rules);
+  if (hours) violations.push(hours);
+
+  for (const blackout of context.blackouts.filter((b) => overlaps(b, slot)))
+    violations.push({
+      rule: "blackout",
+      message: `the space is unavailable from ${blackout.startAt.toISOString()} to ${blackout.endAt.toISOString()}: ${blackout.reason}`,
+    });
+
+  const duration = slot.endAt.getTime() - slot.startAt.getTime();
+  if (
+    rules.maxDurationMinutes !== null &&
+    duration > rules.maxDurationMinutes * MINUTE_MS
+  )
+    violations.push({
+      rule: "maxDuration",
+      message: `booking may last at most ${rules.maxDurationMinutes} minutes`,
+    });
+
+  const notice = slot.startAt.getTime() - now.getTime();
+  if (
+    rules.leadTimeMinutes !== null &&
+    notice < rules.leadTimeMinutes * MINUTE_MS
+  )
+    violations.push({
+      rule: "leadTime",
+      message: `booking must be made at least ${rules.leadTimeMinutes} minutes before it starts`,
+    });
+
+  if (rules.horizonDays !== null && notice > rules.horizonDays * DAY_MS)
+    violations.push({
+      rule: "horizon",
+      message: `booking may start at most ${rules.horizonDays} days ahead`,
+    });
+
+  // overlapping neighbours are conflicts, not buffer violations
+  const padded = bufferedWindow(slot, rules);
+  if (
+    rules.bufferMinutes > 0 &&
+    context.neighbours.some((n) => !overlaps(n, slot) && overlaps(n, padded))
+  )
+    violations.push({
+      rule: "buffer",
+      message: `${rules.bufferMinutes} minutes must stay free between bookings`,
+    });
+
+  return violations;
+}
+
+/** The window to load neighbours for, so the buffer rule can be checked. */
+export function bufferedWindow(slot: Interval, rules: BookingRules): Interval {
+  const buffer = rules.bufferMinutes * MINUTE_MS;
+  return {
+    startAt: new Date(slot.startAt.getTime() - buffer),
+    endAt: new Date(slot.endAt.getTime() + buffer),
+  };
+}
@@ -0,0 +1,542 @@
+import { z } from "zod";
+import { amenityKey } from "../amenity/schema.js";
+import { NAME_MAX_LENGTH } from "../../utils/schema.js";
+
+/**
+ * Single source of truth for the Space API shapes: request validation
+ * (middlewares/validate.ts), the types in ./types.ts, the OpenAPI document
+ * and, through a type-only import, frontend/src/types/space.ts.
+ *
+ * Keep this module free of runtime imports other than zod (and other
+ * zod-only schema modules) so the frontend can type-check against it. The
+ * other features' schema modules and utils/schema.ts follow the same rule.
+ */
+
+const name = z
+  .string({
+    error: (issue) =>
+      issue.input === undefined ? "name is required" : "name must be a string",
+  })
+  .trim()
+  .min(1, "name cannot be empty")
+  .max(NAME_MAX_LENGTH, `name must be at most ${NAME_MAX_LENGTH} characters`);
+
+const capacity = z
+  .number({
+    error: (issue) =>
+      issue.input === undefined
+        ? "capacity is required"
+        : "capacity must be a number",
+  })
+  .int("capacity must be a positive integer")
+  .positive("capacity must be a positive integer");
+
+export const SpaceSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    capacity: z.number().int(),
+    // set through bulk import to match rows on later imports
+    externalKey: z.string().nullable(),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+    // null unless the space is in the trash
+    deletedAt: z.iso.datetime().nullable(),
+    // also sent as the ETag; echo it in If-Match to update or delete safely
+    version: z.number().int(),
+    // see GET /api/locations; null when the space has not been placed
+    floorId: z.string().nullable(),
+    // bookings go through reservation requests that approvers decide on
+    requiresApproval: z.boolean(),
+    // amenity keys, sorted; see GET /api/amenities for their names
+    amenities: z.array(z.string()),
+  })
+  .meta({ id: "Space" });
+
+export const TrashedSpaceSchema = SpaceSchema.extend({
+  deletedAt: z.iso.datetime(),
+  // when the scheduled purge will remove it for good
+  purgeAt: z.iso.datetime(),
+}).meta({ id: "TrashedSpace" });
+
+// null on update takes the space off its floor
+const floorId = z
+  .string({ error: "floorId must be a string" })
+  .min(1, "floorId cannot be empty")
+  .nullable()
+  .optional();
+
+// replaces the space's amenities as a whole; [] removes them all
+const amenities = z
+  .array(amenityKey, { error: "amenities must be an array of keys" })
+  .transform((keys) => [...new Set(keys)].sort())
+  .optional();
+
+const requiresApproval = z
+  .boolean({ error: "requiresApproval must be a boolean" })
+  .optional();
+
+export const CreateSpaceSchema = z
+  .object({ name, capacity, floorId, amenities, requiresApproval })
+  .meta({ id: "CreateSpaceInput" });
+
+// one bulk-import row: the create rules plus an optional matching key;
+// placing spaces on floors, picking amenities and approval settings are
+// left to the UI
+export const SpaceImportRowSchema = CreateSpaceSchema.omit({
+  floorId: true,
+  amenities: true,
+  requiresApproval: true,
+}).extend({
+  externalKey: z
+    .string({ error: "externalKey must be a string" })
+    .trim()
+    .min(1, "externalKey cannot be empty")
+    .max(
+      NAME_MAX_LENGTH,
+      `externalKey must be at most ${NAME_MAX_LENGTH} characters`,
+    )
+    .optional(),
+});
+
+export const UpdateSpaceSchema = z
+  .object({
+    name: name.optional(),
+    capacity: capacity.optional(),
+    floorId,
+    amenities,
+    requiresApproval,
+  })
+  .refine((input) => Object.values(input).some((v) => v !== undefined), {
+    message: "no fields to update",
+  })
+  .meta({ id: "UpdateSpaceInput" });
+
+// documentation only; controllers read the header through parseIfMatch
+export const IfMatchHeadersSchema = z.object({
+  "If-Match": z.string().optional().meta({
+    description:
+      'The ETag (quoted version, e.g. "3") the change is based on. Stale versions fail with 412.',
+  }),
+});
+
+export const SpaceIdParamsSchema = z.object({
+  id: z.string().min(1, "id is required"),
+});
+
+// query strings arrive as text, so attendees is coerced before checking
+export const AvailabilityQuerySchema = z.object({
+  start: z.iso.datetime({
+    offset: true,
+    error: "start must be a valid ISO 8601 date",
+  }),
+  end: z.iso.datetime({
+    offset: true,
+    error: "end must be a valid ISO 8601 date",
+  }),
+  attendees: z.coerce
+    .number({ error: "attendees must be a number" })
+    .int("attendees must be a positive integer")
+    .positive("attendees must be a positive integer"),
+});
+
+export const SPACE_SORT_FIELDS = [
+  "name",
+  "capacity",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+export type SpaceSortKey = {
+  field: (typeof SPACE_SORT_FIELDS)[number];
+  direction: "asc" | "desc";
+};
+
+export const SPACE_PAGE_MAX_LIMIT = 100;
+
+const optionalCount = (field: string) =>
+  z.coerce
+    .number({ error: `${field} must be a number` })
+    .int(`${field} must be a non-negative integer`)
+    .nonnegative(`${field} must be a non-negative integer`)
+    .optional();
+
+const optionalDate = (field: string) =>
+  z.iso
+    .datetime({ offset: true, error: `${field} must be a valid ISO 8601 date` })
+    .optional();
+
+// "-capacity,name" sorts by capacity descending, then name ascending
+const sort = z
+  .string()
+  .optional()
+  .transform((value, ctx): SpaceSortKey[] => {
+    if (!value) return [{ field: "createdAt", direction: "desc" }];
+    const keys: SpaceSortKey[] = [];
+    for (const part of value.split(",")) {
+      const field = part.replace(/^[-+]/, "");
+      if (!SPACE_SORT_FIELDS.includes(field as SpaceSortKey["field"])) {
+        ctx.addIssue({
+          code: "custom",
+          message: `sort field must be one of ${SPACE_SORT_FIELDS.join(", ")}`,
+        });
+        return z.NEVER;
+      }
+      if (keys.some((k) => k.field === field)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `sort field ${field} is repeated`,
+        });
+        return z.NEVER;
+      }
+      keys.push({
+        field: field as SpaceSortKey["field"],
+        direction: part.startsWith("-") ? "desc" : "asc",
+      });
+    }
+    return keys;
+  })
+  .meta({
+    description:
+      "Comma-separated fields; prefix with - for descending. Defaults to -createdAt.",
+    example: "-capacity,name",
+  });
+
+export const ListSpacesQuerySchema = z
+  .object({
+    limit: z.coerce
+      .number({ error: "limit must be a number" })
+      .int("limit must be an integer")
+      .min(1, "limit must be at least 1")
+      .max(
+        SPACE_PAGE_MAX_LIMIT,
+        `limit must be at most ${SPACE_PAGE_MAX_LIMIT}`,
+      )
+      .default(20),
+    cursor: z.string().min(1).optional(),
+    name: z.string().trim().min(1).optional(),
+    minCapacity: optionalCount("minCapacity"),
+    maxCapacity: optionalCount("maxCapacity"),
+    createdFrom: optionalDate("createdFrom"),
+    createdTo: optionalDate("createdTo"),
+    // location filters; the narrowest one given wins in practice
+    siteId: z.string().min(1).optional(),
+    buildingId: z.string().min(1).optional(),
+    floorId: z.string().min(1).optional(),
+    // spaces must have every listed amenity
+    amenities: z
+      .string()
+      .optional()
+      .transform((value) =>
+        value
+          ? [...new Set(value.split(",").map((key) => key.trim()))].filter(
+              Boolean,
+            )
+          : [],
+      )
+      .meta({
+        description: "Comma-separated amenity keys",
+        example: "projector,vc",
+      }),
+    sort,
+  })
+  .superRefine((query, ctx) => {
+    if (
+      query.minCapacity !== undefined &&
+      query.maxCapacity !== undefined &&
+      query.minCapacity > query.maxCapacity
+    )
+      ctx.addIssue({
+        code: "custom",
+        path: ["maxCapacity"],
+        message: "maxCapacity must not be less than minCapacity",
+      });
+    if (
+      query.createdFrom &&
+      query.createdTo &&
+      new Date(query.createdFrom) > new Date(query.createdTo)
+    )
+      ctx.addIssue({
+        code: "custom",
+        path: ["createdTo"],
+        message: "createdTo must not be before createdFrom",
+      });
+  });
+
+export const AmenityFacetSchema = z
+  .object({
+    key: z.string(),
+    name: z.string(),
+    // spaces matching the filters that also have this amenity, i.e. the
+    // total after adding it to ?amenities=
+    count: z.number().int(),
+  })
+  .meta({ id: "AmenityFacet" });
+
+export const SpacePageSchema = z
+  .object({
+    items: z.array(SpaceSchema),
+    // pass back as ?cursor= for the next page; null on the last page
+    nextCursor: z.string().nullable(),
+    // matches the filters, ignoring the cursor
+    total: z.number().int(),
+    // every amenity in the catalog, counted against the same filters
+    facets: z.object({ amenities: z.array(AmenityFacetSchema) }),
+  })
+  .meta({ id: "SpacePage" });
+
+export const SlotSuggestionSchema = z
+  .object({
+    spaceId: z.string(),
+    spaceName: z.string(),
+    capacity: z.number().int(),
+    startAt: z.iso.datetime(),
+    endAt: z.iso.datetime(),
+  })
+  .meta({ id: "SlotSuggestion" });
+
+export const AvailabilityResultSchema = z
+  .object({
+    spaces: z.array(SpaceSchema),
+    suggestions: z.array(SlotSuggestionSchema),
+  })
+  .meta({ id: "AvailabilityResult" });
+
+export const SPACE_SEARCH_MAX_LIMIT = 50;
+
+export const SearchSpacesQuerySchema = z.object({
+  q: z
+    .string({ error: "q is required" })
+    .trim()
+    .min(1, "q cannot be empty")
+    .max(100, "q must be at most 100 characters")
+    .meta({
+      description:
+        "Words to find in space names and locations, in any order; accents, case and small typos are ignored",
+      example: "east 3",
+    }),
+  limit: z.coerce
+    .number({ error: "limit must be a number" })
+    .int("limit must be an integer")
+    .min(1, "limit must be at least 1")
+    .max(
+      SPACE_SEARCH_MAX_LIMIT,
+      `limit must be at most ${SPACE_SEARCH_MAX_LIMIT}`,
+    )
+    .default(10),
+});
+
+// UTF-16 offsets into the matched text, end exclusive
+export const MatchRangeSchema = z
+  .object({ start: z.number().int(), end: z.number().int() })
+  .meta({ id: "MatchRange" });
+
+export const SpaceSearchHitSchema = z
+  .object({
+    space: SpaceSchema,
+    // "Site / Building / Floor"; null when the space has not been placed
+    location: z.string().nullable(),
+    // higher is better; only comparable within one search
+    score: z.number(),
+    highlights: z.object({
+      name: z.array(MatchRangeSchema),
+      location: z.array(MatchRangeSchema),
+    }),
+  })
+  .meta({ id: "SpaceSearchHit" });
+
+export const SpaceSearchResultSchema = z
+  .object({
+    // best match first
+    items: z.array(SpaceSearchHitSchema),
+    // every match, including those past the limit
+    total: z.number().int(),
+  })
+  .meta({ id: "SpaceSearchResult" });
+
+export const SPACE_IMPORT_MAX_ROWS = 1000;
+
+export const ImportSpacesQuerySchema = z.object({
+  // validate and report without writing anything
+  dryRun: z
+    .stringbool({ error: "dryRun must be true or false" })
+    .default(false),
+});
+
+// documentation only: the body is parsed row by row by the import usecase
+export const SpaceImportBodySchema = z
+  .array(z.record(z.string(), z.unknown()))
+  .meta({
+    description:
+      "Rows with name, capacity and optional externalKey. Also accepted as text/csv with a header row.",
+  });
+
+export const SpaceImportRowResultSchema = z
+  .object({
+    // 1-based position among the data rows (the CSV header is not counted)
+    row: z.number().int(),
+    input: z.record(z.string(), z.unknown()),
+    // null when the row is invalid
+    action: z.enum(["create", "update", "unchanged"]).nullable(),
+    // null for rows that create a space, until the import is committed
+    spaceId: z.string().nullable(),
+    errors: z.record(z.string(), z.string()).nullable(),
+  })
+  .meta({ id: "SpaceImportRowResult" });
+
+export const SpaceImportResultSchema = z
+  .object({
+    dryRun: z.boolean(),
+    // false when any row has errors; nothing is written in that case
+    valid: z.boolean(),
+    summary: z.object({
+      create: z.number().int(),
+      update: z.number().int(),
+      unchanged: z.number().int(),
+      invalid: z.number().int(),
+    }),
+    rows: z.array(SpaceImportRowResultSchema),
+  })
+  .meta({ id: "SpaceImportResult" });
+
+export const ExportSpacesQuerySchema = z.object({
+  format: z
+    .enum(["csv", "json"], { error: "format must be csv or json" })
+    .default("csv"),
+});
+
+// HH:MM on a 24-hour clock; closes may be 24:00 for "until midnight"
+const clock = z
+  .string({ error: "times must be strings" })
+  .regex(/^(?:[01]\d|2[0-3]):[0-5]\d$|^24:00$/, "times must be HH:MM");
+
+export const OpeningHoursSchema = z
+  .array(
+    z
+      .object({
+        // 0 = Sunday ... 6 = Saturday, as in Date#getDay
+        weekday: z
+          .number({ error: "weekday must be a number" })
+          .int("weekday must be 0 (Sunday) to 6 (Saturday)")
+          .min(0, "weekday must be 0 (Sunday) to 6 (Saturday)")
+          .max(6, "weekday must be 0 (Sunday) to 6 (Saturday)"),
+        opens: clock,
+        closes: clock,
+      })
+      .refine((hours) => hours.opens < hours.closes, {
+        path: ["closes"],
+        message: "closes must be after opens",
+      }),
+  )
+  .meta({
+    id: "OpeningHours",
+    description:
+      "Open periods per weekday in the rules' time zone; a day without entries is closed.",
+  });
+
+const minutes = (field: string) =>
+  z
+    .number({ error: `${field} must be a number` })
+    .int(`${field} must be a non-negative integer`)
+    .nonnegative(`${field} must be a non-negative integer`);
+
+export const SpaceRulesSchema = z
+  .object({
+    spaceId: z.string(),
+    timeZone: z.string(),
+    // null: open around the clock
+    openingHours: OpeningHoursSchema.nullable(),
+    // null means no limit for the three below
+    maxDurationMinutes: z.number().int().nullable(),
+    leadTimeMinutes: z.number().int().nullable(),
+    horizonDays: z.number().int().nullable(),
+    bufferMinutes: z.number().int(),
+    // null until the rules are first saved
+    updatedAt: z.iso.datetime().nullable(),
+  })
+  .meta({ id: "SpaceRules" });
+
+// replaces the whole rule set
+export const UpdateSpaceRulesSchema = z
+  .object({
+    timeZone: z
+      .string({ error: "timeZone must be a string" })
+      .min(1, "timeZone cannot be empty")
+      .default("UTC"),
+    openingHours: OpeningHoursSchema.nullable().default(null),
+    maxDurationMinutes: minutes("maxDurationMinutes")
+      .positive("maxDurationMinutes must be a positive integer")
+      .nullable()
+      .default(null),
+    leadTimeMinutes: minutes("leadTimeMinutes").nullable().default(null),
+    horizonDays: minutes("horizonDays")
+      .positive("horizonDays must be a positive integer")
+      .nullable()
+      .default(null),
+    bufferMinutes: minutes("bufferMinutes").default(0),
+  })
+  .meta({ id: "UpdateSpaceRulesInput" });
+
+export const BlackoutSchema = z
+  .object({
+    id: z.string(),
+    spaceId: z.string(),
+    startAt: z.iso.datetime(),
+    endAt: z.iso.datetime(),
+    reason: z.string(),
+    createdAt: z.iso.datetime(),
+  })
+  .meta({ id: "Blackout" });
+
+export const CreateBlackoutSchema = z
+  .object({
+    startAt: z.iso.datetime({
+      offset: true,
+      error: "startAt must be a valid ISO 8601 date",
+    }),
+    endAt: z.iso.datetime({
+      offset: true,
+      error: "endAt must be a valid ISO 8601 date",
+    }),
+    reason: z
+      .string({
+        error: (issue) =>
+          issue.input === undefined
+            ? "reason is required"
+            : "reason must be a string",
+      })
+      .trim()
+      .min(1, "reason cannot be empty")
+      .max(
+        NAME_MAX_LENGTH,
+        `reason must be at most ${NAME_MAX_LENGTH} characters`,
+      ),
+  })
+  .refine((input) => new Date(input.endAt) > new Date(input.startAt), {
+    path: ["endAt"],
+    message: "endAt must be after startAt",
+  })
+  .meta({ id: "CreateBlackoutInput" });
+
+export const BlackoutParamsSchema = z.object({
+  id: z.string().min(1, "id is required"),
+  blackoutId: z.string().min(1, "blackoutId is required"),
+});
+
+export const BOOKING_RULES = [
+  "openingHours",
+  "blackout",
+  "maxDuration",
+  "leadTime",
+  "horizon",
+  "buffer",
+] as const;
+
+export const RuleViolationSchema = z
+  .object({
+    rule: z.enum(BOOKING_RULES),
+    message: z.string(),
+    // which occurrence broke the rule, for recurring bookings
+    startAt: z.iso.datetime().optional(),
+  })
+  .meta({ id: "RuleViolation" });
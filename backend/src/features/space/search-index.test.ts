@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import { createSpaceSearchIndex, SearchIndexSource } from "./search-index.js";
+import type { SpaceDTO } from "./types.js";
+
+function space(id: string, name: string, floorId: string | null = null) {
+  const at = "2026-05-01T09:00:00.000Z";
+  const dto: SpaceDTO = {
+    id,
+    name,
+    capacity: 4,
+    externalKey: null,
+    createdAt: at,
+    updatedAt: at,
+    deletedAt: null,
+    version: 1,
+    floorId,
+    requiresApproval: false,
+    amenities: [],
+  };
+  return dto;
+}
+
+function source(spaces: SpaceDTO[], locations: [string, string][] = []) {
+  let loads = 0;
+  let release = () => {};
+  let gate: Promise<void> | null = null;
+  return {
+    get loads() {
+      return loads;
+    },
+    // holds the next load until release() is called
+    hold() {
+      gate = new Promise((resolve) => (release = resolve));
+      return () => release();
+    },
+    async load(): Promise<SearchIndexSource> {
+      loads++;
+      if (gate) await gate;
+      gate = null;
+      return { spaces: [...spaces], locations: new Map(locations) };
+    },
+  };
+}
+
+const names = (result: { items: { space: SpaceDTO }[] }) =>
+  result.items.map((hit) => hit.space.name);
+
+describe("space search index", () => {
+  it("loads on the first search and ranks the matches", async () => {
+    const store = source(
+      [
+        space("1", "Conf Rm 3F East"),
+        space("2", "East Hall"),
+        space("3", "Board Room", "f1"),
+      ],
+      [["f1", "HQ / East Wing / 3F"]],
+    );
+    const index = createSpaceSearchIndex(() => store.load(), 60_000);
+
+    const result = await index.search("east", 10);
+    expect(store.loads).toBe(1);
+    // name matches count more than location matches
+    expect(names(result)).toEqual([
+      "Conf Rm 3F East",
+      "East Hall",
+      "Board Room",
+    ]);
+    expect(result.items[2]).toMatchObject({
+      location: "HQ / East Wing / 3F",
+      highlights: { name: [], location: [{ start: 5, end: 9 }] },
+    });
+
+    const limited = await index.search("east", 1);
+    expect(limited.total).toBe(3);
+    expect(limited.items).toHaveLength(1);
+    expect((await index.search("?!", 10)).total).toBe(0);
+    expect(store.loads).toBe(1);
+  });
+
+  it("applies writes without reloading, and reloads once stale", async () => {
+    let now = 0;
+    const store = source([space("1", "East Hall")]);
+    const index = createSpaceSearchIndex(
+      () => store.load(),
+      1000,
+      () => now,
+    );
+    await index.search("hall", 10);
+
+    index.upsert(space("2", "West Hall"));
+    index.upsert({ ...space("1", "Atrium") });
+    expect(names(await index.search("hall", 10))).toEqual(["West Hall"]);
+    index.remove("2");
+    expect(await index.search("hall", 10)).toEqual({ items: [], total: 0 });
+    expect(store.loads).toBe(1);
+
+    now = 1000;
+    expect(names(await index.search("hall", 10))).toEqual(["East Hall"]);
+    expect(store.loads).toBe(2);
+    index.invalidate();
+    await index.search("hall", 10);
+    expect(store.loads).toBe(3);
+  });
+
+  it("keeps writes made while a load is running", async () => {
+    const store = source([space("1", "East Hall")]);
+    const index = createSpaceSearchIndex(() => store.load(), 60_000);
+    const release = store.hold();
+
+    const first = index.search("hall", 10);
+    const second = index.search("hall", 10);
+    index.upsert(space("2", "West Hall"));
+    release();
+
+    expect(names(await first)).toEqual(["East Hall", "West Hall"]);
+    expect(names(await second)).toEqual(["East Hall", "West Hall"]);
+    expect(store.loads).toBe(1);
+  });
+
+  it("reloads for a floor it has no location for", async () => {
+    const store = source([space("1", "East Hall")]);
+    const index = createSpaceSearchIndex(() => store.load(), 60_000);
+    await index.search("hall", 10);
+
+    index.upsert(space("1", "East Hall", "f9"));
+    await index.search("hall", 10);
+    expect(store.loads).toBe(2);
+  });
+});
@@ -0,0 +1,137 @@
+import { searchConfig } from "../../config/search.js";
+import { locationRepository } from "../location/repository.js";
+import { spaceRepository } from "./repository.js";
+import { matchFields, queryTokens } from "./search.js";
+import type { SpaceDTO, SpaceSearchHit, SpaceSearchResult } from "./types.js";
+import { toDTO } from "./entity.js";
+
+// a word found in the name counts twice as much as one in the location
+const NAME_WEIGHT = 2;
+const LOCATION_WEIGHT = 1;
+
+export type SearchIndexSource = {
+  spaces: SpaceDTO[];
+  // "Site / Building / Floor" by floor id
+  locations: Map<string, string>;
+};
+
+export type SpaceSearchIndex = {
+  search(query: string, limit: number): Promise<SpaceSearchResult>;
+  upsert(space: SpaceDTO): void;
+  remove(spaceId: string): void;
+  /** Rebuilds from the source on the next search. */
+  invalidate(): void;
+};
+
+/**
+ * Active spaces held in memory for fuzzy search. The index loads from
+ * `load` on the first search and again once it is `maxAgeMs` old; writes in
+ * this process are applied as they happen, including during a load.
+ */
+export function createSpaceSearchIndex(
+  load: () => Promise<SearchIndexSource>,
+  maxAgeMs: number,
+  now = () => Date.now(),
+): SpaceSearchIndex {
+  let spaces = new Map<string, SpaceDTO>();
+  let locations = new Map<string, string>();
+  let loadedAt: number | null = null;
+  let loading: Promise<void> | null = null;
+  // writes made while a load is running, replayed on top of its result
+  let pending: (() => void)[] | null = null;
+
+  async function refresh() {
+    pending = [];
+    try {
+      const source = await load();
+      spaces = new Map(source.spaces.map((space) => [space.id, space]));
+      locations = source.locations;
+      for (const change of pending) change();
+      loadedAt = now();
+    } finally {
+      pending = null;
+    }
+  }
+
+  function ensureFresh(): Promise<void> {
+    if (loadedAt !== null && now() - loadedAt < maxAgeMs)
+      return Promise.resolve();
+    loading ??= refresh().finally(() => {
+      loading = null;
+    });
+    return loading;
+  }
+
+  function apply(change: () => void) {
+    change();
+    pending?.push(change);
+  }
+
+  return {
+    async search(query, limit) {
+      await ensureFresh();
+      const tokens = queryTokens(query);
+      if (tokens.length === 0) return { items: [], total: 0 };
+
+      const hits: SpaceSearchHit[] = [];
+      for (const space of spaces.values()) {
+        const location = space.floorId
+          ? (locations.get(space.floorId) ?? null)
+          : null;
+        const match = matchFields(tokens, [
+          { text: space.name, weight: NAME_WEIGHT },
+          { text: location ?? "", weight: LOCATION_WEIGHT },
+        ]);
+        if (!match) continue;
+        hits.push({
+          space,
+          location,
+          score: Math.round(match.score * 100) / 100,
+          highlights: { name: match.ranges[0], location: match.ranges[1] },
+        });
+      }
+      hits.sort(
+        (a, b) =>
+          b.score - a.score ||
+          a.space.name.localeCompare(b.space.name) ||
+          Number(a.space.id > b.space.id) - Number(a.space.id < b.space.id),
+      );
+      return { items: hits.slice(0, limit), total: hits.length };
+    },
+
+    upsert(space) {
+      apply(() => spaces.set(space.id, space));
+      // a floor placed since the last load: fetch the location names again
+      if (space.floorId && !locations.has(space.floorId)) loadedAt = null;
+    },
+
+    remove(spaceId) {
+      apply(() => spaces.delete(spaceId));
+    },
+
+    invalidate() {
+      loadedAt = null;
+    },
+  };
+}
+
+async function loadSpaces(): Promise<SearchIndexSource> {
+  const spaces = await spaceRepository().listSpaces();
+  const locations = new Map<string, string>();
+  // only placed spaces need the location tree
+  if (spaces.some((space) => space.floorId))
+    for (const site of await locationRepository().getLocationTree())
+      for (const building of site.buildings)
+        for (const floor of building.floors)
+          locations.set(
+            floor.id,
+            `${site.name} / ${building.name} / ${floor.name}`,
+          );
+  return { spaces: spaces.map(toDTO), locations };
+}
+
+/** The index behind GET /api/spaces/search; space usecases keep it current. */
+export const spaceSearchIndex = createSpaceSearchIndex(
+  loadSpaces,
+  searchConfig.maxAgeMs,
+);
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import {
+  editDistance,
+  matchFields,
+  queryTokens,
+  typoBudget,
+} from "./search.js";
+
+const name = (text: string) => [{ text, weight: 2 }];
+const slice = (text: string, ranges: { start: number; end: number }[]) =>
+  ranges.map((r) => text.slice(r.start, r.end));
+
+describe("space search tokens", () => {
+  it("folds accents and case and drops punctuation", () => {
+    expect(queryTokens("  Café-Bar, CAFÉ  ")).toEqual(["cafe", "bar"]);
+    expect(queryTokens("會議室 3F")).toEqual(["會議室", "3f"]);
+    expect(queryTokens("--")).toEqual([]);
+  });
+
+  it("allows more typos in longer words", () => {
+    expect(["abc", "abcd", "abcdefgh"].map(typoBudget)).toEqual([0, 1, 2]);
+  });
+
+  it("counts swapped neighbours as one edit and stops past the limit", () => {
+    expect(editDistance("east", "east", 1)).toBe(0);
+    expect(editDistance("eats", "east", 1)).toBe(1);
+    expect(editDistance("conferance", "conference", 2)).toBe(1);
+    expect(editDistance("room", "hall", 2)).toBe(3);
+    expect(editDistance("a", "abcd", 1)).toBe(2);
+  });
+});
+
+describe("space search matching", () => {
+  it("finds names by words in any order, as prefixes", () => {
+    const text = "Conf Rm 3F East";
+    const match = matchFields(queryTokens("east 3"), name(text));
+    expect(match).not.toBeNull();
+    expect(slice(text, match!.ranges[0])).toEqual(["3", "East"]);
+  });
+
+  it("needs every word to match somewhere", () => {
+    expect(
+      matchFields(queryTokens("east 4"), name("Conf Rm 3F East")),
+    ).toBeNull();
+  });
+
+  it("tolerates typos, but not in short words", () => {
+    const matches = (query: string, text: string) =>
+      matchFields(queryTokens(query), name(text)) !== null;
+    expect(matches("conferance", "Conference Room")).toBe(true);
+    expect(matches("confrence", "Conference Room")).toBe(true);
+    expect(matches("confre", "Conference")).toBe(true);
+    expect(matches("rn", "Room")).toBe(false);
+  });
+
+  it("ranks exact words over prefixes over typos", () => {
+    const score = (query: string, text: string) =>
+      matchFields(queryTokens(query), name(text))?.score ?? 0;
+    expect(score("hall", "Hall")).toBeGreaterThan(score("hall", "Hallway"));
+    expect(score("hall", "Hallway")).toBeGreaterThan(score("hall", "Hull"));
+  });
+
+  it("reports ranges in the original text, accents included", () => {
+    const text = "Salle Médicis";
+    const match = matchFields(queryTokens("medic"), name(text));
+    expect(match!.ranges[0]).toEqual([{ start: 6, end: 11 }]);
+    expect(slice(text, match!.ranges[0])).toEqual(["Médic"]);
+  });
+
+  it("matches inside words, e.g. for names without spaces", () => {
+    const text = "三樓會議室";
+    const match = matchFields(queryTokens("會議"), name(text));
+    expect(slice(text, match!.ranges[0])).toEqual(["會議"]);
+  });
+
+  it("weights fields and keeps ranges per field", () => {
+    const fields = [
+      { text: "Room A", weight: 2 },
+      { text: "HQ / East Wing / 3F", weight: 1 },
+    ];
+    const match = matchFields(queryTokens("east room"), fields);
+    expect(match!.score).toBe(3);
+    expect(match!.ranges).toEqual([
+      [{ start: 0, end: 4 }],
+      [{ start: 5, end: 9 }],
+    ]);
+  });
+});
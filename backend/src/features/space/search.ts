@@ -0,0 +1,164 @@
+/**
+ * Fuzzy matching for space search. Text is folded (accents stripped,
+ * lowercased) and split into runs of letters and digits; every query token
+ * has to match a token of some field, exactly, as a prefix, inside it, or
+ * within a small edit distance. Offsets in results point into the original
+ * text, as UTF-16 indices with exclusive ends, so clients can slice it.
+ */
+
+export type MatchRange = { start: number; end: number };
+
+export type SearchField = { text: string; weight: number };
+
+export type FieldMatch = { score: number; ranges: MatchRange[][] };
+
+type Token = { text: string; start: number; end: number };
+
+type Folded = {
+  text: string;
+  // original offsets where each folded character starts and ends
+  starts: number[];
+  ends: number[];
+};
+
+const TOKEN = /[\p{L}\p{N}]+/gu;
+
+function fold(text: string): Folded {
+  const folded: Folded = { text: "", starts: [], ends: [] };
+  let offset = 0;
+  for (const char of text) {
+    // NFKD splits "é" into "e" plus a combining mark and "ﬁ" into "fi"
+    const plain = char.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+    for (let i = 0; i < plain.length; i++) {
+      folded.starts.push(offset);
+      folded.ends.push(offset + char.length);
+    }
+    folded.text += plain;
+    offset += char.length;
+  }
+  return folded;
+}
+
+function tokensOf(folded: Folded): Token[] {
+  return [...folded.text.matchAll(TOKEN)].map((m) => ({
+    text: m[0],
+    start: m.index,
+    end: m.index + m[0].length,
+  }));
+}
+
+/** The distinct folded tokens of a query. */
+export function queryTokens(query: string): string[] {
+  return [...new Set(tokensOf(fold(query)).map((t) => t.text))];
+}
+
+/** Typos forgiven per query token: none below 4 characters, 2 from 8. */
+export function typoBudget(token: string): number {
+  if (token.length >= 8) return 2;
+  return token.length >= 4 ? 1 : 0;
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * neighbours, or max + 1 once it is certain to exceed `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let before: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1])
+        d = Math.min(d, before[j - 2] + 1);
+      current.push(d);
+      best = Math.min(best, d);
+    }
+    if (best > max) return max + 1;
+    [before, previous] = [previous, current];
+  }
+  return Math.min(previous[b.length], max + 1);
+}
+
+// how well a query token matches a field token, and which folded span
+function matchToken(
+  query: string,
+  token: string,
+): { score: number; start: number; end: number } | null {
+  if (token === query) return { score: 1, start: 0, end: token.length };
+  if (token.startsWith(query))
+    return { score: 0.8, start: 0, end: query.length };
+  const at = query.length >= 2 ? token.indexOf(query) : -1;
+  if (at >= 0) return { score: 0.5, start: at, end: at + query.length };
+
+  const budget = typoBudget(query);
+  if (!budget) return null;
+  const whole = editDistance(query, token, budget);
+  if (whole <= budget)
+    return { score: 0.7 - 0.2 * whole, start: 0, end: token.length };
+  // a mistyped prefix of a longer word, e.g. "confr" for "conference"
+  if (token.length > query.length) {
+    const prefix = editDistance(query, token.slice(0, query.length), budget);
+    if (prefix <= budget)
+      return { score: 0.6 - 0.2 * prefix, start: 0, end: query.length };
+  }
+  return null;
+}
+
+function merge(ranges: MatchRange[]): MatchRange[] {
+  const merged: MatchRange[] = [];
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end)
+      last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  }
+  return merged;
+}
+
+/**
+ * Scores `fields` against the query tokens, or null unless every token
+ * matches somewhere. Each token counts its best match, weighted by the
+ * field; `ranges` holds the matched spans per field, merged and in order.
+ */
+export function matchFields(
+  tokens: string[],
+  fields: SearchField[],
+): FieldMatch | null {
+  const prepared = fields.map((field, index) => {
+    const folded = fold(field.text);
+    return { index, weight: field.weight, folded, tokens: tokensOf(folded) };
+  });
+  const ranges: MatchRange[][] = fields.map(() => []);
+  let score = 0;
+
+  for (const query of tokens) {
+    let best: { score: number; field: number; range: MatchRange } | null = null;
+    for (const { index, weight, folded, tokens: fieldTokens } of prepared)
+      for (const token of fieldTokens) {
+        const match = matchToken(query, token.text);
+        if (!match || (best && best.score >= match.score * weight)) continue;
+        best = {
+          score: match.score * weight,
+          field: index,
+          range: {
+            start: folded.starts[token.start + match.start],
+            end: folded.ends[token.start + match.end - 1],
+          },
+        };
+      }
+    if (!best) return null;
+    const { score: tokenScore, field, range } = best;
+    score += tokenScore;
+    ranges[field].push(range);
+  }
+
+  return { score, ranges: ranges.map(merge) };
+}
@@ -1,17 +1,86 @@
-export type SpaceDTO = {
-  id: string;
-  name: string;
-  capacity: number;
-  createdAt: string;
-  updatedAt: string;
-};
-
-export type CreateSpaceInput = {
-  name: string;
-  capacity: number;
-};
-
-export type UpdateSpaceInput = {
-  name?: string;
-  capacity?: number;
-};
+import type { z } from "zod";
+import type {
+  AmenityFacetSchema,
+  AvailabilityQuerySchema,
+  AvailabilityResultSchema,
+  BlackoutParamsSchema,
+  BlackoutSchema,
+  CreateBlackoutSchema,
+  OpeningHoursSchema,
+  RuleViolationSchema,
+  SpaceRulesSchema,
+  UpdateSpaceRulesSchema,
+  CreateSpaceSchema,
+  ExportSpacesQuerySchema,
+  ImportSpacesQuerySchema,
+  ListSpacesQuerySchema,
+  MatchRangeSchema,
+  SearchSpacesQuerySchema,
+  SlotSuggestionSchema,
+  SpaceIdParamsSchema,
+  SpaceImportResultSchema,
+  SpaceImportRowResultSchema,
+  SpaceImportRowSchema,
+  SpacePageSchema,
+  SpaceSearchHitSchema,
+  SpaceSearchResultSchema,
+  SpaceSchema,
+  TrashedSpaceSchema,
+  UpdateSpaceSchema,
+} from "./schema.js";
+
+export type { SpaceSortKey } from "./schema.js";
+
+export type SpaceDTO = z.output<typeof SpaceSchema>;
+
+export type TrashedSpaceDTO = z.output<typeof TrashedSpaceSchema>;
+
+export type CreateSpaceInput = z.output<typeof CreateSpaceSchema>;
+
+export type UpdateSpaceInput = z.output<typeof UpdateSpaceSchema>;
+
+export type SpaceIdParams = z.output<typeof SpaceIdParamsSchema>;
+
+export type ListSpacesQuery = z.output<typeof ListSpacesQuerySchema>;
+
+export type SpacePage = z.output<typeof SpacePageSchema>;
+
+export type AmenityFacet = z.output<typeof AmenityFacetSchema>;
+
+export type AvailabilityQuery = z.output<typeof AvailabilityQuerySchema>;
+
+export type SlotSuggestion = z.output<typeof SlotSuggestionSchema>;
+
+export type AvailabilityResult = z.output<typeof AvailabilityResultSchema>;
+
+export type SearchSpacesQuery = z.output<typeof SearchSpacesQuerySchema>;
+
+export type MatchRange = z.output<typeof MatchRangeSchema>;
+
+export type SpaceSearchHit = z.output<typeof SpaceSearchHitSchema>;
+
+export type SpaceSearchResult = z.output<typeof SpaceSearchResultSchema>;
+
+export type SpaceImportRow = z.output<typeof SpaceImportRowSchema>;
+
+export type ImportSpacesQuery = z.output<typeof ImportSpacesQuerySchema>;
+
+export type SpaceImportRowResult = z.output<typeof SpaceImportRowResultSchema>;
+
+export type SpaceImportResult = z.output<typeof SpaceImportResultSchema>;
+
+export type ExportSpacesQuery = z.output<typeof ExportSpacesQuerySchema>;
+
+export type OpeningHours = z.output<typeof OpeningHoursSchema>;
+
+export type SpaceRulesDTO = z.output<typeof SpaceRulesSchema>;
+
+export type UpdateSpaceRulesInput = z.output<typeof UpdateSpaceRulesSchema>;
+
+export type BlackoutDTO = z.output<typeof BlackoutSchema>;
+
+export type CreateBlackoutInput = z.output<typeof CreateBlackoutSchema>;
+
+export type BlackoutParams = z.output<typeof BlackoutParamsSchema>;
+
+export type RuleViolation = z.output<typeof RuleViolationSchema>;
@@ -0,0 +1,32 @@
+import { spaceRepository } from "../repository.js";
+import { BlackoutDTO, CreateBlackoutInput } from "../types.js";
+import type { SpaceBlackout } from "../../../generated/prisma/client.js";
+import { NotFoundError } from "../../../utils/errors.js";
+
+export function toBlackoutDTO(blackout: SpaceBlackout): BlackoutDTO {
+  return {
+    id: blackout.id,
+    spaceId: blackout.spaceId,
+    startAt: blackout.startAt.toISOString(),
+    endAt: blackout.endAt.toISOString(),
+    reason: blackout.reason,
+    createdAt: blackout.createdAt.toISOString(),
+  };
+}
+
+export async function createBlackoutUsecase(
+  spaceId: string,
+  input: CreateBlackoutInput,
+): Promise<BlackoutDTO> {
+  const space = await spaceRepository().getSpaceById(spaceId);
+  if (!space) throw new NotFoundError("space not found");
+
+  // bookings already inside the period are left for people to move
+  const blackout = await spaceRepository().createBlackout({
+    spaceId: space.id,
+    startAt: new Date(input.startAt),
+    endAt: new Date(input.endAt),
+    reason: input.reason,
+  });
+  return toBlackoutDTO(blackout);
+}
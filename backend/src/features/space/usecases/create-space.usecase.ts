@@ -1,28 +1,40 @@
-import * as repo from "../repos/space.repo.js";
+import { spaceRepository } from "../repository.js";
+import type { AuditContext } from "../../audit/types.js";
 import { CreateSpaceInput, SpaceDTO } from "../types.js";
-import type { Space } from "../../../generated/prisma/client.js";
-
-function toDTO(space: Space): SpaceDTO {
-  return {
-    id: space.id,
-    name: space.name,
-    capacity: space.capacity,
-    createdAt: space.createdAt.toISOString(),
-    updatedAt: space.updatedAt.toISOString(),
-  };
-}
+import { locationRepository } from "../../location/repository.js";
+import { ValidationError } from "../../../utils/errors.js";
+import { resolveAmenities } from "../amenities.js";
+import { publishSpaceEvent } from "../../event/bus.js";
+import { spaceSearchIndex } from "../search-index.js";
+import { toDTO } from "../entity.js";
 
 export async function createSpaceUsecase(
   input: CreateSpaceInput,
+  context: AuditContext,
 ): Promise<SpaceDTO> {
-  // minimal business validation
-  if (!input.name?.trim()) throw new Error("name is required");
-  if (!Number.isInteger(input.capacity) || input.capacity <= 0)
-    throw new Error("capacity must be a positive integer");
+  // input is validated and trimmed by CreateSpaceSchema
+  if (
+    input.floorId &&
+    !(await locationRepository().getFloorById(input.floorId))
+  )
+    throw ValidationError.field("floorId", "floor not found");
+
+  const amenities = input.amenities
+    ? await resolveAmenities(input.amenities)
+    : undefined;
 
-  const space = await repo.createSpace({
-    name: input.name.trim(),
-    capacity: input.capacity,
-  });
-  return toDTO(space);
+  const space = await spaceRepository().createSpace(
+    {
+      name: input.name,
+      capacity: input.capacity,
+      floorId: input.floorId,
+      requiresApproval: input.requiresApproval,
+      amenities,
+    },
+    context,
+  );
+  const dto = toDTO(space);
+  publishSpaceEvent("space.created", dto.id, dto);
+  spaceSearchIndex.upsert(dto);
+  return dto;
 }
@@ -0,0 +1,10 @@
+import { spaceRepository } from "../repository.js";
+import { NotFoundError } from "../../../utils/errors.js";
+
+export async function deleteBlackoutUsecase(
+  spaceId: string,
+  blackoutId: string,
+): Promise<void> {
+  const deleted = await spaceRepository().deleteBlackout(spaceId, blackoutId);
+  if (!deleted) throw new NotFoundError("blackout not found");
+}
@@ -1,6 +1,25 @@
-import * as repo from "../repos/space.repo.js";
+import { spaceRepository } from "../repository.js";
+import type { AuditContext } from "../../audit/types.js";
+import { ValidationError } from "../../../utils/errors.js";
+import { unmatchedWriteError } from "../precondition.js";
+import { publishSpaceEvent } from "../../event/bus.js";
+import { spaceSearchIndex } from "../search-index.js";
 
-export async function deleteSpaceUsecase(id: string): Promise<void> {
-  if (!id) throw new Error("id is required");
-  await repo.deleteSpace(id);
+/** Moves the space to the trash; it can be restored until it is purged. */
+export async function deleteSpaceUsecase(
+  id: string,
+  context: AuditContext,
+  // from If-Match; undefined skips the version check
+  versions?: number[],
+): Promise<void> {
+  if (!id) throw ValidationError.field("id", "id is required");
+  // a missing or already-deleted space matches nothing -> 404
+  const deleted = await spaceRepository().softDeleteSpace(
+    id,
+    context,
+    versions,
+  );
+  if (!deleted) throw await unmatchedWriteError(id, versions);
+  publishSpaceEvent("space.deleted", id, null);
+  spaceSearchIndex.remove(id);
 }
@@ -0,0 +1,50 @@
+import { spaceRepository } from "../repository.js";
+import { ExportSpacesQuery } from "../types.js";
+import { toCsvRow } from "../../../utils/csv.js";
+import { toDTO } from "../entity.js";
+
+// the import reads these columns back by name and ignores the rest
+const CSV_COLUMNS = [
+  "id",
+  "externalKey",
+  "name",
+  "capacity",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+const BATCH_SIZE = 500;
+
+/**
+ * Yields the export in chunks, reading active spaces in id order one batch
+ * at a time so memory stays flat however many spaces there are.
+ */
+export async function* exportSpacesUsecase(
+  query: ExportSpacesQuery,
+): AsyncGenerator<string> {
+  const csv = query.format === "csv";
+  yield csv ? toCsvRow([...CSV_COLUMNS]) : "[";
+
+  let after: string | undefined;
+  let first = true;
+  for (;;) {
+    const batch = await spaceRepository().findSpaces({
+      filter: {},
+      // no sort keys: id order
+      sort: [],
+      after: after ? { v: [], id: after } : undefined,
+      take: BATCH_SIZE,
+    });
+    if (batch.length) {
+      const dtos = batch.map(toDTO);
+      yield csv
+        ? dtos.map((dto) => toCsvRow(CSV_COLUMNS.map((c) => dto[c]))).join("")
+        : (first ? "" : ",") + dtos.map((dto) => JSON.stringify(dto)).join(",");
+      first = false;
+    }
+    if (batch.length < BATCH_SIZE) break;
+    after = batch[batch.length - 1].id;
+  }
+
+  if (!csv) yield "]";
+}
@@ -0,0 +1,22 @@
+import { spaceRepository } from "../repository.js";
+import { listAuditEventsUsecase } from "../../audit/usecases/list-audit-events.usecase.js";
+import type { AuditPage, AuditPageQuery } from "../../audit/types.js";
+import { NotFoundError, ValidationError } from "../../../utils/errors.js";
+
+/** Audit trail of one space, newest first; trashed spaces keep theirs. */
+export async function getSpaceHistoryUsecase(
+  id: string,
+  page: AuditPageQuery,
+): Promise<AuditPage> {
+  if (!id) throw ValidationError.field("id", "id is required");
+
+  // purged spaces are gone here; their events remain under GET /api/audit
+  const space = await spaceRepository().getSpaceIncludingDeleted(id);
+  if (!space) throw new NotFoundError("space not found");
+
+  return listAuditEventsUsecase({
+    ...page,
+    entityType: "space",
+    entityId: id,
+  });
+}
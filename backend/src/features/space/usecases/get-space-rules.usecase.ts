@@ -0,0 +1,36 @@
+import { spaceRepository } from "../repository.js";
+import type { SpaceRepository } from "../repos/space-repository.js";
+import { OpeningHours, SpaceRulesDTO } from "../types.js";
+import { DEFAULT_BOOKING_RULES } from "../rules.js";
+import { NotFoundError } from "../../../utils/errors.js";
+
+type SpaceRules = NonNullable<
+  Awaited<ReturnType<SpaceRepository["getSpaceRules"]>>
+>;
+
+export function toRulesDTO(
+  spaceId: string,
+  rules: SpaceRules | null,
+): SpaceRulesDTO {
+  if (!rules) return { spaceId, ...DEFAULT_BOOKING_RULES, updatedAt: null };
+  return {
+    spaceId,
+    timeZone: rules.timeZone,
+    openingHours: rules.openingHours as OpeningHours | null,
+    maxDurationMinutes: rules.maxDurationMinutes,
+    leadTimeMinutes: rules.leadTimeMinutes,
+    horizonDays: rules.horizonDays,
+    bufferMinutes: rules.bufferMinutes,
+    updatedAt: rules.updatedAt.toISOString(),
+  };
+}
+
+export async function getSpaceRulesUsecase(
+  spaceId: string,
+): Promise<SpaceRulesDTO> {
+  const space = await spaceRepository().getSpaceById(spaceId);
+  if (!space) throw new NotFoundError("space not found");
+
+  const rules = await spaceRepository().getSpaceRules(space.id);
+  return toRulesDTO(space.id, rules);
+}
@@ -1,22 +1,13 @@
-import * as repo from "../repos/space.repo.js";
+import { spaceRepository } from "../repository.js";
 import { SpaceDTO } from "../types.js";
-import type { Space } from "../../../generated/prisma/client.js";
-
-function toDTO(space: Space): SpaceDTO {
-  return {
-    id: space.id,
-    name: space.name,
-    capacity: space.capacity,
-    createdAt: space.createdAt.toISOString(),
-    updatedAt: space.updatedAt.toISOString(),
-  };
-}
+import { NotFoundError, ValidationError } from "../../../utils/errors.js";
+import { toDTO } from "../entity.js";
 
 export async function getSpaceUsecase(id: string): Promise<SpaceDTO> {
-  if (!id) throw new Error("id is required");
+  if (!id) throw ValidationError.field("id", "id is required");
 
-  const space = await repo.getSpaceById(id);
-  if (!space) throw new Error("space not found");
+  const space = await spaceRepository().getSpaceById(id);
+  if (!space) throw new NotFoundError("space not found");
 
   return toDTO(space);
 }
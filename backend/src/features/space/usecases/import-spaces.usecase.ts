@@ -0,0 +1,144 @@
+import { spaceRepository } from "../repository.js";
+import type { SpaceImportOp, SpaceRecord } from "../repos/space-repository.js";
+import type { AuditContext } from "../../audit/types.js";
+import {
+  ImportSpacesQuery,
+  SpaceImportResult,
+  SpaceImportRow,
+  SpaceImportRowResult,
+} from "../types.js";
+import {
+  SpaceImportError,
+  nameKey,
+  recordsFromBody,
+  validateRecord,
+} from "../import.js";
+import { publishSpaceEvent } from "../../event/bus.js";
+import { spaceSearchIndex } from "../search-index.js";
+import { toDTO } from "../entity.js";
+
+type PlannedRow = { result: SpaceImportRowResult; op?: SpaceImportOp };
+
+function changed(space: SpaceRecord, row: SpaceImportRow): boolean {
+  return (
+    space.name !== row.name ||
+    space.capacity !== row.capacity ||
+    (row.externalKey !== undefined && space.externalKey !== row.externalKey)
+  );
+}
+
+/**
+ * Upserts spaces from CSV or JSON. Rows match an existing space by
+ * externalKey, else by name, else create one. With dryRun only the report
+ * is returned; otherwise all rows are written in one transaction, or none
+ * when any row is invalid.
+ */
+export async function importSpacesUsecase(
+  body: unknown,
+  query: ImportSpacesQuery,
+  context: AuditContext,
+): Promise<SpaceImportResult> {
+  const records = recordsFromBody(body);
+  const validated = records.map(validateRecord);
+  const valid = validated.flatMap((v) => (v.errors ? [] : [v.row]));
+
+  const candidates = await spaceRepository().findImportMatches(
+    valid.flatMap((row) => (row.externalKey ? [row.externalKey] : [])),
+    valid.map((row) => row.name),
+  );
+  const byKey = new Map(candidates.map((s) => [s.externalKey, s]));
+  const byName = new Map<string, SpaceRecord[]>();
+  for (const space of candidates.filter((s) => !s.deletedAt)) {
+    const key = nameKey(space.name);
+    byName.set(key, [...(byName.get(key) ?? []), space]);
+  }
+
+  const seen = new Set<string>();
+  const invalid = (
+    base: Omit<SpaceImportRowResult, "action" | "errors">,
+    errors: SpaceImportRowResult["errors"],
+  ): PlannedRow => ({ result: { ...base, action: null, errors } });
+
+  const planned = validated.map((validation, i): PlannedRow => {
+    const base = { row: i + 1, input: records[i], spaceId: null };
+    if (validation.errors) return invalid(base, validation.errors);
+    const row = validation.row;
+
+    const fileKey = row.externalKey
+      ? `key:${row.externalKey}`
+      : `name:${nameKey(row.name)}`;
+    if (seen.has(fileKey))
+      return invalid(
+        base,
+        row.externalKey
+          ? { externalKey: "externalKey appears more than once in the import" }
+          : { name: "name appears more than once in the import" },
+      );
+    seen.add(fileKey);
+
+    let match = row.externalKey ? byKey.get(row.externalKey) : undefined;
+    if (match?.deletedAt)
+      return invalid(base, {
+        externalKey: "the space with this externalKey is in the trash",
+      });
+    if (!match) {
+      // a keyed row may claim an existing space that has no key yet
+      const named = (byName.get(nameKey(row.name)) ?? []).filter(
+        (s) => !row.externalKey || s.externalKey === null,
+      );
+      if (named.length > 1)
+        return invalid(base, {
+          name: "name matches more than one space; add an externalKey",
+        });
+      match = named[0];
+    }
+
+    if (!match)
+      return {
+        result: { ...base, action: "create", errors: null },
+        op: { kind: "create", data: row },
+      };
+    const matched = { ...base, spaceId: match.id, errors: null };
+    if (!changed(match, row))
+      return { result: { ...matched, action: "unchanged" } };
+    return {
+      result: { ...matched, action: "update" },
+      op: { kind: "update", id: match.id, data: row },
+    };
+  });
+
+  const rows = planned.map((p) => p.result);
+  const count = (action: SpaceImportRowResult["action"]) =>
+    rows.filter((r) => r.action === action).length;
+  const result: SpaceImportResult = {
+    dryRun: query.dryRun,
+    valid: rows.every((r) => !r.errors),
+    summary: {
+      create: count("create"),
+      update: count("update"),
+      unchanged: count("unchanged"),
+      invalid: count(null),
+    },
+    rows,
+  };
+
+  if (query.dryRun) return result;
+  if (!result.valid) throw new SpaceImportError(result);
+
+  const ops = planned.flatMap((r) => (r.op ? [r.op] : []));
+  const written = await spaceRepository().applySpaceImport(ops, context);
+  // fill in the ids of created spaces, in op order
+  let next = 0;
+  for (const { result: row, op } of planned)
+    if (op) row.spaceId = written[next++].id;
+  ops.forEach((op, i) => {
+    const dto = toDTO(written[i]);
+    publishSpaceEvent(
+      op.kind === "create" ? "space.created" : "space.updated",
+      dto.id,
+      dto,
+    );
+    spaceSearchIndex.upsert(dto);
+  });
+  return result;
+}
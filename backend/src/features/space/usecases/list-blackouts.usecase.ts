@@ -0,0 +1,14 @@
+import { spaceRepository } from "../repository.js";
+import { BlackoutDTO } from "../types.js";
+import { toBlackoutDTO } from "./create-blackout.usecase.js";
+import { NotFoundError } from "../../../utils/errors.js";
+
+export async function listBlackoutsUsecase(
+  spaceId: string,
+): Promise<BlackoutDTO[]> {
+  const space = await spaceRepository().getSpaceById(spaceId);
+  if (!space) throw new NotFoundError("space not found");
+
+  const blackouts = await spaceRepository().listBlackouts(space.id);
+  return blackouts.map(toBlackoutDTO);
+}
@@ -1,18 +1,32 @@
-import * as repo from "../repos/space.repo.js";
-import { SpaceDTO } from "../types.js";
-import type { Space } from "../../../generated/prisma/client.js";
+import { spaceRepository } from "../repository.js";
+import { ListSpacesQuery, SpacePage } from "../types.js";
+import { decodeCursor, encodeCursor } from "../pagination.js";
+import { toDTO } from "../entity.js";
 
-function toDTO(space: Space): SpaceDTO {
+export async function listSpacesUsecase(
+  query: ListSpacesQuery,
+): Promise<SpacePage> {
+  // everything but the paging fields narrows the list
+  const { cursor, limit, sort, ...filter } = query;
+
+  // one extra row tells whether another page exists
+  const [spaces, total, facets] = await Promise.all([
+    spaceRepository().findSpaces({
+      filter,
+      sort,
+      after: cursor ? decodeCursor(cursor, sort) : undefined,
+      take: limit + 1,
+    }),
+    spaceRepository().countSpaces(filter),
+    spaceRepository().countAmenityFacets(filter),
+  ]);
+
+  const items = spaces.slice(0, limit);
+  const hasMore = spaces.length > limit;
   return {
-    id: space.id,
-    name: space.name,
-    capacity: space.capacity,
-    createdAt: space.createdAt.toISOString(),
-    updatedAt: space.updatedAt.toISOString(),
+    items: items.map(toDTO),
+    nextCursor: hasMore ? encodeCursor(items[items.length - 1], sort) : null,
+    total,
+    facets: { amenities: facets },
   };
 }
-
-export async function listSpacesUsecase(): Promise<SpaceDTO[]> {
-  const spaces = await repo.listSpaces();
-  return spaces.map(toDTO);
-}
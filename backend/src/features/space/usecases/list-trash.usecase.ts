@@ -0,0 +1,8 @@
+import { spaceRepository } from "../repository.js";
+import { TrashedSpaceDTO } from "../types.js";
+import { toTrashedDTO } from "../entity.js";
+
+export async function listTrashUsecase(): Promise<TrashedSpaceDTO[]> {
+  const spaces = await spaceRepository().listDeletedSpaces();
+  return spaces.map(toTrashedDTO);
+}
@@ -0,0 +1,11 @@
+import { spaceRepository } from "../repository.js";
+import { spaceConfig } from "../../../config/spaces.js";
+
+/** Permanently removes spaces that have been in the trash past retention. */
+export async function purgeDeletedSpacesUsecase(
+  now = new Date(),
+): Promise<number> {
+  return spaceRepository().purgeDeletedSpaces(
+    new Date(now.getTime() - spaceConfig.trashRetentionMs),
+  );
+}
@@ -0,0 +1,21 @@
+import { spaceRepository } from "../repository.js";
+import type { AuditContext } from "../../audit/types.js";
+import { SpaceDTO } from "../types.js";
+import { NotFoundError, ValidationError } from "../../../utils/errors.js";
+import { publishSpaceEvent } from "../../event/bus.js";
+import { spaceSearchIndex } from "../search-index.js";
+import { toDTO } from "../entity.js";
+
+export async function restoreSpaceUsecase(
+  id: string,
+  context: AuditContext,
+): Promise<SpaceDTO> {
+  if (!id) throw ValidationError.field("id", "id is required");
+  // only trashed spaces match; anything else is a 404
+  const space = await spaceRepository().restoreSpace(id, context);
+  if (!space) throw new NotFoundError("space not found");
+  const dto = toDTO(space);
+  publishSpaceEvent("space.restored", dto.id, dto);
+  spaceSearchIndex.upsert(dto);
+  return dto;
+}
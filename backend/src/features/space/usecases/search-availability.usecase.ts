@@ -0,0 +1,112 @@
+import { spaceRepository } from "../repository.js";
+import { bookingRepository } from "../../booking/repository.js";
+import {
+  AvailabilityQuery,
+  AvailabilityResult,
+  SlotSuggestion,
+} from "../types.js";
+import { assertWindow, parseDate } from "../../booking/entity.js";
+import { Interval, findNearestFreeSlots, isFree } from "../availability.js";
+import { bufferedWindow, checkBookingRules } from "../rules.js";
+import { toDTO } from "../entity.js";
+
+// How far around the requested window to look for alternative slots
+const SUGGESTION_HORIZON_MS = 24 * 60 * 60 * 1000;
+const MAX_SUGGESTIONS = 5;
+
+export async function searchAvailabilityUsecase(
+  query: AvailabilityQuery,
+): Promise<AvailabilityResult> {
+  const startAt = parseDate(query.start, "start");
+  const endAt = parseDate(query.end, "end");
+  assertWindow(startAt, endAt);
+
+  // already ordered by best fit: smallest sufficient capacity first
+  const candidates = await spaceRepository().listSpacesWithMinCapacity(
+    query.attendees,
+  );
+  if (candidates.length === 0) return { spaces: [], suggestions: [] };
+
+  const requested: Interval = { startAt, endAt };
+  const horizon: Interval = {
+    startAt: new Date(startAt.getTime() - SUGGESTION_HORIZON_MS),
+    endAt: new Date(endAt.getTime() + SUGGESTION_HORIZON_MS),
+  };
+  const policies = await spaceRepository().getBookingPolicies(
+    candidates.map((s) => s.id),
+    horizon.startAt,
+    horizon.endAt,
+  );
+  // widened by the largest buffer so the rules see neighbours at the edges
+  const buffer =
+    Math.max(...[...policies.values()].map((p) => p.rules.bufferMinutes)) *
+    60_000;
+  const occupied = await bookingRepository().listOccupiedSlots(
+    candidates.map((s) => s.id),
+    new Date(horizon.startAt.getTime() - buffer),
+    new Date(horizon.endAt.getTime() + buffer),
+  );
+  const busyBySpace = new Map<string, Interval[]>();
+  for (const b of occupied) {
+    const busy = busyBySpace.get(b.spaceId) ?? [];
+    busy.push(b);
+    busyBySpace.set(b.spaceId, busy);
+  }
+
+  const now = new Date();
+  // free and within the rules, so booking it would go through
+  const bookable = (spaceId: string, slot: Interval) => {
+    const neighbours = busyBySpace.get(spaceId) ?? [];
+    return (
+      isFree(neighbours, slot) &&
+      checkBookingRules(slot, {
+        ...policies.get(spaceId)!,
+        neighbours,
+        now,
+      }).length === 0
+    );
+  };
+
+  const free = candidates.filter((s) => bookable(s.id, requested));
+  if (free.length > 0) return { spaces: free.map(toDTO), suggestions: [] };
+
+  const ranked: { suggestion: SlotSuggestion; distance: number }[] = [];
+  for (const space of candidates) {
+    const { rules, blackouts } = policies.get(space.id)!;
+    // slots right next to a booking's buffer or a blackout
+    const edges = [
+      ...(busyBySpace.get(space.id) ?? []).map((b) => bufferedWindow(b, rules)),
+      ...blackouts,
+    ];
+    const slots = findNearestFreeSlots(
+      edges,
+      requested,
+      SUGGESTION_HORIZON_MS,
+      now,
+    ).filter((slot) => bookable(space.id, slot));
+    for (const slot of slots) {
+      ranked.push({
+        suggestion: {
+          spaceId: space.id,
+          spaceName: space.name,
+          capacity: space.capacity,
+          startAt: slot.startAt.toISOString(),
+          endAt: slot.endAt.toISOString(),
+        },
+        distance: Math.abs(slot.startAt.getTime() - startAt.getTime()),
+      });
+    }
+  }
+
+  return {
+    spaces: [],
+    suggestions: ranked
+      .sort(
+        (a, b) =>
+          a.distance - b.distance ||
+          a.suggestion.capacity - b.suggestion.capacity,
+      )
+      .slice(0, MAX_SUGGESTIONS)
+      .map((r) => r.suggestion),
+  };
+}
@@ -0,0 +1,9 @@
+import { SearchSpacesQuery, SpaceSearchResult } from "../types.js";
+import { spaceSearchIndex } from "../search-index.js";
+
+/** Active spaces whose name or location matches the words in `q`. */
+export async function searchSpacesUsecase(
+  query: SearchSpacesQuery,
+): Promise<SpaceSearchResult> {
+  return spaceSearchIndex.search(query.q, query.limit);
+}
@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SpaceRepository } from "../repos/space-repository.js";
+
+// read when the storage config loads, before the usecases are imported
+vi.hoisted(() => {
+  process.env.STORAGE_DRIVER = "memory";
+});
+
+const { setSpaceRepository } = await import("../repository.js");
+const { createMemorySpaceRepository } =
+  await import("../repos/memory-space.repo.js");
+const { spaceSearchIndex } = await import("../search-index.js");
+const { eventBus } = await import("../../event/bus.js");
+const { spaceConfig } = await import("../../../config/spaces.js");
+const { ListSpacesQuerySchema } = await import("../schema.js");
+const { deleteSpaceUsecase } = await import("./delete-space.usecase.js");
+const { getSpaceUsecase } = await import("./get-space.usecase.js");
+const { listSpacesUsecase } = await import("./list-spaces.usecase.js");
+const { listTrashUsecase } = await import("./list-trash.usecase.js");
+const { restoreSpaceUsecase } = await import("./restore-space.usecase.js");
+const { purgeDeletedSpacesUsecase } =
+  await import("./purge-deleted-spaces.usecase.js");
+
+const context = { actorId: "user-1", requestId: "req-1" };
+
+let repo: SpaceRepository;
+let events: string[];
+
+beforeEach(() => {
+  repo = createMemorySpaceRepository();
+  setSpaceRepository(repo);
+  spaceSearchIndex.invalidate();
+  events = [];
+  return eventBus.subscribe(({ event }) =>
+    events.push(`${event.type} ${event.spaceId}`),
+  );
+});
+
+const listed = async () =>
+  (await listSpacesUsecase(ListSpacesQuerySchema.parse({}))).items.map(
+    (s) => s.id,
+  );
+const found = async (q: string) =>
+  (await spaceSearchIndex.search(q, 10)).items.map((hit) => hit.space.id);
+
+describe("space trash", () => {
+  it("takes a deleted space out of lists and search into the trash", async () => {
+    const space = await repo.createSpace(
+      { name: "Room A", capacity: 4 },
+      context,
+    );
+    expect(await found("room")).toEqual([space.id]);
+
+    await deleteSpaceUsecase(space.id, context);
+    await expect(getSpaceUsecase(space.id)).rejects.toThrow("space not found");
+    expect(await listed()).toEqual([]);
+    expect(await found("room")).toEqual([]);
+    expect(events).toEqual([`space.deleted ${space.id}`]);
+
+    const [trashed] = await listTrashUsecase();
+    expect(trashed).toMatchObject({ id: space.id, version: 2 });
+    expect(Date.parse(trashed.purgeAt) - Date.parse(trashed.deletedAt!)).toBe(
+      spaceConfig.trashRetentionMs,
+    );
+    // already in the trash
+    await expect(deleteSpaceUsecase(space.id, context)).rejects.toThrow(
+      "space not found",
+    );
+  });
+
+  it("restores with a new version, audited as the restoring user", async () => {
+    const space = await repo.createSpace(
+      { name: "Room A", capacity: 4 },
+      context,
+    );
+    await deleteSpaceUsecase(space.id, context);
+    const restore = vi.spyOn(repo, "restoreSpace");
+
+    const restored = await restoreSpaceUsecase(space.id, context);
+    expect(restored).toMatchObject({ deletedAt: null, version: 3 });
+    expect(restore).toHaveBeenCalledWith(space.id, context);
+    expect(await listed()).toEqual([space.id]);
+    expect(await found("room")).toEqual([space.id]);
+    expect(await listTrashUsecase()).toEqual([]);
+    expect(events).toContain(`space.restored ${space.id}`);
+
+    // only trashed spaces can be restored
+    await expect(restoreSpaceUsecase(space.id, context)).rejects.toThrow(
+      "space not found",
+    );
+  });
+
+  it("purges only spaces trashed for longer than the retention", async () => {
+    const kept = await repo.createSpace(
+      { name: "Room A", capacity: 4 },
+      context,
+    );
+    const trashed = await repo.createSpace(
+      { name: "Room B", capacity: 4 },
+      context,
+    );
+    await deleteSpaceUsecase(trashed.id, context);
+
+    expect(await purgeDeletedSpacesUsecase()).toBe(0);
+    expect(await listTrashUsecase()).toHaveLength(1);
+
+    const later = new Date(Date.now() + spaceConfig.trashRetentionMs + 1000);
+    expect(await purgeDeletedSpacesUsecase(later)).toBe(1);
+    expect(await listTrashUsecase()).toEqual([]);
+    expect(await repo.getSpaceIncludingDeleted(trashed.id)).toBeNull();
+    await expect(restoreSpaceUsecase(trashed.id, context)).rejects.toThrow(
+      "space not found",
+    );
+    expect(await listed()).toEqual([kept.id]);
+  });
+});
@@ -0,0 +1,24 @@
+import { spaceRepository } from "../repository.js";
+import { SpaceRulesDTO, UpdateSpaceRulesInput } from "../types.js";
+import { toRulesDTO } from "./get-space-rules.usecase.js";
+import { isValidTimeZone } from "../../../utils/time-zone.js";
+import { NotFoundError, ValidationError } from "../../../utils/errors.js";
+
+export async function updateSpaceRulesUsecase(
+  spaceId: string,
+  input: UpdateSpaceRulesInput,
+): Promise<SpaceRulesDTO> {
+  // input is validated by UpdateSpaceRulesSchema; the zone needs Intl
+  if (!isValidTimeZone(input.timeZone))
+    throw ValidationError.field(
+      "timeZone",
+      "timeZone must be a valid IANA time zone",
+    );
+
+  const space = await spaceRepository().getSpaceById(spaceId);
+  if (!space) throw new NotFoundError("space not found");
+
+  // existing bookings are kept even if they break the new rules
+  const rules = await spaceRepository().saveSpaceRules(space.id, input);
+  return toRulesDTO(space.id, rules);
+}
@@ -1,37 +1,51 @@
-import * as repo from "../repos/space.repo.js";
+import { spaceRepository } from "../repository.js";
+import type { SpaceUpdateData } from "../repos/space-repository.js";
+import type { AuditContext } from "../../audit/types.js";
 import { SpaceDTO, UpdateSpaceInput } from "../types.js";
-import type { Space } from "../../../generated/prisma/client.js";
-
-function toDTO(space: Space): SpaceDTO {
-  return {
-    id: space.id,
-    name: space.name,
-    capacity: space.capacity,
-    createdAt: space.createdAt.toISOString(),
-    updatedAt: space.updatedAt.toISOString(),
-  };
-}
+import { ValidationError } from "../../../utils/errors.js";
+import { unmatchedWriteError } from "../precondition.js";
+import { locationRepository } from "../../location/repository.js";
+import { resolveAmenities } from "../amenities.js";
+import { publishSpaceEvent } from "../../event/bus.js";
+import { spaceSearchIndex } from "../search-index.js";
+import { toDTO } from "../entity.js";
 
 export async function updateSpaceUsecase(
   id: string,
   input: UpdateSpaceInput,
+  context: AuditContext,
+  // from If-Match; undefined skips the version check
+  versions?: number[],
 ): Promise<SpaceDTO> {
-  if (!id) throw new Error("id is required");
+  if (!id) throw ValidationError.field("id", "id is required");
 
-  // minimal validation
-  const data: { name?: string; capacity?: number } = {};
-  if (typeof input.name === "string") {
-    if (!input.name.trim()) throw new Error("name cannot be empty");
-    data.name = input.name.trim();
-  }
-  if (typeof input.capacity !== "undefined") {
-    if (!Number.isInteger(input.capacity) || input.capacity <= 0)
-      throw new Error("capacity must be a positive integer");
-    data.capacity = input.capacity;
+  // input is validated and trimmed by UpdateSpaceSchema
+  const data: SpaceUpdateData = {};
+  if (input.name !== undefined) data.name = input.name;
+  if (input.capacity !== undefined) data.capacity = input.capacity;
+  if (input.floorId !== undefined) {
+    if (
+      input.floorId &&
+      !(await locationRepository().getFloorById(input.floorId))
+    )
+      throw ValidationError.field("floorId", "floor not found");
+    data.floorId = input.floorId;
   }
-  if (Object.keys(data).length === 0) throw new Error("no fields to update");
+  if (input.requiresApproval !== undefined)
+    data.requiresApproval = input.requiresApproval;
+  if (input.amenities !== undefined)
+    data.amenities = await resolveAmenities(input.amenities);
 
-  // (optional) you could check existence first; prisma.update will throw if not found
-  const updated = await repo.updateSpace(id, data);
-  return toDTO(updated);
+  // no match means the space is missing or its version is stale
+  const updated = await spaceRepository().updateSpace(
+    id,
+    data,
+    context,
+    versions,
+  );
+  if (!updated) throw await unmatchedWriteError(id, versions);
+  const dto = toDTO(updated);
+  publishSpaceEvent("space.updated", dto.id, dto);
+  spaceSearchIndex.upsert(dto);
+  return dto;
 }
@@ -0,0 +1,57 @@
+import { NextFunction, Request, Response } from "express";
+import { joinWaitlistUsecase } from "./usecases/join-waitlist.usecase.js";
+import { listWaitlistUsecase } from "./usecases/list-waitlist.usecase.js";
+import { leaveWaitlistUsecase } from "./usecases/leave-waitlist.usecase.js";
+import {
+  JoinWaitlistInput,
+  ListWaitlistQuery,
+  WaitlistIdParams,
+} from "./types.js";
+
+// body, params and query were parsed by validate() in routes.ts
+
+export async function listWaitlist(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await listWaitlistUsecase(
+      req.query as unknown as ListWaitlistQuery,
+      req.user!,
+    );
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function joinWaitlist(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await joinWaitlistUsecase(
+      req.body as JoinWaitlistInput,
+      req.user!,
+    );
+    return res.status(201).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function leaveWaitlist(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as WaitlistIdParams;
+    await leaveWaitlistUsecase(id, req.user!);
+    return res.status(204).send();
+  } catch (err) {
+    return next(err);
+  }
+}
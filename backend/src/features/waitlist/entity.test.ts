@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import type { WaitlistEntry } from "../../generated/prisma/client.js";
+import { fitsSpace, toWaitlistDTO } from "./entity.js";
+
+const room = { id: "room-a", capacity: 8, requiresApproval: false };
+
+describe("waitlist entity", () => {
+  it("matches entries for a specific space only to that space", () => {
+    const entry = { spaceId: "room-a", minCapacity: null, attendees: 4 };
+    expect(fitsSpace(entry, room)).toBe(true);
+    expect(fitsSpace(entry, { ...room, id: "room-b", capacity: 20 })).toBe(
+      false,
+    );
+  });
+
+  it("matches any-space entries by capacity", () => {
+    const entry = { spaceId: null, minCapacity: 6, attendees: 4 };
+    expect(fitsSpace(entry, room)).toBe(true);
+    expect(fitsSpace(entry, { ...room, id: "room-b", capacity: 5 })).toBe(
+      false,
+    );
+  });
+
+  it("never matches a space too small for the attendees", () => {
+    expect(
+      fitsSpace({ spaceId: "room-a", minCapacity: null, attendees: 9 }, room),
+    ).toBe(false);
+  });
+
+  it("never matches a space that requires approval", () => {
+    const entry = { spaceId: null, minCapacity: null, attendees: 4 };
+    expect(fitsSpace(entry, { ...room, requiresApproval: true })).toBe(false);
+  });
+
+  it("only reports a queue position while waiting", () => {
+    const at = new Date("2026-04-07T09:00:00Z");
+    const entry: WaitlistEntry = {
+      id: "w1",
+      userId: "u1",
+      spaceId: "room-a",
+      minCapacity: null,
+      title: "Standup",
+      attendees: 4,
+      startAt: at,
+      endAt: new Date(at.getTime() + 30 * 60_000),
+      status: "waiting",
+      expiresAt: at,
+      bookingId: null,
+      createdAt: at,
+      updatedAt: at,
+    };
+    expect(toWaitlistDTO(entry, 2).position).toBe(2);
+    expect(
+      toWaitlistDTO({ ...entry, status: "promoted", bookingId: "b1" }, 2)
+        .position,
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import type { WaitlistEntry } from "../../generated/prisma/client.js";
+import { WaitlistEntryDTO } from "./types.js";
+import { ConflictError } from "../../utils/errors.js";
+
+/** Raised when joining the waitlist for a slot that can be booked right away. */
+export class SlotAvailableError extends ConflictError {
+  readonly code = "SLOT_AVAILABLE";
+}
+
+export function toWaitlistDTO(
+  entry: WaitlistEntry,
+  position: number | null = null,
+): WaitlistEntryDTO {
+  return {
+    id: entry.id,
+    userId: entry.userId,
+    spaceId: entry.spaceId,
+    minCapacity: entry.minCapacity,
+    title: entry.title,
+    attendees: entry.attendees,
+    startAt: entry.startAt.toISOString(),
+    endAt: entry.endAt.toISOString(),
+    status: entry.status,
+    expiresAt: entry.expiresAt.toISOString(),
+    bookingId: entry.bookingId,
+    position: entry.status === "waiting" ? position : null,
+    createdAt: entry.createdAt.toISOString(),
+    updatedAt: entry.updatedAt.toISOString(),
+  };
+}
+
+/** Whether a booking in `space` would satisfy the entry. */
+export function fitsSpace(
+  entry: Pick<WaitlistEntry, "spaceId" | "minCapacity" | "attendees">,
+  space: { id: string; capacity: number; requiresApproval: boolean },
+): boolean {
+  if (space.requiresApproval) return false;
+  if (entry.attendees > space.capacity) return false;
+  if (entry.spaceId !== null) return entry.spaceId === space.id;
+  return (entry.minCapacity ?? 0) <= space.capacity;
+}
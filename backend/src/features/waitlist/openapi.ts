@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { ErrorSchema, type OperationDoc } from "../../openapi/document.js";
+import {
+  JoinWaitlistSchema,
+  ListWaitlistQuerySchema,
+  WaitlistEntrySchema,
+  WaitlistIdParamsSchema,
+} from "./schema.js";
+
+const tags = ["Waitlist"];
+
+export const waitlistOperations: OperationDoc[] = [
+  {
+    method: "get",
+    path: "/api/waitlist",
+    summary: "List your waitlist entries and places in line",
+    tags,
+    roles: [],
+    query: ListWaitlistQuerySchema,
+    responses: {
+      200: { description: "OK", schema: z.array(WaitlistEntrySchema) },
+    },
+  },
+  {
+    method: "post",
+    path: "/api/waitlist",
+    summary: "Wait for a taken slot in a space, or in any large enough space",
+    tags,
+    roles: [],
+    body: JoinWaitlistSchema,
+    responses: {
+      201: { description: "Created", schema: WaitlistEntrySchema },
+      404: { description: "Space not found", schema: ErrorSchema },
+      409: {
+        description:
+          "The slot is free (SLOT_AVAILABLE), or you already wait for it",
+        schema: ErrorSchema,
+      },
+    },
+  },
+  {
+    method: "delete",
+    path: "/api/waitlist/:id",
+    summary: "Leave the waitlist",
+    tags,
+    roles: [],
+    params: WaitlistIdParamsSchema,
+    responses: {
+      204: { description: "Left" },
+      409: {
+        description: "The entry was already promoted or expired",
+        schema: ErrorSchema,
+      },
+    },
+  },
+];
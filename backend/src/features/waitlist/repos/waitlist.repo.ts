@@ -0,0 +1,102 @@
+import { prisma } from "../../../config/prisma.js";
+import type {
+  WaitlistEntry,
+  WaitlistStatus,
+} from "../../../generated/prisma/client.js";
+
+type EntryData = {
+  userId: string;
+  spaceId: string | null;
+  minCapacity: number | null;
+  title: string;
+  attendees: number;
+  startAt: Date;
+  endAt: Date;
+  expiresAt: Date;
+};
+
+export async function createEntry(data: EntryData) {
+  return prisma.waitlistEntry.create({ data });
+}
+
+export async function getEntryById(id: string) {
+  return prisma.waitlistEntry.findUnique({ where: { id } });
+}
+
+export async function listUserEntries(userId: string, status?: WaitlistStatus) {
+  return prisma.waitlistEntry.findMany({
+    where: { userId, status },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+  });
+}
+
+/** A waiting entry of the user for the same target and window, if any. */
+export async function findDuplicate(data: EntryData) {
+  return prisma.waitlistEntry.findFirst({
+    where: {
+      userId: data.userId,
+      spaceId: data.spaceId,
+      startAt: data.startAt,
+      endAt: data.endAt,
+      status: "waiting",
+    },
+  });
+}
+
+/**
+ * How many waiting entries are ahead of `entry` in line: those for the same
+ * target (the same space, or any space) overlapping its window that joined
+ * earlier.
+ */
+export async function countAhead(entry: WaitlistEntry) {
+  return prisma.waitlistEntry.count({
+    where: {
+      status: "waiting",
+      spaceId: entry.spaceId,
+      startAt: { lt: entry.endAt },
+      endAt: { gt: entry.startAt },
+      OR: [
+        { createdAt: { lt: entry.createdAt } },
+        { createdAt: entry.createdAt, id: { lt: entry.id } },
+      ],
+    },
+  });
+}
+
+/**
+ * Waiting, unexpired entries that could be booked into `spaceId` (its own
+ * entries and the "any space" ones), first come first served.
+ */
+export async function listWaitingFor(spaceId: string, now: Date) {
+  return prisma.waitlistEntry.findMany({
+    where: {
+      status: "waiting",
+      expiresAt: { gt: now },
+      OR: [{ spaceId }, { spaceId: null }],
+    },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  });
+}
+
+/**
+ * Moves a waiting entry to `status`. Conditional on it still waiting so a
+ * concurrent promotion and leave cannot both win; returns false if it lost.
+ */
+export async function closeEntry(
+  id: string,
+  status: Exclude<WaitlistStatus, "waiting" | "promoted">,
+) {
+  const { count } = await prisma.waitlistEntry.updateMany({
+    where: { id, status: "waiting" },
+    data: { status },
+  });
+  return count === 1;
+}
+
+export async function expireEntries(now: Date) {
+  const { count } = await prisma.waitlistEntry.updateMany({
+    where: { status: "waiting", expiresAt: { lte: now } },
+    data: { status: "expired" },
+  });
+  return count;
+}
@@ -0,0 +1,25 @@
+import { Router } from "express";
+import { requireAuth } from "../../middlewares/auth.js";
+import { validate } from "../../middlewares/validate.js";
+import { joinWaitlist, leaveWaitlist, listWaitlist } from "./controller.js";
+import {
+  JoinWaitlistSchema,
+  ListWaitlistQuerySchema,
+  WaitlistIdParamsSchema,
+} from "./schema.js";
+
+export const waitlistRouter = Router();
+
+waitlistRouter.use(requireAuth);
+
+waitlistRouter.get(
+  "/",
+  validate({ query: ListWaitlistQuerySchema }),
+  listWaitlist,
+);
+waitlistRouter.post("/", validate({ body: JoinWaitlistSchema }), joinWaitlist);
+waitlistRouter.delete(
+  "/:id",
+  validate({ params: WaitlistIdParamsSchema }),
+  leaveWaitlist,
+);
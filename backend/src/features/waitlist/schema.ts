@@ -0,0 +1,99 @@
+import { z } from "zod";
+import { NAME_MAX_LENGTH } from "../../utils/schema.js";
+
+/**
+ * API shapes for the booking waitlist.
+ */
+
+export const WAITLIST_STATUSES = [
+  "waiting",
+  "promoted",
+  "expired",
+  "left",
+] as const;
+
+const isoDate = (field: string) =>
+  z.iso.datetime({
+    offset: true,
+    error: `${field} must be a valid ISO 8601 date`,
+  });
+
+export const WaitlistEntrySchema = z
+  .object({
+    id: z.string(),
+    userId: z.string(),
+    // null while waiting for any space; the space it got once promoted
+    spaceId: z.string().nullable(),
+    minCapacity: z.number().int().nullable(),
+    title: z.string(),
+    attendees: z.number().int(),
+    startAt: z.iso.datetime(),
+    endAt: z.iso.datetime(),
+    status: z.enum(WAITLIST_STATUSES),
+    expiresAt: z.iso.datetime(),
+    // the booking it was promoted to
+    bookingId: z.string().nullable(),
+    // 1 = next in line; null unless waiting
+    position: z.number().int().nullable(),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+  })
+  .meta({ id: "WaitlistEntry" });
+
+export const JoinWaitlistSchema = z
+  .object({
+    // omit to wait for any space with capacity >= minCapacity
+    spaceId: z.string().trim().min(1, "spaceId cannot be empty").optional(),
+    minCapacity: z.coerce
+      .number({ error: "minCapacity must be a number" })
+      .int("minCapacity must be a positive integer")
+      .positive("minCapacity must be a positive integer")
+      .optional(),
+    title: z
+      .string({
+        error: (issue) =>
+          issue.input === undefined
+            ? "title is required"
+            : "title must be a string",
+      })
+      .trim()
+      .min(1, "title cannot be empty")
+      .max(
+        NAME_MAX_LENGTH,
+        `title must be at most ${NAME_MAX_LENGTH} characters`,
+      ),
+    attendees: z.coerce
+      .number({ error: "attendees must be a number" })
+      .int("attendees must be a positive integer")
+      .positive("attendees must be a positive integer"),
+    startAt: isoDate("startAt"),
+    endAt: isoDate("endAt"),
+    // defaults to startAt: an entry is useless once its slot has begun
+    expiresAt: isoDate("expiresAt").optional(),
+  })
+  .refine((input) => !(input.spaceId && input.minCapacity), {
+    path: ["minCapacity"],
+    message: "minCapacity only applies when waiting for any space",
+  })
+  .refine((input) => new Date(input.endAt) > new Date(input.startAt), {
+    path: ["endAt"],
+    message: "endAt must be after startAt",
+  })
+  .refine(
+    (input) =>
+      !input.expiresAt || new Date(input.expiresAt) <= new Date(input.startAt),
+    { path: ["expiresAt"], message: "expiresAt must not be after startAt" },
+  )
+  .meta({ id: "JoinWaitlistInput" });
+
+export const ListWaitlistQuerySchema = z.object({
+  status: z
+    .enum(WAITLIST_STATUSES, {
+      error: `status must be one of ${WAITLIST_STATUSES.join(", ")}`,
+    })
+    .optional(),
+});
+
+export const WaitlistIdParamsSchema = z.object({
+  id: z.string().min(1, "id is required"),
+});
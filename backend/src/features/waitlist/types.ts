@@ -0,0 +1,17 @@
+import type { z } from "zod";
+import type {
+  JoinWaitlistSchema,
+  ListWaitlistQuerySchema,
+  WaitlistEntrySchema,
+  WaitlistIdParamsSchema,
+} from "./schema.js";
+
+export type WaitlistEntryDTO = z.output<typeof WaitlistEntrySchema>;
+
+export type WaitlistStatus = WaitlistEntryDTO["status"];
+
+export type JoinWaitlistInput = z.output<typeof JoinWaitlistSchema>;
+
+export type ListWaitlistQuery = z.output<typeof ListWaitlistQuerySchema>;
+
+export type WaitlistIdParams = z.output<typeof WaitlistIdParamsSchema>;
@@ -0,0 +1,6 @@
+import * as repo from "../repos/waitlist.repo.js";
+
+/** Closes waiting entries past their expiresAt; returns how many. */
+export async function expireWaitlistUsecase(now = new Date()): Promise<number> {
+  return repo.expireEntries(now);
+}
@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SpaceSlot } from "../../booking/repos/booking-repository.js";
+
+// read when the storage config loads, before the usecases are imported
+vi.hoisted(() => {
+  process.env.STORAGE_DRIVER = "memory";
+});
+
+// reservations and the waitlist only live in MySQL
+vi.mock("../repos/waitlist.repo.js", () => ({
+  findDuplicate: async () => null,
+  createEntry: async (data: object) => ({
+    id: "entry-1",
+    status: "waiting",
+    bookingId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...data,
+  }),
+  countAhead: async () => 0,
+}));
+vi.mock("../../reservation/repos/reservation.repo.js");
+vi.mock("./promote-waitlist.usecase.js", () => ({
+  tryPromoteWaitlist: vi.fn(async () => {}),
+}));
+
+const { setSpaceRepository, spaceRepository } =
+  await import("../../space/repository.js");
+const { createMemorySpaceRepository } =
+  await import("../../space/repos/memory-space.repo.js");
+const { setBookingRepository } = await import("../../booking/repository.js");
+const { createMemoryBookingRepository } =
+  await import("../../booking/repos/memory-booking.repo.js");
+const reservationRepo =
+  await import("../../reservation/repos/reservation.repo.js");
+const { tryPromoteWaitlist } = await import("./promote-waitlist.usecase.js");
+const { joinWaitlistUsecase } = await import("./join-waitlist.usecase.js");
+const { rejectReservationUsecase } =
+  await import("../../reservation/usecases/reject-reservation.usecase.js");
+const { expireReservationsUsecase } =
+  await import("../../reservation/usecases/expire-reservations.usecase.js");
+
+const admin = {
+  id: "user-1",
+  email: "admin@example.com",
+  name: "Admin",
+  role: "admin" as const,
+};
+const now = new Date("2026-06-01T08:00:00.000Z");
+const startAt = new Date("2026-06-01T10:00:00.000Z");
+const endAt = new Date("2026-06-01T11:00:00.000Z");
+
+let spaceId: string;
+// what reservation requests hold, which the memory booking store cannot see
+let occupied: SpaceSlot[];
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  occupied = [];
+  setBookingRepository({
+    ...createMemoryBookingRepository(),
+    listOccupiedSlots: async () => occupied,
+  });
+  setSpaceRepository(createMemorySpaceRepository());
+  spaceId = (
+    await spaceRepository().createSpace(
+      { name: "Room A", capacity: 4 },
+      { actorId: null, requestId: null },
+    )
+  ).id;
+});
+
+const join = (input: { spaceId?: string }) =>
+  joinWaitlistUsecase(
+    {
+      ...input,
+      title: "Sync",
+      attendees: 2,
+      startAt: startAt.toISOString(),
+      endAt: endAt.toISOString(),
+    },
+    admin,
+    now,
+  );
+
+function reservation(status: "pending" | "rejected") {
+  return {
+    id: "res-1",
+    spaceId,
+    userId: "user-2",
+    title: "Sync",
+    attendees: 2,
+    startAt,
+    endAt,
+    status,
+    expiresAt: startAt,
+    reason: status === "rejected" ? "no" : null,
+    decidedById: status === "rejected" ? admin.id : null,
+    decidedAt: status === "rejected" ? now : null,
+    bookingId: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+describe("slots held and freed by reservation requests", () => {
+  it("lets people wait for a slot held by a pending request", async () => {
+    await expect(join({ spaceId })).rejects.toMatchObject({
+      code: "SLOT_AVAILABLE",
+    });
+    await expect(join({})).rejects.toMatchObject({ code: "SLOT_AVAILABLE" });
+
+    occupied = [{ id: "res-1", spaceId, startAt, endAt }];
+    expect(await join({ spaceId })).toMatchObject({
+      spaceId,
+      status: "waiting",
+      position: 1,
+    });
+    expect(await join({})).toMatchObject({ spaceId: null, minCapacity: 2 });
+  });
+
+  it("offers a rejected request's slot to the waitlist", async () => {
+    vi.mocked(reservationRepo.getReservationById)
+      .mockResolvedValueOnce(reservation("pending"))
+      .mockResolvedValueOnce(reservation("rejected"));
+    vi.mocked(reservationRepo.rejectReservation).mockResolvedValue(true);
+
+    await rejectReservationUsecase("res-1", { reason: "no" }, admin, now);
+    expect(tryPromoteWaitlist).toHaveBeenCalledExactlyOnceWith(spaceId);
+  });
+
+  it("offers expired requests' slots to the waitlist once per space", async () => {
+    vi.mocked(reservationRepo.expireReservations).mockResolvedValue([
+      { id: "res-1", spaceId: "space-1" },
+      { id: "res-2", spaceId: "space-2" },
+      { id: "res-3", spaceId: "space-1" },
+    ]);
+
+    expect(await expireReservationsUsecase(now)).toBe(3);
+    expect(vi.mocked(tryPromoteWaitlist).mock.calls).toEqual([
+      ["space-1"],
+      ["space-2"],
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+import * as repo from "../repos/waitlist.repo.js";
+import { spaceRepository } from "../../space/repository.js";
+import { bookingRepository } from "../../booking/repository.js";
+import { assertAttendees } from "../../booking/entity.js";
+import { JoinWaitlistInput, WaitlistEntryDTO } from "../types.js";
+import { SlotAvailableError, toWaitlistDTO } from "../entity.js";
+import type { AuthUser } from "../../auth/types.js";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../../../utils/errors.js";
+
+export async function joinWaitlistUsecase(
+  input: JoinWaitlistInput,
+  actor: AuthUser,
+  now = new Date(),
+): Promise<WaitlistEntryDTO> {
+  const startAt = new Date(input.startAt);
+  const endAt = new Date(input.endAt);
+  const expiresAt = input.expiresAt ? new Date(input.expiresAt) : startAt;
+  if (startAt <= now)
+    throw ValidationError.field("startAt", "startAt must be in the future");
+  if (expiresAt <= now)
+    throw ValidationError.field("expiresAt", "expiresAt must be in the future");
+
+  let minCapacity: number | null = null;
+  if (input.spaceId) {
+    const space = await spaceRepository().getSpaceById(input.spaceId);
+    if (!space) throw new NotFoundError("space not found");
+    // promotion books directly, which these spaces only allow approvers
+    if (space.requiresApproval)
+      throw ValidationError.field(
+        "spaceId",
+        "this space requires approval; request a reservation instead",
+      );
+    assertAttendees(input.attendees, space.capacity);
+    // a pending reservation request holds the slot just like a booking
+    const taken = await bookingRepository().listOccupiedSlots(
+      [space.id],
+      startAt,
+      endAt,
+      now,
+    );
+    if (taken.length === 0)
+      throw new SlotAvailableError("the space is free then; book it instead");
+  } else {
+    minCapacity = Math.max(input.minCapacity ?? 0, input.attendees);
+    const spaces = (
+      await spaceRepository().listSpacesWithMinCapacity(minCapacity)
+    ).filter((s) => !s.requiresApproval);
+    if (spaces.length === 0)
+      throw ValidationError.field(
+        "minCapacity",
+        `no space has a capacity of ${minCapacity} or more`,
+      );
+    const taken = await bookingRepository().listOccupiedSlots(
+      spaces.map((s) => s.id),
+      startAt,
+      endAt,
+      now,
+    );
+    const busy = new Set(taken.map((b) => b.spaceId));
+    if (spaces.some((s) => !busy.has(s.id)))
+      throw new SlotAvailableError(
+        "a space with enough capacity is free then; book it instead",
+      );
+  }
+
+  const data = {
+    userId: actor.id,
+    spaceId: input.spaceId ?? null,
+    minCapacity,
+    title: input.title,
+    attendees: input.attendees,
+    startAt,
+    endAt,
+    expiresAt,
+  };
+  if (await repo.findDuplicate(data))
+    throw new ConflictError("already on the waitlist for this slot");
+
+  const entry = await repo.createEntry(data);
+  return toWaitlistDTO(entry, (await repo.countAhead(entry)) + 1);
+}
@@ -0,0 +1,20 @@
+import * as repo from "../repos/waitlist.repo.js";
+import { assertCanManage } from "../../booking/entity.js";
+import type { AuthUser } from "../../auth/types.js";
+import { ConflictError, NotFoundError } from "../../../utils/errors.js";
+
+export async function leaveWaitlistUsecase(
+  id: string,
+  actor: AuthUser,
+): Promise<void> {
+  const entry = await repo.getEntryById(id);
+  if (!entry) throw new NotFoundError("waitlist entry not found");
+  assertCanManage(entry, actor);
+  if (entry.status === "left") return;
+
+  // a promotion may have claimed the entry since it was read
+  if (entry.status !== "waiting" || !(await repo.closeEntry(id, "left")))
+    throw new ConflictError(
+      "waitlist entry is no longer waiting; cancel the booking instead",
+    );
+}
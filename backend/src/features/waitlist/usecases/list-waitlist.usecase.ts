@@ -0,0 +1,20 @@
+import * as repo from "../repos/waitlist.repo.js";
+import { ListWaitlistQuery, WaitlistEntryDTO } from "../types.js";
+import { toWaitlistDTO } from "../entity.js";
+import type { AuthUser } from "../../auth/types.js";
+
+/** The caller's own entries, newest first, with their place in line. */
+export async function listWaitlistUsecase(
+  query: ListWaitlistQuery,
+  actor: AuthUser,
+): Promise<WaitlistEntryDTO[]> {
+  const entries = await repo.listUserEntries(actor.id, query.status);
+  return Promise.all(
+    entries.map(async (entry) =>
+      toWaitlistDTO(
+        entry,
+        entry.status === "waiting" ? (await repo.countAhead(entry)) + 1 : null,
+      ),
+    ),
+  );
+}
@@ -0,0 +1,79 @@
+import * as repo from "../repos/waitlist.repo.js";
+import { spaceRepository } from "../../space/repository.js";
+import { bookingRepository } from "../../booking/repository.js";
+import { overlaps } from "../../space/availability.js";
+import { bufferedWindow, checkBookingRules } from "../../space/rules.js";
+import { WaitlistEntryDTO } from "../types.js";
+import { fitsSpace, toWaitlistDTO } from "../entity.js";
+import { logger } from "../../../utils/logger.js";
+
+/**
+ * Books freed-up time in a space for the waitlist, first come first served.
+ * Runs under the space lock, so it is serialized with every other booking
+ * write on the space and re-checks conflicts and rules for each entry just
+ * like a direct booking would. Entries that still do not fit keep waiting.
+ */
+export async function promoteWaitlistUsecase(
+  spaceId: string,
+  now = new Date(),
+): Promise<WaitlistEntryDTO[]> {
+  const space = await spaceRepository().getSpaceById(spaceId);
+  if (!space) return [];
+  const candidates = (await repo.listWaitingFor(space.id, now)).filter(
+    (entry) => fitsSpace(entry, space),
+  );
+  if (candidates.length === 0) return [];
+
+  const from = new Date(Math.min(...candidates.map((e) => +e.startAt)));
+  const to = new Date(Math.max(...candidates.map((e) => +e.endAt)));
+  const policy = await spaceRepository().getBookingPolicy(space.id, from, to);
+
+  const promoted = await bookingRepository().withSpaceLock(
+    space.id,
+    async (tx) => {
+      const done = [];
+      for (const entry of candidates) {
+        const slot = { startAt: entry.startAt, endAt: entry.endAt };
+        const window = bufferedWindow(slot, policy.rules);
+        const nearby = await tx.findConflicts(
+          space.id,
+          window.startAt,
+          window.endAt,
+        );
+        if (nearby.some((b) => overlaps(b, slot))) continue;
+        const violations = checkBookingRules(slot, {
+          ...policy,
+          neighbours: nearby,
+          now,
+        });
+        if (violations.length > 0) continue;
+        // skipped when the entry was left, or promoted into another space
+        if (!(await tx.claimWaitlistEntry(entry.id, space.id))) continue;
+
+        const booking = await tx.createBooking({
+          spaceId: space.id,
+          userId: entry.userId,
+          title: entry.title,
+          attendees: entry.attendees,
+          startAt: entry.startAt,
+          endAt: entry.endAt,
+        });
+        done.push(await tx.linkWaitlistEntry(entry.id, booking.id));
+      }
+      return done;
+    },
+  );
+  return promoted.map((entry) => toWaitlistDTO(entry));
+}
+
+/**
+ * For callers that just freed time in a space: a failed promotion must not
+ * fail their already committed change, and the next change retries it.
+ */
+export async function tryPromoteWaitlist(spaceId: string): Promise<void> {
+  try {
+    await promoteWaitlistUsecase(spaceId);
+  } catch (err) {
+    logger.error("waitlist promotion failed", { spaceId, error: err });
+  }
+}
@@ -0,0 +1,119 @@
+import { NextFunction, Request, Response } from "express";
+import { createWebhookUsecase } from "./usecases/create-webhook.usecase.js";
+import { listWebhooksUsecase } from "./usecases/list-webhooks.usecase.js";
+import { getWebhookUsecase } from "./usecases/get-webhook.usecase.js";
+import { updateWebhookUsecase } from "./usecases/update-webhook.usecase.js";
+import { deleteWebhookUsecase } from "./usecases/delete-webhook.usecase.js";
+import { listDeliveriesUsecase } from "./usecases/list-deliveries.usecase.js";
+import { redeliverWebhookUsecase } from "./usecases/redeliver-webhook.usecase.js";
+import {
+  CreateWebhookInput,
+  DeliveryParams,
+  ListDeliveriesQuery,
+  UpdateWebhookInput,
+  WebhookIdParams,
+} from "./types.js";
+
+// body, params and query were parsed by validate() in routes.ts
+
+export async function listWebhooks(
+  _req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await listWebhooksUsecase();
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function createWebhook(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const result = await createWebhookUsecase(req.body as CreateWebhookInput);
+    return res.status(201).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function getWebhook(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as WebhookIdParams;
+    const result = await getWebhookUsecase(id);
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function updateWebhook(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as WebhookIdParams;
+    const result = await updateWebhookUsecase(
+      id,
+      req.body as UpdateWebhookInput,
+    );
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function deleteWebhook(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as WebhookIdParams;
+    await deleteWebhookUsecase(id);
+    return res.status(204).send();
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function listDeliveries(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id } = req.params as WebhookIdParams;
+    const result = await listDeliveriesUsecase(
+      id,
+      req.query as unknown as ListDeliveriesQuery,
+    );
+    return res.status(200).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export async function redeliverWebhook(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { id, deliveryId } = req.params as DeliveryParams;
+    const result = await redeliverWebhookUsecase(id, deliveryId);
+    return res.status(202).json(result);
+  } catch (err) {
+    return next(err);
+  }
+}
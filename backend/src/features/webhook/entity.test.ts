@@ -0,0 +1,42 @@
+import { createHmac } from "node:crypto";
+import { describe, it, expect } from "vitest";
+import type { WebhookSubscription } from "../../generated/prisma/client.js";
+import { signBody, subscribesTo, truncateResponse } from "./entity.js";
+
+const at = new Date("2026-04-28T09:00:00Z");
+
+const subscription = {
+  active: true,
+  events: ["space.created", "space.deleted"],
+} as WebhookSubscription;
+
+describe("webhook entity", () => {
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const body = '{"id":"e1"}';
+    const expected = createHmac("sha256", "s3cret-s3cret-s3")
+      .update(`1777366800.${body}`)
+      .digest("hex");
+    expect(signBody("s3cret-s3cret-s3", body, at)).toBe(
+      `t=1777366800,v1=${expected}`,
+    );
+  });
+
+  it("gives another signature for another body or time", () => {
+    const signature = signBody("secret", "a", at);
+    expect(signBody("secret", "b", at)).not.toBe(signature);
+    expect(signBody("secret", "a", new Date(+at + 1000))).not.toBe(signature);
+  });
+
+  it("only matches subscribed event types while active", () => {
+    expect(subscribesTo(subscription, "space.created")).toBe(true);
+    expect(subscribesTo(subscription, "space.updated")).toBe(false);
+    expect(
+      subscribesTo({ ...subscription, active: false }, "space.created"),
+    ).toBe(false);
+  });
+
+  it("keeps stored response bodies short", () => {
+    expect(truncateResponse("x".repeat(1500))).toHaveLength(1001);
+    expect(truncateResponse("ok")).toBe("ok");
+  });
+});
@@ -0,0 +1,90 @@
+import { createHmac } from "node:crypto";
+import type {
+  WebhookDelivery,
+  WebhookSubscription,
+} from "../../generated/prisma/client.js";
+import { DOMAIN_EVENT_TYPES } from "../outbox/schema.js";
+import type { DomainEvent, DomainEventType } from "../outbox/types.js";
+import { WebhookDTO, WebhookDeliveryDTO } from "./types.js";
+
+// receivers only need enough of a response to debug with
+const RESPONSE_BODY_MAX_LENGTH = 1000;
+
+export const SIGNATURE_HEADER = "X-Doublespot-Signature";
+
+function eventsOf(subscription: WebhookSubscription): DomainEventType[] {
+  const events = Array.isArray(subscription.events) ? subscription.events : [];
+  return DOMAIN_EVENT_TYPES.filter((type) => events.includes(type));
+}
+
+export function toWebhookDTO(subscription: WebhookSubscription): WebhookDTO {
+  return {
+    id: subscription.id,
+    url: subscription.url,
+    description: subscription.description,
+    events: eventsOf(subscription),
+    active: subscription.active,
+    consecutiveFailures: subscription.consecutiveFailures,
+    disabledAt: subscription.disabledAt?.toISOString() ?? null,
+    disabledReason: subscription.disabledReason,
+    createdAt: subscription.createdAt.toISOString(),
+    updatedAt: subscription.updatedAt.toISOString(),
+  };
+}
+
+export function toDeliveryDTO(delivery: WebhookDelivery): WebhookDeliveryDTO {
+  return {
+    id: delivery.id,
+    subscriptionId: delivery.subscriptionId,
+    eventId: delivery.eventId,
+    eventType: delivery.eventType,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.nextAttemptAt.toISOString(),
+    responseStatus: delivery.responseStatus,
+    responseBody: delivery.responseBody,
+    error: delivery.error,
+    durationMs: delivery.durationMs,
+    lastAttemptAt: delivery.lastAttemptAt?.toISOString() ?? null,
+    redeliveryOfId: delivery.redeliveryOfId,
+    createdAt: delivery.createdAt.toISOString(),
+  };
+}
+
+export function subscribesTo(
+  subscription: WebhookSubscription,
+  type: DomainEventType,
+): boolean {
+  return subscription.active && eventsOf(subscription).includes(type);
+}
+
+/** The JSON body receivers get; `id` is stable across retries and redeliveries. */
+export function webhookBody(
+  event: DomainEvent & { id: string; createdAt: Date },
+): string {
+  return JSON.stringify({
+    id: event.id,
+    type: event.type,
+    createdAt: event.createdAt.toISOString(),
+    data: event.payload,
+  });
+}
+
+/**
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. Receivers
+ * recompute the HMAC with their secret and reject old timestamps, so a
+ * captured request cannot be replayed later.
+ */
+export function signBody(secret: string, body: string, at: Date): string {
+  const timestamp = Math.floor(at.getTime() / 1000);
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+export function truncateResponse(body: string): string {
+  return body.length > RESPONSE_BODY_MAX_LENGTH
+    ? `${body.slice(0, RESPONSE_BODY_MAX_LENGTH)}…`
+    : body;
+}
@@ -0,0 +1,113 @@
+import { z } from "zod";
+import { ErrorSchema, type OperationDoc } from "../../openapi/document.js";
+import {
+  CreateWebhookSchema,
+  DeliveryParamsSchema,
+  ListDeliveriesQuerySchema,
+  UpdateWebhookSchema,
+  WebhookDeliverySchema,
+  WebhookIdParamsSchema,
+  WebhookSchema,
+} from "./schema.js";
+
+const tags = ["Webhooks"];
+const roles: OperationDoc["roles"] = ["admin"];
+const notFound = {
+  404: { description: "Webhook not found", schema: ErrorSchema },
+};
+
+export const webhookOperations: OperationDoc[] = [
+  {
+    method: "get",
+    path: "/api/webhooks",
+    summary: "List webhook subscriptions",
+    tags,
+    roles,
+    responses: {
+      200: { description: "OK", schema: z.array(WebhookSchema) },
+    },
+  },
+  {
+    method: "post",
+    path: "/api/webhooks",
+    summary:
+      "Subscribe a URL to space events; deliveries carry an X-Doublespot-Signature header (t=<unix seconds>,v1=<hex HMAC-SHA256 of '<t>.<body>'>)",
+    tags,
+    roles,
+    body: CreateWebhookSchema,
+    responses: {
+      201: { description: "Created", schema: WebhookSchema },
+      400: {
+        description: "Invalid input, or a url that is not a public host",
+        schema: ErrorSchema,
+      },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/webhooks/:id",
+    summary: "Get a webhook subscription",
+    tags,
+    roles,
+    params: WebhookIdParamsSchema,
+    responses: {
+      200: { description: "OK", schema: WebhookSchema },
+      ...notFound,
+    },
+  },
+  {
+    method: "patch",
+    path: "/api/webhooks/:id",
+    summary: "Update a webhook subscription; active: true re-enables it",
+    tags,
+    roles,
+    params: WebhookIdParamsSchema,
+    body: UpdateWebhookSchema,
+    responses: {
+      200: { description: "OK", schema: WebhookSchema },
+      400: { description: "Invalid input", schema: ErrorSchema },
+      ...notFound,
+    },
+  },
+  {
+    method: "delete",
+    path: "/api/webhooks/:id",
+    summary: "Delete a webhook subscription and its delivery log",
+    tags,
+    roles,
+    params: WebhookIdParamsSchema,
+    responses: {
+      204: { description: "Deleted" },
+      ...notFound,
+    },
+  },
+  {
+    method: "get",
+    path: "/api/webhooks/:id/deliveries",
+    summary: "List a subscription's deliveries, newest first",
+    tags,
+    roles,
+    params: WebhookIdParamsSchema,
+    query: ListDeliveriesQuerySchema,
+    responses: {
+      200: { description: "OK", schema: z.array(WebhookDeliverySchema) },
+      ...notFound,
+    },
+  },
+  {
+    method: "post",
+    path: "/api/webhooks/:id/deliveries/:deliveryId/redeliver",
+    summary: "Send a delivery's body again as a new delivery",
+    tags,
+    roles,
+    params: DeliveryParamsSchema,
+    responses: {
+      202: { description: "Queued", schema: WebhookDeliverySchema },
+      404: {
+        description: "Webhook or delivery not found",
+        schema: ErrorSchema,
+      },
+      409: { description: "The webhook is disabled", schema: ErrorSchema },
+    },
+  },
+];
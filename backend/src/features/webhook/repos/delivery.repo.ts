@@ -0,0 +1,87 @@
+import { prisma } from "../../../config/prisma.js";
+import type { WebhookDeliveryStatus } from "../../../generated/prisma/client.js";
+
+/** Subscriptions that already have a delivery of the event. */
+export async function listSubscriptionIdsDelivering(eventId: string) {
+  const deliveries = await prisma.webhookDelivery.findMany({
+    where: { eventId, redeliveryOfId: null },
+    select: { subscriptionId: true },
+  });
+  return deliveries.map((d) => d.subscriptionId);
+}
+
+export async function createDeliveries(
+  data: {
+    subscriptionId: string;
+    eventId: string;
+    eventType: string;
+    body: string;
+    redeliveryOfId?: string;
+  }[],
+) {
+  return prisma.webhookDelivery.createMany({ data });
+}
+
+export async function createDelivery(data: {
+  subscriptionId: string;
+  eventId: string;
+  eventType: string;
+  body: string;
+  redeliveryOfId?: string;
+}) {
+  return prisma.webhookDelivery.create({ data });
+}
+
+export async function getDeliveryById(id: string) {
+  return prisma.webhookDelivery.findUnique({ where: { id } });
+}
+
+export async function listDeliveries(filter: {
+  subscriptionId: string;
+  status?: WebhookDeliveryStatus;
+  limit: number;
+}) {
+  return prisma.webhookDelivery.findMany({
+    where: { subscriptionId: filter.subscriptionId, status: filter.status },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: filter.limit,
+  });
+}
+
+/** Oldest first, with the subscription to send to. */
+export async function listDueDeliveries(now: Date, limit: number) {
+  return prisma.webhookDelivery.findMany({
+    where: { status: "pending", nextAttemptAt: { lte: now } },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    take: limit,
+    include: { subscription: true },
+  });
+}
+
+/**
+ * Leases a due delivery to this worker until `leaseUntil`; returns false
+ * when another worker got to it first.
+ */
+export async function claimDelivery(id: string, now: Date, leaseUntil: Date) {
+  const { count } = await prisma.webhookDelivery.updateMany({
+    where: { id, status: "pending", nextAttemptAt: { lte: now } },
+    data: { nextAttemptAt: leaseUntil },
+  });
+  return count === 1;
+}
+
+export async function recordAttempt(
+  id: string,
+  attempt: {
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    nextAttemptAt: Date;
+    responseStatus: number | null;
+    responseBody: string | null;
+    error: string | null;
+    durationMs: number;
+    lastAttemptAt: Date;
+  },
+) {
+  return prisma.webhookDelivery.update({ where: { id }, data: attempt });
+}
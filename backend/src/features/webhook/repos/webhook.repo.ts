@@ -0,0 +1,64 @@
+import { prisma } from "../../../config/prisma.js";
+import type { Prisma } from "../../../generated/prisma/client.js";
+
+export async function createWebhook(data: {
+  url: string;
+  events: string[];
+  secret: string;
+  description: string;
+}) {
+  return prisma.webhookSubscription.create({ data });
+}
+
+export async function getWebhookById(id: string) {
+  return prisma.webhookSubscription.findUnique({ where: { id } });
+}
+
+export async function listWebhooks() {
+  return prisma.webhookSubscription.findMany({
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+export async function listActiveWebhooks() {
+  return prisma.webhookSubscription.findMany({ where: { active: true } });
+}
+
+export async function updateWebhook(
+  id: string,
+  data: Prisma.WebhookSubscriptionUpdateInput,
+) {
+  return prisma.webhookSubscription.update({ where: { id }, data });
+}
+
+export async function deleteWebhook(id: string) {
+  return prisma.webhookSubscription.delete({ where: { id } });
+}
+
+export async function resetFailures(id: string) {
+  return prisma.webhookSubscription.update({
+    where: { id },
+    data: { consecutiveFailures: 0 },
+  });
+}
+
+/**
+ * Counts a failed attempt against the subscription and disables it once
+ * `limit` attempts in a row have failed; returns whether it was disabled.
+ */
+export async function recordFailure(
+  id: string,
+  limit: number,
+  reason: string,
+  now: Date,
+) {
+  await prisma.webhookSubscription.update({
+    where: { id },
+    data: { consecutiveFailures: { increment: 1 } },
+  });
+  const { count } = await prisma.webhookSubscription.updateMany({
+    where: { id, active: true, consecutiveFailures: { gte: limit } },
+    data: { active: false, disabledAt: now, disabledReason: reason },
+  });
+  return count === 1;
+}
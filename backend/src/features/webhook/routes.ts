@@ -0,0 +1,48 @@
+import { Router } from "express";
+import { requireRole } from "../../middlewares/auth.js";
+import { validate } from "../../middlewares/validate.js";
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhook,
+  listDeliveries,
+  listWebhooks,
+  redeliverWebhook,
+  updateWebhook,
+} from "./controller.js";
+import {
+  CreateWebhookSchema,
+  DeliveryParamsSchema,
+  ListDeliveriesQuerySchema,
+  UpdateWebhookSchema,
+  WebhookIdParamsSchema,
+} from "./schema.js";
+
+export const webhookRouter = Router();
+
+webhookRouter.use(requireRole("admin"));
+
+const byId = validate({ params: WebhookIdParamsSchema });
+
+webhookRouter.get("/", listWebhooks);
+webhookRouter.post("/", validate({ body: CreateWebhookSchema }), createWebhook);
+webhookRouter.get("/:id", byId, getWebhook);
+webhookRouter.patch(
+  "/:id",
+  validate({ params: WebhookIdParamsSchema, body: UpdateWebhookSchema }),
+  updateWebhook,
+);
+webhookRouter.delete("/:id", byId, deleteWebhook);
+webhookRouter.get(
+  "/:id/deliveries",
+  validate({
+    params: WebhookIdParamsSchema,
+    query: ListDeliveriesQuerySchema,
+  }),
+  listDeliveries,
+);
+webhookRouter.post(
+  "/:id/deliveries/:deliveryId/redeliver",
+  validate({ params: DeliveryParamsSchema }),
+  redeliverWebhook,
+);
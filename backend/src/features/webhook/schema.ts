@@ -0,0 +1,136 @@
+import { z } from "zod";
+import { DOMAIN_EVENT_TYPES } from "../outbox/schema.js";
+import { NAME_MAX_LENGTH } from "../../utils/schema.js";
+
+/**
+ * API shapes for outgoing webhooks.
+ */
+
+const URL_MAX_LENGTH = 2048;
+const SECRET_MIN_LENGTH = 16;
+
+export const WEBHOOK_DELIVERY_STATUSES = [
+  "pending",
+  "succeeded",
+  "failed",
+] as const;
+
+export const DELIVERY_PAGE_MAX_LIMIT = 100;
+
+const url = z
+  .url({
+    protocol: /^https?$/,
+    error: "url must be an http(s) URL",
+  })
+  .max(URL_MAX_LENGTH, `url must be at most ${URL_MAX_LENGTH} characters`);
+
+const events = z
+  .array(
+    z.enum(DOMAIN_EVENT_TYPES, {
+      error: `events must be among ${DOMAIN_EVENT_TYPES.join(", ")}`,
+    }),
+    { error: "events must be an array" },
+  )
+  .min(1, "subscribe to at least one event")
+  .transform((types) => [...new Set(types)]);
+
+const secret = z
+  .string({ error: "secret must be a string" })
+  .min(
+    SECRET_MIN_LENGTH,
+    `secret must be at least ${SECRET_MIN_LENGTH} characters`,
+  )
+  .max(NAME_MAX_LENGTH, `secret must be at most ${NAME_MAX_LENGTH} characters`);
+
+const description = z
+  .string({ error: "description must be a string" })
+  .trim()
+  .max(
+    NAME_MAX_LENGTH,
+    `description must be at most ${NAME_MAX_LENGTH} characters`,
+  );
+
+export const WebhookSchema = z
+  .object({
+    id: z.string(),
+    url: z.string(),
+    description: z.string(),
+    events: z.array(z.enum(DOMAIN_EVENT_TYPES)),
+    active: z.boolean(),
+    consecutiveFailures: z.number().int(),
+    // set when failures disabled the subscription
+    disabledAt: z.iso.datetime().nullable(),
+    disabledReason: z.string().nullable(),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+  })
+  .meta({ id: "Webhook" });
+
+export const CreateWebhookSchema = z
+  .object({
+    url: z.string({ error: "url is required" }).pipe(url),
+    events,
+    secret: z.string({ error: "secret is required" }).pipe(secret),
+    description: description.default(""),
+  })
+  .meta({ id: "CreateWebhookInput" });
+
+// setting active: true re-enables a disabled subscription
+export const UpdateWebhookSchema = z
+  .object({
+    url: url.optional(),
+    events: events.optional(),
+    secret: secret.optional(),
+    description: description.optional(),
+    active: z.boolean({ error: "active must be a boolean" }).optional(),
+  })
+  .refine((input) => Object.keys(input).length > 0, {
+    message: "no fields to update",
+  })
+  .meta({ id: "UpdateWebhookInput" });
+
+export const WebhookDeliverySchema = z
+  .object({
+    id: z.string(),
+    subscriptionId: z.string(),
+    eventId: z.string(),
+    eventType: z.string(),
+    status: z.enum(WEBHOOK_DELIVERY_STATUSES),
+    attempts: z.number().int(),
+    nextAttemptAt: z.iso.datetime(),
+    // the latest attempt; responseStatus is null when no response came
+    responseStatus: z.number().int().nullable(),
+    responseBody: z.string().nullable(),
+    error: z.string().nullable(),
+    durationMs: z.number().int().nullable(),
+    lastAttemptAt: z.iso.datetime().nullable(),
+    redeliveryOfId: z.string().nullable(),
+    createdAt: z.iso.datetime(),
+  })
+  .meta({ id: "WebhookDelivery" });
+
+// newest first
+export const ListDeliveriesQuerySchema = z.object({
+  status: z
+    .enum(WEBHOOK_DELIVERY_STATUSES, {
+      error: `status must be one of ${WEBHOOK_DELIVERY_STATUSES.join(", ")}`,
+    })
+    .optional(),
+  limit: z.coerce
+    .number({ error: "limit must be a number" })
+    .int("limit must be an integer")
+    .min(1, "limit must be at least 1")
+    .max(
+      DELIVERY_PAGE_MAX_LIMIT,
+      `limit must be at most ${DELIVERY_PAGE_MAX_LIMIT}`,
+    )
+    .default(50),
+});
+
+export const WebhookIdParamsSchema = z.object({
+  id: z.string().min(1, "id is required"),
+});
+
+export const DeliveryParamsSchema = WebhookIdParamsSchema.extend({
+  deliveryId: z.string().min(1, "deliveryId is required"),
+});
@@ -0,0 +1,69 @@
+import { SIGNATURE_HEADER, signBody, truncateResponse } from "./entity.js";
+import { checkWebhookTarget } from "./target.js";
+
+export type SendResult = {
+  ok: boolean;
+  // null when the request never got a response
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number;
+};
+
+/**
+ * POSTs one signed delivery; never throws, failures are in the result.
+ * The target is checked again on every send, since its DNS may have
+ * changed since the webhook was saved.
+ */
+export async function sendWebhook(args: {
+  url: string;
+  secret: string;
+  body: string;
+  eventType: string;
+  deliveryId: string;
+  timeoutMs: number;
+  now: Date;
+}): Promise<SendResult> {
+  const started = Date.now();
+  try {
+    const refused = await checkWebhookTarget(args.url);
+    if (refused)
+      return {
+        ok: false,
+        responseStatus: null,
+        responseBody: null,
+        error: refused,
+        durationMs: Date.now() - started,
+      };
+    const response = await fetch(args.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Doublespot-Webhooks/1.0",
+        "X-Doublespot-Event": args.eventType,
+        "X-Doublespot-Delivery": args.deliveryId,
+        [SIGNATURE_HEADER]: signBody(args.secret, args.body, args.now),
+      },
+      body: args.body,
+      // redirects could leak the signed body to another host
+      redirect: "manual",
+      signal: AbortSignal.timeout(args.timeoutMs),
+    });
+    const text = await response.text().catch(() => "");
+    return {
+      ok: response.ok,
+      responseStatus: response.status,
+      responseBody: truncateResponse(text),
+      error: response.ok ? null : `receiver answered ${response.status}`,
+      durationMs: Date.now() - started,
+    };
+  } catch (err) {
+    return {
+      ok: false,
+      responseStatus: null,
+      responseBody: null,
+      error: err instanceof Error ? err.message : String(err),
+      durationMs: Date.now() - started,
+    };
+  }
+}
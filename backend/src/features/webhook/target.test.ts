@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { checkWebhookTarget, isPublicAddress } from "./target.js";
+import { sendWebhook } from "./sender.js";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("webhook targets", () => {
+  it("tells public addresses from internal ones", () => {
+    for (const address of ["93.184.216.34", "2606:2800:220:1::1"])
+      expect(isPublicAddress(address)).toBe(true);
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.20.0.5",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::1",
+      "::",
+      "fd00:ec2::254",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+      "not-an-ip",
+    ])
+      expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it("refuses urls whose host resolves to an internal address", async () => {
+    expect(await checkWebhookTarget("https://93.184.216.34/hook")).toBeNull();
+    for (const url of [
+      "http://169.254.169.254/latest/meta-data/",
+      "http://localhost:3306",
+      "http://[::ffff:10.0.0.1]/",
+    ])
+      expect(await checkWebhookTarget(url)).toBe(
+        "url must point to a public address",
+      );
+  });
+
+  it("does not send to an internal address", async () => {
+    const fetch = vi.spyOn(globalThis, "fetch");
+    const result = await sendWebhook({
+      url: "http://127.0.0.1:3000/api/spaces",
+      secret: "s".repeat(16),
+      body: "{}",
+      eventType: "space.created",
+      deliveryId: "d1",
+      timeoutMs: 1000,
+      now: new Date(),
+    });
+    expect(result).toMatchObject({
+      ok: false,
+      responseStatus: null,
+      error: "url must point to a public address",
+    });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,59 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import { webhookConfig } from "../../config/webhooks.js";
+
+/**
+ * Webhooks only go to public hosts: the receiver's answer is stored and
+ * shown in the delivery log, so a target inside our network would let
+ * admins read from it (e.g. cloud metadata at 169.254.169.254).
+ */
+
+// also matches IPv4-mapped IPv6 addresses such as ::ffff:127.0.0.1
+const nonPublic = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8], // private
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local, cloud metadata
+  ["172.16.0.0", 12], // private
+  ["192.0.0.0", 24], // protocol assignments
+  ["192.168.0.0", 16], // private
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 3], // multicast, reserved, broadcast
+] as const)
+  nonPublic.addSubnet(network, prefix, "ipv4");
+for (const [network, prefix] of [
+  ["::", 127], // unspecified, loopback
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const)
+  nonPublic.addSubnet(network, prefix, "ipv6");
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !nonPublic.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Resolves the host of `url`; returns why webhooks may not be sent there,
+ * or null when every address it resolves to is public.
+ */
+export async function checkWebhookTarget(url: string): Promise<string | null> {
+  if (webhookConfig.allowPrivateTargets) return null;
+  // IPv6 literals keep their brackets in URL#hostname
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: string[];
+  try {
+    addresses = isIP(host)
+      ? [host]
+      : (await lookup(host, { all: true })).map((a) => a.address);
+  } catch {
+    return `url host ${host} could not be resolved`;
+  }
+  if (addresses.length === 0 || !addresses.every(isPublicAddress))
+    return "url must point to a public address";
+  return null;
+}
@@ -0,0 +1,26 @@
+import type { z } from "zod";
+import type {
+  CreateWebhookSchema,
+  DeliveryParamsSchema,
+  ListDeliveriesQuerySchema,
+  UpdateWebhookSchema,
+  WebhookDeliverySchema,
+  WebhookIdParamsSchema,
+  WebhookSchema,
+} from "./schema.js";
+
+export type WebhookDTO = z.output<typeof WebhookSchema>;
+
+export type CreateWebhookInput = z.output<typeof CreateWebhookSchema>;
+
+export type UpdateWebhookInput = z.output<typeof UpdateWebhookSchema>;
+
+export type WebhookDeliveryDTO = z.output<typeof WebhookDeliverySchema>;
+
+export type WebhookDeliveryStatus = WebhookDeliveryDTO["status"];
+
+export type ListDeliveriesQuery = z.output<typeof ListDeliveriesQuerySchema>;
+
+export type WebhookIdParams = z.output<typeof WebhookIdParamsSchema>;
+
+export type DeliveryParams = z.output<typeof DeliveryParamsSchema>;
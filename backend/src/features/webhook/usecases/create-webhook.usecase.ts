@@ -0,0 +1,13 @@
+import * as repo from "../repos/webhook.repo.js";
+import { CreateWebhookInput, WebhookDTO } from "../types.js";
+import { toWebhookDTO } from "../entity.js";
+import { checkWebhookTarget } from "../target.js";
+import { ValidationError } from "../../../utils/errors.js";
+
+export async function createWebhookUsecase(
+  input: CreateWebhookInput,
+): Promise<WebhookDTO> {
+  const refused = await checkWebhookTarget(input.url);
+  if (refused) throw ValidationError.field("url", refused);
+  return toWebhookDTO(await repo.createWebhook(input));
+}
@@ -0,0 +1,9 @@
+import * as repo from "../repos/webhook.repo.js";
+import { NotFoundError } from "../../../utils/errors.js";
+
+/** Also drops the subscription's delivery log. */
+export async function deleteWebhookUsecase(id: string): Promise<void> {
+  if (!(await repo.getWebhookById(id)))
+    throw new NotFoundError("webhook not found");
+  await repo.deleteWebhook(id);
+}
@@ -0,0 +1,117 @@
+import * as repo from "../repos/webhook.repo.js";
+import * as deliveryRepo from "../repos/delivery.repo.js";
+import { sendWebhook } from "../sender.js";
+import { retryDelayMs } from "../../outbox/entity.js";
+import { webhookConfig } from "../../../config/webhooks.js";
+
+export type DeliverResult = {
+  succeeded: number;
+  retried: number;
+  failed: number;
+  disabled: number;
+};
+
+/**
+ * Sends the due deliveries one by one. A failed attempt is retried with
+ * exponential backoff until `maxAttempts`; every failed attempt also counts
+ * against the subscription, which is disabled after too many in a row.
+ */
+export async function deliverWebhooksUsecase(
+  now = new Date(),
+): Promise<DeliverResult> {
+  const result: DeliverResult = {
+    succeeded: 0,
+    retried: 0,
+    failed: 0,
+    disabled: 0,
+  };
+  const due = await deliveryRepo.listDueDeliveries(
+    now,
+    webhookConfig.batchSize,
+  );
+  const leaseUntil = new Date(now.getTime() + webhookConfig.leaseMs);
+  // disabled during this run; the loaded subscriptions do not know yet
+  const disabledIds = new Set<string>();
+
+  for (const delivery of due) {
+    if (!(await deliveryRepo.claimDelivery(delivery.id, now, leaseUntil)))
+      continue;
+    const { subscription } = delivery;
+    const attemptedAt = new Date();
+    const attempts = delivery.attempts + 1;
+
+    // disabled while the delivery waited; give up on it without sending
+    if (!subscription.active || disabledIds.has(subscription.id)) {
+      await deliveryRepo.recordAttempt(delivery.id, {
+        status: "failed",
+        attempts: delivery.attempts,
+        nextAttemptAt: attemptedAt,
+        responseStatus: null,
+        responseBody: null,
+        error: "subscription is disabled",
+        durationMs: 0,
+        lastAttemptAt: attemptedAt,
+      });
+      result.failed++;
+      continue;
+    }
+
+    const sent = await sendWebhook({
+      url: subscription.url,
+      secret: subscription.secret,
+      body: delivery.body,
+      eventType: delivery.eventType,
+      deliveryId: delivery.id,
+      timeoutMs: webhookConfig.timeoutMs,
+      now: attemptedAt,
+    });
+    const outcome = {
+      attempts,
+      responseStatus: sent.responseStatus,
+      responseBody: sent.responseBody,
+      error: sent.error,
+      durationMs: sent.durationMs,
+      lastAttemptAt: attemptedAt,
+    };
+
+    if (sent.ok) {
+      await deliveryRepo.recordAttempt(delivery.id, {
+        ...outcome,
+        status: "succeeded",
+        nextAttemptAt: attemptedAt,
+      });
+      if (subscription.consecutiveFailures > 0)
+        await repo.resetFailures(subscription.id);
+      result.succeeded++;
+      continue;
+    }
+
+    const givingUp = attempts >= webhookConfig.maxAttempts;
+    await deliveryRepo.recordAttempt(delivery.id, {
+      ...outcome,
+      status: givingUp ? "failed" : "pending",
+      nextAttemptAt: new Date(
+        attemptedAt.getTime() +
+          (givingUp
+            ? 0
+            : retryDelayMs(
+                attempts,
+                webhookConfig.retryBaseMs,
+                webhookConfig.retryMaxMs,
+              )),
+      ),
+    });
+    result[givingUp ? "failed" : "retried"]++;
+    const disabled = await repo.recordFailure(
+      subscription.id,
+      webhookConfig.disableAfterFailures,
+      `disabled after ${webhookConfig.disableAfterFailures} failed deliveries in a row`,
+      attemptedAt,
+    );
+    if (disabled) {
+      disabledIds.add(subscription.id);
+      result.disabled++;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,32 @@
+import * as repo from "../repos/webhook.repo.js";
+import * as deliveryRepo from "../repos/delivery.repo.js";
+import { subscribesTo, webhookBody } from "../entity.js";
+import type { OutboxHandler } from "../../outbox/types.js";
+
+/**
+ * Outbox handler: queues a delivery of the event for every active
+ * subscription to its type. Only touches the database, so a slow receiver
+ * never holds up the outbox; the webhook worker does the sending. Skips
+ * subscriptions that already have the event in case the outbox retries it.
+ */
+export const enqueueWebhookDeliveries: OutboxHandler = async (event) => {
+  const subscriptions = (await repo.listActiveWebhooks()).filter((s) =>
+    subscribesTo(s, event.type),
+  );
+  if (subscriptions.length === 0) return;
+
+  const queued = new Set(
+    await deliveryRepo.listSubscriptionIdsDelivering(event.id),
+  );
+  const body = webhookBody(event);
+  await deliveryRepo.createDeliveries(
+    subscriptions
+      .filter((s) => !queued.has(s.id))
+      .map((s) => ({
+        subscriptionId: s.id,
+        eventId: event.id,
+        eventType: event.type,
+        body,
+      })),
+  );
+};
@@ -0,0 +1,10 @@
+import * as repo from "../repos/webhook.repo.js";
+import { WebhookDTO } from "../types.js";
+import { toWebhookDTO } from "../entity.js";
+import { NotFoundError } from "../../../utils/errors.js";
+
+export async function getWebhookUsecase(id: string): Promise<WebhookDTO> {
+  const subscription = await repo.getWebhookById(id);
+  if (!subscription) throw new NotFoundError("webhook not found");
+  return toWebhookDTO(subscription);
+}
@@ -0,0 +1,18 @@
+import * as repo from "../repos/webhook.repo.js";
+import * as deliveryRepo from "../repos/delivery.repo.js";
+import { ListDeliveriesQuery, WebhookDeliveryDTO } from "../types.js";
+import { toDeliveryDTO } from "../entity.js";
+import { NotFoundError } from "../../../utils/errors.js";
+
+export async function listDeliveriesUsecase(
+  id: string,
+  query: ListDeliveriesQuery,
+): Promise<WebhookDeliveryDTO[]> {
+  if (!(await repo.getWebhookById(id)))
+    throw new NotFoundError("webhook not found");
+  const deliveries = await deliveryRepo.listDeliveries({
+    subscriptionId: id,
+    ...query,
+  });
+  return deliveries.map(toDeliveryDTO);
+}
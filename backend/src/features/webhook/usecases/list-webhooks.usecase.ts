@@ -0,0 +1,8 @@
+import * as repo from "../repos/webhook.repo.js";
+import { WebhookDTO } from "../types.js";
+import { toWebhookDTO } from "../entity.js";
+
+export async function listWebhooksUsecase(): Promise<WebhookDTO[]> {
+  const subscriptions = await repo.listWebhooks();
+  return subscriptions.map(toWebhookDTO);
+}
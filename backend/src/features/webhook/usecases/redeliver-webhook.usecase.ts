@@ -0,0 +1,31 @@
+import * as repo from "../repos/webhook.repo.js";
+import * as deliveryRepo from "../repos/delivery.repo.js";
+import { WebhookDeliveryDTO } from "../types.js";
+import { toDeliveryDTO } from "../entity.js";
+import { ConflictError, NotFoundError } from "../../../utils/errors.js";
+
+/**
+ * Queues a fresh delivery with the same body as an earlier one; it is
+ * signed anew when sent, so receivers checking timestamps accept it.
+ */
+export async function redeliverWebhookUsecase(
+  id: string,
+  deliveryId: string,
+): Promise<WebhookDeliveryDTO> {
+  const subscription = await repo.getWebhookById(id);
+  if (!subscription) throw new NotFoundError("webhook not found");
+  const original = await deliveryRepo.getDeliveryById(deliveryId);
+  if (!original || original.subscriptionId !== id)
+    throw new NotFoundError("delivery not found");
+  if (!subscription.active)
+    throw new ConflictError("webhook is disabled; enable it first");
+
+  const delivery = await deliveryRepo.createDelivery({
+    subscriptionId: id,
+    eventId: original.eventId,
+    eventType: original.eventType,
+    body: original.body,
+    redeliveryOfId: original.id,
+  });
+  return toDeliveryDTO(delivery);
+}
@@ -0,0 +1,32 @@
+import * as repo from "../repos/webhook.repo.js";
+import { UpdateWebhookInput, WebhookDTO } from "../types.js";
+import { toWebhookDTO } from "../entity.js";
+import { checkWebhookTarget } from "../target.js";
+import { NotFoundError, ValidationError } from "../../../utils/errors.js";
+
+export async function updateWebhookUsecase(
+  id: string,
+  input: UpdateWebhookInput,
+): Promise<WebhookDTO> {
+  const existing = await repo.getWebhookById(id);
+  if (!existing) throw new NotFoundError("webhook not found");
+  if (input.url) {
+    const refused = await checkWebhookTarget(input.url);
+    if (refused) throw ValidationError.field("url", refused);
+  }
+
+  const { active, ...fields } = input;
+  const updated = await repo.updateWebhook(id, {
+    ...fields,
+    // re-enabling starts the failure count over; disabling by hand is not
+    // recorded as a failure-triggered disable
+    ...(active === true && {
+      active: true,
+      consecutiveFailures: 0,
+      disabledAt: null,
+      disabledReason: null,
+    }),
+    ...(active === false && { active: false }),
+  });
+  return toWebhookDTO(updated);
+}
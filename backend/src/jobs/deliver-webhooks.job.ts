@@ -0,0 +1,34 @@
+import { deliverWebhooksUsecase } from "../features/webhook/usecases/deliver-webhooks.usecase.js";
+import { webhookConfig } from "../config/webhooks.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Sends due webhook deliveries now and then every `deliveryIntervalMs`. A
+ * run that is still sending when the next one is due makes that one a no-op.
+ */
+export function scheduleDeliverWebhooks(): () => void {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await deliverWebhooksUsecase();
+      const { succeeded, retried, failed, disabled } = result;
+      if (succeeded || retried || failed || disabled)
+        logger[failed || disabled ? "error" : retried ? "warn" : "info"](
+          "delivered webhooks",
+          result,
+        );
+    } catch (err) {
+      logger.error("webhook delivery failed", { error: err });
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, webhookConfig.deliveryIntervalMs);
+  // never keep the process alive just for the deliveries
+  timer.unref();
+  return () => clearInterval(timer);
+}
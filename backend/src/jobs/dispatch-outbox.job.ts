@@ -0,0 +1,34 @@
+import { dispatchOutboxUsecase } from "../features/outbox/usecases/dispatch-outbox.usecase.js";
+import { outboxConfig } from "../config/outbox.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Delivers due outbox events now and then every `dispatchIntervalMs`. A run
+ * that is still sending when the next one is due makes that one a no-op.
+ */
+export function scheduleDispatchOutbox(): () => void {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await dispatchOutboxUsecase();
+      const { delivered, retried, dead } = result;
+      if (delivered || retried || dead)
+        logger[dead ? "error" : retried ? "warn" : "info"](
+          "dispatched outbox events",
+          result,
+        );
+    } catch (err) {
+      logger.error("outbox dispatch failed", { error: err });
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, outboxConfig.dispatchIntervalMs);
+  // never keep the process alive just for the dispatcher
+  timer.unref();
+  return () => clearInterval(timer);
+}
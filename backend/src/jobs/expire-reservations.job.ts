@@ -0,0 +1,26 @@
+import { expireReservationsUsecase } from "../features/reservation/usecases/expire-reservations.usecase.js";
+import { reservationConfig } from "../config/reservations.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Expires undecided reservation requests now and then every
+ * `expiryIntervalMs`. Conflict checks already ignore expired holds; this
+ * makes their status visible to requesters and approvers and hands the
+ * freed time to the waitlist.
+ */
+export function scheduleExpireReservations(): () => void {
+  const run = async () => {
+    try {
+      const count = await expireReservationsUsecase();
+      if (count) logger.info("expired reservation requests", { count });
+    } catch (err) {
+      logger.error("reservation expiry failed", { error: err });
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, reservationConfig.expiryIntervalMs);
+  // never keep the process alive just for the expiry
+  timer.unref();
+  return () => clearInterval(timer);
+}
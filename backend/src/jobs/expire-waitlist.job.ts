@@ -0,0 +1,25 @@
+import { expireWaitlistUsecase } from "../features/waitlist/usecases/expire-waitlist.usecase.js";
+import { waitlistConfig } from "../config/waitlist.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Expires stale waitlist entries now and then every `expiryIntervalMs`.
+ * Promotion already skips expired entries; this only makes their status
+ * visible to their owners.
+ */
+export function scheduleExpireWaitlist(): () => void {
+  const run = async () => {
+    try {
+      const count = await expireWaitlistUsecase();
+      if (count) logger.info("expired waitlist entries", { count });
+    } catch (err) {
+      logger.error("waitlist expiry failed", { error: err });
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, waitlistConfig.expiryIntervalMs);
+  // never keep the process alive just for the expiry
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,24 @@
+import { purgeDeletedSpacesUsecase } from "../features/space/usecases/purge-deleted-spaces.usecase.js";
+import { spaceConfig } from "../config/spaces.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Runs the trash purge now and then every `purgeIntervalMs`. Safe to run
+ * on several instances at once: the delete is idempotent.
+ */
+export function schedulePurgeDeletedSpaces(): () => void {
+  const run = async () => {
+    try {
+      const count = await purgeDeletedSpacesUsecase();
+      if (count) logger.info("purged deleted spaces", { count });
+    } catch (err) {
+      logger.error("space purge failed", { error: err });
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, spaceConfig.purgeIntervalMs);
+  // never keep the process alive just for the purge
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,24 @@
+import { purgeIdempotencyKeysUsecase } from "../features/idempotency/usecases/purge-idempotency-keys.usecase.js";
+import { idempotencyConfig } from "../config/idempotency.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Deletes expired idempotency keys now and then every `purgeIntervalMs`.
+ * Safe to run on several instances at once: the delete is idempotent.
+ */
+export function schedulePurgeIdempotencyKeys(): () => void {
+  const run = async () => {
+    try {
+      const count = await purgeIdempotencyKeysUsecase();
+      if (count) logger.info("purged expired idempotency keys", { count });
+    } catch (err) {
+      logger.error("idempotency key purge failed", { error: err });
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, idempotencyConfig.purgeIntervalMs);
+  // never keep the process alive just for the purge
+  timer.unref();
+  return () => clearInterval(timer);
+}
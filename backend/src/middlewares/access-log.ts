@@ -0,0 +1,26 @@
+import { NextFunction, Request, Response } from "express";
+import { routeLabel } from "../features/health/entity.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Logs one line per request once the connection is done with it, including
+ * streams the client hung up on.
+ */
+export function logAccess(req: Request, res: Response, next: NextFunction) {
+  const started = performance.now();
+  res.on("close", () => {
+    const path = req.originalUrl.split("?")[0];
+    logger[res.statusCode >= 500 ? "error" : "info"]("request", {
+      // listeners do not run in the request's async context
+      requestId: req.requestId,
+      method: req.method,
+      route: routeLabel(path, req.route?.path),
+      path,
+      status: res.statusCode,
+      durationMs: Math.round(performance.now() - started),
+      userId: req.user?.id ?? null,
+      ...(!res.writableFinished && { aborted: true }),
+    });
+  });
+  return next();
+}
@@ -0,0 +1,63 @@
+import { NextFunction, Request, Response } from "express";
+import { authenticateTokenUsecase } from "../features/auth/usecases/authenticate-token.usecase.js";
+import { authenticateCalendarTokenUsecase } from "../features/auth/usecases/authenticate-calendar-token.usecase.js";
+import type { AuthUser, Role } from "../features/auth/types.js";
+import { ForbiddenError, UnauthorizedError } from "../utils/errors.js";
+
+declare module "express-serve-static-core" {
+  interface Request {
+    user?: AuthUser;
+  }
+}
+
+type Credential = { kind: "session" | "calendar"; token: string };
+
+function extractCredential(req: Request): Credential | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer "))
+    return { kind: "session", token: header.slice("Bearer ".length) };
+
+  // calendar clients and EventSource cannot send headers, so feeds and the
+  // event stream accept ?token=. Feed URLs get shared and stored in calendar
+  // apps, so .ics paths take only the feed token, never a session token.
+  const token = req.query.token;
+  if (req.method !== "GET" || typeof token !== "string" || !token)
+    return undefined;
+  if (req.path.endsWith(".ics")) return { kind: "calendar", token };
+  if (req.path === "/api/events") return { kind: "session", token };
+  return undefined;
+}
+
+/** Attaches the current user when the request carries a valid token. */
+export async function attachUser(
+  req: Request,
+  _res: Response,
+  next: NextFunction,
+) {
+  const credential = extractCredential(req);
+  if (credential) {
+    try {
+      const user =
+        credential.kind === "calendar"
+          ? await authenticateCalendarTokenUsecase(credential.token)
+          : await authenticateTokenUsecase(credential.token);
+      req.user = user ?? undefined;
+    } catch (err) {
+      return next(err);
+    }
+  }
+  return next();
+}
+
+export function requireAuth(req: Request, _res: Response, next: NextFunction) {
+  if (!req.user) return next(new UnauthorizedError());
+  return next();
+}
+
+export function requireRole(...roles: Role[]) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    if (!req.user) return next(new UnauthorizedError());
+    if (!roles.includes(req.user.role)) return next(new ForbiddenError());
+    return next();
+  };
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Request, Response } from "express";
+import { Prisma } from "../generated/prisma/client.js";
+import { BookingConflictError } from "../features/booking/entity.js";
+import { ValidationError } from "../utils/errors.js";
+import { errorHandler } from "./error-handler.js";
+
+function run(err: unknown, requestId = "req-1") {
+  // assignRequestId has run before any error reaches the handler
+  const req = { requestId } as Request;
+  const res = {
+    headersSent: false,
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this;
+    },
+  };
+  errorHandler(err, req, res as unknown as Response, vi.fn());
+  return res;
+}
+
+describe("errorHandler", () => {
+  it("renders domain errors with their status, code and field details", () => {
+    const res = run(ValidationError.field("name", "name is required"));
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toEqual({
+      code: "VALIDATION_ERROR",
+      message: "name is required",
+      details: { fields: { name: "name is required" } },
+      requestId: "req-1",
+    });
+  });
+
+  it("keeps subclass codes and details", () => {
+    const conflicts = [
+      { startAt: "a", endAt: "b", conflictingBookingIds: ["x"] },
+    ];
+    const res = run(new BookingConflictError("overlap", conflicts));
+    expect(res.statusCode).toBe(409);
+    expect(res.body).toMatchObject({
+      code: "BOOKING_CONFLICT",
+      details: { conflicts },
+    });
+  });
+
+  it("maps Prisma record-not-found to 404", () => {
+    const err = new Prisma.PrismaClientKnownRequestError("missing", {
+      code: "P2025",
+      clientVersion: "test",
+    });
+    const res = run(err);
+    expect(res.statusCode).toBe(404);
+    expect(res.body).toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("maps oversized bodies to 413", () => {
+    const err = Object.assign(new Error("request entity too large"), {
+      type: "entity.too.large",
+      status: 413,
+    });
+    const res = run(err);
+    expect(res.statusCode).toBe(413);
+    expect(res.body).toMatchObject({ code: "PAYLOAD_TOO_LARGE" });
+  });
+
+  it("hides unexpected errors behind a generic 500", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const res = run(new Error("connection string leaked"));
+    expect(res.statusCode).toBe(500);
+    expect(res.body).toMatchObject({
+      code: "INTERNAL_ERROR",
+      message: "internal server error",
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { NextFunction, Request, Response } from "express";
+import { Prisma } from "../generated/prisma/client.js";
+import {
+  AppError,
+  ConflictError,
+  ErrorDetails,
+  NotFoundError,
+  PayloadTooLargeError,
+  ValidationError,
+} from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+export type ErrorBody = {
+  code: string;
+  message: string;
+  details?: ErrorDetails;
+  requestId: string;
+};
+
+/** Maps Prisma request errors that callers can cause to domain errors. */
+function fromPrisma(
+  err: Prisma.PrismaClientKnownRequestError,
+): AppError | undefined {
+  switch (err.code) {
+    case "P2025":
+      return new NotFoundError("record not found");
+    case "P2002": {
+      const target = err.meta?.target;
+      const fields = Array.isArray(target) ? target.map(String) : [];
+      return new ConflictError(
+        "a record with the same unique value already exists",
+        fields.length
+          ? {
+              fields: Object.fromEntries(
+                fields.map((f) => [f, `${f} is already taken`]),
+              ),
+            }
+          : undefined,
+      );
+    }
+    case "P2003":
+      return new ConflictError("the record is referenced by other records");
+    default:
+      return undefined;
+  }
+}
+
+/** Body parser failures carry an HTTP status but are not AppErrors. */
+function fromHttpError(err: unknown): AppError | undefined {
+  if (typeof err !== "object" || err === null || !("type" in err))
+    return undefined;
+  if (err.type === "entity.parse.failed")
+    return new ValidationError("request body is not valid JSON");
+  if (err.type === "entity.too.large")
+    return new PayloadTooLargeError("request body is too large");
+  return undefined;
+}
+
+function toAppError(err: unknown): AppError | undefined {
+  if (err instanceof AppError) return err;
+  if (err instanceof Prisma.PrismaClientKnownRequestError)
+    return fromPrisma(err);
+  return fromHttpError(err);
+}
+
+/** Answers unmatched /api routes in the same shape as other errors. */
+export function notFoundHandler(
+  req: Request,
+  _res: Response,
+  next: NextFunction,
+) {
+  next(
+    new NotFoundError(
+      `route ${req.method} ${req.originalUrl.split("?")[0]} not found`,
+    ),
+  );
+}
+
+/**
+ * Final error middleware. Domain errors keep their status and code; any
+ * other error is logged and reported as a 500 without leaking internals.
+ */
+export function errorHandler(
+  err: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  if (res.headersSent) return next(err);
+
+  // assigned and echoed in X-Request-Id by assignRequestId
+  const { requestId } = req;
+  const appError = toAppError(err);
+
+  if (!appError) {
+    logger.error("unhandled error", { error: err });
+    const body: ErrorBody = {
+      code: "INTERNAL_ERROR",
+      message: "internal server error",
+      requestId,
+    };
+    return res.status(500).json(body);
+  }
+
+  const body: ErrorBody = {
+    code: appError.code,
+    message: appError.message,
+    ...(appError.details && { details: appError.details }),
+    requestId,
+  };
+  return res.status(appError.status).json(body);
+}
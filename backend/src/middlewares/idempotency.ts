@@ -0,0 +1,102 @@
+import { NextFunction, Request, Response } from "express";
+import { claimIdempotencyKeyUsecase } from "../features/idempotency/usecases/claim-idempotency-key.usecase.js";
+import { recordIdempotentResponseUsecase } from "../features/idempotency/usecases/record-idempotent-response.usecase.js";
+import {
+  MAX_KEY_LENGTH,
+  REPLAYED_HEADERS,
+} from "../features/idempotency/entity.js";
+import type { StoredResponse } from "../features/idempotency/types.js";
+import { clientIdOf } from "../features/rate-limit/entity.js";
+import { ValidationError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+const IDEMPOTENT_METHODS = new Set(["POST", "PATCH", "DELETE"]);
+
+/**
+ * Calls `onSent` once the response has been handed to res.send, which
+ * res.json and the error handler go through too, with the body as sent.
+ */
+function onResponse(res: Response, onSent: (body: string) => void) {
+  const send = res.send.bind(res);
+  let body = "";
+  let depth = 0;
+  // res.send(object) re-enters through res.json with the serialized body
+  res.send = (data?: unknown) => {
+    if (typeof data === "string") body = data;
+    else if (Buffer.isBuffer(data)) body = data.toString("utf8");
+    depth++;
+    try {
+      return send(data);
+    } finally {
+      depth--;
+      if (depth === 0) {
+        res.send = send;
+        onSent(body);
+      }
+    }
+  };
+}
+
+function storedHeaders(res: Response): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const name of REPLAYED_HEADERS) {
+    const value = res.getHeader(name);
+    if (value !== undefined) headers[name] = String(value);
+  }
+  return headers;
+}
+
+/**
+ * Honors an Idempotency-Key header on POST, PATCH and DELETE: the first
+ * response for a key is stored and replayed, marked Idempotent-Replayed,
+ * for repeats of the same request until the key expires. Requests without
+ * the header run as usual. Mount after body parsing and attachUser.
+ */
+export async function honorIdempotencyKey(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const key = req.get("Idempotency-Key");
+  if (key === undefined || !IDEMPOTENT_METHODS.has(req.method)) return next();
+  if (!key || key.length > MAX_KEY_LENGTH)
+    return next(
+      ValidationError.field(
+        "Idempotency-Key",
+        `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`,
+      ),
+    );
+
+  let claim;
+  try {
+    claim = await claimIdempotencyKeyUsecase({
+      key,
+      clientId: clientIdOf(req.user, req.ip),
+      method: req.method,
+      path: req.originalUrl,
+      body: req.body,
+    });
+  } catch (err) {
+    return next(err);
+  }
+
+  if (claim.replay) {
+    const { status, headers, body } = claim.replay;
+    res.set(headers);
+    res.set("Idempotent-Replayed", "true");
+    return res.status(status).send(body);
+  }
+
+  // recorded even if the client hung up: the change has been made
+  onResponse(res, (body) => {
+    const response: StoredResponse = {
+      status: res.statusCode,
+      headers: storedHeaders(res),
+      body,
+    };
+    recordIdempotentResponseUsecase(claim.id, response).catch((err) =>
+      logger.error("storing idempotent response failed", { error: err }),
+    );
+  });
+  return next();
+}
@@ -0,0 +1,22 @@
+import { NextFunction, Request, Response } from "express";
+import {
+  httpRequestDuration,
+  httpRequests,
+} from "../features/health/metrics.js";
+import { routeLabel } from "../features/health/entity.js";
+
+/** Counts and times every request once its response has been sent. */
+export function recordMetrics(req: Request, res: Response, next: NextFunction) {
+  const stopTimer = httpRequestDuration.startTimer();
+  res.on("finish", () => {
+    const labels = {
+      method: req.method,
+      // req.route is left in place even after an error left the router
+      route: routeLabel(req.originalUrl.split("?")[0], req.route?.path),
+      status: String(res.statusCode),
+    };
+    httpRequests.inc(labels);
+    stopTimer(labels);
+  });
+  return next();
+}
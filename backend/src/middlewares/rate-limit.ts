@@ -0,0 +1,49 @@
+import { NextFunction, Request, Response } from "express";
+import { rateLimitConfig } from "../config/rate-limit.js";
+import { clientIdOf, rateLimitHeaders } from "../features/rate-limit/entity.js";
+import { createMemoryRateLimitStore } from "../features/rate-limit/store.js";
+import { mysqlRateLimitStore } from "../features/rate-limit/repos/rate-limit.repo.js";
+import type { RateLimitStore } from "../features/rate-limit/types.js";
+import { TooManyRequestsError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+/**
+ * Limits mutating requests per client to `limit` per window and reports
+ * the budget in RateLimit-* headers. Reads pass through uncounted.
+ */
+export function limitRate(
+  store: RateLimitStore,
+  { limit, windowMs }: { limit: number; windowMs: number },
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (SAFE_METHODS.has(req.method)) return next();
+
+    const now = new Date();
+    let hit;
+    try {
+      hit = await store.hit(clientIdOf(req.user, req.ip), windowMs, now);
+    } catch (err) {
+      // an unreachable store should not take writes down with it
+      logger.warn("rate limit store failed, allowing request", { error: err });
+      return next();
+    }
+
+    const headers = rateLimitHeaders(limit, hit, now);
+    res.set(headers);
+    if (hit.count > limit) {
+      res.set("Retry-After", headers["RateLimit-Reset"]);
+      return next(new TooManyRequestsError());
+    }
+    return next();
+  };
+}
+
+/** The limit for mutating space requests, with the configured store. */
+export const limitSpaceWrites = limitRate(
+  rateLimitConfig.store === "mysql"
+    ? mysqlRateLimitStore
+    : createMemoryRateLimitStore(),
+  rateLimitConfig,
+);
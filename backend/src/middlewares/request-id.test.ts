@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Request, Response } from "express";
+import { assignRequestId } from "./request-id.js";
+import { currentRequestId } from "../utils/request-context.js";
+
+function run(incoming?: string) {
+  const req = {
+    get: (name: string) =>
+      name.toLowerCase() === "x-request-id" ? incoming : undefined,
+  } as Request;
+  const res = { setHeader: vi.fn() };
+  let seen: string | undefined;
+  assignRequestId(req, res as unknown as Response, () => {
+    seen = currentRequestId();
+  });
+  return { req, res, seen };
+}
+
+describe("assignRequestId", () => {
+  it("adopts the caller's id and echoes it back", () => {
+    const { req, res, seen } = run("proxy-42");
+    expect(req.requestId).toBe("proxy-42");
+    expect(seen).toBe("proxy-42");
+    expect(res.setHeader).toHaveBeenCalledWith("X-Request-Id", "proxy-42");
+  });
+
+  it("generates an id when there is none or it looks unsafe", () => {
+    for (const incoming of [undefined, "", "line\nbreak", "x".repeat(200)]) {
+      const { req, seen } = run(incoming);
+      expect(req.requestId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(seen).toBe(req.requestId);
+    }
+  });
+});
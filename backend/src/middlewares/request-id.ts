@@ -0,0 +1,29 @@
+import { randomUUID } from "node:crypto";
+import { NextFunction, Request, Response } from "express";
+import { runWithRequestContext } from "../utils/request-context.js";
+
+declare module "express-serve-static-core" {
+  interface Request {
+    requestId: string;
+  }
+}
+
+// ids from callers end up in logs and headers; keep them tame
+const ACCEPTED_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Adopts the caller's X-Request-Id (e.g. from a proxy) or generates one,
+ * echoes it back and makes it the async context of everything downstream.
+ */
+export function assignRequestId(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const incoming = req.get("X-Request-Id");
+  const requestId =
+    incoming && ACCEPTED_ID.test(incoming) ? incoming : randomUUID();
+  req.requestId = requestId;
+  res.setHeader("X-Request-Id", requestId);
+  return runWithRequestContext({ requestId }, next);
+}
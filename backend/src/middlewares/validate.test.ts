@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Request, Response } from "express";
+import {
+  AvailabilityQuerySchema,
+  CreateSpaceSchema,
+  UpdateSpaceSchema,
+} from "../features/space/schema.js";
+import { ValidationError } from "../utils/errors.js";
+import { RequestSchemas, validate } from "./validate.js";
+
+function run(schemas: RequestSchemas, req: Partial<Request>) {
+  const next = vi.fn();
+  const request = { params: {}, ...req } as Request;
+  validate(schemas)(request, {} as Response, next);
+  return { req: request, err: next.mock.calls[0][0] as unknown };
+}
+
+describe("validate", () => {
+  it("replaces the body with the parsed value", () => {
+    const { req, err } = run(
+      { body: CreateSpaceSchema },
+      { body: { name: "  Room A ", capacity: 4, extra: true } },
+    );
+    expect(err).toBeUndefined();
+    expect(req.body).toEqual({ name: "Room A", capacity: 4 });
+  });
+
+  it("reports non-numeric capacity instead of coercing it to NaN", () => {
+    const { err } = run(
+      { body: CreateSpaceSchema },
+      { body: { name: "", capacity: "abc" } },
+    );
+    expect(err).toBeInstanceOf(ValidationError);
+    expect((err as ValidationError).details?.fields).toEqual({
+      name: "name cannot be empty",
+      capacity: "capacity must be a number",
+    });
+  });
+
+  it("keeps object-level issues out of the field map", () => {
+    const { err } = run({ body: UpdateSpaceSchema }, { body: {} });
+    expect((err as ValidationError).message).toBe("no fields to update");
+    expect((err as ValidationError).details).toBeUndefined();
+  });
+
+  it("coerces query strings", () => {
+    const query = {
+      start: "2026-03-01T09:00:00Z",
+      end: "2026-03-01T10:00:00Z",
+      attendees: "3",
+    };
+    const { req, err } = run({ query: AvailabilityQuerySchema }, { query });
+    expect(err).toBeUndefined();
+    expect(req.query).toEqual({ ...query, attendees: 3 });
+  });
+});
@@ -0,0 +1,57 @@
+import { NextFunction, Request, Response } from "express";
+import type { z } from "zod";
+import { FieldErrors, ValidationError } from "../utils/errors.js";
+
+export type RequestSchemas = {
+  body?: z.ZodType;
+  params?: z.ZodType;
+  query?: z.ZodType;
+};
+
+/**
+ * Parses body, params and query against their schemas and replaces them
+ * with the parsed (trimmed, coerced, stripped) values. All failures are
+ * reported together as one ValidationError with per-field messages; the
+ * first issue doubles as the summary message.
+ */
+export function validate(schemas: RequestSchemas) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const fields: FieldErrors = {};
+    const messages: string[] = [];
+    const parsed: Partial<Record<keyof RequestSchemas, unknown>> = {};
+
+    for (const location of ["params", "query", "body"] as const) {
+      const schema = schemas[location];
+      if (!schema) continue;
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        parsed[location] = result.data;
+        continue;
+      }
+      for (const issue of result.error.issues) {
+        messages.push(issue.message);
+        // object-level issues (e.g. "no fields to update") have no field
+        const key = issue.path.join(".");
+        if (key) fields[key] ??= issue.message;
+      }
+    }
+
+    if (messages.length)
+      return next(
+        new ValidationError(
+          messages[0],
+          Object.keys(fields).length ? fields : undefined,
+        ),
+      );
+
+    if ("body" in parsed) req.body = parsed.body;
+    if ("params" in parsed) req.params = parsed.params as Request["params"];
+    // Express 5 exposes req.query through a getter
+    if ("query" in parsed)
+      Object.defineProperty(req, "query", {
+        value: parsed.query,
+        enumerable: true,
+      });
+    return next();
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { buildOpenApiDocument } from "./document.js";
+import { spaceOperations } from "../features/space/openapi.js";
+
+describe("buildOpenApiDocument", () => {
+  const doc = buildOpenApiDocument(spaceOperations);
+
+  it("emits an OpenAPI 3.1 document with Express paths converted", () => {
+    expect(doc.openapi).toBe("3.1.0");
+    expect(Object.keys(doc.paths)).toEqual([
+      "/api/spaces",
+      "/api/spaces/availability",
+      "/api/spaces/search",
+      "/api/spaces/{id}",
+      "/api/spaces/trash",
+      "/api/spaces/import",
+      "/api/spaces/export",
+      "/api/spaces/{id}/restore",
+      "/api/spaces/{id}/history",
+      "/api/spaces/{id}/rules",
+      "/api/spaces/{id}/blackouts",
+      "/api/spaces/{id}/blackouts/{blackoutId}",
+    ]);
+    expect(doc.paths["/api/spaces/{id}"]).toHaveProperty("patch");
+  });
+
+  it("derives component schemas and constraints from the zod schemas", () => {
+    const input = doc.components.schemas.CreateSpaceInput as {
+      properties: Record<string, Record<string, unknown>>;
+      required: string[];
+    };
+    expect(input.required).toEqual(["name", "capacity"]);
+    expect(input.properties.capacity).toMatchObject({
+      type: "integer",
+      exclusiveMinimum: 0,
+    });
+    expect(input.properties.name).toMatchObject({ minLength: 1 });
+  });
+
+  it("references components instead of inlining them", () => {
+    const list = doc.paths["/api/spaces"].get as {
+      responses: Record<string, { content: Record<string, unknown> }>;
+    };
+    expect(list.responses[200].content["application/json"]).toEqual({
+      schema: { $ref: "#/components/schemas/SpacePage" },
+    });
+    expect(doc.components.schemas.SpacePage).toMatchObject({
+      properties: {
+        items: { type: "array", items: { $ref: "#/components/schemas/Space" } },
+      },
+    });
+    expect(JSON.stringify(doc)).not.toContain("$defs");
+  });
+
+  it("documents query parameters with their requiredness", () => {
+    const search = doc.paths["/api/spaces/availability"].get as {
+      parameters: { name: string; in: string; required: boolean }[];
+    };
+    expect(search.parameters.map((p) => [p.name, p.in, p.required])).toEqual([
+      ["start", "query", true],
+      ["end", "query", true],
+      ["attendees", "query", true],
+    ]);
+  });
+
+  it("documents header parameters", () => {
+    const patch = doc.paths["/api/spaces/{id}"].patch as {
+      parameters: { name: string; in: string; required: boolean }[];
+    };
+    expect(patch.parameters.map((p) => [p.name, p.in, p.required])).toEqual([
+      ["id", "path", true],
+      ["If-Match", "header", false],
+      ["Idempotency-Key", "header", false],
+    ]);
+  });
+});
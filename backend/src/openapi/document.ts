@@ -0,0 +1,163 @@
+import { z } from "zod";
+import type { Role } from "../features/auth/types.js";
+
+/**
+ * Builds the OpenAPI 3.1 document from the same zod schemas the routes
+ * validate with. Schemas carrying `.meta({ id })` become components and are
+ * referenced; everything else is inlined.
+ */
+
+type HttpMethod = "get" | "post" | "patch" | "put" | "delete";
+
+export type ResponseDoc = {
+  description: string;
+  schema?: z.ZodType;
+  contentType?: string;
+};
+
+export type OperationDoc = {
+  method: HttpMethod;
+  // Express-style path, e.g. /api/spaces/:id
+  path: string;
+  summary: string;
+  tags: string[];
+  // omitted = public; [] = any signed-in user
+  roles?: Role[];
+  params?: z.ZodObject;
+  query?: z.ZodObject;
+  headers?: z.ZodObject;
+  body?: z.ZodType;
+  responses: Record<number, ResponseDoc>;
+};
+
+export const ErrorSchema = z
+  .object({
+    code: z.string().meta({ example: "VALIDATION_ERROR" }),
+    message: z.string(),
+    details: z
+      .object({ fields: z.record(z.string(), z.string()).optional() })
+      .catchall(z.unknown())
+      .optional(),
+    requestId: z.string(),
+  })
+  .meta({ id: "Error" });
+
+const SCHEMA_URI = "#/components/schemas/";
+
+type JsonSchema = Record<string, unknown>;
+
+const JSON_SCHEMA_OPTIONS = {
+  target: "draft-2020-12",
+  io: "input",
+  unrepresentable: "any",
+} as const;
+
+/** Drops the JSON Schema envelope and points local $defs at components. */
+function toComponentRefs(schema: JsonSchema): JsonSchema {
+  const copy = { ...schema };
+  delete copy.$schema;
+  delete copy.$id;
+  delete copy.$defs;
+  return JSON.parse(
+    JSON.stringify(copy).replaceAll('"#/$defs/', `"${SCHEMA_URI}`),
+  ) as JsonSchema;
+}
+
+function toJsonSchema(schema: z.ZodType): JsonSchema {
+  const id = z.globalRegistry.get(schema)?.id;
+  if (id) return { $ref: `${SCHEMA_URI}${id}` };
+  // schemas with an id are emitted as components by buildOpenApiDocument
+  return toComponentRefs(
+    z.toJSONSchema(schema, JSON_SCHEMA_OPTIONS) as JsonSchema,
+  );
+}
+
+function toParameters(
+  location: "path" | "query" | "header",
+  schema?: z.ZodObject,
+) {
+  if (!schema) return [];
+  return Object.entries(schema.shape).map(([name, field]) => ({
+    name,
+    in: location,
+    required: location === "path" || !field.safeParse(undefined).success,
+    schema: toJsonSchema(field as z.ZodType),
+  }));
+}
+
+function toOperation(doc: OperationDoc) {
+  const responses: Record<string, unknown> = {};
+  for (const [status, response] of Object.entries(doc.responses)) {
+    responses[status] = {
+      description: response.description,
+      ...(response.schema && {
+        content: {
+          [response.contentType ?? "application/json"]: {
+            schema: toJsonSchema(response.schema),
+          },
+        },
+      }),
+    };
+  }
+  responses.default = {
+    description: "Error",
+    content: { "application/json": { schema: toJsonSchema(ErrorSchema) } },
+  };
+
+  return {
+    summary: doc.summary,
+    tags: doc.tags,
+    ...(doc.roles && {
+      security: [{ bearerAuth: [] }],
+      ...(doc.roles.length && {
+        description: `Requires role: ${doc.roles.join(" or ")}.`,
+      }),
+    }),
+    parameters: [
+      ...toParameters("path", doc.params),
+      ...toParameters("query", doc.query),
+      ...toParameters("header", doc.headers),
+    ],
+    ...(doc.body && {
+      requestBody: {
+        required: true,
+        content: { "application/json": { schema: toJsonSchema(doc.body) } },
+      },
+    }),
+    responses,
+  };
+}
+
+export function buildOpenApiDocument(operations: OperationDoc[]) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const doc of operations) {
+    const path = doc.path.replace(/:(\w+)/g, "{$1}");
+    paths[path] ??= {};
+    paths[path][doc.method] = toOperation(doc);
+  }
+
+  const { schemas } = z.toJSONSchema(z.globalRegistry, {
+    ...JSON_SCHEMA_OPTIONS,
+    uri: (ref) => `${SCHEMA_URI}${ref}`,
+  });
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Doublespot API",
+      version: "1.0.0",
+    },
+    paths,
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(schemas).map(([id, schema]) => [
+          id,
+          toComponentRefs(schema as JsonSchema),
+        ]),
+      ),
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+      },
+    },
+  };
+}
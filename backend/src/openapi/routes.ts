@@ -0,0 +1,62 @@
+import { Request, Response, Router } from "express";
+import { buildOpenApiDocument } from "./document.js";
+import { spaceOperations } from "../features/space/openapi.js";
+import { auditOperations } from "../features/audit/openapi.js";
+import { locationOperations } from "../features/location/openapi.js";
+import { amenityOperations } from "../features/amenity/openapi.js";
+import { waitlistOperations } from "../features/waitlist/openapi.js";
+import { reservationOperations } from "../features/reservation/openapi.js";
+import { outboxOperations } from "../features/outbox/openapi.js";
+import { notificationOperations } from "../features/notification/openapi.js";
+import { webhookOperations } from "../features/webhook/openapi.js";
+import { eventOperations } from "../features/event/openapi.js";
+import { healthOperations } from "../features/health/openapi.js";
+
+export const openApiRouter = Router();
+
+// built once; the schemas do not change at runtime
+const document = buildOpenApiDocument([
+  ...spaceOperations,
+  ...auditOperations,
+  ...locationOperations,
+  ...amenityOperations,
+  ...waitlistOperations,
+  ...reservationOperations,
+  ...outboxOperations,
+  ...notificationOperations,
+  ...webhookOperations,
+  ...eventOperations,
+  ...healthOperations,
+]);
+
+// pinned with its integrity hash so a changed CDN file is refused, not run;
+// bump both together (hash of dist/browser/standalone.js in the npm tarball)
+const SCALAR_VERSION = "1.72.1";
+const SCALAR_INTEGRITY =
+  "sha384-U11tb2XnKvmwt8RlTvnwUnYgrN+ur4Xyh9htLhjajWNR/Oyl5AX5DEz00qRmlrmK";
+
+const DOCS_HTML = `<!doctype html>
+<html>
+  <head>
+    <title>Doublespot API</title>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+  </head>
+  <body>
+    <script id="api-reference" data-url="/api/openapi.json"></script>
+    <script
+      src="https://cdn.jsdelivr.net/npm/@scalar/api-reference@${SCALAR_VERSION}/dist/browser/standalone.js"
+      integrity="${SCALAR_INTEGRITY}"
+      crossorigin="anonymous"
+    ></script>
+  </body>
+</html>
+`;
+
+openApiRouter.get("/openapi.json", (_req: Request, res: Response) => {
+  res.status(200).json(document);
+});
+
+openApiRouter.get("/docs", (_req: Request, res: Response) => {
+  res.status(200).type("html").send(DOCS_HTML);
+});
@@ -1,6 +1,14 @@
 import dotenv from "dotenv";
 import app from "./app.js";
 import { prisma } from "./config/prisma.js";
+import { logger } from "./utils/logger.js";
+import { storageConfig } from "./config/storage.js";
+import { schedulePurgeDeletedSpaces } from "./jobs/purge-deleted-spaces.job.js";
+import { scheduleExpireWaitlist } from "./jobs/expire-waitlist.job.js";
+import { scheduleExpireReservations } from "./jobs/expire-reservations.job.js";
+import { scheduleDispatchOutbox } from "./jobs/dispatch-outbox.job.js";
+import { scheduleDeliverWebhooks } from "./jobs/deliver-webhooks.job.js";
+import { schedulePurgeIdempotencyKeys } from "./jobs/purge-idempotency-keys.job.js";
 
 dotenv.config();
 
@@ -10,46 +18,63 @@ const PORT = process.env.PORT || 3000;
 async function connectDatabase() {
   try {
     await prisma.$connect();
-    console.log("✅ Database connected successfully");
+    logger.info("database connected");
 
     // 測試查詢
     await prisma.$queryRaw`SELECT 1`;
-    console.log("✅ Database query test passed");
+    logger.info("database query test passed");
 
     return true;
   } catch (error) {
-    console.error("❌ Database connection failed:", error);
+    logger.error("database connection failed", { error });
     return false;
   }
 }
 
 // 啟動伺服器
 async function startServer() {
-  const isConnected = await connectDatabase();
+  // 展示模式：空間與帳號存在記憶體中，不需要資料庫
+  const demo = storageConfig.driver === "memory";
+  const isConnected = demo || (await connectDatabase());
 
   if (!isConnected) {
-    console.error("Failed to connect to database. Exiting...");
+    logger.error("failed to connect to database, exiting");
     process.exit(1);
   }
 
   app.listen(PORT, () => {
-    console.log(`🚀 Server running on http://localhost:${PORT}`);
+    logger.info("server listening", { port: Number(PORT), demo });
   });
+
+  // 定期清除超過保留期限的已刪除空間
+  schedulePurgeDeletedSpaces();
+  // 定期清除過期的 Idempotency-Key
+  schedulePurgeIdempotencyKeys();
+  // 其餘排程都要讀寫資料庫
+  if (demo) return;
+  // 定期關閉過期的候補
+  scheduleExpireWaitlist();
+  // 定期關閉逾時未審核的預約申請
+  scheduleExpireReservations();
+  // 定期送出 outbox 中的事件通知
+  scheduleDispatchOutbox();
+  // 定期送出 webhook，失敗時依退避時間重試
+  scheduleDeliverWebhooks();
 }
 
 startServer();
 
 // Graceful shutdown
 process.on("SIGINT", async () => {
-  console.log("\nShutting down gracefully...");
+  logger.info("shutting down gracefully");
   await prisma.$disconnect();
-  console.log("Database disconnected");
+  logger.info("database disconnected");
   process.exit(0);
 });
 
 process.on("SIGTERM", async () => {
-  console.log("\nShutting down gracefully...");
+  logger.info("shutting down gracefully");
   await prisma.$disconnect();
-  console.log("Database disconnected");
+  logger.info("database disconnected");
   process.exit(0);
 });
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv, toCsvRow } from "./csv.js";
+
+describe("parseCsv", () => {
+  it("splits rows and fields with either line ending", () => {
+    expect(parseCsv("name,capacity\r\nAtlas,8\nBoreal,4")).toEqual([
+      ["name", "capacity"],
+      ["Atlas", "8"],
+      ["Boreal", "4"],
+    ]);
+  });
+
+  it("unquotes fields containing separators, quotes and newlines", () => {
+    expect(parseCsv('"A, ""big"" room","two\nlines"\n')).toEqual([
+      ['A, "big" room', "two\nlines"],
+    ]);
+  });
+
+  it("keeps empty fields but skips blank lines and a BOM", () => {
+    expect(parseCsv("\uFEFFa,,c\n\n,b,\n")).toEqual([
+      ["a", "", "c"],
+      ["", "b", ""],
+    ]);
+  });
+
+  it("rejects an unterminated quote", () => {
+    expect(() => parseCsv('a,"b\n')).toThrow("unterminated");
+  });
+});
+
+describe("toCsvRow", () => {
+  it("quotes only when needed and round-trips through parseCsv", () => {
+    const line = toCsvRow(['A, "big" room', 8, null]);
+    expect(line).toBe('"A, ""big"" room",8,\r\n');
+    expect(parseCsv(line)).toEqual([['A, "big" room', "8", ""]]);
+  });
+});
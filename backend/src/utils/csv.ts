@@ -0,0 +1,53 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing: comma separated, fields quoted
+ * with " when they contain a comma, quote or line break, "" for a literal
+ * quote. Accepts CRLF or LF line endings and a leading UTF-8 BOM.
+ */
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endField = () => {
+    row.push(field);
+    field = "";
+  };
+  const endRow = () => {
+    endField();
+    // skip blank lines
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+  };
+
+  for (; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch !== '"') field += ch;
+      else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else quoted = false;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ",") endField();
+    else if (ch === "\n") endRow();
+    else if (ch === "\r" && text[i + 1] === "\n") {
+      endRow();
+      i++;
+    } else field += ch;
+  }
+  if (quoted) throw new Error("unterminated quoted field");
+  if (field !== "" || row.length) endRow();
+  return rows;
+}
+
+function quote(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+
+/** One CSV line, CRLF-terminated; null and undefined become empty fields. */
+export function toCsvRow(values: (string | number | null | undefined)[]) {
+  return `${values.map((v) => quote(v == null ? "" : String(v))).join(",")}\r\n`;
+}
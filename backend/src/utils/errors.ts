@@ -0,0 +1,94 @@
+/**
+ * Domain errors thrown by usecases and mapped to HTTP responses by the
+ * error middleware. `code` is the stable, machine-readable identifier
+ * clients should switch on; `message` is for humans and may change.
+ */
+
+export type FieldErrors = Record<string, string>;
+
+export type ErrorDetails = {
+  fields?: FieldErrors;
+  [key: string]: unknown;
+};
+
+export abstract class AppError extends Error {
+  abstract readonly status: number;
+  abstract readonly code: string;
+
+  constructor(
+    message: string,
+    readonly details?: ErrorDetails,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** 400: the request is malformed or fails validation. */
+export class ValidationError extends AppError {
+  readonly status = 400;
+  readonly code = "VALIDATION_ERROR";
+
+  constructor(message: string, fields?: FieldErrors) {
+    super(message, fields ? { fields } : undefined);
+  }
+
+  /** Shorthand for a failure on a single field. */
+  static field(field: string, message: string): ValidationError {
+    return new ValidationError(message, { [field]: message });
+  }
+}
+
+/** 401: missing, expired or revoked credentials. */
+export class UnauthorizedError extends AppError {
+  readonly status = 401;
+  readonly code = "UNAUTHORIZED";
+
+  constructor(message = "unauthorized") {
+    super(message);
+  }
+}
+
+/** 403: authenticated, but not allowed to perform the action. */
+export class ForbiddenError extends AppError {
+  readonly status = 403;
+  readonly code = "FORBIDDEN";
+
+  constructor(message = "forbidden") {
+    super(message);
+  }
+}
+
+/** 404: the addressed resource does not exist. */
+export class NotFoundError extends AppError {
+  readonly status = 404;
+  readonly code = "NOT_FOUND";
+}
+
+/** 409: the request conflicts with the current state of a resource. */
+export class ConflictError extends AppError {
+  readonly status = 409;
+  readonly code: string = "CONFLICT";
+}
+
+/** 412: an If-Match precondition did not hold, e.g. a stale version. */
+export class PreconditionFailedError extends AppError {
+  readonly status = 412;
+  readonly code = "PRECONDITION_FAILED";
+}
+
+/** 413: the request body is over the route's size limit. */
+export class PayloadTooLargeError extends AppError {
+  readonly status = 413;
+  readonly code = "PAYLOAD_TOO_LARGE";
+}
+
+/** 429: the client exceeded its rate limit; Retry-After says when to retry. */
+export class TooManyRequestsError extends AppError {
+  readonly status = 429;
+  readonly code = "RATE_LIMITED";
+
+  constructor(message = "too many requests") {
+    super(message);
+  }
+}
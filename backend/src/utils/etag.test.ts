@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { parseIfMatch, versionETag } from "./etag.js";
+
+describe("versionETag", () => {
+  it("quotes the version as a strong tag", () => {
+    expect(versionETag(3)).toBe('"3"');
+  });
+});
+
+describe("parseIfMatch", () => {
+  it("sets no precondition without a header or for *", () => {
+    expect(parseIfMatch(undefined)).toBeUndefined();
+    expect(parseIfMatch("*")).toBeUndefined();
+  });
+
+  it("reads every listed version", () => {
+    expect(parseIfMatch('"3"')).toEqual([3]);
+    expect(parseIfMatch('"3", "4"')).toEqual([3, 4]);
+  });
+
+  it("never matches weak or foreign tags", () => {
+    expect(parseIfMatch('W/"3"')).toEqual([]);
+    expect(parseIfMatch('"abc", W/"3"')).toEqual([]);
+  });
+});
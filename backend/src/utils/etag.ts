@@ -0,0 +1,23 @@
+/**
+ * Entity tags for versioned resources. The tag is the quoted version
+ * number, e.g. "3", and is only ever compared strongly (RFC 9110 §13.1.1).
+ */
+
+export function versionETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Versions accepted by an If-Match header, or undefined when the request
+ * sets no precondition (header absent or "*"). Weak and foreign tags can
+ * never match, so a header made only of those yields an empty list.
+ */
+export function parseIfMatch(header: string | undefined): number[] | undefined {
+  if (header === undefined) return undefined;
+  const tags = header.split(",").map((tag) => tag.trim());
+  if (tags.includes("*")) return undefined;
+  return tags.flatMap((tag) => {
+    const match = /^"(\d+)"$/.exec(tag);
+    return match ? [Number(match[1])] : [];
+  });
+}
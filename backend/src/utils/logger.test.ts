@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { formatLogLine } from "./logger.js";
+import { runWithRequestContext } from "./request-context.js";
+
+const now = new Date("2026-05-01T09:00:00.000Z");
+
+describe("formatLogLine", () => {
+  it("writes one JSON object with the request id and fields", () => {
+    const line = formatLogLine(
+      "info",
+      "request",
+      { status: 200 },
+      "req-1",
+      now,
+    );
+    expect(JSON.parse(line)).toEqual({
+      time: "2026-05-01T09:00:00.000Z",
+      level: "info",
+      msg: "request",
+      requestId: "req-1",
+      status: 200,
+    });
+  });
+
+  it("picks up the request id from the async context", async () => {
+    const line = await runWithRequestContext(
+      { requestId: "req-2" },
+      async () => {
+        await Promise.resolve();
+        return formatLogLine("warn", "slow query");
+      },
+    );
+    expect(JSON.parse(line)).toMatchObject({ requestId: "req-2" });
+  });
+
+  it("serializes errors and bigints", () => {
+    const line = formatLogLine(
+      "error",
+      "failed",
+      { error: new Error("boom"), count: 10n },
+      undefined,
+      now,
+    );
+    const entry = JSON.parse(line);
+    expect(entry.error).toMatchObject({ name: "Error", message: "boom" });
+    expect(entry.count).toBe("10");
+    expect(entry).not.toHaveProperty("requestId");
+  });
+
+  it("still writes a line when a field cannot be serialized", () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+    const line = formatLogLine("info", "odd", { circular }, "req-3", now);
+    expect(JSON.parse(line)).toEqual({
+      time: "2026-05-01T09:00:00.000Z",
+      level: "info",
+      msg: "odd",
+      requestId: "req-3",
+    });
+  });
+});
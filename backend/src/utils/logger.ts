@@ -0,0 +1,68 @@
+import { loggingConfig } from "../config/logging.js";
+import { currentRequestId } from "./request-context.js";
+
+/**
+ * JSON-lines logger for the log aggregator: one object per line on stdout
+ * with time, level, msg, the current request id and any extra fields.
+ */
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+function isLogLevel(level: string): level is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(level);
+}
+
+const threshold = LOG_LEVELS.indexOf(
+  isLogLevel(loggingConfig.level) ? loggingConfig.level : "info",
+);
+
+// Errors have no enumerable fields; BigInts do not serialize at all
+function toJsonValue(_key: string, value: unknown): unknown {
+  if (value instanceof Error)
+    return {
+      name: value.name,
+      message: value.message,
+      ...("code" in value && { code: value.code }),
+      stack: value.stack,
+    };
+  if (typeof value === "bigint") return value.toString();
+  return value;
+}
+
+export function formatLogLine(
+  level: LogLevel,
+  msg: string,
+  fields: LogFields = {},
+  requestId = currentRequestId(),
+  now = new Date(),
+): string {
+  const entry = {
+    time: now.toISOString(),
+    level,
+    msg,
+    ...(requestId && { requestId }),
+    ...fields,
+  };
+  try {
+    return JSON.stringify(entry, toJsonValue);
+  } catch {
+    // e.g. a circular field; keep the line rather than lose it
+    return JSON.stringify({ time: entry.time, level, msg, requestId });
+  }
+}
+
+function write(level: LogLevel, msg: string, fields?: LogFields) {
+  if (LOG_LEVELS.indexOf(level) < threshold) return;
+  process.stdout.write(`${formatLogLine(level, msg, fields)}\n`);
+}
+
+export const logger = {
+  debug: (msg: string, fields?: LogFields) => write("debug", msg, fields),
+  info: (msg: string, fields?: LogFields) => write("info", msg, fields),
+  warn: (msg: string, fields?: LogFields) => write("warn", msg, fields),
+  error: (msg: string, fields?: LogFields) => write("error", msg, fields),
+};
@@ -0,0 +1,21 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * Per-request state that follows the request through usecases and repo
+ * calls without being passed along, via AsyncLocalStorage.
+ */
+export type RequestContext = { requestId: string };
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestContext<T>(
+  context: RequestContext,
+  fn: () => T,
+): T {
+  return storage.run(context, fn);
+}
+
+/** The id of the request being handled, if any (jobs have none). */
+export function currentRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
@@ -0,0 +1,4 @@
+/** Limits shared by the features' zod-only schema modules. */
+
+// MySQL VARCHAR(191) is Prisma's default for String columns
+export const NAME_MAX_LENGTH = 191;
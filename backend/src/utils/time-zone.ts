@@ -0,0 +1,78 @@
+/**
+ * Minimal IANA time zone helpers built on Intl, used where wall-clock time
+ * matters (recurrence expansion, calendar feeds).
+ */
+
+export type WallClock = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function toWallClock(date: Date, timeZone: string): WallClock {
+  const parts: Record<string, number> = {};
+  for (const part of formatter(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function wallClockAsUtc(wc: WallClock): number {
+  return Date.UTC(wc.year, wc.month - 1, wc.day, wc.hour, wc.minute, wc.second);
+}
+
+/** Offset of `timeZone` from UTC at `date`, in milliseconds. */
+export function offsetAt(date: Date, timeZone: string): number {
+  const seconds = Math.floor(date.getTime() / 1000) * 1000;
+  return wallClockAsUtc(toWallClock(date, timeZone)) - seconds;
+}
+
+/**
+ * Converts a wall-clock time in `timeZone` to an instant. Times skipped by a
+ * DST transition resolve to the instant after the gap.
+ */
+export function fromWallClock(wc: WallClock, timeZone: string): Date {
+  const asUtc = wallClockAsUtc(wc);
+  const first = offsetAt(new Date(asUtc), timeZone);
+  const second = offsetAt(new Date(asUtc - first), timeZone);
+  return new Date(asUtc - (first === second ? first : second));
+}
@@ -1,11 +1,50 @@
 import { Routes, Route, Link, useLocation } from "react-router-dom";
-import { HealthPage, SpacesPage } from "./pages";
+import {
+  ConnectionIndicator,
+  GlobalSearch,
+  RequireAuth,
+  ToastContainer,
+} from "./components";
+import { useCurrentUser, useLogout, useSpaceEvents } from "./hooks";
+import {
+  ApprovalsPage,
+  HealthPage,
+  LoginPage,
+  NotificationsPage,
+  SpaceDetailPage,
+  SpacesPage,
+  TrashPage,
+  WaitlistPage,
+  WebhooksPage,
+} from "./pages";
+import { canManageSpaces, useAuthStore } from "./stores";
+
+const roleLabels = {
+  admin: "管理員",
+  manager: "空間管理者",
+  member: "成員",
+};
 
 function App() {
   const location = useLocation();
+  const user = useAuthStore((s) => s.user);
+  const logoutMutation = useLogout();
+  // 啟動時確認 token 仍有效並同步角色
+  useCurrentUser();
+  // 其他人對空間的變更即時更新到快取
+  useSpaceEvents();
 
   const navItems = [
     { path: "/", label: "Spaces", icon: "🏠" },
+    { path: "/waitlist", label: "Waitlist", icon: "⏳" },
+    { path: "/approvals", label: "Approvals", icon: "📝" },
+    { path: "/notifications", label: "Notifications", icon: "🔔" },
+    ...(canManageSpaces(user?.role)
+      ? [{ path: "/trash", label: "Trash", icon: "🗑️" }]
+      : []),
+    ...(user?.role === "admin"
+      ? [{ path: "/webhooks", label: "Webhooks", icon: "🪝" }]
+      : []),
     { path: "/health", label: "Health", icon: "💚" },
   ];
 
@@ -21,7 +60,7 @@ function App() {
                 Doublespot
               </span>
             </div>
-            <div className="flex gap-1">
+            <div className="flex items-center gap-1">
               {navItems.map((item) => (
                 <Link
                   key={item.path}
@@ -35,6 +74,34 @@ function App() {
                   {item.icon} {item.label}
                 </Link>
               ))}
+              {/* 由 backend 依 zod schema 產生的 OpenAPI 文件 */}
+              <a
+                href="/api/docs"
+                target="_blank"
+                rel="noreferrer"
+                className="px-4 py-2 rounded-lg text-sm font-medium transition-colors text-gray-600 hover:bg-gray-100"
+              >
+                📖 API
+              </a>
+              {user && (
+                <div className="flex items-center gap-2 ml-4 pl-4 border-l border-gray-200">
+                  <GlobalSearch />
+                  <ConnectionIndicator />
+                  <span className="text-sm text-gray-700">
+                    {user.name}
+                    <span className="ml-1 text-xs text-gray-400">
+                      {roleLabels[user.role]}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => logoutMutation.mutate()}
+                    disabled={logoutMutation.isPending}
+                    className="px-3 py-1.5 text-sm text-gray-600 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+                  >
+                    登出
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -42,9 +109,67 @@ function App() {
 
       {/* Routes */}
       <Routes>
-        <Route path="/" element={<SpacesPage />} />
+        <Route path="/login" element={<LoginPage />} />
+        <Route
+          path="/"
+          element={
+            <RequireAuth>
+              <SpacesPage />
+            </RequireAuth>
+          }
+        />
+        <Route
+          path="/spaces/:id"
+          element={
+            <RequireAuth>
+              <SpaceDetailPage />
+            </RequireAuth>
+          }
+        />
+        <Route
+          path="/waitlist"
+          element={
+            <RequireAuth>
+              <WaitlistPage />
+            </RequireAuth>
+          }
+        />
+        <Route
+          path="/approvals"
+          element={
+            <RequireAuth>
+              <ApprovalsPage />
+            </RequireAuth>
+          }
+        />
+        <Route
+          path="/notifications"
+          element={
+            <RequireAuth>
+              <NotificationsPage />
+            </RequireAuth>
+          }
+        />
+        <Route
+          path="/trash"
+          element={
+            <RequireAuth roles={["admin", "manager"]}>
+              <TrashPage />
+            </RequireAuth>
+          }
+        />
+        <Route
+          path="/webhooks"
+          element={
+            <RequireAuth roles={["admin"]}>
+              <WebhooksPage />
+            </RequireAuth>
+          }
+        />
         <Route path="/health" element={<HealthPage />} />
       </Routes>
+
+      <ToastContainer />
     </div>
   );
 }
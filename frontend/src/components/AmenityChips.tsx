@@ -0,0 +1,24 @@
+interface AmenityChipsProps {
+  keys: string[];
+  // key 對應顯示名稱；找不到時直接顯示 key
+  names: Map<string, string>;
+}
+
+/**
+ * 空間卡片上的設備標籤
+ */
+export function AmenityChips({ keys, names }: AmenityChipsProps) {
+  if (keys.length === 0) return null;
+  return (
+    <ul className="flex flex-wrap gap-1.5 mt-2">
+      {keys.map((key) => (
+        <li
+          key={key}
+          className="px-2 py-0.5 text-xs rounded-full bg-emerald-50 text-emerald-700 border border-emerald-100"
+        >
+          {names.get(key) ?? key}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,107 @@
+import { useAmenities, useCreateAmenity, useDeleteAmenity } from "../hooks";
+import { parseApiError } from "../services";
+import type { AmenityFacet } from "../types";
+
+interface AmenityFacetsProps {
+  // 目前列表回傳的計數；尚未載入時為 undefined
+  facets: AmenityFacet[] | undefined;
+  // 已勾選的設備 key
+  value: string[];
+  onChange: (keys: string[]) => void;
+  // 管理者可新增與刪除設備
+  canManage: boolean;
+}
+
+/**
+ * 設備篩選側欄：勾選的設備需全部具備，數字為加上該設備後的結果數
+ */
+export function AmenityFacets({
+  facets,
+  value,
+  onChange,
+  canManage,
+}: AmenityFacetsProps) {
+  const { data: amenities } = useAmenities();
+  const createMutation = useCreateAmenity();
+  const deleteMutation = useDeleteAmenity();
+
+  const toggle = (key: string) =>
+    onChange(
+      value.includes(key) ? value.filter((k) => k !== key) : [...value, key]
+    );
+
+  const handleAdd = () => {
+    const name = prompt("新增設備名稱（例如：投影機）")?.trim();
+    if (!name) return;
+    const key = prompt(
+      "篩選用的代碼（小寫英數字與連字號，例如：projector）"
+    )?.trim();
+    if (!key) return;
+    createMutation.mutate(
+      { key, name },
+      { onError: (err) => alert(parseApiError(err).message) }
+    );
+  };
+
+  // 仍有空間使用時 backend 會拒絕（AMENITY_IN_USE）
+  const handleDelete = (key: string, name: string) => {
+    const amenity = amenities?.find((a) => a.key === key);
+    if (!amenity || !confirm(`確定要刪除設備「${name}」嗎？`)) return;
+    deleteMutation.mutate(amenity.id, {
+      onSuccess: () => {
+        if (value.includes(key)) onChange(value.filter((k) => k !== key));
+      },
+      onError: (err) => alert(parseApiError(err).message),
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-4 shadow-md border border-gray-100 text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="font-bold text-gray-900">設備</h2>
+        {canManage && (
+          <button
+            onClick={handleAdd}
+            className="text-xs text-blue-600 hover:underline"
+          >
+            + 設備
+          </button>
+        )}
+      </div>
+      {facets?.length === 0 && (
+        <p className="text-gray-400 px-2 py-1">尚無設備</p>
+      )}
+      <ul className="space-y-0.5">
+        {facets?.map((facet) => {
+          const checked = value.includes(facet.key);
+          return (
+            <li key={facet.key} className="flex items-center gap-1">
+              <label
+                className={`flex-1 flex items-center gap-2 px-2 py-1 rounded-md cursor-pointer hover:bg-gray-100 ${
+                  !checked && facet.count === 0 ? "text-gray-400" : ""
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={checked}
+                  onChange={() => toggle(facet.key)}
+                />
+                <span className="flex-1 truncate">{facet.name}</span>
+                <span className="text-xs text-gray-400">{facet.count}</span>
+              </label>
+              {canManage && (
+                <button
+                  title="刪除"
+                  onClick={() => handleDelete(facet.key, facet.name)}
+                  className="text-xs text-gray-400 hover:text-red-600"
+                >
+                  ✕
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
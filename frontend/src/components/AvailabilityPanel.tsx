@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useAvailability } from "../hooks";
+import type { AvailabilityQuery, Space } from "../types";
+
+export interface BookingDraft {
+  space: Pick<Space, "id" | "name" | "capacity">;
+  startAt: string;
+  endAt: string;
+  attendees: number;
+}
+
+interface AvailabilityPanelProps {
+  onBook: (draft: BookingDraft) => void;
+}
+
+export function AvailabilityPanel({ onBook }: AvailabilityPanelProps) {
+  const [form, setForm] = useState({ start: "", end: "", attendees: 1 });
+  const [query, setQuery] = useState<AvailabilityQuery | null>(null);
+  const { data, isFetching, isError, error } = useAvailability(query);
+
+  // 提交查詢（datetime-local 為本地時間，轉成 ISO 字串）
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery({
+      start: new Date(form.start).toISOString(),
+      end: new Date(form.end).toISOString(),
+      attendees: form.attendees,
+    });
+  };
+
+  const formatWindow = (startAt: string, endAt: string) =>
+    `${new Date(startAt).toLocaleString()} – ${new Date(
+      endAt
+    ).toLocaleTimeString()}`;
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-md border border-gray-100 mb-8">
+      <h2 className="text-lg font-bold text-gray-900 mb-4">🔍 找空間</h2>
+      <form
+        onSubmit={handleSearch}
+        className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end"
+      >
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            開始時間
+          </label>
+          <input
+            type="datetime-local"
+            value={form.start}
+            onChange={(e) => setForm({ ...form, start: e.target.value })}
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            結束時間
+          </label>
+          <input
+            type="datetime-local"
+            value={form.end}
+            onChange={(e) => setForm({ ...form, end: e.target.value })}
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            人數
+          </label>
+          <input
+            type="number"
+            value={form.attendees}
+            onChange={(e) =>
+              setForm({ ...form, attendees: parseInt(e.target.value) || 0 })
+            }
+            required
+            min="1"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isFetching}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {isFetching ? "查詢中..." : "查詢"}
+        </button>
+      </form>
+
+      {isError && (
+        <p className="mt-4 text-sm text-red-600">
+          {error instanceof Error ? error.message : "查詢失敗"}
+        </p>
+      )}
+
+      {data && query && (
+        <div className="mt-4 space-y-2">
+          {data.spaces.map((space) => (
+            <div
+              key={space.id}
+              className="flex justify-between items-center rounded-lg border border-green-100 bg-green-50 px-3 py-2"
+            >
+              <span className="font-medium text-gray-900">
+                {space.name}
+                <span className="ml-2 text-sm text-gray-500">
+                  {space.capacity} 人
+                </span>
+              </span>
+              <button
+                onClick={() =>
+                  onBook({
+                    space,
+                    startAt: query.start,
+                    endAt: query.end,
+                    attendees: query.attendees,
+                  })
+                }
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                預約
+              </button>
+            </div>
+          ))}
+
+          {data.spaces.length === 0 && (
+            <>
+              <p className="text-sm text-gray-500">
+                此時段沒有可用空間
+                {data.suggestions.length > 0 && "，以下是最接近的替代時段："}
+              </p>
+              {data.suggestions.map((s) => (
+                <div
+                  key={`${s.spaceId}-${s.startAt}`}
+                  className="flex justify-between items-center rounded-lg border border-amber-100 bg-amber-50 px-3 py-2"
+                >
+                  <span className="text-sm text-gray-900">
+                    <span className="font-medium">{s.spaceName}</span>
+                    <span className="ml-2 font-mono text-xs text-gray-500">
+                      {formatWindow(s.startAt, s.endAt)}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() =>
+                      onBook({
+                        space: {
+                          id: s.spaceId,
+                          name: s.spaceName,
+                          capacity: s.capacity,
+                        },
+                        startAt: s.startAt,
+                        endAt: s.endAt,
+                        attendees: query.attendees,
+                      })
+                    }
+                    className="px-3 py-1 text-sm bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors"
+                  >
+                    預約此時段
+                  </button>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,591 @@
+import { useState } from "react";
+import {
+  useSpaceBookings,
+  useCreateBooking,
+  useCreateRecurringBooking,
+  useUpdateBooking,
+  useUpdateFollowingBookings,
+  useCancelBooking,
+  useJoinWaitlist,
+  useApprovers,
+  useCreateReservation,
+  useReservations,
+  useSpace,
+} from "../hooks";
+import type {
+  Booking,
+  CreateBookingInput,
+  JoinWaitlistInput,
+  OccurrenceConflict,
+  OccurrenceScope,
+  RecurringBookingResult,
+  RuleViolation,
+  Space,
+} from "../types";
+import { parseApiError, ruleViolations } from "../services";
+import { canManageSpaces, useAuthStore, useToastStore } from "../stores";
+import { CalendarActions } from "./CalendarActions";
+import { StatusBadge } from "./StatusBadge";
+
+interface BookingModalProps {
+  // 未帶 requiresApproval 時（例如可用性建議）會另外查詢空間
+  space: Pick<Space, "id" | "name" | "capacity"> &
+    Partial<Pick<Space, "requiresApproval">>;
+  // 預先帶入的時段（ISO 字串），例如從可用性查詢結果開啟
+  defaults?: { startAt: string; endAt: string; attendees: number };
+  onClose: () => void;
+}
+
+// ISO 字串 <-> <input type="datetime-local"> 的本地時間格式
+function toLocalInput(iso: string) {
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function toISO(local: string) {
+  return new Date(local).toISOString();
+}
+
+function errorMessage(error: unknown) {
+  return parseApiError(error).message;
+}
+
+// BOOKING_CONFLICT 回應會在 details 附上衝突的場次
+function errorConflicts(error: unknown): OccurrenceConflict[] {
+  const { code, details } = parseApiError(error);
+  if (code === "BOOKING_CONFLICT" && Array.isArray(details?.conflicts)) {
+    return details.conflicts as OccurrenceConflict[];
+  }
+  return [];
+}
+
+// 違反空間規則時列出每一條（重複預約會標出是哪一場）
+function errorViolations(error: unknown): RuleViolation[] {
+  return ruleViolations(parseApiError(error));
+}
+
+type Frequency = "" | "DAILY" | "WEEKLY" | "MONTHLY";
+
+const frequencyLabels: Record<Frequency, string> = {
+  "": "不重複",
+  DAILY: "每天",
+  WEEKLY: "每週",
+  MONTHLY: "每月",
+};
+
+const emptyForm: CreateBookingInput = {
+  title: "",
+  attendees: 1,
+  startAt: "",
+  endAt: "",
+};
+
+export function BookingModal({ space, defaults, onClose }: BookingModalProps) {
+  const { data: bookings, isLoading } = useSpaceBookings(space.id);
+  const createMutation = useCreateBooking();
+  const recurringMutation = useCreateRecurringBooking();
+  const updateMutation = useUpdateBooking();
+  const followingMutation = useUpdateFollowingBookings();
+  const cancelMutation = useCancelBooking();
+  const waitlistMutation = useJoinWaitlist();
+  const reservationMutation = useCreateReservation();
+  const user = useAuthStore((s) => s.user);
+  const showToast = useToastStore((s) => s.showToast);
+
+  // 需審核的空間只有審核者（含 admin）能直接預約，其他人改為送出申請
+  const { data: details } = useSpace(
+    space.requiresApproval === undefined ? space.id : ""
+  );
+  const requiresApproval =
+    space.requiresApproval ?? details?.requiresApproval ?? false;
+  const { data: approvers } = useApprovers(requiresApproval ? space.id : "");
+  const { data: requests } = useReservations(
+    { scope: "mine", spaceId: space.id },
+    requiresApproval
+  );
+  const mustRequest =
+    requiresApproval &&
+    user?.role !== "admin" &&
+    !approvers?.some((a) => a.id === user?.id);
+
+  // 只能修改自己的預約，admin / manager 可修改全部
+  const canModify = (booking: Booking) =>
+    booking.userId === user?.id || canManageSpaces(user?.role);
+
+  // 表單狀態
+  const [editingBooking, setEditingBooking] = useState<Booking | null>(null);
+  const [formData, setFormData] = useState<CreateBookingInput>(
+    defaults
+      ? {
+          title: "",
+          attendees: defaults.attendees,
+          startAt: toLocalInput(defaults.startAt),
+          endAt: toLocalInput(defaults.endAt),
+        }
+      : emptyForm
+  );
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // 重複預約狀態
+  const [frequency, setFrequency] = useState<Frequency>("");
+  const [occurrenceCount, setOccurrenceCount] = useState(10);
+  const [editScope, setEditScope] = useState<OccurrenceScope>("this");
+  const [skipConflicts, setSkipConflicts] = useState(false);
+  const [conflicts, setConflicts] = useState<OccurrenceConflict[]>([]);
+  const [violations, setViolations] = useState<RuleViolation[]>([]);
+  // 單次預約撞期時，可改為登記候補，時段空出後自動轉為預約
+  const [waitlistDraft, setWaitlistDraft] = useState<JoinWaitlistInput | null>(
+    null
+  );
+
+  // 開啟改期表單
+  const handleEdit = (booking: Booking) => {
+    setEditingBooking(booking);
+    setEditScope("this");
+    setFormError(null);
+    setConflicts([]);
+    setViolations([]);
+    setWaitlistDraft(null);
+    setFormData({
+      title: booking.title,
+      attendees: booking.attendees,
+      startAt: toLocalInput(booking.startAt),
+      endAt: toLocalInput(booking.endAt),
+    });
+  };
+
+  const resetForm = () => {
+    setEditingBooking(null);
+    setFormData(emptyForm);
+    setFormError(null);
+    setConflicts([]);
+    setViolations([]);
+    setWaitlistDraft(null);
+    setFrequency("");
+    setSkipConflicts(false);
+  };
+
+  // 提交表單
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    setWaitlistDraft(null);
+    const input = {
+      ...formData,
+      startAt: toISO(formData.startAt),
+      endAt: toISO(formData.endAt),
+    };
+    try {
+      let result: RecurringBookingResult | null = null;
+      if (editingBooking && editScope === "following") {
+        result = await followingMutation.mutateAsync({
+          id: editingBooking.id,
+          input: { ...input, skipConflicts },
+        });
+      } else if (editingBooking) {
+        await updateMutation.mutateAsync({ id: editingBooking.id, input });
+      } else if (mustRequest) {
+        await reservationMutation.mutateAsync({ spaceId: space.id, ...input });
+        showToast("已送出申請，審核通過後即成立預約");
+      } else if (frequency) {
+        result = await recurringMutation.mutateAsync({
+          spaceId: space.id,
+          input: {
+            ...input,
+            rrule: `FREQ=${frequency};COUNT=${occurrenceCount}`,
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            skipConflicts,
+          },
+        });
+      } else {
+        await createMutation.mutateAsync({ spaceId: space.id, input });
+      }
+      resetForm();
+      // 略過衝突時，仍列出沒有預約到的場次
+      if (result) setConflicts(result.conflicts);
+    } catch (err) {
+      setFormError(errorMessage(err));
+      setConflicts(errorConflicts(err));
+      setViolations(errorViolations(err));
+      if (
+        !editingBooking &&
+        !frequency &&
+        !requiresApproval &&
+        errorConflicts(err).length > 0
+      )
+        setWaitlistDraft({ spaceId: space.id, ...input });
+    }
+  };
+
+  const handleJoinWaitlist = async () => {
+    if (!waitlistDraft) return;
+    try {
+      const entry = await waitlistMutation.mutateAsync(waitlistDraft);
+      resetForm();
+      showToast(`已登記候補，目前第 ${entry.position} 順位`);
+    } catch (err) {
+      setFormError(errorMessage(err));
+    }
+  };
+
+  // 取消預約
+  const handleCancel = async (id: string, scope: OccurrenceScope = "this") => {
+    const message =
+      scope === "following"
+        ? "確定要取消這次及之後的所有重複預約嗎？"
+        : "確定要取消這個預約嗎？";
+    if (confirm(message)) {
+      await cancelMutation.mutateAsync({ id, scope });
+      if (editingBooking?.id === id) resetForm();
+    }
+  };
+
+  const isSaving =
+    createMutation.isPending ||
+    recurringMutation.isPending ||
+    updateMutation.isPending ||
+    followingMutation.isPending ||
+    reservationMutation.isPending;
+  const isRecurring = editingBooking ? editScope === "following" : !!frequency;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-lg shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">
+              預約 {space.name}
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              容量上限 {space.capacity} 人
+              {requiresApproval && " · 預約需經審核"}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 text-xl"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Calendar Feed / Import */}
+        <CalendarActions spaceId={space.id} />
+
+        {/* Booking List */}
+        <div className="space-y-2 mb-6">
+          {isLoading && <p className="text-sm text-gray-500">載入中...</p>}
+          {bookings?.length === 0 && (
+            <p className="text-sm text-gray-500">目前沒有預約</p>
+          )}
+          {bookings?.map((booking) => (
+            <div
+              key={booking.id}
+              className="flex justify-between items-center rounded-lg border border-gray-100 px-3 py-2"
+            >
+              <div>
+                <p className="font-medium text-gray-900">
+                  {booking.seriesId && (
+                    <span className="mr-1" title="重複預約">
+                      🔁
+                    </span>
+                  )}
+                  {booking.title}
+                  <span className="ml-2">
+                    <StatusBadge status={booking.status} />
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500 font-mono">
+                  {new Date(booking.startAt).toLocaleString()} –{" "}
+                  {new Date(booking.endAt).toLocaleTimeString()} ·{" "}
+                  {booking.attendees} 人
+                </p>
+              </div>
+              {canModify(booking) && (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleEdit(booking)}
+                    className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    改期
+                  </button>
+                  <button
+                    onClick={() => handleCancel(booking.id)}
+                    disabled={cancelMutation.isPending}
+                    className="px-2 py-1 text-xs bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors disabled:opacity-50"
+                  >
+                    取消
+                  </button>
+                  {booking.seriesId && (
+                    <button
+                      onClick={() => handleCancel(booking.id, "following")}
+                      disabled={cancelMutation.isPending}
+                      className="px-2 py-1 text-xs bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors disabled:opacity-50"
+                    >
+                      取消此後
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* My Requests */}
+        {requests && requests.length > 0 && (
+          <div className="space-y-2 mb-6">
+            <h3 className="font-bold text-gray-900">我的申請</h3>
+            {requests.map((request) => (
+              <div
+                key={request.id}
+                className="rounded-lg border border-gray-100 px-3 py-2"
+              >
+                <p className="font-medium text-gray-900">
+                  {request.title}
+                  <span className="ml-2">
+                    <StatusBadge status={request.status} />
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500 font-mono">
+                  {new Date(request.startAt).toLocaleString()} –{" "}
+                  {new Date(request.endAt).toLocaleTimeString()} ·{" "}
+                  {request.attendees} 人
+                </p>
+                {request.reason && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    審核意見：{request.reason}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Booking Form */}
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <h3 className="font-bold text-gray-900">
+            {editingBooking
+              ? "改期預約"
+              : mustRequest
+                ? "申請預約"
+                : "新增預約"}
+          </h3>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              主題
+            </label>
+            <input
+              type="text"
+              value={formData.title}
+              onChange={(e) =>
+                setFormData({ ...formData, title: e.target.value })
+              }
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              placeholder="例如：週會"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              人數
+            </label>
+            <input
+              type="number"
+              value={formData.attendees}
+              onChange={(e) =>
+                setFormData({
+                  ...formData,
+                  attendees: parseInt(e.target.value) || 0,
+                })
+              }
+              required
+              min="1"
+              max={space.capacity}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                開始時間
+              </label>
+              <input
+                type="datetime-local"
+                value={formData.startAt}
+                onChange={(e) =>
+                  setFormData({ ...formData, startAt: e.target.value })
+                }
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                結束時間
+              </label>
+              <input
+                type="datetime-local"
+                value={formData.endAt}
+                onChange={(e) =>
+                  setFormData({ ...formData, endAt: e.target.value })
+                }
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              />
+            </div>
+          </div>
+
+          {/* Recurrence */}
+          {editingBooking?.seriesId ? (
+            <div className="flex gap-4 text-sm text-gray-700">
+              <label className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  checked={editScope === "this"}
+                  onChange={() => setEditScope("this")}
+                />
+                僅此一次
+              </label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  checked={editScope === "following"}
+                  onChange={() => setEditScope("following")}
+                />
+                此次與之後
+              </label>
+            </div>
+          ) : (
+            !editingBooking &&
+            !mustRequest && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    重複
+                  </label>
+                  <select
+                    value={frequency}
+                    onChange={(e) => setFrequency(e.target.value as Frequency)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                  >
+                    {(Object.keys(frequencyLabels) as Frequency[]).map((f) => (
+                      <option key={f} value={f}>
+                        {frequencyLabels[f]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {frequency && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      次數
+                    </label>
+                    <input
+                      type="number"
+                      value={occurrenceCount}
+                      onChange={(e) =>
+                        setOccurrenceCount(parseInt(e.target.value) || 1)
+                      }
+                      min="1"
+                      max="366"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    />
+                  </div>
+                )}
+              </div>
+            )
+          )}
+          {isRecurring && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={skipConflicts}
+                onChange={(e) => setSkipConflicts(e.target.checked)}
+              />
+              略過衝突的場次，只預約可用的時段
+            </label>
+          )}
+
+          {conflicts.length > 0 && (
+            <div className="rounded-lg bg-amber-50 p-3 border border-amber-100 text-sm text-amber-800">
+              <p className="font-medium mb-1">以下場次無法預約：</p>
+              <ul className="list-disc pl-5 text-xs">
+                {conflicts.map((c) => (
+                  <li key={c.startAt}>
+                    <span className="font-mono">
+                      {new Date(c.startAt).toLocaleString()} –{" "}
+                      {new Date(c.endAt).toLocaleTimeString()}
+                    </span>{" "}
+                    {c.violations?.length
+                      ? c.violations.map((v) => v.message).join("；")
+                      : "與既有預約衝突"}
+                  </li>
+                ))}
+              </ul>
+              {waitlistDraft && (
+                <button
+                  type="button"
+                  onClick={handleJoinWaitlist}
+                  disabled={waitlistMutation.isPending}
+                  className="mt-2 px-3 py-1.5 bg-amber-100 text-amber-900 rounded-lg hover:bg-amber-200 transition-colors font-medium disabled:opacity-50"
+                >
+                  登記候補，空出時自動預約
+                </button>
+              )}
+            </div>
+          )}
+
+          {formError && violations.length === 0 && (
+            <div className="rounded-lg bg-red-50 p-3 border border-red-100 text-sm text-red-600">
+              {formError}
+            </div>
+          )}
+
+          {violations.length > 0 && (
+            <div className="rounded-lg bg-red-50 p-3 border border-red-100 text-sm text-red-600">
+              <p className="font-medium mb-1">不符合空間的預約規則：</p>
+              <ul className="list-disc pl-5 text-xs">
+                {violations.map((v, i) => (
+                  <li key={i}>
+                    {v.startAt && (
+                      <span className="font-mono">
+                        {new Date(v.startAt).toLocaleString()}{" "}
+                      </span>
+                    )}
+                    {v.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            {editingBooking && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+              >
+                放棄改期
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+            >
+              {isSaving
+                ? "儲存中..."
+                : editingBooking
+                  ? "儲存改期"
+                  : mustRequest
+                    ? "送出申請"
+                    : "預約"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import {
+  useCalendarToken,
+  useImportSpaceCalendar,
+  useRotateCalendarToken,
+} from "../hooks";
+import { parseApiError, spaceCalendarUrl } from "../services";
+import type { CalendarImportResult, ImportEventStatus } from "../types";
+
+interface CalendarActionsProps {
+  spaceId: string;
+}
+
+const statusLabels: Record<ImportEventStatus, string> = {
+  created: "✅ 已建立",
+  partial: "⚠️ 部分建立",
+  conflict: "⛔ 時段衝突",
+  skipped: "⏭️ 已略過",
+  invalid: "❌ 格式錯誤",
+};
+
+export function CalendarActions({ spaceId }: CalendarActionsProps) {
+  const importMutation = useImportSpaceCalendar();
+  const { data: feedToken } = useCalendarToken();
+  const rotateMutation = useRotateCalendarToken();
+  const [result, setResult] = useState<CalendarImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // 選擇檔案後立即匯入
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setError(null);
+    try {
+      setResult(await importMutation.mutateAsync({ spaceId, file }));
+    } catch (err) {
+      setResult(null);
+      setError(parseApiError(err).message);
+    }
+  };
+
+  // 複製訂閱網址
+  const handleCopy = async () => {
+    if (!feedToken) return;
+    await navigator.clipboard.writeText(spaceCalendarUrl(spaceId, feedToken));
+    alert("已複製行事曆訂閱網址");
+  };
+
+  // 重設訂閱網址（網址外流時使用）
+  const handleRotate = async () => {
+    if (!confirm("重設後，所有已訂閱的行事曆網址都會失效，確定要重設嗎？"))
+      return;
+    try {
+      await rotateMutation.mutateAsync();
+      alert("已重設，請重新複製訂閱網址");
+    } catch (err) {
+      alert(parseApiError(err).message);
+    }
+  };
+
+  return (
+    <div className="mb-6 space-y-2">
+      <div className="flex gap-2">
+        <button
+          onClick={handleCopy}
+          disabled={!feedToken}
+          className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+        >
+          📅 訂閱行事曆
+        </button>
+        <button
+          onClick={handleRotate}
+          disabled={rotateMutation.isPending}
+          className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+        >
+          🔄 重設訂閱網址
+        </button>
+        <label className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors cursor-pointer">
+          {importMutation.isPending ? "匯入中..." : "📥 匯入 .ics"}
+          <input
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={handleFile}
+            disabled={importMutation.isPending}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {result && (
+        <div className="rounded-lg border border-gray-100 bg-gray-50 p-3 text-sm">
+          <p className="font-medium text-gray-900 mb-1">
+            已建立 {result.created} 筆預約
+          </p>
+          <ul className="space-y-1 text-xs text-gray-600">
+            {result.events.map((event, i) => (
+              <li key={event.uid ?? i}>
+                {statusLabels[event.status]} · {event.summary ?? "(無標題)"}
+                {event.conflicts.length > 0 &&
+                  `（${event.conflicts.length} 個場次衝突）`}
+                {event.error && `（${event.error}）`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
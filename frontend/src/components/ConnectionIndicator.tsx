@@ -0,0 +1,31 @@
+import { useConnectionStore } from "../stores";
+import type { ConnectionStatus } from "../stores";
+
+const statusLabels: Record<ConnectionStatus, string> = {
+  open: "即時更新中",
+  connecting: "連線中…",
+  closed: "已離線",
+};
+
+const dotClass: Record<ConnectionStatus, string> = {
+  open: "bg-green-500",
+  connecting: "bg-amber-400 animate-pulse",
+  closed: "bg-gray-400",
+};
+
+/**
+ * 導覽列上的即時更新連線狀態
+ */
+export function ConnectionIndicator() {
+  const status = useConnectionStore((s) => s.status);
+
+  return (
+    <span
+      title={statusLabels[status]}
+      className="flex items-center gap-1.5 px-2 text-xs text-gray-500"
+    >
+      <span className={`h-2 w-2 rounded-full ${dotClass[status]}`} />
+      {statusLabels[status]}
+    </span>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useSpaceSearch } from "../hooks";
+import type { MatchRange } from "../types";
+
+/**
+ * 將命中範圍以 <mark> 標示（範圍已由 backend 合併並排序）
+ */
+function Highlighted({ text, ranges }: { text: string; ranges: MatchRange[] }) {
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  for (const { start, end } of ranges) {
+    if (start > at) parts.push(text.slice(at, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-100 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    at = end;
+  }
+  if (at < text.length) parts.push(text.slice(at));
+  return <>{parts}</>;
+}
+
+/**
+ * 導覽列的全域空間搜尋；↑↓ 選擇、Enter 開啟、Esc 關閉
+ */
+export function GlobalSearch() {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+  const { data, isFetching } = useSpaceSearch(query);
+
+  const hits = query.trim() ? (data?.items ?? []) : [];
+  const showResults = open && query.trim().length > 0;
+
+  const select = (id: string) => {
+    navigate(`/spaces/${id}`);
+    setQuery("");
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      setOpen(false);
+      e.currentTarget.blur();
+      return;
+    }
+    if (!hits.length) return;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      setOpen(true);
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActive((i) => (i + step + hits.length) % hits.length);
+    } else if (e.key === "Enter" && showResults) {
+      e.preventDefault();
+      select(hits[Math.min(active, hits.length - 1)].space.id);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="search"
+        value={query}
+        placeholder="搜尋空間…"
+        role="combobox"
+        aria-expanded={showResults}
+        aria-controls="global-search-results"
+        aria-activedescendant={
+          showResults && hits.length ? `global-search-${active}` : undefined
+        }
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActive(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        className="w-48 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+      />
+      {showResults && (
+        <ul
+          id="global-search-results"
+          role="listbox"
+          className="absolute right-0 z-20 mt-1 w-80 max-h-96 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg py-1"
+        >
+          {hits.length === 0 && (
+            <li className="px-3 py-2 text-sm text-gray-500">
+              {isFetching ? "搜尋中…" : "找不到符合的空間"}
+            </li>
+          )}
+          {hits.map((hit, i) => (
+            <li
+              key={hit.space.id}
+              id={`global-search-${i}`}
+              role="option"
+              aria-selected={i === active}
+              // 在 input blur 之前處理點選
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(hit.space.id);
+              }}
+              onMouseEnter={() => setActive(i)}
+              className={`px-3 py-2 cursor-pointer ${
+                i === active ? "bg-blue-50" : ""
+              }`}
+            >
+              <div className="text-sm font-medium text-gray-900">
+                <Highlighted
+                  text={hit.space.name}
+                  ranges={hit.highlights.name}
+                />
+              </div>
+              {hit.location && (
+                <div className="text-xs text-gray-500">
+                  <Highlighted
+                    text={hit.location}
+                    ranges={hit.highlights.location}
+                  />
+                </div>
+              )}
+            </li>
+          ))}
+          {data && hits.length > 0 && data.total > hits.length && (
+            <li className="px-3 py-1 text-xs text-gray-400">
+              另有 {data.total - hits.length} 筆，請輸入更精確的關鍵字
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
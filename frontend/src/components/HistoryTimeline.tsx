@@ -0,0 +1,76 @@
+import type { AuditAction, AuditEvent, FieldChange } from "../types";
+
+const actionLabels: Record<AuditAction, { label: string; dot: string }> = {
+  create: { label: "建立", dot: "bg-green-500" },
+  update: { label: "更新", dot: "bg-blue-500" },
+  delete: { label: "刪除", dot: "bg-red-500" },
+  restore: { label: "還原", dot: "bg-amber-500" },
+};
+
+const fieldLabels: Record<string, string> = {
+  name: "名稱",
+  capacity: "容納人數",
+  deletedAt: "刪除時間",
+  requiresApproval: "需審核",
+};
+
+function formatValue(field: string, value: FieldChange["from"]): string {
+  if (value === null) return "—";
+  if (typeof value === "boolean") return value ? "是" : "否";
+  if (field.endsWith("At")) return new Date(value).toLocaleString();
+  return String(value);
+}
+
+interface HistoryTimelineProps {
+  events: AuditEvent[];
+}
+
+/**
+ * 變更紀錄時間軸：誰在何時做了什麼，以及各欄位的前後值
+ */
+export function HistoryTimeline({ events }: HistoryTimelineProps) {
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">尚無變更紀錄</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {events.map((event) => {
+        const action = actionLabels[event.action];
+        return (
+          <li key={event.id} className="mb-6 ml-4">
+            <span
+              className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${action.dot}`}
+            />
+            <p className="text-sm text-gray-900">
+              <span className="font-semibold">
+                {event.actor?.name ?? "系統"}
+              </span>{" "}
+              {action.label}了此空間
+            </p>
+            <p className="text-xs text-gray-400 font-mono">
+              {new Date(event.createdAt).toLocaleString()}
+              {event.requestId && ` · ${event.requestId}`}
+            </p>
+            {event.action === "update" && (
+              <ul className="mt-2 space-y-1">
+                {Object.entries(event.changes).map(([field, change]) => (
+                  <li key={field} className="text-sm text-gray-600">
+                    {fieldLabels[field] ?? field}:{" "}
+                    <span className="line-through text-gray-400">
+                      {formatValue(field, change.from)}
+                    </span>{" "}
+                    →{" "}
+                    <span className="font-medium text-gray-900">
+                      {formatValue(field, change.to)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useImportSpaces } from "../hooks";
+import { type ApiError, parseApiError, rejectedImport } from "../services";
+import { useToastStore } from "../stores";
+import type { SpaceImportResult, SpaceImportRowResult } from "../types";
+
+interface ImportSpacesModalProps {
+  onClose: () => void;
+}
+
+const actionLabels: Record<
+  NonNullable<SpaceImportRowResult["action"]>,
+  string
+> = {
+  create: "新增",
+  update: "更新",
+  unchanged: "不變",
+};
+
+function cell(value: unknown): string {
+  return value === undefined || value === null ? "" : String(value);
+}
+
+// 超過 backend 的 2MB 上限時回 413，與內容錯誤分開提示
+function importErrorMessage(error: ApiError): string {
+  return error.code === "PAYLOAD_TOO_LARGE"
+    ? "檔案超過 2MB，請分成多個檔案匯入"
+    : error.message;
+}
+
+/**
+ * 批次匯入精靈：選擇檔案 → 預覽檢查結果（dry run）→ 確認匯入
+ */
+export function ImportSpacesModal({ onClose }: ImportSpacesModalProps) {
+  const importMutation = useImportSpaces();
+  const showToast = useToastStore((s) => s.showToast);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<SpaceImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // 選擇檔案後先以 dry run 檢查每一列
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = "";
+    if (!selected) return;
+    setFile(selected);
+    setPreview(null);
+    setError(null);
+    try {
+      setPreview(
+        await importMutation.mutateAsync({ file: selected, dryRun: true })
+      );
+    } catch (err) {
+      setError(importErrorMessage(parseApiError(err)));
+    }
+  };
+
+  // 全部通過才會寫入；期間資料若有變動導致失敗，改顯示最新的檢查結果
+  const handleCommit = async () => {
+    if (!file) return;
+    setError(null);
+    try {
+      const result = await importMutation.mutateAsync({ file, dryRun: false });
+      showToast(
+        `已匯入：新增 ${result.summary.create} 筆、更新 ${result.summary.update} 筆`
+      );
+      onClose();
+    } catch (err) {
+      const apiError = parseApiError(err);
+      const rejected = rejectedImport(apiError);
+      if (rejected) setPreview(rejected);
+      else setError(importErrorMessage(apiError));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl p-6 w-full max-w-3xl shadow-2xl max-h-[90vh] flex flex-col">
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">批次匯入空間</h2>
+
+        {/* Step 1: 選擇檔案 */}
+        <div className="flex items-center gap-3 mb-4">
+          <label className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium cursor-pointer">
+            {file ? "重新選擇檔案" : "選擇 CSV / JSON 檔案"}
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={handleFile}
+              disabled={importMutation.isPending}
+              className="hidden"
+            />
+          </label>
+          {file && <span className="text-sm text-gray-600">{file.name}</span>}
+        </div>
+        {!preview && !error && (
+          <p className="text-sm text-gray-500">
+            欄位：name、capacity，以及選填的 externalKey。有相同
+            externalKey（或名稱）的空間會被更新，其餘新增。
+          </p>
+        )}
+        {importMutation.isPending && (
+          <p className="text-sm text-gray-500">檢查中...</p>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {/* Step 2: 預覽 */}
+        {preview && (
+          <>
+            <p className="text-sm text-gray-700 mb-2">
+              新增 {preview.summary.create} 筆 · 更新 {preview.summary.update}{" "}
+              筆 · 不變 {preview.summary.unchanged} 筆
+              {preview.summary.invalid > 0 && (
+                <span className="text-red-600">
+                  {" "}
+                  · 錯誤 {preview.summary.invalid} 筆（修正後重新選擇檔案）
+                </span>
+              )}
+            </p>
+            <div className="overflow-auto border border-gray-100 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-500">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">列</th>
+                    <th className="px-3 py-2 font-medium">externalKey</th>
+                    <th className="px-3 py-2 font-medium">名稱</th>
+                    <th className="px-3 py-2 font-medium">容量</th>
+                    <th className="px-3 py-2 font-medium">結果</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {preview.rows.map((row) => (
+                    <tr
+                      key={row.row}
+                      className={row.errors ? "bg-red-50" : undefined}
+                    >
+                      <td className="px-3 py-2 text-gray-400">{row.row}</td>
+                      <td className="px-3 py-2">
+                        {cell(row.input.externalKey)}
+                      </td>
+                      <td className="px-3 py-2">{cell(row.input.name)}</td>
+                      <td className="px-3 py-2">{cell(row.input.capacity)}</td>
+                      <td className="px-3 py-2">
+                        {row.errors ? (
+                          <ul className="text-red-600">
+                            {Object.entries(row.errors).map(
+                              ([field, message]) => (
+                                <li key={field}>{message}</li>
+                              )
+                            )}
+                          </ul>
+                        ) : (
+                          row.action && actionLabels[row.action]
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        {/* Step 3: 確認 */}
+        <div className="flex gap-3 pt-4 mt-auto">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+          >
+            取消
+          </button>
+          <button
+            type="button"
+            onClick={handleCommit}
+            disabled={!preview?.valid || importMutation.isPending}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+          >
+            {importMutation.isPending ? "處理中..." : "匯入"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
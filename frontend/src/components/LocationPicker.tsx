@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { useLocationTree } from "../hooks";
+
+interface LocationPickerProps {
+  // 選定的樓層；null 表示未指定位置
+  value: string | null;
+  onChange: (floorId: string | null) => void;
+}
+
+const selectClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none";
+
+/**
+ * 依序選擇據點、建築、樓層；只有樓層會寫回 value
+ */
+export function LocationPicker({ value, onChange }: LocationPickerProps) {
+  const { data: tree = [] } = useLocationTree();
+
+  // 由目前的樓層反推上層，作為初始選擇
+  const current = tree
+    .flatMap((site) => site.buildings.map((building) => ({ site, building })))
+    .find(({ building }) => building.floors.some((f) => f.id === value));
+  const [siteId, setSiteId] = useState<string | null>(null);
+  const [buildingId, setBuildingId] = useState<string | null>(null);
+
+  const selectedSiteId = siteId ?? current?.site.id ?? "";
+  const selectedBuildingId = buildingId ?? current?.building.id ?? "";
+  const site = tree.find((s) => s.id === selectedSiteId);
+  const building = site?.buildings.find((b) => b.id === selectedBuildingId);
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <select
+        value={selectedSiteId}
+        onChange={(e) => {
+          setSiteId(e.target.value);
+          setBuildingId("");
+          onChange(null);
+        }}
+        className={selectClass}
+      >
+        <option value="">未指定</option>
+        {tree.map((s) => (
+          <option key={s.id} value={s.id}>
+            {s.name}
+          </option>
+        ))}
+      </select>
+      <select
+        value={selectedBuildingId}
+        onChange={(e) => {
+          setBuildingId(e.target.value);
+          onChange(null);
+        }}
+        disabled={!site}
+        className={selectClass}
+      >
+        <option value="">建築</option>
+        {site?.buildings.map((b) => (
+          <option key={b.id} value={b.id}>
+            {b.name}
+          </option>
+        ))}
+      </select>
+      <select
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value || null)}
+        disabled={!building}
+        className={selectClass}
+      >
+        <option value="">樓層</option>
+        {building?.floors.map((f) => (
+          <option key={f.id} value={f.id}>
+            {f.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
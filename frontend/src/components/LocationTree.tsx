@@ -0,0 +1,207 @@
+import { useState } from "react";
+import {
+  useCreateLocation,
+  useDeleteLocation,
+  useLocationTree,
+  useRenameLocation,
+} from "../hooks";
+import { parseApiError } from "../services";
+import type { LocationKind, LocationSelection } from "../types";
+
+interface LocationTreeProps {
+  value: LocationSelection;
+  onChange: (next: Required<LocationSelection>) => void;
+  // 管理者可新增、重新命名與刪除地點
+  canManage: boolean;
+}
+
+const childKind: Record<LocationKind, LocationKind | null> = {
+  site: "building",
+  building: "floor",
+  floor: null,
+};
+
+const kindLabels: Record<LocationKind, string> = {
+  site: "據點",
+  building: "建築",
+  floor: "樓層",
+};
+
+const nodeClass = (selected: boolean) =>
+  `flex-1 text-left px-2 py-1 rounded-md truncate ${
+    selected ? "bg-blue-50 text-blue-700 font-medium" : "hover:bg-gray-100"
+  }`;
+
+/**
+ * 左側地點樹：據點 > 建築 > 樓層，點選後篩選空間列表
+ */
+export function LocationTree({
+  value,
+  onChange,
+  canManage,
+}: LocationTreeProps) {
+  const { data: tree, isLoading } = useLocationTree();
+  const createMutation = useCreateLocation();
+  const renameMutation = useRenameLocation();
+  const deleteMutation = useDeleteLocation();
+  // 收合的節點 id
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    const next = new Set(collapsed);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setCollapsed(next);
+  };
+
+  const select = (selection: LocationSelection) =>
+    onChange({ siteId: "", buildingId: "", floorId: "", ...selection });
+
+  const handleAdd = (kind: LocationKind, parentId?: string) => {
+    const name = prompt(`新增${kindLabels[kind]}名稱`)?.trim();
+    if (!name) return;
+    createMutation.mutate(
+      { kind, name, parentId },
+      { onError: (err) => alert(parseApiError(err).message) }
+    );
+  };
+
+  const handleRename = (kind: LocationKind, id: string, current: string) => {
+    const name = prompt(`重新命名${kindLabels[kind]}`, current)?.trim();
+    if (!name || name === current) return;
+    renameMutation.mutate(
+      { kind, id, name },
+      { onError: (err) => alert(parseApiError(err).message) }
+    );
+  };
+
+  // 仍有下層項目或空間時 backend 會拒絕（LOCATION_NOT_EMPTY）
+  const handleDelete = (kind: LocationKind, id: string, name: string) => {
+    if (!confirm(`確定要刪除${kindLabels[kind]}「${name}」嗎？`)) return;
+    deleteMutation.mutate(
+      { kind, id },
+      {
+        onSuccess: () => {
+          if (Object.values(value).includes(id)) select({});
+        },
+        onError: (err) => alert(parseApiError(err).message),
+      }
+    );
+  };
+
+  const actions = (kind: LocationKind, id: string, name: string) =>
+    canManage && (
+      <span className="flex gap-1 text-xs text-gray-400">
+        {childKind[kind] && (
+          <button
+            title={`新增${kindLabels[childKind[kind]]}`}
+            onClick={() => handleAdd(childKind[kind]!, id)}
+            className="hover:text-blue-600"
+          >
+            ＋
+          </button>
+        )}
+        <button
+          title="重新命名"
+          onClick={() => handleRename(kind, id, name)}
+          className="hover:text-blue-600"
+        >
+          ✎
+        </button>
+        <button
+          title="刪除"
+          onClick={() => handleDelete(kind, id, name)}
+          className="hover:text-red-600"
+        >
+          ✕
+        </button>
+      </span>
+    );
+
+  const caret = (id: string, hasChildren: boolean) => (
+    <button
+      onClick={() => toggle(id)}
+      disabled={!hasChildren}
+      className="w-4 text-xs text-gray-400 disabled:invisible"
+    >
+      {collapsed.has(id) ? "▸" : "▾"}
+    </button>
+  );
+
+  const isAll = !value.siteId && !value.buildingId && !value.floorId;
+
+  return (
+    <nav className="bg-white rounded-xl p-4 shadow-md border border-gray-100 text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="font-bold text-gray-900">地點</h2>
+        {canManage && (
+          <button
+            onClick={() => handleAdd("site")}
+            className="text-xs text-blue-600 hover:underline"
+          >
+            + 據點
+          </button>
+        )}
+      </div>
+      <button onClick={() => select({})} className={nodeClass(isAll)}>
+        全部空間
+      </button>
+      {isLoading && <p className="text-gray-400 px-2 py-1">載入中...</p>}
+      <ul className="mt-1 space-y-0.5">
+        {tree?.map((site) => (
+          <li key={site.id}>
+            <div className="flex items-center gap-1">
+              {caret(site.id, site.buildings.length > 0)}
+              <button
+                onClick={() => select({ siteId: site.id })}
+                className={nodeClass(value.siteId === site.id)}
+              >
+                {site.name}
+              </button>
+              {actions("site", site.id, site.name)}
+            </div>
+            {!collapsed.has(site.id) && (
+              <ul className="ml-4 space-y-0.5">
+                {site.buildings.map((building) => (
+                  <li key={building.id}>
+                    <div className="flex items-center gap-1">
+                      {caret(building.id, building.floors.length > 0)}
+                      <button
+                        onClick={() => select({ buildingId: building.id })}
+                        className={nodeClass(value.buildingId === building.id)}
+                      >
+                        {building.name}
+                      </button>
+                      {actions("building", building.id, building.name)}
+                    </div>
+                    {!collapsed.has(building.id) && (
+                      <ul className="ml-9 space-y-0.5">
+                        {building.floors.map((floor) => (
+                          <li
+                            key={floor.id}
+                            className="flex items-center gap-1"
+                          >
+                            <button
+                              onClick={() => select({ floorId: floor.id })}
+                              className={nodeClass(value.floorId === floor.id)}
+                            >
+                              {floor.name}
+                              <span className="ml-1 text-xs text-gray-400">
+                                ({floor.spaceCount})
+                              </span>
+                            </button>
+                            {actions("floor", floor.id, floor.name)}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+}
@@ -0,0 +1,25 @@
+import { Navigate, useLocation } from "react-router-dom";
+import { useAuthStore } from "../stores";
+import type { Role } from "../types";
+
+interface RequireAuthProps {
+  // 限定角色；未指定則任何登入使用者皆可
+  roles?: Role[];
+  children: React.ReactNode;
+}
+
+/**
+ * 路由守衛：未登入導向 /login，角色不符導回首頁
+ */
+export function RequireAuth({ roles, children }: RequireAuthProps) {
+  const location = useLocation();
+  const { token, user } = useAuthStore();
+
+  if (!token) {
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+  }
+  if (roles && (!user || !roles.includes(user.role))) {
+    return <Navigate to="/" replace />;
+  }
+  return <>{children}</>;
+}
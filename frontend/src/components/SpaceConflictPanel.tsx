@@ -0,0 +1,129 @@
+import { useState } from "react";
+import type { CreateSpaceInput, Space } from "../types";
+
+type Field = keyof CreateSpaceInput;
+
+const fieldLabels: Record<Field, string> = {
+  name: "名稱",
+  capacity: "容量",
+  floorId: "位置",
+  amenities: "設備",
+  requiresApproval: "需審核",
+};
+
+interface SpaceConflictPanelProps {
+  // 使用者送出的值
+  mine: CreateSpaceInput;
+  // 伺服器目前的值（412 回應附帶）
+  server: Space;
+  onResolve: (merged: CreateSpaceInput) => void;
+  // 樓層 id 轉為顯示名稱
+  describeFloor: (floorId: string | null) => string;
+  // 設備 key 轉為顯示名稱
+  describeAmenities: (keys: string[]) => string;
+}
+
+/**
+ * 編輯衝突時並列「我的修改」與「伺服器目前的值」，逐欄選擇後合併
+ */
+export function SpaceConflictPanel({
+  mine,
+  server,
+  onResolve,
+  describeFloor,
+  describeAmenities,
+}: SpaceConflictPanelProps) {
+  // 設備順序不影響比較
+  const comparable = (field: Field, side: "mine" | "server") => {
+    const value = side === "mine" ? mine[field] : server[field];
+    if (field === "requiresApproval") return Boolean(value);
+    return field === "amenities"
+      ? [...((value as string[] | undefined) ?? [])].sort().join(",")
+      : (value ?? null);
+  };
+  const fields = (Object.keys(fieldLabels) as Field[]).filter(
+    (field) => comparable(field, "mine") !== comparable(field, "server")
+  );
+  // 預設保留自己的修改
+  const [choice, setChoice] = useState<Record<Field, "mine" | "server">>({
+    name: "mine",
+    capacity: "mine",
+    floorId: "mine",
+    amenities: "mine",
+    requiresApproval: "mine",
+  });
+
+  const merged: CreateSpaceInput = {
+    name: choice.name === "mine" ? mine.name : server.name,
+    capacity: choice.capacity === "mine" ? mine.capacity : server.capacity,
+    floorId:
+      choice.floorId === "mine" ? (mine.floorId ?? null) : server.floorId,
+    amenities:
+      choice.amenities === "mine" ? (mine.amenities ?? []) : server.amenities,
+    requiresApproval:
+      choice.requiresApproval === "mine"
+        ? (mine.requiresApproval ?? false)
+        : server.requiresApproval,
+  };
+
+  const display = (field: Field, side: "mine" | "server") => {
+    const value = side === "mine" ? mine[field] : server[field];
+    if (field === "floorId")
+      return describeFloor((value as string | null | undefined) ?? null);
+    if (field === "amenities")
+      return describeAmenities((value as string[] | undefined) ?? []);
+    if (field === "requiresApproval") return value ? "是" : "否";
+    return String(value);
+  };
+
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 space-y-3">
+      <p className="text-sm text-amber-800">
+        這個空間在你編輯時已被其他人修改（
+        {new Date(server.updatedAt).toLocaleString()}
+        ）。請選擇每個欄位要保留的值，再重新儲存。
+      </p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-1 font-medium">欄位</th>
+            <th className="py-1 font-medium">我的修改</th>
+            <th className="py-1 font-medium">伺服器目前的值</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fields.map((field) => (
+            <tr key={field}>
+              <td className="py-1 text-gray-700">{fieldLabels[field]}</td>
+              {(["mine", "server"] as const).map((side) => (
+                <td key={side} className="py-1">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name={`conflict-${field}`}
+                      checked={choice[field] === side}
+                      onChange={() => setChoice({ ...choice, [field]: side })}
+                    />
+                    {display(field, side)}
+                  </label>
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {fields.length === 0 && (
+        <p className="text-sm text-gray-600">
+          你的修改與伺服器目前的值相同，可直接重新儲存。
+        </p>
+      )}
+      <button
+        type="button"
+        onClick={() => onResolve(merged)}
+        className="px-3 py-1.5 text-sm bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
+      >
+        套用選擇的值
+      </button>
+    </div>
+  );
+}
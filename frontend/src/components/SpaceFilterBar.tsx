@@ -0,0 +1,183 @@
+import { useState } from "react";
+import type { SpaceListSearch } from "../hooks";
+
+interface SpaceFilterBarProps {
+  value: SpaceListSearch;
+  onChange: (next: Partial<SpaceListSearch>) => void;
+}
+
+const sortOptions = [
+  { value: "-createdAt", label: "最新建立" },
+  { value: "createdAt", label: "最早建立" },
+  { value: "name", label: "名稱 A→Z" },
+  { value: "-name", label: "名稱 Z→A" },
+  { value: "-capacity", label: "容量大→小" },
+  { value: "capacity", label: "容量小→大" },
+  { value: "-updatedAt", label: "最近更新" },
+];
+
+const fieldOf = (key: string) => key.replace(/^-/, "");
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none";
+
+export function SpaceFilterBar({ value, onChange }: SpaceFilterBarProps) {
+  // 文字與數字欄位按「套用」才更新網址，避免每次輸入都重新查詢
+  const [draft, setDraft] = useState(value);
+  const [primary = "", secondary = ""] = value.sort
+    ? value.sort.split(",")
+    : [];
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange({
+      name: draft.name.trim(),
+      minCapacity: draft.minCapacity,
+      maxCapacity: draft.maxCapacity,
+      createdFrom: draft.createdFrom,
+      createdTo: draft.createdTo,
+    });
+  };
+
+  const handleReset = () => {
+    // 地點與設備由左側側欄控制，不在這裡清除
+    const empty = {
+      ...value,
+      name: "",
+      minCapacity: "",
+      maxCapacity: "",
+      createdFrom: "",
+      createdTo: "",
+      sort: "",
+    };
+    setDraft(empty);
+    onChange(empty);
+  };
+
+  // 排序立即套用；次要排序不可與主要排序同欄位
+  const handleSort = (nextPrimary: string, nextSecondary: string) => {
+    const keys = [nextPrimary || "-createdAt"];
+    if (nextSecondary && fieldOf(nextSecondary) !== fieldOf(keys[0]))
+      keys.push(nextSecondary);
+    onChange({ sort: keys.join(",") === "-createdAt" ? "" : keys.join(",") });
+  };
+
+  return (
+    <form
+      onSubmit={handleApply}
+      className="bg-white rounded-xl p-4 shadow-md border border-gray-100 mb-6 grid grid-cols-2 sm:grid-cols-4 gap-3 items-end"
+    >
+      <div className="col-span-2">
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          名稱
+        </label>
+        <input
+          type="search"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="包含文字"
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          最少人數
+        </label>
+        <input
+          type="number"
+          min="0"
+          value={draft.minCapacity}
+          onChange={(e) => setDraft({ ...draft, minCapacity: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          最多人數
+        </label>
+        <input
+          type="number"
+          min="0"
+          value={draft.maxCapacity}
+          onChange={(e) => setDraft({ ...draft, maxCapacity: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          建立日期起
+        </label>
+        <input
+          type="date"
+          value={draft.createdFrom}
+          onChange={(e) => setDraft({ ...draft, createdFrom: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          建立日期迄
+        </label>
+        <input
+          type="date"
+          value={draft.createdTo}
+          onChange={(e) => setDraft({ ...draft, createdTo: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          排序
+        </label>
+        <select
+          value={primary || "-createdAt"}
+          onChange={(e) => handleSort(e.target.value, secondary)}
+          className={inputClass}
+        >
+          {sortOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          次要排序
+        </label>
+        <select
+          value={secondary}
+          onChange={(e) => handleSort(primary, e.target.value)}
+          className={inputClass}
+        >
+          <option value="">無</option>
+          {sortOptions
+            .filter(
+              (option) =>
+                fieldOf(option.value) !== fieldOf(primary || "-createdAt")
+            )
+            .map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+        </select>
+      </div>
+      <div className="col-span-2 sm:col-span-4 flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={handleReset}
+          className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+        >
+          清除
+        </button>
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+        >
+          套用
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,9 @@
+import { useSpace } from "../hooks";
+
+/**
+ * 以 id 顯示空間名稱（清單只帶 spaceId 時使用）
+ */
+export function SpaceName({ id }: { id: string }) {
+  const { data: space } = useSpace(id);
+  return <>{space?.name ?? "空間"}</>;
+}
@@ -0,0 +1,467 @@
+import { useState } from "react";
+import {
+  useApprovers,
+  useBlackouts,
+  useCreateBlackout,
+  useDeleteBlackout,
+  useSpaceRules,
+  useUpdateApprovers,
+  useUpdateSpaceRules,
+} from "../hooks";
+import { parseApiError } from "../services";
+import type { ApiError } from "../services";
+import { useToastStore } from "../stores";
+import type { OpeningHours, SpaceRules, UpdateSpaceRulesInput } from "../types";
+
+interface SpaceRulesEditorProps {
+  spaceId: string;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none";
+
+const weekdayLabels = ["日", "一", "二", "三", "四", "五", "六"];
+
+// 開啟「依時段開放」時的預設：週一到週五 09:00–18:00
+const WORKING_HOURS: OpeningHours = [1, 2, 3, 4, 5].map((weekday) => ({
+  weekday,
+  opens: "09:00",
+  closes: "18:00",
+}));
+
+// 空白欄位代表不限制
+function parseLimit(value: string): number | null {
+  return value === "" ? null : parseInt(value) || 0;
+}
+
+function toISO(local: string) {
+  return new Date(local).toISOString();
+}
+
+function toInput(rules: SpaceRules): UpdateSpaceRulesInput {
+  return {
+    timeZone: rules.timeZone,
+    openingHours: rules.openingHours,
+    maxDurationMinutes: rules.maxDurationMinutes,
+    leadTimeMinutes: rules.leadTimeMinutes,
+    horizonDays: rules.horizonDays,
+    bufferMinutes: rules.bufferMinutes,
+  };
+}
+
+/**
+ * 空間編輯視窗的「規則」分頁：開放時段、預約限制、停用時段與審核者
+ */
+export function SpaceRulesEditor({ spaceId, onClose }: SpaceRulesEditorProps) {
+  const { data: rules, isLoading } = useSpaceRules(spaceId);
+
+  if (isLoading || !rules) {
+    return <p className="text-gray-400 text-sm py-8 text-center">載入中...</p>;
+  }
+  return (
+    <div className="space-y-6">
+      <RulesForm spaceId={spaceId} rules={rules} onClose={onClose} />
+      <BlackoutList spaceId={spaceId} />
+      <ApproverList spaceId={spaceId} />
+    </div>
+  );
+}
+
+function RulesForm({
+  spaceId,
+  rules,
+  onClose,
+}: {
+  spaceId: string;
+  rules: SpaceRules;
+  onClose: () => void;
+}) {
+  const updateMutation = useUpdateSpaceRules();
+  const showToast = useToastStore((s) => s.showToast);
+  const [draft, setDraft] = useState<UpdateSpaceRulesInput>(() =>
+    toInput(rules)
+  );
+  const [error, setError] = useState<ApiError | null>(null);
+
+  const hours = draft.openingHours ?? [];
+  const setHours = (openingHours: OpeningHours) =>
+    setDraft({ ...draft, openingHours });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await updateMutation.mutateAsync({ id: spaceId, input: draft });
+      showToast("已儲存預約規則");
+    } catch (err) {
+      setError(parseApiError(err));
+    }
+  };
+
+  const fieldError = (field: string) =>
+    error?.fieldErrors[field] && (
+      <p className="text-sm text-red-600 mt-1">{error.fieldErrors[field]}</p>
+    );
+
+  const limitField = (
+    field: "maxDurationMinutes" | "leadTimeMinutes" | "horizonDays",
+    label: string
+  ) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <input
+        type="number"
+        min={0}
+        value={draft[field] ?? ""}
+        onChange={(e) =>
+          setDraft({ ...draft, [field]: parseLimit(e.target.value) })
+        }
+        className={inputClass}
+        placeholder="不限制"
+      />
+      {fieldError(field)}
+    </div>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          時區
+        </label>
+        <input
+          type="text"
+          value={draft.timeZone}
+          onChange={(e) => setDraft({ ...draft, timeZone: e.target.value })}
+          required
+          className={inputClass}
+          placeholder="例如：Asia/Taipei"
+        />
+        {fieldError("timeZone")}
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-1">
+          <span className="text-sm font-medium text-gray-700">開放時段</span>
+          <label className="flex items-center gap-1.5 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.openingHours === null}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  openingHours: e.target.checked ? null : WORKING_HOURS,
+                })
+              }
+            />
+            全天開放
+          </label>
+        </div>
+        {draft.openingHours !== null && (
+          <ul className="space-y-1 text-sm">
+            {weekdayLabels.map((label, weekday) => {
+              const periods = hours.filter((h) => h.weekday === weekday);
+              return (
+                <li key={weekday} className="flex items-start gap-2">
+                  <span className="w-10 pt-1.5 text-gray-600">週{label}</span>
+                  <div className="flex-1 space-y-1">
+                    {periods.length === 0 && (
+                      <p className="pt-1.5 text-gray-400">不開放</p>
+                    )}
+                    {periods.map((period) => (
+                      <div
+                        key={hours.indexOf(period)}
+                        className="flex items-center gap-1"
+                      >
+                        <input
+                          type="time"
+                          value={period.opens}
+                          onChange={(e) =>
+                            setHours(
+                              hours.map((h) =>
+                                h === period
+                                  ? { ...h, opens: e.target.value }
+                                  : h
+                              )
+                            )
+                          }
+                          required
+                          className="px-2 py-1 border border-gray-300 rounded-md"
+                        />
+                        –
+                        <input
+                          type="time"
+                          value={period.closes === "24:00" ? "" : period.closes}
+                          onChange={(e) =>
+                            setHours(
+                              hours.map((h) =>
+                                h === period
+                                  ? { ...h, closes: e.target.value || "24:00" }
+                                  : h
+                              )
+                            )
+                          }
+                          title="留空表示營業到午夜"
+                          className="px-2 py-1 border border-gray-300 rounded-md"
+                        />
+                        <button
+                          type="button"
+                          title="移除時段"
+                          onClick={() =>
+                            setHours(hours.filter((h) => h !== period))
+                          }
+                          className="text-gray-400 hover:text-red-600"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    title="新增時段"
+                    onClick={() =>
+                      setHours([
+                        ...hours,
+                        { weekday, opens: "09:00", closes: "18:00" },
+                      ])
+                    }
+                    className="pt-1.5 text-xs text-blue-600 hover:underline"
+                  >
+                    + 時段
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {fieldError("openingHours")}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {limitField("maxDurationMinutes", "單次上限（分鐘）")}
+        {limitField("leadTimeMinutes", "最晚提前（分鐘）")}
+        {limitField("horizonDays", "最遠可預約（天）")}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            前後緩衝（分鐘）
+          </label>
+          <input
+            type="number"
+            min={0}
+            value={draft.bufferMinutes}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                bufferMinutes: parseInt(e.target.value) || 0,
+              })
+            }
+            className={inputClass}
+          />
+          {fieldError("bufferMinutes")}
+        </div>
+      </div>
+
+      {error && Object.keys(error.fieldErrors).length === 0 && (
+        <p className="text-sm text-red-600">{error.message}</p>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={onClose}
+          className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+        >
+          關閉
+        </button>
+        <button
+          type="submit"
+          disabled={updateMutation.isPending}
+          className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {updateMutation.isPending ? "儲存中..." : "儲存規則"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// 停用時段不影響已存在的預約，只會擋下之後的新預約
+function BlackoutList({ spaceId }: { spaceId: string }) {
+  const { data: blackouts } = useBlackouts(spaceId);
+  const createMutation = useCreateBlackout();
+  const deleteMutation = useDeleteBlackout();
+  const [form, setForm] = useState({ startAt: "", endAt: "", reason: "" });
+  const [error, setError] = useState<ApiError | null>(null);
+
+  const handleAdd = async () => {
+    setError(null);
+    try {
+      await createMutation.mutateAsync({
+        id: spaceId,
+        input: {
+          startAt: toISO(form.startAt),
+          endAt: toISO(form.endAt),
+          reason: form.reason,
+        },
+      });
+      setForm({ startAt: "", endAt: "", reason: "" });
+    } catch (err) {
+      setError(parseApiError(err));
+    }
+  };
+
+  const handleDelete = (blackoutId: string, reason: string) => {
+    if (!confirm(`確定要刪除停用時段「${reason}」嗎？`)) return;
+    deleteMutation.mutate(
+      { id: spaceId, blackoutId },
+      { onError: (err) => alert(parseApiError(err).message) }
+    );
+  };
+
+  return (
+    <section className="border-t border-gray-100 pt-4 text-sm">
+      <h3 className="font-medium text-gray-700 mb-2">停用時段</h3>
+      {blackouts?.length === 0 && <p className="text-gray-400">尚無停用時段</p>}
+      <ul className="space-y-1 mb-3">
+        {blackouts?.map((blackout) => (
+          <li
+            key={blackout.id}
+            className="flex justify-between items-center gap-2"
+          >
+            <span>
+              <span className="font-mono text-xs text-gray-500">
+                {new Date(blackout.startAt).toLocaleString()} –{" "}
+                {new Date(blackout.endAt).toLocaleString()}
+              </span>{" "}
+              {blackout.reason}
+            </span>
+            <button
+              title="刪除"
+              onClick={() => handleDelete(blackout.id, blackout.reason)}
+              className="text-gray-400 hover:text-red-600"
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="datetime-local"
+          value={form.startAt}
+          onChange={(e) => setForm({ ...form, startAt: e.target.value })}
+          className={inputClass}
+        />
+        <input
+          type="datetime-local"
+          value={form.endAt}
+          onChange={(e) => setForm({ ...form, endAt: e.target.value })}
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={form.reason}
+          onChange={(e) => setForm({ ...form, reason: e.target.value })}
+          className={`${inputClass} col-span-2`}
+          placeholder="原因（例如：年度維修）"
+        />
+      </div>
+      {error && (
+        <p className="text-sm text-red-600 mt-1">
+          {Object.values(error.fieldErrors)[0] ?? error.message}
+        </p>
+      )}
+      <button
+        type="button"
+        onClick={handleAdd}
+        disabled={
+          !form.startAt ||
+          !form.endAt ||
+          !form.reason.trim() ||
+          createMutation.isPending
+        }
+        className="mt-2 w-full px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium disabled:opacity-50"
+      >
+        新增停用時段
+      </button>
+    </section>
+  );
+}
+
+// 只在空間「預約需經審核」時生效；admin 不必指定也能審核所有空間
+function ApproverList({ spaceId }: { spaceId: string }) {
+  const { data: approvers } = useApprovers(spaceId);
+  const updateMutation = useUpdateApprovers();
+  const showToast = useToastStore((s) => s.showToast);
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState<ApiError | null>(null);
+
+  const save = async (emails: string[]) => {
+    setError(null);
+    try {
+      await updateMutation.mutateAsync({ spaceId, input: { emails } });
+      setEmail("");
+      showToast("已更新審核者");
+    } catch (err) {
+      setError(parseApiError(err));
+    }
+  };
+
+  const current = approvers?.map((a) => a.email) ?? [];
+
+  return (
+    <section className="border-t border-gray-100 pt-4 text-sm">
+      <h3 className="font-medium text-gray-700 mb-2">審核者</h3>
+      {approvers?.length === 0 && (
+        <p className="text-gray-400">尚未指定，僅管理員可審核</p>
+      )}
+      <ul className="space-y-1 mb-3">
+        {approvers?.map((approver) => (
+          <li
+            key={approver.id}
+            className="flex justify-between items-center gap-2"
+          >
+            <span>
+              {approver.name}{" "}
+              <span className="text-xs text-gray-500">{approver.email}</span>
+            </span>
+            <button
+              title="移除"
+              onClick={() => save(current.filter((e) => e !== approver.email))}
+              disabled={updateMutation.isPending}
+              className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className={inputClass}
+          placeholder="審核者的 email"
+        />
+        <button
+          type="button"
+          onClick={() => save([...current, email.trim()])}
+          disabled={!email.trim() || updateMutation.isPending}
+          className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium whitespace-nowrap disabled:opacity-50"
+        >
+          新增
+        </button>
+      </div>
+      {error && (
+        <p className="text-sm text-red-600 mt-1">
+          {Object.values(error.fieldErrors)[0] ?? error.message}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,36 @@
+import type { BookingStatus, ReservationStatus } from "../types";
+
+const statusLabels: Record<BookingStatus | ReservationStatus, string> = {
+  confirmed: "已確認",
+  cancelled: "已取消",
+  pending: "待審核",
+  approved: "已核准",
+  rejected: "已駁回",
+  expired: "已逾時",
+};
+
+const statusClass: Record<BookingStatus | ReservationStatus, string> = {
+  confirmed: "bg-green-50 text-green-700",
+  cancelled: "bg-gray-100 text-gray-500",
+  pending: "bg-amber-50 text-amber-700",
+  approved: "bg-green-50 text-green-700",
+  rejected: "bg-red-50 text-red-600",
+  expired: "bg-gray-100 text-gray-500",
+};
+
+/**
+ * 預約與預約申請共用的狀態標籤
+ */
+export function StatusBadge({
+  status,
+}: {
+  status: BookingStatus | ReservationStatus;
+}) {
+  return (
+    <span
+      className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusClass[status]}`}
+    >
+      {statusLabels[status]}
+    </span>
+  );
+}
@@ -0,0 +1,40 @@
+import { useToastStore } from "../stores";
+
+export function ToastContainer() {
+  const toasts = useToastStore((s) => s.toasts);
+  const dismissToast = useToastStore((s) => s.dismissToast);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2">
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          role="status"
+          className="flex items-center gap-4 px-4 py-3 bg-gray-900 text-white text-sm rounded-lg shadow-lg"
+        >
+          <span>{toast.message}</span>
+          {toast.action && (
+            <button
+              onClick={() => {
+                toast.action?.onClick();
+                dismissToast(toast.id);
+              }}
+              className="font-medium text-blue-300 hover:text-blue-200"
+            >
+              {toast.action.label}
+            </button>
+          )}
+          <button
+            onClick={() => dismissToast(toast.id)}
+            aria-label="關閉"
+            className="text-gray-400 hover:text-gray-200"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
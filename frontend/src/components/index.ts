@@ -0,0 +1,19 @@
+export { BookingModal } from "./BookingModal";
+export { AvailabilityPanel } from "./AvailabilityPanel";
+export type { BookingDraft } from "./AvailabilityPanel";
+export { CalendarActions } from "./CalendarActions";
+export { RequireAuth } from "./RequireAuth";
+export { SpaceFilterBar } from "./SpaceFilterBar";
+export { ToastContainer } from "./ToastContainer";
+export { HistoryTimeline } from "./HistoryTimeline";
+export { SpaceConflictPanel } from "./SpaceConflictPanel";
+export { ImportSpacesModal } from "./ImportSpacesModal";
+export { LocationTree } from "./LocationTree";
+export { LocationPicker } from "./LocationPicker";
+export { AmenityFacets } from "./AmenityFacets";
+export { AmenityChips } from "./AmenityChips";
+export { SpaceRulesEditor } from "./SpaceRulesEditor";
+export { StatusBadge } from "./StatusBadge";
+export { SpaceName } from "./SpaceName";
+export { ConnectionIndicator } from "./ConnectionIndicator";
+export { GlobalSearch } from "./GlobalSearch";
@@ -1,2 +1,15 @@
 export * from "./useHealth";
 export * from "./useSpaces";
+export * from "./useBookings";
+export * from "./useAvailability";
+export * from "./useCalendar";
+export * from "./useAuth";
+export * from "./useSpaceListFilters";
+export * from "./useLocations";
+export * from "./useAmenities";
+export * from "./useWaitlist";
+export * from "./useReservations";
+export * from "./useNotifications";
+export * from "./useWebhooks";
+export * from "./useSpaceEvents";
+export * from "./useSpaceSearch";
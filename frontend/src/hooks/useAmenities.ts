@@ -0,0 +1,45 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { createAmenity, deleteAmenity, fetchAmenities } from "../services";
+import type { CreateAmenityInput } from "../types";
+
+const QUERY_KEY = "amenities";
+
+/**
+ * 取得設備清單
+ */
+export function useAmenities() {
+  return useQuery({
+    queryKey: [QUERY_KEY],
+    queryFn: fetchAmenities,
+  });
+}
+
+/**
+ * 新增設備 mutation；列表的設備計數也一併更新
+ */
+export function useCreateAmenity() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateAmenityInput) => createAmenity(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: ["spaces"] });
+    },
+  });
+}
+
+/**
+ * 刪除設備 mutation
+ */
+export function useDeleteAmenity() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteAmenity(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: ["spaces"] });
+    },
+  });
+}
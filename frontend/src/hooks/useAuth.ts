@@ -0,0 +1,65 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchMe, login, logout, register } from "../services";
+import { useAuthStore } from "../stores";
+import type { LoginInput, RegisterInput } from "../types";
+
+/**
+ * 取得目前登入的使用者（同步角色變更到 store）
+ */
+export function useCurrentUser() {
+  const token = useAuthStore((s) => s.token);
+  const setSession = useAuthStore((s) => s.setSession);
+
+  return useQuery({
+    queryKey: ["auth", "me", token],
+    queryFn: async () => {
+      const user = await fetchMe();
+      setSession(token!, user);
+      return user;
+    },
+    enabled: !!token,
+  });
+}
+
+/**
+ * 登入 mutation
+ */
+export function useLogin() {
+  const setSession = useAuthStore((s) => s.setSession);
+
+  return useMutation({
+    mutationFn: (input: LoginInput) => login(input),
+    onSuccess: ({ token, user }) => setSession(token, user),
+  });
+}
+
+/**
+ * 註冊後直接登入
+ */
+export function useRegister() {
+  const setSession = useAuthStore((s) => s.setSession);
+
+  return useMutation({
+    mutationFn: async (input: RegisterInput) => {
+      await register(input);
+      return login({ email: input.email, password: input.password });
+    },
+    onSuccess: ({ token, user }) => setSession(token, user),
+  });
+}
+
+/**
+ * 登出 mutation
+ */
+export function useLogout() {
+  const clearSession = useAuthStore((s) => s.clearSession);
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: logout,
+    onSettled: () => {
+      clearSession();
+      queryClient.clear();
+    },
+  });
+}
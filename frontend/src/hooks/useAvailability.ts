@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchAvailability } from "../services";
+import type { AvailabilityQuery } from "../types";
+
+/**
+ * 查詢空間可用性，query 為 null 時不發送請求
+ */
+export function useAvailability(query: AvailabilityQuery | null) {
+  return useQuery({
+    queryKey: ["spaces", "availability", query],
+    queryFn: () => fetchAvailability(query!),
+    enabled: !!query,
+  });
+}
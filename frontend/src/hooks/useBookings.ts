@@ -0,0 +1,129 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchSpaceBookings,
+  createBooking,
+  createRecurringBooking,
+  updateBooking,
+  updateFollowingBookings,
+  cancelBooking,
+} from "../services";
+import type {
+  CreateBookingInput,
+  CreateRecurringBookingInput,
+  OccurrenceScope,
+  UpdateBookingInput,
+} from "../types";
+
+const QUERY_KEY = "bookings";
+
+/**
+ * 取得某個 Space 的預約
+ */
+export function useSpaceBookings(spaceId: string) {
+  return useQuery({
+    queryKey: [QUERY_KEY, spaceId],
+    queryFn: () => fetchSpaceBookings(spaceId),
+    enabled: !!spaceId,
+  });
+}
+
+/**
+ * 建立預約 mutation
+ */
+export function useCreateBooking() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      spaceId,
+      input,
+    }: {
+      spaceId: string;
+      input: CreateBookingInput;
+    }) => createBooking(spaceId, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: ["spaces", "availability"] });
+    },
+  });
+}
+
+/**
+ * 建立重複預約 mutation
+ */
+export function useCreateRecurringBooking() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      spaceId,
+      input,
+    }: {
+      spaceId: string;
+      input: CreateRecurringBookingInput;
+    }) => createRecurringBooking(spaceId, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: ["spaces", "availability"] });
+    },
+  });
+}
+
+/**
+ * 改期 / 更新預約 mutation
+ */
+export function useUpdateBooking() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: UpdateBookingInput }) =>
+      updateBooking(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: ["waitlist"] });
+    },
+  });
+}
+
+/**
+ * 修改此次與之後的重複預約 mutation
+ */
+export function useUpdateFollowingBookings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      input,
+    }: {
+      id: string;
+      input: UpdateBookingInput & { skipConflicts?: boolean };
+    }) => updateFollowingBookings(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: ["waitlist"] });
+    },
+  });
+}
+
+/**
+ * 取消預約 mutation
+ */
+export function useCancelBooking() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      scope = "this",
+    }: {
+      id: string;
+      scope?: OccurrenceScope;
+    }) => cancelBooking(id, scope),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
+      // 空出的時段可能已自動轉給候補者
+      queryClient.invalidateQueries({ queryKey: ["waitlist"] });
+    },
+  });
+}
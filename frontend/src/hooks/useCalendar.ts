@@ -0,0 +1,51 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchCalendarToken,
+  importSpaceCalendar,
+  rotateCalendarToken,
+} from "../services";
+import { useAuthStore } from "../stores";
+
+/**
+ * 取得行事曆訂閱 token（組訂閱網址用）
+ */
+export function useCalendarToken() {
+  const userId = useAuthStore((s) => s.user?.id);
+
+  return useQuery({
+    queryKey: ["auth", "calendar-token", userId],
+    queryFn: fetchCalendarToken,
+    enabled: !!userId,
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * 重設行事曆訂閱 token mutation（舊網址失效）
+ */
+export function useRotateCalendarToken() {
+  const queryClient = useQueryClient();
+  const userId = useAuthStore((s) => s.user?.id);
+
+  return useMutation({
+    mutationFn: rotateCalendarToken,
+    onSuccess: (token) =>
+      queryClient.setQueryData(["auth", "calendar-token", userId], token),
+  });
+}
+
+/**
+ * 匯入 .ics mutation
+ */
+export function useImportSpaceCalendar() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ spaceId, file }: { spaceId: string; file: File }) =>
+      importSpaceCalendar(spaceId, file),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["spaces", "availability"] });
+    },
+  });
+}
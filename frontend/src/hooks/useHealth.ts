@@ -1,13 +1,16 @@
 import { useQuery } from "@tanstack/react-query";
 import { fetchHealth } from "../services";
 
+const REFRESH_INTERVAL_MS = 10_000;
+
 /**
- * 健康檢查 hook
+ * 健康檢查 hook，每 10 秒自動更新
  */
 export function useHealth() {
   return useQuery({
     queryKey: ["health"],
     queryFn: fetchHealth,
     retry: 1,
+    refetchInterval: REFRESH_INTERVAL_MS,
   });
 }
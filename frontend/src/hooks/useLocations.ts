@@ -0,0 +1,84 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  createLocation,
+  deleteLocation,
+  fetchLocationTree,
+  renameLocation,
+} from "../services";
+import type { LocationKind } from "../types";
+
+const QUERY_KEY = "locations";
+
+/**
+ * 取得地點樹
+ */
+export function useLocationTree() {
+  return useQuery({
+    queryKey: [QUERY_KEY],
+    queryFn: fetchLocationTree,
+  });
+}
+
+/**
+ * 新增地點 mutation；parentId 為上一層的 id（據點不需要）
+ */
+export function useCreateLocation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      kind,
+      name,
+      parentId = "",
+    }: {
+      kind: LocationKind;
+      name: string;
+      parentId?: string;
+    }) => {
+      if (kind === "site") return createLocation(kind, { name });
+      if (kind === "building")
+        return createLocation(kind, { siteId: parentId, name });
+      return createLocation(kind, { buildingId: parentId, name });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
+    },
+  });
+}
+
+/**
+ * 重新命名地點 mutation
+ */
+export function useRenameLocation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      kind,
+      id,
+      name,
+    }: {
+      kind: LocationKind;
+      id: string;
+      name: string;
+    }) => renameLocation(kind, id, name),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
+    },
+  });
+}
+
+/**
+ * 刪除地點 mutation
+ */
+export function useDeleteLocation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ kind, id }: { kind: LocationKind; id: string }) =>
+      deleteLocation(kind, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
+    },
+  });
+}
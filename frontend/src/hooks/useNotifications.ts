@@ -0,0 +1,33 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchNotificationPreferences,
+  updateNotificationPreferences,
+} from "../services";
+import type { UpdateNotificationPreferences } from "../types";
+
+const QUERY_KEY = ["notifications", "preferences"];
+
+/**
+ * 取得自己的通知偏好
+ */
+export function useNotificationPreferences() {
+  return useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: fetchNotificationPreferences,
+  });
+}
+
+/**
+ * 更新通知偏好 mutation
+ */
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateNotificationPreferences) =>
+      updateNotificationPreferences(input),
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(QUERY_KEY, preferences);
+    },
+  });
+}
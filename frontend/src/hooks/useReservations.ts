@@ -0,0 +1,98 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  approveReservation,
+  createReservation,
+  fetchApprovers,
+  fetchReservations,
+  rejectReservation,
+  updateApprovers,
+} from "../services";
+import type { ReservationQuery } from "../services";
+import type { CreateReservationInput, UpdateApproversInput } from "../types";
+
+const QUERY_KEY = "reservations";
+
+/**
+ * 取得預約申請（自己的或待自己審核的）
+ */
+export function useReservations(query: ReservationQuery, enabled = true) {
+  return useQuery({
+    queryKey: [QUERY_KEY, query],
+    queryFn: () => fetchReservations(query),
+    enabled,
+  });
+}
+
+/**
+ * 送出預約申請 mutation
+ */
+export function useCreateReservation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateReservationInput) => createReservation(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
+      // 待審核的申請也會佔用時段
+      queryClient.invalidateQueries({ queryKey: ["spaces", "availability"] });
+    },
+  });
+}
+
+/**
+ * 核准或駁回申請 mutation；核准會建立預約，駁回會釋出時段
+ */
+export function useDecideReservation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      decision,
+      reason,
+    }: {
+      id: string;
+      decision: "approve" | "reject";
+      reason: string;
+    }) =>
+      decision === "approve"
+        ? approveReservation(id, reason || undefined)
+        : rejectReservation(id, reason),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: ["bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["spaces", "availability"] });
+    },
+  });
+}
+
+/**
+ * 取得空間的審核者
+ */
+export function useApprovers(spaceId: string) {
+  return useQuery({
+    queryKey: ["spaces", spaceId, "approvers"],
+    queryFn: () => fetchApprovers(spaceId),
+    enabled: !!spaceId,
+  });
+}
+
+/**
+ * 設定空間審核者 mutation
+ */
+export function useUpdateApprovers() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      spaceId,
+      input,
+    }: {
+      spaceId: string;
+      input: UpdateApproversInput;
+    }) => updateApprovers(spaceId, input),
+    onSuccess: (approvers, { spaceId }) => {
+      queryClient.setQueryData(["spaces", spaceId, "approvers"], approvers);
+    },
+  });
+}
@@ -0,0 +1,110 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { InfiniteData, QueryClient } from "@tanstack/react-query";
+import { useAuthStore, useConnectionStore } from "../stores";
+import type { SpacePage, SpaceStreamEvent } from "../types";
+
+const QUERY_KEY = "spaces";
+const LIST_KEY = [QUERY_KEY, "list"];
+// 伺服器拒絕連線（例如 token 失效）時 EventSource 不會自動重連
+const RECONNECT_DELAY_MS = 5000;
+
+function mapItems(
+  queryClient: QueryClient,
+  map: (page: SpacePage) => SpacePage
+) {
+  queryClient.setQueriesData<InfiniteData<SpacePage>>(
+    { queryKey: LIST_KEY },
+    (data) => data && { ...data, pages: data.pages.map(map) }
+  );
+}
+
+/**
+ * 依事件直接修改快取：更新與刪除就地替換，新增與還原無法得知排序位置，改為重新取得
+ */
+function applyEvent(queryClient: QueryClient, event: SpaceStreamEvent) {
+  const { type, spaceId, space } = event;
+
+  if (type === "space.deleted") {
+    mapItems(queryClient, (page) =>
+      page.items.some((s) => s.id === spaceId)
+        ? {
+            ...page,
+            items: page.items.filter((s) => s.id !== spaceId),
+            total: page.total - 1,
+          }
+        : page
+    );
+    queryClient.invalidateQueries({
+      queryKey: [QUERY_KEY, spaceId],
+      exact: true,
+    });
+  } else if (space) {
+    queryClient.setQueryData([QUERY_KEY, spaceId], space);
+    if (type === "space.updated")
+      mapItems(queryClient, (page) => ({
+        ...page,
+        items: page.items.map((s) => (s.id === spaceId ? space : s)),
+      }));
+  }
+
+  // 更新後可能不再符合篩選條件、統計也會改變，標記為過期，下次使用時再重新取得
+  queryClient.invalidateQueries({
+    queryKey: LIST_KEY,
+    refetchType:
+      type === "space.created" || type === "space.restored" ? "active" : "none",
+  });
+  if (type === "space.deleted" || type === "space.restored")
+    queryClient.invalidateQueries({ queryKey: [QUERY_KEY, "trash"] });
+}
+
+/**
+ * 登入後訂閱 GET /api/events，讓其他人對空間的變更即時反映在畫面上
+ */
+export function useSpaceEvents() {
+  const queryClient = useQueryClient();
+  const token = useAuthStore((s) => s.token);
+  const setStatus = useConnectionStore((s) => s.setStatus);
+
+  useEffect(() => {
+    if (!token) return;
+
+    let source: EventSource | undefined;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let lastEventId = "";
+
+    const connect = () => {
+      setStatus("connecting");
+      const params = new URLSearchParams({ token });
+      // 自行重連時 EventSource 不會帶 Last-Event-ID，改用 query 傳遞
+      if (lastEventId) params.set("lastEventId", lastEventId);
+      source = new EventSource(`/api/events?${params}`);
+
+      source.onopen = () => setStatus("open");
+      source.onmessage = (e: MessageEvent<string>) => {
+        lastEventId = e.lastEventId;
+        applyEvent(queryClient, JSON.parse(e.data) as SpaceStreamEvent);
+      };
+      // 漏掉的事件已無法補送，整批重新取得
+      source.addEventListener("reset", () => {
+        queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
+      });
+      source.onerror = () => {
+        if (source?.readyState !== EventSource.CLOSED) {
+          // 瀏覽器會自行重連並帶上 Last-Event-ID
+          setStatus("connecting");
+          return;
+        }
+        setStatus("closed");
+        retryTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      clearTimeout(retryTimer);
+      source?.close();
+      setStatus("closed");
+    };
+  }, [token, queryClient, setStatus]);
+}
@@ -0,0 +1,88 @@
+import { useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import type { SpaceListFilters } from "../types";
+
+/**
+ * 網址上的篩選條件（日期為 YYYY-MM-DD，方便分享與重新整理）
+ */
+export interface SpaceListSearch {
+  name: string;
+  minCapacity: string;
+  maxCapacity: string;
+  createdFrom: string;
+  createdTo: string;
+  siteId: string;
+  buildingId: string;
+  floorId: string;
+  amenities: string;
+  sort: string;
+}
+
+const KEYS: (keyof SpaceListSearch)[] = [
+  "name",
+  "minCapacity",
+  "maxCapacity",
+  "createdFrom",
+  "createdTo",
+  "siteId",
+  "buildingId",
+  "floorId",
+  "amenities",
+  "sort",
+];
+
+// 本地日期的起訖時間轉為 ISO，讓 createdTo 包含當天
+function startOfDay(date: string) {
+  return new Date(`${date}T00:00:00`).toISOString();
+}
+
+function endOfDay(date: string) {
+  return new Date(`${date}T23:59:59.999`).toISOString();
+}
+
+function toNumber(value: string) {
+  return value === "" ? undefined : Number(value);
+}
+
+/**
+ * Space 列表篩選與排序，與網址 query string 同步
+ */
+export function useSpaceListFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const search = useMemo(
+    () =>
+      Object.fromEntries(
+        KEYS.map((key) => [key, searchParams.get(key) ?? ""])
+      ) as unknown as SpaceListSearch,
+    [searchParams]
+  );
+
+  const filters = useMemo<SpaceListFilters>(
+    () => ({
+      name: search.name || undefined,
+      minCapacity: toNumber(search.minCapacity),
+      maxCapacity: toNumber(search.maxCapacity),
+      createdFrom: search.createdFrom
+        ? startOfDay(search.createdFrom)
+        : undefined,
+      createdTo: search.createdTo ? endOfDay(search.createdTo) : undefined,
+      siteId: search.siteId || undefined,
+      buildingId: search.buildingId || undefined,
+      floorId: search.floorId || undefined,
+      amenities: search.amenities || undefined,
+      sort: search.sort || undefined,
+    }),
+    [search]
+  );
+
+  // 空值不寫入網址
+  const setSearch = (next: Partial<SpaceListSearch>) => {
+    const merged = { ...search, ...next };
+    const params = new URLSearchParams();
+    for (const key of KEYS) if (merged[key]) params.set(key, merged[key]);
+    setSearchParams(params, { replace: true });
+  };
+
+  return { search, filters, setSearch };
+}
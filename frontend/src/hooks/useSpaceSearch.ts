@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { searchSpaces } from "../services";
+
+const DEBOUNCE_MS = 250;
+
+/**
+ * 輸入停頓 DEBOUNCE_MS 後才搜尋 Space，避免每個按鍵都發送請求；
+ * 空白關鍵字不搜尋，重新搜尋期間保留上一次的結果
+ */
+export function useSpaceSearch(query: string, limit = 8) {
+  const [debounced, setDebounced] = useState(query.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  return useQuery({
+    queryKey: ["spaces", "search", debounced, limit],
+    queryFn: () => searchSpaces(debounced, limit),
+    enabled: debounced.length > 0,
+    placeholderData: keepPreviousData,
+  });
+}
@@ -1,22 +1,44 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  useInfiniteQuery,
+  useQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
 import {
   fetchSpaces,
   fetchSpaceById,
   createSpace,
   updateSpace,
   deleteSpace,
+  fetchTrashedSpaces,
+  restoreSpace,
+  fetchSpaceHistory,
+  importSpaces,
+  fetchSpaceRules,
+  updateSpaceRules,
+  fetchBlackouts,
+  createBlackout,
+  deleteBlackout,
 } from "../services";
-import type { CreateSpaceInput, UpdateSpaceInput } from "../types";
+import type {
+  CreateBlackoutInput,
+  CreateSpaceInput,
+  SpaceListFilters,
+  UpdateSpaceInput,
+  UpdateSpaceRulesInput,
+} from "../types";
 
 const QUERY_KEY = "spaces";
 
 /**
- * 取得所有 Spaces
+ * 依篩選條件分頁取得 Spaces（無限捲動）
  */
-export function useSpaces() {
-  return useQuery({
-    queryKey: [QUERY_KEY],
-    queryFn: fetchSpaces,
+export function useSpaces(filters: SpaceListFilters) {
+  return useInfiniteQuery({
+    queryKey: [QUERY_KEY, "list", filters],
+    queryFn: ({ pageParam }) => fetchSpaces(filters, { cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
   });
 }
 
@@ -31,6 +53,19 @@ export function useSpace(id: string) {
   });
 }
 
+/**
+ * 分頁取得 Space 的變更紀錄；新增 / 更新 / 刪除 / 還原後會一併失效
+ */
+export function useSpaceHistory(id: string) {
+  return useInfiniteQuery({
+    queryKey: [QUERY_KEY, id, "history"],
+    queryFn: ({ pageParam }) => fetchSpaceHistory(id, { cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!id,
+  });
+}
+
 /**
  * 建立 Space mutation
  */
@@ -46,15 +81,23 @@ export function useCreateSpace() {
 }
 
 /**
- * 更新 Space mutation
+ * 更新 Space mutation（version 過期時回傳 PRECONDITION_FAILED，見 conflictingSpace）
  */
 export function useUpdateSpace() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ id, input }: { id: string; input: UpdateSpaceInput }) =>
-      updateSpace(id, input),
-    onSuccess: () => {
+    mutationFn: ({
+      id,
+      input,
+      version,
+    }: {
+      id: string;
+      input: UpdateSpaceInput;
+      version?: number;
+    }) => updateSpace(id, input, version),
+    // 版本衝突時也重新整理，列表才會顯示伺服器目前的值
+    onSettled: () => {
       queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
     },
   });
@@ -67,9 +110,117 @@ export function useDeleteSpace() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (id: string) => deleteSpace(id),
+    mutationFn: ({ id, version }: { id: string; version?: number }) =>
+      deleteSpace(id, version),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
+    },
+  });
+}
+
+/**
+ * 取得垃圾桶中的 Spaces
+ */
+export function useTrashedSpaces() {
+  return useQuery({
+    queryKey: [QUERY_KEY, "trash"],
+    queryFn: fetchTrashedSpaces,
+  });
+}
+
+/**
+ * 還原 Space mutation
+ */
+export function useRestoreSpace() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => restoreSpace(id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
     },
   });
 }
+
+/**
+ * 批次匯入 Space mutation（dryRun 時不會讓快取失效）
+ */
+export function useImportSpaces() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ file, dryRun }: { file: File; dryRun: boolean }) =>
+      importSpaces(file, { dryRun }),
+    onSuccess: (result) => {
+      if (!result.dryRun)
+        queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
+    },
+  });
+}
+
+/**
+ * 取得 Space 的預約規則
+ */
+export function useSpaceRules(id: string) {
+  return useQuery({
+    queryKey: [QUERY_KEY, id, "rules"],
+    queryFn: () => fetchSpaceRules(id),
+    enabled: !!id,
+  });
+}
+
+/**
+ * 更新預約規則 mutation
+ */
+export function useUpdateSpaceRules() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: UpdateSpaceRulesInput }) =>
+      updateSpaceRules(id, input),
+    onSuccess: (rules) => {
+      queryClient.setQueryData([QUERY_KEY, rules.spaceId, "rules"], rules);
+    },
+  });
+}
+
+/**
+ * 取得 Space 的停用時段
+ */
+export function useBlackouts(id: string) {
+  return useQuery({
+    queryKey: [QUERY_KEY, id, "blackouts"],
+    queryFn: () => fetchBlackouts(id),
+    enabled: !!id,
+  });
+}
+
+/**
+ * 新增停用時段 mutation
+ */
+export function useCreateBlackout() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: CreateBlackoutInput }) =>
+      createBlackout(id, input),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEY, id, "blackouts"] });
+    },
+  });
+}
+
+/**
+ * 刪除停用時段 mutation
+ */
+export function useDeleteBlackout() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, blackoutId }: { id: string; blackoutId: string }) =>
+      deleteBlackout(id, blackoutId),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEY, id, "blackouts"] });
+    },
+  });
+}
@@ -0,0 +1,43 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchWaitlist, joinWaitlist, leaveWaitlist } from "../services";
+import type { JoinWaitlistInput } from "../types";
+
+const QUERY_KEY = "waitlist";
+
+/**
+ * 取得自己的候補登記
+ */
+export function useWaitlist() {
+  return useQuery({
+    queryKey: [QUERY_KEY],
+    queryFn: () => fetchWaitlist(),
+  });
+}
+
+/**
+ * 登記候補 mutation
+ */
+export function useJoinWaitlist() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: JoinWaitlistInput) => joinWaitlist(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
+    },
+  });
+}
+
+/**
+ * 離開候補 mutation
+ */
+export function useLeaveWaitlist() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => leaveWaitlist(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEY] });
+    },
+  });
+}
@@ -0,0 +1,98 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  createWebhook,
+  deleteWebhook,
+  fetchWebhookDeliveries,
+  fetchWebhooks,
+  redeliverWebhook,
+  updateWebhook,
+} from "../services";
+import type { WebhookDeliveryQuery } from "../services";
+import type { CreateWebhookInput, UpdateWebhookInput } from "../types";
+
+const QUERY_KEY = ["webhooks"];
+
+/**
+ * 取得所有 webhook 訂閱
+ */
+export function useWebhooks() {
+  return useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: fetchWebhooks,
+  });
+}
+
+/**
+ * 取得訂閱的送出紀錄；有待送出的項目時定期重新整理
+ */
+export function useWebhookDeliveries(
+  id: string,
+  query: WebhookDeliveryQuery = {}
+) {
+  return useQuery({
+    queryKey: [...QUERY_KEY, id, "deliveries", query],
+    queryFn: () => fetchWebhookDeliveries(id, query),
+    refetchInterval: (q) =>
+      q.state.data?.some((d) => d.status === "pending") ? 5000 : false,
+  });
+}
+
+/**
+ * 新增 webhook 訂閱 mutation
+ */
+export function useCreateWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateWebhookInput) => createWebhook(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * 更新 webhook 訂閱 mutation
+ */
+export function useUpdateWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: UpdateWebhookInput }) =>
+      updateWebhook(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * 刪除 webhook 訂閱 mutation
+ */
+export function useDeleteWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteWebhook(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+    },
+  });
+}
+
+/**
+ * 重新送出 mutation
+ */
+export function useRedeliverWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, deliveryId }: { id: string; deliveryId: string }) =>
+      redeliverWebhook(id, deliveryId),
+    onSuccess: (_delivery, { id }) => {
+      queryClient.invalidateQueries({
+        queryKey: [...QUERY_KEY, id, "deliveries"],
+      });
+    },
+  });
+}
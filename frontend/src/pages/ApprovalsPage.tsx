@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { SpaceName, StatusBadge } from "../components";
+import { useDecideReservation, useReservations } from "../hooks";
+import { parseApiError } from "../services";
+import { useToastStore } from "../stores";
+import type { Reservation } from "../types";
+
+type Tab = "inbox" | "mine";
+
+const tabLabels: Record<Tab, string> = {
+  inbox: "待審核",
+  mine: "我的申請",
+};
+
+export function ApprovalsPage() {
+  const [tab, setTab] = useState<Tab>("inbox");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const {
+    data: reservations,
+    isLoading,
+    isError,
+    error,
+  } = useReservations(
+    tab === "inbox" ? { scope: "inbox", status: "pending" } : { scope: "mine" }
+  );
+  const decideMutation = useDecideReservation();
+  const showToast = useToastStore((s) => s.showToast);
+
+  const pending = tab === "inbox" ? (reservations ?? []) : [];
+  const allSelected =
+    pending.length > 0 && pending.every((r) => selected.has(r.id));
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const switchTab = (next: Tab) => {
+    setTab(next);
+    setSelected(new Set());
+  };
+
+  // 逐筆送出，部分失敗（例如已被他人處理）時仍保留成功的結果
+  const decide = async (
+    decision: "approve" | "reject",
+    targets: Reservation[]
+  ) => {
+    const reason = prompt(
+      decision === "approve"
+        ? `核准 ${targets.length} 筆申請，備註（可留空）：`
+        : `駁回 ${targets.length} 筆申請，請填寫原因：`
+    );
+    if (reason === null) return;
+    if (decision === "reject" && !reason.trim()) {
+      alert("駁回必須填寫原因");
+      return;
+    }
+
+    const results = await Promise.allSettled(
+      targets.map((r) =>
+        decideMutation.mutateAsync({ id: r.id, decision, reason })
+      )
+    );
+    const failed = results.flatMap((result, i) =>
+      result.status === "rejected"
+        ? [`${targets[i].title}：${parseApiError(result.reason).message}`]
+        : []
+    );
+    const done = targets.length - failed.length;
+    setSelected(new Set());
+    if (done > 0)
+      showToast(`已${decision === "approve" ? "核准" : "駁回"} ${done} 筆申請`);
+    if (failed.length > 0) alert(`以下申請未能處理：\n${failed.join("\n")}`);
+  };
+
+  const selectedReservations = pending.filter((r) => selected.has(r.id));
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-extrabold text-gray-900">預約審核</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            需審核的空間，申請在核准前會暫時保留時段；逾時未審核或到了開始時間即失效。
+          </p>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          {(Object.keys(tabLabels) as Tab[]).map((t) => (
+            <button
+              key={t}
+              onClick={() => switchTab(t)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                tab === t
+                  ? "bg-blue-50 text-blue-700"
+                  : "text-gray-600 hover:bg-gray-100"
+              }`}
+            >
+              {tabLabels[t]}
+            </button>
+          ))}
+        </div>
+
+        {/* Bulk Actions */}
+        {pending.length > 0 && (
+          <div className="flex items-center gap-3 mb-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={() =>
+                  setSelected(
+                    allSelected ? new Set() : new Set(pending.map((r) => r.id))
+                  )
+                }
+              />
+              全選
+            </label>
+            <button
+              onClick={() => decide("approve", selectedReservations)}
+              disabled={
+                selectedReservations.length === 0 || decideMutation.isPending
+              }
+              className="px-3 py-1.5 text-sm bg-green-50 text-green-700 rounded-lg hover:bg-green-100 transition-colors disabled:opacity-50"
+            >
+              核准所選（{selectedReservations.length}）
+            </button>
+            <button
+              onClick={() => decide("reject", selectedReservations)}
+              disabled={
+                selectedReservations.length === 0 || decideMutation.isPending
+              }
+              className="px-3 py-1.5 text-sm bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors disabled:opacity-50"
+            >
+              駁回所選（{selectedReservations.length}）
+            </button>
+          </div>
+        )}
+
+        {/* Loading */}
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-500 border-t-transparent"></div>
+          </div>
+        )}
+
+        {/* Error */}
+        {isError && (
+          <div className="rounded-lg bg-red-50 p-4 border border-red-100 text-center">
+            <p className="text-red-600">{parseApiError(error).message}</p>
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+          {reservations && reservations.length === 0 && (
+            <div className="p-8 text-center text-gray-500">
+              {tab === "inbox" ? "目前沒有待審核的申請" : "目前沒有預約申請"}
+            </div>
+          )}
+
+          {reservations && reservations.length > 0 && (
+            <div className="divide-y divide-gray-100">
+              {reservations.map((reservation) => (
+                <div
+                  key={reservation.id}
+                  className="p-4 flex items-center gap-4 hover:bg-gray-50 transition-colors"
+                >
+                  {tab === "inbox" && (
+                    <input
+                      type="checkbox"
+                      checked={selected.has(reservation.id)}
+                      onChange={() => toggle(reservation.id)}
+                    />
+                  )}
+                  <div className="flex-1">
+                    <h3 className="font-semibold text-gray-900">
+                      {reservation.title}
+                      <span className="ml-2">
+                        <StatusBadge status={reservation.status} />
+                      </span>
+                    </h3>
+                    <p className="text-sm text-gray-500">
+                      <SpaceName id={reservation.spaceId} /> ·{" "}
+                      {reservation.attendees} 人
+                    </p>
+                    <p className="text-xs text-gray-400 mt-2 font-mono">
+                      {new Date(reservation.startAt).toLocaleString()} –{" "}
+                      {new Date(reservation.endAt).toLocaleTimeString()}
+                      {reservation.status === "pending" &&
+                        ` · 審核期限: ${new Date(reservation.expiresAt).toLocaleString()}`}
+                    </p>
+                    {reservation.reason && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        審核意見：{reservation.reason}
+                      </p>
+                    )}
+                  </div>
+                  {tab === "inbox" && (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => decide("approve", [reservation])}
+                        disabled={decideMutation.isPending}
+                        className="px-3 py-1.5 text-sm bg-green-50 text-green-700 rounded-lg hover:bg-green-100 transition-colors disabled:opacity-50"
+                      >
+                        核准
+                      </button>
+                      <button
+                        onClick={() => decide("reject", [reservation])}
+                        disabled={decideMutation.isPending}
+                        className="px-3 py-1.5 text-sm bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors disabled:opacity-50"
+                      >
+                        駁回
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
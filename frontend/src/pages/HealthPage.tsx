@@ -1,11 +1,52 @@
 import { useHealth } from "../hooks";
+import type { DependencyHealth, ReadinessStatus } from "../types";
+
+const statusView: Record<
+  ReadinessStatus,
+  { icon: string; label: string; circle: string; text: string; badge: string }
+> = {
+  ready: {
+    icon: "✅",
+    label: "All systems operational",
+    circle: "bg-green-100",
+    text: "text-green-700",
+    badge: "bg-green-50 text-green-700 ring-green-600/20",
+  },
+  degraded: {
+    icon: "⚠️",
+    label: "Degraded",
+    circle: "bg-amber-100",
+    text: "text-amber-700",
+    badge: "bg-amber-50 text-amber-700 ring-amber-600/20",
+  },
+  unavailable: {
+    icon: "❌",
+    label: "Service unavailable",
+    circle: "bg-red-100",
+    text: "text-red-700",
+    badge: "bg-red-50 text-red-700 ring-red-600/20",
+  },
+};
+
+const detailLabels: Record<string, string> = {
+  connectionLimit: "pool size",
+  activeConnections: "active",
+  idleConnections: "idle",
+  pendingRequests: "waiting",
+};
+
+function formatUptime(seconds: number) {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  return h > 0 ? `${h}h ${m}m` : `${m}m ${seconds % 60}s`;
+}
 
 export function HealthPage() {
-  const { data, isLoading, isError, error } = useHealth();
+  const { data, isLoading, isError, error, isFetching } = useHealth();
 
   return (
     <div className="flex min-h-screen flex-col items-center justify-center bg-gray-50 p-4">
-      <div className="w-full max-w-md rounded-2xl bg-white p-8 shadow-xl border border-gray-100 text-center transition-all hover:shadow-2xl">
+      <div className="w-full max-w-lg rounded-2xl bg-white p-8 shadow-xl border border-gray-100 text-center transition-all hover:shadow-2xl">
         <h1 className="text-3xl font-extrabold text-gray-900 mb-6 tracking-tight">
           System Status
         </h1>
@@ -39,25 +80,77 @@ export function HealthPage() {
         {/* STATE: SUCCESS */}
         {data && (
           <div className="space-y-4">
-            <div className="mx-auto flex h-16 w-16 items-center justify-center rounded-full bg-green-100">
-              <span className="text-3xl">✅</span>
+            <div
+              className={`mx-auto flex h-16 w-16 items-center justify-center rounded-full ${statusView[data.status].circle}`}
+            >
+              <span className="text-3xl">{statusView[data.status].icon}</span>
             </div>
 
             <div>
-              <h2 className="text-xl font-bold text-green-700">
-                {data.message}
+              <h2
+                className={`text-xl font-bold ${statusView[data.status].text}`}
+              >
+                {statusView[data.status].label}
               </h2>
               <p className="text-sm text-gray-400 mt-1 font-mono">
-                Server Time: {new Date(data.timestamp).toLocaleTimeString()}
+                Checked: {new Date(data.checkedAt).toLocaleTimeString()} ·
+                Uptime: {formatUptime(data.uptimeSeconds)}
               </p>
             </div>
 
-            <div className="inline-flex items-center rounded-full bg-green-50 px-3 py-1 text-xs font-medium text-green-700 ring-1 ring-inset ring-green-600/20">
+            <div
+              className={`inline-flex items-center rounded-full px-3 py-1 text-xs font-medium ring-1 ring-inset ${statusView[data.status].badge}`}
+            >
               Status: {data.status}
             </div>
+
+            <div className="divide-y divide-gray-100 rounded-lg border border-gray-100 text-left">
+              {data.dependencies.map((dependency) => (
+                <DependencyRow key={dependency.name} dependency={dependency} />
+              ))}
+            </div>
+
+            <p className="text-xs text-gray-400">
+              {isFetching ? "Refreshing..." : "Refreshes every 10 seconds"}
+            </p>
           </div>
         )}
       </div>
     </div>
   );
 }
+
+function DependencyRow({ dependency }: { dependency: DependencyHealth }) {
+  const up = dependency.status === "up";
+
+  return (
+    <div className="p-3">
+      <div className="flex items-center justify-between gap-3">
+        <span className="flex items-center gap-2 font-medium text-gray-900">
+          <span
+            className={`h-2.5 w-2.5 rounded-full ${up ? "bg-green-500" : "bg-red-500"}`}
+          />
+          {dependency.name}
+          {!dependency.critical && (
+            <span className="text-xs font-normal text-gray-400">optional</span>
+          )}
+        </span>
+        <span className="font-mono text-sm text-gray-500">
+          {dependency.latencyMs} ms
+        </span>
+      </div>
+      {dependency.error && (
+        <p className="mt-1 text-xs text-red-600 break-all">
+          {dependency.error}
+        </p>
+      )}
+      {dependency.details && (
+        <p className="mt-1 text-xs text-gray-500 font-mono">
+          {Object.entries(dependency.details)
+            .map(([key, value]) => `${detailLabels[key] ?? key}: ${value}`)
+            .join(" · ")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { useLogin, useRegister } from "../hooks";
+import { parseApiError } from "../services";
+import { useAuthStore } from "../stores";
+
+export function LoginPage() {
+  const location = useLocation();
+  const token = useAuthStore((s) => s.token);
+  const loginMutation = useLogin();
+  const registerMutation = useRegister();
+
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [formData, setFormData] = useState({
+    email: "",
+    name: "",
+    password: "",
+  });
+
+  // 登入後回到原本要去的頁面
+  if (token) {
+    const from = (location.state as { from?: string } | null)?.from ?? "/";
+    return <Navigate to={from} replace />;
+  }
+
+  const mutation = mode === "login" ? loginMutation : registerMutation;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === "login") {
+      loginMutation.mutate({
+        email: formData.email,
+        password: formData.password,
+      });
+    } else {
+      registerMutation.mutate(formData);
+    }
+  };
+
+  return (
+    <div className="flex min-h-[calc(100vh-4rem)] items-center justify-center bg-gray-50 p-4">
+      <div className="w-full max-w-md rounded-2xl bg-white p-8 shadow-xl border border-gray-100">
+        <h1 className="text-3xl font-extrabold text-gray-900 mb-6 tracking-tight text-center">
+          {mode === "login" ? "登入" : "註冊帳號"}
+        </h1>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Email
+            </label>
+            <input
+              type="email"
+              value={formData.email}
+              onChange={(e) =>
+                setFormData({ ...formData, email: e.target.value })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              required
+            />
+          </div>
+          {mode === "register" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                名稱
+              </label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData({ ...formData, name: e.target.value })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                required
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              密碼
+            </label>
+            <input
+              type="password"
+              value={formData.password}
+              onChange={(e) =>
+                setFormData({ ...formData, password: e.target.value })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              minLength={mode === "register" ? 8 : undefined}
+              required
+            />
+          </div>
+
+          {mutation.isError && (
+            <p className="text-sm text-red-600">
+              {parseApiError(mutation.error).message}
+            </p>
+          )}
+
+          <button
+            type="submit"
+            disabled={mutation.isPending}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+          >
+            {mutation.isPending
+              ? "處理中..."
+              : mode === "login"
+                ? "登入"
+                : "註冊並登入"}
+          </button>
+        </form>
+
+        <p className="mt-6 text-center text-sm text-gray-500">
+          {mode === "login" ? "還沒有帳號？" : "已經有帳號？"}
+          <button
+            type="button"
+            onClick={() => {
+              setMode(mode === "login" ? "register" : "login");
+              mutation.reset();
+            }}
+            className="ml-1 text-blue-600 hover:underline"
+          >
+            {mode === "login" ? "註冊" : "登入"}
+          </button>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import {
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+} from "../hooks";
+import { parseApiError } from "../services";
+import { useToastStore } from "../stores";
+import type {
+  DomainEventType,
+  NotificationLocale,
+  NotificationPreferences,
+} from "../types";
+
+const eventLabels: Record<DomainEventType, string> = {
+  "space.created": "新增空間",
+  "space.updated": "空間資料變更",
+  "space.deleted": "空間被刪除",
+  "space.restored": "空間從垃圾桶復原",
+};
+
+const localeLabels: Record<NotificationLocale, string> = {
+  "zh-TW": "繁體中文",
+  en: "English",
+};
+
+export function NotificationsPage() {
+  const {
+    data: preferences,
+    isLoading,
+    isError,
+    error,
+  } = useNotificationPreferences();
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-extrabold text-gray-900">通知設定</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            選擇要以 email 接收哪些事件；自己做的變更不會通知自己。
+          </p>
+        </div>
+
+        {/* Loading */}
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-500 border-t-transparent"></div>
+          </div>
+        )}
+
+        {/* Error */}
+        {isError && (
+          <div className="rounded-lg bg-red-50 p-4 border border-red-100 text-center">
+            <p className="text-red-600">{parseApiError(error).message}</p>
+          </div>
+        )}
+
+        {preferences && <PreferencesForm preferences={preferences} />}
+      </div>
+    </div>
+  );
+}
+
+function PreferencesForm({
+  preferences,
+}: {
+  preferences: NotificationPreferences;
+}) {
+  const updateMutation = useUpdateNotificationPreferences();
+  const showToast = useToastStore((s) => s.showToast);
+  const [draft, setDraft] = useState(preferences);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleEvent = (type: DomainEventType, checked: boolean) =>
+    setDraft({
+      ...draft,
+      events: checked
+        ? [...draft.events, type]
+        : draft.events.filter((t) => t !== type),
+    });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await updateMutation.mutateAsync(draft);
+      showToast("已儲存通知設定");
+    } catch (err) {
+      setError(parseApiError(err).message);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-6"
+    >
+      <label className="flex items-center gap-2 font-medium text-gray-900">
+        <input
+          type="checkbox"
+          checked={draft.emailEnabled}
+          onChange={(e) =>
+            setDraft({ ...draft, emailEnabled: e.target.checked })
+          }
+        />
+        以 email 接收通知
+      </label>
+
+      <fieldset disabled={!draft.emailEnabled} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            信件語言
+          </label>
+          <select
+            value={draft.locale}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                locale: e.target.value as NotificationLocale,
+              })
+            }
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none disabled:opacity-50"
+          >
+            {(Object.keys(localeLabels) as NotificationLocale[]).map(
+              (locale) => (
+                <option key={locale} value={locale}>
+                  {localeLabels[locale]}
+                </option>
+              )
+            )}
+          </select>
+        </div>
+
+        <div>
+          <span className="block text-sm font-medium text-gray-700 mb-1">
+            通知我以下事件
+          </span>
+          <div className="space-y-1">
+            {(Object.keys(eventLabels) as DomainEventType[]).map((type) => (
+              <label
+                key={type}
+                className="flex items-center gap-2 text-sm text-gray-700"
+              >
+                <input
+                  type="checkbox"
+                  checked={draft.events.includes(type)}
+                  onChange={(e) => toggleEvent(type, e.target.checked)}
+                />
+                {eventLabels[type]}
+              </label>
+            ))}
+          </div>
+        </div>
+      </fieldset>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={updateMutation.isPending}
+        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+      >
+        {updateMutation.isPending ? "儲存中..." : "儲存設定"}
+      </button>
+    </form>
+  );
+}
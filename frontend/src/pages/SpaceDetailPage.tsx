@@ -0,0 +1,69 @@
+import { Link, useParams } from "react-router-dom";
+import { useSpace, useSpaceHistory } from "../hooks";
+import { HistoryTimeline } from "../components";
+import { parseApiError } from "../services";
+
+export function SpaceDetailPage() {
+  const { id = "" } = useParams();
+  const { data: space, isLoading, isError, error } = useSpace(id);
+  const history = useSpaceHistory(id);
+  const events = history.data?.pages.flatMap((page) => page.items);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-4xl mx-auto">
+        <Link to="/" className="text-sm text-blue-600 hover:underline">
+          ← 返回空間列表
+        </Link>
+
+        {/* Loading */}
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-500 border-t-transparent"></div>
+          </div>
+        )}
+
+        {/* Error */}
+        {isError && (
+          <div className="mt-4 rounded-lg bg-red-50 p-4 border border-red-100 text-center">
+            <p className="text-red-600">{parseApiError(error).message}</p>
+          </div>
+        )}
+
+        {space && (
+          <div className="mt-4 bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <h1 className="text-3xl font-extrabold text-gray-900">
+              {space.name}
+            </h1>
+            <p className="text-gray-600 mt-1">容量: {space.capacity} 人</p>
+            <p className="text-xs text-gray-400 mt-2 font-mono">
+              建立時間: {new Date(space.createdAt).toLocaleString()}
+              {" · "}
+              最後更新: {new Date(space.updatedAt).toLocaleString()}
+            </p>
+          </div>
+        )}
+
+        {/* History */}
+        <div className="mt-6 bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h2 className="text-lg font-bold text-gray-900 mb-4">變更紀錄</h2>
+          {history.isError && (
+            <p className="text-sm text-red-600">
+              {parseApiError(history.error).message}
+            </p>
+          )}
+          {events && <HistoryTimeline events={events} />}
+          {history.hasNextPage && (
+            <button
+              onClick={() => history.fetchNextPage()}
+              disabled={history.isFetchingNextPage}
+              className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              {history.isFetchingNextPage ? "載入中..." : "載入更早的紀錄"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
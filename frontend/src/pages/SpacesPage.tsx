@@ -1,203 +1,627 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
 import {
   useSpaces,
+  useSpaceListFilters,
   useCreateSpace,
   useUpdateSpace,
   useDeleteSpace,
+  useRestoreSpace,
+  useLocationTree,
+  useAmenities,
+  useCalendarToken,
 } from "../hooks";
-import type { Space, CreateSpaceInput, UpdateSpaceInput } from "../types";
+import {
+  AmenityChips,
+  AmenityFacets,
+  AvailabilityPanel,
+  BookingModal,
+  ImportSpacesModal,
+  LocationPicker,
+  LocationTree,
+  SpaceConflictPanel,
+  SpaceFilterBar,
+  SpaceRulesEditor,
+} from "../components";
+import {
+  allSpacesCalendarUrl,
+  conflictingSpace,
+  downloadSpaceExport,
+  floorLabels,
+  parseApiError,
+} from "../services";
+import type { ApiError } from "../services";
+import { canManageSpaces, useAuthStore, useToastStore } from "../stores";
+import type { BookingDraft } from "../components";
+import type {
+  Space,
+  CreateSpaceInput,
+  SpaceExportFormat,
+  UpdateSpaceInput,
+} from "../types";
+
+const UNPLACED = "未指定位置";
 
 export function SpacesPage() {
-  const { data: spaces, isLoading, isError, error } = useSpaces();
+  const { search, filters, setSearch } = useSpaceListFilters();
+  const {
+    data,
+    isLoading,
+    isError,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useSpaces(filters);
+  const spaces = data?.pages.flatMap((page) => page.items);
+  const total = data?.pages[0]?.total ?? 0;
   const createMutation = useCreateSpace();
   const updateMutation = useUpdateSpace();
   const deleteMutation = useDeleteSpace();
+  const restoreMutation = useRestoreSpace();
+  const { data: feedToken } = useCalendarToken();
+  const showToast = useToastStore((s) => s.showToast);
+  const canManage = canManageSpaces(useAuthStore((s) => s.user?.role));
+  const { data: locationTree } = useLocationTree();
+  const labels = useMemo(() => floorLabels(locationTree ?? []), [locationTree]);
+  const { data: amenities } = useAmenities();
+  const amenityNames = useMemo(
+    () => new Map(amenities?.map((a) => [a.key, a.name])),
+    [amenities]
+  );
+  const describeAmenities = (keys: string[]) =>
+    keys.map((key) => amenityNames.get(key) ?? key).join("、") || "無";
+  const selectedAmenities = search.amenities ? search.amenities.split(",") : [];
+  const describeFloor = (floorId: string | null) =>
+    (floorId && labels.get(floorId)) || UNPLACED;
+
+  // 依地點分組；組內維持列表排序，未指定位置的放最後
+  const groups = useMemo(() => {
+    const byLabel = new Map<string, Space[]>();
+    for (const space of spaces ?? []) {
+      const label = (space.floorId && labels.get(space.floorId)) || UNPLACED;
+      byLabel.set(label, [...(byLabel.get(label) ?? []), space]);
+    }
+    return [...byLabel].sort(([a], [b]) =>
+      a === UNPLACED ? 1 : b === UNPLACED ? -1 : a.localeCompare(b)
+    );
+  }, [spaces, labels]);
 
   // 表單狀態
   const [showForm, setShowForm] = useState(false);
   const [editingSpace, setEditingSpace] = useState<Space | null>(null);
+  // 編輯既有空間時才有「規則」分頁
+  const [formTab, setFormTab] = useState<"details" | "rules">("details");
   const [formData, setFormData] = useState<CreateSpaceInput>({
     name: "",
     capacity: 0,
+    floorId: null,
+    amenities: [],
+    requiresApproval: false,
   });
+  const [formError, setFormError] = useState<ApiError | null>(null);
+  // 儲存時發現伺服器版本較新，顯示並列比較讓使用者合併
+  const [conflict, setConflict] = useState<Space | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [bookingDraft, setBookingDraft] = useState<
+    BookingDraft | { space: Space } | null
+  >(null);
 
   // 開啟新增表單
   const handleCreate = () => {
     setEditingSpace(null);
-    setFormData({ name: "", capacity: 0 });
+    setFormData({
+      name: "",
+      capacity: 0,
+      // 已在樹狀選單選定樓層時，預設放在該樓層
+      floorId: search.floorId || null,
+      amenities: [],
+      requiresApproval: false,
+    });
+    setFormError(null);
+    setConflict(null);
+    setFormTab("details");
     setShowForm(true);
   };
 
   // 開啟編輯表單
   const handleEdit = (space: Space) => {
     setEditingSpace(space);
-    setFormData({ name: space.name, capacity: space.capacity });
+    setFormData({
+      name: space.name,
+      capacity: space.capacity,
+      floorId: space.floorId,
+      amenities: space.amenities,
+      requiresApproval: space.requiresApproval,
+    });
+    setFormError(null);
+    setConflict(null);
+    setFormTab("details");
     setShowForm(true);
   };
 
   // 提交表單
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (editingSpace) {
-      const input: UpdateSpaceInput = {};
-      if (formData.name !== editingSpace.name) input.name = formData.name;
-      if (formData.capacity !== editingSpace.capacity)
-        input.capacity = formData.capacity;
-      await updateMutation.mutateAsync({ id: editingSpace.id, input });
-    } else {
-      await createMutation.mutateAsync(formData);
+    setFormError(null);
+    setConflict(null);
+    try {
+      if (editingSpace) {
+        const input: UpdateSpaceInput = {};
+        if (formData.name !== editingSpace.name) input.name = formData.name;
+        if (formData.capacity !== editingSpace.capacity)
+          input.capacity = formData.capacity;
+        if ((formData.floorId ?? null) !== editingSpace.floorId)
+          input.floorId = formData.floorId ?? null;
+        const amenityKeys = [...(formData.amenities ?? [])].sort();
+        if (amenityKeys.join(",") !== editingSpace.amenities.join(","))
+          input.amenities = amenityKeys;
+        if (
+          (formData.requiresApproval ?? false) !== editingSpace.requiresApproval
+        )
+          input.requiresApproval = formData.requiresApproval;
+        await updateMutation.mutateAsync({
+          id: editingSpace.id,
+          input,
+          version: editingSpace.version,
+        });
+      } else {
+        await createMutation.mutateAsync(formData);
+      }
+    } catch (err) {
+      const apiError = parseApiError(err);
+      const current = conflictingSpace(apiError);
+      if (current) {
+        setConflict(current);
+        return;
+      }
+      // 欄位錯誤顯示在對應輸入框下方，其他錯誤顯示在表單底部
+      setFormError(apiError);
+      return;
     }
     setShowForm(false);
     setEditingSpace(null);
-    setFormData({ name: "", capacity: 0 });
+    setFormData({
+      name: "",
+      capacity: 0,
+      floorId: null,
+      amenities: [],
+      requiresApproval: false,
+    });
   };
 
-  // 刪除
-  const handleDelete = async (id: string) => {
-    if (confirm("確定要刪除這個空間嗎？")) {
-      await deleteMutation.mutateAsync(id);
+  // 刪除：移到垃圾桶，不再確認，改以提示訊息提供復原
+  const handleDelete = async (space: Space) => {
+    try {
+      await deleteMutation.mutateAsync({
+        id: space.id,
+        version: space.version,
+      });
+    } catch (err) {
+      alert(parseApiError(err).message);
+      return;
+    }
+    showToast(`已刪除「${space.name}」`, {
+      action: {
+        label: "復原",
+        onClick: () =>
+          restoreMutation.mutate(space.id, {
+            onError: (err) => alert(parseApiError(err).message),
+          }),
+      },
+    });
+  };
+
+  // 匯出
+  const handleExport = async (format: SpaceExportFormat) => {
+    try {
+      await downloadSpaceExport(format);
+    } catch (err) {
+      alert(parseApiError(err).message);
     }
   };
 
   return (
     <div className="min-h-screen bg-gray-50 p-8">
-      <div className="max-w-4xl mx-auto">
+      <div className="max-w-6xl mx-auto">
         {/* Header */}
         <div className="flex justify-between items-center mb-8">
           <h1 className="text-3xl font-extrabold text-gray-900">Spaces 管理</h1>
-          <button
-            onClick={handleCreate}
-            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
-          >
-            + 新增空間
-          </button>
+          <div className="flex gap-2">
+            <a
+              href={feedToken ? allSpacesCalendarUrl(feedToken) : undefined}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+            >
+              📅 全部行事曆
+            </a>
+            <select
+              value=""
+              onChange={(e) =>
+                handleExport(e.target.value as SpaceExportFormat)
+              }
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+            >
+              <option value="" disabled>
+                ⬇️ 匯出
+              </option>
+              <option value="csv">CSV</option>
+              <option value="json">JSON</option>
+            </select>
+            {canManage && (
+              <button
+                onClick={() => setShowImport(true)}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+              >
+                ⬆️ 匯入
+              </button>
+            )}
+            {canManage && (
+              <button
+                onClick={handleCreate}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+              >
+                + 新增空間
+              </button>
+            )}
+          </div>
         </div>
 
-        {/* Loading */}
-        {isLoading && (
-          <div className="flex justify-center py-12">
-            <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-500 border-t-transparent"></div>
-          </div>
-        )}
+        {/* Availability Search */}
+        <AvailabilityPanel onBook={setBookingDraft} />
 
-        {/* Error */}
-        {isError && (
-          <div className="rounded-lg bg-red-50 p-4 border border-red-100 text-center">
-            <p className="text-red-600">
-              {error instanceof Error ? error.message : "載入失敗"}
-            </p>
-          </div>
-        )}
+        <div className="flex gap-6 items-start">
+          {/* Location Navigator & Amenity Facets */}
+          <aside className="w-64 shrink-0 sticky top-8 space-y-4">
+            <LocationTree
+              value={search}
+              onChange={setSearch}
+              canManage={canManage}
+            />
+            <AmenityFacets
+              facets={data?.pages[0]?.facets.amenities}
+              value={selectedAmenities}
+              onChange={(keys) => setSearch({ amenities: keys.join(",") })}
+              canManage={canManage}
+            />
+          </aside>
+
+          <div className="flex-1 min-w-0">
+            {/* Filters & Sorting（與網址同步） */}
+            <SpaceFilterBar
+              key={[
+                search.name,
+                search.minCapacity,
+                search.maxCapacity,
+                search.createdFrom,
+                search.createdTo,
+              ].join("|")}
+              value={search}
+              onChange={setSearch}
+            />
 
-        {/* Space List */}
-        {spaces && (
-          <div className="space-y-4">
-            {spaces.length === 0 ? (
-              <div className="text-center py-12 text-gray-500">
-                尚無空間資料，點擊「新增空間」開始建立
+            {/* Loading */}
+            {isLoading && (
+              <div className="flex justify-center py-12">
+                <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-500 border-t-transparent"></div>
               </div>
-            ) : (
-              spaces.map((space) => (
-                <div
-                  key={space.id}
-                  className="bg-white rounded-xl p-6 shadow-md border border-gray-100 flex justify-between items-center hover:shadow-lg transition-shadow"
-                >
-                  <div>
-                    <h3 className="text-xl font-bold text-gray-900">
-                      {space.name}
-                    </h3>
-                    <p className="text-gray-500 mt-1">
-                      容量:{" "}
-                      <span className="font-medium">{space.capacity}</span> 人
-                    </p>
-                    <p className="text-xs text-gray-400 mt-2 font-mono">
-                      建立時間: {new Date(space.createdAt).toLocaleString()}
-                    </p>
+            )}
+
+            {/* Error */}
+            {isError && (
+              <div className="rounded-lg bg-red-50 p-4 border border-red-100 text-center">
+                <p className="text-red-600">{parseApiError(error).message}</p>
+              </div>
+            )}
+
+            {/* Space List */}
+            {spaces && (
+              <div className="space-y-4">
+                {spaces.length > 0 && (
+                  <p className="text-sm text-gray-500">
+                    共 {total} 個空間，已顯示 {spaces.length} 個
+                  </p>
+                )}
+                {spaces.length === 0 ? (
+                  <div className="text-center py-12 text-gray-500">
+                    {Object.values(filters).some((v) => v !== undefined)
+                      ? "沒有符合條件的空間"
+                      : canManage
+                        ? "尚無空間資料，點擊「新增空間」開始建立"
+                        : "尚無空間資料"}
                   </div>
-                  <div className="flex gap-2">
-                    <button
-                      onClick={() => handleEdit(space)}
-                      className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
-                    >
-                      編輯
-                    </button>
+                ) : (
+                  groups.map(([label, items]) => (
+                    <section key={label} className="space-y-4">
+                      <h2 className="text-sm font-semibold text-gray-600 pt-2">
+                        {label}
+                        <span className="ml-2 font-normal text-gray-400">
+                          {items.length}
+                        </span>
+                      </h2>
+                      {items.map((space) => (
+                        <div
+                          key={space.id}
+                          className="bg-white rounded-xl p-6 shadow-md border border-gray-100 flex justify-between items-center hover:shadow-lg transition-shadow"
+                        >
+                          <div>
+                            <h3 className="text-xl font-bold text-gray-900">
+                              <Link
+                                to={`/spaces/${space.id}`}
+                                className="hover:text-blue-700 hover:underline"
+                              >
+                                {space.name}
+                              </Link>
+                              {space.requiresApproval && (
+                                <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-50 text-amber-700 align-middle">
+                                  需審核
+                                </span>
+                              )}
+                            </h3>
+                            <p className="text-gray-500 mt-1">
+                              容量:{" "}
+                              <span className="font-medium">
+                                {space.capacity}
+                              </span>{" "}
+                              人
+                            </p>
+                            <AmenityChips
+                              keys={space.amenities}
+                              names={amenityNames}
+                            />
+                            <p className="text-xs text-gray-400 mt-2 font-mono">
+                              建立時間:{" "}
+                              {new Date(space.createdAt).toLocaleString()}
+                            </p>
+                          </div>
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => setBookingDraft({ space })}
+                              className="px-3 py-1.5 text-sm bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 transition-colors"
+                            >
+                              預約
+                            </button>
+                            {canManage && (
+                              <>
+                                <button
+                                  onClick={() => handleEdit(space)}
+                                  className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                                >
+                                  編輯
+                                </button>
+                                <button
+                                  onClick={() => handleDelete(space)}
+                                  disabled={deleteMutation.isPending}
+                                  className="px-3 py-1.5 text-sm bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors disabled:opacity-50"
+                                >
+                                  刪除
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </section>
+                  ))
+                )}
+                {hasNextPage && (
+                  <div className="flex justify-center pt-2">
                     <button
-                      onClick={() => handleDelete(space.id)}
-                      disabled={deleteMutation.isPending}
-                      className="px-3 py-1.5 text-sm bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors disabled:opacity-50"
+                      onClick={() => fetchNextPage()}
+                      disabled={isFetchingNextPage}
+                      className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium disabled:opacity-50"
                     >
-                      刪除
+                      {isFetchingNextPage ? "載入中..." : "載入更多"}
                     </button>
                   </div>
-                </div>
-              ))
+                )}
+              </div>
             )}
           </div>
+        </div>
+
+        {/* Import Wizard */}
+        {showImport && (
+          <ImportSpacesModal onClose={() => setShowImport(false)} />
+        )}
+
+        {/* Booking Modal */}
+        {bookingDraft && (
+          <BookingModal
+            space={bookingDraft.space}
+            defaults={"startAt" in bookingDraft ? bookingDraft : undefined}
+            onClose={() => setBookingDraft(null)}
+          />
         )}
 
         {/* Modal Form */}
         {showForm && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
-            <div className="bg-white rounded-2xl p-6 w-full max-w-md shadow-2xl">
+            <div className="bg-white rounded-2xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto shadow-2xl">
               <h2 className="text-2xl font-bold text-gray-900 mb-6">
                 {editingSpace ? "編輯空間" : "新增空間"}
               </h2>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    名稱
-                  </label>
-                  <input
-                    type="text"
-                    value={formData.name}
-                    onChange={(e) =>
-                      setFormData({ ...formData, name: e.target.value })
-                    }
-                    required
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
-                    placeholder="輸入空間名稱"
-                  />
+              {editingSpace && (
+                <div className="flex gap-4 border-b border-gray-200 mb-4 text-sm">
+                  {(
+                    [
+                      ["details", "基本資料"],
+                      ["rules", "規則"],
+                    ] as const
+                  ).map(([tab, label]) => (
+                    <button
+                      key={tab}
+                      type="button"
+                      onClick={() => setFormTab(tab)}
+                      className={`pb-2 -mb-px border-b-2 ${
+                        formTab === tab
+                          ? "border-blue-600 text-blue-700 font-medium"
+                          : "border-transparent text-gray-500 hover:text-gray-700"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
                 </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    容量
+              )}
+              {editingSpace && formTab === "rules" ? (
+                <SpaceRulesEditor
+                  spaceId={editingSpace.id}
+                  onClose={() => setShowForm(false)}
+                />
+              ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      名稱
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.name}
+                      onChange={(e) =>
+                        setFormData({ ...formData, name: e.target.value })
+                      }
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                      placeholder="輸入空間名稱"
+                    />
+                    {formError?.fieldErrors.name && (
+                      <p className="text-sm text-red-600 mt-1">
+                        {formError.fieldErrors.name}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      容量
+                    </label>
+                    <input
+                      type="number"
+                      value={formData.capacity}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          capacity: parseInt(e.target.value) || 0,
+                        })
+                      }
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                      placeholder="輸入容納人數"
+                    />
+                    {formError?.fieldErrors.capacity && (
+                      <p className="text-sm text-red-600 mt-1">
+                        {formError.fieldErrors.capacity}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      位置
+                    </label>
+                    <LocationPicker
+                      value={formData.floorId ?? null}
+                      onChange={(floorId) =>
+                        setFormData({ ...formData, floorId })
+                      }
+                    />
+                    {formError?.fieldErrors.floorId && (
+                      <p className="text-sm text-red-600 mt-1">
+                        {formError.fieldErrors.floorId}
+                      </p>
+                    )}
+                  </div>
+                  {amenities && amenities.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        設備
+                      </label>
+                      <div className="flex flex-wrap gap-x-4 gap-y-1">
+                        {amenities.map((amenity) => (
+                          <label
+                            key={amenity.key}
+                            className="flex items-center gap-1.5 text-sm text-gray-700"
+                          >
+                            <input
+                              type="checkbox"
+                              checked={
+                                formData.amenities?.includes(amenity.key) ??
+                                false
+                              }
+                              onChange={(e) => {
+                                const current = formData.amenities ?? [];
+                                setFormData({
+                                  ...formData,
+                                  amenities: e.target.checked
+                                    ? [...current, amenity.key]
+                                    : current.filter((k) => k !== amenity.key),
+                                });
+                              }}
+                            />
+                            {amenity.name}
+                          </label>
+                        ))}
+                      </div>
+                      {formError?.fieldErrors.amenities && (
+                        <p className="text-sm text-red-600 mt-1">
+                          {formError.fieldErrors.amenities}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.requiresApproval ?? false}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          requiresApproval: e.target.checked,
+                        })
+                      }
+                    />
+                    預約需經審核（審核者可在「規則」分頁指定）
                   </label>
-                  <input
-                    type="number"
-                    value={formData.capacity}
-                    onChange={(e) =>
-                      setFormData({
-                        ...formData,
-                        capacity: parseInt(e.target.value) || 0,
-                      })
-                    }
-                    required
-                    min="1"
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
-                    placeholder="輸入容納人數"
-                  />
-                </div>
-                <div className="flex gap-3 pt-4">
-                  <button
-                    type="button"
-                    onClick={() => setShowForm(false)}
-                    className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
-                  >
-                    取消
-                  </button>
-                  <button
-                    type="submit"
-                    disabled={
-                      createMutation.isPending || updateMutation.isPending
-                    }
-                    className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
-                  >
-                    {createMutation.isPending || updateMutation.isPending
-                      ? "儲存中..."
-                      : "儲存"}
-                  </button>
-                </div>
-              </form>
+                  {conflict && (
+                    <SpaceConflictPanel
+                      mine={formData}
+                      server={conflict}
+                      describeFloor={describeFloor}
+                      describeAmenities={describeAmenities}
+                      onResolve={(merged) => {
+                        // 以伺服器最新版本為基準，下次儲存只送出與它不同的欄位
+                        setEditingSpace(conflict);
+                        setFormData(merged);
+                        setConflict(null);
+                      }}
+                    />
+                  )}
+                  {formError &&
+                    Object.keys(formError.fieldErrors).length === 0 && (
+                      <p className="text-sm text-red-600">
+                        {formError.message}
+                      </p>
+                    )}
+                  <div className="flex gap-3 pt-4">
+                    <button
+                      type="button"
+                      onClick={() => setShowForm(false)}
+                      className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+                    >
+                      取消
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={
+                        createMutation.isPending || updateMutation.isPending
+                      }
+                      className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+                    >
+                      {createMutation.isPending || updateMutation.isPending
+                        ? "儲存中..."
+                        : "儲存"}
+                    </button>
+                  </div>
+                </form>
+              )}
             </div>
           </div>
         )}
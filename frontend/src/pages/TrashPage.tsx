@@ -0,0 +1,85 @@
+import { useRestoreSpace, useTrashedSpaces } from "../hooks";
+import { parseApiError } from "../services";
+import { useToastStore } from "../stores";
+import type { TrashedSpace } from "../types";
+
+export function TrashPage() {
+  const { data: spaces, isLoading, isError, error } = useTrashedSpaces();
+  const restoreMutation = useRestoreSpace();
+  const showToast = useToastStore((s) => s.showToast);
+
+  const handleRestore = async (space: TrashedSpace) => {
+    try {
+      await restoreMutation.mutateAsync(space.id);
+    } catch (err) {
+      alert(parseApiError(err).message);
+      return;
+    }
+    showToast(`已還原「${space.name}」`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-extrabold text-gray-900">垃圾桶</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            已刪除的空間會在保留期限後永久清除，期限內可以還原。
+          </p>
+        </div>
+
+        {/* Loading */}
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-500 border-t-transparent"></div>
+          </div>
+        )}
+
+        {/* Error */}
+        {isError && (
+          <div className="rounded-lg bg-red-50 p-4 border border-red-100 text-center">
+            <p className="text-red-600">{parseApiError(error).message}</p>
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+          {spaces && spaces.length === 0 && (
+            <div className="p-8 text-center text-gray-500">垃圾桶是空的</div>
+          )}
+
+          {spaces && spaces.length > 0 && (
+            <div className="divide-y divide-gray-100">
+              {spaces.map((space) => (
+                <div
+                  key={space.id}
+                  className="p-4 flex justify-between items-center hover:bg-gray-50 transition-colors"
+                >
+                  <div>
+                    <h3 className="font-semibold text-gray-900">
+                      {space.name}
+                    </h3>
+                    <p className="text-sm text-gray-500">
+                      容納人數: {space.capacity} 人
+                    </p>
+                    <p className="text-xs text-gray-400 mt-2 font-mono">
+                      刪除時間: {new Date(space.deletedAt).toLocaleString()}
+                      {" · "}
+                      永久清除: {new Date(space.purgeAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRestore(space)}
+                    disabled={restoreMutation.isPending}
+                    className="px-3 py-1.5 text-sm bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 transition-colors disabled:opacity-50"
+                  >
+                    還原
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
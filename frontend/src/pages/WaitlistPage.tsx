@@ -0,0 +1,127 @@
+import { Link } from "react-router-dom";
+import { SpaceName } from "../components";
+import { useLeaveWaitlist, useWaitlist } from "../hooks";
+import { parseApiError } from "../services";
+import { useToastStore } from "../stores";
+import type { WaitlistEntry, WaitlistStatus } from "../types";
+
+const statusLabels: Record<WaitlistStatus, string> = {
+  waiting: "候補中",
+  promoted: "已轉為預約",
+  expired: "已過期",
+  left: "已離開",
+};
+
+const statusClass: Record<WaitlistStatus, string> = {
+  waiting: "bg-amber-50 text-amber-700",
+  promoted: "bg-green-50 text-green-700",
+  expired: "bg-gray-100 text-gray-500",
+  left: "bg-gray-100 text-gray-500",
+};
+
+export function WaitlistPage() {
+  const { data: entries, isLoading, isError, error } = useWaitlist();
+  const leaveMutation = useLeaveWaitlist();
+  const showToast = useToastStore((s) => s.showToast);
+
+  const handleLeave = async (entry: WaitlistEntry) => {
+    if (!confirm(`確定要離開「${entry.title}」的候補嗎？`)) return;
+    try {
+      await leaveMutation.mutateAsync(entry.id);
+    } catch (err) {
+      alert(parseApiError(err).message);
+      return;
+    }
+    showToast("已離開候補");
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-extrabold text-gray-900">我的候補</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            時段空出時依登記先後自動轉為預約；開始時間（或指定的期限）一到即過期。
+          </p>
+        </div>
+
+        {/* Loading */}
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-500 border-t-transparent"></div>
+          </div>
+        )}
+
+        {/* Error */}
+        {isError && (
+          <div className="rounded-lg bg-red-50 p-4 border border-red-100 text-center">
+            <p className="text-red-600">{parseApiError(error).message}</p>
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+          {entries && entries.length === 0 && (
+            <div className="p-8 text-center text-gray-500">
+              目前沒有候補登記
+            </div>
+          )}
+
+          {entries && entries.length > 0 && (
+            <div className="divide-y divide-gray-100">
+              {entries.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="p-4 flex justify-between items-center hover:bg-gray-50 transition-colors"
+                >
+                  <div>
+                    <h3 className="font-semibold text-gray-900">
+                      {entry.title}
+                      <span
+                        className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${statusClass[entry.status]}`}
+                      >
+                        {statusLabels[entry.status]}
+                        {entry.position !== null &&
+                          ` · 第 ${entry.position} 順位`}
+                      </span>
+                    </h3>
+                    <p className="text-sm text-gray-500">
+                      {entry.spaceId ? (
+                        <SpaceName id={entry.spaceId} />
+                      ) : (
+                        `任何容納 ${entry.minCapacity} 人以上的空間`
+                      )}{" "}
+                      · {entry.attendees} 人
+                    </p>
+                    <p className="text-xs text-gray-400 mt-2 font-mono">
+                      {new Date(entry.startAt).toLocaleString()} –{" "}
+                      {new Date(entry.endAt).toLocaleTimeString()}
+                      {entry.status === "waiting" &&
+                        ` · 候補期限: ${new Date(entry.expiresAt).toLocaleString()}`}
+                    </p>
+                  </div>
+                  {entry.status === "waiting" && (
+                    <button
+                      onClick={() => handleLeave(entry)}
+                      disabled={leaveMutation.isPending}
+                      className="px-3 py-1.5 text-sm bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors disabled:opacity-50"
+                    >
+                      離開候補
+                    </button>
+                  )}
+                  {entry.status === "promoted" && entry.spaceId && (
+                    <Link
+                      to={`/spaces/${entry.spaceId}`}
+                      className="px-3 py-1.5 text-sm bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 transition-colors"
+                    >
+                      查看空間
+                    </Link>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,501 @@
+import { useState } from "react";
+import {
+  useCreateWebhook,
+  useDeleteWebhook,
+  useRedeliverWebhook,
+  useUpdateWebhook,
+  useWebhookDeliveries,
+  useWebhooks,
+} from "../hooks";
+import { parseApiError } from "../services";
+import { useToastStore } from "../stores";
+import type {
+  DomainEventType,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from "../types";
+
+const eventLabels: Record<DomainEventType, string> = {
+  "space.created": "新增空間",
+  "space.updated": "空間資料變更",
+  "space.deleted": "空間被刪除",
+  "space.restored": "空間從垃圾桶復原",
+};
+
+const deliveryLabels: Record<WebhookDeliveryStatus, string> = {
+  pending: "等待送出",
+  succeeded: "成功",
+  failed: "失敗",
+};
+
+const deliveryClass: Record<WebhookDeliveryStatus, string> = {
+  pending: "bg-amber-50 text-amber-700",
+  succeeded: "bg-green-50 text-green-700",
+  failed: "bg-red-50 text-red-600",
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none";
+
+// 32 個位元組的隨機 hex 字串，遠超過 backend 要求的 16 字元
+function generateSecret() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+interface WebhookDraft {
+  url: string;
+  description: string;
+  events: DomainEventType[];
+  secret: string;
+}
+
+export function WebhooksPage() {
+  const { data: webhooks, isLoading, isError, error } = useWebhooks();
+  const [creating, setCreating] = useState(false);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-extrabold text-gray-900">Webhooks</h1>
+            <p className="text-sm text-gray-500 mt-1">
+              空間異動時以 POST 通知外部服務。每個請求都帶有
+              X-Doublespot-Signature 標頭（t=時間戳,v1=HMAC-SHA256），
+              失敗會依退避時間重試，連續失敗過多會自動停用。
+            </p>
+          </div>
+          {!creating && (
+            <button
+              onClick={() => setCreating(true)}
+              className="shrink-0 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              新增 Webhook
+            </button>
+          )}
+        </div>
+
+        {creating && <CreateWebhookForm onDone={() => setCreating(false)} />}
+
+        {/* Loading */}
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-500 border-t-transparent"></div>
+          </div>
+        )}
+
+        {/* Error */}
+        {isError && (
+          <div className="rounded-lg bg-red-50 p-4 border border-red-100 text-center">
+            <p className="text-red-600">{parseApiError(error).message}</p>
+          </div>
+        )}
+
+        {webhooks && webhooks.length === 0 && !creating && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-8 text-center text-gray-500">
+            尚未設定任何 Webhook
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {webhooks?.map((webhook) => (
+            <WebhookCard key={webhook.id} webhook={webhook} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function WebhookFields({
+  draft,
+  onChange,
+  secretRequired,
+}: {
+  draft: WebhookDraft;
+  onChange: (draft: WebhookDraft) => void;
+  secretRequired: boolean;
+}) {
+  const toggleEvent = (type: DomainEventType, checked: boolean) =>
+    onChange({
+      ...draft,
+      events: checked
+        ? [...draft.events, type]
+        : draft.events.filter((t) => t !== type),
+    });
+
+  return (
+    <>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          目標 URL
+        </label>
+        <input
+          type="url"
+          required
+          value={draft.url}
+          onChange={(e) => onChange({ ...draft, url: e.target.value })}
+          placeholder="https://example.com/hooks/doublespot"
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          說明
+        </label>
+        <input
+          value={draft.description}
+          onChange={(e) => onChange({ ...draft, description: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-1">
+          訂閱事件
+        </span>
+        <div className="space-y-1">
+          {(Object.keys(eventLabels) as DomainEventType[]).map((type) => (
+            <label
+              key={type}
+              className="flex items-center gap-2 text-sm text-gray-700"
+            >
+              <input
+                type="checkbox"
+                checked={draft.events.includes(type)}
+                onChange={(e) => toggleEvent(type, e.target.checked)}
+              />
+              {eventLabels[type]}
+              <span className="font-mono text-xs text-gray-400">{type}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          簽章密鑰{!secretRequired && "（留空則不變更）"}
+        </label>
+        <div className="flex gap-2">
+          <input
+            required={secretRequired}
+            minLength={16}
+            value={draft.secret}
+            onChange={(e) => onChange({ ...draft, secret: e.target.value })}
+            className={`${inputClass} font-mono text-sm`}
+          />
+          <button
+            type="button"
+            onClick={() => onChange({ ...draft, secret: generateSecret() })}
+            className="shrink-0 px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            產生
+          </button>
+        </div>
+        <p className="text-xs text-gray-400 mt-1">
+          儲存後不會再顯示，請先複製到接收端。
+        </p>
+      </div>
+    </>
+  );
+}
+
+function CreateWebhookForm({ onDone }: { onDone: () => void }) {
+  const createMutation = useCreateWebhook();
+  const showToast = useToastStore((s) => s.showToast);
+  const [draft, setDraft] = useState<WebhookDraft>({
+    url: "",
+    description: "",
+    events: [],
+    secret: generateSecret(),
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await createMutation.mutateAsync(draft);
+      showToast("已新增 Webhook");
+      onDone();
+    } catch (err) {
+      setError(parseApiError(err).message);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4 mb-6"
+    >
+      <WebhookFields draft={draft} onChange={setDraft} secretRequired />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={createMutation.isPending}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {createMutation.isPending ? "建立中..." : "建立"}
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          className="px-4 py-2 text-gray-600 rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          取消
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function WebhookCard({ webhook }: { webhook: Webhook }) {
+  const updateMutation = useUpdateWebhook();
+  const deleteMutation = useDeleteWebhook();
+  const showToast = useToastStore((s) => s.showToast);
+  const [editing, setEditing] = useState(false);
+  const [showDeliveries, setShowDeliveries] = useState(false);
+
+  const setActive = async (active: boolean) => {
+    try {
+      await updateMutation.mutateAsync({ id: webhook.id, input: { active } });
+      showToast(active ? "已啟用 Webhook" : "已停用 Webhook");
+    } catch (err) {
+      alert(parseApiError(err).message);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`確定要刪除 ${webhook.url}？送出紀錄也會一併刪除。`)) return;
+    try {
+      await deleteMutation.mutateAsync(webhook.id);
+      showToast("已刪除 Webhook");
+    } catch (err) {
+      alert(parseApiError(err).message);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <h3 className="font-semibold text-gray-900 break-all">
+            {webhook.url}
+            <span
+              className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${
+                webhook.active
+                  ? "bg-green-50 text-green-700"
+                  : "bg-gray-100 text-gray-500"
+              }`}
+            >
+              {webhook.active ? "啟用中" : "已停用"}
+            </span>
+          </h3>
+          {webhook.description && (
+            <p className="text-sm text-gray-500">{webhook.description}</p>
+          )}
+          <p className="text-xs text-gray-400 mt-2 font-mono">
+            {webhook.events.join(", ")}
+            {webhook.consecutiveFailures > 0 &&
+              ` · 連續失敗 ${webhook.consecutiveFailures} 次`}
+          </p>
+          {webhook.disabledReason && (
+            <p className="text-xs text-red-600 mt-1">
+              {webhook.disabledAt &&
+                `${new Date(webhook.disabledAt).toLocaleString()} `}
+              自動停用：{webhook.disabledReason}
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <button
+            onClick={() => setActive(!webhook.active)}
+            disabled={updateMutation.isPending}
+            className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            {webhook.active ? "停用" : "啟用"}
+          </button>
+          <button
+            onClick={() => setEditing(!editing)}
+            className="px-3 py-1.5 text-sm text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+          >
+            編輯
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={deleteMutation.isPending}
+            className="px-3 py-1.5 text-sm bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors disabled:opacity-50"
+          >
+            刪除
+          </button>
+        </div>
+      </div>
+
+      {editing && (
+        <EditWebhookForm webhook={webhook} onDone={() => setEditing(false)} />
+      )}
+
+      <button
+        onClick={() => setShowDeliveries(!showDeliveries)}
+        className="mt-4 text-sm text-blue-600 hover:underline"
+      >
+        {showDeliveries ? "隱藏送出紀錄" : "查看送出紀錄"}
+      </button>
+      {showDeliveries && <DeliveryLog webhook={webhook} />}
+    </div>
+  );
+}
+
+function EditWebhookForm({
+  webhook,
+  onDone,
+}: {
+  webhook: Webhook;
+  onDone: () => void;
+}) {
+  const updateMutation = useUpdateWebhook();
+  const showToast = useToastStore((s) => s.showToast);
+  const [draft, setDraft] = useState<WebhookDraft>({
+    url: webhook.url,
+    description: webhook.description,
+    events: webhook.events,
+    secret: "",
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const { secret, ...rest } = draft;
+    try {
+      await updateMutation.mutateAsync({
+        id: webhook.id,
+        input: secret ? { ...rest, secret } : rest,
+      });
+      showToast("已更新 Webhook");
+      onDone();
+    } catch (err) {
+      setError(parseApiError(err).message);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="mt-4 pt-4 border-t border-gray-100 space-y-4"
+    >
+      <WebhookFields draft={draft} onChange={setDraft} secretRequired={false} />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={updateMutation.isPending}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {updateMutation.isPending ? "儲存中..." : "儲存"}
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          className="px-4 py-2 text-gray-600 rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          取消
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function DeliveryLog({ webhook }: { webhook: Webhook }) {
+  const {
+    data: deliveries,
+    isLoading,
+    isError,
+    error,
+  } = useWebhookDeliveries(webhook.id);
+  const redeliverMutation = useRedeliverWebhook();
+  const showToast = useToastStore((s) => s.showToast);
+
+  const redeliver = async (delivery: WebhookDelivery) => {
+    try {
+      await redeliverMutation.mutateAsync({
+        id: webhook.id,
+        deliveryId: delivery.id,
+      });
+      showToast("已排入重新傳送");
+    } catch (err) {
+      alert(parseApiError(err).message);
+    }
+  };
+
+  if (isLoading) return <p className="mt-2 text-sm text-gray-500">載入中...</p>;
+  if (isError)
+    return (
+      <p className="mt-2 text-sm text-red-600">
+        {parseApiError(error).message}
+      </p>
+    );
+  if (!deliveries || deliveries.length === 0)
+    return <p className="mt-2 text-sm text-gray-500">尚無送出紀錄</p>;
+
+  return (
+    <div className="mt-2 divide-y divide-gray-100 border border-gray-100 rounded-lg">
+      {deliveries.map((delivery) => (
+        <div key={delivery.id} className="p-3 flex items-start gap-3 text-sm">
+          <span
+            className={`px-2 py-0.5 rounded-full text-xs font-medium ${deliveryClass[delivery.status]}`}
+          >
+            {deliveryLabels[delivery.status]}
+          </span>
+          <div className="flex-1 min-w-0">
+            <p className="text-gray-900">
+              <span className="font-mono">{delivery.eventType}</span>
+              {delivery.responseStatus !== null && (
+                <span className="ml-2 font-mono text-gray-500">
+                  HTTP {delivery.responseStatus}
+                </span>
+              )}
+              {delivery.durationMs !== null && (
+                <span className="ml-2 text-gray-400">
+                  {delivery.durationMs} ms
+                </span>
+              )}
+              {delivery.redeliveryOfId && (
+                <span className="ml-2 text-xs text-gray-400">重新傳送</span>
+              )}
+            </p>
+            <p className="text-xs text-gray-400 font-mono">
+              {new Date(delivery.createdAt).toLocaleString()} · 嘗試{" "}
+              {delivery.attempts} 次
+              {delivery.status === "pending" &&
+                delivery.attempts > 0 &&
+                ` · 下次重試: ${new Date(delivery.nextAttemptAt).toLocaleString()}`}
+            </p>
+            {delivery.error && (
+              <p className="text-xs text-red-600 mt-1 break-all">
+                {delivery.error}
+              </p>
+            )}
+          </div>
+          {delivery.status !== "pending" && (
+            <button
+              onClick={() => redeliver(delivery)}
+              disabled={redeliverMutation.isPending || !webhook.active}
+              className="shrink-0 px-3 py-1.5 text-xs text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors disabled:opacity-50"
+            >
+              重新傳送
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,2 +1,9 @@
 export { HealthPage } from "./HealthPage";
 export { SpacesPage } from "./SpacesPage";
+export { LoginPage } from "./LoginPage";
+export { TrashPage } from "./TrashPage";
+export { SpaceDetailPage } from "./SpaceDetailPage";
+export { WaitlistPage } from "./WaitlistPage";
+export { ApprovalsPage } from "./ApprovalsPage";
+export { NotificationsPage } from "./NotificationsPage";
+export { WebhooksPage } from "./WebhooksPage";
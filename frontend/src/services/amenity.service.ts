@@ -0,0 +1,32 @@
+import { api } from "./api";
+import type { Amenity, CreateAmenityInput } from "../types";
+
+const ENDPOINT = "/amenities";
+
+/**
+ * 取得設備清單
+ * 對應 backend GET /api/amenities
+ */
+export async function fetchAmenities(): Promise<Amenity[]> {
+  const { data } = await api.get<Amenity[]>(ENDPOINT);
+  return data;
+}
+
+/**
+ * 新增設備
+ * 對應 backend POST /api/amenities
+ */
+export async function createAmenity(
+  input: CreateAmenityInput
+): Promise<Amenity> {
+  const { data } = await api.post<Amenity>(ENDPOINT, input);
+  return data;
+}
+
+/**
+ * 刪除設備（仍有空間使用時 backend 回傳 409）
+ * 對應 backend DELETE /api/amenities/:id
+ */
+export async function deleteAmenity(id: string): Promise<void> {
+  await api.delete(`${ENDPOINT}/${id}`);
+}
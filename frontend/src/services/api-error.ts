@@ -0,0 +1,99 @@
+import axios from "axios";
+import type {
+  ApiErrorBody,
+  RuleViolation,
+  Space,
+  SpaceImportResult,
+} from "../types";
+
+/**
+ * 解析後的 API 錯誤，讓畫面可以依 code 判斷並顯示欄位錯誤
+ */
+export class ApiError extends Error {
+  readonly status: number | undefined;
+  readonly code: string;
+  readonly details: ApiErrorBody["details"];
+  readonly requestId: string | undefined;
+
+  constructor(
+    message: string,
+    options: {
+      status?: number;
+      code: string;
+      details?: ApiErrorBody["details"];
+      requestId?: string;
+    }
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = options.status;
+    this.code = options.code;
+    this.details = options.details;
+    this.requestId = options.requestId;
+  }
+
+  /** 欄位名稱 -> 錯誤訊息 */
+  get fieldErrors(): Record<string, string> {
+    return this.details?.fields ?? {};
+  }
+}
+
+function isErrorBody(data: unknown): data is ApiErrorBody {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    typeof (data as ApiErrorBody).code === "string" &&
+    typeof (data as ApiErrorBody).message === "string"
+  );
+}
+
+/**
+ * 將任何錯誤（axios、網路、程式錯誤）轉成 ApiError
+ */
+export function parseApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data;
+    if (isErrorBody(data)) {
+      return new ApiError(data.message, {
+        status: error.response?.status,
+        code: data.code,
+        details: data.details,
+        requestId: data.requestId,
+      });
+    }
+    return new ApiError(error.response ? error.message : "無法連線到伺服器", {
+      status: error.response?.status,
+      code: error.response ? "HTTP_ERROR" : "NETWORK_ERROR",
+    });
+  }
+
+  return new ApiError(error instanceof Error ? error.message : "操作失敗", {
+    code: "UNKNOWN_ERROR",
+  });
+}
+
+/**
+ * 412 版本衝突時 backend 附上的伺服器目前資料；其他錯誤回傳 undefined
+ */
+export function conflictingSpace(error: ApiError): Space | undefined {
+  if (error.code !== "PRECONDITION_FAILED") return undefined;
+  return error.details?.current as Space | undefined;
+}
+
+/**
+ * 正式匯入時有列未通過檢查（IMPORT_INVALID），backend 附上的逐列結果
+ */
+export function rejectedImport(error: ApiError): SpaceImportResult | undefined {
+  if (error.code !== "IMPORT_INVALID") return undefined;
+  return error.details?.result as SpaceImportResult | undefined;
+}
+
+/**
+ * 預約違反空間規則（BOOKING_RULE_VIOLATION）時，backend 附上的違規清單
+ */
+export function ruleViolations(error: ApiError): RuleViolation[] {
+  if (error.code !== "BOOKING_RULE_VIOLATION") return [];
+  return (error.details?.violations as RuleViolation[] | undefined) ?? [];
+}
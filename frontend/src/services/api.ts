@@ -1,4 +1,5 @@
-import axios from "axios";
+import axios, { type InternalAxiosRequestConfig } from "axios";
+import { useAuthStore } from "../stores";
 
 /**
  * Axios 實例，統一管理 API 請求
@@ -10,3 +11,111 @@ export const api = axios.create({
     "Content-Type": "application/json",
   },
 });
+
+// 帶上登入 token
+api.interceptors.request.use((config) => {
+  const token = useAuthStore.getState().token;
+  if (token) config.headers.Authorization = `Bearer ${token}`;
+  return config;
+});
+
+// backend 對這些寫入支援 Idempotency-Key：同一把 key 重送只會執行一次
+const IDEMPOTENT_METHODS = new Set(["post", "patch", "delete"]);
+
+// 進行中的寫入（內容 -> key），連點兩下送出相同內容時共用同一把 key
+const pendingKeys = new Map<string, string>();
+
+function mutationOf(config: InternalAxiosRequestConfig) {
+  return JSON.stringify([
+    config.method,
+    config.url,
+    config.params,
+    config.data,
+  ]);
+}
+
+// 自動帶上 Idempotency-Key；重試同一個 config 時沿用原本的 key
+api.interceptors.request.use((config) => {
+  const method = config.method?.toLowerCase();
+  if (
+    method &&
+    IDEMPOTENT_METHODS.has(method) &&
+    !config.headers["Idempotency-Key"]
+  ) {
+    const mutation = mutationOf(config);
+    const key = pendingKeys.get(mutation) ?? crypto.randomUUID();
+    pendingKeys.set(mutation, key);
+    config.headers["Idempotency-Key"] = key;
+  }
+  return config;
+});
+
+// 請求有確定結果（2xx 或 4xx）後，下一次相同內容的寫入視為新的操作
+// （此時 config.data 已序列化，所以依 key 找回）
+function releaseKey(config?: InternalAxiosRequestConfig) {
+  const key = config?.headers["Idempotency-Key"];
+  if (!key) return;
+  inProgressRetries.delete(String(key));
+  for (const [mutation, pending] of pendingKeys)
+    if (pending === key) pendingKeys.delete(mutation);
+}
+
+// 同一把 key 的前一個請求還在處理時，backend 回 409 IDEMPOTENCY_KEY_IN_USE；
+// 稍後以同一把 key 重送，就會拿到前一個請求的回應，而不是顯示錯誤
+const IN_PROGRESS_MAX_RETRIES = 5;
+const IN_PROGRESS_RETRY_DELAY_MS = 300;
+const inProgressRetries = new Map<string, number>();
+
+function retryWhenInProgress(error: unknown) {
+  if (
+    !axios.isAxiosError(error) ||
+    !error.config ||
+    error.response?.status !== 409 ||
+    error.response.data?.code !== "IDEMPOTENCY_KEY_IN_USE"
+  )
+    return null;
+  const key = String(error.config.headers["Idempotency-Key"]);
+  const attempt = (inProgressRetries.get(key) ?? 0) + 1;
+  if (attempt > IN_PROGRESS_MAX_RETRIES) {
+    // 放棄這一輪；使用者再送出時沿用同一把 key，再重新計算次數
+    inProgressRetries.delete(key);
+    return null;
+  }
+  inProgressRetries.set(key, attempt);
+  const config = error.config;
+  return new Promise((resolve) =>
+    setTimeout(resolve, attempt * IN_PROGRESS_RETRY_DELAY_MS)
+  ).then(() => api.request(config));
+}
+
+// 逾時、斷線或 5xx 時無法確定 backend 是否已執行，保留 key，
+// 使用者重送相同內容時 backend 會回放第一次的結果而不是再執行一次；
+// 前一個請求仍在處理中（IDEMPOTENCY_KEY_IN_USE）也一樣
+function keepsKey(error: unknown) {
+  if (!axios.isAxiosError(error) || !error.response) return true;
+  return (
+    error.response.status >= 500 ||
+    error.response.data?.code === "IDEMPOTENCY_KEY_IN_USE"
+  );
+}
+
+// token 失效（過期或已登出）時清除登入狀態，RequireAuth 會導回登入頁
+api.interceptors.response.use(
+  (response) => {
+    releaseKey(response.config);
+    return response;
+  },
+  (error) => {
+    const retry = retryWhenInProgress(error);
+    if (retry) return retry;
+    if (axios.isAxiosError(error) && !keepsKey(error)) releaseKey(error.config);
+    if (
+      axios.isAxiosError(error) &&
+      error.response?.status === 401 &&
+      !error.config?.url?.startsWith("/auth/login")
+    ) {
+      useAuthStore.getState().clearSession();
+    }
+    return Promise.reject(error);
+  }
+);
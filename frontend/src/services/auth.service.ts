@@ -0,0 +1,39 @@
+import { api } from "./api";
+import type { LoginInput, LoginResult, RegisterInput, User } from "../types";
+
+const ENDPOINT = "/auth";
+
+/**
+ * 登入
+ * 對應 backend POST /api/auth/login
+ */
+export async function login(input: LoginInput): Promise<LoginResult> {
+  const { data } = await api.post<LoginResult>(`${ENDPOINT}/login`, input);
+  return data;
+}
+
+/**
+ * 註冊（第一個註冊的帳號會成為 admin）
+ * 對應 backend POST /api/auth/register
+ */
+export async function register(input: RegisterInput): Promise<User> {
+  const { data } = await api.post<User>(`${ENDPOINT}/register`, input);
+  return data;
+}
+
+/**
+ * 登出（後端會讓所有已發出的 token 失效）
+ * 對應 backend POST /api/auth/logout
+ */
+export async function logout(): Promise<void> {
+  await api.post(`${ENDPOINT}/logout`);
+}
+
+/**
+ * 取得目前登入的使用者
+ * 對應 backend GET /api/auth/me
+ */
+export async function fetchMe(): Promise<User> {
+  const { data } = await api.get<User>(`${ENDPOINT}/me`);
+  return data;
+}
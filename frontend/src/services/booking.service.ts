@@ -0,0 +1,89 @@
+import { api } from "./api";
+import type {
+  Booking,
+  CreateBookingInput,
+  CreateRecurringBookingInput,
+  OccurrenceScope,
+  RecurringBookingResult,
+  UpdateBookingInput,
+} from "../types";
+
+const ENDPOINT = "/bookings";
+
+/**
+ * 取得某個 Space 的預約
+ * 對應 backend GET /api/spaces/:id/bookings
+ */
+export async function fetchSpaceBookings(spaceId: string): Promise<Booking[]> {
+  const { data } = await api.get<Booking[]>(`/spaces/${spaceId}/bookings`);
+  return data;
+}
+
+/**
+ * 預約 Space
+ * 對應 backend POST /api/spaces/:id/bookings
+ */
+export async function createBooking(
+  spaceId: string,
+  input: CreateBookingInput
+): Promise<Booking> {
+  const { data } = await api.post<Booking>(
+    `/spaces/${spaceId}/bookings`,
+    input
+  );
+  return data;
+}
+
+/**
+ * 建立重複預約
+ * 對應 backend POST /api/spaces/:id/bookings/recurring
+ */
+export async function createRecurringBooking(
+  spaceId: string,
+  input: CreateRecurringBookingInput
+): Promise<RecurringBookingResult> {
+  const { data } = await api.post<RecurringBookingResult>(
+    `/spaces/${spaceId}/bookings/recurring`,
+    input
+  );
+  return data;
+}
+
+/**
+ * 改期 / 更新預約
+ * 對應 backend PATCH /api/bookings/:id
+ */
+export async function updateBooking(
+  id: string,
+  input: UpdateBookingInput
+): Promise<Booking> {
+  const { data } = await api.patch<Booking>(`${ENDPOINT}/${id}`, input);
+  return data;
+}
+
+/**
+ * 修改此次與之後的重複預約（後端會拆分系列）
+ * 對應 backend PATCH /api/bookings/:id?scope=following
+ */
+export async function updateFollowingBookings(
+  id: string,
+  input: UpdateBookingInput & { skipConflicts?: boolean }
+): Promise<RecurringBookingResult> {
+  const { data } = await api.patch<RecurringBookingResult>(
+    `${ENDPOINT}/${id}`,
+    input,
+    { params: { scope: "following" } }
+  );
+  return data;
+}
+
+/**
+ * 取消預約（重複預約可選擇取消此次與之後）
+ * 對應 backend DELETE /api/bookings/:id?scope=this|following
+ */
+export async function cancelBooking(
+  id: string,
+  scope: OccurrenceScope = "this"
+): Promise<void> {
+  await api.delete(`${ENDPOINT}/${id}`, { params: { scope } });
+}
@@ -0,0 +1,65 @@
+import { api } from "./api";
+import type { CalendarImportResult, CalendarToken } from "../types";
+
+/**
+ * 行事曆軟體無法帶 Authorization header，改以 ?token= 帶上訂閱專用 token
+ * （不可放登入 token，訂閱網址會被分享並長期存在行事曆軟體中）
+ */
+function withFeedToken(path: string, feedToken: string): string {
+  const url = new URL(path, window.location.origin);
+  url.searchParams.set("token", feedToken);
+  return url.toString();
+}
+
+/**
+ * 取得目前使用者的行事曆訂閱 token（重設前都不變）
+ * 對應 backend GET /api/auth/calendar-token
+ */
+export async function fetchCalendarToken(): Promise<string> {
+  const { data } = await api.get<CalendarToken>("/auth/calendar-token");
+  return data.token;
+}
+
+/**
+ * 重設行事曆訂閱 token，舊的訂閱網址會全部失效
+ * 對應 backend POST /api/auth/calendar-token
+ */
+export async function rotateCalendarToken(): Promise<string> {
+  const { data } = await api.post<CalendarToken>("/auth/calendar-token");
+  return data.token;
+}
+
+/**
+ * 單一 Space 的 iCalendar 訂閱網址
+ * 對應 backend GET /api/spaces/:id/calendar.ics
+ */
+export function spaceCalendarUrl(spaceId: string, feedToken: string): string {
+  return withFeedToken(`/api/spaces/${spaceId}/calendar.ics`, feedToken);
+}
+
+/**
+ * 所有 Space 的 iCalendar 訂閱網址
+ * 對應 backend GET /api/spaces/calendar.ics
+ */
+export function allSpacesCalendarUrl(feedToken: string): string {
+  return withFeedToken("/api/spaces/calendar.ics", feedToken);
+}
+
+/**
+ * 匯入 .ics 檔建立預約
+ * 對應 backend POST /api/spaces/:id/calendar/import
+ */
+export async function importSpaceCalendar(
+  spaceId: string,
+  file: File
+): Promise<CalendarImportResult> {
+  const { data } = await api.post<CalendarImportResult>(
+    `/spaces/${spaceId}/calendar/import`,
+    await file.text(),
+    {
+      headers: { "Content-Type": "text/calendar" },
+      params: { tz: Intl.DateTimeFormat().resolvedOptions().timeZone },
+    }
+  );
+  return data;
+}
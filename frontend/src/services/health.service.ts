@@ -3,10 +3,12 @@ import type { HealthResponse } from "../types";
 
 /**
  * 健康檢查 API
- * 對應 backend GET /
- * 注意：健康檢查在根路徑，需要去掉 /api 前綴
+ * 對應 backend GET /api/health/ready
+ * 必要服務異常時回傳 503，但內容一樣是各服務的檢查結果
  */
 export async function fetchHealth(): Promise<HealthResponse> {
-  const { data } = await api.get<HealthResponse>("/health");
+  const { data } = await api.get<HealthResponse>("/health/ready", {
+    validateStatus: (status) => status === 200 || status === 503,
+  });
   return data;
 }
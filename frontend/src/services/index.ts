@@ -1,3 +1,13 @@
 export * from "./api";
 export * from "./health.service";
 export * from "./space.service";
+export * from "./booking.service";
+export * from "./calendar.service";
+export * from "./auth.service";
+export * from "./api-error";
+export * from "./location.service";
+export * from "./amenity.service";
+export * from "./waitlist.service";
+export * from "./reservation.service";
+export * from "./notification.service";
+export * from "./webhook.service";
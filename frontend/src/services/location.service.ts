@@ -0,0 +1,87 @@
+import { api } from "./api";
+import type {
+  Building,
+  CreateBuildingInput,
+  CreateFloorInput,
+  CreateSiteInput,
+  Floor,
+  LocationKind,
+  LocationTree,
+  Site,
+} from "../types";
+
+const ENDPOINT = "/locations";
+
+const PATHS: Record<LocationKind, string> = {
+  site: `${ENDPOINT}/sites`,
+  building: `${ENDPOINT}/buildings`,
+  floor: `${ENDPOINT}/floors`,
+};
+
+/**
+ * 取得所有據點、建築與樓層
+ * 對應 backend GET /api/locations
+ */
+export async function fetchLocationTree(): Promise<LocationTree> {
+  const { data } = await api.get<LocationTree>(ENDPOINT);
+  return data;
+}
+
+/**
+ * 建立據點 / 建築 / 樓層
+ * 對應 backend POST /api/locations/{sites,buildings,floors}
+ */
+export async function createLocation(
+  kind: "site",
+  input: CreateSiteInput
+): Promise<Site>;
+export async function createLocation(
+  kind: "building",
+  input: CreateBuildingInput
+): Promise<Building>;
+export async function createLocation(
+  kind: "floor",
+  input: CreateFloorInput
+): Promise<Floor>;
+export async function createLocation(
+  kind: LocationKind,
+  input: CreateSiteInput | CreateBuildingInput | CreateFloorInput
+) {
+  const { data } = await api.post(PATHS[kind], input);
+  return data;
+}
+
+/**
+ * 重新命名據點 / 建築 / 樓層
+ * 對應 backend PATCH /api/locations/{sites,buildings,floors}/:id
+ */
+export async function renameLocation(
+  kind: LocationKind,
+  id: string,
+  name: string
+): Promise<void> {
+  await api.patch(`${PATHS[kind]}/${id}`, { name });
+}
+
+/**
+ * 刪除據點 / 建築 / 樓層（仍有下層項目時 backend 回傳 409）
+ * 對應 backend DELETE /api/locations/{sites,buildings,floors}/:id
+ */
+export async function deleteLocation(
+  kind: LocationKind,
+  id: string
+): Promise<void> {
+  await api.delete(`${PATHS[kind]}/${id}`);
+}
+
+/**
+ * 樓層 id 對應「據點 › 建築 › 樓層」顯示名稱
+ */
+export function floorLabels(tree: LocationTree): Map<string, string> {
+  const labels = new Map<string, string>();
+  for (const site of tree)
+    for (const building of site.buildings)
+      for (const floor of building.floors)
+        labels.set(floor.id, `${site.name} › ${building.name} › ${floor.name}`);
+  return labels;
+}
@@ -0,0 +1,27 @@
+import { api } from "./api";
+import type {
+  NotificationPreferences,
+  UpdateNotificationPreferences,
+} from "../types";
+
+const ENDPOINT = "/notifications/preferences";
+
+/**
+ * 取得自己的通知偏好
+ * 對應 backend GET /api/notifications/preferences
+ */
+export async function fetchNotificationPreferences(): Promise<NotificationPreferences> {
+  const { data } = await api.get<NotificationPreferences>(ENDPOINT);
+  return data;
+}
+
+/**
+ * 整批更新通知偏好
+ * 對應 backend PUT /api/notifications/preferences
+ */
+export async function updateNotificationPreferences(
+  input: UpdateNotificationPreferences
+): Promise<NotificationPreferences> {
+  const { data } = await api.put<NotificationPreferences>(ENDPOINT, input);
+  return data;
+}
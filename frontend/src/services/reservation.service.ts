@@ -0,0 +1,91 @@
+import { api } from "./api";
+import type {
+  Approver,
+  CreateReservationInput,
+  Reservation,
+  ReservationStatus,
+  UpdateApproversInput,
+} from "../types";
+
+const ENDPOINT = "/reservations";
+
+export interface ReservationQuery {
+  // mine：自己送出的申請；inbox：自己可以審核的申請
+  scope: "mine" | "inbox";
+  status?: ReservationStatus;
+  spaceId?: string;
+}
+
+/**
+ * 取得預約申請
+ * 對應 backend GET /api/reservations
+ */
+export async function fetchReservations(
+  query: ReservationQuery
+): Promise<Reservation[]> {
+  const { data } = await api.get<Reservation[]>(ENDPOINT, { params: query });
+  return data;
+}
+
+/**
+ * 對需審核的空間送出預約申請
+ * 對應 backend POST /api/reservations
+ */
+export async function createReservation(
+  input: CreateReservationInput
+): Promise<Reservation> {
+  const { data } = await api.post<Reservation>(ENDPOINT, input);
+  return data;
+}
+
+/**
+ * 核准申請（會建立正式預約）
+ * 對應 backend POST /api/reservations/:id/approve
+ */
+export async function approveReservation(
+  id: string,
+  reason?: string
+): Promise<Reservation> {
+  const { data } = await api.post<Reservation>(`${ENDPOINT}/${id}/approve`, {
+    reason,
+  });
+  return data;
+}
+
+/**
+ * 駁回申請（必須附上原因）
+ * 對應 backend POST /api/reservations/:id/reject
+ */
+export async function rejectReservation(
+  id: string,
+  reason: string
+): Promise<Reservation> {
+  const { data } = await api.post<Reservation>(`${ENDPOINT}/${id}/reject`, {
+    reason,
+  });
+  return data;
+}
+
+/**
+ * 取得空間的審核者
+ * 對應 backend GET /api/spaces/:id/approvers
+ */
+export async function fetchApprovers(spaceId: string): Promise<Approver[]> {
+  const { data } = await api.get<Approver[]>(`/spaces/${spaceId}/approvers`);
+  return data;
+}
+
+/**
+ * 以 email 整批設定空間的審核者
+ * 對應 backend PUT /api/spaces/:id/approvers
+ */
+export async function updateApprovers(
+  spaceId: string,
+  input: UpdateApproversInput
+): Promise<Approver[]> {
+  const { data } = await api.put<Approver[]>(
+    `/spaces/${spaceId}/approvers`,
+    input
+  );
+  return data;
+}
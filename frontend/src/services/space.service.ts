@@ -1,14 +1,36 @@
 import { api } from "./api";
-import type { Space, CreateSpaceInput, UpdateSpaceInput } from "../types";
+import type {
+  Space,
+  SpaceListFilters,
+  SpacePage,
+  TrashedSpace,
+  CreateSpaceInput,
+  UpdateSpaceInput,
+  AvailabilityQuery,
+  AvailabilityResult,
+  SpaceSearchResult,
+  AuditPage,
+  SpaceExportFormat,
+  SpaceImportResult,
+  SpaceRules,
+  UpdateSpaceRulesInput,
+  Blackout,
+  CreateBlackoutInput,
+} from "../types";
 
 const ENDPOINT = "/spaces";
 
 /**
- * 取得所有 Space
+ * 分頁取得 Space（cursor 為上一頁的 nextCursor）
  * 對應 backend GET /api/spaces
  */
-export async function fetchSpaces(): Promise<Space[]> {
-  const { data } = await api.get<Space[]>(ENDPOINT);
+export async function fetchSpaces(
+  filters: SpaceListFilters,
+  page: { cursor?: string; limit?: number } = {}
+): Promise<SpacePage> {
+  const { data } = await api.get<SpacePage>(ENDPOINT, {
+    params: { ...filters, ...page },
+  });
   return data;
 }
 
@@ -21,6 +43,34 @@ export async function fetchSpaceById(id: string): Promise<Space> {
   return data;
 }
 
+/**
+ * 查詢指定時段與人數可用的 Space
+ * 對應 backend GET /api/spaces/availability
+ */
+export async function fetchAvailability(
+  query: AvailabilityQuery
+): Promise<AvailabilityResult> {
+  const { data } = await api.get<AvailabilityResult>(
+    `${ENDPOINT}/availability`,
+    { params: query }
+  );
+  return data;
+}
+
+/**
+ * 以關鍵字模糊搜尋 Space（名稱與地點，容許錯字）
+ * 對應 backend GET /api/spaces/search
+ */
+export async function searchSpaces(
+  q: string,
+  limit?: number
+): Promise<SpaceSearchResult> {
+  const { data } = await api.get<SpaceSearchResult>(`${ENDPOINT}/search`, {
+    params: { q, limit },
+  });
+  return data;
+}
+
 /**
  * 建立 Space
  * 對應 backend POST /api/spaces
@@ -31,21 +81,172 @@ export async function createSpace(input: CreateSpaceInput): Promise<Space> {
 }
 
 /**
- * 更新 Space
+ * 帶上讀取時的版本（If-Match），版本過期時 backend 回傳 412
+ */
+function ifMatch(version?: number) {
+  return version === undefined ? {} : { "If-Match": `"${version}"` };
+}
+
+/**
+ * 更新 Space；傳入 version 時只會覆寫該版本
  * 對應 backend PATCH /api/spaces/:id
  */
 export async function updateSpace(
   id: string,
-  input: UpdateSpaceInput
+  input: UpdateSpaceInput,
+  version?: number
 ): Promise<Space> {
-  const { data } = await api.patch<Space>(`${ENDPOINT}/${id}`, input);
+  const { data } = await api.patch<Space>(`${ENDPOINT}/${id}`, input, {
+    headers: ifMatch(version),
+  });
   return data;
 }
 
 /**
- * 刪除 Space
+ * 刪除 Space（移到垃圾桶，保留期限內可還原）；傳入 version 時只會刪除該版本
  * 對應 backend DELETE /api/spaces/:id
  */
-export async function deleteSpace(id: string): Promise<void> {
-  await api.delete(`${ENDPOINT}/${id}`);
+export async function deleteSpace(id: string, version?: number): Promise<void> {
+  await api.delete(`${ENDPOINT}/${id}`, { headers: ifMatch(version) });
+}
+
+/**
+ * 取得垃圾桶中的 Space
+ * 對應 backend GET /api/spaces/trash
+ */
+export async function fetchTrashedSpaces(): Promise<TrashedSpace[]> {
+  const { data } = await api.get<TrashedSpace[]>(`${ENDPOINT}/trash`);
+  return data;
+}
+
+/**
+ * 從垃圾桶還原 Space
+ * 對應 backend POST /api/spaces/:id/restore
+ */
+export async function restoreSpace(id: string): Promise<Space> {
+  const { data } = await api.post<Space>(`${ENDPOINT}/${id}/restore`);
+  return data;
+}
+
+/**
+ * 分頁取得 Space 的變更紀錄（由新到舊）
+ * 對應 backend GET /api/spaces/:id/history
+ */
+export async function fetchSpaceHistory(
+  id: string,
+  page: { cursor?: string; limit?: number } = {}
+): Promise<AuditPage> {
+  const { data } = await api.get<AuditPage>(`${ENDPOINT}/${id}/history`, {
+    params: page,
+  });
+  return data;
+}
+
+/**
+ * 批次匯入 Space（CSV 需有標題列；JSON 為物件陣列），dryRun 時只檢查不寫入
+ * 對應 backend POST /api/spaces/import
+ */
+export async function importSpaces(
+  file: File,
+  options: { dryRun: boolean }
+): Promise<SpaceImportResult> {
+  const text = await file.text();
+  const isJson =
+    file.type === "application/json" ||
+    file.name.toLowerCase().endsWith(".json");
+  let body: unknown = text;
+  if (isJson) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new Error("JSON 檔案格式錯誤");
+    }
+  }
+  const { data } = await api.post<SpaceImportResult>(
+    `${ENDPOINT}/import`,
+    body,
+    {
+      headers: { "Content-Type": isJson ? "application/json" : "text/csv" },
+      params: { dryRun: options.dryRun },
+    }
+  );
+  return data;
+}
+
+/**
+ * 下載全部 Space（需帶登入 token，因此以 blob 取得後再觸發下載）
+ * 對應 backend GET /api/spaces/export
+ */
+export async function downloadSpaceExport(
+  format: SpaceExportFormat
+): Promise<void> {
+  const { data, headers } = await api.get<Blob>(`${ENDPOINT}/export`, {
+    params: { format },
+    responseType: "blob",
+  });
+  const filename =
+    /filename="?([^";]+)"?/.exec(String(headers["content-disposition"]))?.[1] ??
+    `spaces.${format}`;
+  const url = URL.createObjectURL(data);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * 取得 Space 的預約規則
+ * 對應 backend GET /api/spaces/:id/rules
+ */
+export async function fetchSpaceRules(id: string): Promise<SpaceRules> {
+  const { data } = await api.get<SpaceRules>(`${ENDPOINT}/${id}/rules`);
+  return data;
+}
+
+/**
+ * 整份取代 Space 的預約規則
+ * 對應 backend PUT /api/spaces/:id/rules
+ */
+export async function updateSpaceRules(
+  id: string,
+  input: UpdateSpaceRulesInput
+): Promise<SpaceRules> {
+  const { data } = await api.put<SpaceRules>(`${ENDPOINT}/${id}/rules`, input);
+  return data;
+}
+
+/**
+ * 取得 Space 的停用時段
+ * 對應 backend GET /api/spaces/:id/blackouts
+ */
+export async function fetchBlackouts(id: string): Promise<Blackout[]> {
+  const { data } = await api.get<Blackout[]>(`${ENDPOINT}/${id}/blackouts`);
+  return data;
+}
+
+/**
+ * 新增停用時段
+ * 對應 backend POST /api/spaces/:id/blackouts
+ */
+export async function createBlackout(
+  id: string,
+  input: CreateBlackoutInput
+): Promise<Blackout> {
+  const { data } = await api.post<Blackout>(
+    `${ENDPOINT}/${id}/blackouts`,
+    input
+  );
+  return data;
+}
+
+/**
+ * 刪除停用時段
+ * 對應 backend DELETE /api/spaces/:id/blackouts/:blackoutId
+ */
+export async function deleteBlackout(
+  id: string,
+  blackoutId: string
+): Promise<void> {
+  await api.delete(`${ENDPOINT}/${id}/blackouts/${blackoutId}`);
 }
@@ -0,0 +1,40 @@
+import { api } from "./api";
+import type {
+  JoinWaitlistInput,
+  WaitlistEntry,
+  WaitlistStatus,
+} from "../types";
+
+const ENDPOINT = "/waitlist";
+
+/**
+ * 取得自己的候補登記（新到舊）
+ * 對應 backend GET /api/waitlist
+ */
+export async function fetchWaitlist(
+  status?: WaitlistStatus
+): Promise<WaitlistEntry[]> {
+  const { data } = await api.get<WaitlistEntry[]>(ENDPOINT, {
+    params: { status },
+  });
+  return data;
+}
+
+/**
+ * 登記候補（時段仍有空位時 backend 回傳 409 SLOT_AVAILABLE）
+ * 對應 backend POST /api/waitlist
+ */
+export async function joinWaitlist(
+  input: JoinWaitlistInput
+): Promise<WaitlistEntry> {
+  const { data } = await api.post<WaitlistEntry>(ENDPOINT, input);
+  return data;
+}
+
+/**
+ * 離開候補
+ * 對應 backend DELETE /api/waitlist/:id
+ */
+export async function leaveWaitlist(id: string): Promise<void> {
+  await api.delete(`${ENDPOINT}/${id}`);
+}
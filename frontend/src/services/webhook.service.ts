@@ -0,0 +1,84 @@
+import { api } from "./api";
+import type {
+  CreateWebhookInput,
+  UpdateWebhookInput,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from "../types";
+
+const ENDPOINT = "/webhooks";
+
+export interface WebhookDeliveryQuery {
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+}
+
+/**
+ * 取得所有 webhook 訂閱
+ * 對應 backend GET /api/webhooks
+ */
+export async function fetchWebhooks(): Promise<Webhook[]> {
+  const { data } = await api.get<Webhook[]>(ENDPOINT);
+  return data;
+}
+
+/**
+ * 新增 webhook 訂閱
+ * 對應 backend POST /api/webhooks
+ */
+export async function createWebhook(
+  input: CreateWebhookInput
+): Promise<Webhook> {
+  const { data } = await api.post<Webhook>(ENDPOINT, input);
+  return data;
+}
+
+/**
+ * 更新 webhook 訂閱
+ * 對應 backend PATCH /api/webhooks/:id
+ */
+export async function updateWebhook(
+  id: string,
+  input: UpdateWebhookInput
+): Promise<Webhook> {
+  const { data } = await api.patch<Webhook>(`${ENDPOINT}/${id}`, input);
+  return data;
+}
+
+/**
+ * 刪除 webhook 訂閱與其送出紀錄
+ * 對應 backend DELETE /api/webhooks/:id
+ */
+export async function deleteWebhook(id: string): Promise<void> {
+  await api.delete(`${ENDPOINT}/${id}`);
+}
+
+/**
+ * 取得訂閱的送出紀錄，新的在前
+ * 對應 backend GET /api/webhooks/:id/deliveries
+ */
+export async function fetchWebhookDeliveries(
+  id: string,
+  query: WebhookDeliveryQuery = {}
+): Promise<WebhookDelivery[]> {
+  const { data } = await api.get<WebhookDelivery[]>(
+    `${ENDPOINT}/${id}/deliveries`,
+    { params: query }
+  );
+  return data;
+}
+
+/**
+ * 以原本的內容重新送出一次
+ * 對應 backend POST /api/webhooks/:id/deliveries/:deliveryId/redeliver
+ */
+export async function redeliverWebhook(
+  id: string,
+  deliveryId: string
+): Promise<WebhookDelivery> {
+  const { data } = await api.post<WebhookDelivery>(
+    `${ENDPOINT}/${id}/deliveries/${deliveryId}/redeliver`
+  );
+  return data;
+}
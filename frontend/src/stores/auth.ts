@@ -0,0 +1,32 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { Role, User } from "../types";
+
+interface AuthState {
+  token: string | null;
+  user: User | null;
+  setSession: (token: string, user: User) => void;
+  clearSession: () => void;
+}
+
+/**
+ * 登入狀態，保存在 localStorage 以便重新整理後維持登入
+ */
+export const useAuthStore = create<AuthState>()(
+  persist(
+    (set) => ({
+      token: null,
+      user: null,
+      setSession: (token, user) => set({ token, user }),
+      clearSession: () => set({ token: null, user: null }),
+    }),
+    { name: "doublespot-auth" }
+  )
+);
+
+/**
+ * 是否可管理空間（新增 / 編輯 / 刪除）
+ */
+export function canManageSpaces(role: Role | undefined): boolean {
+  return role === "admin" || role === "manager";
+}
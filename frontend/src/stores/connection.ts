@@ -0,0 +1,16 @@
+import { create } from "zustand";
+
+export type ConnectionStatus = "connecting" | "open" | "closed";
+
+interface ConnectionState {
+  status: ConnectionStatus;
+  setStatus: (status: ConnectionStatus) => void;
+}
+
+/**
+ * 即時更新（SSE）的連線狀態，顯示在導覽列
+ */
+export const useConnectionStore = create<ConnectionState>()((set) => ({
+  status: "closed",
+  setStatus: (status) => set({ status }),
+}));
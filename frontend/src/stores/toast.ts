@@ -0,0 +1,41 @@
+import { create } from "zustand";
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface Toast {
+  id: number;
+  message: string;
+  action?: ToastAction;
+}
+
+interface ToastState {
+  toasts: Toast[];
+  showToast: (
+    message: string,
+    options?: { action?: ToastAction; durationMs?: number }
+  ) => void;
+  dismissToast: (id: number) => void;
+}
+
+const DEFAULT_DURATION_MS = 6000;
+let nextId = 1;
+
+/**
+ * 畫面右下角的提示訊息，可附帶一個動作按鈕（例如「復原」）
+ */
+export const useToastStore = create<ToastState>()((set, get) => ({
+  toasts: [],
+  showToast: (message, options = {}) => {
+    const id = nextId++;
+    set({ toasts: [...get().toasts, { id, message, action: options.action }] });
+    setTimeout(
+      () => get().dismissToast(id),
+      options.durationMs ?? DEFAULT_DURATION_MS
+    );
+  },
+  dismissToast: (id) =>
+    set({ toasts: get().toasts.filter((toast) => toast.id !== id) }),
+}));
@@ -0,0 +1,19 @@
+import type {
+  AmenityDTO,
+  CreateAmenityInput as CreateAmenityInputDTO,
+} from "@backend/features/amenity/types";
+import type { AmenityFacet as AmenityFacetDTO } from "@backend/features/space/types";
+
+// 由 backend features/amenity/schema.ts 推導
+
+/**
+ * 設備（投影機、白板、視訊會議、無障礙…），key 用於篩選
+ */
+export type Amenity = AmenityDTO;
+
+export type CreateAmenityInput = CreateAmenityInputDTO;
+
+/**
+ * 列表篩選側欄的設備計數（加上此設備後的結果數）
+ */
+export type AmenityFacet = AmenityFacetDTO;
@@ -0,0 +1,28 @@
+import type {
+  AuditAction as AuditActionDTO,
+  AuditEventDTO,
+  AuditPage as AuditPageDTO,
+  FieldChange as FieldChangeDTO,
+} from "@backend/features/audit/types";
+
+// 由 backend features/audit/schema.ts 推導
+
+/**
+ * 稽核事件的動作：新增 / 更新 / 刪除 / 還原
+ */
+export type AuditAction = AuditActionDTO;
+
+/**
+ * 單一欄位的變更前後值
+ */
+export type FieldChange = FieldChangeDTO;
+
+/**
+ * 稽核事件（changes 只包含有變動的欄位）
+ */
+export type AuditEvent = AuditEventDTO;
+
+/**
+ * 稽核事件分頁結果（由新到舊），nextCursor 為 null 表示已是最後一頁
+ */
+export type AuditPage = AuditPageDTO;
@@ -0,0 +1,48 @@
+/**
+ * 使用者角色：admin / manager 可管理空間，member 僅可瀏覽與預約
+ */
+export type Role = "admin" | "manager" | "member";
+
+/**
+ * 使用者資料類型（對齊 backend UserDTO）
+ */
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  role: Role;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 登入輸入資料
+ */
+export interface LoginInput {
+  email: string;
+  password: string;
+}
+
+/**
+ * 註冊輸入資料
+ */
+export interface RegisterInput {
+  email: string;
+  name: string;
+  password: string;
+}
+
+/**
+ * 登入回應（對齊 backend LoginResult）
+ */
+export interface LoginResult {
+  token: string;
+  user: User;
+}
+
+/**
+ * 行事曆訂閱 token（對齊 backend CalendarTokenResult）
+ */
+export interface CalendarToken {
+  token: string;
+}
@@ -0,0 +1,97 @@
+import type { RuleViolation } from "./space";
+
+/**
+ * Booking 狀態
+ */
+export type BookingStatus = "confirmed" | "cancelled";
+
+/**
+ * Booking 資料類型（對齊 backend BookingDTO）
+ */
+export interface Booking {
+  id: string;
+  spaceId: string;
+  title: string;
+  attendees: number;
+  startAt: string;
+  endAt: string;
+  status: BookingStatus;
+  seriesId: string | null;
+  recurrenceId: string | null;
+  // 預約者（匯入或舊資料可能為 null）
+  userId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 重複預約系列（對齊 backend BookingSeriesDTO）
+ */
+export interface BookingSeries {
+  id: string;
+  spaceId: string;
+  title: string;
+  attendees: number;
+  startAt: string;
+  endAt: string;
+  rrule: string;
+  timeZone: string;
+  status: BookingStatus;
+  userId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 建立 Booking 的輸入資料（spaceId 由路徑帶入）
+ */
+export interface CreateBookingInput {
+  title: string;
+  attendees: number;
+  startAt: string;
+  endAt: string;
+}
+
+/**
+ * 改期 / 更新 Booking 的輸入資料
+ */
+export interface UpdateBookingInput {
+  title?: string;
+  attendees?: number;
+  startAt?: string;
+  endAt?: string;
+}
+
+/**
+ * 修改 / 取消重複預約的範圍：僅此一次或此次與之後
+ */
+export type OccurrenceScope = "this" | "following";
+
+/**
+ * 建立重複預約的輸入資料（rrule 為 RFC 5545 RRULE，例如 FREQ=WEEKLY;COUNT=10）
+ */
+export interface CreateRecurringBookingInput extends CreateBookingInput {
+  rrule: string;
+  timeZone?: string;
+  skipConflicts?: boolean;
+}
+
+/**
+ * 與既有預約衝突的場次
+ */
+export interface OccurrenceConflict {
+  startAt: string;
+  endAt: string;
+  conflictingBookingIds: string[];
+  // 因預約規則被拒絕的場次會附上違反的規則
+  violations?: RuleViolation[];
+}
+
+/**
+ * 建立重複預約的結果
+ */
+export interface RecurringBookingResult {
+  series: BookingSeries;
+  occurrences: Booking[];
+  conflicts: OccurrenceConflict[];
+}
@@ -0,0 +1,31 @@
+import type { OccurrenceConflict } from "./booking";
+
+/**
+ * 匯入 .ics 時單一事件的處理結果
+ */
+export type ImportEventStatus =
+  | "created"
+  | "partial"
+  | "conflict"
+  | "skipped"
+  | "invalid";
+
+/**
+ * 單一事件匯入結果（對齊 backend ImportedEventResult）
+ */
+export interface ImportedEventResult {
+  uid: string | null;
+  summary: string | null;
+  status: ImportEventStatus;
+  bookingIds: string[];
+  conflicts: OccurrenceConflict[];
+  error?: string;
+}
+
+/**
+ * .ics 匯入結果
+ */
+export interface CalendarImportResult {
+  created: number;
+  events: ImportedEventResult[];
+}
@@ -0,0 +1,13 @@
+/**
+ * 後端統一錯誤回應格式（對齊 backend ErrorBody）
+ */
+export interface ApiErrorBody {
+  code: string;
+  message: string;
+  details?: {
+    // 欄位層級錯誤，例如 { name: "name is required" }
+    fields?: Record<string, string>;
+    [key: string]: unknown;
+  };
+  requestId: string;
+}
@@ -0,0 +1,8 @@
+import type { SpaceStreamEvent as SpaceStreamEventDTO } from "@backend/features/event/types";
+
+// 由 backend features/event/schema.ts 推導
+
+/**
+ * GET /api/events 每則訊息的內容；space.deleted 時 space 為 null
+ */
+export type SpaceStreamEvent = SpaceStreamEventDTO;
@@ -1,8 +1,22 @@
+import type {
+  DependencyHealthDTO,
+  ReadinessDTO,
+  ReadinessStatus as ReadinessStatusDTO,
+} from "@backend/features/health/types";
+
+// 由 backend features/health/schema.ts 推導
+
 /**
- * 健康檢查回應（對齊 backend GET /）
+ * 單一相依服務（資料庫、SMTP）的檢查結果
  */
-export interface HealthResponse {
-  status: string;
-  message: string;
-  timestamp: string;
-}
+export type DependencyHealth = DependencyHealthDTO;
+
+/**
+ * ready：全部正常；degraded：非必要服務異常；unavailable：必要服務異常（HTTP 503）
+ */
+export type ReadinessStatus = ReadinessStatusDTO;
+
+/**
+ * 健康檢查回應（對齊 backend GET /api/health/ready）
+ */
+export type HealthResponse = ReadinessDTO;
@@ -1,2 +1,14 @@
 export * from "./space";
 export * from "./health";
+export * from "./booking";
+export * from "./calendar";
+export * from "./auth";
+export * from "./error";
+export * from "./audit";
+export * from "./location";
+export * from "./amenity";
+export * from "./waitlist";
+export * from "./reservation";
+export * from "./notification";
+export * from "./webhook";
+export * from "./event";
@@ -0,0 +1,45 @@
+import type {
+  BuildingDTO,
+  CreateBuildingInput as CreateBuildingInputDTO,
+  CreateFloorInput as CreateFloorInputDTO,
+  CreateSiteInput as CreateSiteInputDTO,
+  FloorDTO,
+  LocationTree as LocationTreeDTO,
+  SiteDTO,
+} from "@backend/features/location/types";
+
+// 由 backend features/location/schema.ts 推導
+
+/**
+ * 地點層級：據點（Site）> 建築（Building）> 樓層（Floor）> 空間
+ */
+export type LocationKind = "site" | "building" | "floor";
+
+export type Site = SiteDTO;
+
+export type Building = BuildingDTO;
+
+export type Floor = FloorDTO;
+
+/**
+ * 完整地點樹，樓層附帶空間數量（不含垃圾桶）
+ */
+export type LocationTree = LocationTreeDTO;
+
+export type CreateSiteInput = CreateSiteInputDTO;
+
+export type CreateBuildingInput = CreateBuildingInputDTO;
+
+// level 由 backend 預設為 0
+export type CreateFloorInput = Omit<CreateFloorInputDTO, "level"> & {
+  level?: number;
+};
+
+/**
+ * 篩選時選取的地點（只會有最深的一層有效）
+ */
+export interface LocationSelection {
+  siteId?: string;
+  buildingId?: string;
+  floorId?: string;
+}
@@ -0,0 +1,25 @@
+import type {
+  NotificationLocale as NotificationLocaleDTO,
+  NotificationPreferencesDTO,
+  UpdateNotificationPreferencesInput,
+} from "@backend/features/notification/types";
+import type { DomainEventType as DomainEventTypeDTO } from "@backend/features/outbox/types";
+
+// 由 backend features/notification/schema.ts 推導
+
+/**
+ * 可訂閱的事件類型，例如 space.created
+ */
+export type DomainEventType = DomainEventTypeDTO;
+
+/**
+ * 通知信件的語言
+ */
+export type NotificationLocale = NotificationLocaleDTO;
+
+/**
+ * 通知偏好；從未儲存過的使用者預設不收任何通知
+ */
+export type NotificationPreferences = NotificationPreferencesDTO;
+
+export type UpdateNotificationPreferences = UpdateNotificationPreferencesInput;
@@ -0,0 +1,28 @@
+import type {
+  ApproverDTO,
+  CreateReservationInput as CreateReservationInputDTO,
+  ReservationDTO,
+  ReservationStatus as ReservationStatusDTO,
+  UpdateApproversInput as UpdateApproversInputDTO,
+} from "@backend/features/reservation/types";
+
+// 由 backend features/reservation/schema.ts 推導
+
+/**
+ * 預約申請狀態：待審核、已核准、已駁回、已逾時
+ */
+export type ReservationStatus = ReservationStatusDTO;
+
+/**
+ * 需審核空間的預約申請；待審核期間會暫時保留時段，核准後 bookingId 指向建立的預約
+ */
+export type Reservation = ReservationDTO;
+
+export type CreateReservationInput = CreateReservationInputDTO;
+
+/**
+ * 空間指定的審核者
+ */
+export type Approver = ApproverDTO;
+
+export type UpdateApproversInput = UpdateApproversInputDTO;
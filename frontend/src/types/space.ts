@@ -1,26 +1,144 @@
+import type {
+  AvailabilityQuery as AvailabilityQueryDTO,
+  AvailabilityResult as AvailabilityResultDTO,
+  BlackoutDTO,
+  CreateBlackoutInput as CreateBlackoutInputDTO,
+  CreateSpaceInput as CreateSpaceInputDTO,
+  ExportSpacesQuery,
+  OpeningHours as OpeningHoursDTO,
+  RuleViolation as RuleViolationDTO,
+  MatchRange as MatchRangeDTO,
+  SpaceSearchHit as SpaceSearchHitDTO,
+  SpaceSearchResult as SpaceSearchResultDTO,
+  SlotSuggestion as SlotSuggestionDTO,
+  SpaceDTO,
+  SpaceImportResult as SpaceImportResultDTO,
+  SpaceImportRowResult as SpaceImportRowResultDTO,
+  SpacePage as SpacePageDTO,
+  SpaceRulesDTO,
+  TrashedSpaceDTO,
+  UpdateSpaceInput as UpdateSpaceInputDTO,
+  UpdateSpaceRulesInput as UpdateSpaceRulesInputDTO,
+} from "@backend/features/space/types";
+
+// 以下類型皆由 backend features/space/schema.ts 的 zod schema 推導，
+// 驗證規則只在 schema 維護一份
+
 /**
  * Space 資料類型（對齊 backend SpaceDTO）
  */
-export interface Space {
-  id: string;
-  name: string;
-  capacity: number;
-  createdAt: string;
-  updatedAt: string;
-}
+export type Space = SpaceDTO;
+
+/**
+ * 垃圾桶中的 Space（purgeAt 之後會被永久刪除）
+ */
+export type TrashedSpace = TrashedSpaceDTO;
 
 /**
  * 建立 Space 的輸入資料
  */
-export interface CreateSpaceInput {
-  name: string;
-  capacity: number;
-}
+export type CreateSpaceInput = CreateSpaceInputDTO;
 
 /**
  * 更新 Space 的輸入資料
  */
-export interface UpdateSpaceInput {
+export type UpdateSpaceInput = UpdateSpaceInputDTO;
+
+/**
+ * Space 列表分頁結果，nextCursor 為 null 表示已是最後一頁
+ */
+export type SpacePage = SpacePageDTO;
+
+/**
+ * 批次匯入單列的檢查結果（action 為 null 表示該列有錯誤）
+ */
+export type SpaceImportRowResult = SpaceImportRowResultDTO;
+
+/**
+ * 批次匯入結果；dryRun 時只檢查不寫入
+ */
+export type SpaceImportResult = SpaceImportResultDTO;
+
+/**
+ * 匯出格式
+ */
+export type SpaceExportFormat = ExportSpacesQuery["format"];
+
+/**
+ * Space 列表篩選與排序（與網址 query string 同步）
+ * sort 例如 "-capacity,name"：容量由大到小，再依名稱
+ */
+export interface SpaceListFilters {
   name?: string;
-  capacity?: number;
+  minCapacity?: number;
+  maxCapacity?: number;
+  createdFrom?: string;
+  createdTo?: string;
+  // 地點篩選，只需帶最深的一層
+  siteId?: string;
+  buildingId?: string;
+  floorId?: string;
+  // 逗號分隔的設備 key，需全部具備
+  amenities?: string;
+  sort?: string;
 }
+
+/**
+ * 空間可用性查詢參數（對齊 backend AvailabilityQuery）
+ */
+export type AvailabilityQuery = AvailabilityQueryDTO;
+
+/**
+ * 無空間可用時建議的替代時段
+ */
+export type SlotSuggestion = SlotSuggestionDTO;
+
+/**
+ * 空間可用性查詢結果（spaces 依最適容量排序）
+ */
+export type AvailabilityResult = AvailabilityResultDTO;
+
+/**
+ * 每週開放時段（weekday 0 為週日，時間為規則時區的當地時間）
+ */
+export type OpeningHours = OpeningHoursDTO;
+
+/**
+ * Space 的預約規則（對齊 backend SpaceRulesDTO）；openingHours 為 null 表示全天開放
+ */
+export type SpaceRules = SpaceRulesDTO;
+
+/**
+ * 更新預約規則的輸入資料（整份取代）
+ */
+export type UpdateSpaceRulesInput = UpdateSpaceRulesInputDTO;
+
+/**
+ * 停用時段（期間內不可預約）
+ */
+export type Blackout = BlackoutDTO;
+
+/**
+ * 建立停用時段的輸入資料
+ */
+export type CreateBlackoutInput = CreateBlackoutInputDTO;
+
+/**
+ * 預約違反的規則（rule 為規則名稱，重複預約時 startAt 指出是哪一場）
+ */
+export type RuleViolation = RuleViolationDTO;
+
+/**
+ * 搜尋命中的文字範圍（UTF-16 位置，end 不含），可直接用 slice 擷取
+ */
+export type MatchRange = MatchRangeDTO;
+
+/**
+ * 單筆搜尋結果；location 為「據點 / 建築 / 樓層」，highlights 標出命中的範圍
+ */
+export type SpaceSearchHit = SpaceSearchHitDTO;
+
+/**
+ * 空間搜尋結果（items 依相關度排序，total 為全部命中數）
+ */
+export type SpaceSearchResult = SpaceSearchResultDTO;
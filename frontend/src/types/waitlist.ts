@@ -0,0 +1,19 @@
+import type {
+  JoinWaitlistInput as JoinWaitlistInputDTO,
+  WaitlistEntryDTO,
+  WaitlistStatus as WaitlistStatusDTO,
+} from "@backend/features/waitlist/types";
+
+// 由 backend features/waitlist/schema.ts 推導
+
+/**
+ * 候補狀態：等待中、已轉為預約、已過期、已離開
+ */
+export type WaitlistStatus = WaitlistStatusDTO;
+
+/**
+ * 候補登記；spaceId 為 null 表示任何容量足夠的空間，position 為目前順位
+ */
+export type WaitlistEntry = WaitlistEntryDTO;
+
+export type JoinWaitlistInput = JoinWaitlistInputDTO;
@@ -0,0 +1,28 @@
+import type {
+  CreateWebhookInput as CreateWebhookInputDTO,
+  UpdateWebhookInput as UpdateWebhookInputDTO,
+  WebhookDeliveryDTO,
+  WebhookDeliveryStatus as WebhookDeliveryStatusDTO,
+  WebhookDTO,
+} from "@backend/features/webhook/types";
+
+// 由 backend features/webhook/schema.ts 推導
+
+/**
+ * Webhook 訂閱；secret 只在建立或更新時送出，不會回傳
+ */
+export type Webhook = WebhookDTO;
+
+export type CreateWebhookInput = CreateWebhookInputDTO;
+
+/**
+ * 帶 active: true 可重新啟用因連續失敗而停用的訂閱
+ */
+export type UpdateWebhookInput = UpdateWebhookInputDTO;
+
+/**
+ * 一次送出（含重試）的紀錄，回應碼與錯誤為最後一次嘗試的結果
+ */
+export type WebhookDelivery = WebhookDeliveryDTO;
+
+export type WebhookDeliveryStatus = WebhookDeliveryStatusDTO;